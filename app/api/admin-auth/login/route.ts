@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyAdminCredentials, createAdminSession } from '@/lib/auth/admin-session'
 import { isAdminAuthConfigured } from '@/lib/admin/config-validator'
-import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { getRequestContext, getSecurityAuditLog } from '@/lib/auth/security-audit'
 
 export async function POST(request: NextRequest) {
   try {
     // Apply rate limiting
-    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 10, "15 m")
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminLogin)
     if (rateLimitResponse) {
       return rateLimitResponse
     }
@@ -21,20 +23,46 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { email, password, portalKey } = body
+    const { email, password, portalKey, mfaCode } = body
+    const { ipAddress, userAgent } = getRequestContext(request)
+    const audit = getSecurityAuditLog()
 
-    if (!email || !password || !portalKey) {
+    if (!email || !password) {
       return NextResponse.json(
-        { error: 'Email, password, and portal key are required' },
+        { error: 'Email and password are required' },
         { status: 400 }
       )
     }
 
-    // Verify credentials and portal key
-    const result = await verifyAdminCredentials(email, password, portalKey)
+    // Verify portal key, password and second factor
+    const result = await verifyAdminCredentials(email, password, portalKey, mfaCode || undefined)
 
     if (!result.success) {
-      // Log failed login attempt
+      // Password accepted, waiting on the second factor
+      if (result.mfa && !result.error) {
+        await audit.record({
+          userId: result.userId ?? null,
+          eventType: 'admin_login_mfa_pending',
+          ipAddress,
+          userAgent,
+          details: { email, step: result.mfa }
+        })
+
+        return NextResponse.json({
+          success: false,
+          mfa: result.mfa,
+          ...(result.enrollment ? { enrollment: result.enrollment } : {})
+        })
+      }
+
+      await audit.record({
+        userId: result.userId ?? null,
+        eventType: 'admin_login_failed',
+        ipAddress,
+        userAgent,
+        details: { email, reason: result.error, ...(result.mfa ? { step: result.mfa } : {}) }
+      })
+
       console.warn('[AdminAuth] Failed login attempt:', {
         email,
         timestamp: new Date().toISOString(),
@@ -42,15 +70,32 @@ export async function POST(request: NextRequest) {
       })
 
       return NextResponse.json(
-        { error: result.error || 'Authentication failed' },
+        {
+          error: result.error || 'Authentication failed',
+          ...(result.mfa ? { mfa: result.mfa } : {})
+        },
         { status: 401 }
       )
     }
 
     // Create admin session
-    await createAdminSession(result.userId!, email)
+    await createAdminSession(result.userId!, email, { ipAddress, userAgent })
+
+    if (result.recoveryCodes) {
+      await audit.record({ userId: result.userId!, eventType: 'admin_mfa_enrolled', ipAddress, userAgent })
+    }
+    if (result.mfaMethod === 'recovery_code') {
+      await audit.record({ userId: result.userId!, eventType: 'admin_recovery_code_used', ipAddress, userAgent })
+    }
+
+    await audit.record({
+      userId: result.userId!,
+      eventType: 'admin_login_succeeded',
+      ipAddress,
+      userAgent,
+      details: { email, role: result.role, mfaMethod: result.mfaMethod }
+    })
 
-    // Log successful login
     console.log('[AdminAuth] Successful admin login:', {
       email,
       userId: result.userId,
@@ -59,7 +104,8 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: 'Admin authentication successful'
+      message: 'Admin authentication successful',
+      ...(result.recoveryCodes ? { recoveryCodes: result.recoveryCodes } : {})
     })
 
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { destroyAdminSession, getAdminSession } from '@/lib/auth/admin-session'
+import { getRequestContext, getSecurityAuditLog } from '@/lib/auth/security-audit'
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,6 +12,13 @@ export async function POST(request: NextRequest) {
         userId: session.userId,
         timestamp: new Date().toISOString()
       })
+
+      await getSecurityAuditLog().record({
+        userId: session.userId,
+        eventType: 'admin_logout',
+        ...getRequestContext(request),
+        details: { sessionId: session.id }
+      })
     }
 
     await destroyAdminSession()
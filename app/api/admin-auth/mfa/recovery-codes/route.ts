@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReviewActor } from '@/lib/auth/admin-session'
+import { getAdminMfaService } from '@/lib/auth/admin-mfa'
+import { getRequestContext, getSecurityAuditLog } from '@/lib/auth/security-audit'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, ValidationError, handleError } from '@/lib/errors/error-handler'
+
+/**
+ * POST /api/admin-auth/mfa/recovery-codes
+ * Replace the signed-in portal user's recovery codes. Requires a current
+ * authenticator code so a stolen session can't mint new codes.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminSecurity)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const actor = await getReviewActor()
+    if (!actor) {
+      throw new AuthenticationError('Admin authentication required')
+    }
+
+    const { code } = await request.json()
+    if (!code || typeof code !== 'string') {
+      throw new ValidationError('Authentication code is required')
+    }
+
+    const mfa = getAdminMfaService()
+    if (await mfa.verify(actor.userId, code) !== 'totp') {
+      throw new ValidationError('Invalid authentication code')
+    }
+
+    const recoveryCodes = await mfa.regenerateRecoveryCodes(actor.userId)
+
+    await getSecurityAuditLog().record({
+      userId: actor.userId,
+      eventType: 'admin_recovery_codes_regenerated',
+      ...getRequestContext(request)
+    })
+
+    return NextResponse.json({ success: true, recoveryCodes })
+  } catch (error) {
+    console.error('[AdminMfa] Recovery code error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { destroyAdminSession, getAdminSession, verifyAdminRole } from '@/lib/auth/admin-session'
+import { getAdminSessionStore } from '@/lib/auth/admin-session-store'
+import { getRequestContext, getSecurityAuditLog } from '@/lib/auth/security-audit'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, AuthorizationError, NotFoundError, handleError } from '@/lib/errors/error-handler'
+
+/**
+ * DELETE /api/admin-auth/sessions/[id]
+ * Revoke one portal session. Admins can revoke anyone's session; reviewers
+ * only their own.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminSecurity)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const session = await getAdminSession()
+    if (!session) {
+      throw new AuthenticationError('Admin authentication required')
+    }
+
+    const { id } = await params
+    const store = getAdminSessionStore()
+    const target = await store.get(id)
+    if (!target) {
+      throw new NotFoundError('Session')
+    }
+    if (target.user_id !== session.userId && !(await verifyAdminRole(session.userId))) {
+      throw new AuthorizationError('You can only sign out your own sessions')
+    }
+
+    const revoked = await store.revoke(id, 'revoked')
+    if (id === session.id) {
+      await destroyAdminSession()
+    }
+
+    if (revoked) {
+      await getSecurityAuditLog().record({
+        userId: target.user_id,
+        eventType: 'admin_session_revoked',
+        ...getRequestContext(request),
+        details: { sessionId: id, revokedBy: session.userId }
+      })
+    }
+
+    return NextResponse.json({ success: true, revoked, current: id === session.id })
+  } catch (error) {
+    console.error('[AdminSessions] Revoke error:', error)
+    return handleError(error)
+  }
+}
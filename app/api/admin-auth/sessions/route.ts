@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { destroyAdminSession, getAdminSession } from '@/lib/auth/admin-session'
+import { getAdminSessionStore } from '@/lib/auth/admin-session-store'
+import { getRequestContext, getSecurityAuditLog } from '@/lib/auth/security-audit'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError } from '@/lib/errors/error-handler'
+
+/**
+ * DELETE /api/admin-auth/sessions
+ * Sign out everywhere: revoke every portal session of the signed-in user,
+ * including this one
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const session = await getAdminSession()
+    if (!session) {
+      throw new AuthenticationError('Admin authentication required')
+    }
+
+    const revoked = await getAdminSessionStore().revokeAllForUser(session.userId, 'sign_out_everywhere')
+    await destroyAdminSession()
+
+    await getSecurityAuditLog().record({
+      userId: session.userId,
+      eventType: 'admin_sessions_revoked_all',
+      ...getRequestContext(request),
+      details: { revoked }
+    })
+
+    console.log('[AdminSessions] Signed out everywhere:', { userId: session.userId, revoked })
+
+    return NextResponse.json({ success: true, revoked })
+  } catch (error) {
+    console.error('[AdminSessions] Sign out everywhere error:', error)
+    return handleError(error)
+  }
+}
@@ -1,11 +1,12 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAdminAuth } from '@/lib/auth/admin-session'
-import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
 
 export async function GET(request: NextRequest) {
   try {
-    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 30, '1 m')
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
     if (rateLimitResponse) {
       return rateLimitResponse
     }
@@ -59,7 +60,9 @@ export async function GET(request: NextRequest) {
       approved_count: 0,
       rejected_count: 0,
       failed_count: 0,
-      avg_review_time_hours: 0
+      avg_review_time_hours: 0,
+      median_review_time_hours: 0,
+      p90_review_time_hours: 0
     }
 
     const subscriptions = subscriptionAnalytics.data?.[0] || {
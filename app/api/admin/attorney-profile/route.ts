@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdminSession, requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError } from '@/lib/errors/error-handler'
+import { getAttorneyProfileStore } from '@/lib/letters/attorney-profile'
+
+/**
+ * GET /api/admin/attorney-profile
+ * The signed-in admin's attorney credentials and signature
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const session = await getAdminSession()
+    if (!session) {
+      throw new AuthenticationError()
+    }
+
+    const profile = await getAttorneyProfileStore().get(session.userId)
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * PUT /api/admin/attorney-profile
+ * Update the bar number, state, firm and title printed under the signature
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const session = await getAdminSession()
+    if (!session) {
+      throw new AuthenticationError()
+    }
+
+    const body = await request.json()
+    const profile = await getAttorneyProfileStore().update(session.userId, {
+      isLicensedAttorney: body.isLicensedAttorney,
+      barNumber: body.barNumber,
+      barState: body.barState,
+      firmName: body.firmName,
+      title: body.title,
+    })
+
+    console.log('[AdminAttorneyProfile] Profile updated:', { userId: session.userId })
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    console.error('[AdminAttorneyProfile] Update error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdminSession, requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError, ValidationError } from '@/lib/errors/error-handler'
+import { getAttorneyProfileStore } from '@/lib/letters/attorney-profile'
+
+/**
+ * POST /api/admin/attorney-profile/signature
+ * Upload the signature image drawn on letters this admin reviews
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const session = await getAdminSession()
+    if (!session) {
+      throw new AuthenticationError()
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      throw new ValidationError('A signature image is required')
+    }
+
+    const profile = await getAttorneyProfileStore().uploadSignature(session.userId, file)
+
+    console.log('[AdminAttorneyProfile] Signature uploaded:', { userId: session.userId })
+
+    return NextResponse.json({ success: true, profile }, { status: 201 })
+  } catch (error) {
+    console.error('[AdminAttorneyProfile] Signature upload error:', error)
+    return handleError(error)
+  }
+}
+
+/**
+ * DELETE /api/admin/attorney-profile/signature
+ * Remove the signature image; letters are signed without one
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const session = await getAdminSession()
+    if (!session) {
+      throw new AuthenticationError()
+    }
+
+    const profile = await getAttorneyProfileStore().removeSignature(session.userId)
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    return handleError(error)
+  }
+}
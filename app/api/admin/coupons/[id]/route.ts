@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError } from '@/lib/errors/error-handler'
+import { getCouponCampaigns } from '@/lib/billing/coupon-campaigns'
+
+/**
+ * PATCH /api/admin/coupons/[id]
+ * Update a coupon's discount, validity window, caps or status. The code is fixed.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const { id } = await params
+    const body = await request.json()
+    const coupon = await getCouponCampaigns().update(id, body)
+
+    console.log('[CouponAnalytics] Coupon updated:', coupon.code)
+
+    return NextResponse.json({ success: true, coupon })
+  } catch (error) {
+    console.error('[CouponAnalytics] Update error:', error)
+    return handleError(error)
+  }
+}
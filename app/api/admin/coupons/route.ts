@@ -1,11 +1,14 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAdminAuth } from '@/lib/auth/admin-session'
-import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError } from '@/lib/errors/error-handler'
+import { getCouponCampaigns } from '@/lib/billing/coupon-campaigns'
 
 export async function GET(request: NextRequest) {
   try {
-    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 30, '1 m')
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
     if (rateLimitResponse) {
       return rateLimitResponse
     }
@@ -21,7 +24,16 @@ export async function GET(request: NextRequest) {
       .select(`
         id,
         code,
+        description,
+        discount_type,
         discount_percent,
+        discount_amount,
+        starts_at,
+        expires_at,
+        max_redemptions,
+        max_redemptions_per_user,
+        allowed_plans,
+        first_purchase_only,
         is_active,
         usage_count,
         created_at,
@@ -98,9 +110,18 @@ export async function GET(request: NextRequest) {
       return {
         id: coupon.id,
         code: coupon.code,
-        employee_name: (coupon.profiles as any)?.full_name || 'Unknown',
-        employee_email: (coupon.profiles as any)?.email || '',
+        employee_name: coupon.employee_id ? (coupon.profiles as any)?.full_name || 'Unknown' : 'Campaign',
+        employee_email: (coupon.profiles as any)?.email || coupon.description || '',
+        is_campaign: !coupon.employee_id,
+        discount_type: coupon.discount_type,
         discount_percent: coupon.discount_percent,
+        discount_amount: coupon.discount_amount,
+        starts_at: coupon.starts_at,
+        expires_at: coupon.expires_at,
+        max_redemptions: coupon.max_redemptions,
+        max_redemptions_per_user: coupon.max_redemptions_per_user,
+        allowed_plans: coupon.allowed_plans,
+        first_purchase_only: coupon.first_purchase_only,
         is_active: coupon.is_active,
         usage_count: coupon.usage_count || 0,
         total_discount_given: employeeDiscounts,
@@ -143,3 +164,29 @@ export async function GET(request: NextRequest) {
     )
   }
 }
+
+/**
+ * POST /api/admin/coupons
+ * Create a marketing campaign code (no referring employee)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const body = await request.json()
+    const coupon = await getCouponCampaigns().create(body)
+
+    console.log('[CouponAnalytics] Campaign coupon created:', coupon.code)
+
+    return NextResponse.json({ success: true, coupon }, { status: 201 })
+  } catch (error) {
+    console.error('[CouponAnalytics] Create error:', error)
+    return handleError(error)
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient as createServerClient } from '@/lib/supabase/server'
-import { AuthorizationError, handleError, ValidationError } from '@/lib/errors/error-handler'
-import { getEmailQueue } from '@/lib/email/queue'
+import { AuthorizationError, handleError, NotFoundError, ValidationError } from '@/lib/errors/error-handler'
+import { getEmailQueue, getEmailQueueConfig } from '@/lib/email/queue'
+import { getEmailService } from '@/lib/email/service'
 
 /**
  * GET /api/admin/email-queue
- * Get email queue statistics and recent items
+ * Get email queue statistics, recent items, provider health and queue
+ * settings; `?view=dead&limit=&offset=` lists dead-lettered emails instead
  */
 export async function GET(request: NextRequest) {
   try {
@@ -28,8 +30,26 @@ export async function GET(request: NextRequest) {
       return handleError(new AuthorizationError('Admin access required'))
     }
 
-    // Get queue statistics
     const emailQueue = getEmailQueue()
+    const searchParams = request.nextUrl.searchParams
+
+    // Dead letters, paged, for the dead-letter view
+    if (searchParams.get('view') === 'dead') {
+      const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), 200)
+      const offset = Math.max(Number(searchParams.get('offset')) || 0, 0)
+      const deadLetters = await emailQueue.listDeadLetters(limit, offset)
+
+      return NextResponse.json({
+        success: true,
+        deadLetters: deadLetters.items,
+        total: deadLetters.total,
+        limit,
+        offset,
+        timestamp: new Date().toISOString()
+      })
+    }
+
+    // Get queue statistics
     const stats = await emailQueue.getStats()
 
     // Get recent queue items
@@ -47,6 +67,8 @@ export async function GET(request: NextRequest) {
       success: true,
       stats,
       recentItems: recentItems || [],
+      providers: getEmailService().getProviderHealth(),
+      config: getEmailQueueConfig(),
       timestamp: new Date().toISOString()
     })
   } catch (error) {
@@ -55,8 +77,14 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/admin/email-queue/retry
- * Retry failed emails
+ * POST /api/admin/email-queue
+ * Manage the queue: `{ action, emailId?, emailIds?, olderThanDays? }`
+ * - retry-dead: requeue dead letters, all or the given ids (retry-failed is
+ *   an alias)
+ * - retry-single: requeue one dead letter
+ * - purge-dead: delete dead letters, all, the given ids, or those older
+ *   than olderThanDays
+ * - process-queue: run the queue now
  */
 export async function POST(request: NextRequest) {
   try {
@@ -80,67 +108,61 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { action, emailId } = body
+    const { action, emailId, emailIds, olderThanDays } = body
 
     if (!action) {
       return handleError(new ValidationError('Missing required field: action'))
     }
 
-    if (action === 'retry-failed') {
-      // Retry all failed emails
-      const { error } = await supabase
-        .from('email_queue')
-        .update({
-          status: 'pending',
-          attempts: 0,
-          next_retry_at: new Date().toISOString(),
-          error: null
-        })
-        .eq('status', 'failed')
-
-      if (error) {
-        console.error('[EmailQueueAPI] Error retrying failed emails:', error)
-        return NextResponse.json(
-          { success: false, error: error.message },
-          { status: 500 }
-        )
-      }
+    const emailQueue = getEmailQueue()
+    const ids = emailIds === undefined ? undefined : parseIds(emailIds)
+
+    if (action === 'retry-dead' || action === 'retry-failed') {
+      const requeued = await emailQueue.retryDeadLetters(ids)
 
       return NextResponse.json({
         success: true,
-        message: 'All failed emails have been queued for retry'
+        requeued,
+        message: `${requeued} dead-lettered email${requeued === 1 ? ' has' : 's have'} been queued for retry`
       })
     } else if (action === 'retry-single' && emailId) {
-      // Retry a single email
-      const { error } = await supabase
-        .from('email_queue')
-        .update({
-          status: 'pending',
-          attempts: 0,
-          next_retry_at: new Date().toISOString(),
-          error: null
-        })
-        .eq('id', emailId)
-
-      if (error) {
-        console.error('[EmailQueueAPI] Error retrying email:', error)
-        return NextResponse.json(
-          { success: false, error: error.message },
-          { status: 500 }
-        )
+      const requeued = await emailQueue.retryDeadLetters([String(emailId)])
+      if (requeued === 0) {
+        return handleError(new NotFoundError('Dead-lettered email'))
       }
 
       return NextResponse.json({
         success: true,
+        requeued,
         message: 'Email has been queued for retry'
       })
+    } else if (action === 'purge-dead') {
+      let before: Date | undefined
+      if (olderThanDays !== undefined) {
+        const days = Number(olderThanDays)
+        if (!Number.isFinite(days) || days < 0) {
+          return handleError(new ValidationError('olderThanDays must be a non-negative number'))
+        }
+        before = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+      }
+
+      const purged = await emailQueue.purgeDeadLetters({
+        ...(ids && { ids }),
+        ...(before && { before })
+      })
+
+      return NextResponse.json({
+        success: true,
+        purged,
+        message: `${purged} dead-lettered email${purged === 1 ? ' has' : 's have'} been deleted`
+      })
     } else if (action === 'process-queue') {
       // Process pending emails immediately
-      const emailQueue = getEmailQueue()
-      await emailQueue.processPending()
+      const result = await emailQueue.processPending()
 
       return NextResponse.json({
         success: true,
+        result,
         message: 'Email queue processing initiated'
       })
     } else {
@@ -150,3 +172,10 @@ export async function POST(request: NextRequest) {
     return handleError(error)
   }
 }
+
+function parseIds(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > 500 || !value.every(id => typeof id === 'string')) {
+    throw new ValidationError('emailIds must be a non-empty list of at most 500 ids')
+  }
+  return value
+}
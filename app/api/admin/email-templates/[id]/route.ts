@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError, ValidationError } from '@/lib/errors/error-handler'
+import { getEmailTemplateStore } from '@/lib/email/template-store'
+
+/**
+ * PATCH /api/admin/email-templates/[id]
+ * Publish a version (replacing the published one for its template and
+ * locale) or unpublish it. Saved versions themselves never change.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const { id } = await params
+    const body = await request.json()
+    if (typeof body.isActive !== 'boolean') {
+      return handleError(new ValidationError('isActive must be true or false'))
+    }
+
+    const version = await getEmailTemplateStore().setActive(id, body.isActive)
+
+    console.log('[AdminEmailTemplates] Version', body.isActive ? 'published:' : 'unpublished:', {
+      template: version.template_key,
+      locale: version.locale,
+      version: version.version,
+    })
+
+    return NextResponse.json({ success: true, version })
+  } catch (error) {
+    console.error('[AdminEmailTemplates] Publish error:', error)
+    return handleError(error)
+  }
+}
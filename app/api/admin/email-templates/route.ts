@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdminSession, requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError } from '@/lib/errors/error-handler'
+import { getEmailTemplateStore } from '@/lib/email/template-store'
+
+/**
+ * GET /api/admin/email-templates
+ * Every saved template version, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const versions = await getEmailTemplateStore().listVersions()
+
+    return NextResponse.json({ success: true, versions })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * POST /api/admin/email-templates
+ * Save a new version of a template for a locale, optionally publishing it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const session = await getAdminSession()
+    const body = await request.json()
+    const version = await getEmailTemplateStore().createVersion(body, session?.email ?? null)
+
+    console.log('[AdminEmailTemplates] Version saved:', {
+      template: version.template_key,
+      locale: version.locale,
+      version: version.version,
+      published: version.is_active,
+    })
+
+    return NextResponse.json({ success: true, version }, { status: 201 })
+  } catch (error) {
+    console.error('[AdminEmailTemplates] Save error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdminSession, requireAdminAuth } from '@/lib/auth/admin-session'
+import { getAdminMfaService } from '@/lib/auth/admin-mfa'
+import { getAdminSessionStore } from '@/lib/auth/admin-session-store'
+import { getRequestContext, getSecurityAuditLog } from '@/lib/auth/security-audit'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError } from '@/lib/errors/error-handler'
+
+/**
+ * DELETE /api/admin/mfa/[id]
+ * Remove a portal user's authenticator and recovery codes after a lost
+ * device, and sign them out everywhere. They set up a new authenticator at
+ * their next login.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminSecurity)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const { id } = await params
+    const session = await getAdminSession()
+
+    await getAdminMfaService().reset(id)
+    const revokedSessions = await getAdminSessionStore().revokeAllForUser(id, 'mfa_reset')
+
+    await getSecurityAuditLog().record({
+      userId: id,
+      eventType: 'admin_mfa_reset',
+      ...getRequestContext(request),
+      details: { resetBy: session?.userId ?? null, revokedSessions }
+    })
+
+    console.log('[AdminMfa] MFA reset:', { userId: id, by: session?.userId })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[AdminMfa] Reset error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError } from '@/lib/errors/error-handler'
+import { getPlanCatalog } from '@/lib/billing/plan-catalog'
+
+/**
+ * PATCH /api/admin/plans/[id]
+ * Update a plan's pricing, letters, copy or visibility. The plan key is fixed.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const { id } = await params
+    const body = await request.json()
+    const plan = await getPlanCatalog().update(id, body)
+
+    console.log('[AdminPlans] Plan updated:', plan.planType)
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error) {
+    console.error('[AdminPlans] Update error:', error)
+    return handleError(error)
+  }
+}
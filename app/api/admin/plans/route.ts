@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError } from '@/lib/errors/error-handler'
+import { getPlanCatalog } from '@/lib/billing/plan-catalog'
+
+/**
+ * GET /api/admin/plans
+ * All plans, including hidden ones
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const plans = await getPlanCatalog().list({ includeHidden: true })
+
+    return NextResponse.json({ success: true, plans })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * POST /api/admin/plans
+ * Create a plan
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const body = await request.json()
+    const plan = await getPlanCatalog().create(body)
+
+    console.log('[AdminPlans] Plan created:', plan.planType)
+
+    return NextResponse.json({ success: true, plan }, { status: 201 })
+  } catch (error) {
+    console.error('[AdminPlans] Create error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdminSession, requireAdminAuth } from '@/lib/auth/admin-session'
+import { getRequestContext, getSecurityAuditLog } from '@/lib/auth/security-audit'
+import { applyRateLimitPolicy, listRateLimitCounters, rateLimitBackend, resetRateLimitCounter } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError, ValidationError } from '@/lib/errors/error-handler'
+
+/**
+ * GET /api/admin/rate-limits
+ * Live rate limit counters and the backend holding them
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const counters = await listRateLimitCounters()
+
+    return NextResponse.json({
+      success: true,
+      backend: rateLimitBackend,
+      counters,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * DELETE /api/admin/rate-limits
+ * Reset one subject's counter for a policy, e.g. to unblock a customer
+ * locked out by a retry loop
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const body = await request.json().catch(() => ({}))
+    const policy = typeof body.policy === 'string' ? body.policy.trim() : ''
+    const subject = typeof body.subject === 'string' ? body.subject.trim() : ''
+    if (!policy || !subject) {
+      throw new ValidationError('Policy and subject are required')
+    }
+
+    await resetRateLimitCounter(policy, subject)
+
+    const session = await getAdminSession()
+    await getSecurityAuditLog().record({
+      userId: session?.userId ?? null,
+      eventType: 'admin_rate_limit_reset',
+      ...getRequestContext(request),
+      details: { policy, subject }
+    })
+
+    console.log('[RateLimit] Counter reset:', { policy, subject, by: session?.userId })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[RateLimit] Reset error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReviewActor, requireAdminAuth, requireReviewAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, AuthorizationError, handleError } from '@/lib/errors/error-handler'
+import { getReviewAssignmentService } from '@/lib/letters/review-assignment'
+
+/**
+ * PATCH /api/admin/reviewers/[id]
+ * Update availability or capacity. Reviewers may mark themselves
+ * unavailable; their open letters then go to other reviewers.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireReviewAuth()
+    if (authError) return authError
+
+    const { id } = await params
+    const actor = await getReviewActor()
+    if (!actor) {
+      throw new AuthenticationError()
+    }
+    if (actor.role !== 'admin' && actor.userId !== id) {
+      throw new AuthorizationError('Reviewers can only update their own availability')
+    }
+
+    const body = await request.json()
+    const result = await getReviewAssignmentService().updateReviewer(id, {
+      ...(body.available !== undefined && { available: body.available }),
+      ...(body.capacity !== undefined && { capacity: body.capacity })
+    })
+
+    console.log('[AdminReviewers] Reviewer updated:', { reviewerId: id, by: actor.userId, ...result })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('[AdminReviewers] Update error:', error)
+    return handleError(error)
+  }
+}
+
+/**
+ * DELETE /api/admin/reviewers/[id]
+ * Revoke the reviewer role, handing their open letters to other reviewers
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const { id } = await params
+    const result = await getReviewAssignmentService().removeReviewer(id)
+
+    console.log('[AdminReviewers] Reviewer removed:', { reviewerId: id, ...result })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('[AdminReviewers] Remove error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError, ValidationError } from '@/lib/errors/error-handler'
+import { getReviewAssignmentService, getReviewAssignmentStrategy } from '@/lib/letters/review-assignment'
+
+/**
+ * GET /api/admin/reviewers
+ * Reviewers with their availability and open letter counts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const reviewers = await getReviewAssignmentService().listWorkload()
+
+    return NextResponse.json({
+      success: true,
+      strategy: getReviewAssignmentStrategy(),
+      reviewers
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * POST /api/admin/reviewers
+ * Give an existing account the reviewer role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const body = await request.json()
+    if (typeof body.email !== 'string' || !body.email.trim()) {
+      throw new ValidationError('Email is required')
+    }
+
+    const reviewer = await getReviewAssignmentService().addReviewer(body.email)
+
+    console.log('[AdminReviewers] Reviewer added:', { reviewerId: reviewer.id })
+
+    return NextResponse.json({ success: true, reviewer }, { status: 201 })
+  } catch (error) {
+    console.error('[AdminReviewers] Add error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { getAdminActorId } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError } from '@/lib/errors/error-handler'
+import { getStripeEventLedger } from '@/lib/billing/stripe-events'
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: '2025-11-17.clover',
+}) : null
+
+/**
+ * POST /api/admin/stripe-events/[id]/redrive
+ * Re-run a failed Stripe event from its stored payload
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const adminId = await getAdminActorId()
+    if (!adminId) {
+      return handleError(new AuthenticationError('Admin authentication required'))
+    }
+
+    if (!stripe) {
+      return NextResponse.json({ error: 'Stripe is not configured' }, { status: 500 })
+    }
+
+    const { id } = await params
+    const outcome = await getStripeEventLedger().redrive(id, stripe, adminId)
+
+    return NextResponse.json({ success: true, outcome })
+  } catch (error) {
+    console.error('[StripeEvents] Re-drive error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError, ValidationError } from '@/lib/errors/error-handler'
+import { getStripeEventLedger, type StripeEventStatus } from '@/lib/billing/stripe-events'
+
+const STATUSES: StripeEventStatus[] = ['received', 'processing', 'processed', 'failed']
+
+/**
+ * GET /api/admin/stripe-events
+ * Stripe webhook ledger statistics and recent events, optionally by status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminRead)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const status = request.nextUrl.searchParams.get('status')
+    if (status && !STATUSES.includes(status as StripeEventStatus)) {
+      return handleError(new ValidationError('Invalid status filter'))
+    }
+
+    const ledger = getStripeEventLedger()
+    const [stats, events] = await Promise.all([
+      ledger.getStats(),
+      ledger.list(status ? { status: status as StripeEventStatus } : {})
+    ])
+
+    return NextResponse.json({
+      success: true,
+      stats,
+      events,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
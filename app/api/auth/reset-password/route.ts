@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { authRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
 
 export async function POST(request: NextRequest) {
   try {
     // Apply rate limiting
-    const rateLimitResponse = await safeApplyRateLimit(request, authRateLimit, 5, "15 m")
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.auth)
     if (rateLimitResponse) {
       return rateLimitResponse
     }
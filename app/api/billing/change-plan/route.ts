@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { createClient } from '@/lib/supabase/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError, NotFoundError, ValidationError } from '@/lib/errors/error-handler'
+import { BillingPortal, loadBillingSubscription } from '@/lib/billing/billing-portal'
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: '2025-11-17.clover',
+}) : null
+
+async function resolveBillingContext() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    throw new AuthenticationError()
+  }
+
+  if (!stripe) {
+    throw new Error('Stripe is not configured')
+  }
+
+  const subscription = await loadBillingSubscription(supabase, user.id)
+  if (!subscription) {
+    throw new NotFoundError('Active subscription')
+  }
+
+  return { portal: new BillingPortal(stripe), subscription }
+}
+
+/**
+ * GET /api/billing/change-plan?planType=...
+ * Preview a plan change: what kind of change it is and the prorated amount
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const planType = request.nextUrl.searchParams.get('planType')
+    if (!planType) {
+      return handleError(new ValidationError('Missing required field: planType'))
+    }
+
+    const { portal, subscription } = await resolveBillingContext()
+    const preview = await portal.previewPlanChange(subscription, planType)
+
+    return NextResponse.json({ success: true, preview })
+  } catch (error) {
+    console.error('[Billing] Plan change preview error:', error)
+    return handleError(error)
+  }
+}
+
+/**
+ * POST /api/billing/change-plan
+ * Upgrade, downgrade, schedule a switch to one-off purchases, or resume
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.billingChange)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const body = await request.json()
+    const { planType } = body
+
+    if (!planType || typeof planType !== 'string') {
+      return handleError(new ValidationError('Missing required field: planType'))
+    }
+
+    const { portal, subscription } = await resolveBillingContext()
+    const kind = await portal.changePlan(subscription, planType)
+
+    return NextResponse.json({ success: true, kind })
+  } catch (error) {
+    console.error('[Billing] Plan change error:', error)
+    return handleError(error)
+  }
+}
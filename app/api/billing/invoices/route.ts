@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { createClient } from '@/lib/supabase/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError } from '@/lib/errors/error-handler'
+import { BillingPortal, loadBillingSubscription } from '@/lib/billing/billing-portal'
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: '2025-11-17.clover',
+}) : null
+
+/**
+ * GET /api/billing/invoices
+ * The subscriber's invoices with links to the hosted receipt and PDF
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return handleError(new AuthenticationError())
+    }
+
+    const subscription = await loadBillingSubscription(supabase, user.id)
+    if (!subscription || !stripe) {
+      return NextResponse.json({ success: true, invoices: [] })
+    }
+
+    const invoices = await new BillingPortal(stripe).listInvoices(subscription)
+
+    return NextResponse.json({ success: true, invoices })
+  } catch (error) {
+    console.error('[Billing] Invoices error:', error)
+    return handleError(error)
+  }
+}
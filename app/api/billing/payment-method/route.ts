@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { createClient } from '@/lib/supabase/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError, NotFoundError } from '@/lib/errors/error-handler'
+import { BillingPortal, loadBillingSubscription } from '@/lib/billing/billing-portal'
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: '2025-11-17.clover',
+}) : null
+
+/**
+ * POST /api/billing/payment-method
+ * Start a Stripe customer portal session for updating the saved card
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.billingChange)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return handleError(new AuthenticationError())
+    }
+
+    if (!stripe) {
+      return NextResponse.json({ error: 'Stripe is not configured' }, { status: 500 })
+    }
+
+    const subscription = await loadBillingSubscription(supabase, user.id)
+    if (!subscription) {
+      return handleError(new NotFoundError('Billing account'))
+    }
+
+    const origin = request.headers.get('origin') || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    const url = await new BillingPortal(stripe).createPaymentMethodSession(subscription, `${origin}/dashboard/subscription`)
+
+    return NextResponse.json({ success: true, url })
+  } catch (error) {
+    console.error('[Billing] Payment method session error:', error)
+    return handleError(error)
+  }
+}
@@ -1,8 +1,12 @@
 import { createClient } from '@/lib/supabase/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
-import { subscriptionRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
 import { validateCouponWithFraudDetection } from '@/lib/fraud-detection/coupon-fraud'
+import { couponDiscount, isSuperUserCoupon as isSuperUserCouponFor, redeemCoupon, type CouponValidation } from '@/lib/billing/coupons'
+import { getPlanCatalog } from '@/lib/billing/plan-catalog'
 
 const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: '2025-11-17.clover',
@@ -10,12 +14,46 @@ const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SEC
 
 const TEST_MODE = process.env.ENABLE_TEST_MODE === 'true'
 
+/**
+ * Take back a subscription granted without payment when its coupon could not
+ * be redeemed. Subscribers cannot update their own subscriptions, so this
+ * runs as the service role.
+ */
+async function voidUnpaidSubscription(subscriptionId: string) {
+  const supabase = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  )
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      status: 'canceled',
+      credits_remaining: 0,
+      remaining_letters: 0,
+      activated_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', subscriptionId)
+
+  if (error) {
+    console.error('[Checkout] Failed to void subscription:', { subscriptionId, error })
+    throw new Error(`Failed to void subscription: ${error.message}`)
+  }
+}
+
 export async function POST(request: NextRequest) {
   console.log('[Checkout] Request received, TEST_MODE:', TEST_MODE)
 
   try {
     // Apply rate limiting
-    const rateLimitResponse = await safeApplyRateLimit(request, subscriptionRateLimit, 3, "1 h")
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.subscription)
     if (rateLimitResponse) {
       return rateLimitResponse
     }
@@ -32,162 +70,88 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { planType, couponCode } = body
 
-    const planConfig: Record<string, { price: number, letters: number, planType: string, name: string }> = {
-      'one_time': { price: 299, letters: 1, planType: 'one_time', name: 'Single Letter' },
-      'standard_4_month': { price: 299, letters: 4, planType: 'standard_4_month', name: 'Monthly Plan' },
-      'premium_8_month': { price: 599, letters: 8, planType: 'premium_8_month', name: 'Yearly Plan' }
-    }
-
-    const selectedPlan = planConfig[planType]
+    const selectedPlan = await getPlanCatalog().getPurchasable(planType)
     if (!selectedPlan) {
       return NextResponse.json({ error: 'Invalid plan type' }, { status: 400 })
     }
 
     const basePrice = selectedPlan.price
 
-    let discount = 0
-    let employeeId = null
-    let isSuperUserCoupon = false
-    let couponId = null
+    let coupon: CouponValidation | null = null
+    let fraudResult: Awaited<ReturnType<typeof validateCouponWithFraudDetection>>['fraudResult']
 
     if (couponCode) {
-      // Special handling for TALK3 coupon (100% discount, no database lookup, no commission)
-      if (couponCode.toUpperCase() === 'TALK3') {
-        discount = 100
-        employeeId = null // No commission for TALK3
-        isSuperUserCoupon = false // Not a super user coupon
-        couponId = null
-      } else {
-        // Enhanced coupon validation with fraud detection
-        console.log('[Checkout] Validating coupon with fraud detection:', couponCode)
-        const couponValidation = await validateCouponWithFraudDetection(couponCode, request, user.id)
-
-        if (!couponValidation.isValid) {
-          console.error('[Checkout] Coupon validation failed:', {
-            couponCode,
-            error: couponValidation.error,
-            fraudRisk: couponValidation.fraudResult?.riskScore
-          })
-
-          return NextResponse.json({
-            error: couponValidation.error || 'Invalid coupon code',
-            fraudDetection: couponValidation.fraudResult ? {
-              riskScore: couponValidation.fraudResult.riskScore,
-              action: couponValidation.fraudResult.action,
-              reasons: couponValidation.fraudResult.reasons
-            } : undefined
-          }, { status: 400 })
-        }
+      // Campaign rules and fraud detection; every code, including marketing
+      // codes like TALK3, is an ordinary coupon row
+      console.log('[Checkout] Validating coupon with fraud detection:', couponCode)
+      const couponValidation = await validateCouponWithFraudDetection(couponCode, request, user.id, selectedPlan.planType)
+
+      if (!couponValidation.isValid || !couponValidation.coupon) {
+        console.error('[Checkout] Coupon validation failed:', {
+          couponCode,
+          error: couponValidation.error,
+          fraudRisk: couponValidation.fraudResult?.riskScore
+        })
 
-        // Log fraud detection results for monitoring
-        if (couponValidation.fraudResult) {
-          console.warn('[Checkout] Fraud detection result:', {
-            couponCode,
+        return NextResponse.json({
+          error: couponValidation.error || 'Invalid coupon code',
+          fraudDetection: couponValidation.fraudResult ? {
             riskScore: couponValidation.fraudResult.riskScore,
             action: couponValidation.fraudResult.action,
             reasons: couponValidation.fraudResult.reasons
-          })
-        }
-
-        // Check employee coupons in database (including special promo codes)
-        const { data: coupon } = await supabase
-          .from('employee_coupons')
-          .select('*')
-          .eq('code', couponCode)
-          .eq('is_active', true)
-          .single()
-
-        if (coupon) {
-          discount = coupon.discount_percent
-          employeeId = coupon.employee_id
-          couponId = coupon.id
-
-          // If 100% discount, mark as super user
-          if (discount === 100) {
-            isSuperUserCoupon = true
-          }
-
-          // Log coupon usage with fraud detection context
-          await supabase
-            .from('coupon_usage')
-            .insert({
-              user_id: user.id,
-              coupon_code: couponCode,
-              employee_id: employeeId,
-              // subscription_id will be added after successful checkout
-              discount_percent: discount,
-              amount_before: basePrice,
-              amount_after: finalPrice,
-              ip_address: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown',
-              user_agent: request.headers.get('user-agent') || 'unknown',
-              fraud_risk_score: couponValidation.fraudResult?.riskScore || 0,
-              fraud_detection_data: couponValidation.fraudResult || null,
-              created_at: new Date().toISOString()
-            }).catch(error => {
-              console.error('[Checkout] Failed to log coupon usage:', error)
-              // Don't block checkout for logging errors
-            })
-        }
+          } : undefined
+        }, { status: 400 })
       }
-    }
-
-    const discountAmount = (basePrice * discount) / 100
-    const finalPrice = basePrice - discountAmount
 
-    // Special handling for TALK3 coupon with test mode
-    if (couponCode && couponCode.toUpperCase() === 'TALK3' && TEST_MODE) {
-      console.log('[Checkout] TALK3 coupon in TEST MODE: Creating dummy subscription')
-
-      // Create subscription directly as if payment succeeded
-      const { data: subscription, error: subError } = await supabase
-        .from('subscriptions')
-        .insert({
-          user_id: user.id,
-          plan: planType,
-          plan_type: planType,
-          status: 'active',
-          price: 0, // Free for TALK3
-          discount: basePrice,
-          coupon_code: 'TALK3',
-          credits_remaining: selectedPlan.letters,
-          remaining_letters: selectedPlan.letters,
-          current_period_start: new Date().toISOString(),
-          current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+      // Log fraud detection results for monitoring
+      if (couponValidation.fraudResult) {
+        console.warn('[Checkout] Fraud detection result:', {
+          couponCode,
+          riskScore: couponValidation.fraudResult.riskScore,
+          action: couponValidation.fraudResult.action,
+          reasons: couponValidation.fraudResult.reasons
         })
-        .select()
-        .single()
-
-      if (subError) {
-        console.error('[Checkout] TALK3 TEST MODE: Subscription creation error:', subError)
-        throw new Error(`Failed to create subscription: ${subError.message}`)
       }
 
-      // Track coupon usage for TALK3 (but no commission)
-      await supabase
+      coupon = couponValidation.coupon
+      fraudResult = couponValidation.fraudResult
+    }
+
+    const discountAmount = coupon ? couponDiscount(basePrice, coupon) : 0
+    const finalPrice = Math.round((basePrice - discountAmount) * 100) / 100
+    // Effective percentage, recorded on coupon usage for fixed discounts too
+    const discount = basePrice > 0 ? Math.round((discountAmount / basePrice) * 100) : 0
+    const employeeId = coupon?.employeeId ?? null
+    const couponId = coupon?.couponId ?? null
+    const isSuperUserCoupon = coupon ? isSuperUserCouponFor(coupon) : false
+
+    if (coupon) {
+      // Log the attempt with fraud detection context
+      const { error: attemptError } = await supabase
         .from('coupon_usage')
         .insert({
           user_id: user.id,
-          coupon_code: 'TALK3',
-          employee_id: null,
-          discount_percent: 100,
+          coupon_code: coupon.code,
+          coupon_id: couponId,
+          employee_id: employeeId,
+          // subscription_id will be added after successful checkout
+          discount_percent: discount,
           amount_before: basePrice,
-          amount_after: 0
+          amount_after: finalPrice,
+          ip_address: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown',
+          user_agent: request.headers.get('user-agent') || 'unknown',
+          fraud_risk_score: fraudResult?.riskScore || 0,
+          fraud_detection_data: fraudResult || null,
+          created_at: new Date().toISOString()
         })
 
-      console.log('[Checkout] TALK3 TEST MODE: Dummy subscription created successfully')
-
-      return NextResponse.json({
-        success: true,
-        testMode: true,
-        talk3Coupon: true,
-        subscriptionId: subscription.id,
-        letters: selectedPlan.letters,
-        message: 'TALK3 TEST MODE: Free subscription created successfully',
-        redirectUrl: `/dashboard/subscription?success=true&test=true&talk3=true`
-      })
+      if (attemptError) {
+        console.error('[Checkout] Failed to log coupon usage:', attemptError)
+        // Don't block checkout for logging errors
+      }
     }
 
-    // If 100% discount (non-TALK3), create subscription directly without payment
+    // If 100% discount, create subscription directly without payment
     if (finalPrice === 0) {
       const { data: subscription, error: subError } = await supabase
         .from('subscriptions')
@@ -198,9 +162,10 @@ export async function POST(request: NextRequest) {
           status: 'active',
           price: finalPrice,
           discount: discountAmount,
-          coupon_code: couponCode || null,
+          coupon_code: coupon?.code ?? null,
           credits_remaining: selectedPlan.letters,
           remaining_letters: selectedPlan.letters,
+          activated_at: new Date().toISOString(),
           current_period_start: new Date().toISOString(),
           current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
         })
@@ -212,6 +177,23 @@ export async function POST(request: NextRequest) {
         throw new Error(`Failed to create subscription: ${subError.message}`)
       }
 
+      // Count the redemption against the coupon's caps before anything else
+      // is granted; a checkout that lost the race gets nothing
+      if (couponId) {
+        const redemption = await redeemCoupon(supabase, {
+          couponId,
+          subscriptionId: subscription.id,
+          discountPercent: discount,
+          amountBefore: basePrice,
+          amountAfter: finalPrice
+        })
+
+        if (!redemption.redeemed) {
+          await voidUnpaidSubscription(subscription.id)
+          return NextResponse.json({ error: redemption.message }, { status: 409 })
+        }
+      }
+
       if (isSuperUserCoupon) {
         const { error: profileError } = await supabase
           .from('profiles')
@@ -223,24 +205,6 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      if (couponCode) {
-        const { error: usageError } = await supabase
-          .from('coupon_usage')
-          .insert({
-            user_id: user.id,
-            coupon_code: couponCode,
-            employee_id: employeeId,
-            discount_percent: discount,
-            amount_before: basePrice,
-            amount_after: finalPrice
-          })
-
-        if (usageError) {
-          console.error('[Checkout] Coupon usage tracking error:', usageError)
-          // Don't fail the checkout if usage tracking fails
-        }
-      }
-
       if (employeeId && subscription && !isSuperUserCoupon) {
         const commissionAmount = finalPrice * 0.05
 
@@ -258,25 +222,6 @@ export async function POST(request: NextRequest) {
         if (commissionError) {
           console.error('[Checkout] Commission creation error:', commissionError)
         }
-
-        // Update coupon usage count
-        const { data: currentCoupon } = await supabase
-          .from('employee_coupons')
-          .select('usage_count')
-          .eq('code', couponCode)
-          .maybeSingle()
-
-        const { error: updateError } = await supabase
-          .from('employee_coupons')
-          .update({
-            usage_count: (currentCoupon?.usage_count || 0) + 1,
-            updated_at: new Date().toISOString()
-          })
-          .eq('code', couponCode)
-
-        if (updateError) {
-          console.error('[Checkout] Coupon update error:', updateError)
-        }
       }
 
       return NextResponse.json({
@@ -301,9 +246,10 @@ export async function POST(request: NextRequest) {
           status: 'active',
           price: finalPrice,
           discount: discountAmount,
-          coupon_code: couponCode || null,
+          coupon_code: coupon?.code ?? null,
           credits_remaining: selectedPlan.letters,
           remaining_letters: selectedPlan.letters,
+          activated_at: new Date().toISOString(),
           current_period_start: new Date().toISOString(),
           current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
         })
@@ -315,18 +261,21 @@ export async function POST(request: NextRequest) {
         throw new Error(`Failed to create subscription: ${subError.message}`)
       }
 
-      // Track coupon usage
-      if (couponCode) {
-        await supabase
-          .from('coupon_usage')
-          .insert({
-            user_id: user.id,
-            coupon_code: couponCode,
-            employee_id: employeeId,
-            discount_percent: discount,
-            amount_before: basePrice,
-            amount_after: finalPrice
-          })
+      // Count the redemption against the coupon's caps before anything else
+      // is granted; a checkout that lost the race gets nothing
+      if (couponId) {
+        const redemption = await redeemCoupon(supabase, {
+          couponId,
+          subscriptionId: subscription.id,
+          discountPercent: discount,
+          amountBefore: basePrice,
+          amountAfter: finalPrice
+        })
+
+        if (!redemption.redeemed) {
+          await voidUnpaidSubscription(subscription.id)
+          return NextResponse.json({ error: redemption.message }, { status: 409 })
+        }
       }
 
       // Create commission if employee referral
@@ -342,21 +291,6 @@ export async function POST(request: NextRequest) {
             commission_amount: commissionAmount,
             status: 'pending'
           })
-
-        // Update coupon usage count
-        const { data: currentCoupon } = await supabase
-          .from('employee_coupons')
-          .select('usage_count')
-          .eq('code', couponCode)
-          .maybeSingle()
-
-        await supabase
-          .from('employee_coupons')
-          .update({
-            usage_count: (currentCoupon?.usage_count || 0) + 1,
-            updated_at: new Date().toISOString()
-          })
-          .eq('code', couponCode)
       }
 
       console.log('[Checkout] TEST MODE: Payment simulated successfully')
@@ -386,7 +320,7 @@ export async function POST(request: NextRequest) {
         status: 'pending',
         price: finalPrice,
         discount: discountAmount,
-        coupon_code: couponCode || null,
+        coupon_code: coupon?.code ?? null,
         credits_remaining: 0, // No credits until payment confirmed
         remaining_letters: 0,
         current_period_start: new Date().toISOString(),
@@ -403,38 +337,87 @@ export async function POST(request: NextRequest) {
     // Create Stripe Checkout Session for paid plans
     const origin = request.headers.get('origin') || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
 
+    const sessionMetadata = {
+      user_id: user.id,
+      subscription_id: pendingSubscription.id,
+      plan_type: planType,
+      letters: selectedPlan.letters.toString(),
+      base_price: basePrice.toString(),
+      discount: discountAmount.toString(),
+      final_price: finalPrice.toString(),
+      coupon_code: coupon?.code ?? '',
+      employee_id: employeeId || '',
+      is_super_user_coupon: isSuperUserCoupon.toString(),
+      coupon_id: couponId || ''
+    }
+
+    // Recurring plans are billed as Stripe subscriptions so renewals,
+    // failed payments and cancellations reach the webhook
+    const interval = selectedPlan.interval
+
+    // Keep every purchase on one Stripe customer so the billing area can
+    // list the full invoice history
+    const { data: billingRow } = await supabase
+      .from('subscriptions')
+      .select('stripe_customer_id')
+      .eq('user_id', user.id)
+      .not('stripe_customer_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    // Renewals bill the full plan price, so a coupon on a recurring plan
+    // comes off the first invoice only
+    const chargedPrice = interval ? basePrice : finalPrice
+    const firstInvoiceCoupon = interval && discountAmount > 0
+      ? await stripe.coupons.create({
+          amount_off: Math.round(discountAmount * 100),
+          currency: 'usd',
+          duration: 'once',
+          max_redemptions: 1,
+          name: coupon?.code ?? 'Discount',
+        })
+      : null
+
     const session = await stripe.checkout.sessions.create({
-      mode: 'payment',
+      mode: interval ? 'subscription' : 'payment',
       payment_method_types: ['card'],
+      ...(billingRow?.stripe_customer_id
+        ? { customer: billingRow.stripe_customer_id }
+        : !interval && { customer_creation: 'always' as const }),
+      // One-off purchases get an invoice and receipt like subscription payments
+      ...(!interval && { invoice_creation: { enabled: true } }),
       line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: selectedPlan.name,
-              description: `${selectedPlan.letters} Legal ${selectedPlan.letters === 1 ? 'Letter' : 'Letters'}`,
+        // Bill the catalog's Stripe Price when set and undiscounted
+        selectedPlan.stripePriceId && chargedPrice === basePrice
+          ? { price: selectedPlan.stripePriceId, quantity: 1 }
+          : {
+              price_data: {
+                currency: 'usd',
+                product_data: {
+                  name: selectedPlan.name,
+                  description: `${selectedPlan.letters} Legal ${selectedPlan.letters === 1 ? 'Letter' : 'Letters'}`,
+                },
+                unit_amount: Math.round(chargedPrice * 100), // Convert to cents
+                ...(interval && { recurring: { interval } }),
+              },
+              quantity: 1,
             },
-            unit_amount: Math.round(finalPrice * 100), // Convert to cents
-          },
-          quantity: 1,
-        },
       ],
+      ...(firstInvoiceCoupon && { discounts: [{ coupon: firstInvoiceCoupon.id }] }),
       success_url: `${origin}/dashboard/subscription?success=true&session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${origin}/dashboard/subscription?canceled=true`,
       client_reference_id: user.id,
-      metadata: {
-        user_id: user.id,
-        subscription_id: pendingSubscription.id,
-        plan_type: planType,
-        letters: selectedPlan.letters.toString(),
-        base_price: basePrice.toString(),
-        discount: discountAmount.toString(),
-        final_price: finalPrice.toString(),
-        coupon_code: couponCode || '',
-        employee_id: employeeId || '',
-        is_super_user_coupon: isSuperUserCoupon.toString(),
-        coupon_id: couponId || ''
-      }
+      metadata: sessionMetadata,
+      ...(interval && {
+        subscription_data: {
+          metadata: {
+            user_id: user.id,
+            subscription_id: pendingSubscription.id,
+            plan_type: planType
+          }
+        }
+      })
     })
 
     return NextResponse.json({
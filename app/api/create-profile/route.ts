@@ -55,10 +55,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate role
-    if (!['subscriber', 'employee', 'admin'].includes(role)) {
+    // Validate role; admins and reviewers are only ever set up by an admin
+    if (!['subscriber', 'employee'].includes(role)) {
       return NextResponse.json(
-        { error: "Invalid role. Must be subscriber, employee, or admin" },
+        { error: "Invalid role. Must be subscriber or employee" },
         { status: 400 }
       )
     }
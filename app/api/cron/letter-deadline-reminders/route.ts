@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLetterCaseTracker } from '@/lib/letters/case-tracking'
+
+/**
+ * Cron endpoint for letter response deadlines
+ *
+ * Emails subscribers shortly before a sent letter's response deadline, and
+ * again with a one-click follow-up once the deadline passes unresolved.
+ *
+ * This endpoint should be called once a day by a cron service.
+ *
+ * Supported cron services:
+ * - Vercel Cron: Add to vercel.json
+ * - External cron: Use services like cron-job.org, EasyCron, or AWS EventBridge
+ *
+ * Authentication:
+ * - Protected by CRON_SECRET environment variable
+ * - Pass secret as ?secret=YOUR_CRON_SECRET or Authorization: Bearer YOUR_CRON_SECRET
+ *
+ * @example Vercel Cron configuration (vercel.json):
+ * ```json
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/letter-deadline-reminders",
+ *     "schedule": "0 14 star star star"
+ *   }]
+ * }
+ * ```
+ * (Replace "star" with asterisk in actual config)
+ *
+ * @example External cron with curl:
+ * curl -X POST https://yourdomain.com/api/cron/letter-deadline-reminders \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization')
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = authHeader?.replace('Bearer ', '') || searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      console.error('[LetterDeadlineReminders] CRON_SECRET not configured')
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      console.error('[LetterDeadlineReminders] Invalid cron secret')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[LetterDeadlineReminders] Checking response deadlines...')
+
+    const result = await getLetterCaseTracker().sendDeadlineReminders()
+
+    console.log('[LetterDeadlineReminders] Reminders queued:', result)
+
+    return NextResponse.json({
+      success: true,
+      reminded: result.reminded,
+      overdue: result.overdue,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('[LetterDeadlineReminders] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to send deadline reminders',
+        message: error.message,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET endpoint for manual triggering or health checks
+ * Requires the same authentication as POST
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Return status without sending reminders
+    return NextResponse.json({
+      status: 'ready',
+      endpoint: '/api/cron/letter-deadline-reminders',
+      method: 'POST',
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
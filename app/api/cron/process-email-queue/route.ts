@@ -5,6 +5,10 @@ import { processEmailQueue } from '@/lib/email/queue'
  * Cron endpoint for processing pending emails in the queue
  *
  * This endpoint should be called periodically (every 5-15 minutes) by a cron service.
+ * Overlapping runs are safe: each run claims its own batch of rows under a
+ * lease. Batch size, concurrency and lease length come from the
+ * EMAIL_QUEUE_BATCH_SIZE, EMAIL_QUEUE_CONCURRENCY and EMAIL_QUEUE_LEASE_SECONDS
+ * environment variables.
  *
  * Supported cron services:
  * - Vercel Cron: Add to vercel.json
@@ -58,16 +62,15 @@ export async function POST(request: NextRequest) {
     // Process the email queue
     const result = await processEmailQueue()
 
-    console.log('[ProcessEmailQueue] Processing complete:', {
-      processed: result.processed,
-      failed: result.failed,
-      remaining: result.remaining,
-    })
+    console.log('[ProcessEmailQueue] Processing complete:', result)
 
     return NextResponse.json({
       success: true,
-      processed: result.processed,
-      failed: result.failed,
+      processed: result.claimed,
+      sent: result.sent,
+      retrying: result.retrying,
+      deadLettered: result.deadLettered,
+      skipped: result.skipped,
       remaining: result.remaining,
       timestamp: new Date().toISOString(),
     })
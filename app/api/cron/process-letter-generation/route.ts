@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processLetterGenerationQueue } from '@/lib/letters/generation-queue'
+
+/**
+ * Cron endpoint for the letter generation queue
+ *
+ * Fails and refunds letters stuck in `generating` past the deadline
+ * (LETTER_GENERATION_TIMEOUT_MINUTES, default 10), then runs any jobs that were
+ * queued but never picked up by the request that created them.
+ *
+ * This endpoint should be called every few minutes by a cron service.
+ *
+ * Supported cron services:
+ * - Vercel Cron: Add to vercel.json
+ * - External cron: Use services like cron-job.org, EasyCron, or AWS EventBridge
+ *
+ * Authentication:
+ * - Protected by CRON_SECRET environment variable
+ * - Pass secret as ?secret=YOUR_CRON_SECRET or Authorization: Bearer YOUR_CRON_SECRET
+ *
+ * @example Vercel Cron configuration (vercel.json):
+ * ```json
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/process-letter-generation",
+ *     "schedule": "star/5 star star star star"
+ *   }]
+ * }
+ * ```
+ * (Replace "star" with asterisk in actual config)
+ *
+ * @example External cron with curl:
+ * curl -X POST https://yourdomain.com/api/cron/process-letter-generation \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export const maxDuration = 300
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization')
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = authHeader?.replace('Bearer ', '') || searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      console.error('[ProcessLetterGeneration] CRON_SECRET not configured')
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      console.error('[ProcessLetterGeneration] Invalid cron secret')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[ProcessLetterGeneration] Starting letter generation queue processing...')
+
+    // Sweep stalled jobs and run queued ones
+    const result = await processLetterGenerationQueue()
+
+    console.log('[ProcessLetterGeneration] Processing complete:', {
+      processed: result.processed,
+      swept: result.swept,
+    })
+
+    return NextResponse.json({
+      success: true,
+      processed: result.processed,
+      swept: result.swept,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('[ProcessLetterGeneration] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to process letter generation queue',
+        message: error.message,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET endpoint for manual triggering or health checks
+ * Requires the same authentication as POST
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Return queue status without processing
+    return NextResponse.json({
+      status: 'ready',
+      endpoint: '/api/cron/process-letter-generation',
+      method: 'POST',
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMailDispatchService } from '@/lib/mail'
+
+/**
+ * Cron endpoint for mailed letter tracking
+ *
+ * Pulls delivery events from the mail provider for letters still in the mail
+ * and records them as proof of delivery.
+ *
+ * This endpoint should be called every 30-60 minutes by a cron service.
+ *
+ * Supported cron services:
+ * - Vercel Cron: Add to vercel.json
+ * - External cron: Use services like cron-job.org, EasyCron, or AWS EventBridge
+ *
+ * Authentication:
+ * - Protected by CRON_SECRET environment variable
+ * - Pass secret as ?secret=YOUR_CRON_SECRET or Authorization: Bearer YOUR_CRON_SECRET
+ *
+ * @example Vercel Cron configuration (vercel.json):
+ * ```json
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/refresh-mail-tracking",
+ *     "schedule": "0 star star star star"
+ *   }]
+ * }
+ * ```
+ * (Replace "star" with asterisk in actual config)
+ *
+ * @example External cron with curl:
+ * curl -X POST https://yourdomain.com/api/cron/refresh-mail-tracking \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization')
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = authHeader?.replace('Bearer ', '') || searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      console.error('[RefreshMailTracking] CRON_SECRET not configured')
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      console.error('[RefreshMailTracking] Invalid cron secret')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[RefreshMailTracking] Refreshing mail tracking...')
+
+    const result = await getMailDispatchService().refreshActive()
+
+    console.log('[RefreshMailTracking] Refresh complete:', result)
+
+    return NextResponse.json({
+      success: true,
+      refreshed: result.refreshed,
+      delivered: result.delivered,
+      failed: result.failed,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('[RefreshMailTracking] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to refresh mail tracking',
+        message: error.message,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET endpoint for manual triggering or health checks
+ * Requires the same authentication as POST
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Return status without refreshing
+    return NextResponse.json({
+      status: 'ready',
+      endpoint: '/api/cron/refresh-mail-tracking',
+      method: 'POST',
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReviewSlaTracker } from '@/lib/letters/sla-tracking'
+
+/**
+ * Cron endpoint for review SLA escalation
+ *
+ * Checks letters waiting for attorney review against their turnaround
+ * target. Letters nearing the target are flagged to the assigned reviewer
+ * (or the admins when nobody is assigned); letters past it are escalated
+ * to the admins as well. Each letter is escalated once per state.
+ *
+ * This endpoint should be called every hour by a cron service.
+ *
+ * Supported cron services:
+ * - Vercel Cron: Add to vercel.json
+ * - External cron: Use services like cron-job.org, EasyCron, or AWS EventBridge
+ *
+ * Authentication:
+ * - Protected by CRON_SECRET environment variable
+ * - Pass secret as ?secret=YOUR_CRON_SECRET or Authorization: Bearer YOUR_CRON_SECRET
+ *
+ * @example Vercel Cron configuration (vercel.json):
+ * ```json
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/review-sla",
+ *     "schedule": "0 star star star star"
+ *   }]
+ * }
+ * ```
+ * (Replace "star" with asterisk in actual config)
+ *
+ * @example External cron with curl:
+ * curl -X POST https://yourdomain.com/api/cron/review-sla \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization')
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = authHeader?.replace('Bearer ', '') || searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      console.error('[ReviewSla] CRON_SECRET not configured')
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      console.error('[ReviewSla] Invalid cron secret')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[ReviewSla] Checking letters waiting for review...')
+
+    const result = await getReviewSlaTracker().escalate()
+
+    console.log('[ReviewSla] Escalations queued:', result)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('[ReviewSla] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to check review SLAs',
+        message: error.message,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET endpoint for manual triggering or health checks
+ * Requires the same authentication as POST
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Return status without escalating letters
+    return NextResponse.json({
+      status: 'ready',
+      endpoint: '/api/cron/review-sla',
+      method: 'POST',
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEmailScheduler } from '@/lib/email/scheduler'
+
+/**
+ * Cron endpoint for scheduled emails
+ *
+ * Queues subscription renewal and free trial reminders for the time they
+ * are due, and the daily digest of letters waiting for review to admins.
+ * The email queue cron sends them once due.
+ *
+ * This endpoint should be called once a day by a cron service.
+ *
+ * Supported cron services:
+ * - Vercel Cron: Add to vercel.json
+ * - External cron: Use services like cron-job.org, EasyCron, or AWS EventBridge
+ *
+ * Authentication:
+ * - Protected by CRON_SECRET environment variable
+ * - Pass secret as ?secret=YOUR_CRON_SECRET or Authorization: Bearer YOUR_CRON_SECRET
+ *
+ * @example Vercel Cron configuration (vercel.json):
+ * ```json
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/scheduled-emails",
+ *     "schedule": "0 13 star star star"
+ *   }]
+ * }
+ * ```
+ * (Replace "star" with asterisk in actual config)
+ *
+ * @example External cron with curl:
+ * curl -X POST https://yourdomain.com/api/cron/scheduled-emails \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization')
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = authHeader?.replace('Bearer ', '') || searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      console.error('[ScheduledEmails] CRON_SECRET not configured')
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      console.error('[ScheduledEmails] Invalid cron secret')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[ScheduledEmails] Scheduling reminders and digests...')
+
+    const result = await getEmailScheduler().runDaily()
+
+    console.log('[ScheduledEmails] Emails scheduled:', result)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('[ScheduledEmails] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to schedule emails',
+        message: error.message,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET endpoint for manual triggering or health checks
+ * Requires the same authentication as POST
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const searchParams = request.nextUrl.searchParams
+    const providedSecret = searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Return status without scheduling emails
+    return NextResponse.json({
+      status: 'ready',
+      endpoint: '/api/cron/scheduled-emails',
+      method: 'POST',
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError, ValidationError } from '@/lib/errors/error-handler'
+import { getEmailPreferences } from '@/lib/email/preferences'
+
+/**
+ * GET /api/email/preferences
+ * Whether each optional email category is on for the signed-in user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user?.email) {
+      return handleError(new AuthenticationError())
+    }
+
+    const preferences = await getEmailPreferences().getPreferences(user.email)
+
+    return NextResponse.json({ success: true, preferences })
+  } catch (error) {
+    console.error('[EmailPreferences] Load error:', error)
+    return handleError(error)
+  }
+}
+
+/**
+ * PUT /api/email/preferences
+ * Turn one category on or off: `{ category, subscribed }`
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user?.email) {
+      return handleError(new AuthenticationError())
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.category !== 'string' || typeof body.subscribed !== 'boolean') {
+      throw new ValidationError('category and subscribed are required')
+    }
+
+    const preferences = getEmailPreferences()
+    await preferences.setSubscribed(user.email, body.category, body.subscribed, 'settings')
+
+    return NextResponse.json({ success: true, preferences: await preferences.getPreferences(user.email) })
+  } catch (error) {
+    console.error('[EmailPreferences] Update error:', error)
+    return handleError(error)
+  }
+}
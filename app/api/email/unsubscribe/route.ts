@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { EMAIL_CATEGORIES } from '@/lib/email/categories'
+import { getEmailPreferences } from '@/lib/email/preferences'
+import { escapeHtml } from '@/lib/email/templates'
+import { getUnsubscribeSecret, verifyUnsubscribeToken } from '@/lib/email/unsubscribe'
+
+function page(title: string, body: string, status = 200): NextResponse {
+  return new NextResponse(
+    `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${title} - Talk-To-My-Lawyer</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 80px auto; padding: 0 20px; color: #333; line-height: 1.6;">
+  <h1 style="font-size: 22px;">${title}</h1>
+  ${body}
+</body>
+</html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  )
+}
+
+function readLink(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const email = params.get('email') ?? ''
+  const category = params.get('category') ?? ''
+  const token = params.get('token') ?? ''
+  const secret = getUnsubscribeSecret()
+
+  if (!email || !secret || !verifyUnsubscribeToken(email, category, token, secret)) {
+    return null
+  }
+  return { email, category }
+}
+
+const INVALID_LINK = '<p>This unsubscribe link is invalid or has expired. You can manage email preferences from your account settings.</p>'
+
+/**
+ * GET /api/email/unsubscribe?email=&category=&token=
+ * Confirmation page for an unsubscribe link. Nothing changes until the
+ * button is pressed, so link scanners that follow links cannot unsubscribe
+ * anyone.
+ */
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  const link = readLink(request)
+  if (!link) {
+    return page('Invalid link', INVALID_LINK, 400)
+  }
+
+  const label = EMAIL_CATEGORIES[link.category].label.toLowerCase()
+  return page('Unsubscribe', `
+  <p>Stop sending ${label} emails to <strong>${escapeHtml(link.email)}</strong>?</p>
+  <form method="post">
+    <button type="submit" style="background: #1a1a2e; color: white; border: 0; padding: 12px 24px; border-radius: 6px; cursor: pointer;">Unsubscribe</button>
+  </form>`)
+}
+
+/**
+ * POST /api/email/unsubscribe?email=&category=&token=
+ * Unsubscribes the address from the link's category. Also serves one-click
+ * unsubscribe requests from mail clients.
+ */
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  const link = readLink(request)
+  if (!link) {
+    return page('Invalid link', INVALID_LINK, 400)
+  }
+
+  try {
+    await getEmailPreferences().setSubscribed(link.email, link.category, false, 'link')
+  } catch (error) {
+    console.error('[EmailUnsubscribe] Failed to unsubscribe:', { category: link.category, error })
+    return page('Something went wrong', '<p>We could not update your preferences. Please try again later.</p>', 500)
+  }
+
+  const label = EMAIL_CATEGORIES[link.category].label.toLowerCase()
+  return page('You have been unsubscribed', `
+  <p>We will no longer send ${label} emails to <strong>${escapeHtml(link.email)}</strong>.</p>
+  <p>You can turn them back on at any time from your account settings.</p>`)
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEmailDeliveryLog } from '@/lib/email/delivery-log'
+import {
+  isWebhookProvider,
+  parseWebhookEvents,
+  verifyBrevoToken,
+  verifyResendSignature,
+  verifySendGridSignature,
+  type WebhookProvider,
+} from '@/lib/email/webhooks'
+
+// Verification secret for each provider's webhook
+const WEBHOOK_SECRETS: Record<WebhookProvider, string | undefined> = {
+  sendgrid: process.env.SENDGRID_WEBHOOK_PUBLIC_KEY,
+  brevo: process.env.BREVO_WEBHOOK_TOKEN,
+  resend: process.env.RESEND_WEBHOOK_SECRET,
+}
+
+function isAuthentic(provider: WebhookProvider, secret: string, request: NextRequest, payload: string): boolean {
+  switch (provider) {
+    case 'sendgrid':
+      return verifySendGridSignature({
+        publicKey: secret,
+        payload,
+        signature: request.headers.get('x-twilio-email-event-webhook-signature'),
+        timestamp: request.headers.get('x-twilio-email-event-webhook-timestamp'),
+      })
+    case 'resend':
+      return verifyResendSignature({
+        secret,
+        payload,
+        id: request.headers.get('svix-id'),
+        timestamp: request.headers.get('svix-timestamp'),
+        signature: request.headers.get('svix-signature'),
+      })
+    case 'brevo':
+      return verifyBrevoToken(secret, request.nextUrl.searchParams.get('token'))
+  }
+}
+
+/**
+ * POST /api/email/webhook/[provider]
+ * Delivery, bounce, complaint, open and click events from SendGrid, Brevo
+ * or Resend, recorded in email_delivery_log
+ *
+ * Point each provider's event webhook at its path:
+ * - SendGrid: /api/email/webhook/sendgrid (Signed Event Webhook, SENDGRID_WEBHOOK_PUBLIC_KEY)
+ * - Brevo: /api/email/webhook/brevo?token=BREVO_WEBHOOK_TOKEN
+ * - Resend: /api/email/webhook/resend (RESEND_WEBHOOK_SECRET)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params
+  if (!isWebhookProvider(provider)) {
+    return NextResponse.json({ error: 'Unknown email provider' }, { status: 404 })
+  }
+
+  const secret = WEBHOOK_SECRETS[provider]
+  if (!secret) {
+    console.error('[EmailWebhook] Webhook secret not configured:', provider)
+    return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 })
+  }
+
+  const payload = await request.text()
+  if (!isAuthentic(provider, secret, request, payload)) {
+    console.error('[EmailWebhook] Invalid signature:', provider)
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(payload)
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  try {
+    const svixId = request.headers.get('svix-id')
+    const events = parseWebhookEvents(provider, body, svixId ? { eventId: svixId } : {})
+    const result = await getEmailDeliveryLog().recordEvents(events)
+
+    console.log('[EmailWebhook] Events recorded:', { provider, ...result })
+    return NextResponse.json({ received: true, ...result })
+  } catch (error: any) {
+    // A 5xx makes the provider redeliver; recorded events are skipped as duplicates
+    console.error('[EmailWebhook] Error:', { provider, error: error.message })
+    return NextResponse.json({ error: 'Webhook handler failed' }, { status: 500 })
+  }
+}
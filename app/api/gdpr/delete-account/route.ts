@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { createClient as createServiceClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
+import { getLetterAttachmentStore } from '@/lib/letters/attachments'
 
 /**
  * POST /api/gdpr/delete-account
@@ -198,7 +199,8 @@ export async function DELETE(request: NextRequest) {
     // Delete user data in proper order (respecting foreign key constraints)
     // Note: RLS and CASCADE will handle most deletions automatically
 
-    // 1. Delete letters
+    // 1. Delete stored evidence files, then letters (attachment rows cascade)
+    await getLetterAttachmentStore().removeAllForUser(userId)
     await supabase.from('letters').delete().eq('user_id', userId)
 
     // 2. Delete subscriptions
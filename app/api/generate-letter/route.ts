@@ -1,17 +1,20 @@
 import { createClient } from "@/lib/supabase/server"
-import { type NextRequest, NextResponse } from "next/server"
-import { openai } from "@ai-sdk/openai"
-import { generateText } from "ai"
-import { letterGenerationRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
-import { validateLetterGenerationRequest } from '@/lib/validation/letter-schema'
-import { generateTextWithRetry, checkOpenAIHealth } from '@/lib/ai/openai-retry'
+import { type NextRequest, NextResponse, after } from "next/server"
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { validateLetterGenerationRequest, normalizeLetterType } from '@/lib/validation/letter-schema'
+import { getLetterType } from '@/lib/validation/letter-types'
+import { getLetterGenerationQueue } from '@/lib/letters/generation-queue'
+import { isAIConfigured } from '@/lib/ai/providers'
 
 export const runtime = "nodejs"
+// Leave room for the background generation scheduled with after()
+export const maxDuration = 300
 
 export async function POST(request: NextRequest) {
   try {
     // Apply rate limiting
-    const rateLimitResponse = await safeApplyRateLimit(request, letterGenerationRateLimit, 5, "1 h")
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterGeneration)
     if (rateLimitResponse) {
       return rateLimitResponse
     }
@@ -64,7 +67,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { letterType, intakeData } = body
+    const { letterType, intakeData, parentLetterId } = body
 
     // Comprehensive input validation and sanitization
     const validation = validateLetterGenerationRequest(letterType, intakeData)
@@ -79,31 +82,32 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Use sanitized data
-    const sanitizedLetterType = letterType
+    // Use sanitized data, storing the canonical registry value for the letter type
+    const sanitizedLetterType = normalizeLetterType(letterType)!
+    const letterTypeLabel = getLetterType(sanitizedLetterType)!.label
     const sanitizedIntakeData = validation.data!
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("[GenerateLetter] Missing OPENAI_API_KEY")
-      return NextResponse.json({ error: "Server configuration error" }, { status: 500 })
+    // A follow-up continues one of the subscriber's own sent letters
+    let parentLetter: { id: string; title: string } | null = null
+    if (parentLetterId !== undefined && parentLetterId !== null) {
+      const { data: parent } = typeof parentLetterId === "string"
+        ? await supabase
+            .from("letters")
+            .select("id, title, status")
+            .eq("id", parentLetterId)
+            .eq("user_id", user.id)
+            .maybeSingle()
+        : { data: null }
+
+      if (!parent || !["approved", "completed"].includes(parent.status)) {
+        return NextResponse.json({ error: "Original letter not found" }, { status: 400 })
+      }
+      parentLetter = parent
     }
 
-    // CRITICAL FIX: Deduct allowance BEFORE generation to prevent race condition
-    // Skip deduction for free trial or super user
-    if (!isFreeTrial && !isSuperUser) {
-        const { data: canDeduct, error: deductError } = await supabase.rpc("deduct_letter_allowance", {
-          u_id: user.id,
-        })
-
-        if (deductError || !canDeduct) {
-          return NextResponse.json(
-            {
-              error: "No letter allowances remaining (or race condition prevented overage).",
-              needsSubscription: true,
-            },
-            { status: 403 },
-          )
-        }
+    if (!isAIConfigured()) {
+      console.error("[GenerateLetter] No AI provider configured")
+      return NextResponse.json({ error: "Server configuration error" }, { status: 500 })
     }
 
     // 4. Create letter record with 'generating' status
@@ -112,8 +116,11 @@ export async function POST(request: NextRequest) {
       .insert({
         user_id: user.id,
         letter_type: sanitizedLetterType,
-        title: `${sanitizedLetterType} - ${new Date().toLocaleDateString()}`,
+        title: parentLetter
+          ? `Follow-up: ${parentLetter.title}`.slice(0, 200)
+          : `${letterTypeLabel} - ${new Date().toLocaleDateString()}`,
         intake_data: sanitizedIntakeData,
+        parent_letter_id: parentLetter?.id ?? null,
         status: "generating",
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -123,167 +130,64 @@ export async function POST(request: NextRequest) {
 
     if (insertError) {
       console.error("[GenerateLetter] Database insert error:", insertError)
-      // Refund if we deducted
-      if (!isFreeTrial && !isSuperUser) {
-         await supabase.rpc("add_letter_allowances", { u_id: user.id, amount: 1 })
-      }
       return NextResponse.json({ error: "Failed to create letter record" }, { status: 500 })
     }
 
-    try {
-      // 5. Generate letter using AI SDK with OpenAI (with retry logic)
-      const prompt = buildPrompt(sanitizedLetterType, sanitizedIntakeData)
-
-      console.log('[GenerateLetter] Starting AI generation with retry logic')
-      const generationStartTime = Date.now()
-
-      const { text: generatedContent, attempts, duration } = await generateTextWithRetry({
-        prompt,
-        system: "You are a professional legal attorney drafting formal legal letters. Always produce professional, legally sound content with proper formatting.",
-        temperature: 0.7,
-        maxOutputTokens: 2048,
-        model: "gpt-4-turbo"
-      })
-
-      const generationTime = Date.now() - generationStartTime
-      console.log(`[GenerateLetter] AI generation completed:`, {
-        attempts,
-        duration,
-        generationTime,
-        contentLength: generatedContent.length
+    // 5. Queue AI generation. The draft is produced in the background so a slow
+    // model call can't hold the request open; clients follow progress through
+    // GET /api/letters/[id]/generation and stalled jobs are swept by cron.
+    // The credit is taken in the same transaction that creates the job, so a
+    // failure here never leaves a credit to refund. Free trials and super
+    // users are not charged.
+    const failLetter = () => supabase
+      .from("letters")
+      .update({
+        status: "failed",
+        updated_at: new Date().toISOString()
       })
+      .eq("id", newLetter.id)
 
-      if (!generatedContent) {
-        throw new Error("AI returned empty content")
-      }
-
-      // 6. Update letter with generated content and move to pending_review
-      const { error: updateError } = await supabase
-        .from("letters")
-        .update({
-          ai_draft_content: generatedContent,
-          status: "pending_review",
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", newLetter.id)
-
-      if (updateError) {
-        throw updateError // Will be caught below
-      }
-
-      // 7. Increment total_letters_generated (Fix for abuse)
-      await supabase.rpc('increment_total_letters', { p_user_id: user.id })
-
-      // 8. Log audit trail for letter creation
-      await supabase.rpc('log_letter_audit', {
-        p_letter_id: newLetter.id,
-        p_action: 'created',
-        p_old_status: 'generating',
-        p_new_status: 'pending_review',
-        p_notes: 'Letter generated successfully by AI'
+    let jobId: string | null
+    try {
+      jobId = await getLetterGenerationQueue().enqueue({
+        letterId: newLetter.id,
+        userId: user.id,
+        deductAllowance: !isFreeTrial && !isSuperUser,
+        isFreeTrial,
       })
+    } catch (queueError: any) {
+      console.error("[GenerateLetter] Failed to queue generation:", queueError)
+      await failLetter()
+      return NextResponse.json({ error: "Failed to start letter generation" }, { status: 500 })
+    }
 
+    if (!jobId) {
+      await failLetter()
       return NextResponse.json(
         {
-          success: true,
-          letterId: newLetter.id,
-          status: "pending_review",
-          isFreeTrial,
-          aiDraft: generatedContent,
+          error: "No letter allowances remaining (or race condition prevented overage).",
+          needsSubscription: true,
         },
-        { status: 200 },
-      )
-    } catch (generationError: any) {
-      console.error("[GenerateLetter] Generation failed:", generationError)
-      
-      // Update letter status to failed
-      await supabase
-        .from("letters")
-        .update({ 
-          status: "failed",
-          updated_at: new Date().toISOString()
-        })
-        .eq("id", newLetter.id)
-      
-      // REFUND if we deducted
-      if (!isFreeTrial && !isSuperUser) {
-         await supabase.rpc("add_letter_allowances", { u_id: user.id, amount: 1 })
-         // Also log refund? add_letter_allowances already logs checks.
-      }
-
-      // Log audit trail for failure
-      await supabase.rpc('log_letter_audit', {
-        p_letter_id: newLetter.id,
-        p_action: 'generation_failed',
-        p_old_status: 'generating',
-        p_new_status: 'failed',
-        p_notes: `Generation failed: ${generationError.message}`
-      })
-      
-      return NextResponse.json(
-        { error: generationError.message || "AI generation failed" },
-        { status: 500 }
+        { status: 403 },
       )
     }
+
+    after(async () => {
+      await getLetterGenerationQueue().runJob(jobId)
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        letterId: newLetter.id,
+        jobId,
+        status: "generating",
+        isFreeTrial,
+      },
+      { status: 202 },
+    )
   } catch (error: any) {
     console.error("[GenerateLetter] Letter generation error:", error)
     return NextResponse.json({ error: error.message || "Failed to generate letter" }, { status: 500 })
   }
 }
-
-function buildPrompt(letterType: string, intakeData: Record<string, unknown>) {
-  const fields = (key: string) => {
-    const value = intakeData[key]
-    if (value === undefined || value === null || value === '') return ''
-    const fieldName = key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()).replace(/_/g, ' ')
-    return `${fieldName}: ${String(value)}`
-  }
-
-  const amountField = intakeData["amountDemanded"] ?
-    `Amount Demanded: $${Number(intakeData["amountDemanded"]).toLocaleString()}` : ""
-
-  const deadlineField = intakeData["deadlineDate"] ?
-    `Deadline: ${intakeData["deadlineDate"]}` : ""
-
-  const incidentDateField = intakeData["incidentDate"] ?
-    `Incident Date: ${intakeData["incidentDate"]}` : ""
-
-  const basePrompt = [
-    `Draft a professional ${letterType} letter with the following details:`,
-    "",
-    "Sender Information:",
-    fields("senderName"),
-    fields("senderAddress"),
-    fields("senderEmail"),
-    fields("senderPhone"),
-    "",
-    "Recipient Information:",
-    fields("recipientName"),
-    fields("recipientAddress"),
-    fields("recipientEmail"),
-    fields("recipientPhone"),
-    "",
-    "Case Details:",
-    fields("issueDescription"),
-    fields("desiredOutcome"),
-    amountField,
-    deadlineField,
-    incidentDateField,
-    fields("additionalDetails"),
-    "",
-    "Requirements:",
-    "- Write a professional, legally sound letter (300-500 words)",
-    "- Include proper date and formal letter format",
-    "- Present facts clearly and objectively",
-    "- State clear demands with specific deadlines (if applicable)",
-    "- Maintain professional legal tone throughout",
-    "- Include proper salutations and closing",
-    "- Format as a complete letter with all standard elements",
-    "- Avoid any legal advice beyond standard letter writing",
-    "",
-    "Important: Only return the letter content itself, no explanations or commentary."
-  ]
-
-  // Filter out empty lines and join
-  return basePrompt.filter(Boolean).join("\n")
-}
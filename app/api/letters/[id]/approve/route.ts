@@ -1,10 +1,13 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAdminAuth, getAdminSession } from '@/lib/auth/admin-session'
-import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { requireReviewAuth, getAdminSession } from '@/lib/auth/admin-session'
+import { resolveLetterReviewer } from '@/lib/letters/comment-access'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
 import { sendTemplateEmail } from '@/lib/email/service'
 import { validateAdminRequest, generateAdminCSRF } from '@/lib/security/csrf'
 import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { getLetterVersionStore } from '@/lib/letters/versions'
 
 // GET endpoint to provide CSRF token
 export async function GET(
@@ -12,8 +15,8 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Verify admin authentication
-    const authError = await requireAdminAuth()
+    // Verify admin or reviewer authentication
+    const authError = await requireReviewAuth()
     if (authError) return authError
 
     try {
@@ -50,13 +53,13 @@ export async function POST(
 ) {
   try {
     // Apply rate limiting
-    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 10, "15 m")
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterReview)
     if (rateLimitResponse) {
       return rateLimitResponse
     }
 
-    // Verify admin authentication
-    const authError = await requireAdminAuth()
+    // Verify admin or reviewer authentication
+    const authError = await requireReviewAuth()
     if (authError) return authError
 
     // CSRF Protection for admin actions
@@ -69,11 +72,14 @@ export async function POST(
     }
 
     const { id } = await params
+    if (!await resolveLetterReviewer(id)) {
+      return NextResponse.json({ error: 'This letter is not assigned to you' }, { status: 403 })
+    }
     const supabase = await createClient()
     const adminSession = await getAdminSession()
 
     const body = await request.json()
-    const { finalContent, reviewNotes } = body
+    const { finalContent, reviewNotes, contentSource } = body
 
     if (!finalContent) {
       return NextResponse.json({ error: 'Final content is required for approval' }, { status: 400 })
@@ -108,6 +114,16 @@ export async function POST(
 
     if (updateError) throw updateError
 
+    // No-op when the approved text matches the latest version
+    const fromAiSuggestion = contentSource === 'ai_improve'
+    await getLetterVersionStore().recordSafely({
+      letterId: id,
+      content: sanitizedFinalContent,
+      source: fromAiSuggestion ? 'ai_improve' : 'manual_edit',
+      authorId: adminSession?.userId ?? null,
+      notes: fromAiSuggestion ? 'AI suggestion applied at approval' : 'Final content at approval'
+    })
+
     await supabase.rpc('log_letter_audit', {
       p_letter_id: id,
       p_action: 'approved',
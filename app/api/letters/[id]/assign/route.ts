@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdminSession, requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthenticationError, handleError, ValidationError } from '@/lib/errors/error-handler'
+import { getReviewAssignmentService } from '@/lib/letters/review-assignment'
+
+/**
+ * POST /api/letters/[id]/assign
+ * Reassign a letter awaiting review to another reviewer, or return it to
+ * the unassigned queue with `reviewerId: null`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterReview)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const authError = await requireAdminAuth()
+    if (authError) return authError
+
+    const session = await getAdminSession()
+    if (!session) {
+      throw new AuthenticationError()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    if (body.reviewerId !== null && typeof body.reviewerId !== 'string') {
+      throw new ValidationError('reviewerId must be a reviewer id or null')
+    }
+
+    await getReviewAssignmentService().reassign(id, body.reviewerId, session.userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[LetterAssign] Reassign error:', error)
+    return handleError(error)
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthorizationError, handleError } from '@/lib/errors/error-handler'
+import { getLetterAttachmentStore } from '@/lib/letters/attachments'
+import { resolveLetterCommenter } from '@/lib/letters/comment-access'
+
+/**
+ * DELETE /api/letters/[id]/attachments/[attachmentId]
+ * Remove an exhibit before the letter is approved
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterAttachments)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const { id, attachmentId } = await params
+    const viewer = await resolveLetterCommenter(id)
+    if (viewer.role !== 'subscriber') {
+      throw new AuthorizationError('Only the letter owner can remove attachments')
+    }
+
+    await getLetterAttachmentStore().remove(viewer.letter, attachmentId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleError(error)
+  }
+}
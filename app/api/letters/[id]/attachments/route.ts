@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthorizationError, handleError, ValidationError } from '@/lib/errors/error-handler'
+import { getLetterAttachmentStore } from '@/lib/letters/attachments'
+import { areAttachmentsLocked } from '@/lib/letters/exhibits'
+import { resolveLetterCommenter } from '@/lib/letters/comment-access'
+
+/**
+ * GET /api/letters/[id]/attachments
+ * The letter's exhibits with short-lived download links, for its subscriber
+ * and for reviewers
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const viewer = await resolveLetterCommenter(id)
+
+    const attachments = await getLetterAttachmentStore().list(id)
+
+    return NextResponse.json({
+      success: true,
+      attachments,
+      canEdit: viewer.role === 'subscriber' && !areAttachmentsLocked(viewer.letter.status)
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * POST /api/letters/[id]/attachments
+ * Upload one evidence file (multipart form field `file`)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterAttachments)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const { id } = await params
+    const viewer = await resolveLetterCommenter(id)
+    if (viewer.role !== 'subscriber') {
+      throw new AuthorizationError('Only the letter owner can add attachments')
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      throw new ValidationError('A file is required')
+    }
+
+    const attachment = await getLetterAttachmentStore().upload({
+      letter: viewer.letter,
+      userId: viewer.userId,
+      file
+    })
+
+    return NextResponse.json({ success: true, attachment }, { status: 201 })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError, ValidationError } from '@/lib/errors/error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { getLetterCommentStore, MAX_COMMENT_LENGTH } from '@/lib/letters/comments'
+import { resolveLetterCommenter } from '@/lib/letters/comment-access'
+
+/**
+ * GET /api/letters/[id]/comments
+ * The letter's comment thread, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const commenter = await resolveLetterCommenter(id)
+
+    const comments = await getLetterCommentStore().list(id)
+
+    return NextResponse.json({ success: true, comments, viewerRole: commenter.role })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * POST /api/letters/[id]/comments
+ * Add a comment or a reply; `@pN` in the body mentions paragraph N
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const { id } = await params
+    const commenter = await resolveLetterCommenter(id)
+
+    const body = await request.json()
+    const text = sanitizeString(body.body, MAX_COMMENT_LENGTH)
+    if (!text) {
+      throw new ValidationError('Comment text is required')
+    }
+
+    const store = getLetterCommentStore()
+    const comment = await store.add({
+      letter: commenter.letter,
+      authorId: commenter.userId,
+      authorRole: commenter.role,
+      body: text,
+      parentId: typeof body.parentId === 'string' ? body.parentId : null
+    })
+
+    await store.notify(comment, commenter.letter)
+
+    return NextResponse.json({ success: true, comment }, { status: 201 })
+  } catch (error) {
+    return handleError(error)
+  }
+}
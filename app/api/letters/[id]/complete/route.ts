@@ -1,17 +1,21 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAdminAuth, getAdminSession } from '@/lib/auth/admin-session'
+import { requireReviewAuth, getAdminSession } from '@/lib/auth/admin-session'
+import { resolveLetterReviewer } from '@/lib/letters/comment-access'
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Verify admin authentication
-    const authError = await requireAdminAuth()
+    // Verify admin or reviewer authentication
+    const authError = await requireReviewAuth()
     if (authError) return authError
 
     const { id } = await params
+    if (!await resolveLetterReviewer(id)) {
+      return NextResponse.json({ error: 'This letter is not assigned to you' }, { status: 403 })
+    }
     const supabase = await createClient()
     const adminSession = await getAdminSession()
 
@@ -0,0 +1,83 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { DOCX_CONTENT_TYPE } from '@/lib/docx/generator'
+import { bundleLetterWithExhibits, renderLetterDocx } from '@/lib/letters/letter-export'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Fetch letter and verify ownership
+    const { data: letter, error: letterError } = await supabase
+      .from('letters')
+      .select('*, profiles(full_name)')
+      .eq('id', id)
+      .single()
+
+    if (letterError || !letter) {
+      return NextResponse.json({ error: 'Letter not found' }, { status: 404 })
+    }
+
+    // Verify user can access this letter (owner or admin)
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (letter.status !== 'approved') {
+      return NextResponse.json({
+        error: 'Only approved letters can be downloaded as Word documents'
+      }, { status: 403 })
+    }
+
+    if (letter.user_id !== user.id && profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const safeTitle = letter.title?.trim() || 'letter'
+    const baseName = safeTitle.replace(/[^a-z0-9]/gi, '_') || 'letter'
+    const fileName = `${baseName}.docx`
+
+    const docxResult = await renderLetterDocx(letter)
+    if (!docxResult.success || !docxResult.buffer) {
+      throw new Error(docxResult.error || 'DOCX generation failed')
+    }
+
+    // ?exhibits=include zips the document with the exhibit files it lists
+    if (request.nextUrl.searchParams.get('exhibits') === 'include') {
+      const bundle = await bundleLetterWithExhibits(letter.id, { name: fileName, data: Buffer.from(docxResult.buffer) })
+      if (bundle) {
+        return new NextResponse(new Uint8Array(bundle), {
+          headers: {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${baseName}.zip"`
+          }
+        })
+      }
+    }
+
+    return new NextResponse(Buffer.from(docxResult.buffer), {
+      headers: {
+        'Content-Type': DOCX_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('[LetterDocx] DOCX generation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate Word document' },
+      { status: 500 }
+    )
+  }
+}
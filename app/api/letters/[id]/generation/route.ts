@@ -0,0 +1,110 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  isTerminalGenerationStatus,
+  toGenerationProgress,
+  type GenerationProgress,
+} from '@/lib/letters/generation-queue'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const POLL_INTERVAL_MS = 1500
+// Close the stream before typical serverless limits; EventSource reconnects on its own
+const MAX_STREAM_MS = 55000
+
+/**
+ * Generation progress for a letter
+ *
+ * Returns the job status as JSON, or as a Server-Sent Events stream when the
+ * client sends `Accept: text/event-stream`. The stream emits a `progress`
+ * event whenever the stage changes and closes once the job completes or fails.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    // RLS limits job rows to the letter owner (and admins)
+    const loadProgress = async (): Promise<GenerationProgress | null> => {
+      const { data: job } = await supabase
+        .from('letter_generation_jobs')
+        .select('id, letter_id, status, stage, error, updated_at')
+        .eq('letter_id', id)
+        .maybeSingle()
+
+      return job ? toGenerationProgress(job) : null
+    }
+
+    const initial = await loadProgress()
+    if (!initial) {
+      return NextResponse.json({ error: 'Generation job not found' }, { status: 404 })
+    }
+
+    if (!request.headers.get('accept')?.includes('text/event-stream')) {
+      return NextResponse.json({ success: true, progress: initial })
+    }
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+
+        const startedAt = Date.now()
+        let last = initial
+        send('progress', last)
+
+        while (!isTerminalGenerationStatus(last.status) && !request.signal.aborted) {
+          if (Date.now() - startedAt > MAX_STREAM_MS) {
+            // Tell the client to reconnect rather than treating this as a failure
+            controller.enqueue(encoder.encode('retry: 1000\n\n'))
+            break
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+
+          const next = await loadProgress()
+          if (!next) break
+
+          if (next.stage !== last.stage || next.status !== last.status) {
+            send('progress', next)
+          } else {
+            // Keep intermediaries from closing an idle connection
+            controller.enqueue(encoder.encode(': keep-alive\n\n'))
+          }
+          last = next
+        }
+
+        if (isTerminalGenerationStatus(last.status)) {
+          send('done', last)
+        }
+        controller.close()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error: any) {
+    console.error('[GenerationStatus] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load generation status' },
+      { status: 500 }
+    )
+  }
+}
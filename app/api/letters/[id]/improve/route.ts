@@ -1,9 +1,11 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAdminAuth } from '@/lib/auth/admin-session'
-import { openai } from '@ai-sdk/openai'
-import { generateText } from 'ai'
-import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { requireReviewAuth } from '@/lib/auth/admin-session'
+import { resolveLetterReviewer } from '@/lib/letters/comment-access'
+import { generateTextWithRetry } from '@/lib/ai/openai-retry'
+import { isAIConfigured } from '@/lib/ai/providers'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
 
 export async function POST(
   request: NextRequest,
@@ -11,16 +13,19 @@ export async function POST(
 ) {
   try {
     // Apply rate limiting
-    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 10, "15 m")
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterImprove)
     if (rateLimitResponse) {
       return rateLimitResponse
     }
 
-    // Verify admin authentication
-    const authError = await requireAdminAuth()
+    // Verify admin or reviewer authentication
+    const authError = await requireReviewAuth()
     if (authError) return authError
 
     const { id } = await params
+    if (!await resolveLetterReviewer(id)) {
+      return NextResponse.json({ error: 'This letter is not assigned to you' }, { status: 403 })
+    }
     const supabase = await createClient()
 
     const body = await request.json()
@@ -30,16 +35,16 @@ export async function POST(
       return NextResponse.json({ error: 'Content and instruction are required' }, { status: 400 })
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('[v0] Missing OPENAI_API_KEY')
+    if (!isAIConfigured()) {
+      console.error('[v0] No AI provider configured')
       return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
     }
 
-    // Call OpenAI API for content improvement using AI SDK
+    // Call the AI provider chain for content improvement
     const prompt = buildImprovementPrompt(content, instruction)
 
-    const { text: improvedContent } = await generateText({
-      model: openai("gpt-4-turbo"),
+    const { text: improvedContent } = await generateTextWithRetry({
+      task: 'letter_improvement',
       system: "You are a professional legal attorney improving formal legal letters. Always maintain professional legal tone and proper formatting.",
       prompt,
       temperature: 0.7,
@@ -47,10 +52,12 @@ export async function POST(
     })
 
     if (!improvedContent) {
-      console.error('[v0] OpenAI returned empty content')
+      console.error('[v0] AI returned empty content')
       return NextResponse.json({ error: 'AI returned empty content' }, { status: 500 })
     }
 
+    // Only a suggestion; it becomes a version when the reviewer saves or
+    // approves it
     return NextResponse.json({ improvedContent }, { status: 200 })
   } catch (error: any) {
     console.error('[v0] Letter improvement error:', error)
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthorizationError, handleError, ValidationError } from '@/lib/errors/error-handler'
+import { getMailDispatchService, isMailingMethod, normalizeMailAddress } from '@/lib/mail'
+import { resolveLetterCommenter } from '@/lib/letters/comment-access'
+
+/**
+ * GET /api/letters/[id]/mail
+ * The letter's mailings with their delivery tracking
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    await resolveLetterCommenter(id)
+
+    const mailings = await getMailDispatchService().list(id)
+
+    return NextResponse.json({ success: true, mailings })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * POST /api/letters/[id]/mail
+ * Print and post an approved letter to a US address
+ *
+ * Body:
+ * - method: first_class | certified | certified_return_receipt | priority
+ * - address: { name, line1, line2?, city, state, postalCode }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterMail)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const { id } = await params
+    const viewer = await resolveLetterCommenter(id)
+    if (viewer.role !== 'subscriber') {
+      throw new AuthorizationError('Only the letter owner can mail a letter')
+    }
+
+    const service = getMailDispatchService()
+    if (!service.isConfigured()) {
+      return NextResponse.json({ error: 'Mail delivery is not available' }, { status: 503 })
+    }
+
+    const body = await request.json()
+    if (!isMailingMethod(body.method)) {
+      throw new ValidationError('Choose a mailing method')
+    }
+
+    const address = normalizeMailAddress(body.address ?? {})
+    if (typeof address === 'string') {
+      throw new ValidationError(address)
+    }
+
+    const mailing = await service.dispatch({
+      letterId: id,
+      userId: viewer.userId,
+      method: body.method,
+      to: address
+    })
+
+    return NextResponse.json({ success: true, mailing }, { status: 201 })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthorizationError, handleError, ValidationError } from '@/lib/errors/error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { getLetterCaseTracker } from '@/lib/letters/case-tracking'
+import { isLetterOutcome, parseDeadlineDate } from '@/lib/letters/outcomes'
+import { resolveLetterCommenter } from '@/lib/letters/comment-access'
+
+/**
+ * GET /api/letters/[id]/outcomes
+ * Recipient outcomes recorded for the letter, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    await resolveLetterCommenter(id)
+
+    const outcomes = await getLetterCaseTracker().listOutcomes(id)
+
+    return NextResponse.json({ success: true, outcomes })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+/**
+ * POST /api/letters/[id]/outcomes
+ * Record how the recipient answered the letter
+ *
+ * Body:
+ * - outcome: responded | paid | ignored | disputed
+ * - notes?: string
+ * - occurredOn?: YYYY-MM-DD
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const { id } = await params
+    const viewer = await resolveLetterCommenter(id)
+    if (viewer.role !== 'subscriber') {
+      throw new AuthorizationError('Only the letter owner can record an outcome')
+    }
+
+    const body = await request.json()
+    if (!isLetterOutcome(body.outcome)) {
+      throw new ValidationError('Choose an outcome')
+    }
+
+    const notes = sanitizeString(body.notes, 2000)
+    const occurredOn = body.occurredOn ? parseDeadlineDate(body.occurredOn) : null
+    if (body.occurredOn && !occurredOn) {
+      throw new ValidationError('Outcome date is not a valid date')
+    }
+
+    const outcome = await getLetterCaseTracker().recordOutcome({
+      letter: viewer.letter,
+      userId: viewer.userId,
+      outcome: body.outcome,
+      ...(notes && { notes }),
+      ...(occurredOn && { occurredOn }),
+    })
+
+    return NextResponse.json({ success: true, outcome }, { status: 201 })
+  } catch (error) {
+    return handleError(error)
+  }
+}
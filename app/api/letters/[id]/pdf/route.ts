@@ -1,9 +1,9 @@
-import { jsPDF } from 'jspdf'
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
+import { bundleLetterWithExhibits, renderLetterPdf } from '@/lib/letters/letter-export'
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
@@ -43,62 +43,29 @@ export async function GET(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const content = letter.final_content || letter.ai_draft_content || ''
     const safeTitle = letter.title?.trim() || 'letter'
-    const fileName = `${safeTitle.replace(/[^a-z0-9]/gi, '_') || 'letter'}.pdf`
+    const baseName = safeTitle.replace(/[^a-z0-9]/gi, '_') || 'letter'
+    const fileName = `${baseName}.pdf`
 
-    // Determine footer text based on reviewer qualification
-    let footerReviewText = 'This document has been reviewed and approved for professional formatting and clarity.'
-    let footerDisclaimer = 'This is not legal advice. Consult a licensed attorney for legal matters.'
+    const pdfResult = await renderLetterPdf(letter)
+    if (!pdfResult.success || !pdfResult.buffer) {
+      throw new Error(pdfResult.error || 'PDF generation failed')
+    }
 
-    if (letter.reviewed_by) {
-       const { data: reviewer } = await supabase
-        .from('profiles')
-        .select('is_licensed_attorney')
-        .eq('id', letter.reviewed_by)
-        .single()
-      
-      if (reviewer?.is_licensed_attorney) {
-        footerReviewText = 'This document has been reviewed by a licensed attorney.'
-        footerDisclaimer = 'This does not constitute an attorney-client relationship.'
+    // ?exhibits=include zips the PDF with the exhibit files it lists
+    if (request.nextUrl.searchParams.get('exhibits') === 'include') {
+      const bundle = await bundleLetterWithExhibits(letter.id, { name: fileName, data: Buffer.from(pdfResult.buffer) })
+      if (bundle) {
+        return new NextResponse(new Uint8Array(bundle), {
+          headers: {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${baseName}.zip"`
+          }
+        })
       }
     }
 
-    const doc = new jsPDF({ unit: 'pt', format: 'letter' })
-    const pageWidth = doc.internal.pageSize.getWidth()
-    const pageHeight = doc.internal.pageSize.getHeight()
-    const margin = 50
-
-    doc.setFont('Times', 'normal')
-    doc.setFontSize(14)
-    doc.text(safeTitle, pageWidth - margin, margin, { align: 'right' })
-    doc.setFontSize(12)
-    doc.text(
-      `Date: ${new Date(letter.created_at).toLocaleDateString()}`,
-      pageWidth - margin,
-      margin + 18,
-      { align: 'right' }
-    )
-
-    const bodyYStart = margin + 40
-    const availableWidth = pageWidth - margin * 2
-    const bodyLines = doc.splitTextToSize(content || ' ', availableWidth)
-    doc.text(bodyLines, margin, bodyYStart, { maxWidth: availableWidth })
-
-    const footerText = [
-      'Generated by Talk-To-My-Lawyer',
-      footerReviewText,
-      footerDisclaimer
-    ]
-
-    const footerYStart = pageHeight - margin - footerText.length * 14
-    footerText.forEach((line, index) => {
-      doc.text(line, margin, footerYStart + index * 14, { maxWidth: availableWidth })
-    })
-
-    const pdfBytes = doc.output('arraybuffer')
-
-    return new NextResponse(Buffer.from(pdfBytes), {
+    return new NextResponse(Buffer.from(pdfResult.buffer), {
       headers: {
         'Content-Type': 'application/pdf',
         'Content-Disposition': `inline; filename="${fileName}"`
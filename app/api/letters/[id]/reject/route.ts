@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAdminAuth, getAdminSession } from '@/lib/auth/admin-session'
+import { requireReviewAuth, getAdminSession } from '@/lib/auth/admin-session'
+import { resolveLetterReviewer } from '@/lib/letters/comment-access'
 import { sendTemplateEmail } from '@/lib/email/service'
 import { validateAdminRequest, generateAdminCSRF } from '@/lib/security/csrf'
 import { sanitizeString } from '@/lib/security/input-sanitizer'
@@ -10,8 +11,8 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Verify admin authentication
-    const authError = await requireAdminAuth()
+    // Verify admin or reviewer authentication
+    const authError = await requireReviewAuth()
     if (authError) return authError
 
     // CSRF Protection for admin actions
@@ -24,6 +25,9 @@ export async function POST(
     }
 
     const { id } = await params
+    if (!await resolveLetterReviewer(id)) {
+      return NextResponse.json({ error: 'This letter is not assigned to you' }, { status: 403 })
+    }
     const supabase = await createClient()
     const adminSession = await getAdminSession()
 
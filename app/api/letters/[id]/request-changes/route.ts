@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { AuthorizationError, handleError, ValidationError } from '@/lib/errors/error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { getLetterCommentStore, MAX_COMMENT_LENGTH } from '@/lib/letters/comments'
+import { resolveLetterCommenter } from '@/lib/letters/comment-access'
+
+/**
+ * POST /api/letters/[id]/request-changes
+ * Subscriber asks for changes to an approved letter. The letter goes back to
+ * pending_review with the request attached to its comment thread.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const { id } = await params
+    const commenter = await resolveLetterCommenter(id)
+
+    if (commenter.role !== 'subscriber') {
+      throw new AuthorizationError('Only the letter owner can request changes')
+    }
+
+    const body = await request.json()
+    const changes = sanitizeString(body.changes, MAX_COMMENT_LENGTH)
+    if (!changes) {
+      throw new ValidationError('Describe the changes you need')
+    }
+
+    const store = getLetterCommentStore()
+    const comment = await store.requestChanges({
+      letter: commenter.letter,
+      authorId: commenter.userId,
+      body: changes
+    })
+
+    await store.notify(comment, commenter.letter)
+
+    return NextResponse.json({ success: true, comment, status: 'pending_review' })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -2,6 +2,8 @@ import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { generateText } from 'ai'
 import { openai } from '@ai-sdk/openai'
+import { getLetterVersionStore } from '@/lib/letters/versions'
+import { getReviewAssignmentService } from '@/lib/letters/review-assignment'
 
 export async function POST(
   request: NextRequest,
@@ -103,6 +105,14 @@ export async function POST(
 
       if (finalUpdateError) throw finalUpdateError
 
+      await getLetterVersionStore().recordSafely({
+        letterId: id,
+        content: generatedContent,
+        source: 'resubmission',
+        authorId: user.id,
+        notes: 'Regenerated from rejection feedback'
+      })
+
       // Deduct credit if not free trial
       if (!isFreeTrial) {
         const { data: canDeduct, error: deductError } = await supabase.rpc("deduct_letter_allowance", {
@@ -132,6 +142,8 @@ export async function POST(
         p_notes: 'Letter resubmitted after addressing rejection feedback'
       })
 
+      await getReviewAssignmentService().autoAssignSafely(id)
+
       return NextResponse.json({
         success: true,
         letterId: id,
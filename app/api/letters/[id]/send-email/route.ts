@@ -1,17 +1,16 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { getEmailService } from '@/lib/email'
-import { generateLetterPdf } from '@/lib/pdf'
+import { getLetterAttachmentStore } from '@/lib/letters/attachments'
+import { formatFileSize } from '@/lib/letters/exhibits'
+import { getLetterCaseTracker } from '@/lib/letters/case-tracking'
+import { renderLetterPdf, type LetterExportRecord } from '@/lib/letters/letter-export'
 
-type LetterRecord = {
-  id: string
-  title: string
+// Keeps the message under common provider size limits once base64 encoded
+const MAX_EMAIL_EXHIBIT_BYTES = 20 * 1024 * 1024
+
+type LetterRecord = LetterExportRecord & {
   status: string
-  final_content: string | null
-  ai_draft_content: string | null
-  intake_data: Record<string, unknown> | null
-  created_at: string
-  approved_at: string | null
   profiles?: {
     full_name?: string | null
     email?: string | null
@@ -22,25 +21,6 @@ function sanitizeFileName(name: string): string {
   return name.replace(/[^a-z0-9]/gi, '_') || 'letter'
 }
 
-function extractParties(letter: LetterRecord): {
-  sender: { name: string; address?: string }
-  recipient: { name: string; address?: string; company?: string }
-} {
-  const intake = letter.intake_data || {}
-
-  return {
-    sender: {
-      name: letter.profiles?.full_name || (intake.senderName as string) || 'Sender',
-      address: intake.senderAddress as string | undefined,
-    },
-    recipient: {
-      name: (intake.recipientName as string) || 'Recipient',
-      address: intake.recipientAddress as string | undefined,
-      company: intake.recipientCompany as string | undefined,
-    },
-  }
-}
-
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -88,20 +68,19 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid email address format' }, { status: 400 })
     }
 
-    const parties = extractParties(letter)
-    const content = letter.final_content || letter.ai_draft_content || ''
-
-    const pdfResult = generateLetterPdf({
-      id: letter.id,
-      title: letter.title,
-      content,
-      parties,
-      createdAt: letter.created_at,
-      approvedAt: letter.approved_at || undefined,
-      isDraft: false,
-    }, {
-      showLetterhead: true,
-      showWatermark: false,
+    // Evidence travels with the letter as lettered exhibits
+    const attachmentStore = getLetterAttachmentStore()
+    const exhibitBytes = (await attachmentStore.listExhibits(letter.id))
+      .reduce((total, exhibit) => total + exhibit.sizeBytes, 0)
+    if (exhibitBytes > MAX_EMAIL_EXHIBIT_BYTES) {
+      return NextResponse.json({
+        error: `Exhibits total ${formatFileSize(exhibitBytes)}, more than the ${formatFileSize(MAX_EMAIL_EXHIBIT_BYTES)} that can be emailed`
+      }, { status: 400 })
+    }
+    const exhibits = await attachmentStore.downloadExhibits(letter.id)
+
+    const pdfResult = await renderLetterPdf(letter, {
+      exhibits: exhibits.map(({ label, fileName }) => ({ label, fileName })),
     })
 
     if (!pdfResult.success || !pdfResult.buffer) {
@@ -114,11 +93,18 @@ export async function POST(
     const safeTitle = sanitizeFileName(letter.title)
     const letterOwner = letter.profiles?.full_name || 'Your legal team'
     const customMessage = message?.toString().trim() || 'Please review the attached approved letter.'
+    const exhibitNote = exhibits.length > 0
+      ? ` Supporting exhibits are attached: ${exhibits.map(exhibit => `${exhibit.label} (${exhibit.fileName})`).join(', ')}.`
+      : ''
+    // Labels only in HTML, since file names are user supplied
+    const exhibitHtmlNote = exhibits.length > 0
+      ? ` Supporting exhibits are attached: ${exhibits.map(exhibit => exhibit.label).join(', ')}.`
+      : ''
 
     const emailResult = await emailService.send({
       to: recipientEmail,
       subject: `Legal Letter: ${letter.title}`,
-      text: `${customMessage}\n\nLetter prepared by ${letterOwner}.\nTitle: ${letter.title}\n\nThe reviewed letter is attached as a PDF.`,
+      text: `${customMessage}\n\nLetter prepared by ${letterOwner}.\nTitle: ${letter.title}\n\nThe reviewed letter is attached as a PDF.${exhibitNote}`,
       html: `
         <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 600px; margin: 0 auto;">
           <div style="background: #1a1a2e; color: white; padding: 20px; text-align: center;">
@@ -131,7 +117,7 @@ export async function POST(
               <p style="margin: 10px 0 0 0;"><strong>Prepared by:</strong> ${letterOwner}</p>
               <p style="margin: 10px 0 0 0;"><strong>Date:</strong> ${new Date(letter.created_at).toLocaleDateString()}</p>
             </div>
-            <p>The reviewed letter is attached as a PDF for your records.</p>
+            <p>The reviewed letter is attached as a PDF for your records.${exhibitHtmlNote}</p>
           </div>
           <div style="padding: 20px; background: #f5f5f5; text-align: center; font-size: 12px; color: #666;">
             <p>Talk-To-My-Lawyer | Professional Legal Letter Services</p>
@@ -145,16 +131,27 @@ export async function POST(
           type: 'application/pdf',
           disposition: 'attachment',
         },
+        ...exhibits.map(exhibit => ({
+          content: exhibit.content.toString('base64'),
+          filename: `${exhibit.label} - ${exhibit.fileName}`,
+          type: exhibit.contentType,
+          disposition: 'attachment' as const,
+        })),
       ],
+      // Delivery and open events from the provider are shown on the letter
+      tracking: { letterId: letter.id, templateType: 'letter-delivery' },
     })
 
     if (!emailResult.success) {
       console.error('[SendEmail] Email send failed:', emailResult.error)
       return NextResponse.json({
         error: emailResult.error || 'Failed to send email'
-      }, { status: 502 })
+      }, { status: emailResult.suppressed ? 400 : 502 })
     }
 
+    // Starts the response deadline clock on the first send
+    await getLetterCaseTracker().markSent(letter)
+
     await supabase.rpc('log_letter_audit', {
       p_letter_id: letter.id,
       p_action: 'email_sent',
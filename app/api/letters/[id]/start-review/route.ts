@@ -1,19 +1,28 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAdminAuth, getAdminSession } from '@/lib/auth/admin-session'
+import { requireReviewAuth, getReviewActor } from '@/lib/auth/admin-session'
+import { getReviewAssignmentService, OPEN_REVIEW_STATUSES } from '@/lib/letters/review-assignment'
+import { AppError, ConflictError } from '@/lib/errors/error-handler'
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Verify admin authentication
-    const authError = await requireAdminAuth()
+    // Verify admin or reviewer authentication
+    const authError = await requireReviewAuth()
     if (authError) return authError
 
     const { id } = await params
+    const actor = await getReviewActor()
+    if (!actor) {
+      return NextResponse.json({ error: 'Reviewer authentication required' }, { status: 401 })
+    }
+
+    // Claiming assigns the letter, which is what lets a reviewer read it
+    await getReviewAssignmentService().claim(id, actor)
+
     const supabase = await createClient()
-    const adminSession = await getAdminSession()
 
     const { data: letter } = await supabase
       .from('letters')
@@ -25,27 +34,37 @@ export async function POST(
       return NextResponse.json({ error: 'Letter not found' }, { status: 404 })
     }
 
-    const { error: updateError } = await supabase
+    const { data: updated, error: updateError } = await supabase
       .from('letters')
       .update({
         status: 'under_review',
-        reviewed_by: adminSession?.userId,
+        reviewed_by: actor.userId,
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
+      .in('status', [...OPEN_REVIEW_STATUSES])
+      .select('id')
 
     if (updateError) throw updateError
+    if (!updated || updated.length === 0) {
+      throw new ConflictError('This letter is no longer awaiting review')
+    }
 
     await supabase.rpc('log_letter_audit', {
       p_letter_id: id,
       p_action: 'review_started',
       p_old_status: letter.status,
       p_new_status: 'under_review',
-      p_notes: 'Admin started reviewing the letter'
+      p_notes: actor.role === 'admin'
+        ? 'Admin started reviewing the letter'
+        : 'Reviewer started reviewing the letter'
     })
 
     return NextResponse.json({ success: true })
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
     console.error('[v0] Start review error:', error)
     return NextResponse.json(
       { error: 'Failed to start review' },
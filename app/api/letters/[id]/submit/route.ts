@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
+import { getReviewAssignmentService } from '@/lib/letters/review-assignment'
 
 // Valid status transitions
 const VALID_TRANSITIONS: Record<string, string[]> = {
@@ -95,6 +96,8 @@ export async function POST(
       p_notes: 'Letter submitted for review by user'
     })
 
+    await getReviewAssignmentService().autoAssignSafely(id)
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('[v0] Letter submission error:', error)
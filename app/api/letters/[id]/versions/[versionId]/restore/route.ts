@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveLetterReviewer } from '@/lib/letters/comment-access'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { getLetterVersionStore } from '@/lib/letters/versions'
+
+/**
+ * Restore an earlier version as the letter's final content
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterReview)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const { id, versionId } = await params
+    const adminId = await resolveLetterReviewer(id)
+    if (!adminId) {
+      return NextResponse.json({ error: 'Admin authentication required' }, { status: 401 })
+    }
+
+    const store = getLetterVersionStore()
+
+    const target = await store.get(versionId)
+    if (!target || target.letter_id !== id) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+    }
+
+    const version = await store.restore(versionId, adminId)
+
+    return NextResponse.json({ success: true, version })
+  } catch (error: any) {
+    console.error('[LetterVersions] Restore error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to restore version' },
+      { status: 500 }
+    )
+  }
+}
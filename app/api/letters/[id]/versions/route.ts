@@ -0,0 +1,93 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveLetterReviewer } from '@/lib/letters/comment-access'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { getLetterVersionStore } from '@/lib/letters/versions'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+
+/**
+ * List a letter's versions, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const adminId = await resolveLetterReviewer(id)
+    if (!adminId) {
+      return NextResponse.json({ error: 'Admin authentication required' }, { status: 401 })
+    }
+
+    const versions = await getLetterVersionStore().list(id)
+
+    return NextResponse.json({ versions })
+  } catch (error: any) {
+    console.error('[LetterVersions] List error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load letter versions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Save a reviewer edit as the letter's final content and record it as a
+ * version. `source: 'ai_improve'` marks content the reviewer took from an
+ * AI suggestion.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.letterVersionSave)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const { id } = await params
+    const adminId = await resolveLetterReviewer(id)
+    if (!adminId) {
+      return NextResponse.json({ error: 'Admin authentication required' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const content = sanitizeString(body.content, 10000)
+    const notes = sanitizeString(body.notes, 500) || undefined
+    const source = body.source === 'ai_improve' ? 'ai_improve' : 'manual_edit'
+
+    if (!content) {
+      return NextResponse.json({ error: 'Content is required' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const { error: updateError } = await supabase
+      .from('letters')
+      .update({
+        final_content: content,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+
+    if (updateError) throw updateError
+
+    const version = await getLetterVersionStore().record({
+      letterId: id,
+      content,
+      source,
+      authorId: adminId,
+      notes: notes ?? (source === 'ai_improve' ? 'AI suggestion applied' : 'Letter content edited by admin')
+    })
+
+    return NextResponse.json({ success: true, version })
+  } catch (error: any) {
+    console.error('[LetterVersions] Save error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to save letter version' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,5 @@
 import { createClient } from "@/lib/supabase/server"
-import { openai } from "@ai-sdk/openai"
-import { generateText } from "ai"
+import { generateTextWithRetry } from "@/lib/ai/openai-retry"
 import { NextRequest, NextResponse } from "next/server"
 
 export async function POST(request: NextRequest) {
@@ -46,8 +45,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Improve letter content with AI
-    const { text: improvedContent } = await generateText({
-      model: openai("gpt-4-turbo"),
+    const { text: improvedContent } = await generateTextWithRetry({
+      task: "letter_improvement",
       system: `You are a professional legal editor. Your task is to improve legal letters while maintaining their core message and legal integrity.
 
       Your improvements should:
@@ -71,6 +70,7 @@ export async function POST(request: NextRequest) {
       maxOutputTokens: 4000,
     })
 
+    // Only a suggestion; it becomes a version when the reviewer saves it
     return NextResponse.json({
       success: true,
       improvedContent
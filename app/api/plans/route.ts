@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { handleError } from '@/lib/errors/error-handler'
+import { getPlanCatalog } from '@/lib/billing/plan-catalog'
+
+/**
+ * GET /api/plans
+ * Plans currently offered, in display order, for the public pricing pages
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.api)
+    if (rateLimitResponse) {
+      return rateLimitResponse
+    }
+
+    const plans = await getPlanCatalog().list()
+
+    return NextResponse.json(
+      { success: true, plans },
+      { headers: { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300' } }
+    )
+  } catch (error) {
+    console.error('[Plans] List error:', error)
+    return handleError(error)
+  }
+}
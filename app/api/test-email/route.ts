@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { runEmailServiceTests, testProviderConfiguration } from '@/lib/email/test'
+import { getAdminSession, requireAdminAuth } from '@/lib/auth/admin-session'
+import { applyRateLimitPolicy } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit-policies'
+import { getEmailService } from '@/lib/email/service'
+import { getEmailTemplateStore } from '@/lib/email/template-store'
+import {
+  isEmailTemplate,
+  renderTemplateSource,
+  SAMPLE_TEMPLATE_DATA,
+  validateTemplateSource,
+  type TemplateSource,
+} from '@/lib/email/template-source'
 
 /**
  * API endpoint to test email service integration
@@ -52,11 +64,74 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Send one template, rendered with sample data, to the signed-in admin.
+ * Renders the editor's unsaved draft when one is given, otherwise what
+ * recipients in the locale currently receive.
+ */
+async function sendTemplateTest(request: NextRequest, body: {
+  template?: unknown
+  locale?: unknown
+  draft?: TemplateSource
+}) {
+  const rateLimitResponse = await applyRateLimitPolicy(request, RATE_LIMIT_POLICIES.adminWrite)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  const authError = await requireAdminAuth()
+  if (authError) return authError
+
+  const session = await getAdminSession()
+  if (!session?.email) {
+    return NextResponse.json({ error: 'Admin email unknown' }, { status: 400 })
+  }
+
+  if (!isEmailTemplate(body.template)) {
+    return NextResponse.json({ error: 'Unknown email template' }, { status: 400 })
+  }
+
+  if (body.draft) {
+    const errors = validateTemplateSource(body.draft)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 400 })
+    }
+  }
+
+  const { subject, text, html } = body.draft
+    ? renderTemplateSource(body.draft, SAMPLE_TEMPLATE_DATA)
+    : await getEmailTemplateStore().render(
+      body.template,
+      SAMPLE_TEMPLATE_DATA,
+      typeof body.locale === 'string' ? body.locale : null
+    )
+
+  const result = await getEmailService().send({
+    to: session.email,
+    subject: `[Test] ${subject}`,
+    text,
+    html,
+    tracking: { templateType: body.template }
+  })
+
+  return NextResponse.json({
+    success: result.success,
+    ...(result.success ? { message: `Test email sent to ${session.email}` } : { error: result.error }),
+    provider: result.provider,
+    timestamp: new Date().toISOString()
+  }, { status: result.success ? 200 : 502 })
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { testType = 'full' } = body
 
+    // Template test sends come from the admin template editor in any environment
+    if (testType === 'template') {
+      return await sendTemplateTest(request, body)
+    }
+
     // Only allow in development or with special query parameter
     const isDev = process.env.NODE_ENV === 'development'
     if (!isDev) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
 import { createClient } from '@supabase/supabase-js'
+import { redeemCoupon } from '@/lib/billing/coupons'
 
 const STRIPE_API_VERSION: Stripe.LatestApiVersion = '2025-11-17.clover'
 
@@ -76,6 +77,7 @@ export async function POST(request: NextRequest) {
     const discount = parseFloat(metadata.discount ?? '0')
     const finalPrice = parseFloat(metadata.final_price ?? '0')
     const couponCode = metadata.coupon_code || null
+    const couponId = metadata.coupon_id || null
     const employeeId = metadata.employee_id || null
     const isSuperUserCoupon = metadata.is_super_user_coupon === 'true'
 
@@ -92,6 +94,7 @@ export async function POST(request: NextRequest) {
         coupon_code: couponCode,
         remaining_letters: letters,
         credits_remaining: letters,
+        activated_at: new Date().toISOString(),
         last_reset_at: new Date().toISOString(),
         current_period_start: new Date().toISOString(),
         current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
@@ -113,18 +116,20 @@ export async function POST(request: NextRequest) {
         .eq('id', userId)
     }
 
-    // Record coupon usage
-    if (couponCode) {
-      await supabase
-        .from('coupon_usage')
-        .insert({
-          user_id: userId,
-          coupon_code: couponCode,
-          employee_id: employeeId,
-          discount_percent: basePrice ? (discount / basePrice) * 100 : 0,
-          amount_before: basePrice,
-          amount_after: finalPrice,
-        })
+    // Record the coupon redemption; the session is already paid, so it
+    // counts even if the cap filled up meanwhile
+    if (couponId) {
+      await redeemCoupon(supabase, {
+        couponId,
+        subscriptionId: subscription.id,
+        userId,
+        discountPercent: basePrice ? Math.round((discount / basePrice) * 100) : 0,
+        amountBefore: basePrice,
+        amountAfter: finalPrice,
+        enforceCaps: false,
+      }).catch(error => {
+        console.error('[Verify Payment] Failed to record coupon usage:', error)
+      })
     }
 
     // Create commission for employee
@@ -141,21 +146,6 @@ export async function POST(request: NextRequest) {
           commission_amount: commissionAmount,
           status: 'pending',
         })
-
-      // Update coupon usage count
-      const { data: currentCoupon } = await supabase
-        .from('employee_coupons')
-        .select('usage_count')
-        .eq('code', couponCode)
-        .single()
-
-      await supabase
-        .from('employee_coupons')
-        .update({
-          usage_count: (currentCoupon?.usage_count || 0) + 1,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('code', couponCode)
     }
 
     return NextResponse.json({
@@ -7,6 +7,18 @@ import { format } from 'date-fns'
 import Link from 'next/link'
 import { LetterActions } from '@/components/letter-actions'
 import { ReviewStatusModal } from '@/components/review-status-modal'
+import { LetterComments } from '@/components/letter-comments'
+import { RequestChangesButton } from '@/components/request-changes-button'
+import { LetterAttachments } from '@/components/letter-attachments'
+import { MailLetterButton } from '@/components/mail-letter-button'
+import { getMailDispatchService } from '@/lib/mail/service'
+import { MAILING_METHODS, MAIL_STATUS_LABELS } from '@/lib/mail/delivery'
+import { LetterOutcomes } from '@/components/letter-outcomes'
+import { getLetterCaseTracker } from '@/lib/letters/case-tracking'
+import { LETTER_OUTCOMES } from '@/lib/letters/outcomes'
+import { getEmailDeliveryLog } from '@/lib/email/delivery-log'
+import { EMAIL_DELIVERY_LABELS, summarizeEmailDeliveries } from '@/lib/email/delivery-summary'
+import { getReviewSlaTracker } from '@/lib/letters/sla-tracking'
 
 export default async function LetterDetailPage({ params }: { params: { id: string } }) {
   const { id } = params
@@ -28,6 +40,18 @@ export default async function LetterDetailPage({ params }: { params: { id: strin
     redirect('/dashboard/letters')
   }
 
+  const mailings = await getMailDispatchService().list(letter.id)
+  const latestMailing = mailings[0]
+  const caseThread = await getLetterCaseTracker().getThread(letter.id)
+  const emailDeliveries = summarizeEmailDeliveries(await getEmailDeliveryLog().listForLetter(letter.id))
+  const inReview = ['pending_review', 'under_review'].includes(letter.status)
+  const reviewSla = inReview
+    ? await getReviewSlaTracker().evaluateLetter(letter).catch(() => null)
+    : null
+  const estimatedCompletion = reviewSla && reviewSla.state !== 'breached'
+    ? `Estimated completion by ${format(new Date(reviewSla.dueAt), 'MMM d, yyyy h:mm a')}`
+    : null
+
   const statusColors: Record<string, string> = {
     'draft': 'bg-muted text-muted-foreground',
     'pending_review': 'bg-warning/10 text-warning',
@@ -48,9 +72,12 @@ export default async function LetterDetailPage({ params }: { params: { id: strin
         ? 'active' 
         : (['approved', 'rejected'].includes(letter.status) ? 'completed' : 'pending'),
       icon: ['pending_review', 'under_review'].includes(letter.status) ? '⏳' : '✓',
-      description: letter.status === 'under_review' 
+      description: (letter.status === 'under_review' 
         ? 'Attorney is currently reviewing your letter' 
         : (letter.status === 'pending_review' ? 'Waiting for attorney review' : 'Review completed')
+      ) + (inReview
+        ? (estimatedCompletion ? ` · ${estimatedCompletion}` : ' · Taking longer than usual, our team has been notified')
+        : '')
     },
     {
       label: letter.status === 'rejected' ? 'Rejected' : 'Approved',
@@ -70,6 +97,24 @@ export default async function LetterDetailPage({ params }: { params: { id: strin
     }
   ]
 
+  if (latestMailing) {
+    const mailFailed = ['returned', 'failed'].includes(latestMailing.status)
+    const statusLabel = MAIL_STATUS_LABELS[latestMailing.status]
+    timelineSteps.push({
+      label: `Mailed via ${MAILING_METHODS[latestMailing.method].label}`,
+      status: latestMailing.status === 'delivered' || mailFailed ? 'completed' : 'active',
+      icon: latestMailing.status === 'delivered' ? '✓' : (mailFailed ? '✗' : '✉'),
+      description: latestMailing.delivered_at
+        ? `${statusLabel} ${format(new Date(latestMailing.delivered_at), 'MMM d, yyyy h:mm a')}`
+        : `${statusLabel}${latestMailing.tracking_number ? ` · Tracking ${latestMailing.tracking_number}` : ''}`
+    })
+  }
+
+  // Paragraph mentions only offer text the viewer can already see
+  const visibleContent = profile.role === 'admin' || letter.status === 'approved'
+    ? letter.final_content || letter.ai_draft_content
+    : null
+
   const showReviewModal = ['pending_review', 'under_review'].includes(letter.status)
 
   return (
@@ -93,7 +138,15 @@ export default async function LetterDetailPage({ params }: { params: { id: strin
                 </span>
               </div>
             </div>
-            <LetterActions letter={letter} />
+            <div className="flex items-start gap-2">
+              {letter.status === 'approved' && letter.user_id === profile.id && (
+                <RequestChangesButton letterId={letter.id} />
+              )}
+              {letter.status === 'approved' && letter.user_id === profile.id && (
+                <MailLetterButton letterId={letter.id} recipientName={letter.intake_data?.recipientName} />
+              )}
+              <LetterActions letter={letter} />
+            </div>
           </div>
         </div>
 
@@ -146,6 +199,78 @@ export default async function LetterDetailPage({ params }: { params: { id: strin
             </div>
           )}
 
+          {emailDeliveries.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <h2 className="text-lg font-semibold">Email Delivery</h2>
+              <ul className="divide-y rounded-lg border">
+                {emailDeliveries.map((delivery) => (
+                  <li key={delivery.key} className="flex flex-wrap items-center justify-between gap-2 p-3 text-sm">
+                    <div>
+                      <p className="font-medium">{delivery.recipient}</p>
+                      <p className="text-muted-foreground">
+                        Sent {format(new Date(delivery.sentAt), 'MMM d, yyyy h:mm a')}
+                        {delivery.deliveredAt && <> · Delivered {format(new Date(delivery.deliveredAt), 'MMM d, h:mm a')}</>}
+                        {delivery.openedAt && <> · Opened {format(new Date(delivery.openedAt), 'MMM d, h:mm a')}</>}
+                      </p>
+                      {delivery.problem && <p className="text-destructive">{delivery.problem}</p>}
+                    </div>
+                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                      ['failed', 'bounced', 'complained'].includes(delivery.status)
+                        ? 'bg-destructive/10 text-destructive'
+                        : ['delivered', 'opened', 'clicked'].includes(delivery.status)
+                          ? 'bg-success/10 text-success'
+                          : 'bg-muted'
+                    }`}>
+                      {EMAIL_DELIVERY_LABELS[delivery.status]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {mailings.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <h2 className="text-lg font-semibold">Mail Delivery</h2>
+              {mailings.map((mailing) => (
+                <div key={mailing.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <div>
+                      <p className="font-medium">
+                        {MAILING_METHODS[mailing.method].label} to {mailing.recipient_name}
+                      </p>
+                      <p className="text-muted-foreground">
+                        Sent {format(new Date(mailing.created_at), 'MMM d, yyyy')}
+                        {mailing.tracking_number && <> · Tracking <span className="font-mono">{mailing.tracking_number}</span></>}
+                      </p>
+                    </div>
+                    <span className="px-2 py-1 rounded-full text-xs font-semibold bg-muted">
+                      {MAIL_STATUS_LABELS[mailing.status]}
+                    </span>
+                  </div>
+                  {mailing.error_message && (
+                    <p className="text-sm text-destructive">{mailing.error_message}</p>
+                  )}
+                  {mailing.events.length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                      {mailing.events.map((event) => (
+                        <li key={event.id} className="flex gap-3">
+                          <span className="text-muted-foreground w-40 shrink-0">
+                            {format(new Date(event.occurred_at), 'MMM d, h:mm a')}
+                          </span>
+                          <span>
+                            {event.description}
+                            {event.location && <span className="text-muted-foreground"> · {event.location}</span>}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Status Information */}
           {letter.status === 'pending_review' && (
             <div className="bg-warning/10 border border-warning/20 rounded-lg p-4">
@@ -156,6 +281,9 @@ export default async function LetterDetailPage({ params }: { params: { id: strin
                 <div>
                   <h3 className="font-semibold text-warning">Under Review</h3>
                   <p className="text-sm text-warning/80">Your letter is being reviewed by our legal team. You'll be notified once it's approved.</p>
+                  {estimatedCompletion && (
+                    <p className="text-sm text-warning/80 mt-1">{estimatedCompletion}.</p>
+                  )}
                 </div>
               </div>
             </div>
@@ -223,6 +351,58 @@ export default async function LetterDetailPage({ params }: { params: { id: strin
               </div>
             </div>
           )}
+
+          {['approved', 'completed'].includes(letter.status) && (
+            <div className="bg-white rounded-lg shadow-sm border p-6">
+              <LetterOutcomes
+                letterId={letter.id}
+                letter={{
+                  status: letter.status,
+                  sent_at: letter.sent_at,
+                  response_deadline: letter.response_deadline,
+                  outcome: letter.outcome
+                }}
+                canEdit={letter.user_id === profile.id}
+              />
+            </div>
+          )}
+
+          {caseThread.length > 1 && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <h2 className="text-lg font-semibold">Case Thread</h2>
+              <ol className="space-y-2">
+                {caseThread.map((threadLetter, index) => (
+                  <li key={threadLetter.id} className="flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <span className="text-muted-foreground mr-2">{index === 0 ? 'Original' : `Follow-up ${index}`}</span>
+                      {threadLetter.id === letter.id ? (
+                        <span className="font-medium">{threadLetter.title}</span>
+                      ) : (
+                        <Link href={`/dashboard/letters/${threadLetter.id}`} className="font-medium text-primary hover:text-primary/80">
+                          {threadLetter.title}
+                        </Link>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {threadLetter.outcome
+                        ? LETTER_OUTCOMES[threadLetter.outcome].label
+                        : threadLetter.sent_at
+                          ? `Sent ${format(new Date(threadLetter.sent_at), 'MMM d, yyyy')}`
+                          : threadLetter.status.replace('_', ' ')}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <LetterAttachments letterId={letter.id} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <LetterComments letterId={letter.id} content={visibleContent} />
+          </div>
         </div>
       </div>
     </DashboardLayout>
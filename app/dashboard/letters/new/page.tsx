@@ -2,81 +2,93 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
+import { useState, useEffect, useCallback } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { SubscriptionModal } from "@/components/subscription-modal"
 import { GenerateButton } from "@/components/generate-button"
+import { GenerationTrackerModal } from "@/components/generation-tracker-modal"
+import { uploadLetterAttachment } from "@/components/letter-attachments"
 import { createClient } from "@/lib/supabase/client"
+import { LETTER_TYPES, getLetterType, type LetterFieldDefinition } from "@/lib/validation/letter-types"
+import type { GenerationProgress } from "@/lib/letters/generation-queue"
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_LETTER,
+  exhibitLabel,
+  formatFileSize,
+  validateAttachmentFile,
+} from "@/lib/letters/exhibits"
+import { buildFollowUpIntake } from "@/lib/letters/outcomes"
+import { planPriceSuffix } from "@/lib/billing/plans"
+import { usePlans } from "@/hooks/use-plans"
+
+// Card artwork for the letter types in the registry; unknown types use the document icon
+const LETTER_TYPE_ICONS: Record<string, React.ReactNode> = {
+  demand_letter: (
+    <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path d="M20 9V5H4V9H20ZM20 11H4V19H20V11ZM3 3H21C21.5523 3 22 3.44772 22 4V20C22 20.5523 21.5523 21 21 21H3C2.44772 21 2 20.5523 2 20V4C2 3.44772 2.44772 3 3 3ZM5 12H8V17H5V12ZM5 6H7V8H5V6ZM9 6H11V8H9V6Z"/>
+    </svg>
+  ),
+  cease_desist: (
+    <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z"/>
+    </svg>
+  ),
+  contract_breach: (
+    <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path d="M14 2H6c-1.1 0-2 .9-2 2v16c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zm2 14H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z"/>
+    </svg>
+  ),
+  eviction_notice: (
+    <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/>
+    </svg>
+  ),
+  employment_dispute: (
+    <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5s-3 1.34-3 3 1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z"/>
+    </svg>
+  ),
+  consumer_complaint: (
+    <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path d="M7 18c-1.1 0-1.99.9-1.99 2S5.9 22 7 22s2-.9 2-2-.9-2-2-2zM1 2v2h2l3.6 7.59-1.35 2.45c-.16.28-.25.61-.25.96 0 1.1.9 2 2 2h12v-2H7.42c-.14 0-.25-.11-.25-.25l.03-.12.9-1.63h7.45c.75 0 1.41-.41 1.75-1.03l3.58-6.49c.08-.14.12-.31.12-.48 0-.55-.45-1-1-1H5.21l-.94-2H1zm16 16c-1.1 0-1.99.9-1.99 2s.89 2 1.99 2 2-.9 2-2-.9-2-2-2z"/>
+    </svg>
+  ),
+}
 
-const LETTER_TYPES = [
-  {
-    value: "demand_letter",
-    label: "Demand Letter",
-    description: "Formal demand for payment or action",
-    icon: (
-      <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <path d="M20 9V5H4V9H20ZM20 11H4V19H20V11ZM3 3H21C21.5523 3 22 3.44772 22 4V20C22 20.5523 21.5523 21 21 21H3C2.44772 21 2 20.5523 2 20V4C2 3.44772 2.44772 3 3 3ZM5 12H8V17H5V12ZM5 6H7V8H5V6ZM9 6H11V8H9V6Z"/>
-      </svg>
-    )
-  },
-  {
-    value: "cease_desist",
-    label: "Cease and Desist",
-    description: "Stop harmful or illegal activity",
-    icon: (
-      <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z"/>
-      </svg>
-    )
-  },
-  {
-    value: "contract_breach",
-    label: "Contract Breach Notice",
-    description: "Notify of contract violation",
-    icon: (
-      <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <path d="M14 2H6c-1.1 0-2 .9-2 2v16c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zm2 14H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z"/>
-      </svg>
-    )
-  },
-  {
-    value: "eviction_notice",
-    label: "Eviction Notice",
-    description: "Legal notice to vacate property",
-    icon: (
-      <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/>
-      </svg>
-    )
-  },
-  {
-    value: "employment_dispute",
-    label: "Employment Dispute",
-    description: "Workplace issue resolution",
-    icon: (
-      <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5s-3 1.34-3 3 1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z"/>
-      </svg>
-    )
-  },
-  {
-    value: "consumer_complaint",
-    label: "Consumer Complaint",
-    description: "Product or service complaint",
-    icon: (
-      <svg fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <path d="M7 18c-1.1 0-1.99.9-1.99 2S5.9 22 7 22s2-.9 2-2-.9-2-2-2zM1 2v2h2l3.6 7.59-1.35 2.45c-.16.28-.25.61-.25.96 0 1.1.9 2 2 2h12v-2H7.42c-.14 0-.25-.11-.25-.25l.03-.12.9-1.63h7.45c.75 0 1.41-.41 1.75-1.03l3.58-6.49c.08-.14.12-.31.12-.48 0-.55-.45-1-1-1H5.21l-.94-2H1zm16 16c-1.1 0-1.99.9-1.99 2s.89 2 1.99 2 2-.9 2-2-.9-2-2-2z"/>
-      </svg>
-    )
-  },
-]
+const LETTER_TYPE_CARD_CLASSES: Record<string, string> = {
+  demand_letter: "demand",
+  cease_desist: "cease",
+  contract_breach: "contract",
+  eviction_notice: "eviction",
+  employment_dispute: "employment",
+  consumer_complaint: "consumer",
+}
+
+// Group consecutive fields sharing a `group` so they render side by side
+function groupFields(fields: LetterFieldDefinition[]): LetterFieldDefinition[][] {
+  const rows: LetterFieldDefinition[][] = []
+  for (const field of fields) {
+    const previous = rows[rows.length - 1]
+    if (field.group && previous?.[0]?.group === field.group) {
+      previous.push(field)
+    } else {
+      rows.push([field])
+    }
+  }
+  return rows
+}
 
 export default function NewLetterPage() {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const { plans } = usePlans()
+  const followUpId = searchParams.get("followUp")
   const [loading, setLoading] = useState(false)
   const [selectedType, setSelectedType] = useState("")
   const [error, setError] = useState<string | null>(null)
@@ -87,21 +99,39 @@ export default function NewLetterPage() {
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false)
   const [hasSubscription, setHasSubscription] = useState(false)
   const [isChecking, setIsChecking] = useState(true)
-  const [formData, setFormData] = useState({
-    senderName: "",
-    senderAddress: "",
-    recipientName: "",
-    recipientAddress: "",
-    issueDescription: "",
-    desiredOutcome: "",
-    amountDemanded: "",
-    supportingDocuments: "",
-  })
+  const [formData, setFormData] = useState<Record<string, string>>({})
+  const [generatingLetterId, setGeneratingLetterId] = useState<string | null>(null)
+  const [files, setFiles] = useState<File[]>([])
+  const [followUpOf, setFollowUpOf] = useState<{ id: string; title: string } | null>(null)
+
+  const selectedDefinition = selectedType ? getLetterType(selectedType) : undefined
 
   useEffect(() => {
     checkSubscription()
   }, [])
 
+  // A follow-up starts from the original letter's intake
+  useEffect(() => {
+    if (!followUpId) return
+    const loadOriginal = async () => {
+      const supabase = createClient()
+      const { data: original } = await supabase
+        .from("letters")
+        .select("id, title, letter_type, intake_data")
+        .eq("id", followUpId)
+        .maybeSingle()
+
+      if (!original || !getLetterType(original.letter_type)) {
+        setError("The original letter could not be loaded. You can still write a new letter.")
+        return
+      }
+      setFollowUpOf({ id: original.id, title: original.title })
+      setSelectedType(original.letter_type)
+      setFormData(buildFollowUpIntake(original.intake_data))
+    }
+    loadOriginal()
+  }, [followUpId])
+
   const checkSubscription = async () => {
     setIsChecking(true)
     try {
@@ -153,6 +183,20 @@ export default function NewLetterPage() {
     }
   }
 
+  const handleAddFiles = (selected: FileList | null) => {
+    if (!selected) return
+    const next = [...files]
+    for (const file of Array.from(selected)) {
+      const problem = validateAttachmentFile(file, next.length)
+      if (problem) {
+        setError(problem)
+        break
+      }
+      next.push(file)
+    }
+    setFiles(next)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -165,13 +209,26 @@ export default function NewLetterPage() {
     setLoading(true)
     setError(null)
 
+    // Only send the fields the selected letter type declares, dropping blanks
+    const intakeData: Record<string, unknown> = {}
+    for (const field of selectedDefinition?.fields ?? []) {
+      const value = formData[field.name]?.trim()
+      if (!value) continue
+      intakeData[field.name] = field.type === "number" ? Number(value) : value
+    }
+    // File names let the draft refer to the exhibits; the files follow once the letter exists
+    if (files.length > 0) {
+      intakeData.attachments = files.map((file) => file.name)
+    }
+
     try {
       const response = await fetch("/api/generate-letter", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           letterType: selectedType,
-          intakeData: formData,
+          intakeData,
+          ...(followUpOf && { parentLetterId: followUpOf.id }),
         }),
       })
 
@@ -184,14 +241,23 @@ export default function NewLetterPage() {
         throw new Error(errorData.error || "Failed to generate letter")
       }
 
-      const { letterId: newLetterId, aiDraft: draft, isFreeTrial: freeTrialFlag } = await response.json()
+      const { letterId: newLetterId, isFreeTrial: freeTrialFlag } = await response.json()
       setLetterId(newLetterId)
-      setAiDraft(draft || "")
       setIsFreeTrial(!!freeTrialFlag)
       setShowPricingOverlay(!!freeTrialFlag)
 
-      // Automatically take the user to the letter status page (now queued for admin review)
-      router.push(`/dashboard/letters/${newLetterId}?submitted=1`)
+      // Upload in order so exhibit letters match the names sent above
+      for (const file of files) {
+        try {
+          await uploadLetterAttachment(newLetterId, file)
+        } catch (uploadError: any) {
+          console.error("[NewLetter] Attachment upload failed:", uploadError)
+          setError(`${uploadError.message}. You can add it again from the letter page.`)
+        }
+      }
+
+      // Generation runs in the background; the tracker follows its progress
+      setGeneratingLetterId(newLetterId)
     } catch (err: any) {
       console.error("[v0] Letter creation error:", err)
       setError(err.message || "Failed to create letter")
@@ -200,8 +266,24 @@ export default function NewLetterPage() {
     }
   }
 
+  const handleGenerationComplete = useCallback((progress: GenerationProgress) => {
+    // Take the user to the letter status page (now queued for admin review)
+    router.push(`/dashboard/letters/${progress.letterId}?submitted=1`)
+  }, [router])
+
+  const handleGenerationFailed = useCallback((progress: GenerationProgress) => {
+    setGeneratingLetterId(null)
+    setError(progress.error || "Failed to generate letter")
+  }, [])
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
+      <GenerationTrackerModal
+        isOpen={!!generatingLetterId}
+        letterId={generatingLetterId}
+        onComplete={handleGenerationComplete}
+        onFailed={handleGenerationFailed}
+      />
       <SubscriptionModal
         show={showSubscriptionModal}
         onClose={() => setShowSubscriptionModal(false)}
@@ -212,136 +294,125 @@ export default function NewLetterPage() {
         <div className="bg-card rounded-lg shadow-sm border p-6">
           <h2 className="text-2xl font-bold mb-8 text-center text-slate-900">Select Letter Type</h2>
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {LETTER_TYPES.map((type) => {
-              const cardClass = type.value.includes('demand') ? 'demand' :
-                               type.value.includes('cease') ? 'cease' :
-                               type.value.includes('contract') ? 'contract' :
-                               type.value.includes('eviction') ? 'eviction' :
-                               type.value.includes('employment') ? 'employment' :
-                               'consumer';
-
-              return (
-                <button
-                  key={type.value}
-                  onClick={() => setSelectedType(type.value)}
-                  className={`letter-card ${cardClass}`}
-                >
-                  <div className="content">
-                    {type.icon}
-                    <p className="para">{type.label}</p>
-                    <p className="description">{type.description}</p>
-                  </div>
-                </button>
-              );
-            })}
+            {LETTER_TYPES.map((type) => (
+              <button
+                key={type.value}
+                onClick={() => {
+                  setSelectedType(type.value)
+                  setFormData({})
+                  setFiles([])
+                }}
+                className={`letter-card ${LETTER_TYPE_CARD_CLASSES[type.value] ?? "contract"}`}
+              >
+                <div className="content">
+                  {LETTER_TYPE_ICONS[type.value] ?? LETTER_TYPE_ICONS.contract_breach}
+                  <p className="para">{type.label}</p>
+                  <p className="description">{type.description}</p>
+                </div>
+              </button>
+            ))}
           </div>
         </div>
       ) : (
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="bg-card rounded-lg shadow-sm border p-6">
             <div className="flex items-center justify-between mb-6">
-              <h2 className="text-xl font-semibold">{LETTER_TYPES.find((t) => t.value === selectedType)?.label}</h2>
+              <h2 className="text-xl font-semibold">{selectedDefinition?.label}</h2>
               <button
                 type="button"
-                onClick={() => setSelectedType("")}
+                onClick={() => {
+                  setSelectedType("")
+                  setFollowUpOf(null)
+                }}
                 className="text-sm text-muted-foreground hover:text-foreground"
               >
                 Change type
               </button>
             </div>
 
-            <div className="space-y-4">
-              <div className="grid md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="senderName">Your Full Name</Label>
-                  <Input
-                    id="senderName"
-                    value={formData.senderName}
-                    onChange={(e) => setFormData({ ...formData, senderName: e.target.value })}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="recipientName">Recipient Name</Label>
-                  <Input
-                    id="recipientName"
-                    value={formData.recipientName}
-                    onChange={(e) => setFormData({ ...formData, recipientName: e.target.value })}
-                    required
-                  />
-                </div>
-              </div>
-
-              <div>
-                <Label htmlFor="senderAddress">Your Address</Label>
-                <Textarea
-                  id="senderAddress"
-                  rows={3}
-                  value={formData.senderAddress}
-                  onChange={(e) => setFormData({ ...formData, senderAddress: e.target.value })}
-                  required
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="recipientAddress">Recipient Address</Label>
-                <Textarea
-                  id="recipientAddress"
-                  rows={3}
-                  value={formData.recipientAddress}
-                  onChange={(e) => setFormData({ ...formData, recipientAddress: e.target.value })}
-                  required
-                />
+            {followUpOf && (
+              <div className="mb-6 p-3 text-sm bg-primary/5 border border-primary/20 rounded-md">
+                Follow-up to <span className="font-medium">{followUpOf.title}</span>. Details are copied from the
+                original letter; set a new response deadline and describe what has happened since.
               </div>
+            )}
 
-              <div>
-                <Label htmlFor="issueDescription">Issue Description</Label>
-                <Textarea
-                  id="issueDescription"
-                  rows={6}
-                  placeholder="Describe the issue in detail. Include relevant dates, events, and any supporting information..."
-                  value={formData.issueDescription}
-                  onChange={(e) => setFormData({ ...formData, issueDescription: e.target.value })}
-                  required
-                />
-              </div>
+            <div className="space-y-4">
+              {groupFields((selectedDefinition?.fields ?? []).filter((field) => field.type !== "array")).map((row) => (
+                <div key={row.map((field) => field.name).join("-")} className={row.length > 1 ? "grid md:grid-cols-2 gap-4" : undefined}>
+                  {row.map((field) => (
+                    <div key={field.name}>
+                      <Label htmlFor={field.name}>{field.label}</Label>
+                      {field.input === "textarea" ? (
+                        <Textarea
+                          id={field.name}
+                          rows={field.rows ?? 3}
+                          placeholder={field.placeholder}
+                          maxLength={field.maxLength}
+                          value={formData[field.name] ?? ""}
+                          onChange={(e) => setFormData({ ...formData, [field.name]: e.target.value })}
+                          required={field.required}
+                        />
+                      ) : (
+                        <Input
+                          id={field.name}
+                          type={field.input}
+                          step={field.input === "number" ? "0.01" : undefined}
+                          min={field.min}
+                          max={field.max}
+                          placeholder={field.placeholder}
+                          maxLength={field.maxLength}
+                          value={formData[field.name] ?? ""}
+                          onChange={(e) => setFormData({ ...formData, [field.name]: e.target.value })}
+                          required={field.required}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
 
-              {selectedType === "demand_letter" && (
-                <div>
-                  <Label htmlFor="amountDemanded">Amount Demanded ($)</Label>
+            {selectedDefinition?.fields.some((field) => field.name === "attachments") && (
+              <div className="mt-4">
+                <Label htmlFor="attachments">Evidence (Optional)</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Invoices, contracts, photos or screenshots that back up your letter. PDF, images, text or Word files
+                  up to {formatFileSize(MAX_ATTACHMENT_BYTES)} each, {MAX_ATTACHMENTS_PER_LETTER} files at most.
+                </p>
+                {files.length < MAX_ATTACHMENTS_PER_LETTER && (
                   <Input
-                    id="amountDemanded"
-                    type="number"
-                    step="0.01"
-                    value={formData.amountDemanded}
-                    onChange={(e) => setFormData({ ...formData, amountDemanded: e.target.value })}
+                    id="attachments"
+                    type="file"
+                    multiple
+                    accept={ATTACHMENT_ACCEPT}
+                    onChange={(e) => {
+                      handleAddFiles(e.target.files)
+                      e.target.value = ""
+                    }}
                   />
-                </div>
-              )}
-
-              <div>
-                <Label htmlFor="desiredOutcome">Desired Outcome</Label>
-                <Textarea
-                  id="desiredOutcome"
-                  rows={3}
-                  placeholder="What resolution are you seeking?"
-                  value={formData.desiredOutcome}
-                  onChange={(e) => setFormData({ ...formData, desiredOutcome: e.target.value })}
-                  required
-                />
+                )}
+                {files.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {files.map((file, index) => (
+                      <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm">
+                        <span>
+                          <span className="font-medium">{exhibitLabel(index)}:</span> {file.name}{" "}
+                          <span className="text-muted-foreground">({formatFileSize(file.size)})</span>
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                          className="text-xs text-muted-foreground hover:text-destructive"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
-
-              <div>
-                <Label htmlFor="supportingDocuments">Supporting Documents (Optional)</Label>
-                <Textarea
-                  id="supportingDocuments"
-                  rows={2}
-                  placeholder="List any contracts, invoices, emails, or other documents that support your case"
-                  value={formData.supportingDocuments}
-                  onChange={(e) => setFormData({ ...formData, supportingDocuments: e.target.value })}
-                />
-              </div>
-            </div>
+            )}
 
             {error && <div className="mt-4 p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>}
 
@@ -401,42 +472,25 @@ export default function NewLetterPage() {
                     Your first draft is free to preview. Subscribe to submit this letter for attorney review and delivery.
                   </p>
                   <div className="grid gap-3">
-                    <div className="border rounded-lg p-3 flex items-center justify-between">
-                      <div>
-                        <div className="font-semibold">Single Letter</div>
-                        <div className="text-sm text-muted-foreground">One-time review</div>
+                    {plans.map(plan => (
+                      <div
+                        key={plan.planType}
+                        className={`border rounded-lg p-3 flex items-center justify-between ${plan.isPopular ? "bg-primary/5" : ""}`}
+                      >
+                        <div>
+                          <div className="font-semibold">{plan.name}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {plan.description || `${plan.letters} ${plan.letters === 1 ? "letter" : "letters"}`}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-2xl font-bold">${plan.price}{planPriceSuffix(plan)}</div>
+                          <Button size="sm" className="mt-2" onClick={() => router.push(`/dashboard/subscription?plan=${plan.planType}`)}>
+                            Choose
+                          </Button>
+                        </div>
                       </div>
-                      <div className="text-right">
-                        <div className="text-2xl font-bold">$299</div>
-                        <Button size="sm" className="mt-2" onClick={() => router.push("/dashboard/subscription")}>
-                          Choose
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="border rounded-lg p-3 flex items-center justify-between bg-primary/5">
-                      <div>
-                        <div className="font-semibold">Monthly</div>
-                        <div className="text-sm text-muted-foreground">4 letters per month</div>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-2xl font-bold">$299/mo</div>
-                        <Button size="sm" className="mt-2" onClick={() => router.push("/dashboard/subscription")}>
-                          Choose
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="border rounded-lg p-3 flex items-center justify-between">
-                      <div>
-                        <div className="font-semibold">Yearly</div>
-                        <div className="text-sm text-muted-foreground">8 letters per year</div>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-2xl font-bold">$599/yr</div>
-                        <Button size="sm" className="mt-2" onClick={() => router.push("/dashboard/subscription")}>
-                          Choose
-                        </Button>
-                      </div>
-                    </div>
+                    ))}
                   </div>
                   <div className="flex items-center justify-between">
                     <Button variant="secondary" onClick={() => setShowPricingOverlay(false)}>
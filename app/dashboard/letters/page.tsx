@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { DashboardLayout } from '@/components/dashboard-layout'
 import { GenerateButton } from '@/components/generate-button'
 import { format } from 'date-fns'
+import { buildCaseThreads, LETTER_OUTCOMES, type LetterOutcome } from '@/lib/letters/outcomes'
 
 export default async function MyLettersPage() {
   const { profile } = await getUser()
@@ -31,6 +32,8 @@ export default async function MyLettersPage() {
 
   const approvedLetters = (letters || []).filter(l => l.status === 'approved')
   const inProgressLetters = (letters || []).filter(l => l.status !== 'approved')
+  // Originals with their follow-up letters
+  const caseThreads = buildCaseThreads(letters || []).filter(thread => thread.length > 1)
 
   const statusColors: Record<string, string> = {
     'draft': 'bg-muted text-muted-foreground',
@@ -92,6 +95,11 @@ export default async function MyLettersPage() {
                     <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${statusColors[letter.status]}`}>
                       {statusLabels[letter.status] || letter.status}
                     </span>
+                    {letter.outcome && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Recipient: {LETTER_OUTCOMES[letter.outcome as LetterOutcome].label}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-sm text-muted-foreground">
                     {format(new Date(letter.created_at), 'MMM d, yyyy')}
@@ -125,6 +133,40 @@ export default async function MyLettersPage() {
 
       {letters && letters.length > 0 ? (
         <>
+          {caseThreads.length > 0 && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold text-slate-900 mb-4">Case Threads</h2>
+              <div className="space-y-4">
+                {caseThreads.map((thread) => (
+                  <div key={thread[0]!.id} className="bg-white rounded-lg shadow-sm border p-4">
+                    <ol className="space-y-2">
+                      {thread.map((letter, index) => (
+                        <li key={letter.id} className={`flex items-center justify-between gap-3 text-sm ${index > 0 ? 'pl-6 border-l-2 border-border ml-2' : ''}`}>
+                          <div className="min-w-0">
+                            <span className="text-muted-foreground mr-2">{index === 0 ? 'Original' : `Follow-up ${index}`}</span>
+                            <Link href={`/dashboard/letters/${letter.id}`} className="font-medium text-primary hover:text-primary/80">
+                              {letter.title}
+                            </Link>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            {letter.outcome && (
+                              <span className="text-xs text-muted-foreground">
+                                {LETTER_OUTCOMES[letter.outcome as LetterOutcome].label}
+                              </span>
+                            )}
+                            <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${statusColors[letter.status]}`}>
+                              {statusLabels[letter.status] || letter.status}
+                            </span>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <LetterTable letters={approvedLetters} title="My Approved Letters" />
           
           {inProgressLetters.length > 0 && (
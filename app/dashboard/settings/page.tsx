@@ -10,7 +10,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
 import { toast } from 'sonner'
+import { EMAIL_LOCALES, type EmailLocale } from '@/lib/email/template-source'
+import { EMAIL_CATEGORIES, OPTIONAL_EMAIL_CATEGORIES, type EmailCategory } from '@/lib/email/categories'
 import {
   User,
   Mail,
@@ -28,13 +31,15 @@ export default function SubscriberSettingsPage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [passwordLoading, setPasswordLoading] = useState(false)
+  const [emailPreferences, setEmailPreferences] = useState<Partial<Record<EmailCategory, boolean>>>({})
   const supabase = createClient()
 
   // Form states
   const [formData, setFormData] = useState({
     full_name: '',
     phone: '',
-    company_name: ''
+    company_name: '',
+    locale: 'en' as EmailLocale
   })
 
   // Password form
@@ -60,8 +65,14 @@ export default function SubscriberSettingsPage() {
         setFormData({
           full_name: profileData.full_name || '',
           phone: profileData.phone || '',
-          company_name: profileData.company_name || ''
+          company_name: profileData.company_name || '',
+          locale: profileData.locale || 'en'
         })
+
+        const preferencesResponse = await fetch('/api/email/preferences')
+        if (preferencesResponse.ok) {
+          setEmailPreferences((await preferencesResponse.json()).preferences)
+        }
       } catch (error) {
         console.error('Error loading profile:', error)
         toast.error('Failed to load profile')
@@ -133,6 +144,26 @@ export default function SubscriberSettingsPage() {
     }
   }
 
+  async function updateEmailPreference(category: EmailCategory, subscribed: boolean) {
+    const previous = emailPreferences
+    setEmailPreferences({ ...emailPreferences, [category]: subscribed })
+
+    try {
+      const response = await fetch('/api/email/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ category, subscribed })
+      })
+      if (!response.ok) throw new Error('Failed to update email preferences')
+
+      setEmailPreferences((await response.json()).preferences)
+    } catch (error) {
+      console.error('Error updating email preferences:', error)
+      setEmailPreferences(previous)
+      toast.error('Failed to update email preferences')
+    }
+  }
+
   async function signOut() {
     await supabase.auth.signOut()
     window.location.href = '/'
@@ -154,9 +185,10 @@ export default function SubscriberSettingsPage() {
       </div>
 
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
+          <TabsTrigger value="notifications">Notifications</TabsTrigger>
           <TabsTrigger value="subscription">Subscription</TabsTrigger>
         </TabsList>
 
@@ -221,6 +253,23 @@ export default function SubscriberSettingsPage() {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="locale">Email Language</Label>
+                    <select
+                      id="locale"
+                      value={formData.locale}
+                      onChange={(e) => setFormData({ ...formData, locale: e.target.value as EmailLocale })}
+                      className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+                    >
+                      {(Object.keys(EMAIL_LOCALES) as EmailLocale[]).map((code) => (
+                        <option key={code} value={code}>{EMAIL_LOCALES[code]}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-muted-foreground">
+                      Emails without a translation are sent in English.
+                    </p>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="email">Email Address</Label>
                     <Input
@@ -306,6 +355,41 @@ export default function SubscriberSettingsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="notifications" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Bell className="h-5 w-5" />
+                Email Notifications
+              </CardTitle>
+              <CardDescription>
+                Choose which emails you receive. Account, billing and security emails are always sent.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {OPTIONAL_EMAIL_CATEGORIES
+                .filter((category) => category !== 'digest' || profile?.role === 'admin')
+                .map((category) => (
+                  <div key={category} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <Label htmlFor={`email-${category}`} className="font-medium">
+                        {EMAIL_CATEGORIES[category].label}
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        {EMAIL_CATEGORIES[category].description}
+                      </p>
+                    </div>
+                    <Switch
+                      id={`email-${category}`}
+                      checked={emailPreferences[category] ?? true}
+                      onCheckedChange={(checked) => updateEmailPreference(category, checked)}
+                    />
+                  </div>
+                ))}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="subscription" className="space-y-6">
           <Card>
             <CardHeader>
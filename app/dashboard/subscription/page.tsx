@@ -7,8 +7,15 @@ import { PaymentVerifier } from '@/components/payment-verifier'
 import { format } from 'date-fns'
 import { Suspense } from 'react'
 import SuccessMessage from '@/components/success-message'
+import { BillingPanel } from '@/components/billing-panel'
+import { getPlanCatalog } from '@/lib/billing/plan-catalog'
 
-export default async function SubscriptionPage() {
+export default async function SubscriptionPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ upgrade?: string }>
+}) {
+  const { upgrade } = await searchParams
   const { profile } = await getUser()
   
   if (profile.role !== 'subscriber') {
@@ -21,11 +28,16 @@ export default async function SubscriptionPage() {
     .from('subscriptions')
     .select('*')
     .eq('user_id', profile.id)
-    .eq('status', 'active')
+    .in('status', ['active', 'past_due'])
     .order('created_at', { ascending: false })
     .limit(1)
     .single()
 
+  const planCatalog = getPlanCatalog()
+  const plans = await planCatalog.list()
+  const currentPlan = await planCatalog.get(subscription?.plan_type)
+  const planInterval = currentPlan?.interval
+
   return (
     <DashboardLayout>
       <Suspense fallback={null}>
@@ -60,13 +72,15 @@ export default async function SubscriptionPage() {
           <div className="bg-card rounded-lg shadow-sm border p-6">
             <div className="flex justify-between items-start mb-4">
               <div>
-                <h2 className="text-2xl font-semibold mb-2">{subscription.plan_type?.replace(/_/g, ' ').toUpperCase() || subscription.plan}</h2>
-                <p className="text-muted-foreground">Active subscription</p>
+                <h2 className="text-2xl font-semibold mb-2">{currentPlan?.name ?? (subscription.plan_type?.replace(/_/g, ' ').toUpperCase() || subscription.plan)}</h2>
+                <p className="text-muted-foreground">
+                  {subscription.status === 'past_due' ? 'Payment past due' : 'Active subscription'}
+                </p>
               </div>
               <div className="text-right">
                 <div className="text-3xl font-bold text-primary">${subscription.price}</div>
                 <div className="text-sm text-muted-foreground">
-                  {subscription.plan_type === 'one_time' ? 'one-time' : 'per year'}
+                  {planInterval ? `per ${planInterval}` : 'one-time'}
                 </div>
               </div>
             </div>
@@ -118,14 +132,29 @@ export default async function SubscriptionPage() {
             </div>
           </div>
 
-          {subscription.credits_remaining <= 1 && !profile.is_super_user && (
-            <div className="bg-warning/10 border border-warning/20 rounded-lg p-6">
+          {subscription.status === 'past_due' && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 text-sm">
+              We could not collect your last payment. Update your payment method below to keep your plan active.
+            </div>
+          )}
+
+          {subscription.stripe_customer_id && (
+            <BillingPanel
+              plans={plans}
+              planType={subscription.plan_type}
+              cancelAtPeriodEnd={subscription.cancel_at_period_end ?? false}
+              currentPeriodEnd={subscription.current_period_end}
+            />
+          )}
+
+          {(upgrade === 'true' || (subscription.credits_remaining <= 1 && !profile.is_super_user)) && (
+            <div id="plans" className="bg-warning/10 border border-warning/20 rounded-lg p-6">
               <h3 className="font-semibold text-foreground mb-2">Running Low on Credits?</h3>
               <p className="text-sm text-muted-foreground mb-4">
                 You have {subscription.credits_remaining} {subscription.credits_remaining === 1 ? 'letter' : 'letters'} remaining. 
                 Upgrade your plan to get more credits.
               </p>
-              <SubscriptionCard />
+              <SubscriptionCard plans={plans} />
             </div>
           )}
 
@@ -139,7 +168,7 @@ export default async function SubscriptionPage() {
       ) : (
         <div>
           <p className="text-muted-foreground mb-8">Choose a subscription plan to start generating legal letters</p>
-          <SubscriptionCard />
+          <SubscriptionCard plans={plans} />
         </div>
       )}
     </DashboardLayout>
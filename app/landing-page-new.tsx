@@ -4,6 +4,7 @@ import Image from 'next/image'
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import { usePlans } from '@/hooks/use-plans'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -53,12 +54,6 @@ const LETTER_TYPES = [
   { value: 'consumer_complaint', label: 'Consumer Complaint', price: 299 },
 ]
 
-const SUBSCRIPTION_PLANS = [
-  { letters: 1, price: 299, planType: 'one_time', popular: false, name: 'Single Letter' },
-  { letters: 4, price: 299, planType: 'standard_4_month', popular: true, name: 'Monthly Plan' },
-  { letters: 8, price: 599, planType: 'premium_8_month', popular: false, name: 'Yearly Plan' },
-]
-
 type Profile = {
   id: string
   full_name: string | null
@@ -72,6 +67,7 @@ export default function NewLandingPage() {
   const [profile, setProfile] = useState<Profile | null>(null)
   const [loading, setLoading] = useState(false)
   const [isScrolled, setIsScrolled] = useState(false)
+  const { plans } = usePlans()
 
   useEffect(() => {
     const handleScroll = () => {
@@ -392,15 +388,15 @@ export default function NewLandingPage() {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-              {SUBSCRIPTION_PLANS.map((plan, index) => (
+              {plans.map((plan, index) => (
                 <Card
                   key={plan.planType}
                   className={`glass-card transition-all duration-300 ${
-                    plan.popular ? 'laser-border-blue-enhanced' : 'laser-border-blue'
+                    plan.isPopular ? 'laser-border-blue-enhanced' : 'laser-border-blue'
                   } animate-slide-up`}
                   style={{ animationDelay: `${index * 0.1}s` }}
                 >
-                  {plan.popular && (
+                  {plan.isPopular && (
                     <div className="bg-gradient-to-r from-blue-500 to-cyan-500 text-white text-xs font-bold text-center py-2 rounded-t-lg">
                       MOST POPULAR
                     </div>
@@ -413,7 +409,7 @@ export default function NewLandingPage() {
                       ${plan.price}
                     </CardDescription>
                     <p className="text-gray-600 text-sm">
-                      {plan.letters === 1 ? 'One-time payment' : `${plan.letters} letters`}
+                      {plan.interval ? `${plan.letters} letters per ${plan.interval}` : 'One-time payment'}
                     </p>
                   </CardHeader>
                   <CardContent className="text-center relative z-10">
@@ -57,12 +57,6 @@ const LETTER_TYPES = [
   { value: 'consumer_complaint', label: 'Consumer Complaint', price: 299 },
 ]
 
-const SUBSCRIPTION_PLANS = [
-  { letters: 1, price: 299, planType: 'one_time', popular: false, name: 'Single Letter' },
-  { letters: 4, price: 299, planType: 'standard_4_month', popular: true, name: 'Monthly Plan' },
-  { letters: 8, price: 599, planType: 'premium_8_month', popular: false, name: 'Yearly Plan' },
-]
-
 type Profile = {
   id: string
   full_name: string | null
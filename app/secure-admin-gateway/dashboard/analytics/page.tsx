@@ -55,6 +55,8 @@ interface AnalyticsData {
     rejected_count: number
     failed_count: number
     avg_review_time_hours: number
+    median_review_time_hours: number
+    p90_review_time_hours: number
   }
   subscriptions: {
     active_subscriptions: number
@@ -250,7 +252,7 @@ export default function AnalyticsPage() {
               {Number(data.letters.avg_review_time_hours).toFixed(1)}h
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              Average time to approval
+              Median {Number(data.letters.median_review_time_hours).toFixed(1)}h · p90 {Number(data.letters.p90_review_time_hours).toFixed(1)}h turnaround
             </p>
           </CardContent>
         </Card>
@@ -450,6 +452,14 @@ export default function AnalyticsPage() {
               <span className="text-sm text-muted-foreground">Avg Review Time</span>
               <span className="font-semibold">{Number(data.letters.avg_review_time_hours).toFixed(1)} hours</span>
             </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">Median Review Turnaround</span>
+              <span className="font-semibold">{Number(data.letters.median_review_time_hours).toFixed(1)} hours</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">90th Percentile Turnaround</span>
+              <span className="font-semibold">{Number(data.letters.p90_review_time_hours).toFixed(1)} hours</span>
+            </div>
           </CardContent>
         </Card>
 
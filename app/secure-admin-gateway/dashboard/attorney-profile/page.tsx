@@ -0,0 +1,29 @@
+import { getAdminSession, isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { redirect } from 'next/navigation'
+import { getAttorneyProfileStore } from '@/lib/letters/attorney-profile'
+import { AttorneyProfileForm } from '@/components/admin/attorney-profile-form'
+
+export default async function AdminAttorneyProfilePage() {
+  // Verify admin session
+  const authenticated = await isAdminAuthenticated()
+  const session = await getAdminSession()
+  if (!authenticated || !session) {
+    redirect('/secure-admin-gateway/login')
+  }
+
+  const profile = await getAttorneyProfileStore().get(session.userId)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Attorney Profile</h1>
+        <p className="text-muted-foreground mt-2">
+          The signature block printed on letters you review. Letters are only signed on the sender&apos;s behalf
+          when you are marked as a licensed attorney; otherwise the sender signs.
+        </p>
+      </div>
+
+      <AttorneyProfileForm profile={profile} />
+    </div>
+  )
+}
@@ -29,13 +29,24 @@ import {
   Cell,
   Legend
 } from 'recharts'
+import { CouponCampaignForm } from '@/components/admin/coupon-campaign-form'
+import { formatCouponDiscount, type CouponDiscountType } from '@/lib/billing/coupons'
 
 interface CouponData {
   id: string
   code: string
   employee_name: string
   employee_email: string
+  is_campaign: boolean
+  discount_type: CouponDiscountType
   discount_percent: number
+  discount_amount: number | null
+  starts_at: string | null
+  expires_at: string | null
+  max_redemptions: number | null
+  max_redemptions_per_user: number | null
+  allowed_plans: string[] | null
+  first_purchase_only: boolean
   is_active: boolean
   usage_count: number
   total_discount_given: number
@@ -85,6 +96,35 @@ export default function CouponsAnalyticsPage() {
     fetchCouponAnalytics()
   }, [])
 
+  const toggleCoupon = async (coupon: CouponData) => {
+    try {
+      const response = await fetch(`/api/admin/coupons/${coupon.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !coupon.is_active })
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.error || 'Failed to update coupon')
+      }
+
+      fetchCouponAnalytics()
+    } catch (err: any) {
+      console.error('Error:', err)
+      alert(err.message || 'Failed to update coupon')
+    }
+  }
+
+  // Expiry, caps and plan restrictions, summarised for the coupons table
+  const describeLimits = (coupon: CouponData) => [
+    coupon.expires_at && `expires ${new Date(coupon.expires_at).toLocaleDateString()}`,
+    coupon.max_redemptions && `${coupon.usage_count}/${coupon.max_redemptions} used`,
+    coupon.max_redemptions_per_user && `${coupon.max_redemptions_per_user} per user`,
+    coupon.allowed_plans?.length && coupon.allowed_plans.join(', '),
+    coupon.first_purchase_only && 'first purchase'
+  ].filter(Boolean).join(' · ')
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -130,7 +170,7 @@ export default function CouponsAnalyticsPage() {
         <div>
           <h1 className="text-3xl font-bold text-foreground">Coupon Analytics</h1>
           <p className="text-muted-foreground mt-1">
-            Monitor employee coupon usage, discounts, and commission impact
+            Monitor employee and campaign coupon usage, discounts, and commission impact
           </p>
         </div>
         <Button
@@ -283,12 +323,14 @@ export default function CouponsAnalyticsPage() {
         </Card>
       </div>
 
+      <CouponCampaignForm onCreated={fetchCouponAnalytics} />
+
       {/* All Coupons Table */}
       <Card>
         <CardHeader>
-          <CardTitle>All Employee Coupons</CardTitle>
+          <CardTitle>All Coupons</CardTitle>
           <CardDescription>
-            Complete list of all coupon codes and their performance
+            Employee referral and campaign codes with their limits and performance
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -317,20 +359,26 @@ export default function CouponsAnalyticsPage() {
                   <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                     Status
                   </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-border">
                 {data.coupons.map((coupon) => (
                   <tr key={coupon.id} className="hover:bg-muted/30">
-                    <td className="px-4 py-3 text-sm font-mono font-semibold text-primary">
-                      {coupon.code}
+                    <td className="px-4 py-3">
+                      <div className="text-sm font-mono font-semibold text-primary">{coupon.code}</div>
+                      {describeLimits(coupon) && (
+                        <div className="text-xs text-muted-foreground">{describeLimits(coupon)}</div>
+                      )}
                     </td>
                     <td className="px-4 py-3">
                       <div className="text-sm font-medium">{coupon.employee_name || 'Unknown'}</div>
                       <div className="text-xs text-muted-foreground">{coupon.employee_email}</div>
                     </td>
                     <td className="px-4 py-3 text-sm">
-                      {coupon.discount_percent}%
+                      {formatCouponDiscount(coupon)}
                     </td>
                     <td className="px-4 py-3 text-sm font-medium">
                       {coupon.usage_count}
@@ -350,11 +398,16 @@ export default function CouponsAnalyticsPage() {
                         )}
                       </Badge>
                     </td>
+                    <td className="px-4 py-3">
+                      <Button size="sm" variant="outline" onClick={() => toggleCoupon(coupon)}>
+                        {coupon.is_active ? 'Deactivate' : 'Activate'}
+                      </Button>
+                    </td>
                   </tr>
                 ))}
                 {data.coupons.length === 0 && (
                   <tr>
-                    <td colSpan={7} className="px-4 py-8 text-center text-muted-foreground">
+                    <td colSpan={8} className="px-4 py-8 text-center text-muted-foreground">
                       No coupons found
                     </td>
                   </tr>
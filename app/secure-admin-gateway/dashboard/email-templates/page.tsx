@@ -0,0 +1,29 @@
+import { getAdminSession, isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { redirect } from 'next/navigation'
+import { getEmailTemplateStore } from '@/lib/email/template-store'
+import { EmailTemplateManager } from '@/components/admin/email-template-manager'
+
+export default async function AdminEmailTemplatesPage() {
+  // Verify admin session
+  const authenticated = await isAdminAuthenticated()
+  if (!authenticated) {
+    redirect('/secure-admin-gateway/login')
+  }
+
+  const session = await getAdminSession()
+  const versions = await getEmailTemplateStore().listVersions()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Email Templates</h1>
+        <p className="text-muted-foreground mt-2">
+          Copy for the emails the platform sends. Published versions replace the built-in copy without a deploy;
+          recipients whose language has no published version get the English one.
+        </p>
+      </div>
+
+      <EmailTemplateManager versions={versions} adminEmail={session?.email ?? null} />
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 import { getAdminSession } from '@/lib/auth/admin-session'
+import { ADMIN_SESSION_IDLE_TIMEOUT_MS } from '@/lib/auth/admin-session-store'
 import { redirect } from 'next/navigation'
 import Link from 'next/link'
-import { FileText, DollarSign, BarChart3, Shield, Gavel, LayoutDashboard, FileStack, Ticket, Users } from 'lucide-react'
+import { FileText, DollarSign, BarChart3, Shield, Gavel, LayoutDashboard, FileStack, Ticket, Users, Webhook, Tags, Mail, PenTool, UserCog, KeyRound, MonitorSmartphone, Gauge } from 'lucide-react'
 import { AdminLogoutButton } from '@/components/admin-logout-button'
 
 export default async function AdminDashboardLayout({
@@ -58,6 +59,54 @@ export default async function AdminDashboardLayout({
       icon: DollarSign,
       description: 'Employee payouts'
     },
+    {
+      name: 'Plans',
+      href: '/secure-admin-gateway/dashboard/plans',
+      icon: Tags,
+      description: 'Pricing & allowances'
+    },
+    {
+      name: 'Email Templates',
+      href: '/secure-admin-gateway/dashboard/email-templates',
+      icon: Mail,
+      description: 'Email copy & translations'
+    },
+    {
+      name: 'Attorney Profile',
+      href: '/secure-admin-gateway/dashboard/attorney-profile',
+      icon: PenTool,
+      description: 'Signature & bar number'
+    },
+    {
+      name: 'Reviewers',
+      href: '/secure-admin-gateway/dashboard/reviewers',
+      icon: UserCog,
+      description: 'Assignment & workload'
+    },
+    {
+      name: 'Security',
+      href: '/secure-admin-gateway/dashboard/security',
+      icon: KeyRound,
+      description: 'Two-factor and login history'
+    },
+    {
+      name: 'Sessions',
+      href: '/secure-admin-gateway/dashboard/sessions',
+      icon: MonitorSmartphone,
+      description: 'Active logins'
+    },
+    {
+      name: 'Rate Limits',
+      href: '/secure-admin-gateway/dashboard/rate-limits',
+      icon: Gauge,
+      description: 'Counters & resets'
+    },
+    {
+      name: 'Stripe Events',
+      href: '/secure-admin-gateway/dashboard/stripe-events',
+      icon: Webhook,
+      description: 'Webhook ledger & re-drive'
+    },
     {
       name: 'Analytics',
       href: '/secure-admin-gateway/dashboard/analytics',
@@ -95,7 +144,7 @@ export default async function AdminDashboardLayout({
               <span className="text-xs text-amber-500 font-semibold">System Administrator</span>
             </div>
             <p className="text-xs text-slate-500 mt-1">
-              Session expires in {Math.round((1800000 - (Date.now() - session.lastActivity)) / 60000)} min
+              Session expires in {Math.round((Math.min(session.lastActivity + ADMIN_SESSION_IDLE_TIMEOUT_MS, session.expiresAt) - Date.now()) / 60000)} min
             </p>
           </div>
 
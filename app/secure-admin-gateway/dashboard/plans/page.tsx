@@ -0,0 +1,28 @@
+import { isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { redirect } from 'next/navigation'
+import { getPlanCatalog } from '@/lib/billing/plan-catalog'
+import { PlanManager } from '@/components/admin/plan-manager'
+
+export default async function AdminPlansPage() {
+  // Verify admin session
+  const authenticated = await isAdminAuthenticated()
+  if (!authenticated) {
+    redirect('/secure-admin-gateway/login')
+  }
+
+  const plans = await getPlanCatalog().list({ includeHidden: true })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Plans</h1>
+        <p className="text-muted-foreground mt-2">
+          Pricing, letter allowances and billing intervals used by checkout, the pricing pages and renewals.
+          Hidden plans stay valid for existing subscribers but can no longer be purchased.
+        </p>
+      </div>
+
+      <PlanManager plans={plans} />
+    </div>
+  )
+}
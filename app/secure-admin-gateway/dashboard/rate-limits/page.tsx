@@ -0,0 +1,165 @@
+import { isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { redirect } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { listRateLimitCounters, rateLimitBackend, type RateLimitBackend } from '@/lib/rate-limit-redis'
+import { RATE_LIMIT_POLICIES, RATE_LIMIT_ROUTES } from '@/lib/rate-limit-policies'
+import { ResetRateLimitButton } from '@/components/admin/reset-rate-limit-button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+
+const BACKEND_LABELS: Record<RateLimitBackend, string> = {
+  upstash: 'Upstash Redis',
+  redis: 'Local Redis',
+  memory: 'In-memory (this instance only)'
+}
+
+const SUBJECT_LABELS = {
+  ip: 'IP address',
+  user: 'User',
+  api_key: 'API key'
+}
+
+export default async function AdminRateLimitsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ subject?: string }>
+}) {
+  // Verify admin session
+  const authenticated = await isAdminAuthenticated()
+  if (!authenticated) {
+    redirect('/secure-admin-gateway/login')
+  }
+
+  const { subject: subjectFilter = '' } = await searchParams
+  const counters = (await listRateLimitCounters())
+    .filter(counter => !subjectFilter || counter.subject.includes(subjectFilter.trim()))
+  const blocked = counters.filter(counter => counter.limit !== null && counter.count > counter.limit).length
+  const exemptRoutes = RATE_LIMIT_ROUTES.filter(route => !route.policy)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Rate Limits</h1>
+          <p className="text-muted-foreground mt-2">
+            Live request counters per policy. Resetting a counter lets its subject back in immediately.
+          </p>
+        </div>
+        <Badge variant="secondary" className={rateLimitBackend === 'memory' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}>
+          {BACKEND_LABELS[rateLimitBackend]}
+        </Badge>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Counters ({counters.length}){blocked > 0 && <span className="text-red-700"> · {blocked} blocked</span>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <form className="flex gap-2 px-6 pb-4">
+            <Input name="subject" defaultValue={subjectFilter} placeholder="Filter by IP, user ID or key" className="max-w-sm" />
+            <Button type="submit" variant="outline">Filter</Button>
+          </form>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Policy</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Subject</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Requests</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Resets</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {counters.map((counter) => {
+                  const isBlocked = counter.limit !== null && counter.count > counter.limit
+                  return (
+                    <tr key={`${counter.backend}:${counter.policy}:${counter.subject}`} className="hover:bg-muted/30">
+                      <td className="px-4 py-4 text-sm font-medium">
+                        {counter.policy}
+                        {counter.backend !== rateLimitBackend && (
+                          <div className="text-xs text-muted-foreground">counted in memory</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-4 text-sm font-mono text-muted-foreground max-w-xs truncate" title={counter.subject}>
+                        {counter.subject}
+                      </td>
+                      <td className="px-4 py-4 text-sm whitespace-nowrap">
+                        {counter.count}{counter.limit !== null && ` / ${counter.limit}`}
+                        {isBlocked && (
+                          <Badge variant="secondary" className="bg-red-100 text-red-800 ml-2">Blocked</Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-4 text-sm text-muted-foreground whitespace-nowrap">
+                        {formatDistanceToNow(new Date(counter.reset), { addSuffix: true })}
+                      </td>
+                      <td className="px-4 py-4">
+                        <ResetRateLimitButton policy={counter.policy} subject={counter.subject} />
+                      </td>
+                    </tr>
+                  )
+                })}
+                {counters.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-12 text-center text-muted-foreground">
+                      {subjectFilter ? 'No counters match this filter' : 'No requests counted in the current windows'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Policies</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Policy</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Limit</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Counted Per</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Routes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {Object.values(RATE_LIMIT_POLICIES).map((policy) => {
+                  const routes = RATE_LIMIT_ROUTES.filter(route => route.policy?.name === policy.name)
+                  return (
+                    <tr key={policy.name} className="hover:bg-muted/30">
+                      <td className="px-4 py-4 text-sm font-medium">{policy.name}</td>
+                      <td className="px-4 py-4 text-sm whitespace-nowrap">{policy.limit} per {policy.window}</td>
+                      <td className="px-4 py-4 text-sm text-muted-foreground">{SUBJECT_LABELS[policy.by]}</td>
+                      <td className="px-4 py-4 text-sm font-mono text-muted-foreground">
+                        {routes.length > 0
+                          ? routes.map(route => route.path.endsWith('/') ? `${route.path}*` : route.path).join(', ')
+                          : 'Route handlers'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          {exemptRoutes.length > 0 && (
+            <p className="px-6 py-4 text-sm text-muted-foreground">
+              Not limited (signed provider webhooks):{' '}
+              <span className="font-mono">
+                {exemptRoutes.map(route => route.path.endsWith('/') ? `${route.path}*` : route.path).join(', ')}
+              </span>
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
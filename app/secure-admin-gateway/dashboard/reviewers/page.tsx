@@ -0,0 +1,34 @@
+import { isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { redirect } from 'next/navigation'
+import { getReviewAssignmentService, getReviewAssignmentStrategy } from '@/lib/letters/review-assignment'
+import { ReviewerWorkloadManager } from '@/components/admin/reviewer-workload'
+
+const STRATEGY_LABELS = {
+  least_loaded: 'least loaded: new letters go to the reviewer with the fewest open letters',
+  round_robin: 'round robin: new letters go to each available reviewer in turn',
+  manual: 'manual: new letters wait in the unassigned queue until a reviewer claims them'
+}
+
+export default async function AdminReviewersPage() {
+  // Verify admin session
+  const authenticated = await isAdminAuthenticated()
+  if (!authenticated) {
+    redirect('/secure-admin-gateway/login')
+  }
+
+  const reviewers = await getReviewAssignmentService().listWorkload()
+  const strategy = getReviewAssignmentStrategy()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Reviewers</h1>
+        <p className="text-muted-foreground mt-2">
+          Attorneys who review the letters assigned to them. Assignment is {STRATEGY_LABELS[strategy]}.
+        </p>
+      </div>
+
+      <ReviewerWorkloadManager reviewers={reviewers} />
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import { createClient } from '@/lib/supabase/server'
+import { getAdminSession, isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { redirect } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { format } from 'date-fns'
+import { getAdminMfaService } from '@/lib/auth/admin-mfa'
+import { getSecurityAuditLog, type SecurityEventType } from '@/lib/auth/security-audit'
+import { RegenerateRecoveryCodesForm, ResetMfaButton } from '@/components/admin/admin-security'
+
+const LOGIN_EVENTS: SecurityEventType[] = [
+  'admin_login_succeeded',
+  'admin_login_failed',
+  'admin_login_mfa_pending',
+  'admin_mfa_enrolled',
+  'admin_mfa_reset',
+  'admin_recovery_code_used',
+  'admin_recovery_codes_regenerated',
+  'admin_logout',
+  'admin_session_revoked',
+  'admin_sessions_revoked_all'
+]
+
+const EVENT_LABELS: Record<string, string> = {
+  admin_login_succeeded: 'Signed in',
+  admin_login_failed: 'Failed sign-in',
+  admin_login_mfa_pending: 'Password accepted',
+  admin_mfa_enrolled: 'Authenticator added',
+  admin_mfa_reset: 'Two-factor reset',
+  admin_recovery_code_used: 'Recovery code used',
+  admin_recovery_codes_regenerated: 'Recovery codes replaced',
+  admin_logout: 'Signed out',
+  admin_session_revoked: 'Session revoked',
+  admin_sessions_revoked_all: 'Signed out everywhere'
+}
+
+const EVENT_STYLES: Record<string, string> = {
+  admin_login_succeeded: 'bg-green-100 text-green-800',
+  admin_login_failed: 'bg-red-100 text-red-800',
+  admin_recovery_code_used: 'bg-amber-100 text-amber-800',
+  admin_mfa_reset: 'bg-amber-100 text-amber-800'
+}
+
+export default async function AdminSecurityPage() {
+  // Verify admin session
+  const authenticated = await isAdminAuthenticated()
+  if (!authenticated) {
+    redirect('/secure-admin-gateway/login')
+  }
+
+  const session = await getAdminSession()
+  const supabase = await createClient()
+
+  const { data: portalUsers, error } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, role')
+    .in('role', ['admin', 'reviewer'])
+    .order('role', { ascending: true })
+
+  if (error) {
+    console.error('[AdminSecurity] Error fetching portal users:', error)
+  }
+
+  const users = portalUsers || []
+  const [statuses, events] = await Promise.all([
+    getAdminMfaService().listStatus(users.map(user => user.id)),
+    getSecurityAuditLog().listRecent(LOGIN_EVENTS, 50)
+  ])
+  const ownStatus = session ? statuses.get(session.userId) : undefined
+  const userLabel = (userId: string | null) => {
+    const user = users.find(u => u.id === userId)
+    return user ? user.full_name || user.email : null
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Security</h1>
+        <p className="text-muted-foreground mt-2">
+          Two-factor authentication for admin portal users and the portal login history
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Recovery Codes</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {ownStatus?.enrolled
+              ? `${ownStatus.recoveryCodesRemaining} unused recovery code(s) left. Each one signs you in once without your authenticator.`
+              : 'Two-factor authentication is not set up for this account.'}
+          </p>
+          {ownStatus?.enrolled && <RegenerateRecoveryCodesForm />}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Portal Users</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">User</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Role</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Two-Factor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Recovery Codes</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {users.map((user) => {
+                  const status = statuses.get(user.id)
+                  return (
+                    <tr key={user.id} className="hover:bg-muted/30">
+                      <td className="px-4 py-4">
+                        <div className="text-sm font-medium">{user.full_name || user.email}</div>
+                        <div className="text-xs text-muted-foreground">{user.email}</div>
+                      </td>
+                      <td className="px-4 py-4 text-sm capitalize">{user.role}</td>
+                      <td className="px-4 py-4">
+                        <Badge variant="secondary" className={status?.enrolled ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}>
+                          {status?.enrolled && status.verifiedAt
+                            ? `Enabled ${format(new Date(status.verifiedAt), 'MMM d, yyyy')}`
+                            : 'Set up at next login'}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-4 text-sm">{status?.enrolled ? status.recoveryCodesRemaining : '—'}</td>
+                      <td className="px-4 py-4">
+                        {status?.enrolled && (
+                          <ResetMfaButton userId={user.id} label={user.full_name || user.email} />
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Login Activity</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">When</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Event</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Account</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">IP Address</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {events.map((event) => (
+                  <tr key={event.id} className="hover:bg-muted/30">
+                    <td className="px-4 py-4 text-sm text-muted-foreground whitespace-nowrap">
+                      {format(new Date(event.created_at), 'MMM d, yyyy HH:mm')}
+                    </td>
+                    <td className="px-4 py-4">
+                      <Badge variant="secondary" className={EVENT_STYLES[event.event_type]}>
+                        {EVENT_LABELS[event.event_type] || event.event_type}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-4 text-sm">
+                      {userLabel(event.user_id) || String(event.details?.email ?? 'Unknown')}
+                    </td>
+                    <td className="px-4 py-4 text-sm font-mono text-muted-foreground">{event.ip_address || '—'}</td>
+                    <td className="px-4 py-4 text-xs text-muted-foreground max-w-xs truncate" title={event.user_agent ?? undefined}>
+                      {typeof event.details?.reason === 'string' ? event.details.reason : event.user_agent}
+                    </td>
+                  </tr>
+                ))}
+                {events.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-12 text-center text-muted-foreground">
+                      No login activity recorded yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import { getAdminSession, isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { redirect } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { format, formatDistanceToNow } from 'date-fns'
+import { getAdminSessionStore } from '@/lib/auth/admin-session-store'
+import { RevokeSessionButton, SignOutEverywhereButton } from '@/components/admin/admin-security'
+
+// "Chrome on macOS" from a user agent string, good enough to recognize a device
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = [
+    ['Edg/', 'Edge'],
+    ['Firefox/', 'Firefox'],
+    ['Chrome/', 'Chrome'],
+    ['Safari/', 'Safari']
+  ].find(([token]) => userAgent.includes(token!))?.[1] ?? 'Browser'
+
+  const os = [
+    ['iPhone', 'iOS'],
+    ['iPad', 'iPadOS'],
+    ['Android', 'Android'],
+    ['Mac OS X', 'macOS'],
+    ['Windows', 'Windows'],
+    ['Linux', 'Linux']
+  ].find(([token]) => userAgent.includes(token!))?.[1]
+
+  return os ? `${browser} on ${os}` : browser
+}
+
+export default async function AdminSessionsPage() {
+  // Verify admin session
+  const authenticated = await isAdminAuthenticated()
+  if (!authenticated) {
+    redirect('/secure-admin-gateway/login')
+  }
+
+  const current = await getAdminSession()
+  const sessions = await getAdminSessionStore().listActive()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Sessions</h1>
+          <p className="text-muted-foreground mt-2">
+            Active admin portal logins. Signing a session out takes effect on its next request.
+          </p>
+        </div>
+        <SignOutEverywhereButton />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active Sessions ({sessions.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Account</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Device</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">IP Address</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Signed In</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Last Active</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {sessions.map((session) => {
+                  const isCurrent = session.id === current?.id
+                  return (
+                    <tr key={session.id} className="hover:bg-muted/30">
+                      <td className="px-4 py-4">
+                        <div className="text-sm font-medium">{session.email}</div>
+                        {isCurrent && (
+                          <Badge variant="secondary" className="bg-green-100 text-green-800 mt-1">This session</Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-4 text-sm max-w-xs truncate" title={session.user_agent ?? undefined}>
+                        {describeUserAgent(session.user_agent)}
+                      </td>
+                      <td className="px-4 py-4 text-sm font-mono text-muted-foreground">{session.ip_address || '—'}</td>
+                      <td className="px-4 py-4 text-sm text-muted-foreground whitespace-nowrap">
+                        {format(new Date(session.created_at), 'MMM d, yyyy HH:mm')}
+                      </td>
+                      <td className="px-4 py-4 text-sm text-muted-foreground whitespace-nowrap">
+                        {formatDistanceToNow(new Date(session.last_activity_at), { addSuffix: true })}
+                      </td>
+                      <td className="px-4 py-4">
+                        <RevokeSessionButton sessionId={session.id} current={isCurrent} />
+                      </td>
+                    </tr>
+                  )
+                })}
+                {sessions.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-12 text-center text-muted-foreground">
+                      No active sessions
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
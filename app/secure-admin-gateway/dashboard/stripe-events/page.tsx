@@ -0,0 +1,186 @@
+import { isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { getStripeEventLedger, type StripeEventStatus } from '@/lib/billing/stripe-events'
+import { RedriveStripeEventButton } from '@/components/admin/redrive-stripe-event-button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle, Clock, Loader2, XCircle } from 'lucide-react'
+
+const STATUS_STYLES: Record<StripeEventStatus, string> = {
+  received: 'bg-slate-100 text-slate-800',
+  processing: 'bg-blue-100 text-blue-800',
+  processed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+const FILTERS: Array<{ label: string; status?: StripeEventStatus }> = [
+  { label: 'All' },
+  { label: 'Failed', status: 'failed' },
+  { label: 'Processing', status: 'processing' },
+  { label: 'Processed', status: 'processed' }
+]
+
+export default async function AdminStripeEventsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string }>
+}) {
+  // Verify admin session
+  const authenticated = await isAdminAuthenticated()
+  if (!authenticated) {
+    redirect('/secure-admin-gateway/login')
+  }
+
+  const { status } = await searchParams
+  const activeStatus = FILTERS.find(filter => filter.status === status)?.status
+
+  const ledger = getStripeEventLedger()
+  const [stats, events] = await Promise.all([
+    ledger.getStats(),
+    ledger.list(activeStatus ? { status: activeStatus, limit: 100 } : { limit: 100 })
+  ])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Stripe Events</h1>
+        <p className="text-muted-foreground mt-2">
+          Webhook event ledger. Redelivered events are skipped once processed; failed events can be re-driven.
+        </p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card className={stats.failed > 0 ? 'border-red-300 bg-red-50/50' : ''}>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Failed</CardTitle>
+            <XCircle className={`h-4 w-4 ${stats.failed > 0 ? 'text-red-600' : 'text-muted-foreground'}`} />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${stats.failed > 0 ? 'text-red-700' : ''}`}>{stats.failed}</div>
+            <p className="text-xs text-muted-foreground">Awaiting re-drive</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Processing</CardTitle>
+            <Loader2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.processing}</div>
+            <p className="text-xs text-muted-foreground">Claimed by a delivery</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Processed</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{stats.processed}</div>
+            <p className="text-xs text-muted-foreground">Applied successfully</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Received</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.received}</div>
+            <p className="text-xs text-muted-foreground">Recorded, not yet claimed</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Events Table */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Recent Events</CardTitle>
+          <div className="flex gap-2">
+            {FILTERS.map(filter => (
+              <Link
+                key={filter.label}
+                href={filter.status ? `?status=${filter.status}` : '?'}
+                className={`text-xs px-3 py-1 rounded-full border ${
+                  filter.status === activeStatus ? 'bg-foreground text-background' : 'text-muted-foreground hover:bg-muted'
+                }`}
+              >
+                {filter.label}
+              </Link>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Event
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Received
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Attempts
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Error
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {events.map((event) => (
+                  <tr key={event.id} className="hover:bg-muted/30">
+                    <td className="px-4 py-4">
+                      <div className="text-sm font-medium">{event.type}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {event.id}{!event.livemode && ' (test)'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-4 text-sm text-muted-foreground">
+                      {format(new Date(event.received_at), 'MMM d, yyyy HH:mm')}
+                    </td>
+                    <td className="px-4 py-4 text-sm">{event.attempts}</td>
+                    <td className="px-4 py-4">
+                      <Badge variant="secondary" className={STATUS_STYLES[event.status]}>
+                        {event.status}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-4 text-xs text-red-700 max-w-xs truncate" title={event.error ?? undefined}>
+                      {event.error}
+                    </td>
+                    <td className="px-4 py-4">
+                      {event.status === 'failed' && (
+                        <RedriveStripeEventButton eventId={event.id} />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {events.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-12 text-center text-muted-foreground">
+                      No Stripe events found
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@ import { isAdminAuthenticated } from '@/lib/auth/admin-session'
 import { redirect } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Users, UserCheck, Briefcase, Shield, Mail, Calendar, FileText } from 'lucide-react'
+import { Users, UserCheck, Briefcase, Shield, Mail, Calendar, FileText, Gavel } from 'lucide-react'
 import { format } from 'date-fns'
 
 export default async function UsersManagementPage() {
@@ -68,13 +68,15 @@ export default async function UsersManagementPage() {
   const roleColors: Record<string, string> = {
     'subscriber': 'bg-blue-100 text-blue-800 border-blue-300',
     'employee': 'bg-purple-100 text-purple-800 border-purple-300',
-    'admin': 'bg-red-100 text-red-800 border-red-300'
+    'admin': 'bg-red-100 text-red-800 border-red-300',
+    'reviewer': 'bg-green-100 text-green-800 border-green-300'
   }
 
   const roleIcons: Record<string, any> = {
     'subscriber': UserCheck,
     'employee': Briefcase,
-    'admin': Shield
+    'admin': Shield,
+    'reviewer': Gavel
   }
 
   return (
@@ -1,5 +1,5 @@
 import { createClient } from '@/lib/supabase/server'
-import { isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { isReviewAuthenticated } from '@/lib/auth/admin-session'
 import { redirect, notFound } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
@@ -7,19 +7,24 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { ArrowLeft, User, Mail, Phone, Building, FileText, Calendar, Clock } from 'lucide-react'
 import { format } from 'date-fns'
+import { getLetterTypeLabel } from '@/lib/validation/letter-types'
 import { ReviewLetterModal } from '@/components/review-letter-modal'
+import { LetterVersionHistory } from '@/components/admin/letter-version-history'
+import { LetterComments } from '@/components/letter-comments'
+import { LetterAttachments } from '@/components/letter-attachments'
 
-export default async function ReviewLetterDetailPage({ params }: { params: { id: string } }) {
-  // Verify admin authentication
-  const authenticated = await isAdminAuthenticated()
+export default async function ReviewLetterDetailPage({ params }: { params: { id: string } }) {
+  // Verify admin or reviewer authentication
+  const authenticated = await isReviewAuthenticated()
   if (!authenticated) {
     redirect('/secure-admin-gateway/login')
   }
 
-  const { id } = params
+  const { id } = params
   const supabase = await createClient()
 
-  // Fetch letter with subscriber details
+  // Fetch letter with subscriber details; reviewers only see letters
+  // assigned to them
   const { data: letter, error } = await supabase
     .from('letters')
     .select(`
@@ -159,7 +164,7 @@ export default async function ReviewLetterDetailPage({ params }: { params: { id:
           <div>
             <p className="text-sm font-medium text-muted-foreground mb-2">Letter Type</p>
             <p className="text-base capitalize">
-              {letter.letter_type?.replace('_', ' ')}
+              {getLetterTypeLabel(letter.letter_type)}
             </p>
           </div>
 
@@ -187,6 +192,13 @@ export default async function ReviewLetterDetailPage({ params }: { params: { id:
         </CardContent>
       </Card>
 
+      {/* Evidence */}
+      <Card>
+        <CardContent className="pt-6">
+          <LetterAttachments letterId={letter.id} />
+        </CardContent>
+      </Card>
+
       {/* AI Generated Draft */}
       <Card>
         <CardHeader>
@@ -222,6 +234,23 @@ export default async function ReviewLetterDetailPage({ params }: { params: { id:
         </Card>
       )}
 
+      {/* Version History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LetterVersionHistory letterId={letter.id} />
+        </CardContent>
+      </Card>
+
+      {/* Comments */}
+      <Card>
+        <CardContent className="pt-6">
+          <LetterComments letterId={letter.id} content={letter.final_content || letter.ai_draft_content} />
+        </CardContent>
+      </Card>
+
       {/* Review Notes */}
       {letter.review_notes && (
         <Card>
@@ -1,24 +1,38 @@
 import { createClient } from '@/lib/supabase/server'
-import { isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { getReviewActor } from '@/lib/auth/admin-session'
 import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Clock, FileText, User } from 'lucide-react'
+import { AlertTriangle, Clock, FileText, User } from 'lucide-react'
 import { format } from 'date-fns'
+import { getLetterTypeLabel } from '@/lib/validation/letter-types'
+import { getReviewAssignmentService, type ReviewerWorkload } from '@/lib/letters/review-assignment'
+import { AssignReviewerSelect, ClaimLetterButton } from '@/components/admin/review-queue-actions'
+import { ReviewerAvailabilitySwitch } from '@/components/admin/reviewer-workload'
+import { getReviewSlaTracker } from '@/lib/letters/sla-tracking'
+import { REVIEW_SLA_LABELS, formatSlaDuration } from '@/lib/letters/review-sla'
 
-export default async function ReviewCenterPage() {
-  // Verify admin authentication
-  const authenticated = await isAdminAuthenticated()
-  if (!authenticated) {
+export default async function ReviewCenterPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ reviewer?: string }>
+}) {
+  // Verify admin or reviewer authentication
+  const actor = await getReviewActor()
+  if (!actor) {
     redirect('/secure-admin-gateway/login')
   }
 
+  const isAdmin = actor.role === 'admin'
+  const { reviewer: reviewerFilter } = await searchParams
   const supabase = await createClient()
+  const assignments = getReviewAssignmentService()
 
-  // Fetch all letters needing review (pending_review and under_review)
-  const { data: letters, error } = await supabase
+  // Fetch letters needing review (pending_review and under_review). Row
+  // level security limits reviewers to the letters assigned to them.
+  let query = supabase
     .from('letters')
     .select(`
       *,
@@ -32,12 +46,36 @@ export default async function ReviewCenterPage() {
     .order('created_at', { ascending: true }) // FIFO: Oldest first
     .limit(100)
 
+  if (isAdmin && reviewerFilter === 'unassigned') {
+    query = query.is('assigned_to', null)
+  } else if (isAdmin && reviewerFilter) {
+    query = query.eq('assigned_to', reviewerFilter)
+  }
+
+  const [{ data: letters, error }, workload, unassigned] = await Promise.all([
+    query,
+    assignments.listWorkload(),
+    isAdmin ? Promise.resolve([]) : assignments.listUnassigned()
+  ])
+
   if (error) {
     console.error('[ReviewCenter] Error fetching letters:', error)
   }
 
+  // How long each letter has left against its review target
+  const slas = await getReviewSlaTracker().evaluate(letters || []).catch((slaError) => {
+    console.error('[ReviewCenter] Error evaluating review SLAs:', slaError)
+    return null
+  })
+
+  const reviewerLabel = (reviewer: ReviewerWorkload) => reviewer.name || reviewer.email
+  const reviewerOptions = workload.map(reviewer => ({ id: reviewer.id, label: reviewerLabel(reviewer) }))
+  const self = workload.find(reviewer => reviewer.id === actor.userId)
+
   const pendingCount = letters?.filter(l => l.status === 'pending_review').length || 0
   const underReviewCount = letters?.filter(l => l.status === 'under_review').length || 0
+  const overdueCount = letters?.filter(l => slas?.get(l.id)?.state === 'breached').length || 0
+  const atRiskCount = letters?.filter(l => slas?.get(l.id)?.state === 'at_risk').length || 0
 
   const statusColors: Record<string, string> = {
     'pending_review': 'bg-yellow-100 text-yellow-800 border-yellow-300',
@@ -49,18 +87,63 @@ export default async function ReviewCenterPage() {
     'under_review': 'Under Review'
   }
 
+  const slaColors: Record<string, string> = {
+    'on_track': 'text-muted-foreground bg-muted',
+    'at_risk': 'text-amber-800 bg-amber-50',
+    'breached': 'text-red-800 bg-red-50'
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div>
-        <h1 className="text-3xl font-bold text-foreground">Review Center</h1>
+        <h1 className="text-3xl font-bold text-foreground">{isAdmin ? 'Review Center' : 'My Review Queue'}</h1>
         <p className="text-muted-foreground mt-2">
-          Review and approve legal letters submitted by subscribers
+          {isAdmin
+            ? 'Review and approve legal letters submitted by subscribers'
+            : 'Letters assigned to you for review'}
         </p>
       </div>
 
+      {self && (
+        <Card>
+          <CardContent className="p-4 flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium">Accepting new letters</p>
+              <p className="text-xs text-muted-foreground">
+                Turning this off hands your open letters to other reviewers.
+              </p>
+            </div>
+            <ReviewerAvailabilitySwitch reviewerId={self.id} available={self.available} />
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && workload.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {[
+            { label: 'All', value: undefined },
+            { label: 'Unassigned', value: 'unassigned' },
+            ...workload.map(reviewer => ({
+              label: `${reviewerLabel(reviewer)} (${reviewer.openCount})`,
+              value: reviewer.id
+            }))
+          ].map(filter => (
+            <Link
+              key={filter.label}
+              href={filter.value ? `?reviewer=${filter.value}` : '?'}
+              className={`text-xs px-3 py-1 rounded-full border ${
+                filter.value === reviewerFilter ? 'bg-foreground text-background' : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              {filter.label}
+            </Link>
+          ))}
+        </div>
+      )}
+
       {/* Stats */}
-      <div className="grid gap-4 md:grid-cols-2">
+      <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
@@ -88,6 +171,21 @@ export default async function ReviewCenterPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Overdue</p>
+                <p className="text-3xl font-bold text-red-600">{overdueCount}</p>
+                <p className="text-xs text-muted-foreground mt-1">{atRiskCount} due soon</p>
+              </div>
+              <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
+                <AlertTriangle className="w-6 h-6 text-red-600" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Letters List */}
@@ -108,7 +206,9 @@ export default async function ReviewCenterPage() {
           </Card>
         ) : (
           <div className="space-y-3">
-            {letters.map((letter) => (
+            {letters.map((letter) => {
+              const sla = slas?.get(letter.id)
+              return (
               <Card key={letter.id} className="hover:bg-muted/30 transition-colors border-l-4" style={{
                 borderLeftColor: letter.status === 'pending_review' ? '#eab308' : '#3b82f6'
               }}>
@@ -137,7 +237,7 @@ export default async function ReviewCenterPage() {
                         </div>
                         <div className="flex items-center gap-2">
                           <FileText className="w-4 h-4" />
-                          <span className="capitalize">{letter.letter_type?.replace('_', ' ')}</span>
+                          <span className="capitalize">{getLetterTypeLabel(letter.letter_type)}</span>
                         </div>
                         <div className="flex items-center gap-2">
                           <Clock className="w-4 h-4" />
@@ -145,10 +245,23 @@ export default async function ReviewCenterPage() {
                         </div>
                       </div>
 
-                      {/* Waiting time indicator */}
-                      {letter.status === 'pending_review' && (
-                        <div className="mt-3 text-xs text-yellow-700 bg-yellow-50 px-2 py-1 rounded inline-block">
-                          Waiting {Math.floor((Date.now() - new Date(letter.created_at).getTime()) / (1000 * 60 * 60))} hours
+                      {isAdmin && workload.length > 0 && (
+                        <div className="mt-3 max-w-xs">
+                          <AssignReviewerSelect
+                            letterId={letter.id}
+                            assignedTo={letter.assigned_to}
+                            reviewers={reviewerOptions}
+                          />
+                        </div>
+                      )}
+
+                      {/* Review target indicator */}
+                      {sla && (
+                        <div className={`mt-3 text-xs px-2 py-1 rounded inline-block ${slaColors[sla.state]}`}>
+                          {sla.state === 'breached'
+                            ? `${REVIEW_SLA_LABELS.breached} by ${formatSlaDuration(sla.elapsedHours - sla.targetHours)}`
+                            : `${REVIEW_SLA_LABELS[sla.state]} · ${formatSlaDuration(sla.targetHours - sla.elapsedHours)} left`}
+                          {' '}of {sla.targetHours}h target
                         </div>
                       )}
                     </div>
@@ -162,10 +275,32 @@ export default async function ReviewCenterPage() {
                   </div>
                 </CardContent>
               </Card>
-            ))}
+              )
+            })}
           </div>
         )}
       </div>
+
+      {/* Unassigned letters reviewers can claim */}
+      {unassigned.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-xl font-semibold">Unassigned Letters</h2>
+          {unassigned.map((letter) => (
+            <Card key={letter.id}>
+              <CardContent className="p-5 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-foreground truncate">{letter.title || 'Untitled Letter'}</h3>
+                  <div className="flex gap-4 text-sm text-muted-foreground mt-1">
+                    <span className="capitalize">{getLetterTypeLabel(letter.letter_type)}</span>
+                    <span>Submitted {format(new Date(letter.created_at), 'MMM d, yyyy')}</span>
+                  </div>
+                </div>
+                <ClaimLetterButton letterId={letter.id} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
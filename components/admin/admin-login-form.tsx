@@ -0,0 +1,249 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+type LoginStep = 'credentials' | 'mfa' | 'enroll' | 'recovery_codes'
+
+interface Enrollment {
+  secret: string
+  otpauthUrl: string
+}
+
+const inputClassName = 'bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400'
+
+/**
+ * Admin portal login: password, then an authenticator code. Users without
+ * an authenticator set one up here and are shown their recovery codes once.
+ */
+export function AdminLoginForm({ portalKeyRequired }: { portalKeyRequired: boolean }) {
+  const [step, setStep] = useState<LoginStep>('credentials')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [portalKey, setPortalKey] = useState('')
+  const [mfaCode, setMfaCode] = useState('')
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+
+  const enterPortal = () => {
+    router.push('/secure-admin-gateway/review')
+    router.refresh()
+  }
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin-auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          email,
+          password,
+          portalKey,
+          ...(step === 'credentials' ? {} : { mfaCode })
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.mfa === 'required') {
+        setStep('mfa')
+      } else if (data.mfa === 'enrollment_required') {
+        if (data.enrollment) setEnrollment(data.enrollment)
+        setStep('enroll')
+      }
+
+      if (!response.ok) {
+        setMfaCode('')
+        throw new Error(data.error || 'Authentication failed')
+      }
+
+      if (data.success && data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes)
+        setStep('recovery_codes')
+      } else if (data.success) {
+        enterPortal()
+      }
+
+    } catch (err: any) {
+      console.error('[AdminLogin] Error:', err)
+      setError(err.message || 'Failed to authenticate')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (step === 'recovery_codes') {
+    return (
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <h2 className="text-sm font-semibold text-slate-200">Save your recovery codes</h2>
+          <p className="text-xs text-slate-400">
+            Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+          </p>
+        </div>
+        <ul className="grid grid-cols-2 gap-2 p-3 rounded-md bg-slate-900/60 border border-slate-700 font-mono text-sm text-slate-100">
+          {recoveryCodes.map(code => (
+            <li key={code}>{code}</li>
+          ))}
+        </ul>
+        <Button onClick={enterPortal} className="w-full bg-red-600 hover:bg-red-700 text-white">
+          I&apos;ve saved these codes
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleLogin} className="space-y-4">
+      {step === 'credentials' && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="email" className="text-slate-200">Email Address</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="admin@talk-to-my-lawyer.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              disabled={loading}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="password" className="text-slate-200">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              disabled={loading}
+              className="bg-slate-700/50 border-slate-600 text-white"
+            />
+          </div>
+
+          {portalKeyRequired && (
+            <div className="space-y-2">
+              <Label htmlFor="portalKey" className="text-slate-200">
+                Admin Portal Key
+                <span className="block text-xs text-slate-400 font-normal mt-1">
+                  Special access key required for admin authentication
+                </span>
+              </Label>
+              <Input
+                id="portalKey"
+                type="password"
+                placeholder="Enter admin portal key"
+                value={portalKey}
+                onChange={(e) => setPortalKey(e.target.value)}
+                required
+                disabled={loading}
+                className="bg-slate-700/50 border-slate-600 text-white font-mono"
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {step === 'enroll' && enrollment && (
+        <div className="space-y-2 text-sm text-slate-300">
+          <p className="font-semibold text-slate-200">Set up your authenticator</p>
+          <p className="text-xs text-slate-400">
+            Add this key to Google Authenticator, 1Password or a similar app, then enter the six-digit code it shows.
+          </p>
+          <p className="p-3 rounded-md bg-slate-900/60 border border-slate-700 font-mono text-slate-100 break-all">
+            {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+          </p>
+          <a href={enrollment.otpauthUrl} className="text-xs text-red-400 hover:underline">
+            Open in authenticator app
+          </a>
+        </div>
+      )}
+
+      {step !== 'credentials' && (
+        <div className="space-y-2">
+          <Label htmlFor="mfaCode" className="text-slate-200">
+            Authentication Code
+            <span className="block text-xs text-slate-400 font-normal mt-1">
+              {step === 'mfa'
+                ? 'Enter the code from your authenticator app, or one of your recovery codes'
+                : 'Enter the code from your authenticator app'}
+            </span>
+          </Label>
+          <Input
+            id="mfaCode"
+            autoComplete="one-time-code"
+            value={mfaCode}
+            onChange={(e) => setMfaCode(e.target.value)}
+            required
+            autoFocus
+            disabled={loading}
+            className={`${inputClassName} font-mono tracking-widest`}
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 text-sm text-red-400 bg-red-900/20 border border-red-900/50 rounded-md flex items-center gap-2">
+          <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          {error}
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        disabled={loading}
+        className="w-full bg-red-600 hover:bg-red-700 text-white"
+      >
+        {loading ? (
+          <span className="flex items-center gap-2">
+            <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            Authenticating...
+          </span>
+        ) : step === 'credentials' ? (
+          'Secure Admin Login'
+        ) : (
+          'Verify Code'
+        )}
+      </Button>
+
+      {step !== 'credentials' && (
+        <button
+          type="button"
+          onClick={() => { setStep('credentials'); setMfaCode(''); setError(null) }}
+          className="w-full text-xs text-slate-400 hover:text-slate-200"
+        >
+          Use a different account
+        </button>
+      )}
+
+      <div className="pt-4 border-t border-slate-700">
+        <p className="text-xs text-center text-slate-500">
+          <svg className="w-4 h-4 inline mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          Authorized personnel only. All access is logged and monitored.
+        </p>
+      </div>
+    </form>
+  )
+}
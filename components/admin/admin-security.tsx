@@ -0,0 +1,176 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+async function request(url: string, init: RequestInit, fallback: string) {
+  const response = await fetch(url, init)
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(result.error?.message || result.error || fallback)
+  }
+  return result
+}
+
+/**
+ * Replace your recovery codes, confirming with a current authenticator code
+ */
+export function RegenerateRecoveryCodesForm() {
+  const [code, setCode] = useState('')
+  const [codes, setCodes] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const router = useRouter()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    try {
+      const result = await request('/api/admin-auth/mfa/recovery-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      }, 'Failed to generate recovery codes')
+      setCodes(result.recoveryCodes)
+      setCode('')
+      router.refresh()
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate recovery codes')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (codes.length > 0) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Your old codes no longer work. Save these somewhere safe; they won&apos;t be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 p-3 rounded-md border bg-muted/40 font-mono text-sm max-w-md">
+          {codes.map(recoveryCode => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 max-w-sm">
+      <div className="space-y-1">
+        <Label htmlFor="regenerate-code">Authenticator code</Label>
+        <Input
+          id="regenerate-code"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+          required
+          disabled={saving}
+          className="font-mono"
+        />
+      </div>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+      <Button type="submit" variant="outline" disabled={saving}>
+        {saving ? 'Generating...' : 'Generate new recovery codes'}
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * Admin control for clearing a user's authenticator after a lost device
+ */
+export function ResetMfaButton({ userId, label }: { userId: string; label: string }) {
+  const [saving, setSaving] = useState(false)
+  const router = useRouter()
+
+  const handleReset = async () => {
+    if (!confirm(`Reset two-factor authentication for ${label}? They will set up a new authenticator at their next login.`)) return
+
+    setSaving(true)
+    try {
+      await request(`/api/admin/mfa/${userId}`, { method: 'DELETE' }, 'Failed to reset two-factor authentication')
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to reset two-factor authentication')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleReset} disabled={saving}>
+      {saving ? 'Resetting...' : 'Reset 2FA'}
+    </Button>
+  )
+}
+
+/**
+ * Sign out one portal session
+ */
+export function RevokeSessionButton({ sessionId, current }: { sessionId: string; current: boolean }) {
+  const [saving, setSaving] = useState(false)
+  const router = useRouter()
+
+  const handleRevoke = async () => {
+    if (current && !confirm('This is your current session. Sign out now?')) return
+
+    setSaving(true)
+    try {
+      await request(`/api/admin-auth/sessions/${sessionId}`, { method: 'DELETE' }, 'Failed to sign out session')
+      if (current) {
+        router.push('/secure-admin-gateway/login')
+      }
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to sign out session')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleRevoke} disabled={saving}>
+      {saving ? 'Signing out...' : 'Sign out'}
+    </Button>
+  )
+}
+
+/**
+ * Revoke every session of the signed-in user, this one included
+ */
+export function SignOutEverywhereButton() {
+  const [saving, setSaving] = useState(false)
+  const router = useRouter()
+
+  const handleClick = async () => {
+    if (!confirm('Sign out of the admin portal on every device, including this one?')) return
+
+    setSaving(true)
+    try {
+      await request('/api/admin-auth/sessions', { method: 'DELETE' }, 'Failed to sign out everywhere')
+      router.push('/secure-admin-gateway/login')
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to sign out everywhere')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Button variant="destructive" onClick={handleClick} disabled={saving}>
+      {saving ? 'Signing out...' : 'Sign out everywhere'}
+    </Button>
+  )
+}
@@ -0,0 +1,203 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { AttorneyProfile } from '@/lib/letters/attorney-profile'
+
+interface AttorneyForm {
+  isLicensedAttorney: boolean
+  barNumber: string
+  barState: string
+  firmName: string
+  title: string
+}
+
+function toForm(profile: AttorneyProfile): AttorneyForm {
+  return {
+    isLicensedAttorney: profile.isLicensedAttorney,
+    barNumber: profile.barNumber ?? '',
+    barState: profile.barState ?? '',
+    firmName: profile.firmName ?? '',
+    title: profile.title ?? ''
+  }
+}
+
+export function AttorneyProfileForm({ profile }: { profile: AttorneyProfile }) {
+  const router = useRouter()
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [form, setForm] = useState<AttorneyForm>(() => toForm(profile))
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const update = <K extends keyof AttorneyForm>(key: K, value: AttorneyForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }))
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await fetch(url, init)
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(result.error?.message || result.error || fallback)
+    }
+    return result
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      await request('/api/admin/attorney-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      }, 'Failed to save attorney profile')
+
+      setMessage({ type: 'success', text: 'Attorney profile saved' })
+      router.refresh()
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to save attorney profile' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUpload = async (file: File) => {
+    setUploading(true)
+    setMessage(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      await request('/api/admin/attorney-profile/signature', { method: 'POST', body: formData }, 'Failed to upload signature')
+
+      setMessage({ type: 'success', text: 'Signature uploaded' })
+      router.refresh()
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to upload signature' })
+    } finally {
+      setUploading(false)
+      if (fileInput.current) fileInput.current.value = ''
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!confirm('Remove your signature image? Letters will be signed without it.')) return
+
+    setUploading(true)
+    setMessage(null)
+
+    try {
+      await request('/api/admin/attorney-profile/signature', { method: 'DELETE' }, 'Failed to remove signature')
+      router.refresh()
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to remove signature' })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Credentials</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-sm text-muted-foreground">
+            Signing as <span className="font-medium text-foreground">{profile.name || profile.email}</span>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={form.isLicensedAttorney} onCheckedChange={checked => update('isLicensedAttorney', checked)} />
+            I am a licensed attorney
+          </label>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="attorney-bar-number">Bar number</Label>
+              <Input id="attorney-bar-number" value={form.barNumber} onChange={e => update('barNumber', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="attorney-bar-state">State of admission</Label>
+              <Input id="attorney-bar-state" value={form.barState} onChange={e => update('barState', e.target.value)} placeholder="CA" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="attorney-title">Title</Label>
+              <Input id="attorney-title" value={form.title} onChange={e => update('title', e.target.value)} placeholder="Attorney at Law" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="attorney-firm">Firm</Label>
+              <Input id="attorney-firm" value={form.firmName} onChange={e => update('firmName', e.target.value)} />
+            </div>
+          </div>
+
+          {message && (
+            <div
+              className={
+                message.type === 'success'
+                  ? 'p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800'
+                  : 'p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800'
+              }
+            >
+              {message.text}
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Profile'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Signature</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            A PNG or JPEG under 1 MB, ideally dark ink on a transparent or white background.
+          </p>
+
+          <div className="flex h-32 items-center justify-center rounded-lg border border-dashed border-border bg-white">
+            {profile.signatureUrl ? (
+              <img src={profile.signatureUrl} alt="Your signature" className="max-h-24 max-w-full object-contain" />
+            ) : (
+              <span className="text-sm text-muted-foreground">No signature uploaded</span>
+            )}
+          </div>
+
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/png,image/jpeg"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0]
+              if (file) handleUpload(file)
+            }}
+          />
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={uploading}>
+              <Upload className="h-4 w-4 mr-1" />
+              {uploading ? 'Uploading...' : profile.hasSignature ? 'Replace Signature' : 'Upload Signature'}
+            </Button>
+            {profile.hasSignature && (
+              <Button variant="outline" onClick={handleRemove} disabled={uploading}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Remove
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { CouponDiscountType } from '@/lib/billing/coupons'
+
+interface CampaignForm {
+  code: string
+  description: string
+  discountType: CouponDiscountType
+  discountValue: string
+  startsAt: string
+  expiresAt: string
+  maxRedemptions: string
+  maxRedemptionsPerUser: string
+  allowedPlans: string
+  firstPurchaseOnly: boolean
+}
+
+const EMPTY_FORM: CampaignForm = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  discountValue: '',
+  startsAt: '',
+  expiresAt: '',
+  maxRedemptions: '',
+  maxRedemptionsPerUser: '1',
+  allowedPlans: '',
+  firstPurchaseOnly: false
+}
+
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : null)
+// datetime-local inputs are in the admin's timezone
+const optionalDate = (value: string) => (value ? new Date(value).toISOString() : null)
+
+export function CouponCampaignForm({ onCreated }: { onCreated: () => void }) {
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState<CampaignForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = <K extends keyof CampaignForm>(key: K, value: CampaignForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }))
+
+  const handleCreate = async () => {
+    setSaving(true)
+    setError(null)
+
+    const value = Number(form.discountValue)
+    const payload = {
+      code: form.code,
+      description: form.description,
+      discountType: form.discountType,
+      ...(form.discountType === 'percent' ? { discountPercent: value } : { discountAmount: value }),
+      startsAt: optionalDate(form.startsAt),
+      expiresAt: optionalDate(form.expiresAt),
+      maxRedemptions: optionalNumber(form.maxRedemptions),
+      maxRedemptionsPerUser: optionalNumber(form.maxRedemptionsPerUser),
+      allowedPlans: form.allowedPlans.split(',').map(plan => plan.trim()).filter(Boolean),
+      firstPurchaseOnly: form.firstPurchaseOnly
+    }
+
+    try {
+      const response = await fetch('/api/admin/coupons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.error || 'Failed to create coupon')
+      }
+
+      setForm(EMPTY_FORM)
+      setOpen(false)
+      onCreated()
+    } catch (err: any) {
+      setError(err.message || 'Failed to create coupon')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <Button onClick={() => setOpen(true)}>
+        <Plus className="h-4 w-4 mr-1" />
+        New Campaign Code
+      </Button>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New Campaign Code</CardTitle>
+        <CardDescription>
+          Marketing codes have no referring employee and earn no commission. Leave limits empty for none.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="coupon-code">Code</Label>
+            <Input id="coupon-code" value={form.code} onChange={e => update('code', e.target.value.toUpperCase())} placeholder="e.g. SPRING25" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="coupon-type">Discount type</Label>
+            <select
+              id="coupon-type"
+              value={form.discountType}
+              onChange={e => update('discountType', e.target.value as CouponDiscountType)}
+              className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              <option value="percent">Percentage</option>
+              <option value="fixed">Fixed amount (USD)</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="coupon-value">{form.discountType === 'percent' ? 'Percent off' : 'Amount off (USD)'}</Label>
+            <Input id="coupon-value" type="number" min="0" step={form.discountType === 'percent' ? '1' : '0.01'} value={form.discountValue} onChange={e => update('discountValue', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="coupon-starts">Starts</Label>
+            <Input id="coupon-starts" type="datetime-local" value={form.startsAt} onChange={e => update('startsAt', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="coupon-expires">Expires</Label>
+            <Input id="coupon-expires" type="datetime-local" value={form.expiresAt} onChange={e => update('expiresAt', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="coupon-plans">Plans (comma separated keys)</Label>
+            <Input id="coupon-plans" value={form.allowedPlans} onChange={e => update('allowedPlans', e.target.value)} placeholder="All plans" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="coupon-max">Total redemptions</Label>
+            <Input id="coupon-max" type="number" min="1" value={form.maxRedemptions} onChange={e => update('maxRedemptions', e.target.value)} placeholder="Unlimited" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="coupon-max-user">Redemptions per subscriber</Label>
+            <Input id="coupon-max-user" type="number" min="1" value={form.maxRedemptionsPerUser} onChange={e => update('maxRedemptionsPerUser', e.target.value)} placeholder="Unlimited" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="coupon-description">Internal note</Label>
+            <Input id="coupon-description" value={form.description} onChange={e => update('description', e.target.value)} />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={form.firstPurchaseOnly} onCheckedChange={checked => update('firstPurchaseOnly', checked)} />
+          First purchase only
+        </label>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={handleCreate} disabled={saving || !form.code || !form.discountValue}>
+            {saving ? 'Creating...' : 'Create Code'}
+          </Button>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
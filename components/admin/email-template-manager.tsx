@@ -0,0 +1,379 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { renderTemplate } from '@/lib/email/templates'
+import {
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATE_LABELS,
+  pickTemplateVersion,
+  renderTemplateSource,
+  SAMPLE_TEMPLATE_DATA,
+  TEMPLATE_VARIABLES,
+  validateTemplateSource,
+  type EmailLocale,
+} from '@/lib/email/template-source'
+import type { EmailTemplateVersionRow } from '@/lib/email/template-store'
+import type { EmailTemplate } from '@/lib/email/types'
+
+interface TemplateForm {
+  subject: string
+  text: string
+  html: string
+  notes: string
+}
+
+const EMPTY_FORM: TemplateForm = { subject: '', text: '', html: '', notes: '' }
+
+function describeVersion(version: EmailTemplateVersionRow): string {
+  return `${EMAIL_LOCALES[version.locale]} v${version.version}`
+}
+
+export function EmailTemplateManager({
+  versions,
+  adminEmail
+}: {
+  versions: EmailTemplateVersionRow[]
+  adminEmail: string | null
+}) {
+  const router = useRouter()
+  const [template, setTemplate] = useState<EmailTemplate>('welcome')
+  const [locale, setLocale] = useState<EmailLocale>('en')
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM)
+  // 'save', 'publish', 'test' or the id of the version being published
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const update = <K extends keyof TemplateForm>(key: K, value: TemplateForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }))
+
+  const history = versions.filter(version => version.template_key === template && version.locale === locale)
+  const live = pickTemplateVersion(versions.filter(version => version.is_active), template, locale)
+  const hasDraft = Boolean(form.subject || form.text || form.html)
+  const draftErrors = hasDraft ? validateTemplateSource(form) : []
+
+  // What the preview shows: the draft while editing, otherwise what recipients get today
+  const preview = useMemo(() => {
+    try {
+      if (hasDraft) {
+        return draftErrors.length > 0 ? null : renderTemplateSource(form, SAMPLE_TEMPLATE_DATA)
+      }
+      if (live) {
+        return renderTemplateSource({ subject: live.subject, text: live.text_body, html: live.html_body }, SAMPLE_TEMPLATE_DATA)
+      }
+      return renderTemplate(template, SAMPLE_TEMPLATE_DATA)
+    } catch {
+      return null
+    }
+  }, [hasDraft, draftErrors.length, form, live, template])
+
+  const selectTemplate = (next: EmailTemplate, nextLocale: EmailLocale) => {
+    setTemplate(next)
+    setLocale(nextLocale)
+    setForm(EMPTY_FORM)
+    setError(null)
+    setNotice(null)
+  }
+
+  const loadVersion = (version: EmailTemplateVersionRow) => {
+    setForm({
+      subject: version.subject,
+      text: version.text_body,
+      html: version.html_body ?? '',
+      notes: ''
+    })
+    setError(null)
+    setNotice(null)
+  }
+
+  const request = async (key: string, url: string, init: RequestInit, fallbackError: string) => {
+    setBusy(key)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' }
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.error || fallbackError)
+      }
+      return result
+    } catch (err: any) {
+      setError(err.message || fallbackError)
+      return null
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleSave = async (publish: boolean) => {
+    const result = await request(publish ? 'publish' : 'save', '/api/admin/email-templates', {
+      method: 'POST',
+      body: JSON.stringify({ template, locale, ...form, publish })
+    }, 'Failed to save template')
+
+    if (result) {
+      setForm(EMPTY_FORM)
+      setNotice(`Saved version ${result.version.version}${publish ? ' and published it' : ''}`)
+      router.refresh()
+    }
+  }
+
+  const handleSetActive = async (version: EmailTemplateVersionRow, isActive: boolean) => {
+    const result = await request(version.id, `/api/admin/email-templates/${version.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ isActive })
+    }, 'Failed to update template')
+
+    if (result) {
+      setNotice(isActive ? `Published version ${version.version}` : `Unpublished version ${version.version}`)
+      router.refresh()
+    }
+  }
+
+  const handleSendTest = async () => {
+    const result = await request('test', '/api/test-email', {
+      method: 'POST',
+      body: JSON.stringify({
+        testType: 'template',
+        template,
+        locale,
+        ...(hasDraft && { draft: { subject: form.subject, text: form.text, html: form.html } })
+      })
+    }, 'Failed to send test email')
+
+    if (result) {
+      setNotice(result.message || 'Test email sent')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-key">Template</Label>
+            <select
+              id="template-key"
+              value={template}
+              onChange={e => selectTemplate(e.target.value as EmailTemplate, locale)}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              {(Object.keys(EMAIL_TEMPLATE_LABELS) as EmailTemplate[]).map(key => (
+                <option key={key} value={key}>{EMAIL_TEMPLATE_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-locale">Language</Label>
+            <select
+              id="template-locale"
+              value={locale}
+              onChange={e => selectTemplate(template, e.target.value as EmailLocale)}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              {(Object.keys(EMAIL_LOCALES) as EmailLocale[]).map(code => (
+                <option key={code} value={code}>{EMAIL_LOCALES[code]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="text-sm text-muted-foreground pb-2">
+            Recipients get:{' '}
+            <Badge variant="secondary" className={live ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-800'}>
+              {live ? `${describeVersion(live)}${live.locale !== locale ? ' (fallback)' : ''}` : 'Built-in copy'}
+            </Badge>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Editor</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-subject">Subject</Label>
+              <Input id="template-subject" value={form.subject} onChange={e => update('subject', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-text">Plain text body</Label>
+              <Textarea id="template-text" rows={10} value={form.text} onChange={e => update('text', e.target.value)} className="font-mono text-xs" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-html">HTML body (optional, generated from the text when empty)</Label>
+              <Textarea id="template-html" rows={8} value={form.html} onChange={e => update('html', e.target.value)} className="font-mono text-xs" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-notes">What changed (optional)</Label>
+              <Input id="template-notes" value={form.notes} onChange={e => update('notes', e.target.value)} />
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">
+                Variables — write {'{{name}}'} or {'{{name|fallback}}'}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(TEMPLATE_VARIABLES).map(([name, description]) => (
+                  <code key={name} title={description} className="text-xs bg-muted px-1.5 py-0.5 rounded">
+                    {name}
+                  </code>
+                ))}
+              </div>
+            </div>
+
+            {draftErrors.length > 0 && (
+              <ul className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 list-disc list-inside">
+                {draftErrors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                {error}
+              </div>
+            )}
+            {notice && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                {notice}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => handleSave(true)} disabled={!hasDraft || draftErrors.length > 0 || busy !== null}>
+                {busy === 'publish' ? 'Publishing...' : 'Save & Publish'}
+              </Button>
+              <Button variant="outline" onClick={() => handleSave(false)} disabled={!hasDraft || draftErrors.length > 0 || busy !== null}>
+                {busy === 'save' ? 'Saving...' : 'Save Draft'}
+              </Button>
+              <Button variant="outline" onClick={handleSendTest} disabled={!adminEmail || draftErrors.length > 0 || busy !== null}>
+                <Send className="h-4 w-4 mr-1" />
+                {busy === 'test' ? 'Sending...' : 'Send Test'}
+              </Button>
+              {hasDraft && (
+                <Button variant="ghost" onClick={() => setForm(EMPTY_FORM)} disabled={busy !== null}>
+                  Discard
+                </Button>
+              )}
+            </div>
+            {adminEmail && (
+              <p className="text-xs text-muted-foreground">
+                Test emails use sample data and go to {adminEmail}.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview {hasDraft ? '(draft)' : '(live)'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {preview ? (
+              <div className="space-y-3">
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Subject:</span> {preview.subject}
+                </p>
+                <Tabs defaultValue="html">
+                  <TabsList>
+                    <TabsTrigger value="html">HTML</TabsTrigger>
+                    <TabsTrigger value="text">Plain text</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="html">
+                    <iframe
+                      title="Email preview"
+                      srcDoc={preview.html}
+                      sandbox=""
+                      className="w-full h-[560px] border rounded-md bg-white"
+                    />
+                  </TabsContent>
+                  <TabsContent value="text">
+                    <pre className="whitespace-pre-wrap text-xs bg-muted/50 p-4 rounded-md max-h-[560px] overflow-y-auto">
+                      {preview.text}
+                    </pre>
+                  </TabsContent>
+                </Tabs>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground py-12 text-center">
+                {hasDraft ? 'Fix the problems in the editor to see a preview' : 'This template has no built-in copy yet'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Versions — {EMAIL_TEMPLATE_LABELS[template]}, {EMAIL_LOCALES[locale]}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Version</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Subject</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Saved</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {history.map(version => (
+                  <tr key={version.id} className="hover:bg-muted/30">
+                    <td className="px-4 py-4 text-sm">
+                      v{version.version}{' '}
+                      {version.is_active && (
+                        <Badge variant="secondary" className="bg-green-100 text-green-800">published</Badge>
+                      )}
+                    </td>
+                    <td className="px-4 py-4">
+                      <div className="text-sm">{version.subject}</div>
+                      {version.notes && <div className="text-xs text-muted-foreground">{version.notes}</div>}
+                    </td>
+                    <td className="px-4 py-4 text-xs text-muted-foreground">
+                      {new Date(version.created_at).toLocaleString()}
+                      {version.created_by && <div>{version.created_by}</div>}
+                    </td>
+                    <td className="px-4 py-4 space-x-2 whitespace-nowrap">
+                      <Button size="sm" variant="outline" onClick={() => loadVersion(version)} disabled={busy !== null}>
+                        Edit copy
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={version.is_active ? 'ghost' : 'outline'}
+                        onClick={() => handleSetActive(version, !version.is_active)}
+                        disabled={busy !== null}
+                      >
+                        {busy === version.id ? 'Saving...' : version.is_active ? 'Unpublish' : 'Publish'}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {history.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-12 text-center text-muted-foreground">
+                      No saved versions; {locale === 'en' ? 'the built-in copy is sent' : 'the English copy is sent'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -40,6 +40,8 @@ import {
   History
 } from "lucide-react"
 import { toast } from "sonner"
+import { LetterVersionHistory } from "@/components/admin/letter-version-history"
+import { LetterComments } from "@/components/letter-comments"
 
 interface LetterReviewInterfaceProps {
   letter: any
@@ -50,6 +52,8 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
   const supabase = createClient()
   const [isEditing, setIsEditing] = useState(false)
   const [editedContent, setEditedContent] = useState(letter.final_content || letter.ai_draft_content || "")
+  // The last AI suggestion, so saving it unchanged is recorded as an AI version
+  const [aiSuggestion, setAiSuggestion] = useState<string | null>(null)
   const [reviewNotes, setReviewNotes] = useState("")
   const [rejectionReason, setRejectionReason] = useState("")
   const [isLoading, setIsLoading] = useState(false)
@@ -69,27 +73,24 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
     return <Badge variant={config.variant}>{config.label}</Badge>
   }
 
+  // Saves the content as final_content and records it in the version history
+  const saveVersion = async (content: string) => {
+    const response = await fetch(`/api/letters/${letter.id}/versions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content, source: content === aiSuggestion ? "ai_improve" : "manual_edit" }),
+    })
+
+    if (!response.ok) {
+      const { error } = await response.json()
+      throw new Error(error || "Failed to save letter content")
+    }
+  }
+
   const handleSaveEdit = async () => {
     setIsLoading(true)
     try {
-      const { error } = await supabase
-        .from("letters")
-        .update({
-          final_content: editedContent,
-          updated_at: new Date().toISOString()
-        })
-        .eq("id", letter.id)
-
-      if (error) throw error
-
-      // Log the edit action
-      await supabase.rpc("log_letter_audit", {
-        p_letter_id: letter.id,
-        p_action: "content_edited",
-        p_old_status: letter.status,
-        p_new_status: letter.status,
-        p_notes: "Letter content edited by admin"
-      })
+      await saveVersion(editedContent)
 
       toast.success("Letter content saved successfully")
       setIsEditing(false)
@@ -104,6 +105,10 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
   const handleApprove = async () => {
     setIsLoading(true)
     try {
+      if (editedContent !== (letter.final_content || letter.ai_draft_content || "")) {
+        await saveVersion(editedContent)
+      }
+
       const { error } = await supabase
         .from("letters")
         .update({
@@ -222,17 +227,10 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
 
       if (!response.ok) throw new Error("Failed to improve letter")
 
+      // Recorded in the version history once the reviewer saves it
       const { improvedContent } = await response.json()
       setEditedContent(improvedContent)
-
-      // Log AI improvement
-      await supabase.rpc("log_letter_audit", {
-        p_letter_id: letter.id,
-        p_action: "ai_improved",
-        p_old_status: letter.status,
-        p_new_status: letter.status,
-        p_notes: "Letter content improved with AI"
-      })
+      setAiSuggestion(improvedContent)
 
       toast.success("Letter improved with AI suggestions")
     } catch (error: any) {
@@ -281,9 +279,11 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="review">Review</TabsTrigger>
               <TabsTrigger value="edit">Edit & Improve</TabsTrigger>
+              <TabsTrigger value="versions">Versions</TabsTrigger>
+              <TabsTrigger value="comments">Comments</TabsTrigger>
               <TabsTrigger value="actions">Actions</TabsTrigger>
               <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
@@ -431,6 +431,14 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
               )}
             </TabsContent>
 
+            <TabsContent value="versions" className="space-y-4">
+              {activeTab === "versions" && <LetterVersionHistory letterId={letter.id} />}
+            </TabsContent>
+
+            <TabsContent value="comments" className="space-y-4">
+              <LetterComments letterId={letter.id} content={letter.final_content || letter.ai_draft_content} />
+            </TabsContent>
+
             <TabsContent value="actions" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <Button
@@ -480,7 +488,12 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
                   auditTrail.map((entry) => (
                     <div key={entry.id} className="border-l-2 border-blue-200 pl-4 pb-4">
                       <div className="flex items-center justify-between">
-                        <p className="font-medium text-sm">{entry.action}</p>
+                        <p className="font-medium text-sm">
+                          {entry.action}
+                          {entry.metadata?.version_number && (
+                            <Badge variant="outline" className="ml-2">v{entry.metadata.version_number}</Badge>
+                          )}
+                        </p>
                         <span className="text-xs text-gray-500">
                           {new Date(entry.created_at).toLocaleString()}
                         </span>
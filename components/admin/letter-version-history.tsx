@@ -0,0 +1,250 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Loader2, RotateCcw } from "lucide-react"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import { diffLines, summarizeDiff, type DiffRow } from "@/lib/letters/diff"
+import type { LetterVersionSource, LetterVersionWithAuthor } from "@/lib/letters/versions"
+
+const SOURCE_LABELS: Record<LetterVersionSource, string> = {
+  ai_draft: "AI draft",
+  ai_improve: "AI improvement",
+  manual_edit: "Manual edit",
+  resubmission: "Resubmission",
+  restore: "Restore",
+}
+
+const ROW_CLASSES: Record<DiffRow["type"], { left: string; right: string }> = {
+  unchanged: { left: "", right: "" },
+  added: { left: "bg-muted/40", right: "bg-green-50 text-green-900" },
+  removed: { left: "bg-red-50 text-red-900", right: "bg-muted/40" },
+  changed: { left: "bg-red-50 text-red-900", right: "bg-green-50 text-green-900" },
+}
+
+interface LetterVersionHistoryProps {
+  letterId: string
+}
+
+export function LetterVersionHistory({ letterId }: LetterVersionHistoryProps) {
+  const [versions, setVersions] = useState<LetterVersionWithAuthor[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [baseId, setBaseId] = useState<string>("")
+  const [compareId, setCompareId] = useState<string>("")
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/letters/${letterId}/versions`)
+      if (!response.ok) throw new Error("Failed to load versions")
+
+      const { versions: loaded } = await response.json() as { versions: LetterVersionWithAuthor[] }
+      setVersions(loaded)
+      // Newest first: compare the latest version against the one before it
+      setCompareId(loaded[0]?.id ?? "")
+      setBaseId(loaded[1]?.id ?? loaded[0]?.id ?? "")
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions])
+
+  const base = versions.find((version) => version.id === baseId)
+  const compare = versions.find((version) => version.id === compareId)
+  const latest = versions[0]
+
+  const rows = useMemo(
+    () => (base && compare ? diffLines(base.content, compare.content) : []),
+    [base, compare]
+  )
+  const summary = summarizeDiff(rows)
+
+  const handleRestore = async (version: LetterVersionWithAuthor) => {
+    setIsRestoring(true)
+    try {
+      const response = await fetch(`/api/letters/${letterId}/versions/${version.id}/restore`, {
+        method: "POST",
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error || "Failed to restore version")
+      }
+
+      toast.success(`Version ${version.version_number} restored`)
+      window.location.reload()
+    } catch (error: any) {
+      toast.error("Failed to restore version: " + error.message)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  // Show what a version changed relative to the one before it
+  const showChanges = (index: number) => {
+    const version = versions[index]
+    if (!version) return
+    setCompareId(version.id)
+    setBaseId(versions[index + 1]?.id ?? version.id)
+  }
+
+  const versionLabel = (version: LetterVersionWithAuthor) =>
+    `v${version.version_number} · ${SOURCE_LABELS[version.source]} · ${new Date(version.created_at).toLocaleString()}`
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading versions...
+      </div>
+    )
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-gray-500 text-sm">No versions recorded yet</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Base version</Label>
+          <Select value={baseId} onValueChange={setBaseId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={version.id}>
+                  {versionLabel(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Compare with</Label>
+          <Select value={compareId} onValueChange={setCompareId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={version.id}>
+                  {versionLabel(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {base && compare && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <Badge variant="outline" className="text-green-700">+{summary.added} added</Badge>
+            <Badge variant="outline" className="text-red-700">-{summary.removed} removed</Badge>
+            <Badge variant="outline">{summary.changed} changed</Badge>
+          </div>
+          <div className="max-h-[32rem] overflow-auto rounded-md border font-mono text-xs">
+            <div className="grid grid-cols-2 sticky top-0 bg-gray-50 border-b text-gray-600">
+              <div className="px-3 py-2 border-r">v{base.version_number} · {SOURCE_LABELS[base.source]}</div>
+              <div className="px-3 py-2">v{compare.version_number} · {SOURCE_LABELS[compare.source]}</div>
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-2">
+                <div className={cn("flex border-r", ROW_CLASSES[row.type].left)}>
+                  <span className="w-10 shrink-0 select-none px-2 text-right text-gray-400">{row.leftNumber ?? ""}</span>
+                  <span className="whitespace-pre-wrap break-words px-2">{row.left ?? ""}</span>
+                </div>
+                <div className={cn("flex", ROW_CLASSES[row.type].right)}>
+                  <span className="w-10 shrink-0 select-none px-2 text-right text-gray-400">{row.rightNumber ?? ""}</span>
+                  <span className="whitespace-pre-wrap break-words px-2">{row.right ?? ""}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {versions.map((version, index) => (
+          <div key={version.id} className="border-l-2 border-blue-200 pl-4 pb-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <p className="font-medium text-sm">Version {version.version_number}</p>
+                <Badge variant="secondary">{SOURCE_LABELS[version.source]}</Badge>
+                {version.id === latest?.id && <Badge variant="default">Current</Badge>}
+              </div>
+              <span className="text-xs text-gray-500">
+                {new Date(version.created_at).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {version.author ? version.author.full_name || version.author.email : "System"}
+            </p>
+            {version.notes && (
+              <p className="text-sm text-gray-600 mt-1">{version.notes}</p>
+            )}
+            <div className="flex gap-2 mt-2">
+              <Button size="sm" variant="ghost" onClick={() => showChanges(index)}>
+                View changes
+              </Button>
+              {version.id !== latest?.id && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="outline" disabled={isRestoring}>
+                      <RotateCcw className="mr-2 h-3 w-3" />
+                      Restore
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Restore version {version.version_number}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Its content becomes the letter&apos;s final content. The current text stays in the history as an earlier version.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRestore(version)}>
+                        Restore
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
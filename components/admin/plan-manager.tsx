@@ -0,0 +1,297 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Pencil, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { planPriceSuffix, type PlanConfig, type PlanInterval } from '@/lib/billing/plans'
+
+interface PlanForm {
+  planType: string
+  name: string
+  description: string
+  price: string
+  letters: string
+  interval: PlanInterval | ''
+  stripePriceId: string
+  features: string
+  aliases: string
+  isVisible: boolean
+  isPopular: boolean
+  sortOrder: string
+  reviewSlaHours: string
+}
+
+const EMPTY_FORM: PlanForm = {
+  planType: '',
+  name: '',
+  description: '',
+  price: '',
+  letters: '1',
+  interval: '',
+  stripePriceId: '',
+  features: '',
+  aliases: '',
+  isVisible: true,
+  isPopular: false,
+  sortOrder: '0',
+  reviewSlaHours: ''
+}
+
+function toForm(plan: PlanConfig): PlanForm {
+  return {
+    planType: plan.planType,
+    name: plan.name,
+    description: plan.description ?? '',
+    price: String(plan.price),
+    letters: String(plan.letters),
+    interval: plan.interval ?? '',
+    stripePriceId: plan.stripePriceId ?? '',
+    features: plan.features.join('\n'),
+    aliases: plan.aliases.join(', '),
+    isVisible: plan.isVisible,
+    isPopular: plan.isPopular,
+    sortOrder: String(plan.sortOrder),
+    reviewSlaHours: plan.reviewSlaHours ? String(plan.reviewSlaHours) : ''
+  }
+}
+
+export function PlanManager({ plans }: { plans: PlanConfig[] }) {
+  const router = useRouter()
+  // null = form closed, 'new' = creating, otherwise the id of the plan being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<PlanForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = <K extends keyof PlanForm>(key: K, value: PlanForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }))
+
+  const openForm = (plan?: PlanConfig) => {
+    setEditing(plan ? plan.id : 'new')
+    setForm(plan ? toForm(plan) : EMPTY_FORM)
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+
+    const isNew = editing === 'new'
+    const payload = {
+      ...(isNew && { planType: form.planType.trim() }),
+      name: form.name,
+      description: form.description,
+      price: Number(form.price),
+      letters: Number(form.letters),
+      interval: form.interval || null,
+      stripePriceId: form.stripePriceId,
+      features: form.features.split('\n'),
+      aliases: form.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+      isVisible: form.isVisible,
+      isPopular: form.isPopular,
+      sortOrder: Number(form.sortOrder),
+      reviewSlaHours: form.reviewSlaHours.trim() ? Number(form.reviewSlaHours) : null
+    }
+
+    try {
+      const response = await fetch(isNew ? '/api/admin/plans' : `/api/admin/plans/${editing}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.error || 'Failed to save plan')
+      }
+
+      setEditing(null)
+      router.refresh()
+    } catch (err: any) {
+      setError(err.message || 'Failed to save plan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Plan Catalog</CardTitle>
+          <Button size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Plan
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Plan</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Price</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Letters</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {plans.map(plan => (
+                  <tr key={plan.id} className="hover:bg-muted/30">
+                    <td className="px-4 py-4">
+                      <div className="text-sm font-medium">{plan.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {plan.planType}
+                        {plan.aliases.length > 0 && ` (${plan.aliases.join(', ')})`}
+                      </div>
+                    </td>
+                    <td className="px-4 py-4 text-sm">
+                      ${plan.price.toFixed(2)}
+                      <span className="text-muted-foreground">{planPriceSuffix(plan)}</span>
+                    </td>
+                    <td className="px-4 py-4 text-sm">{plan.letters}</td>
+                    <td className="px-4 py-4 space-x-1">
+                      <Badge variant="secondary" className={plan.isVisible ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-800'}>
+                        {plan.isVisible ? 'visible' : 'hidden'}
+                      </Badge>
+                      {plan.isPopular && (
+                        <Badge variant="secondary" className="bg-blue-100 text-blue-800">popular</Badge>
+                      )}
+                    </td>
+                    <td className="px-4 py-4">
+                      <Button size="sm" variant="outline" onClick={() => openForm(plan)}>
+                        <Pencil className="h-3 w-3 mr-1" />
+                        Edit
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {plans.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-12 text-center text-muted-foreground">
+                      No plans configured
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing === 'new' ? 'New Plan' : `Edit ${form.name}`}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="plan-type">Plan key</Label>
+                <Input
+                  id="plan-type"
+                  value={form.planType}
+                  onChange={e => update('planType', e.target.value)}
+                  disabled={editing !== 'new'}
+                  placeholder="e.g. standard_4_month"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-name">Name</Label>
+                <Input id="plan-name" value={form.name} onChange={e => update('name', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-price">Price (USD)</Label>
+                <Input id="plan-price" type="number" min="0" step="0.01" value={form.price} onChange={e => update('price', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-letters">Letters per period</Label>
+                <Input id="plan-letters" type="number" min="1" value={form.letters} onChange={e => update('letters', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-interval">Billing interval</Label>
+                <select
+                  id="plan-interval"
+                  value={form.interval}
+                  onChange={e => update('interval', e.target.value as PlanForm['interval'])}
+                  className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+                >
+                  <option value="">One-time purchase</option>
+                  <option value="month">Monthly</option>
+                  <option value="year">Yearly</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-price-id">Stripe price ID (optional)</Label>
+                <Input id="plan-price-id" value={form.stripePriceId} onChange={e => update('stripePriceId', e.target.value)} placeholder="price_..." />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-aliases">Legacy aliases (comma separated)</Label>
+                <Input id="plan-aliases" value={form.aliases} onChange={e => update('aliases', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-sort">Sort order</Label>
+                <Input id="plan-sort" type="number" value={form.sortOrder} onChange={e => update('sortOrder', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-review-sla">Review target (hours, optional)</Label>
+                <Input
+                  id="plan-review-sla"
+                  type="number"
+                  min="1"
+                  value={form.reviewSlaHours}
+                  onChange={e => update('reviewSlaHours', e.target.value)}
+                  placeholder="Default"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="plan-description">Description</Label>
+              <Textarea id="plan-description" rows={2} value={form.description} onChange={e => update('description', e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="plan-features">Features (one per line)</Label>
+              <Textarea id="plan-features" rows={6} value={form.features} onChange={e => update('features', e.target.value)} />
+            </div>
+
+            <div className="flex gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={form.isVisible} onCheckedChange={checked => update('isVisible', checked)} />
+                Offered for purchase
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={form.isPopular} onCheckedChange={checked => update('isPopular', checked)} />
+                Highlight as popular
+              </label>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Plan'}
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
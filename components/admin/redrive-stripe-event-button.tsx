@@ -0,0 +1,42 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+export function RedriveStripeEventButton({ eventId }: { eventId: string }) {
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+
+  const handleRedrive = async () => {
+    if (!confirm(`Re-run Stripe event ${eventId}?`)) return
+
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/admin/stripe-events/${encodeURIComponent(eventId)}/redrive`, {
+        method: 'POST'
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.error || 'Failed to re-drive event')
+      }
+
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to re-drive event')
+      router.refresh()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleRedrive} disabled={loading}>
+      <RotateCcw className="h-3 w-3 mr-1" />
+      {loading ? 'Re-driving...' : 'Re-drive'}
+    </Button>
+  )
+}
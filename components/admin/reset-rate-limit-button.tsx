@@ -0,0 +1,43 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+export function ResetRateLimitButton({ policy, subject }: { policy: string; subject: string }) {
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+
+  const handleReset = async () => {
+    if (!confirm(`Reset the ${policy} limit for ${subject}?`)) return
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/rate-limits', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ policy, subject })
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.error || 'Failed to reset rate limit')
+      }
+
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to reset rate limit')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleReset} disabled={loading}>
+      <RotateCcw className="h-3 w-3 mr-1" />
+      {loading ? 'Resetting...' : 'Reset'}
+    </Button>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+
+async function postJson(url: string, body: unknown, fallback: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(result.error?.message || result.error || fallback)
+  }
+  return result
+}
+
+/**
+ * Claim an unassigned letter through start-review and open it
+ */
+export function ClaimLetterButton({ letterId }: { letterId: string }) {
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+
+  const handleClaim = async () => {
+    setLoading(true)
+    try {
+      await postJson(`/api/letters/${letterId}/start-review`, {}, 'Failed to claim letter')
+      router.push(`/secure-admin-gateway/review/${letterId}`)
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to claim letter')
+      router.refresh()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Button onClick={handleClaim} disabled={loading}>
+      {loading ? 'Claiming...' : 'Claim & Review'}
+    </Button>
+  )
+}
+
+interface ReviewerOption {
+  id: string
+  label: string
+}
+
+/**
+ * Admin control for moving a letter to another reviewer
+ */
+export function AssignReviewerSelect({
+  letterId,
+  assignedTo,
+  reviewers
+}: {
+  letterId: string
+  assignedTo: string | null
+  reviewers: ReviewerOption[]
+}) {
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+
+  const handleChange = async (value: string) => {
+    setLoading(true)
+    try {
+      await postJson(`/api/letters/${letterId}/assign`, { reviewerId: value || null }, 'Failed to reassign letter')
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to reassign letter')
+      router.refresh()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // The admin may hold letters they took over; keep that choice visible
+  const options = assignedTo && !reviewers.some(r => r.id === assignedTo)
+    ? [...reviewers, { id: assignedTo, label: 'Admin' }]
+    : reviewers
+
+  return (
+    <select
+      aria-label="Assigned reviewer"
+      className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+      value={assignedTo ?? ''}
+      disabled={loading}
+      onChange={(e) => handleChange(e.target.value)}
+    >
+      <option value="">Unassigned</option>
+      {options.map(option => (
+        <option key={option.id} value={option.id}>{option.label}</option>
+      ))}
+    </select>
+  )
+}
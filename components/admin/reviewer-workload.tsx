@@ -0,0 +1,221 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Trash2, UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { ReviewerWorkload } from '@/lib/letters/review-assignment'
+
+async function request(url: string, init: RequestInit, fallback: string) {
+  const response = await fetch(url, init)
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(result.error?.message || result.error || fallback)
+  }
+  return result
+}
+
+function updateReviewer(reviewerId: string, body: { available?: boolean; capacity?: number | null }) {
+  return request(`/api/admin/reviewers/${reviewerId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }, 'Failed to update reviewer')
+}
+
+/**
+ * Toggle whether a reviewer takes new letters. Going unavailable hands
+ * their open letters to other reviewers.
+ */
+export function ReviewerAvailabilitySwitch({ reviewerId, available }: { reviewerId: string; available: boolean }) {
+  const [saving, setSaving] = useState(false)
+  const router = useRouter()
+
+  const handleChange = async (checked: boolean) => {
+    if (!checked && !confirm('Mark as unavailable? Open letters will be reassigned to other reviewers.')) return
+
+    setSaving(true)
+    try {
+      const result = await updateReviewer(reviewerId, { available: checked })
+      if (result.reassigned > 0) {
+        alert(`${result.reassigned} letter(s) reassigned`)
+      }
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to update availability')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return <Switch checked={available} disabled={saving} onCheckedChange={handleChange} aria-label="Available for review" />
+}
+
+function CapacityInput({ reviewer }: { reviewer: ReviewerWorkload }) {
+  const [value, setValue] = useState(reviewer.capacity?.toString() ?? '')
+  const [saving, setSaving] = useState(false)
+  const router = useRouter()
+
+  const handleSave = async () => {
+    const capacity = value.trim() ? Number(value) : null
+    if (capacity === reviewer.capacity) return
+
+    setSaving(true)
+    try {
+      await updateReviewer(reviewer.id, { capacity })
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error:', error)
+      alert(error.message || 'Failed to update capacity')
+      setValue(reviewer.capacity?.toString() ?? '')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Input
+      type="number"
+      min={1}
+      className="w-24"
+      placeholder="No limit"
+      aria-label="Capacity"
+      value={value}
+      disabled={saving}
+      onChange={e => setValue(e.target.value)}
+      onBlur={handleSave}
+    />
+  )
+}
+
+export function ReviewerWorkloadManager({ reviewers }: { reviewers: ReviewerWorkload[] }) {
+  const router = useRouter()
+  const [email, setEmail] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setAdding(true)
+    setError(null)
+
+    try {
+      await request('/api/admin/reviewers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      }, 'Failed to add reviewer')
+      setEmail('')
+      router.refresh()
+    } catch (err: any) {
+      setError(err.message || 'Failed to add reviewer')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handleRemove = async (reviewer: ReviewerWorkload) => {
+    if (!confirm(`Remove ${reviewer.name || reviewer.email} as a reviewer? Their open letters will be reassigned.`)) return
+
+    try {
+      await request(`/api/admin/reviewers/${reviewer.id}`, { method: 'DELETE' }, 'Failed to remove reviewer')
+      router.refresh()
+    } catch (err: any) {
+      console.error('Error:', err)
+      alert(err.message || 'Failed to remove reviewer')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Reviewer</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAdd} className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="reviewer-email">Account email</Label>
+              <Input
+                id="reviewer-email"
+                type="email"
+                required
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                placeholder="attorney@example.com"
+              />
+            </div>
+            <Button type="submit" disabled={adding || !email.trim()}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              {adding ? 'Adding...' : 'Add Reviewer'}
+            </Button>
+          </form>
+          {error && (
+            <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reviewers</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {reviewers.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">
+              No reviewers yet. Until one is added, every letter stays in the admin&apos;s review queue.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Reviewer</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Open</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">In review</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Capacity</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Available</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {reviewers.map(reviewer => (
+                    <tr key={reviewer.id}>
+                      <td className="px-4 py-3 text-sm">
+                        <a href={`/secure-admin-gateway/review?reviewer=${reviewer.id}`} className="font-medium hover:underline">
+                          {reviewer.name || reviewer.email}
+                        </a>
+                        {reviewer.name && <p className="text-xs text-muted-foreground">{reviewer.email}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-sm">{reviewer.openCount}</td>
+                      <td className="px-4 py-3 text-sm">{reviewer.underReviewCount}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <CapacityInput reviewer={reviewer} />
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <ReviewerAvailabilitySwitch reviewerId={reviewer.id} available={reviewer.available} />
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <Button size="sm" variant="outline" onClick={() => handleRemove(reviewer)}>
+                          <Trash2 className="h-3 w-3 mr-1" />
+                          Remove
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { CreditCard, Download, ExternalLink, Loader2 } from "lucide-react"
+import { findPlan, type PlanConfig } from "@/lib/billing/plans"
+import type { BillingInvoice, PlanChangeKind, PlanChangePreview } from "@/lib/billing/billing-portal"
+
+interface BillingPanelProps {
+  plans: PlanConfig[]
+  planType: string | null
+  cancelAtPeriodEnd: boolean
+  currentPeriodEnd: string | null
+}
+
+const CHANGE_DESCRIPTIONS: Record<PlanChangeKind, string> = {
+  upgrade: "The prorated difference is charged now and the extra letters are added to your balance.",
+  downgrade: "The lower price applies from your next invoice. Your letter balance is reduced to the new plan's allowance now.",
+  switch_to_one_time: "Your subscription ends at the close of this billing period. Remaining letters stay usable until then, and you can buy single letters afterwards.",
+  resume: "Your scheduled cancellation is removed and the plan renews as usual.",
+  checkout: "This plan is purchased through checkout. Unused single-letter credits carry over to the new subscription.",
+  none: "This is your current plan.",
+}
+
+const INVOICE_STATUS_STYLES: Record<string, string> = {
+  paid: "bg-green-100 text-green-800",
+  open: "bg-amber-100 text-amber-800",
+  uncollectible: "bg-red-100 text-red-800",
+  void: "bg-slate-100 text-slate-700",
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json()
+    return data?.error?.message || data?.error || fallback
+  } catch {
+    return fallback
+  }
+}
+
+function formatAmount(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(amount)
+}
+
+export function BillingPanel({ plans, planType, cancelAtPeriodEnd, currentPeriodEnd }: BillingPanelProps) {
+  const router = useRouter()
+  // Older subscriptions may store a legacy alias such as "monthly"
+  const currentPlanType = findPlan(plans, planType)?.planType ?? planType
+  const [invoices, setInvoices] = useState<BillingInvoice[]>([])
+  const [loadingInvoices, setLoadingInvoices] = useState(true)
+  const [selectedPlan, setSelectedPlan] = useState<string | null>(null)
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadInvoices = useCallback(async () => {
+    try {
+      const response = await fetch("/api/billing/invoices")
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to load invoices"))
+      }
+      const data = await response.json()
+      setInvoices(data.invoices || [])
+    } catch (err: any) {
+      setError(err.message || "Failed to load invoices")
+    } finally {
+      setLoadingInvoices(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadInvoices()
+  }, [loadInvoices])
+
+  const handleSelectPlan = async (nextPlan: string) => {
+    setSelectedPlan(nextPlan)
+    setPreview(null)
+    setError(null)
+    setNotice(null)
+    setBusy(true)
+
+    try {
+      const response = await fetch(`/api/billing/change-plan?planType=${encodeURIComponent(nextPlan)}`)
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to preview plan change"))
+      }
+      const data = await response.json()
+      setPreview(data.preview)
+    } catch (err: any) {
+      setError(err.message || "Failed to preview plan change")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleConfirmChange = async () => {
+    if (!preview) return
+
+    if (preview.kind === "checkout") {
+      router.push("/dashboard/subscription?upgrade=true#plans")
+      return
+    }
+
+    setBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/billing/change-plan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ planType: preview.toPlan }),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to change plan"))
+      }
+
+      setNotice("Your plan change was submitted. It can take a moment to appear here.")
+      setSelectedPlan(null)
+      setPreview(null)
+      router.refresh()
+      loadInvoices()
+    } catch (err: any) {
+      setError(err.message || "Failed to change plan")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleUpdatePaymentMethod = async () => {
+    setBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/billing/payment-method", { method: "POST" })
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to open billing portal"))
+      }
+      const data = await response.json()
+      window.location.href = data.url
+    } catch (err: any) {
+      setError(err.message || "Failed to open billing portal")
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Billing</h2>
+          {cancelAtPeriodEnd && currentPeriodEnd && (
+            <p className="text-sm text-warning mt-1">
+              Your subscription ends on {format(new Date(currentPeriodEnd), "MMM d, yyyy")}.
+            </p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleUpdatePaymentMethod} disabled={busy}>
+          <CreditCard className="h-4 w-4 mr-2" />
+          Update payment method
+        </Button>
+      </div>
+
+      {/* Plan change */}
+      <div>
+        <h3 className="font-semibold mb-3">Change plan</h3>
+        <div className="grid gap-3 md:grid-cols-3">
+          {plans.map((plan) => {
+            const isCurrent = plan.planType === currentPlanType
+            return (
+              <button
+                key={plan.planType}
+                type="button"
+                onClick={() => handleSelectPlan(plan.planType)}
+                disabled={busy || (isCurrent && !cancelAtPeriodEnd)}
+                className={`text-left p-4 rounded-lg border-2 transition-all disabled:opacity-60 ${
+                  selectedPlan === plan.planType ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{plan.name}</span>
+                  {isCurrent && <Badge variant="secondary">Current</Badge>}
+                </div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  ${plan.price} {plan.interval ? `per ${plan.interval}` : "one-time"} · {plan.letters}{" "}
+                  {plan.letters === 1 ? "letter" : "letters"}
+                </div>
+              </button>
+            )
+          })}
+        </div>
+
+        {selectedPlan && (
+          <div className="mt-4 p-4 rounded-lg border bg-muted/50 text-sm space-y-3">
+            {busy && !preview && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Calculating...
+              </div>
+            )}
+            {preview && (
+              <>
+                <p>{CHANGE_DESCRIPTIONS[preview.kind]}</p>
+                {preview.kind === "upgrade" && (
+                  <p className="font-medium">
+                    Charged now: {formatAmount(preview.prorationAmount, preview.currency)}
+                  </p>
+                )}
+                {preview.kind !== "none" && (
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={handleConfirmChange} disabled={busy}>
+                      {busy ? "Processing..." : preview.kind === "checkout" ? "Go to checkout" : "Confirm change"}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => { setSelectedPlan(null); setPreview(null) }} disabled={busy}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+        {notice && (
+          <div className="mt-3 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{notice}</div>
+        )}
+      </div>
+
+      {/* Invoices */}
+      <div>
+        <h3 className="font-semibold mb-3">Payment history</h3>
+        {loadingInvoices ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading invoices...
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground uppercase tracking-wider">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Description</th>
+                  <th className="py-2 pr-4">Amount</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2">Receipt</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {invoices.map((invoice) => (
+                  <tr key={invoice.id}>
+                    <td className="py-3 pr-4 whitespace-nowrap">{format(new Date(invoice.createdAt), "MMM d, yyyy")}</td>
+                    <td className="py-3 pr-4">{invoice.description || invoice.number}</td>
+                    <td className="py-3 pr-4 whitespace-nowrap">
+                      {formatAmount(invoice.status === "paid" ? invoice.amountPaid : invoice.amountDue, invoice.currency)}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <Badge variant="secondary" className={INVOICE_STATUS_STYLES[invoice.status || ""] || ""}>
+                        {invoice.status}
+                      </Badge>
+                    </td>
+                    <td className="py-3">
+                      <div className="flex gap-3">
+                        {invoice.hostedInvoiceUrl && (
+                          <a href={invoice.hostedInvoiceUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline">
+                            <ExternalLink className="h-3 w-3" /> {invoice.status === "open" ? "Pay" : "View"}
+                          </a>
+                        )}
+                        {invoice.invoicePdf && (
+                          <a href={invoice.invoicePdf} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline">
+                            <Download className="h-3 w-3" /> PDF
+                          </a>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
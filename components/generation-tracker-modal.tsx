@@ -1,12 +1,15 @@
 "use client"
 
 import { useEffect, useState } from "react"
-import { CheckCircle2, Circle, Loader2 } from "lucide-react"
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react"
 import { cn } from "@/lib/utils"
+import type { GenerationProgress, GenerationStage } from "@/lib/letters/generation-queue"
 
 interface GenerationTrackerModalProps {
   isOpen: boolean
-  isFinished: boolean
+  letterId: string | null
+  onComplete?: (progress: GenerationProgress) => void
+  onFailed?: (progress: GenerationProgress) => void
 }
 
 const STEPS = [
@@ -16,29 +19,60 @@ const STEPS = [
   { title: "Finalizing", description: "Polishing the document for review." },
 ]
 
-export function GenerationTrackerModal({ isOpen, isFinished }: GenerationTrackerModalProps) {
+// Index of the active step for each job stage
+const STAGE_STEP: Record<GenerationStage, number> = {
+  queued: 0,
+  analyzing: 1,
+  drafting: 2,
+  finalizing: 3,
+  completed: STEPS.length,
+  failed: 0,
+}
+
+export function GenerationTrackerModal({ isOpen, letterId, onComplete, onFailed }: GenerationTrackerModalProps) {
   const [currentStep, setCurrentStep] = useState(0)
+  const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
-    if (!isOpen) {
+    if (!isOpen || !letterId) {
       setCurrentStep(0)
+      setError(null)
       return
     }
 
-    if (isFinished) {
-      setCurrentStep(STEPS.length)
-      return
+    // Follow the generation job over Server-Sent Events
+    const source = new EventSource(`/api/letters/${letterId}/generation`)
+
+    const handleProgress = (event: MessageEvent) => {
+      const progress = JSON.parse(event.data) as GenerationProgress
+      if (progress.status === "failed") {
+        setError(progress.error || "Letter generation failed")
+        return
+      }
+      setCurrentStep((step) => Math.max(step, STAGE_STEP[progress.stage]))
     }
 
-    // Timeline simulation
-    const timers = [
-      setTimeout(() => setCurrentStep(1), 1500), // Step 1 after 1.5s
-      setTimeout(() => setCurrentStep(2), 4000), // Step 2 after 4s
-      setTimeout(() => setCurrentStep(3), 7000), // Step 3 after 7s
-    ]
+    const handleDone = (event: MessageEvent) => {
+      const progress = JSON.parse(event.data) as GenerationProgress
+      source.close()
+      if (progress.status === "completed") {
+        setCurrentStep(STEPS.length)
+        onComplete?.(progress)
+      } else {
+        setError(progress.error || "Letter generation failed")
+        onFailed?.(progress)
+      }
+    }
+
+    source.addEventListener("progress", handleProgress)
+    source.addEventListener("done", handleDone)
 
-    return () => timers.forEach(clearTimeout)
-  }, [isOpen, isFinished])
+    return () => {
+      source.removeEventListener("progress", handleProgress)
+      source.removeEventListener("done", handleDone)
+      source.close()
+    }
+  }, [isOpen, letterId, onComplete, onFailed])
 
   if (!isOpen) return null
 
@@ -50,6 +84,13 @@ export function GenerationTrackerModal({ isOpen, isFinished }: GenerationTracker
           <p className="text-sm text-muted-foreground">Please wait while we process your request...</p>
         </div>
 
+        {error && (
+          <div className="mb-6 flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            <XCircle className="mt-0.5 h-4 w-4 shrink-0" />
+            <span>{error}. Any letter credit used has been refunded.</span>
+          </div>
+        )}
+
         <div className="relative ml-4 space-y-8 before:absolute before:left-[11px] before:top-2 before:h-[calc(100%-16px)] before:w-[2px] before:bg-muted">
           {/* Animated Progress Line */}
           <div
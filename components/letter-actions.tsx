@@ -14,6 +14,8 @@ export function LetterActions({ letter }: { letter: Letter }) {
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [recipientEmail, setRecipientEmail] = useState("");
   const [emailMessage, setEmailMessage] = useState("");
+  const [exportFormat, setExportFormat] = useState<"pdf" | "docx">("pdf");
+  const [includeExhibits, setIncludeExhibits] = useState(false);
   const router = useRouter();
   const supabase = createClient();
 
@@ -45,60 +47,25 @@ export function LetterActions({ letter }: { letter: Letter }) {
     }
   };
 
-  const handleDownloadPDF = async () => {
+  const handleDownload = async () => {
     try {
-      // Dynamically import jsPDF to avoid SSR issues
-      const { jsPDF } = await import("jspdf");
-
-      const doc = new jsPDF();
-
-      // Set font
-      doc.setFont("times", "normal");
-
-      // Add Header
-      doc.setFontSize(12);
-      const date = new Date(letter.created_at).toLocaleDateString();
-      doc.text(date, 200, 20, { align: "right" });
-
-      doc.setFontSize(14);
-      doc.setFont("times", "bold");
-      doc.text(letter.title, 200, 30, { align: "right" });
-
-      // Add Content
-      doc.setFontSize(12);
-      doc.setFont("times", "normal");
-
-      const content = letter.final_content || letter.ai_draft_content || "";
-
-      // Split text to fit page width
-      const splitText = doc.splitTextToSize(content, 170);
-
-      let y = 50;
-
-      // Add text page by page
-      for (let i = 0; i < splitText.length; i++) {
-        if (y > 280) {
-          doc.addPage();
-          y = 20;
-        }
-        doc.text(splitText[i], 20, y);
-        y += 7;
-      }
-
-      // Add Footer
-      const pageCount = doc.getNumberOfPages();
-      for (let i = 1; i <= pageCount; i++) {
-        doc.setPage(i);
-        doc.setFontSize(10);
-        doc.setTextColor(100);
-        doc.text("Generated by Talk-To-My-Lawyer", 105, 290, {
-          align: "center",
-        });
-        doc.text(`Page ${i} of ${pageCount}`, 200, 290, { align: "right" });
+      // Rendered on the server with the letterhead and signature block; the
+      // document lists exhibits as enclosures, and the zip adds their files
+      const query = includeExhibits ? "?exhibits=include" : "";
+      const response = await fetch(`/api/letters/${letter.id}/${exportFormat}${query}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to generate ${exportFormat.toUpperCase()}`);
       }
 
-      // Save the PDF
-      doc.save(`${letter.title.replace(/[^a-z0-9]/gi, "_")}.pdf`);
+      // Letters without exhibits come back as the plain document
+      const extension = response.headers.get("Content-Type") === "application/zip" ? "zip" : exportFormat;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${letter.title.replace(/[^a-z0-9]/gi, "_")}.${extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
     } catch (err) {
       console.error("[v0] Download error:", err);
       alert("Failed to download letter");
@@ -122,16 +89,21 @@ export function LetterActions({ letter }: { letter: Letter }) {
         }),
       });
 
-      if (!response.ok) throw new Error("Failed to send email");
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to send email");
+      }
 
       const data = await response.json();
       alert(data.message || "Email sent successfully!");
       setShowEmailModal(false);
       setRecipientEmail("");
       setEmailMessage("");
-    } catch (err) {
+      // Shows the send in the letter's email delivery history
+      router.refresh();
+    } catch (err: any) {
       console.error("[v0] Email error:", err);
-      alert("Failed to send email");
+      alert(err.message || "Failed to send email");
     } finally {
       setLoading(false);
     }
@@ -148,9 +120,31 @@ export function LetterActions({ letter }: { letter: Letter }) {
 
         {letter.status === "approved" && (
           <>
-            <Button variant="outline" onClick={handleDownloadPDF}>
-              Download PDF
-            </Button>
+            <div className="flex">
+              <select
+                aria-label="Download format"
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as "pdf" | "docx")}
+                className="h-9 rounded-l-md border border-r-0 border-input bg-transparent px-3 text-sm"
+              >
+                <option value="pdf">PDF</option>
+                <option value="docx">Word (.docx)</option>
+              </select>
+              <Button variant="outline" className="rounded-l-none" onClick={handleDownload}>
+                Download
+              </Button>
+            </div>
+            <label
+              className="flex items-center gap-2 text-sm text-muted-foreground"
+              title="The letter lists exhibits as enclosures; tick this to download their files with it as a .zip"
+            >
+              <input
+                type="checkbox"
+                checked={includeExhibits}
+                onChange={(e) => setIncludeExhibits(e.target.checked)}
+              />
+              Include exhibit files (.zip)
+            </label>
 
             <Button variant="outline" onClick={() => setShowEmailModal(true)}>
               Send via Email
@@ -0,0 +1,170 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Download, Loader2, Paperclip, Trash2, Upload } from "lucide-react"
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_LETTER,
+  formatFileSize,
+  validateAttachmentFile,
+} from "@/lib/letters/exhibits"
+import type { LetterAttachmentWithUrl } from "@/lib/letters/attachments"
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json()
+    return data?.error?.message || data?.error || fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Upload one evidence file to a letter; shared with the intake form
+ */
+export async function uploadLetterAttachment(letterId: string, file: File): Promise<void> {
+  const formData = new FormData()
+  formData.append("file", file)
+
+  const response = await fetch(`/api/letters/${letterId}/attachments`, {
+    method: "POST",
+    body: formData,
+  })
+  if (!response.ok) throw new Error(await readError(response, `Failed to upload ${file.name}`))
+}
+
+export function LetterAttachments({ letterId }: { letterId: string }) {
+  const [attachments, setAttachments] = useState<LetterAttachmentWithUrl[]>([])
+  const [canEdit, setCanEdit] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/letters/${letterId}/attachments`)
+      if (!response.ok) throw new Error(await readError(response, "Failed to load attachments"))
+
+      const data = await response.json()
+      setAttachments(data.attachments)
+      setCanEdit(Boolean(data.canEdit))
+      setError(null)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    loadAttachments()
+  }, [loadAttachments])
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setIsUploading(true)
+    setError(null)
+
+    try {
+      let count = attachments.length
+      for (const file of Array.from(files)) {
+        const problem = validateAttachmentFile(file, count)
+        if (problem) throw new Error(problem)
+        await uploadLetterAttachment(letterId, file)
+        count++
+      }
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsUploading(false)
+      if (fileInput.current) fileInput.current.value = ""
+      await loadAttachments()
+    }
+  }
+
+  const handleRemove = async (attachment: LetterAttachmentWithUrl) => {
+    if (!confirm(`Remove ${attachment.fileName}? Later exhibits will be relabelled.`)) return
+
+    try {
+      const response = await fetch(`/api/letters/${letterId}/attachments/${attachment.id}`, { method: "DELETE" })
+      if (!response.ok) throw new Error(await readError(response, "Failed to remove attachment"))
+      await loadAttachments()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Paperclip className="h-5 w-5" />
+          Evidence &amp; Exhibits
+        </h2>
+        {canEdit && attachments.length < MAX_ATTACHMENTS_PER_LETTER && (
+          <>
+            <input
+              ref={fileInput}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button size="sm" variant="outline" onClick={() => fileInput.current?.click()} disabled={isUploading}>
+              {isUploading ? <Loader2 className="mr-2 h-3 w-3 animate-spin" /> : <Upload className="mr-2 h-3 w-3" />}
+              Add files
+            </Button>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading attachments...
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {canEdit
+            ? `No attachments. Add invoices, contracts, photos or screenshots (up to ${formatFileSize(MAX_ATTACHMENT_BYTES)} each).`
+            : "No attachments."}
+        </p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between gap-3 p-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <Badge variant="outline">{attachment.label}</Badge>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{attachment.fileName}</p>
+                  <p className="text-xs text-muted-foreground">{formatFileSize(attachment.sizeBytes)}</p>
+                </div>
+              </div>
+              <div className="flex gap-1">
+                {attachment.url && (
+                  <Button asChild variant="ghost" size="sm">
+                    <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                )}
+                {canEdit && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(attachment)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
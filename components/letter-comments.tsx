@@ -0,0 +1,250 @@
+"use client"
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2, MessageSquare, Reply } from "lucide-react"
+import { splitParagraphs, type ParagraphMention } from "@/lib/letters/paragraphs"
+import type { LetterCommentAuthorRole, LetterCommentWithAuthor } from "@/lib/letters/comments"
+
+interface LetterCommentsProps {
+  letterId: string
+  /** Letter text the viewer can see; enables the paragraph mention picker */
+  content?: string | null
+}
+
+const ROLE_LABELS: Record<LetterCommentAuthorRole, string> = {
+  subscriber: "Subscriber",
+  admin: "Attorney",
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json()
+    return data?.error?.message || data?.error || fallback
+  } catch {
+    return fallback
+  }
+}
+
+// Render @pN mentions as chips showing the referenced paragraph on hover
+function CommentBody({ body, mentions }: { body: string; mentions: ParagraphMention[] }) {
+  const parts = body.split(/(@p\d{1,3}\b)/gi)
+  return (
+    <p className="text-sm whitespace-pre-wrap mt-1">
+      {parts.map((part, index) => {
+        const match = part.match(/^@p(\d{1,3})$/i)
+        const mention = match ? mentions.find((m) => m.paragraph === Number(match[1])) : undefined
+        if (!mention) return <Fragment key={index}>{part}</Fragment>
+        return (
+          <span
+            key={index}
+            title={mention.excerpt}
+            className="rounded bg-primary/10 px-1 font-medium text-primary"
+          >
+            ¶{mention.paragraph}
+          </span>
+        )
+      })}
+    </p>
+  )
+}
+
+function CommentComposer({
+  paragraphs,
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  paragraphs: string[]
+  placeholder: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<boolean>
+  onCancel?: () => void
+}) {
+  const [body, setBody] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return
+    setIsSubmitting(true)
+    const posted = await onSubmit(body)
+    setIsSubmitting(false)
+    if (posted) setBody("")
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+        maxLength={5000}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {paragraphs.length > 0 ? (
+          <Select
+            value=""
+            onValueChange={(value) => setBody((current) => `${current}${current && !current.endsWith(" ") ? " " : ""}@p${value} `)}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Mention a paragraph" />
+            </SelectTrigger>
+            <SelectContent>
+              {paragraphs.map((paragraph, index) => (
+                <SelectItem key={index} value={String(index + 1)}>
+                  ¶{index + 1} · {paragraph.substring(0, 60)}{paragraph.length > 60 ? "…" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || !body.trim()}>
+            {isSubmitting && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function LetterComments({ letterId, content }: LetterCommentsProps) {
+  const [comments, setComments] = useState<LetterCommentWithAuthor[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const paragraphs = useMemo(() => splitParagraphs(content), [content])
+
+  const loadComments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/letters/${letterId}/comments`)
+      if (!response.ok) throw new Error(await readError(response, "Failed to load comments"))
+
+      const data = await response.json()
+      setComments(data.comments)
+      setError(null)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    loadComments()
+  }, [loadComments])
+
+  const postComment = async (body: string, parentId?: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/letters/${letterId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body, parentId }),
+      })
+      if (!response.ok) throw new Error(await readError(response, "Failed to post comment"))
+
+      setReplyingTo(null)
+      await loadComments()
+      return true
+    } catch (err: any) {
+      setError(err.message)
+      return false
+    }
+  }
+
+  const threads = comments.filter((comment) => !comment.parent_id)
+  const repliesFor = (id: string) => comments.filter((comment) => comment.parent_id === id)
+
+  const renderComment = (comment: LetterCommentWithAuthor) => (
+    <div>
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-sm">
+          {comment.author?.full_name || ROLE_LABELS[comment.author_role]}
+        </span>
+        <Badge variant="outline">{ROLE_LABELS[comment.author_role]}</Badge>
+        {comment.kind === "change_request" && <Badge variant="secondary">Changes requested</Badge>}
+        <span className="text-xs text-muted-foreground">
+          {new Date(comment.created_at).toLocaleString()}
+        </span>
+      </div>
+      <CommentBody body={comment.body} mentions={comment.mentions} />
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold flex items-center gap-2">
+        <MessageSquare className="h-5 w-5" />
+        Comments
+      </h2>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading comments...
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Start the conversation below.</p>
+      ) : (
+        <div className="space-y-4">
+          {threads.map((thread) => (
+            <div key={thread.id} className="rounded-lg border p-4 space-y-3">
+              {renderComment(thread)}
+
+              {repliesFor(thread.id).map((reply) => (
+                <div key={reply.id} className="ml-6 border-l-2 pl-4">
+                  {renderComment(reply)}
+                </div>
+              ))}
+
+              {replyingTo === thread.id ? (
+                <div className="ml-6">
+                  <CommentComposer
+                    paragraphs={paragraphs}
+                    placeholder="Write a reply..."
+                    submitLabel="Reply"
+                    onSubmit={(body) => postComment(body, thread.id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              ) : (
+                <Button variant="ghost" size="sm" onClick={() => setReplyingTo(thread.id)}>
+                  <Reply className="mr-2 h-3 w-3" />
+                  Reply
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CommentComposer
+        paragraphs={paragraphs}
+        placeholder={paragraphs.length > 0 ? "Add a comment. Use @p3 to refer to paragraph 3." : "Add a comment..."}
+        submitLabel="Comment"
+        onSubmit={(body) => postComment(body)}
+      />
+    </div>
+  )
+}
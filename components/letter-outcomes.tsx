@@ -0,0 +1,188 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { CalendarClock, Loader2 } from "lucide-react"
+import {
+  LETTER_OUTCOMES,
+  canFollowUp,
+  daysUntilDeadline,
+  getDeadlineState,
+  type DeadlineLetter,
+  type LetterOutcome,
+} from "@/lib/letters/outcomes"
+import type { LetterOutcomeRow } from "@/lib/letters/case-tracking"
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json()
+    return data?.error?.message || data?.error || fallback
+  } catch {
+    return fallback
+  }
+}
+
+function deadlineText(letter: DeadlineLetter): string {
+  if (!letter.sent_at) return "Outcome tracking starts once the letter is emailed or mailed from here."
+  if (!letter.response_deadline) return `Sent ${format(new Date(letter.sent_at), "MMM d, yyyy")}. No response deadline was set.`
+
+  const deadline = format(new Date(`${letter.response_deadline}T00:00:00`), "MMM d, yyyy")
+  const days = daysUntilDeadline(letter.response_deadline)
+  switch (getDeadlineState(letter)) {
+    case "resolved":
+      return `Resolved. The response deadline was ${deadline}.`
+    case "overdue":
+      return `The response deadline of ${deadline} has passed.`
+    case "due_soon":
+      return days === 0 ? `Response due today (${deadline}).` : `Response due in ${days} day${days === 1 ? "" : "s"} (${deadline}).`
+    default:
+      return `Response due ${deadline}.`
+  }
+}
+
+export function LetterOutcomes({ letterId, letter, canEdit }: {
+  letterId: string
+  letter: DeadlineLetter
+  canEdit: boolean
+}) {
+  const router = useRouter()
+  const [outcomes, setOutcomes] = useState<LetterOutcomeRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [selected, setSelected] = useState<LetterOutcome | null>(null)
+  const [notes, setNotes] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadOutcomes = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/letters/${letterId}/outcomes`)
+      if (!response.ok) throw new Error(await readError(response, "Failed to load outcomes"))
+
+      const data = await response.json()
+      setOutcomes(data.outcomes)
+      setError(null)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    loadOutcomes()
+  }, [loadOutcomes])
+
+  const handleSave = async () => {
+    if (!selected) return
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/letters/${letterId}/outcomes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ outcome: selected, notes }),
+      })
+      if (!response.ok) throw new Error(await readError(response, "Failed to record outcome"))
+
+      setSelected(null)
+      setNotes("")
+      await loadOutcomes()
+      router.refresh()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const state = getDeadlineState(letter)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Recipient Response
+        </h2>
+        {letter.outcome && <Badge variant="outline">{LETTER_OUTCOMES[letter.outcome].label}</Badge>}
+      </div>
+
+      <p className={`text-sm ${state === "overdue" ? "text-destructive" : state === "due_soon" ? "text-warning" : "text-muted-foreground"}`}>
+        {deadlineText(letter)}
+      </p>
+
+      {canEdit && canFollowUp(letter) && (
+        <div className="bg-warning/10 border border-warning/20 rounded-lg p-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm">No resolution yet. Send a follow-up letter pre-filled from this one.</p>
+          <Button asChild size="sm">
+            <Link href={`/dashboard/letters/new?followUp=${letterId}`}>Follow-up Letter</Link>
+          </Button>
+        </div>
+      )}
+
+      {canEdit && letter.sent_at && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">How did the recipient respond?</p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(LETTER_OUTCOMES) as LetterOutcome[]).map((key) => (
+              <Button
+                key={key}
+                type="button"
+                size="sm"
+                variant={selected === key ? "default" : "outline"}
+                title={LETTER_OUTCOMES[key].description}
+                onClick={() => setSelected(selected === key ? null : key)}
+              >
+                {LETTER_OUTCOMES[key].label}
+              </Button>
+            ))}
+          </div>
+          {selected && (
+            <>
+              <Textarea
+                rows={2}
+                maxLength={2000}
+                placeholder="Notes (optional), e.g. amount received or what they said"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                Record {LETTER_OUTCOMES[selected].label}
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading outcomes...
+        </div>
+      ) : outcomes.length > 0 && (
+        <ul className="divide-y rounded-lg border">
+          {outcomes.map((outcome) => (
+            <li key={outcome.id} className="p-3 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium">{LETTER_OUTCOMES[outcome.outcome].label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(outcome.created_at), "MMM d, yyyy")}
+                </span>
+              </div>
+              {outcome.notes && <p className="text-muted-foreground mt-1 whitespace-pre-wrap">{outcome.notes}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { MAILING_METHODS, normalizeMailAddress } from "@/lib/mail/delivery"
+import type { MailingMethod } from "@/lib/mail/types"
+
+export function MailLetterButton({ letterId, recipientName }: { letterId: string; recipientName?: string }) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [method, setMethod] = useState<MailingMethod>("certified_return_receipt")
+  const [address, setAddress] = useState({
+    name: recipientName ?? "",
+    line1: "",
+    line2: "",
+    city: "",
+    state: "",
+    postalCode: "",
+  })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (key: keyof typeof address, value: string) =>
+    setAddress((prev) => ({ ...prev, [key]: value }))
+
+  const handleSubmit = async () => {
+    const checked = normalizeMailAddress(address)
+    if (typeof checked === "string") {
+      setError(checked)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/letters/${letterId}/mail`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ method, address: checked }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error?.message || data?.error || "Failed to mail letter")
+      }
+
+      setOpen(false)
+      router.refresh()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Send by Mail</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Send by Mail</DialogTitle>
+          <DialogDescription>
+            We print your approved letter, with its exhibit list, and post it to the address below. Certified methods give you proof of delivery.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Mailing method</Label>
+            <div className="space-y-2">
+              {(Object.keys(MAILING_METHODS) as MailingMethod[]).map((key) => (
+                <label key={key} className="flex items-start gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="mailingMethod"
+                    value={key}
+                    checked={method === key}
+                    onChange={() => setMethod(key)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium">{MAILING_METHODS[key].label}</span>
+                    <span className="block text-muted-foreground">{MAILING_METHODS[key].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-6">
+            <div className="space-y-1 md:col-span-6">
+              <Label htmlFor="mail-name">Recipient</Label>
+              <Input id="mail-name" value={address.name} onChange={(e) => update("name", e.target.value)} />
+            </div>
+            <div className="space-y-1 md:col-span-6">
+              <Label htmlFor="mail-line1">Street address</Label>
+              <Input id="mail-line1" value={address.line1} onChange={(e) => update("line1", e.target.value)} />
+            </div>
+            <div className="space-y-1 md:col-span-6">
+              <Label htmlFor="mail-line2">Apartment, suite, etc. (optional)</Label>
+              <Input id="mail-line2" value={address.line2} onChange={(e) => update("line2", e.target.value)} />
+            </div>
+            <div className="space-y-1 md:col-span-3">
+              <Label htmlFor="mail-city">City</Label>
+              <Input id="mail-city" value={address.city} onChange={(e) => update("city", e.target.value)} />
+            </div>
+            <div className="space-y-1 md:col-span-1">
+              <Label htmlFor="mail-state">State</Label>
+              <Input id="mail-state" maxLength={2} value={address.state} onChange={(e) => update("state", e.target.value.toUpperCase())} />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="mail-zip">ZIP</Label>
+              <Input id="mail-zip" maxLength={10} value={address.postalCode} onChange={(e) => update("postalCode", e.target.value)} />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Mail Letter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
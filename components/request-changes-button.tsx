@@ -0,0 +1,84 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+
+export function RequestChangesButton({ letterId }: { letterId: string }) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [changes, setChanges] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/letters/${letterId}/request-changes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ changes }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error?.message || "Failed to request changes")
+      }
+
+      setOpen(false)
+      setChanges("")
+      router.refresh()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Request Changes</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Changes</DialogTitle>
+          <DialogDescription>
+            Your letter will go back to attorney review with these notes. Use @p2 to refer to paragraph 2.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="requestedChanges">Requested changes</Label>
+          <Textarea
+            id="requestedChanges"
+            value={changes}
+            onChange={(e) => setChanges(e.target.value)}
+            rows={5}
+            maxLength={5000}
+            placeholder="Describe what should be changed..."
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !changes.trim()}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send to Attorney
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -22,6 +22,8 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
   const [aiImproving, setAiImproving] = useState(false)
   const [aiInstruction, setAiInstruction] = useState('')
   const [showAiInput, setShowAiInput] = useState(false)
+  // The last AI suggestion, so approving it unchanged is recorded as an AI version
+  const [aiSuggestion, setAiSuggestion] = useState<string | null>(null)
   const router = useRouter()
 
   // Helper function to convert HTML to plain text for API
@@ -73,6 +75,7 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
       // Convert plain text to HTML for rich text editor
       const htmlContent = `<p>${improvedContent.replace(/\n/g, '</p><p>')}</p>`
       setFinalContent(htmlContent)
+      setAiSuggestion(htmlContent)
       setAiInstruction('')
       setShowAiInput(false)
     } catch (error: any) {
@@ -103,7 +106,11 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
         : `/api/letters/${letter.id}/reject`
       
       const body = action === 'approve'
-        ? { finalContent: htmlToPlainText(finalContent), reviewNotes }
+        ? {
+            finalContent: htmlToPlainText(finalContent),
+            reviewNotes,
+            ...(finalContent === aiSuggestion && { contentSource: 'ai_improve' })
+          }
         : { rejectionReason, reviewNotes }
 
       const response = await fetch(endpoint, {
@@ -5,37 +5,17 @@ import { useRouter, useSearchParams } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
+import { planPriceSuffix, type PlanConfig } from '@/lib/billing/plans'
+import { couponDiscount, validateCoupon } from '@/lib/billing/coupons'
 
-const PLANS = [
-  {
-    id: 'one_time',
-    name: 'Single Letter',
-    price: 299,
-    credits: 1,
-    description: 'One-time purchase',
-    features: ['1 Legal Letter', 'Attorney Review', 'PDF Download', 'Email Delivery']
-  },
-  {
-    id: 'standard_4_month',
-    name: 'Monthly Plan',
-    price: 299,
-    credits: 4,
-    description: '4 letters per month',
-    features: ['4 Legal Letters per month', 'Attorney Review', 'Priority Support', 'Monthly billing'],
-    popular: true
-  },
-  {
-    id: 'premium_8_month',
-    name: 'Yearly Plan',
-    price: 599,
-    credits: 8,
-    description: '8 letters per year',
-    features: ['8 Legal Letters per year', 'Attorney Review', 'Priority Support', 'Annual billing (Save $1988)', 'Best Value']
-  }
-]
+interface SubscriptionCardProps {
+  plans: PlanConfig[]
+}
 
-export function SubscriptionCard() {
-  const [selectedPlan, setSelectedPlan] = useState('standard_4_month')
+export function SubscriptionCard({ plans }: SubscriptionCardProps) {
+  const [selectedPlan, setSelectedPlan] = useState(
+    () => (plans.find(p => p.isPopular) ?? plans[0])?.planType ?? ''
+  )
   const [couponCode, setCouponCode] = useState('')
   const [couponApplied, setCouponApplied] = useState(false)
   const [discount, setDiscount] = useState(0)
@@ -61,37 +41,19 @@ export function SubscriptionCard() {
     setError(null)
 
     try {
-      // Special handling for TALK3 coupon (100% discount, no database lookup)
-      if (coupon.toUpperCase() === 'TALK3') {
-        const plan = PLANS.find(p => p.id === selectedPlan)
-        if (plan) {
-          setDiscount(plan.price) // 100% discount
-          setCouponApplied(true)
-          setError(null)
-        }
-        setLoading(false)
-        return
-      }
-
-      // Check employee coupons (supports special characters)
-      const { data, error } = await supabase
-        .from('employee_coupons')
-        .select('*')
-        .eq('code', coupon)
-        .eq('is_active', true)
-        .single()
+      // Same campaign rules checkout enforces (expiry, caps, plan, first purchase)
+      const result = await validateCoupon(supabase, coupon, { planType: selectedPlan })
 
-      if (error || !data) {
-        setError('Invalid coupon code')
+      if (!result.isValid) {
+        setError(result.message || 'Invalid coupon code')
         setCouponApplied(false)
         setDiscount(0)
         return
       }
 
-      const plan = PLANS.find(p => p.id === selectedPlan)
+      const plan = plans.find(p => p.planType === selectedPlan)
       if (plan) {
-        const discountAmount = (plan.price * data.discount_percent) / 100
-        setDiscount(discountAmount)
+        setDiscount(couponDiscount(plan.price, result))
         setCouponApplied(true)
         setError(null)
       }
@@ -103,6 +65,15 @@ export function SubscriptionCard() {
     }
   }
 
+  // Coupons can be limited to certain plans, so a new plan needs the code re-applied
+  const handleSelectPlan = (planType: string) => {
+    setSelectedPlan(planType)
+    if (couponApplied) {
+      setCouponApplied(false)
+      setDiscount(0)
+    }
+  }
+
   const handleSubscribe = async () => {
     setLoading(true)
     setError(null)
@@ -147,7 +118,7 @@ export function SubscriptionCard() {
     }
   }
 
-  const selectedPlanData = PLANS.find(p => p.id === selectedPlan)
+  const selectedPlanData = plans.find(p => p.planType === selectedPlan)
   const finalPrice = selectedPlanData ? (selectedPlanData.price ?? 0) - discount : 0
   const isTestMode = process.env.NEXT_PUBLIC_TEST_MODE === 'true'
 
@@ -169,25 +140,28 @@ export function SubscriptionCard() {
       )}
       
       <div className="grid md:grid-cols-3 gap-6">
-        {PLANS.map((plan) => (
+        {plans.map((plan) => (
           <button
-            key={plan.id}
-            onClick={() => setSelectedPlan(plan.id)}
+            key={plan.planType}
+            onClick={() => handleSelectPlan(plan.planType)}
             className={`text-left p-6 rounded-lg border-2 transition-all ${
-              selectedPlan === plan.id
+              selectedPlan === plan.planType
                 ? 'border-blue-600 bg-blue-50'
                 : 'border-slate-200 bg-white hover:border-blue-300'
-            } ${plan.popular ? 'ring-2 ring-blue-600' : ''}`}
+            } ${plan.isPopular ? 'ring-2 ring-blue-600' : ''}`}
           >
-            {plan.popular && (
+            {plan.isPopular && (
               <div className="inline-block px-3 py-1 text-xs font-semibold bg-blue-600 text-white rounded-full mb-2">
                 Most Popular
               </div>
             )}
             <h3 className="text-xl font-semibold mb-2">{plan.name}</h3>
-            <div className="text-3xl font-bold mb-1">${plan.price}</div>
-            <div className="text-sm font-medium text-blue-600 mb-2">{plan.credits} {plan.credits === 1 ? 'Letter' : 'Letters'}</div>
-            <p className="text-sm text-slate-600 mb-4">{plan.description}</p>
+            <div className="text-3xl font-bold mb-1">
+              ${plan.price}
+              <span className="text-base font-normal text-slate-500">{planPriceSuffix(plan)}</span>
+            </div>
+            <div className="text-sm font-medium text-blue-600 mb-2">{plan.letters} {plan.letters === 1 ? 'Letter' : 'Letters'}</div>
+            {plan.description && <p className="text-sm text-slate-600 mb-4">{plan.description}</p>}
             <ul className="space-y-2">
               {plan.features.map((feature, idx) => (
                 <li key={idx} className="flex items-start gap-2 text-sm">
@@ -251,7 +225,7 @@ export function SubscriptionCard() {
           </div>
           <div className="flex justify-between">
             <span>Credits Included</span>
-            <span className="font-medium text-blue-600">{selectedPlanData?.credits} {selectedPlanData?.credits === 1 ? 'Letter' : 'Letters'}</span>
+            <span className="font-medium text-blue-600">{selectedPlanData?.letters} {selectedPlanData?.letters === 1 ? 'Letter' : 'Letters'}</span>
           </div>
           <div className="flex justify-between">
             <span>Plan Price</span>
@@ -268,7 +242,7 @@ export function SubscriptionCard() {
             <span>${finalPrice.toFixed(2)}</span>
           </div>
         </div>
-        <Button onClick={handleSubscribe} disabled={loading} className="w-full" size="lg">
+        <Button onClick={handleSubscribe} disabled={loading || !selectedPlanData} className="w-full" size="lg">
           {loading ? 'Processing...' : finalPrice === 0 ? 'Get Started' : 'Subscribe Now'}
         </Button>
         <p className="text-xs text-slate-500 text-center mt-3">
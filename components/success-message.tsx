@@ -6,18 +6,14 @@ import { useEffect, useState } from 'react'
 export default function SuccessMessage() {
   const searchParams = useSearchParams()
   const [message, setMessage] = useState<string | null>(null)
-  const [type, setType] = useState<'success' | 'test' | 'talk3'>('success')
+  const [type, setType] = useState<'success' | 'test'>('success')
 
   useEffect(() => {
     const success = searchParams.get('success')
     const test = searchParams.get('test')
-    const talk3 = searchParams.get('talk3')
 
     if (success === 'true') {
-      if (talk3 === 'true') {
-        setMessage('🎉 TALK3 coupon applied! Your free subscription is now active.')
-        setType('talk3')
-      } else if (test === 'true') {
+      if (test === 'true') {
         setMessage('✅ TEST MODE: Subscription created successfully! (This is a test transaction)')
         setType('test')
       } else {
@@ -30,7 +26,6 @@ export default function SuccessMessage() {
         const url = new URL(window.location.href)
         url.searchParams.delete('success')
         url.searchParams.delete('test')
-        url.searchParams.delete('talk3')
         window.history.replaceState({}, '', url.toString())
       }, 3000)
 
@@ -40,9 +35,7 @@ export default function SuccessMessage() {
 
   if (!message) return null
 
-  const bgColor = type === 'talk3'
-    ? 'bg-gradient-to-r from-blue-500 to-cyan-500 text-white'
-    : type === 'test'
+  const bgColor = type === 'test'
     ? 'bg-gradient-to-r from-blue-500 to-cyan-500 text-white'
     : 'bg-gradient-to-r from-green-500 to-emerald-500 text-white'
 
@@ -7,73 +7,12 @@ import { FileText, CheckCheck, Scale, Zap } from "lucide-react";
 import { motion } from "motion/react";
 import { useRef, useState } from "react";
 import Link from "next/link";
+import { usePlans } from "@/hooks/use-plans";
+import { planPriceSuffix } from "@/lib/billing/plans";
 
-const plans = [
-  {
-    name: "Single Letter",
-    description:
-      "Perfect for one-time legal needs. Get a professional letter without commitment.",
-    price: 299,
-    yearlyPrice: 299,
-    buttonText: "Get Started",
-    buttonVariant: "outline" as const,
-    features: [
-      { text: "1 Professional Legal Letter", icon: <FileText size={20} /> },
-      { text: "Attorney Review Included", icon: <Scale size={20} /> },
-      { text: "PDF Download", icon: <CheckCheck size={20} /> },
-    ],
-    includes: [
-      "Includes:",
-      "AI-powered draft",
-      "Professional formatting",
-      "Email delivery",
-      "48-hour turnaround",
-    ],
-  },
-  {
-    name: "Monthly Plan",
-    description:
-      "Best value for ongoing legal communication needs with 4 letters per month.",
-    price: 299,
-    yearlyPrice: 299,
-    buttonText: "Get Started",
-    buttonVariant: "default" as const,
-    popular: true,
-    features: [
-      { text: "4 Letters Per Month", icon: <FileText size={20} /> },
-      { text: "Attorney Review", icon: <Scale size={20} /> },
-      { text: "Priority Support", icon: <Zap size={20} /> },
-    ],
-    includes: [
-      "Everything in Single Letter, plus:",
-      "Cancel anytime",
-      "Roll over unused letters",
-      "Priority queue",
-      "24-hour turnaround",
-    ],
-  },
-  {
-    name: "Annual Plan",
-    description:
-      "Maximum value with 8 letters per year. Save 50% compared to monthly.",
-    price: 599,
-    yearlyPrice: 599,
-    buttonText: "Get Started",
-    buttonVariant: "outline" as const,
-    features: [
-      { text: "8 Letters Per Year", icon: <FileText size={20} /> },
-      { text: "Attorney Review", icon: <Scale size={20} /> },
-      { text: "Premium Support", icon: <Zap size={20} /> },
-    ],
-    includes: [
-      "Everything in Monthly, plus:",
-      "50% cost savings",
-      "Custom templates",
-      "Dedicated support",
-      "12-hour turnaround",
-    ],
-  },
-];
+// The first three features get an icon on the card; the rest are listed under "Includes"
+const FEATURE_ICONS = [<FileText size={20} />, <Scale size={20} />, <Zap size={20} />];
+const HIGHLIGHTED_FEATURES = FEATURE_ICONS.length;
 
 const PricingSwitch = ({ onSwitch }: { onSwitch: (value: string) => void }) => {
   const [selected, setSelected] = useState("0");
@@ -133,6 +72,7 @@ const PricingSwitch = ({ onSwitch }: { onSwitch: (value: string) => void }) => {
 
 export default function PricingSection() {
   const [isSubscription, setIsSubscription] = useState(false);
+  const { plans } = usePlans();
   const pricingRef = useRef<HTMLDivElement | null>(null);
 
   const revealVariants = {
@@ -215,7 +155,7 @@ export default function PricingSection() {
       <div className="grid md:grid-cols-3 max-w-7xl gap-4 py-6 mx-auto relative z-10">
         {plans.map((plan, index) => (
           <TimelineContent
-            key={plan.name}
+            key={plan.planType}
             as="div"
             animationNum={4 + index}
             timelineRef={pricingRef}
@@ -223,7 +163,7 @@ export default function PricingSection() {
           >
             <Card
               className={`relative border-neutral-200 ${
-                plan.popular ? "ring-2 ring-[#199df4] bg-sky-50" : "bg-white "
+                plan.isPopular ? "ring-2 ring-[#199df4] bg-sky-50" : "bg-white "
               }`}
             >
               <CardHeader className="text-left">
@@ -231,7 +171,7 @@ export default function PricingSection() {
                   <h3 className="text-3xl font-semibold text-gray-900 mb-2">
                     {plan.name}
                   </h3>
-                  {plan.popular && (
+                  {plan.isPopular && (
                     <div className="">
                       <span className="bg-[#199df4] text-white px-3 py-1 rounded-full text-sm font-medium">
                         Popular
@@ -239,7 +179,9 @@ export default function PricingSection() {
                     </div>
                   )}
                 </div>
-                <p className="text-sm text-gray-600 mb-4">{plan.description}</p>
+                {plan.description && (
+                  <p className="text-sm text-gray-600 mb-4">{plan.description}</p>
+                )}
                 <div className="flex items-baseline">
                   <span className="text-4xl font-semibold text-gray-900">
                     $
@@ -249,7 +191,7 @@ export default function PricingSection() {
                     />
                   </span>
                   <span className="text-gray-600 ml-1">
-                    {plan.name === "Single Letter" ? "/letter" : plan.name === "Monthly Plan" ? "/month" : "/year"}
+                    {planPriceSuffix(plan)}
                   </span>
                 </div>
               </CardHeader>
@@ -258,44 +200,44 @@ export default function PricingSection() {
                 <Link href="/auth/signup">
                   <button
                     className={`w-full mb-6 p-4 text-xl rounded-xl transition-all duration-300 ${
-                      plan.popular
+                      plan.isPopular
                         ? "bg-gradient-to-t from-[#0d8ae0] to-[#199df4] shadow-lg shadow-[#199df4]/40 border border-[#4facfe] text-white hover:shadow-xl hover:scale-105"
-                        : plan.buttonVariant === "outline"
-                          ? "bg-linear-to-t from-neutral-900 to-neutral-600  shadow-lg shadow-neutral-900 border border-neutral-700 text-white hover:shadow-xl hover:scale-105"
-                          : ""
+                        : "bg-linear-to-t from-neutral-900 to-neutral-600  shadow-lg shadow-neutral-900 border border-neutral-700 text-white hover:shadow-xl hover:scale-105"
                     }`}
                   >
-                    {plan.buttonText}
+                    Get Started
                   </button>
                 </Link>
                 <ul className="space-y-2 font-semibold py-5">
-                  {plan.features.map((feature, featureIndex) => (
+                  {plan.features.slice(0, HIGHLIGHTED_FEATURES).map((feature, featureIndex) => (
                     <li key={featureIndex} className="flex items-center">
                       <span className="text-neutral-800 grid place-content-center mt-0.5 mr-3">
-                        {feature.icon}
+                        {FEATURE_ICONS[featureIndex]}
                       </span>
                       <span className="text-sm text-gray-600">
-                        {feature.text}
+                        {feature}
                       </span>
                     </li>
                   ))}
                 </ul>
 
-                <div className="space-y-3 pt-4 border-t border-neutral-200">
-                  <h4 className="font-medium text-base text-gray-900 mb-3">
-                    {plan.includes[0]}
-                  </h4>
-                  <ul className="space-y-2 font-semibold">
-                    {plan.includes.slice(1).map((feature, featureIndex) => (
-                      <li key={featureIndex} className="flex items-center">
-                        <span className="h-6 w-6 bg-sky-50 border border-[#199df4] rounded-full grid place-content-center mt-0.5 mr-3">
-                          <CheckCheck className="h-4 w-4 text-[#199df4] " />
-                        </span>
-                        <span className="text-sm text-gray-600">{feature}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
+                {plan.features.length > HIGHLIGHTED_FEATURES && (
+                  <div className="space-y-3 pt-4 border-t border-neutral-200">
+                    <h4 className="font-medium text-base text-gray-900 mb-3">
+                      Includes:
+                    </h4>
+                    <ul className="space-y-2 font-semibold">
+                      {plan.features.slice(HIGHLIGHTED_FEATURES).map((feature, featureIndex) => (
+                        <li key={featureIndex} className="flex items-center">
+                          <span className="h-6 w-6 bg-sky-50 border border-[#199df4] rounded-full grid place-content-center mt-0.5 mr-3">
+                            <CheckCheck className="h-4 w-4 text-[#199df4] " />
+                          </span>
+                          <span className="text-sm text-gray-600">{feature}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TimelineContent>
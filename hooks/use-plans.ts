@@ -0,0 +1,32 @@
+import * as React from 'react'
+import type { PlanConfig } from '@/lib/billing/plans'
+
+/**
+ * Plans offered on the public pricing pages, loaded from /api/plans
+ */
+export function usePlans() {
+  const [plans, setPlans] = React.useState<PlanConfig[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    fetch('/api/plans')
+      .then(response => (response.ok ? response.json() : { plans: [] }))
+      .then(data => {
+        if (!cancelled) setPlans(data.plans ?? [])
+      })
+      .catch(error => {
+        console.error('[usePlans] Failed to load plans:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { plans, loading }
+}
@@ -6,8 +6,6 @@
  */
 
 interface AdminConfig {
-  adminEmail?: string
-  adminPassword?: string
   adminPortalKey?: string
   isValid: boolean
   errors: string[]
@@ -17,6 +15,11 @@ interface AdminConfig {
 /**
  * Validate admin environment variables
  * Returns validation result with any errors or warnings
+ *
+ * Admins and reviewers sign in with their own Supabase accounts and an
+ * authenticator app, so admin login needs Supabase (the service role holds
+ * the MFA secrets and sessions), a session signing secret and, optionally, a
+ * portal key.
  */
 export function validateAdminConfig(): AdminConfig {
   const config: AdminConfig = {
@@ -25,49 +28,39 @@ export function validateAdminConfig(): AdminConfig {
     warnings: []
   }
 
-  // Check admin email
-  const adminEmail = process.env.ADMIN_EMAIL
-  if (!adminEmail) {
-    config.isValid = false
-    config.errors.push('ADMIN_EMAIL environment variable is required')
-  } else if (!adminEmail.includes('@')) {
-    config.isValid = false
-    config.errors.push('ADMIN_EMAIL must be a valid email address')
-  } else {
-    config.adminEmail = adminEmail
+  // Check Supabase, which verifies passwords and stores MFA factors
+  for (const name of ['NEXT_PUBLIC_SUPABASE_URL', 'NEXT_PUBLIC_SUPABASE_ANON_KEY', 'SUPABASE_SERVICE_ROLE_KEY']) {
+    if (!process.env[name]) {
+      config.isValid = false
+      config.errors.push(`${name} environment variable is required`)
+    }
   }
 
-  // Check admin password
-  const adminPassword = process.env.ADMIN_PASSWORD
-  if (!adminPassword) {
+  // Check the secret that signs admin session cookies
+  const sessionSecret = process.env.ADMIN_SESSION_SECRET
+  if (!sessionSecret) {
     config.isValid = false
-    config.errors.push('ADMIN_PASSWORD environment variable is required')
-  } else if (adminPassword.length < 8) {
-    config.warnings.push('ADMIN_PASSWORD should be at least 8 characters long')
-  } else {
-    config.adminPassword = adminPassword
+    config.errors.push('ADMIN_SESSION_SECRET environment variable is required')
+  } else if (sessionSecret.length < 32) {
+    config.warnings.push('ADMIN_SESSION_SECRET should be at least 32 characters long')
   }
 
-  // Check admin portal key
+  // Check the optional admin portal key
   const adminPortalKey = process.env.ADMIN_PORTAL_KEY
-  if (!adminPortalKey) {
-    config.isValid = false
-    config.errors.push('ADMIN_PORTAL_KEY environment variable is required')
-  } else if (adminPortalKey.length < 16) {
+  if (adminPortalKey && adminPortalKey.length < 16) {
     config.warnings.push('ADMIN_PORTAL_KEY should be at least 16 characters long for security')
-  } else {
+  } else if (adminPortalKey) {
     config.adminPortalKey = adminPortalKey
   }
 
+  // The shared credentials were replaced by per-user accounts
+  if (process.env.ADMIN_EMAIL || process.env.ADMIN_PASSWORD) {
+    config.warnings.push('ADMIN_EMAIL and ADMIN_PASSWORD are no longer used and can be removed; admins sign in with their own accounts')
+  }
+
   // Additional security checks
   const nodeEnv = process.env.NODE_ENV
   if (nodeEnv === 'production') {
-    // Check for common/default passwords in production
-    if (adminPassword && ['admin', 'password', '123456'].includes(adminPassword.toLowerCase())) {
-      config.isValid = false
-      config.errors.push('Using default or weak passwords in production is not allowed')
-    }
-
     // Check for default portal keys
     if (adminPortalKey && ['admin', 'portal', 'key', 'default'].includes(adminPortalKey.toLowerCase())) {
       config.isValid = false
@@ -127,9 +120,8 @@ export function getAdminConfigStatus() {
   const config = validateAdminConfig()
   return {
     configured: config.isValid,
-    emailSet: !!process.env.ADMIN_EMAIL,
-    passwordSet: !!process.env.ADMIN_PASSWORD,
     portalKeySet: !!process.env.ADMIN_PORTAL_KEY,
+    sessionSecretSet: !!process.env.ADMIN_SESSION_SECRET,
     errorCount: config.errors.length,
     warningCount: config.warnings.length
   }
@@ -1,11 +1,12 @@
 /**
- * OpenAI Retry Logic with Exponential Backoff
- * Provides robust retry mechanism for OpenAI API calls
+ * LLM Retry Logic with Exponential Backoff
+ * Provides robust retry mechanism for AI provider calls, with a circuit
+ * breaker per provider and failover to the configured fallback provider
  */
 
-import { openai } from "@ai-sdk/openai"
-import { generateText } from "ai"
 import { createHash, randomBytes } from "crypto"
+import type { AITask, LLMProvider, LLMProviderInterface } from "./types"
+import { getLLMProvider, getProviderChain, getTaskModel } from "./providers"
 
 export interface RetryConfig {
   maxRetries: number
@@ -140,25 +141,46 @@ class CircuitBreaker {
   }
 }
 
-export class OpenAIRetryClient {
+const PROVIDER_LABELS: Record<LLMProvider, string> = {
+  openai: 'OpenAI',
+  gemini: 'Gemini',
+  fake: 'Fake'
+}
+
+export interface GenerateTextParams {
+  prompt: string
+  system?: string
+  temperature?: number
+  maxOutputTokens?: number
+  /** Overrides the task's model for this provider */
+  model?: string
+  /** Selects the model per provider from TASK_MODELS (default: letter_generation) */
+  task?: AITask
+}
+
+export class LLMRetryClient {
   private circuitBreaker: CircuitBreaker
   private config: RetryConfig
+  private provider: LLMProviderInterface
 
-  constructor(config: Partial<RetryConfig> = {}) {
+  constructor(config: Partial<RetryConfig> = {}, provider: LLMProviderInterface = getLLMProvider('openai')) {
     this.config = { ...DEFAULT_RETRY_CONFIG, ...config }
     this.circuitBreaker = new CircuitBreaker()
+    this.provider = provider
+  }
+
+  get providerName(): LLMProvider {
+    return this.provider.name
+  }
+
+  private get label(): string {
+    return PROVIDER_LABELS[this.provider.name]
   }
 
   /**
    * Generate text with retry logic and circuit breaker
    */
-  async generateTextWithRetry(params: {
-    prompt: string
-    system?: string
-    temperature?: number
-    maxOutputTokens?: number
-    model?: string
-  }): Promise<RetryResult<string>> {
+  async generateTextWithRetry(params: GenerateTextParams): Promise<RetryResult<string>> {
     const startTime = Date.now()
     const retryHistory: RetryResult<string>['retryHistory'] = []
 
@@ -166,7 +188,7 @@ export class OpenAIRetryClient {
     if (!this.circuitBreaker.canExecute()) {
       return {
         success: false,
-        error: new Error('Circuit breaker is open - OpenAI service temporarily unavailable'),
+        error: new Error(`Circuit breaker is open - ${this.label} service temporarily unavailable`),
         attempts: 0,
         totalDurationMs: 0,
         retryHistory
@@ -174,16 +196,17 @@ export class OpenAIRetryClient {
     }
 
     let lastError: Error | null = null
+    const model = params.model || getTaskModel(params.task ?? 'letter_generation', this.provider.name)
 
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
       const attemptStartTime = Date.now()
       let delay = 0
 
       try {
-        console.log(`[OpenAI] Attempt ${attempt + 1}/${this.config.maxRetries + 1}`)
+        console.log(`[${this.label}] Attempt ${attempt + 1}/${this.config.maxRetries + 1}`)
 
-        const { text } = await generateText({
-          model: openai(params.model || "gpt-4-turbo"),
+        const text = await this.provider.generateText({
+          model,
           system: params.system || "You are a professional legal assistant.",
           prompt: params.prompt,
           temperature: params.temperature || 0.7,
@@ -191,7 +214,7 @@ export class OpenAIRetryClient {
         })
 
         if (!text) {
-          throw new Error("Empty response from OpenAI")
+          throw new Error(`Empty response from ${this.label}`)
         }
 
         // Success - update circuit breaker and return
@@ -223,7 +246,7 @@ export class OpenAIRetryClient {
           duration
         })
 
-        console.error(`[OpenAI] Attempt ${attempt + 1} failed:`, {
+        console.error(`[${this.label}] Attempt ${attempt + 1} failed:`, {
           error: error.message,
           status: error.status,
           code: error.code,
@@ -239,7 +262,7 @@ export class OpenAIRetryClient {
         // Calculate delay for next attempt
         if (attempt < this.config.maxRetries) {
           delay = this.calculateDelay(attempt)
-          console.log(`[OpenAI] Waiting ${delay}ms before retry...`)
+          console.log(`[${this.label}] Waiting ${delay}ms before retry...`)
           await this.sleep(delay)
         }
       }
@@ -325,30 +348,73 @@ export class OpenAIRetryClient {
   }
 }
 
+// Kept for callers that predate the provider layer; defaults to OpenAI
+export { LLMRetryClient as OpenAIRetryClient }
+
 // Singleton instance
-export const openAIRetryClient = new OpenAIRetryClient()
+export const openAIRetryClient = new LLMRetryClient()
+
+// One client per provider so each keeps its own circuit breaker state
+const retryClients = new Map<LLMProvider, LLMRetryClient>([['openai', openAIRetryClient]])
+
+export function getRetryClient(provider: LLMProviderInterface): LLMRetryClient {
+  let client = retryClients.get(provider.name)
+  if (!client) {
+    client = new LLMRetryClient({}, provider)
+    retryClients.set(provider.name, client)
+  }
+  return client
+}
 
 /**
  * Convenience function for generating text with retry
+ * Tries the primary provider (AI_PROVIDER) and fails over to the fallback
+ * (AI_FALLBACK_PROVIDER) when the primary's retries are exhausted or its
+ * circuit breaker is open. `model` only applies to the primary provider;
+ * the fallback uses its own model for the task.
  */
-export async function generateTextWithRetry(params: {
-  prompt: string
-  system?: string
-  temperature?: number
-  maxOutputTokens?: number
-  model?: string
-}): Promise<{ text: string; attempts: number; duration: number }> {
-  const result = await openAIRetryClient.generateTextWithRetry(params)
+export async function generateTextWithRetry(params: GenerateTextParams): Promise<{
+  text: string
+  attempts: number
+  duration: number
+  provider: LLMProvider
+  model: string
+}> {
+  const startTime = Date.now()
+  const chain = getProviderChain()
+  const task = params.task ?? 'letter_generation'
+  let attempts = 0
+  let lastError: Error | undefined
+
+  for (const [index, provider] of chain.entries()) {
+    const model = index === 0 && params.model ? params.model : getTaskModel(task, provider.name)
+    const result = await getRetryClient(provider).generateTextWithRetry({ ...params, model, task })
+    attempts += result.attempts
+
+    if (result.success && result.data) {
+      if (index > 0) {
+        console.warn('[AI] Served by fallback provider:', { provider: provider.name, model, task })
+      }
 
-  if (!result.success || !result.data) {
-    throw result.error || new Error('Failed to generate text after retries')
-  }
+      return {
+        text: result.data,
+        attempts,
+        duration: Date.now() - startTime,
+        provider: provider.name,
+        model
+      }
+    }
 
-  return {
-    text: result.data,
-    attempts: result.attempts,
-    duration: result.totalDurationMs
+    lastError = result.error
+    if (index < chain.length - 1) {
+      console.warn('[AI] Provider failed, failing over:', {
+        provider: provider.name,
+        error: result.error?.message
+      })
+    }
   }
+
+  throw lastError || new Error('Failed to generate text after retries')
 }
 
 /**
@@ -0,0 +1,81 @@
+import { createHash } from 'crypto'
+import type { LLMProviderInterface, LLMRequest } from '../types'
+
+export interface FakeProviderOptions {
+  /** Fixed response text; defaults to a draft assembled from the prompt */
+  response?: string
+  /** Reject the first N calls with `error`, to exercise retry and failover */
+  failTimes?: number
+  error?: Error
+}
+
+/**
+ * Deterministic offline provider
+ * Produces the same draft for the same request without any network access,
+ * so the generation flow can run locally (AI_PROVIDER=fake) and in tests.
+ */
+export class FakeProvider implements LLMProviderInterface {
+  name = 'fake' as const
+  calls: LLMRequest[] = []
+  private remainingFailures: number
+
+  constructor(private options: FakeProviderOptions = {}) {
+    this.remainingFailures = options.failTimes ?? 0
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async generateText(request: LLMRequest): Promise<string> {
+    this.calls.push(request)
+
+    if (this.remainingFailures > 0) {
+      this.remainingFailures--
+      throw this.options.error ?? Object.assign(new Error('Fake provider temporary failure'), { status: 503 })
+    }
+
+    if (this.options.response !== undefined) {
+      return this.options.response
+    }
+
+    return buildFakeDraft(request)
+  }
+}
+
+function readField(prompt: string, label: string): string | undefined {
+  const match = prompt.match(new RegExp(`^${label}: (.+)$`, 'm'))
+  return match?.[1]?.trim()
+}
+
+function buildFakeDraft(request: LLMRequest): string {
+  const reference = createHash('sha256')
+    .update(`${request.model}\n${request.system}\n${request.prompt}`)
+    .digest('hex')
+    .substring(0, 12)
+    .toUpperCase()
+
+  const senderName = readField(request.prompt, 'Sender Name') ?? 'The Sender'
+  const recipientName = readField(request.prompt, 'Recipient Name') ?? 'Sir or Madam'
+  const issue = readField(request.prompt, 'Issue Description')
+  const outcome = readField(request.prompt, 'Desired Outcome')
+
+  return [
+    `Reference: TTML-${reference}`,
+    '',
+    `Dear ${recipientName},`,
+    '',
+    issue
+      ? `I am writing regarding the following matter: ${issue}`
+      : 'I am writing regarding the matter described in our previous correspondence.',
+    '',
+    outcome
+      ? `To resolve this matter, I request the following: ${outcome}`
+      : 'I request that you contact me promptly to resolve this matter.',
+    '',
+    'Please treat this letter as formal notice. I look forward to your prompt response.',
+    '',
+    'Sincerely,',
+    senderName,
+  ].join('\n')
+}
@@ -0,0 +1,38 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { LLMProviderInterface, LLMRequest } from '../types'
+
+export class GeminiProvider implements LLMProviderInterface {
+  name = 'gemini' as const
+  private client: GoogleGenerativeAI | null = null
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY
+  }
+
+  private getClient(): GoogleGenerativeAI {
+    if (!this.client) {
+      if (!process.env.GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY is not configured')
+      }
+      this.client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
+    }
+    return this.client
+  }
+
+  async generateText(request: LLMRequest): Promise<string> {
+    const model = this.getClient().getGenerativeModel({
+      model: request.model,
+      systemInstruction: request.system,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        topK: 40,
+        topP: 0.95,
+      },
+    })
+
+    // Fetch errors carry `status`, so the retry client classifies 429/5xx the same as OpenAI's
+    const result = await model.generateContent(request.prompt)
+    return result.response.text()
+  }
+}
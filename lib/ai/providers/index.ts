@@ -0,0 +1,97 @@
+import type { AITask, LLMProvider, LLMProviderInterface } from '../types'
+import { OpenAIProvider } from './openai'
+import { GeminiProvider } from './gemini'
+import { FakeProvider } from './fake'
+
+export { OpenAIProvider } from './openai'
+export { GeminiProvider } from './gemini'
+export { FakeProvider } from './fake'
+export type { FakeProviderOptions } from './fake'
+
+const DEFAULT_PRIMARY_PROVIDER: LLMProvider = 'openai'
+const DEFAULT_FALLBACK_PROVIDER: LLMProvider = 'gemini'
+
+/**
+ * Model used for each task on each provider
+ */
+export const TASK_MODELS: Record<AITask, Record<LLMProvider, string>> = {
+  letter_generation: {
+    openai: 'gpt-4-turbo',
+    gemini: 'gemini-2.5-flash',
+    fake: 'fake-letter-model',
+  },
+  letter_improvement: {
+    openai: 'gpt-4-turbo',
+    gemini: 'gemini-2.5-flash',
+    fake: 'fake-letter-model',
+  },
+  health_check: {
+    openai: 'gpt-4-turbo',
+    gemini: 'gemini-2.5-flash',
+    fake: 'fake-health-model',
+  },
+}
+
+export function getTaskModel(task: AITask, provider: LLMProvider): string {
+  return TASK_MODELS[task][provider]
+}
+
+const providerInstances = new Map<LLMProvider, LLMProviderInterface>()
+
+export function isLLMProvider(value: string | undefined): value is LLMProvider {
+  return value === 'openai' || value === 'gemini' || value === 'fake'
+}
+
+export function getLLMProvider(name: LLMProvider): LLMProviderInterface {
+  let provider = providerInstances.get(name)
+  if (!provider) {
+    switch (name) {
+      case 'openai':
+        provider = new OpenAIProvider()
+        break
+      case 'gemini':
+        provider = new GeminiProvider()
+        break
+      case 'fake':
+        provider = new FakeProvider()
+        break
+    }
+    providerInstances.set(name, provider)
+  }
+  return provider
+}
+
+/**
+ * Providers to try, in order
+ * The primary comes from AI_PROVIDER and is always tried. AI_FALLBACK_PROVIDER
+ * is appended only when it is configured and differs from the primary; set it
+ * to `none` to disable failover.
+ */
+export function getProviderChain(): LLMProviderInterface[] {
+  const primaryName = isLLMProvider(process.env.AI_PROVIDER)
+    ? process.env.AI_PROVIDER
+    : DEFAULT_PRIMARY_PROVIDER
+
+  const chain = [getLLMProvider(primaryName)]
+
+  const fallbackSetting = process.env.AI_FALLBACK_PROVIDER
+  const fallbackName = fallbackSetting === undefined || fallbackSetting === ''
+    ? DEFAULT_FALLBACK_PROVIDER
+    : fallbackSetting
+
+  if (isLLMProvider(fallbackName) && fallbackName !== primaryName) {
+    const fallback = getLLMProvider(fallbackName)
+    if (fallback.isConfigured()) {
+      chain.push(fallback)
+    }
+  }
+
+  return chain
+}
+
+/**
+ * Whether any provider in the chain can serve requests
+ */
+export function isAIConfigured(): boolean {
+  return getProviderChain().some(provider => provider.isConfigured())
+}
@@ -0,0 +1,23 @@
+import { openai } from '@ai-sdk/openai'
+import { generateText } from 'ai'
+import type { LLMProviderInterface, LLMRequest } from '../types'
+
+export class OpenAIProvider implements LLMProviderInterface {
+  name = 'openai' as const
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY
+  }
+
+  async generateText(request: LLMRequest): Promise<string> {
+    const { text } = await generateText({
+      model: openai(request.model),
+      system: request.system,
+      prompt: request.prompt,
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+    })
+
+    return text
+  }
+}
@@ -0,0 +1,21 @@
+export type LLMProvider = 'openai' | 'gemini' | 'fake'
+
+/**
+ * Work the platform asks a model to do. Each task picks its own model per
+ * provider (see TASK_MODELS in lib/ai/providers).
+ */
+export type AITask = 'letter_generation' | 'letter_improvement' | 'health_check'
+
+export interface LLMRequest {
+  prompt: string
+  system: string
+  model: string
+  temperature: number
+  maxOutputTokens: number
+}
+
+export interface LLMProviderInterface {
+  name: LLMProvider
+  generateText(request: LLMRequest): Promise<string>
+  isConfigured(): boolean
+}
@@ -0,0 +1,280 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import {
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isRecoveryCode,
+  verifyTotp,
+} from './totp'
+
+// Database row type matching the admin_mfa_factors schema (snake_case)
+interface AdminMfaFactorRow {
+  user_id: string
+  secret: string
+  verified_at: string | null
+  last_used_step: number | null
+  created_at: string
+  updated_at: string
+}
+
+export interface MfaEnrollment {
+  secret: string
+  otpauthUrl: string
+}
+
+export interface MfaStatus {
+  enrolled: boolean
+  verifiedAt: string | null
+  recoveryCodesRemaining: number
+}
+
+export type MfaMethod = 'totp' | 'recovery_code'
+
+/**
+ * Admin MFA Service
+ * Enrolls admin portal users in TOTP, verifies their codes at login and
+ * manages their recovery codes. Secrets and code hashes live in tables only
+ * the service role can read.
+ */
+export class AdminMfaService {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  private async getFactor(userId: string): Promise<AdminMfaFactorRow | null> {
+    const { data, error } = await this.supabase
+      .from('admin_mfa_factors')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[AdminMfa] Failed to load factor:', { userId, error })
+      throw error
+    }
+
+    return data as AdminMfaFactorRow | null
+  }
+
+  async isEnrolled(userId: string): Promise<boolean> {
+    return !!(await this.getFactor(userId))?.verified_at
+  }
+
+  async getStatus(userId: string): Promise<MfaStatus> {
+    return (await this.listStatus([userId])).get(userId)!
+  }
+
+  /**
+   * MFA status for several portal users at once
+   */
+  async listStatus(userIds: string[]): Promise<Map<string, MfaStatus>> {
+    const statuses = new Map<string, MfaStatus>()
+    for (const userId of userIds) {
+      statuses.set(userId, { enrolled: false, verifiedAt: null, recoveryCodesRemaining: 0 })
+    }
+    if (userIds.length === 0) return statuses
+
+    const [factors, codes] = await Promise.all([
+      this.supabase
+        .from('admin_mfa_factors')
+        .select('user_id, verified_at')
+        .in('user_id', userIds)
+        .not('verified_at', 'is', null),
+      this.supabase
+        .from('admin_recovery_codes')
+        .select('user_id')
+        .in('user_id', userIds)
+        .is('used_at', null),
+    ])
+
+    if (factors.error || codes.error) {
+      console.error('[AdminMfa] Failed to load MFA status:', factors.error || codes.error)
+      throw factors.error || codes.error
+    }
+
+    for (const factor of factors.data || []) {
+      statuses.set(factor.user_id, { ...statuses.get(factor.user_id)!, enrolled: true, verifiedAt: factor.verified_at })
+    }
+    for (const code of codes.data || []) {
+      const status = statuses.get(code.user_id)!
+      status.recoveryCodesRemaining++
+    }
+
+    return statuses
+  }
+
+  /**
+   * Begin enrolling an authenticator. A pending secret is reused so the QR
+   * code the user already scanned keeps working if they retry.
+   */
+  async startEnrollment(userId: string, account: string): Promise<MfaEnrollment> {
+    const existing = await this.getFactor(userId)
+    if (existing?.verified_at) {
+      throw new Error('An authenticator is already enrolled')
+    }
+
+    let secret = existing?.secret
+    if (!secret) {
+      secret = generateTotpSecret()
+      const { error } = await this.supabase
+        .from('admin_mfa_factors')
+        .upsert({ user_id: userId, secret, verified_at: null, last_used_step: null }, { onConflict: 'user_id' })
+
+      if (error) {
+        console.error('[AdminMfa] Failed to start enrollment:', { userId, error })
+        throw error
+      }
+    }
+
+    return { secret, otpauthUrl: buildOtpAuthUrl(secret, account) }
+  }
+
+  /**
+   * Confirm a pending enrollment with a code from the authenticator.
+   * Returns the user's new recovery codes, or null if the code is wrong.
+   */
+  async completeEnrollment(userId: string, code: string, now: Date = new Date()): Promise<string[] | null> {
+    const factor = await this.getFactor(userId)
+    if (!factor || factor.verified_at) {
+      return null
+    }
+
+    const step = verifyTotp(factor.secret, code, now)
+    if (step === null) {
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from('admin_mfa_factors')
+      .update({ verified_at: now.toISOString(), last_used_step: step, updated_at: now.toISOString() })
+      .eq('user_id', userId)
+      .is('verified_at', null)
+      .select('user_id')
+
+    if (error) {
+      console.error('[AdminMfa] Failed to complete enrollment:', { userId, error })
+      throw error
+    }
+
+    // Another request finished enrolling first
+    if (!data || data.length === 0) {
+      return null
+    }
+
+    return this.regenerateRecoveryCodes(userId)
+  }
+
+  /**
+   * Check a second factor at login: an authenticator code, or one of the
+   * user's unused recovery codes, which is spent
+   */
+  async verify(userId: string, code: string, now: Date = new Date()): Promise<MfaMethod | null> {
+    const factor = await this.getFactor(userId)
+    if (!factor?.verified_at) {
+      return null
+    }
+
+    if (isRecoveryCode(code)) {
+      const { data, error } = await this.supabase
+        .from('admin_recovery_codes')
+        .update({ used_at: now.toISOString() })
+        .eq('user_id', userId)
+        .eq('code_hash', hashRecoveryCode(code))
+        .is('used_at', null)
+        .select('id')
+
+      if (error) {
+        console.error('[AdminMfa] Failed to use recovery code:', { userId, error })
+        throw error
+      }
+
+      return data && data.length > 0 ? 'recovery_code' : null
+    }
+
+    const step = verifyTotp(factor.secret, code, now)
+    if (step === null) {
+      return null
+    }
+
+    // Accept each code once, even though it stays valid for its window
+    const { data, error } = await this.supabase
+      .from('admin_mfa_factors')
+      .update({ last_used_step: step, updated_at: now.toISOString() })
+      .eq('user_id', userId)
+      .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+      .select('user_id')
+
+    if (error) {
+      console.error('[AdminMfa] Failed to record code use:', { userId, error })
+      throw error
+    }
+
+    return data && data.length > 0 ? 'totp' : null
+  }
+
+  /**
+   * Replace the user's recovery codes with a fresh set. The plain codes are
+   * returned once and never stored.
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = generateRecoveryCodes()
+
+    const { error: deleteError } = await this.supabase
+      .from('admin_recovery_codes')
+      .delete()
+      .eq('user_id', userId)
+
+    if (deleteError) {
+      console.error('[AdminMfa] Failed to clear recovery codes:', { userId, error: deleteError })
+      throw deleteError
+    }
+
+    const { error } = await this.supabase
+      .from('admin_recovery_codes')
+      .insert(codes.map((code) => ({ user_id: userId, code_hash: hashRecoveryCode(code) })))
+
+    if (error) {
+      console.error('[AdminMfa] Failed to store recovery codes:', { userId, error })
+      throw error
+    }
+
+    return codes
+  }
+
+  /**
+   * Remove a user's authenticator and recovery codes, e.g. after a lost
+   * device. They enroll again at their next login.
+   */
+  async reset(userId: string): Promise<void> {
+    const [factor, codes] = await Promise.all([
+      this.supabase.from('admin_mfa_factors').delete().eq('user_id', userId),
+      this.supabase.from('admin_recovery_codes').delete().eq('user_id', userId),
+    ])
+
+    if (factor.error || codes.error) {
+      console.error('[AdminMfa] Failed to reset MFA:', { userId, error: factor.error || codes.error })
+      throw factor.error || codes.error
+    }
+  }
+}
+
+let adminMfaInstance: AdminMfaService | null = null
+
+export function getAdminMfaService(): AdminMfaService {
+  if (!adminMfaInstance) {
+    adminMfaInstance = new AdminMfaService()
+  }
+  return adminMfaInstance
+}
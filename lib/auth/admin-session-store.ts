@@ -0,0 +1,219 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { generateSessionToken, hashSessionToken } from './session-token'
+
+// Sign out after 30 minutes without activity
+export const ADMIN_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000
+
+// And after 12 hours regardless of activity
+export const ADMIN_SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000
+
+// Write last activity at most this often, not on every request
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000
+
+// Database row type matching the admin_sessions schema (snake_case)
+export interface AdminSessionRow {
+  id: string
+  user_id: string
+  email: string
+  token_hash: string
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+  last_activity_at: string
+  expires_at: string
+  revoked_at: string | null
+  revoked_reason: string | null
+}
+
+export type AdminSessionRevokeReason = 'logout' | 'revoked' | 'sign_out_everywhere' | 'mfa_reset'
+
+export interface AdminSessionContext {
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+/**
+ * Admin Session Store
+ * Server-side admin portal sessions. A session is valid only while its row
+ * is unrevoked, inside its lifetime and recently active, so signing out,
+ * revoking from the sessions page and "sign out everywhere" take effect on
+ * the next request.
+ */
+export class AdminSessionStore {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  /**
+   * Start a session. The token goes in the cookie; only its hash is stored.
+   */
+  async create(
+    userId: string,
+    email: string,
+    context: AdminSessionContext = {},
+    now: Date = new Date()
+  ): Promise<{ token: string; session: AdminSessionRow }> {
+    const token = generateSessionToken()
+
+    const { data, error } = await this.supabase
+      .from('admin_sessions')
+      .insert({
+        user_id: userId,
+        email,
+        token_hash: hashSessionToken(token),
+        ip_address: context.ipAddress ?? null,
+        user_agent: context.userAgent ?? null,
+        created_at: now.toISOString(),
+        last_activity_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + ADMIN_SESSION_MAX_AGE_MS).toISOString(),
+      })
+      .select('*')
+      .single()
+
+    if (error || !data) {
+      console.error('[AdminSessions] Failed to create session:', { userId, error })
+      throw error || new Error('Failed to create admin session')
+    }
+
+    return { token, session: data as AdminSessionRow }
+  }
+
+  /**
+   * The live session for a cookie token, recording the activity. Returns
+   * null for unknown, revoked, expired or idle sessions.
+   */
+  async resolve(token: string, now: Date = new Date()): Promise<AdminSessionRow | null> {
+    const { data, error } = await this.supabase
+      .from('admin_sessions')
+      .select('*')
+      .eq('token_hash', hashSessionToken(token))
+      .is('revoked_at', null)
+      .gt('expires_at', now.toISOString())
+      .gt('last_activity_at', new Date(now.getTime() - ADMIN_SESSION_IDLE_TIMEOUT_MS).toISOString())
+      .maybeSingle()
+
+    if (error) {
+      console.error('[AdminSessions] Failed to load session:', error)
+      return null
+    }
+
+    const session = data as AdminSessionRow | null
+    if (session && now.getTime() - new Date(session.last_activity_at).getTime() > ACTIVITY_WRITE_INTERVAL_MS) {
+      const { error: touchError } = await this.supabase
+        .from('admin_sessions')
+        .update({ last_activity_at: now.toISOString() })
+        .eq('id', session.id)
+
+      if (touchError) {
+        console.error('[AdminSessions] Failed to record activity:', { sessionId: session.id, error: touchError })
+      } else {
+        session.last_activity_at = now.toISOString()
+      }
+    }
+
+    return session
+  }
+
+  /**
+   * Sessions still in use, most recently active first
+   */
+  async listActive(now: Date = new Date()): Promise<AdminSessionRow[]> {
+    const { data, error } = await this.supabase
+      .from('admin_sessions')
+      .select('*')
+      .is('revoked_at', null)
+      .gt('expires_at', now.toISOString())
+      .gt('last_activity_at', new Date(now.getTime() - ADMIN_SESSION_IDLE_TIMEOUT_MS).toISOString())
+      .order('last_activity_at', { ascending: false })
+
+    if (error) {
+      console.error('[AdminSessions] Failed to list sessions:', error)
+      throw error
+    }
+
+    return (data || []) as AdminSessionRow[]
+  }
+
+  async get(sessionId: string): Promise<AdminSessionRow | null> {
+    const { data, error } = await this.supabase
+      .from('admin_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[AdminSessions] Failed to load session:', { sessionId, error })
+      throw error
+    }
+
+    return data as AdminSessionRow | null
+  }
+
+  async revoke(sessionId: string, reason: AdminSessionRevokeReason): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('admin_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('id', sessionId)
+      .is('revoked_at', null)
+      .select('id')
+
+    if (error) {
+      console.error('[AdminSessions] Failed to revoke session:', { sessionId, error })
+      throw error
+    }
+
+    return !!data && data.length > 0
+  }
+
+  async revokeToken(token: string, reason: AdminSessionRevokeReason): Promise<void> {
+    const { error } = await this.supabase
+      .from('admin_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('token_hash', hashSessionToken(token))
+      .is('revoked_at', null)
+
+    if (error) {
+      console.error('[AdminSessions] Failed to revoke session:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Revoke every session a user has open. Returns how many were revoked.
+   */
+  async revokeAllForUser(userId: string, reason: AdminSessionRevokeReason): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('admin_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id')
+
+    if (error) {
+      console.error('[AdminSessions] Failed to revoke sessions:', { userId, error })
+      throw error
+    }
+
+    return data?.length ?? 0
+  }
+}
+
+let sessionStoreInstance: AdminSessionStore | null = null
+
+export function getAdminSessionStore(): AdminSessionStore {
+  if (!sessionStoreInstance) {
+    sessionStoreInstance = new AdminSessionStore()
+  }
+  return sessionStoreInstance
+}
@@ -1,38 +1,102 @@
 import { cookies } from 'next/headers'
+import { timingSafeEqual } from 'crypto'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
+import { getAdminMfaService, type MfaEnrollment, type MfaMethod } from './admin-mfa'
+import {
+  ADMIN_SESSION_MAX_AGE_MS,
+  getAdminSessionStore,
+  type AdminSessionContext,
+  type AdminSessionRow
+} from './admin-session-store'
+import { decodeSessionCookie, encodeSessionCookie, getSessionSecrets, type SessionSecrets } from './session-token'
 
 const ADMIN_SESSION_COOKIE = 'admin_session'
-const ADMIN_SESSION_TIMEOUT = 30 * 60 * 1000 // 30 minutes in milliseconds
+
+/**
+ * Roles admitted to the admin portal. Reviewers only reach the review
+ * center and the letters assigned to them.
+ */
+export type PortalRole = 'admin' | 'reviewer'
+
+export interface ReviewActor {
+  userId: string
+  email: string
+  role: PortalRole
+}
 
 export interface AdminSession {
+  id: string
   userId: string
   email: string
   loginTime: number
   lastActivity: number
-  portalKeyVerified: boolean
+  expiresAt: number
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+function toAdminSession(row: AdminSessionRow): AdminSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    email: row.email,
+    loginTime: new Date(row.created_at).getTime(),
+    lastActivity: new Date(row.last_activity_at).getTime(),
+    expiresAt: new Date(row.expires_at).getTime(),
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent
+  }
+}
+
+function requireSessionSecrets(): SessionSecrets | null {
+  const secrets = getSessionSecrets()
+  if (!secrets) {
+    console.error('[AdminSession] ADMIN_SESSION_SECRET is not configured')
+  }
+  return secrets
+}
+
+/**
+ * Look up the live session behind a signed session cookie
+ */
+async function resolveSessionCookie(value: string | undefined): Promise<AdminSession | null> {
+  const secrets = requireSessionSecrets()
+  const token = secrets ? decodeSessionCookie(value, secrets) : null
+  if (!token) {
+    return null
+  }
+
+  const session = await getAdminSessionStore().resolve(token)
+  return session ? toAdminSession(session) : null
 }
 
 /**
  * Create an admin session after successful authentication
  */
-export async function createAdminSession(userId: string, email: string): Promise<void> {
-  const session: AdminSession = {
-    userId,
-    email,
-    loginTime: Date.now(),
-    lastActivity: Date.now(),
-    portalKeyVerified: true
+export async function createAdminSession(
+  userId: string,
+  email: string,
+  context: AdminSessionContext = {}
+): Promise<AdminSession> {
+  const secrets = requireSessionSecrets()
+  if (!secrets) {
+    throw new Error('Admin sessions are not configured')
   }
 
+  const { token, session } = await getAdminSessionStore().create(userId, email, context)
+
   const cookieStore = await cookies()
-  cookieStore.set(ADMIN_SESSION_COOKIE, JSON.stringify(session), {
+  cookieStore.set(ADMIN_SESSION_COOKIE, encodeSessionCookie(token, secrets), {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: 1800, // 30 minutes
+    maxAge: ADMIN_SESSION_MAX_AGE_MS / 1000,
     path: '/'
   })
+
+  return toAdminSession(session)
 }
 
 /**
@@ -40,116 +104,165 @@ export async function createAdminSession(userId: string, email: string): Promise
  */
 export async function verifyAdminSession(): Promise<AdminSession | null> {
   const cookieStore = await cookies()
-  const sessionCookie = cookieStore.get(ADMIN_SESSION_COOKIE)
-
-  if (!sessionCookie) {
-    return null
-  }
-
-  try {
-    const session: AdminSession = JSON.parse(sessionCookie.value)
-
-    // Check if session has expired (30 minutes)
-    const now = Date.now()
-    if (now - session.lastActivity > ADMIN_SESSION_TIMEOUT) {
-      await destroyAdminSession()
-      return null
-    }
-
-    // Update last activity time
-    session.lastActivity = now
-    cookieStore.set(ADMIN_SESSION_COOKIE, JSON.stringify(session), {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 1800,
-      path: '/'
-    })
-
-    return session
-  } catch (error) {
-    console.error('[AdminSession] Error parsing session:', error)
-    await destroyAdminSession()
-    return null
-  }
+  return resolveSessionCookie(cookieStore.get(ADMIN_SESSION_COOKIE)?.value)
 }
 
 /**
  * Verify admin session from request (for middleware)
  */
-export function verifyAdminSessionFromRequest(request: NextRequest): AdminSession | null {
-  const sessionCookie = request.cookies.get(ADMIN_SESSION_COOKIE)
+export async function verifyAdminSessionFromRequest(request: NextRequest): Promise<AdminSession | null> {
+  return resolveSessionCookie(request.cookies.get(ADMIN_SESSION_COOKIE)?.value)
+}
 
-  if (!sessionCookie) {
-    return null
-  }
+/**
+ * Destroy admin session (logout): revoke it server-side and clear the cookie
+ */
+export async function destroyAdminSession(): Promise<void> {
+  const cookieStore = await cookies()
+  const secrets = getSessionSecrets()
+  const token = secrets ? decodeSessionCookie(cookieStore.get(ADMIN_SESSION_COOKIE)?.value, secrets) : null
 
-  try {
-    const session: AdminSession = JSON.parse(sessionCookie.value)
+  if (token) {
+    await getAdminSessionStore().revokeToken(token, 'logout')
+  }
 
-    // Check if session has expired
-    const now = Date.now()
-    if (now - session.lastActivity > ADMIN_SESSION_TIMEOUT) {
-      return null
-    }
+  cookieStore.delete(ADMIN_SESSION_COOKIE)
+}
 
-    return session
-  } catch (error) {
-    console.error('[AdminSession] Error parsing session from request:', error)
-    return null
-  }
+/**
+ * Result of an admin portal login attempt. A correct password alone is not
+ * enough: `mfa` says which second-factor step the user still has to finish.
+ */
+export interface AdminLoginResult {
+  success: boolean
+  userId?: string
+  role?: PortalRole
+  error?: string
+  mfa?: 'required' | 'enrollment_required'
+  // Authenticator setup for users enrolling on this login
+  enrollment?: MfaEnrollment
+  // Shown once, when the user finishes enrolling
+  recoveryCodes?: string[]
+  mfaMethod?: MfaMethod
 }
 
 /**
- * Destroy admin session (logout)
+ * The portal key is an optional extra gate: when ADMIN_PORTAL_KEY is set,
+ * logins must also supply it
  */
-export async function destroyAdminSession(): Promise<void> {
-  const cookieStore = await cookies()
-  cookieStore.delete(ADMIN_SESSION_COOKIE)
+function verifyPortalKey(portalKey: string | undefined): boolean {
+  const expectedPortalKey = process.env.ADMIN_PORTAL_KEY
+  if (!expectedPortalKey) {
+    return true
+  }
+
+  const expected = Buffer.from(expectedPortalKey)
+  const actual = Buffer.from(portalKey || '')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
 }
 
 /**
- * Verify admin credentials and portal key
+ * Verify an admin portal login: the portal key when one is configured, the
+ * user's own Supabase password and role, then a code from their
+ * authenticator or one of their recovery codes. Users without an
+ * authenticator enroll one here before their first session is created.
  */
 export async function verifyAdminCredentials(
   email: string,
   password: string,
-  portalKey: string
-): Promise<{ success: boolean; userId?: string; error?: string }> {
-  // Verify portal key
-  const expectedPortalKey = process.env.ADMIN_PORTAL_KEY
-  if (!expectedPortalKey || portalKey !== expectedPortalKey) {
+  portalKey?: string,
+  mfaCode?: string
+): Promise<AdminLoginResult> {
+  if (!verifyPortalKey(portalKey)) {
     return { success: false, error: 'Invalid admin portal key' }
   }
 
-  // Verify credentials
-  const expectedEmail = process.env.ADMIN_EMAIL
-  const expectedPassword = process.env.ADMIN_PASSWORD
+  // Check the password on a client that doesn't touch the auth cookies, so
+  // nobody is signed in before the second factor passes
+  const passwordClient = createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  )
+
+  const { data, error } = await passwordClient.auth.signInWithPassword({ email, password })
+  if (error || !data.user || !data.session) {
+    return { success: false, error: 'Invalid admin credentials' }
+  }
+
+  const userId = data.user.id
+  const { data: profile } = await passwordClient
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .single()
 
-  if (!expectedEmail || !expectedPassword) {
-    console.error('[AdminAuth] Admin credentials not configured')
-    return { success: false, error: 'Admin authentication not configured' }
+  const role: PortalRole | null = profile?.role === 'admin' || profile?.role === 'reviewer' ? profile.role : null
+  const mfa = getAdminMfaService()
+  let result: AdminLoginResult
+
+  if (!role) {
+    result = { success: false, userId, error: 'Invalid admin credentials' }
+  } else if (!(await mfa.isEnrolled(userId))) {
+    if (!mfaCode) {
+      result = {
+        success: false,
+        userId,
+        role,
+        mfa: 'enrollment_required',
+        enrollment: await mfa.startEnrollment(userId, email)
+      }
+    } else {
+      const recoveryCodes = await mfa.completeEnrollment(userId, mfaCode)
+      result = recoveryCodes
+        ? { success: true, userId, role, recoveryCodes, mfaMethod: 'totp' }
+        : { success: false, userId, role, mfa: 'enrollment_required', error: 'Invalid authentication code' }
+    }
+  } else if (!mfaCode) {
+    result = { success: false, userId, role, mfa: 'required' }
+  } else {
+    const mfaMethod = await mfa.verify(userId, mfaCode)
+    result = mfaMethod
+      ? { success: true, userId, role, mfaMethod }
+      : { success: false, userId, role, mfa: 'required', error: 'Invalid authentication code' }
   }
 
-  if (email !== expectedEmail || password !== expectedPassword) {
-    return { success: false, error: 'Invalid admin credentials' }
+  if (result.success && role === 'reviewer') {
+    // Reviewers keep the Supabase session in their auth cookie, so row
+    // level security scopes their letter queries to their assignments
+    const supabase = await createClient()
+    await supabase.auth.setSession({
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token
+    })
+  } else {
+    await passwordClient.auth.signOut({ scope: 'local' })
   }
 
-  // Get admin user ID from database
+  return result
+}
+
+/**
+ * Look up which portal role, if any, a user holds
+ */
+export async function getPortalRole(userId: string): Promise<PortalRole | null> {
   const supabase = await createClient()
-  const { data: profile, error } = await supabase
+  const { data: profile } = await supabase
     .from('profiles')
-    .select('id, role')
-    .eq('email', email)
-    .eq('role', 'admin')
+    .select('role')
+    .eq('id', userId)
     .single()
 
-  if (error || !profile) {
-    console.error('[AdminAuth] Admin profile not found:', error)
-    return { success: false, error: 'Admin account not found' }
+  if (profile?.role === 'admin' || profile?.role === 'reviewer') {
+    return profile.role
   }
 
-  return { success: true, userId: profile.id }
+  return null
 }
 
 /**
@@ -201,3 +314,63 @@ export async function requireAdminAuth(): Promise<NextResponse | undefined> {
 
   return undefined
 }
+
+/**
+ * Resolve the signed-in portal user for the review center: the admin or a
+ * reviewer
+ */
+export async function getReviewActor(): Promise<ReviewActor | null> {
+  const session = await verifyAdminSession()
+  if (!session) {
+    return null
+  }
+
+  const role = await getPortalRole(session.userId)
+  if (!role) {
+    return null
+  }
+
+  return { userId: session.userId, email: session.email, role }
+}
+
+/**
+ * Check if current user can use the review center
+ */
+export async function isReviewAuthenticated(): Promise<boolean> {
+  return (await getReviewActor()) !== null
+}
+
+/**
+ * Require admin or reviewer authentication for review API routes
+ */
+export async function requireReviewAuth(): Promise<NextResponse | undefined> {
+  const authenticated = await isReviewAuthenticated()
+
+  if (!authenticated) {
+    return NextResponse.json(
+      { error: 'Reviewer authentication required' },
+      { status: 401 }
+    )
+  }
+
+  return undefined
+}
+
+/**
+ * Resolve the acting admin for routes shared by the admin portal and the
+ * /admin dashboard: a portal session, or a signed-in user with the admin role
+ */
+export async function getAdminActorId(): Promise<string | null> {
+  const session = await verifyAdminSession()
+  if (session && await verifyAdminRole(session.userId)) {
+    return session.userId
+  }
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (user && await verifyAdminRole(user.id)) {
+    return user.id
+  }
+
+  return null
+}
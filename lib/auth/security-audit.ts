@@ -0,0 +1,119 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+export type SecurityEventType =
+  | 'admin_login_succeeded'
+  | 'admin_login_failed'
+  | 'admin_login_mfa_pending'
+  | 'admin_mfa_enrolled'
+  | 'admin_mfa_reset'
+  | 'admin_recovery_code_used'
+  | 'admin_recovery_codes_regenerated'
+  | 'admin_logout'
+  | 'admin_session_revoked'
+  | 'admin_sessions_revoked_all'
+  | 'admin_rate_limit_reset'
+
+export interface SecurityEvent {
+  userId?: string | null
+  eventType: SecurityEventType
+  ipAddress?: string | null
+  userAgent?: string | null
+  details?: Record<string, unknown>
+}
+
+// Database row type matching the security_audit_log schema (snake_case)
+export interface SecurityAuditLogRow {
+  id: string
+  user_id: string | null
+  event_type: string
+  ip_address: string | null
+  user_agent: string | null
+  details: Record<string, unknown> | null
+  created_at: string
+}
+
+/**
+ * Client IP and user agent for audit entries
+ */
+export function getRequestContext(request: NextRequest): { ipAddress: string | null; userAgent: string | null } {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  const ipAddress = forwardedFor?.split(',')[0]?.trim()
+    || request.headers.get('x-real-ip')
+    || request.headers.get('cf-connecting-ip')
+    || null
+
+  return { ipAddress, userAgent: request.headers.get('user-agent') }
+}
+
+// The column is INET; anything else would fail the insert
+function toInet(value: string | null | undefined): string | null {
+  if (!value) return null
+  return /^[\d.]+$/.test(value) || /^[\da-f:.]+$/i.test(value) ? value : null
+}
+
+/**
+ * Security Audit Log
+ * Writes security events such as admin portal logins to security_audit_log.
+ * Recording never throws, so a logging failure can't block a login.
+ */
+export class SecurityAuditLog {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  async record(event: SecurityEvent): Promise<void> {
+    const { error } = await this.supabase
+      .from('security_audit_log')
+      .insert({
+        user_id: event.userId ?? null,
+        event_type: event.eventType,
+        ip_address: toInet(event.ipAddress),
+        user_agent: event.userAgent ?? null,
+        details: event.details ?? null,
+      })
+
+    if (error) {
+      console.error('[SecurityAudit] Failed to record event:', { eventType: event.eventType, error })
+    }
+  }
+
+  /**
+   * Most recent events of the given types, newest first
+   */
+  async listRecent(eventTypes: SecurityEventType[], limit: number = 50): Promise<SecurityAuditLogRow[]> {
+    const { data, error } = await this.supabase
+      .from('security_audit_log')
+      .select('*')
+      .in('event_type', eventTypes)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('[SecurityAudit] Failed to list events:', error)
+      throw error
+    }
+
+    return (data || []) as SecurityAuditLogRow[]
+  }
+}
+
+let securityAuditInstance: SecurityAuditLog | null = null
+
+export function getSecurityAuditLog(): SecurityAuditLog {
+  if (!securityAuditInstance) {
+    securityAuditInstance = new SecurityAuditLog()
+  }
+  return securityAuditInstance
+}
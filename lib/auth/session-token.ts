@@ -0,0 +1,73 @@
+/**
+ * Admin Session Tokens
+ * The admin session cookie holds a random token and its HMAC signature.
+ * Session data lives server-side, keyed by a hash of the token, so the
+ * cookie carries nothing a client could usefully edit, and a forged or
+ * tampered cookie is rejected before the session store is consulted.
+ *
+ * ADMIN_SESSION_SECRET signs new cookies. Secrets listed in
+ * ADMIN_SESSION_PREVIOUS_SECRETS (comma separated) are still accepted, so
+ * the secret can be rotated without signing everyone out.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+export interface SessionSecrets {
+  current: string
+  previous: string[]
+}
+
+export function getSessionSecrets(
+  current: string | undefined = process.env.ADMIN_SESSION_SECRET,
+  previous: string | undefined = process.env.ADMIN_SESSION_PREVIOUS_SECRETS
+): SessionSecrets | null {
+  if (!current) return null
+
+  return {
+    current,
+    previous: (previous || '').split(',').map(secret => secret.trim()).filter(Boolean),
+  }
+}
+
+export function generateSessionToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+/**
+ * Sessions are stored by token hash, so a leaked sessions table can't be
+ * turned into working cookies
+ */
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function sign(token: string, secret: string): string {
+  return createHmac('sha256', secret).update(token).digest('base64url')
+}
+
+export function encodeSessionCookie(token: string, secrets: SessionSecrets): string {
+  return `${token}.${sign(token, secrets.current)}`
+}
+
+/**
+ * The token from a signed cookie, or null when the cookie is malformed or
+ * not signed by the current or a previous secret
+ */
+export function decodeSessionCookie(value: string | undefined, secrets: SessionSecrets): string | null {
+  if (!value) return null
+
+  const separator = value.lastIndexOf('.')
+  if (separator <= 0) return null
+
+  const token = value.slice(0, separator)
+  const actual = Buffer.from(value.slice(separator + 1))
+
+  for (const secret of [secrets.current, ...secrets.previous]) {
+    const expected = Buffer.from(sign(token, secret))
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+      return token
+    }
+  }
+
+  return null
+}
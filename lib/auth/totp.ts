@@ -0,0 +1,155 @@
+/**
+ * TOTP and Recovery Codes
+ * Time-based one-time passwords (RFC 6238) for the admin portal's second
+ * factor, compatible with Google Authenticator, 1Password, Authy and the
+ * like, plus the single-use recovery codes issued alongside them.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+export const TOTP_PERIOD_SECONDS = 30
+export const TOTP_DIGITS = 6
+
+// Steps either side of now that still verify, to allow for clock drift
+export const TOTP_DRIFT_STEPS = 1
+
+export const RECOVERY_CODE_COUNT = 10
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 character')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * A new 160-bit shared secret, base32 encoded for authenticator apps
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+export function totpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+/**
+ * The code for a time step (RFC 4226 HOTP over the step counter)
+ */
+export function generateTotp(secret: string, step: number = totpStep()): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = digest[digest.length - 1]! & 0x0f
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Check a code against the steps around now. Returns the matching step so
+ * callers can refuse to accept the same code twice, or null.
+ */
+export function verifyTotp(secret: string, code: string, now: Date = new Date()): number | null {
+  const candidate = code.replace(/\s/g, '')
+  if (!/^\d+$/.test(candidate) || candidate.length !== TOTP_DIGITS) {
+    return null
+  }
+
+  const current = totpStep(now)
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = current + drift
+    const expected = Buffer.from(generateTotp(secret, step))
+    if (timingSafeEqual(expected, Buffer.from(candidate))) {
+      return step
+    }
+  }
+
+  return null
+}
+
+/**
+ * otpauth:// URI for adding the secret to an authenticator app
+ */
+export function buildOtpAuthUrl(secret: string, account: string, issuer: string = 'Talk-To-My-Lawyer'): string {
+  const label = encodeURIComponent(`${issuer}:${account}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+// Recovery codes leave out characters that are easy to misread
+const RECOVERY_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+
+/**
+ * Single-use recovery codes in the form "xxxxx-xxxxx"
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(randomBytes(10), (byte) => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length])
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+  })
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Recovery codes are stored hashed, like passwords
+ */
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+/**
+ * Whether a submitted second factor is a recovery code rather than an
+ * authenticator code, which is always six digits
+ */
+export function isRecoveryCode(code: string): boolean {
+  return normalizeRecoveryCode(code).length === 10
+}
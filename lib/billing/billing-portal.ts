@@ -0,0 +1,338 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { AppError, ConflictError, ValidationError } from '@/lib/errors/error-handler'
+import { isRecurringPlan, type PlanConfig } from './plans'
+import { getPlanCatalog } from './plan-catalog'
+
+/**
+ * How a subscriber moves from one plan to another. The same rules drive the
+ * preview, the Stripe update and the credit handling in the webhook:
+ *
+ * - upgrade: recurring plan with more letters. The prorated difference is
+ *   invoiced immediately and the extra letters are added to the balance
+ *   once that invoice is paid; a declined payment leaves the plan as it was.
+ * - downgrade: recurring plan with fewer letters. The lower price applies
+ *   from the next invoice without a proration credit, and the balance is
+ *   capped at the new plan's letters, so upgrading and downgrading again
+ *   cannot keep letters that were never paid for.
+ * - switch_to_one_time: the subscription is cancelled at period end and its
+ *   credits stay usable until then.
+ * - resume: undo a scheduled cancellation of the current plan.
+ * - checkout: moving off a one-off purchase needs a new checkout; unused
+ *   one-off credits carry over onto the new subscription when it activates.
+ */
+export type PlanChangeKind = 'upgrade' | 'downgrade' | 'switch_to_one_time' | 'resume' | 'checkout' | 'none'
+
+// The subscriptions columns billing reads
+export interface BillingSubscription {
+  id: string
+  plan_type: string | null
+  status: string
+  stripe_customer_id: string | null
+  stripe_subscription_id: string | null
+  cancel_at_period_end: boolean | null
+}
+
+export interface BillingInvoice {
+  id: string
+  number: string | null
+  status: string | null
+  description: string | null
+  amountPaid: number
+  amountDue: number
+  currency: string
+  createdAt: string
+  hostedInvoiceUrl: string | null
+  invoicePdf: string | null
+}
+
+export interface PlanChangePreview {
+  kind: PlanChangeKind
+  fromPlan: string | null
+  toPlan: string
+  // Prorated amount charged now for upgrades, in dollars; always 0 for downgrades
+  prorationAmount: number
+  currency: string
+  nextBillingDate: string | null
+}
+
+export function classifyPlanChange(
+  from: PlanConfig | null,
+  to: PlanConfig,
+  cancelAtPeriodEnd: boolean = false
+): PlanChangeKind {
+  if (!from || !isRecurringPlan(from)) {
+    return isRecurringPlan(to) ? 'checkout' : 'none'
+  }
+
+  if (from.planType === to.planType) {
+    return cancelAtPeriodEnd ? 'resume' : 'none'
+  }
+
+  if (!isRecurringPlan(to)) {
+    return 'switch_to_one_time'
+  }
+
+  return to.letters > from.letters ? 'upgrade' : 'downgrade'
+}
+
+export function toBillingInvoice(invoice: Stripe.Invoice): BillingInvoice {
+  return {
+    id: invoice.id ?? '',
+    number: invoice.number,
+    status: invoice.status,
+    description: invoice.lines?.data?.[0]?.description ?? invoice.description,
+    amountPaid: invoice.amount_paid / 100,
+    amountDue: invoice.amount_due / 100,
+    currency: invoice.currency,
+    createdAt: new Date(invoice.created * 1000).toISOString(),
+    hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+    invoicePdf: invoice.invoice_pdf ?? null,
+  }
+}
+
+/**
+ * Billing Portal
+ * Subscriber billing on top of the Stripe customer: invoice history and
+ * receipts, card updates through the Stripe customer portal, and plan
+ * changes with proration. Local credits follow through the webhook.
+ */
+export class BillingPortal {
+  constructor(private stripe: Stripe) {}
+
+  async listInvoices(subscription: BillingSubscription, limit: number = 24): Promise<BillingInvoice[]> {
+    if (!subscription.stripe_customer_id) return []
+
+    const invoices = await this.stripe.invoices.list({
+      customer: subscription.stripe_customer_id,
+      limit,
+    })
+
+    // Drafts are not payable or downloadable yet
+    return invoices.data
+      .filter(invoice => invoice.status !== 'draft')
+      .map(toBillingInvoice)
+  }
+
+  /**
+   * Stripe-hosted page where the subscriber updates their card
+   */
+  async createPaymentMethodSession(subscription: BillingSubscription, returnUrl: string): Promise<string> {
+    if (!subscription.stripe_customer_id) {
+      throw new ConflictError('No billing account found for this subscription')
+    }
+
+    const session = await this.stripe.billingPortal.sessions.create({
+      customer: subscription.stripe_customer_id,
+      return_url: returnUrl,
+    })
+
+    return session.url
+  }
+
+  async previewPlanChange(subscription: BillingSubscription, planType: string): Promise<PlanChangePreview> {
+    const { from, to, kind } = await this.resolveChange(subscription, planType)
+
+    const preview: PlanChangePreview = {
+      kind,
+      fromPlan: from?.planType ?? null,
+      toPlan: to.planType,
+      prorationAmount: 0,
+      currency: 'usd',
+      nextBillingDate: null,
+    }
+
+    if (kind !== 'upgrade' && kind !== 'downgrade') {
+      return preview
+    }
+
+    const { stripeSubscription, item } = await this.loadSubscriptionItem(subscription)
+    const nextBillingDate = new Date(item.current_period_end * 1000).toISOString()
+
+    if (kind === 'downgrade') {
+      return { ...preview, nextBillingDate }
+    }
+
+    const invoice = await this.stripe.invoices.createPreview({
+      customer: subscription.stripe_customer_id!,
+      subscription: stripeSubscription.id,
+      subscription_details: {
+        items: [{ id: item.id, ...(await this.itemPriceFor(to)) }],
+        proration_behavior: 'always_invoice',
+      },
+    })
+
+    // Proration lines only; the rest of the preview is the next full period
+    const prorationCents = invoice.lines.data
+      .filter(line => line.parent?.subscription_item_details?.proration)
+      .reduce((sum, line) => sum + line.amount, 0)
+
+    return {
+      ...preview,
+      prorationAmount: prorationCents / 100,
+      currency: invoice.currency,
+      nextBillingDate,
+    }
+  }
+
+  /**
+   * Apply a plan change in Stripe. Plan, period and credits on the local row
+   * are updated by the customer.subscription.updated webhook, which reads
+   * the new plan from the subscription metadata.
+   */
+  async changePlan(subscription: BillingSubscription, planType: string): Promise<PlanChangeKind> {
+    const { to, kind } = await this.resolveChange(subscription, planType)
+
+    switch (kind) {
+      case 'upgrade': {
+        const { stripeSubscription, item } = await this.loadSubscriptionItem(subscription)
+
+        // The new price only applies once the proration invoice is paid
+        const updated = await this.stripe.subscriptions.update(stripeSubscription.id, {
+          items: [{ id: item.id, ...(await this.itemPriceFor(to)) }],
+          proration_behavior: 'always_invoice',
+          payment_behavior: 'pending_if_incomplete',
+        })
+
+        if (updated.pending_update) {
+          throw new AppError(402, 'The upgrade payment was declined; your plan has not changed', 'PAYMENT_REQUIRED')
+        }
+
+        // Pending updates cannot carry metadata, so the new plan is recorded
+        // after payment; the webhook grants the extra letters from this update
+        await this.stripe.subscriptions.update(stripeSubscription.id, {
+          cancel_at_period_end: false,
+          metadata: { ...stripeSubscription.metadata, plan_type: to.planType },
+        })
+        break
+      }
+
+      case 'downgrade': {
+        const { stripeSubscription, item } = await this.loadSubscriptionItem(subscription)
+        await this.stripe.subscriptions.update(stripeSubscription.id, {
+          items: [{ id: item.id, ...(await this.itemPriceFor(to)) }],
+          // The lower price is billed from the next invoice
+          proration_behavior: 'none',
+          cancel_at_period_end: false,
+          metadata: { ...stripeSubscription.metadata, plan_type: to.planType },
+        })
+        break
+      }
+
+      case 'switch_to_one_time':
+        await this.stripe.subscriptions.update(subscription.stripe_subscription_id!, {
+          cancel_at_period_end: true,
+        })
+        break
+
+      case 'resume':
+        await this.stripe.subscriptions.update(subscription.stripe_subscription_id!, {
+          cancel_at_period_end: false,
+        })
+        break
+
+      case 'checkout':
+        throw new ConflictError('Purchase the new plan through checkout; unused credits carry over')
+
+      case 'none':
+        throw new ConflictError('You are already on this plan')
+    }
+
+    console.log(`[BillingPortal] Subscription ${subscription.id} ${kind} to ${to.planType}`)
+    return kind
+  }
+
+  private async resolveChange(subscription: BillingSubscription, planType: string) {
+    const catalog = getPlanCatalog()
+    const to = await catalog.getPurchasable(planType)
+    if (!to) {
+      throw new ValidationError('Invalid plan type')
+    }
+
+    const from = await catalog.get(subscription.plan_type)
+    let kind = classifyPlanChange(from, to, subscription.cancel_at_period_end ?? false)
+
+    // Rows without a Stripe subscription (free or test activations) cannot be prorated
+    if (kind !== 'checkout' && kind !== 'none' && !subscription.stripe_subscription_id) {
+      kind = 'checkout'
+    }
+
+    return { from, to, kind }
+  }
+
+  private async loadSubscriptionItem(subscription: BillingSubscription) {
+    const stripeSubscription = await this.stripe.subscriptions.retrieve(subscription.stripe_subscription_id!)
+    const item = stripeSubscription.items.data[0]
+
+    if (!item) {
+      throw new ConflictError('Subscription has no billable items')
+    }
+
+    return { stripeSubscription, item }
+  }
+
+  /**
+   * Bill the plan's Stripe Price when the catalog has one, otherwise an
+   * inline price at the catalog amount
+   */
+  private async itemPriceFor(plan: PlanConfig) {
+    if (plan.stripePriceId) {
+      return { price: plan.stripePriceId }
+    }
+
+    return {
+      price_data: {
+        currency: 'usd',
+        product: await this.getPlanProductId(plan),
+        unit_amount: Math.round(plan.price * 100),
+        recurring: { interval: plan.interval! },
+      },
+    }
+  }
+
+  /**
+   * Subscription item prices need a product id; keep one Stripe product per
+   * plan, found by metadata and created on first use
+   */
+  private async getPlanProductId(plan: PlanConfig): Promise<string> {
+    const existing = await this.stripe.products.search({
+      query: `metadata['plan_type']:'${plan.planType}' AND active:'true'`,
+      limit: 1,
+    })
+
+    if (existing.data[0]) {
+      return existing.data[0].id
+    }
+
+    const product = await this.stripe.products.create({
+      name: plan.name,
+      description: `${plan.letters} Legal ${plan.letters === 1 ? 'Letter' : 'Letters'}`,
+      metadata: { plan_type: plan.planType },
+    })
+
+    return product.id
+  }
+}
+
+export const BILLING_SUBSCRIPTION_FIELDS = 'id, plan_type, status, stripe_customer_id, stripe_subscription_id, cancel_at_period_end'
+
+/**
+ * The subscriber's current billable subscription: the newest row linked to
+ * a Stripe customer that has not been cancelled
+ */
+export async function loadBillingSubscription(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<BillingSubscription | null> {
+  const { data } = await supabase
+    .from('subscriptions')
+    .select(BILLING_SUBSCRIPTION_FIELDS)
+    .eq('user_id', userId)
+    .in('status', ['active', 'past_due', 'trialing'])
+    .not('stripe_customer_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return (data as BillingSubscription | null) ?? null
+}
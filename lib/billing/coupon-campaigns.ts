@@ -0,0 +1,182 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { NotFoundError, ValidationError } from '@/lib/errors/error-handler'
+import type { CouponDiscountType } from './coupons'
+
+// Admin-editable campaign fields (camelCase, as sent by the coupons admin UI)
+export interface CouponInput {
+  code?: string
+  description?: string | null
+  discountType?: CouponDiscountType
+  discountPercent?: number
+  discountAmount?: number | null
+  startsAt?: string | null
+  expiresAt?: string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  allowedPlans?: string[] | null
+  firstPurchaseOnly?: boolean
+  isActive?: boolean
+}
+
+function optionalCap(value: number | null | undefined, label: string): number | null {
+  if (value === null || value === undefined) return null
+  if (!Number.isInteger(value) || value < 1) {
+    throw new ValidationError(`${label} must be a whole number of at least 1`)
+  }
+  return value
+}
+
+function optionalDate(value: string | null | undefined, label: string): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${label} must be a valid date`)
+  }
+  return date.toISOString()
+}
+
+/**
+ * Validate admin campaign input and map it onto employee_coupons columns.
+ * `requireAll` is set for creation, where the code and discount are needed.
+ */
+export function toCouponColumns(input: CouponInput, requireAll: boolean): Record<string, unknown> {
+  const columns: Record<string, unknown> = {}
+
+  if (input.code !== undefined || requireAll) {
+    const code = input.code?.trim().toUpperCase()
+    if (!code || !/^[A-Z0-9_-]{3,40}$/.test(code)) {
+      throw new ValidationError('Code must be 3-40 letters, digits, dashes or underscores')
+    }
+    columns.code = code
+  }
+
+  if (input.description !== undefined) {
+    columns.description = input.description?.trim().slice(0, 200) || null
+  }
+
+  if (input.discountType !== undefined || requireAll) {
+    const discountType = input.discountType ?? 'percent'
+    if (discountType !== 'percent' && discountType !== 'fixed') {
+      throw new ValidationError('Discount type must be percent or fixed')
+    }
+    columns.discount_type = discountType
+
+    if (discountType === 'percent') {
+      if (!Number.isInteger(input.discountPercent) || input.discountPercent! < 1 || input.discountPercent! > 100) {
+        throw new ValidationError('Percentage discounts must be a whole number between 1 and 100')
+      }
+      columns.discount_percent = input.discountPercent
+      columns.discount_amount = null
+    } else {
+      if (typeof input.discountAmount !== 'number' || !Number.isFinite(input.discountAmount) || input.discountAmount <= 0) {
+        throw new ValidationError('Fixed discounts need an amount greater than 0')
+      }
+      columns.discount_amount = Math.round(input.discountAmount * 100) / 100
+      columns.discount_percent = 0
+    }
+  }
+
+  if (input.startsAt !== undefined) columns.starts_at = optionalDate(input.startsAt, 'Start date')
+  if (input.expiresAt !== undefined) columns.expires_at = optionalDate(input.expiresAt, 'Expiry date')
+
+  if (columns.starts_at && columns.expires_at && columns.starts_at >= columns.expires_at) {
+    throw new ValidationError('Expiry date must be after the start date')
+  }
+
+  if (input.maxRedemptions !== undefined) {
+    columns.max_redemptions = optionalCap(input.maxRedemptions, 'Redemption limit')
+  }
+
+  if (input.maxRedemptionsPerUser !== undefined) {
+    columns.max_redemptions_per_user = optionalCap(input.maxRedemptionsPerUser, 'Per-user limit')
+  }
+
+  if (input.allowedPlans !== undefined) {
+    if (input.allowedPlans !== null && (!Array.isArray(input.allowedPlans) || input.allowedPlans.some(plan => typeof plan !== 'string' || !/^[a-z0-9_]+$/.test(plan)))) {
+      throw new ValidationError('Allowed plans must be plan keys')
+    }
+    columns.allowed_plans = input.allowedPlans?.length ? input.allowedPlans : null
+  }
+
+  if (input.firstPurchaseOnly !== undefined) columns.first_purchase_only = Boolean(input.firstPurchaseOnly)
+  if (input.isActive !== undefined) columns.is_active = Boolean(input.isActive)
+
+  return columns
+}
+
+/**
+ * Coupon Campaigns
+ * Marketing codes live in employee_coupons without an employee, so checkout,
+ * validate_coupon() and coupon analytics treat them like referral codes.
+ */
+export class CouponCampaigns {
+  private supabase: SupabaseClient
+  private tableName = 'employee_coupons' as const
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  async create(input: CouponInput) {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .insert({ ...toCouponColumns(input, true), employee_id: null, is_active: input.isActive ?? true })
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[CouponCampaigns] Failed to create coupon:', error)
+      if (error.code === '23505') {
+        throw new ValidationError('A coupon with this code already exists')
+      }
+      throw error
+    }
+
+    return data
+  }
+
+  /**
+   * Update a coupon's rules or status. Codes are immutable since usage
+   * history references them.
+   */
+  async update(id: string, input: CouponInput) {
+    const { code: _code, ...editable } = input
+    const columns = toCouponColumns(editable, false)
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .update({ ...columns, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[CouponCampaigns] Failed to update coupon:', { id, error })
+      throw error
+    }
+
+    if (!data) {
+      throw new NotFoundError('Coupon')
+    }
+
+    return data
+  }
+}
+
+let campaignsInstance: CouponCampaigns | null = null
+
+export function getCouponCampaigns(): CouponCampaigns {
+  if (!campaignsInstance) {
+    campaignsInstance = new CouponCampaigns()
+  }
+  return campaignsInstance
+}
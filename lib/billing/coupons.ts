@@ -0,0 +1,147 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type CouponDiscountType = 'percent' | 'fixed'
+
+// Row returned by the validate_coupon() database function
+export interface CouponValidationRow {
+  is_valid: boolean
+  coupon_id: string | null
+  code: string | null
+  discount_type: CouponDiscountType | null
+  discount_percent: number
+  discount_amount: number | string | null
+  employee_id: string | null
+  message: string
+}
+
+export interface CouponValidation {
+  isValid: boolean
+  couponId: string | null
+  code: string | null
+  discountType: CouponDiscountType
+  discountPercent: number
+  // USD off the plan price for fixed discounts
+  discountAmount: number | null
+  // Referring employee; null for campaign codes
+  employeeId: string | null
+  message: string
+}
+
+export function toCouponValidation(row: CouponValidationRow | null | undefined): CouponValidation {
+  if (!row) {
+    return {
+      isValid: false,
+      couponId: null,
+      code: null,
+      discountType: 'percent',
+      discountPercent: 0,
+      discountAmount: null,
+      employeeId: null,
+      message: 'Invalid coupon code',
+    }
+  }
+
+  return {
+    isValid: row.is_valid,
+    couponId: row.coupon_id,
+    code: row.code,
+    discountType: row.discount_type ?? 'percent',
+    discountPercent: row.discount_percent ?? 0,
+    // NUMERIC columns come back from PostgREST as strings
+    discountAmount: row.discount_amount === null ? null : Number(row.discount_amount),
+    employeeId: row.employee_id,
+    message: row.message,
+  }
+}
+
+/**
+ * Dollars taken off a price by a coupon, rounded to cents and never more
+ * than the price itself
+ */
+export function couponDiscount(price: number, coupon: Pick<CouponValidation, 'discountType' | 'discountPercent' | 'discountAmount'>): number {
+  const raw = coupon.discountType === 'fixed'
+    ? coupon.discountAmount ?? 0
+    : (price * coupon.discountPercent) / 100
+
+  return Math.round(Math.min(Math.max(raw, 0), price) * 100) / 100
+}
+
+/**
+ * Only an employee's own 100% referral code grants super user status;
+ * campaign codes never do
+ */
+export function isSuperUserCoupon(coupon: CouponValidation): boolean {
+  return Boolean(coupon.employeeId) && coupon.discountType === 'percent' && coupon.discountPercent === 100
+}
+
+// "20%" or "$50.00 off" for coupon lists
+export function formatCouponDiscount(coupon: { discount_type?: CouponDiscountType | null; discount_percent: number; discount_amount?: number | string | null }): string {
+  return coupon.discount_type === 'fixed'
+    ? `$${Number(coupon.discount_amount ?? 0).toFixed(2)} off`
+    : `${coupon.discount_percent}%`
+}
+
+/**
+ * Check a code against validate_coupon(), which enforces expiry, redemption
+ * caps, plan restrictions and first-purchase rules. Signed-in clients are
+ * always checked as themselves; `userId` only applies to the service role.
+ */
+export async function validateCoupon(
+  supabase: SupabaseClient,
+  couponCode: string,
+  options: { planType?: string | null; userId?: string | null } = {}
+): Promise<CouponValidation> {
+  const { data, error } = await supabase.rpc('validate_coupon', {
+    coupon_code: couponCode,
+    p_plan_type: options.planType ?? null,
+    p_user_id: options.userId ?? null,
+  })
+
+  if (error) {
+    console.error('[Coupons] validate_coupon failed:', error)
+    throw error
+  }
+
+  const rows = (data ?? []) as CouponValidationRow[]
+  return toCouponValidation(rows[0])
+}
+
+export interface CouponRedemption {
+  couponId: string
+  subscriptionId: string
+  // Only applies to the service role; signed-in clients redeem as themselves
+  userId?: string | null
+  discountPercent: number
+  amountBefore: number
+  amountAfter: number
+  // Off for checkouts Stripe has already charged, which are counted regardless
+  enforceCaps?: boolean
+}
+
+/**
+ * Record a redemption through redeem_coupon(), which locks the coupon row,
+ * re-checks the redemption caps and counts the use in one transaction so
+ * concurrent checkouts cannot overrun them
+ */
+export async function redeemCoupon(
+  supabase: SupabaseClient,
+  redemption: CouponRedemption
+): Promise<{ redeemed: boolean; message: string }> {
+  const { data, error } = await supabase.rpc('redeem_coupon', {
+    p_coupon_id: redemption.couponId,
+    p_subscription_id: redemption.subscriptionId,
+    p_user_id: redemption.userId ?? null,
+    p_discount_percent: redemption.discountPercent,
+    p_amount_before: redemption.amountBefore,
+    p_amount_after: redemption.amountAfter,
+    p_enforce_caps: redemption.enforceCaps ?? true,
+  })
+
+  if (error) {
+    console.error('[Coupons] redeem_coupon failed:', { couponId: redemption.couponId, error })
+    throw error
+  }
+
+  const row = ((data ?? []) as Array<{ redeemed: boolean; message: string }>)[0]
+  return row ?? { redeemed: false, message: 'Coupon could not be redeemed' }
+}
@@ -0,0 +1,244 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { NotFoundError, ValidationError } from '@/lib/errors/error-handler'
+import { findPlan, toPlanConfig, type PlanConfig, type PlanInterval, type PlanRow } from './plans'
+
+// Admin-editable plan fields (camelCase, as sent by the plans admin UI)
+export interface PlanInput {
+  planType?: string
+  name?: string
+  description?: string | null
+  price?: number
+  letters?: number
+  interval?: PlanInterval | null
+  stripePriceId?: string | null
+  features?: string[]
+  aliases?: string[]
+  isVisible?: boolean
+  isPopular?: boolean
+  sortOrder?: number
+  reviewSlaHours?: number | null
+}
+
+const CACHE_TTL_MS = 60_000
+const MAX_FEATURES = 12
+
+/**
+ * Validate admin plan input and map it onto plans columns. `requireAll`
+ * is set for creation, where every field without a column default is needed.
+ */
+export function toPlanColumns(input: PlanInput, requireAll: boolean): Record<string, unknown> {
+  const columns: Record<string, unknown> = {}
+
+  if (input.planType !== undefined || requireAll) {
+    if (!input.planType || !/^[a-z0-9_]{2,50}$/.test(input.planType)) {
+      throw new ValidationError('Plan key must be 2-50 lowercase letters, digits or underscores')
+    }
+    columns.plan_type = input.planType
+  }
+
+  if (input.name !== undefined || requireAll) {
+    const name = input.name?.trim()
+    if (!name || name.length > 100) {
+      throw new ValidationError('Plan name is required (max 100 characters)')
+    }
+    columns.name = name
+  }
+
+  if (input.description !== undefined) {
+    columns.description = input.description?.trim().slice(0, 500) || null
+  }
+
+  if (input.price !== undefined || requireAll) {
+    if (typeof input.price !== 'number' || !Number.isFinite(input.price) || input.price < 0 || input.price > 99999.99) {
+      throw new ValidationError('Price must be between 0 and 99999.99')
+    }
+    columns.price = Math.round(input.price * 100) / 100
+  }
+
+  if (input.letters !== undefined || requireAll) {
+    if (!Number.isInteger(input.letters) || input.letters! < 1 || input.letters! > 1000) {
+      throw new ValidationError('Letters must be a whole number between 1 and 1000')
+    }
+    columns.letters = input.letters
+  }
+
+  if (input.interval !== undefined) {
+    if (input.interval !== null && input.interval !== 'month' && input.interval !== 'year') {
+      throw new ValidationError('Interval must be month, year or none')
+    }
+    columns.interval = input.interval
+  }
+
+  if (input.stripePriceId !== undefined) {
+    const priceId = input.stripePriceId?.trim() || null
+    if (priceId && !/^price_[A-Za-z0-9]+$/.test(priceId)) {
+      throw new ValidationError('Stripe price ID must look like price_...')
+    }
+    columns.stripe_price_id = priceId
+  }
+
+  if (input.features !== undefined) {
+    if (!Array.isArray(input.features) || input.features.some(feature => typeof feature !== 'string')) {
+      throw new ValidationError('Features must be a list of strings')
+    }
+    columns.features = input.features
+      .map(feature => feature.trim().slice(0, 120))
+      .filter(Boolean)
+      .slice(0, MAX_FEATURES)
+  }
+
+  if (input.aliases !== undefined) {
+    if (!Array.isArray(input.aliases) || input.aliases.some(alias => typeof alias !== 'string' || !/^[a-z0-9_]+$/.test(alias))) {
+      throw new ValidationError('Aliases must be lowercase plan keys')
+    }
+    columns.aliases = input.aliases
+  }
+
+  if (input.isVisible !== undefined) columns.is_visible = Boolean(input.isVisible)
+  if (input.isPopular !== undefined) columns.is_popular = Boolean(input.isPopular)
+
+  if (input.sortOrder !== undefined) {
+    if (!Number.isInteger(input.sortOrder)) {
+      throw new ValidationError('Sort order must be a whole number')
+    }
+    columns.sort_order = input.sortOrder
+  }
+
+  if (input.reviewSlaHours !== undefined) {
+    if (input.reviewSlaHours !== null && (!Number.isInteger(input.reviewSlaHours) || input.reviewSlaHours < 1 || input.reviewSlaHours > 720)) {
+      throw new ValidationError('Review target must be a whole number of hours between 1 and 720')
+    }
+    columns.review_sla_hours = input.reviewSlaHours
+  }
+
+  return columns
+}
+
+/**
+ * Plan Catalog
+ * The plans table is the single source for plan pricing, letter counts and
+ * intervals. Reads are cached briefly since checkout, the webhook and the
+ * pricing pages all hit it; admin writes clear the cache.
+ */
+export class PlanCatalog {
+  private supabase: SupabaseClient
+  private tableName = 'plans' as const
+  private cache: { plans: PlanConfig[]; expiresAt: number } | null = null
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  private async loadAll(): Promise<PlanConfig[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.plans
+    }
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      console.error('[PlanCatalog] Failed to load plans:', error)
+      throw error
+    }
+
+    const plans = (data as PlanRow[]).map(toPlanConfig)
+    this.cache = { plans, expiresAt: Date.now() + CACHE_TTL_MS }
+    return plans
+  }
+
+  /**
+   * Plans in display order; hidden plans only when asked for (admin, or
+   * resolving an existing subscription on a retired plan)
+   */
+  async list(options: { includeHidden?: boolean } = {}): Promise<PlanConfig[]> {
+    const plans = await this.loadAll()
+    return options.includeHidden ? plans : plans.filter(plan => plan.isVisible)
+  }
+
+  /**
+   * Resolve a plan by key or legacy alias, including hidden plans so
+   * subscribers on a retired plan keep renewing correctly
+   */
+  async get(planType: string | null | undefined): Promise<PlanConfig | null> {
+    return findPlan(await this.loadAll(), planType)
+  }
+
+  /**
+   * A plan that can be bought right now
+   */
+  async getPurchasable(planType: string | null | undefined): Promise<PlanConfig | null> {
+    const plan = await this.get(planType)
+    return plan?.isVisible ? plan : null
+  }
+
+  async create(input: PlanInput): Promise<PlanConfig> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .insert(toPlanColumns(input, true))
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[PlanCatalog] Failed to create plan:', error)
+      if (error.code === '23505') {
+        throw new ValidationError('A plan with this key already exists')
+      }
+      throw error
+    }
+
+    this.invalidate()
+    return toPlanConfig(data as PlanRow)
+  }
+
+  /**
+   * Update a plan. The key is immutable since subscriptions reference it.
+   */
+  async update(id: string, input: PlanInput): Promise<PlanConfig> {
+    const { planType: _planType, ...editable } = input
+    const columns = toPlanColumns(editable, false)
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .update({ ...columns, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[PlanCatalog] Failed to update plan:', { id, error })
+      throw error
+    }
+
+    if (!data) {
+      throw new NotFoundError('Plan')
+    }
+
+    this.invalidate()
+    return toPlanConfig(data as PlanRow)
+  }
+
+  invalidate(): void {
+    this.cache = null
+  }
+}
+
+let catalogInstance: PlanCatalog | null = null
+
+export function getPlanCatalog(): PlanCatalog {
+  if (!catalogInstance) {
+    catalogInstance = new PlanCatalog()
+  }
+  return catalogInstance
+}
@@ -0,0 +1,79 @@
+export type PlanInterval = 'month' | 'year'
+
+// Database row type matching the plans schema (snake_case)
+export interface PlanRow {
+  id: string
+  plan_type: string
+  name: string
+  description: string | null
+  price: number | string
+  letters: number
+  interval: PlanInterval | null
+  stripe_price_id: string | null
+  features: string[]
+  aliases: string[]
+  is_visible: boolean
+  is_popular: boolean
+  sort_order: number
+  review_sla_hours: number | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PlanConfig {
+  id: string
+  planType: string
+  name: string
+  description: string | null
+  price: number
+  letters: number
+  // Billing interval for recurring plans; null for one-off purchases
+  interval: PlanInterval | null
+  stripePriceId: string | null
+  features: string[]
+  aliases: string[]
+  isVisible: boolean
+  isPopular: boolean
+  sortOrder: number
+  // Attorney review target in hours; the default target when null
+  reviewSlaHours: number | null
+}
+
+export function toPlanConfig(row: PlanRow): PlanConfig {
+  return {
+    id: row.id,
+    planType: row.plan_type,
+    name: row.name,
+    description: row.description,
+    // NUMERIC columns come back from PostgREST as strings
+    price: Number(row.price),
+    letters: row.letters,
+    interval: row.interval,
+    stripePriceId: row.stripe_price_id,
+    features: Array.isArray(row.features) ? row.features : [],
+    aliases: row.aliases ?? [],
+    isVisible: row.is_visible,
+    isPopular: row.is_popular,
+    sortOrder: row.sort_order,
+    reviewSlaHours: row.review_sla_hours ?? null,
+  }
+}
+
+export function isRecurringPlan(plan: PlanConfig): boolean {
+  return plan.interval !== null
+}
+
+/**
+ * Find a plan by its key or one of its legacy aliases (e.g. 'monthly')
+ */
+export function findPlan(plans: PlanConfig[], planType: string | null | undefined): PlanConfig | null {
+  if (!planType) return null
+  return plans.find(plan => plan.planType === planType)
+    ?? plans.find(plan => plan.aliases.includes(planType))
+    ?? null
+}
+
+// "/month", "/year" or "/letter" for price labels
+export function planPriceSuffix(plan: PlanConfig): string {
+  return plan.interval ? `/${plan.interval}` : '/letter'
+}
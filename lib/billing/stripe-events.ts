@@ -0,0 +1,184 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { ConflictError, NotFoundError } from '@/lib/errors/error-handler'
+import { processStripeEvent } from './stripe-webhook'
+
+export type StripeEventStatus = 'received' | 'processing' | 'processed' | 'failed'
+
+// Database row type matching the stripe_events schema (snake_case)
+export interface StripeEventRow {
+  id: string
+  type: string
+  status: StripeEventStatus
+  attempts: number
+  error: string | null
+  payload: Stripe.Event
+  livemode: boolean
+  stripe_created_at: string | null
+  redriven_by: string | null
+  received_at: string
+  processed_at: string | null
+  updated_at: string
+}
+
+export type StripeEventSummary = Omit<StripeEventRow, 'payload'>
+
+export type StripeEventOutcome = 'processed' | 'duplicate'
+
+const SUMMARY_FIELDS = 'id, type, status, attempts, error, livemode, stripe_created_at, redriven_by, received_at, processed_at, updated_at'
+
+/**
+ * Stripe Event Ledger
+ * Records every verified webhook event by Stripe event id so redeliveries
+ * of an already processed event are no-ops, and keeps failed events with
+ * their payload so admins can re-drive them.
+ */
+export class StripeEventLedger {
+  private supabase: SupabaseClient
+  private tableName = 'stripe_events' as const
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  /**
+   * Claim and process an event. Returns 'duplicate' without running any
+   * handler when the event was already processed (or is being processed by
+   * a concurrent delivery). Handler errors are recorded and rethrown.
+   */
+  async run(event: Stripe.Event, stripe: Stripe): Promise<StripeEventOutcome> {
+    const { data: claimed, error } = await this.supabase.rpc('claim_stripe_event', {
+      p_event_id: event.id,
+      p_type: event.type,
+      p_payload: event,
+      p_livemode: event.livemode,
+      p_stripe_created_at: new Date(event.created * 1000).toISOString()
+    })
+
+    if (error) {
+      console.error('[StripeEvents] Failed to claim event:', { eventId: event.id, error })
+      throw error
+    }
+
+    if (!claimed || (Array.isArray(claimed) && claimed.length === 0)) {
+      console.log(`[StripeEvents] Event ${event.id} already handled, skipping`)
+      return 'duplicate'
+    }
+
+    try {
+      await processStripeEvent(event, stripe, this.supabase)
+    } catch (processingError) {
+      const message = processingError instanceof Error ? processingError.message : String(processingError)
+      await this.markFailed(event.id, message)
+      throw processingError
+    }
+
+    await this.markProcessed(event.id)
+    return 'processed'
+  }
+
+  /**
+   * Re-run a failed event from its stored payload
+   */
+  async redrive(eventId: string, stripe: Stripe, adminId: string | null): Promise<StripeEventOutcome> {
+    const { data: row } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('id', eventId)
+      .maybeSingle()
+
+    if (!row) {
+      throw new NotFoundError('Stripe event')
+    }
+
+    if ((row as StripeEventRow).status !== 'failed') {
+      throw new ConflictError(`Only failed events can be re-driven (event is ${row.status})`)
+    }
+
+    await this.supabase
+      .from(this.tableName)
+      .update({ redriven_by: adminId, updated_at: new Date().toISOString() })
+      .eq('id', eventId)
+
+    console.log(`[StripeEvents] Re-driving event ${eventId}`, { adminId })
+    return this.run((row as StripeEventRow).payload, stripe)
+  }
+
+  async list(options: { status?: StripeEventStatus; limit?: number } = {}): Promise<StripeEventSummary[]> {
+    let query = this.supabase
+      .from(this.tableName)
+      .select(SUMMARY_FIELDS)
+      .order('received_at', { ascending: false })
+      .limit(options.limit ?? 50)
+
+    if (options.status) {
+      query = query.eq('status', options.status)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('[StripeEvents] Failed to list events:', error)
+      throw error
+    }
+
+    return (data || []) as StripeEventSummary[]
+  }
+
+  async getStats(): Promise<Record<StripeEventStatus, number>> {
+    const statuses: StripeEventStatus[] = ['received', 'processing', 'processed', 'failed']
+
+    const counts = await Promise.all(
+      statuses.map(async status => {
+        const { count } = await this.supabase
+          .from(this.tableName)
+          .select('*', { count: 'exact', head: true })
+          .eq('status', status)
+        return [status, count || 0] as const
+      })
+    )
+
+    return Object.fromEntries(counts) as Record<StripeEventStatus, number>
+  }
+
+  private async markProcessed(eventId: string): Promise<void> {
+    const now = new Date().toISOString()
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .update({ status: 'processed', error: null, processed_at: now, updated_at: now })
+      .eq('id', eventId)
+
+    if (error) {
+      console.error('[StripeEvents] Failed to mark event processed:', { eventId, error })
+    }
+  }
+
+  private async markFailed(eventId: string, message: string): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .update({ status: 'failed', error: message.slice(0, 2000), updated_at: new Date().toISOString() })
+      .eq('id', eventId)
+
+    if (error) {
+      console.error('[StripeEvents] Failed to mark event failed:', { eventId, error })
+    }
+  }
+}
+
+let ledgerInstance: StripeEventLedger | null = null
+
+export function getStripeEventLedger(): StripeEventLedger {
+  if (!ledgerInstance) {
+    ledgerInstance = new StripeEventLedger()
+  }
+  return ledgerInstance
+}
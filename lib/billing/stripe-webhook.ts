@@ -0,0 +1,309 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { sendTemplateEmail } from '@/lib/email/service'
+import { redeemCoupon } from './coupons'
+import { ValidationError } from '@/lib/errors/error-handler'
+import { SubscriptionLifecycle, getSubscriptionPeriod } from './subscription-lifecycle'
+
+/**
+ * Apply a verified Stripe event to the database. Shared by the webhook and
+ * the admin re-drive so a replayed event runs exactly the same code path;
+ * the stripe_events ledger decides whether an event may run at all.
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  stripe: Stripe,
+  supabase: SupabaseClient
+): Promise<void> {
+  const lifecycle = new SubscriptionLifecycle(supabase)
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session
+
+      // Verify session is paid
+      if (session.payment_status !== 'paid') {
+        console.log('[StripeWebhook] Payment not completed, skipping')
+        return
+      }
+
+      const metadata = session.metadata
+      if (!metadata) {
+        throw new ValidationError('No metadata in checkout session')
+      }
+
+      const letters = parseInt(metadata.letters || '0')
+      const finalPrice = parseFloat(metadata.final_price || '0')
+      const basePrice = parseFloat(metadata.base_price || '0')
+      const discount = parseFloat(metadata.discount || '0')
+      const couponCode = metadata.coupon_code || null
+      const couponId = metadata.coupon_id || null
+      const employeeId = metadata.employee_id || null
+      const isSuperUserCoupon = metadata.is_super_user_coupon === 'true'
+
+      // Recurring plans link the Stripe subscription so renewals and
+      // cancellations can find this row, and take their period from it
+      const stripeSubscriptionId = typeof session.subscription === 'string'
+        ? session.subscription
+        : session.subscription?.id ?? null
+      const period = stripeSubscriptionId
+        ? getSubscriptionPeriod(await stripe.subscriptions.retrieve(stripeSubscriptionId))
+        : null
+
+      // Update subscription status to active and set credits. Sessions carry
+      // the id of the pending row they were created for.
+      let activation = supabase
+        .from('subscriptions')
+        .update({
+          status: 'active',
+          credits_remaining: letters,
+          remaining_letters: letters,
+          activated_at: new Date().toISOString(),
+          stripe_session_id: session.id,
+          stripe_customer_id: session.customer as string,
+          ...(stripeSubscriptionId && { stripe_subscription_id: stripeSubscriptionId }),
+          ...(period && {
+            current_period_start: period.start,
+            current_period_end: period.end
+          }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('status', 'pending')
+      activation = metadata.subscription_id
+        ? activation.eq('id', metadata.subscription_id)
+        : activation.eq('user_id', metadata.user_id)
+
+      const { data: activated, error: updateError } = await activation.select().maybeSingle()
+
+      // Every write below throws on failure so the ledger records the event
+      // as failed and it can be re-driven; each step is safe to repeat
+      if (updateError) {
+        throw new Error(`Failed to activate subscription for session ${session.id}: ${updateError.message}`)
+      }
+
+      // A re-driven event finds the row its first attempt activated
+      let subscription = activated
+      if (!subscription) {
+        const { data: existing, error: lookupError } = await supabase
+          .from('subscriptions')
+          .select()
+          .eq('stripe_session_id', session.id)
+          .maybeSingle()
+
+        if (lookupError) {
+          throw new Error(`Failed to look up subscription for session ${session.id}: ${lookupError.message}`)
+        }
+        if (!existing) {
+          throw new Error(`No pending subscription for session ${session.id}`)
+        }
+        subscription = existing
+      }
+
+      // Unused credits from earlier one-off purchases move onto a new subscription
+      if (stripeSubscriptionId) {
+        const { data: carried, error: carryError } = await supabase.rpc('carry_over_subscription_credits', {
+          p_user_id: metadata.user_id,
+          p_subscription_id: subscription.id
+        })
+
+        if (carryError) {
+          throw new Error(`Failed to carry over credits to subscription ${subscription.id}: ${carryError.message}`)
+        }
+        if (carried) {
+          console.log(`[StripeWebhook] Carried over ${carried} credits to subscription ${subscription.id}`)
+        }
+      }
+
+      // Mark user as super user if applicable
+      if (isSuperUserCoupon) {
+        const { error: profileError } = await supabase
+          .from('profiles')
+          .update({ is_super_user: true })
+          .eq('id', metadata.user_id)
+
+        if (profileError) {
+          throw new Error(`Failed to mark ${metadata.user_id} as a super user: ${profileError.message}`)
+        }
+      }
+
+      // Record the coupon redemption. Stripe has already charged the
+      // discounted price, so it counts even if the cap filled up meanwhile.
+      if (couponId) {
+        const { data: existingUsage, error: usageLookupError } = await supabase
+          .from('coupon_usage')
+          .select('id')
+          .eq('subscription_id', subscription.id)
+          .limit(1)
+
+        if (usageLookupError) {
+          throw new Error(`Failed to look up coupon usage for subscription ${subscription.id}: ${usageLookupError.message}`)
+        }
+
+        if (!existingUsage?.length) {
+          const redemption = await redeemCoupon(supabase, {
+            couponId,
+            subscriptionId: subscription.id,
+            userId: metadata.user_id ?? null,
+            discountPercent: basePrice > 0 ? Math.round((discount / basePrice) * 100) : 0,
+            amountBefore: basePrice,
+            amountAfter: finalPrice,
+            enforceCaps: false
+          })
+
+          if (!redemption.redeemed) {
+            throw new Error(`Failed to record coupon ${couponCode} for subscription ${subscription.id}: ${redemption.message}`)
+          }
+          console.log('[StripeWebhook] Coupon usage recorded successfully for code:', couponCode)
+        }
+      }
+
+      // Create commission if employee referral (and not a super user coupon with 0 payment)
+      if (employeeId && finalPrice > 0 && !isSuperUserCoupon) {
+        const commissionAmount = finalPrice * 0.05
+
+        const { data: existingCommission, error: commissionLookupError } = await supabase
+          .from('commissions')
+          .select('id')
+          .eq('subscription_id', subscription.id)
+          .limit(1)
+
+        if (commissionLookupError) {
+          throw new Error(`Failed to look up commission for subscription ${subscription.id}: ${commissionLookupError.message}`)
+        }
+
+        if (!existingCommission?.length) {
+          const { error: commissionError } = await supabase
+            .from('commissions')
+            .insert({
+              employee_id: employeeId,
+              subscription_id: subscription.id,
+              subscription_amount: finalPrice,
+              commission_rate: 0.05,
+              commission_amount: commissionAmount,
+              status: 'pending'
+            })
+
+          if (commissionError) {
+            throw new Error(`Failed to create commission for subscription ${subscription.id}: ${commissionError.message}`)
+          }
+
+          console.log(`[StripeWebhook] Created commission: $${commissionAmount.toFixed(2)} for employee ${employeeId}`)
+
+          // Send commission earned email (non-blocking)
+          const { data: employeeProfile } = await supabase
+            .from('profiles')
+            .select('email, full_name')
+            .eq('id', employeeId)
+            .single()
+
+          if (employeeProfile?.email) {
+            sendTemplateEmail('commission-earned', employeeProfile.email, {
+              userName: employeeProfile.full_name || 'there',
+              commissionAmount,
+              actionUrl: `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/dashboard/commissions`,
+            }).catch(error => {
+              console.error('[StripeWebhook] Failed to send commission email:', error)
+            })
+          }
+        }
+      }
+
+      console.log('[StripeWebhook] Payment completed for user:', metadata.user_id)
+
+      // Send subscription confirmation email (non-blocking), once per activation
+      if (activated) {
+        const { data: userProfile } = await supabase
+          .from('profiles')
+          .select('email, full_name')
+          .eq('id', metadata.user_id)
+          .single()
+
+        if (userProfile?.email) {
+          const planName = metadata.plan_type || 'Subscription'
+          sendTemplateEmail('subscription-confirmation', userProfile.email, {
+            userName: userProfile.full_name || 'there',
+            subscriptionPlan: planName,
+            actionUrl: `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/dashboard`,
+          }).catch(error => {
+            console.error('[StripeWebhook] Failed to send subscription confirmation email:', error)
+          })
+        }
+      }
+
+      break
+    }
+
+    case 'checkout.session.expired': {
+      const session = event.data.object as Stripe.Checkout.Session
+      const metadata = session.metadata
+
+      if (metadata) {
+        // Update subscription status to canceled
+        await supabase
+          .from('subscriptions')
+          .update({
+            status: 'canceled',
+            updated_at: new Date().toISOString()
+          })
+          .eq('user_id', metadata.user_id)
+          .eq('status', 'pending')
+
+        console.log('[StripeWebhook] Checkout expired for user:', metadata.user_id)
+      }
+      break
+    }
+
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent
+      console.log('[StripeWebhook] Payment succeeded:', paymentIntent.id)
+      // Additional payment success handling if needed
+      break
+    }
+
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent
+      console.log('[StripeWebhook] Payment failed:', paymentIntent.id)
+
+      // Update any pending subscription to failed
+      if (paymentIntent.metadata?.user_id) {
+        await supabase
+          .from('subscriptions')
+          .update({
+            status: 'payment_failed',
+            updated_at: new Date().toISOString()
+          })
+          .eq('user_id', paymentIntent.metadata.user_id)
+          .eq('status', 'pending')
+      }
+      break
+    }
+
+    case 'invoice.paid': {
+      const invoice = event.data.object as Stripe.Invoice
+      await lifecycle.handleInvoicePaid(invoice)
+      break
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice
+      await lifecycle.handleInvoicePaymentFailed(invoice)
+      break
+    }
+
+    case 'customer.subscription.updated': {
+      const stripeSubscription = event.data.object as Stripe.Subscription
+      await lifecycle.handleSubscriptionUpdated(stripeSubscription)
+      break
+    }
+
+    case 'customer.subscription.deleted': {
+      const stripeSubscription = event.data.object as Stripe.Subscription
+      await lifecycle.handleSubscriptionDeleted(stripeSubscription)
+      break
+    }
+
+    default: {
+      console.log(`[StripeWebhook] Unhandled event type: ${event.type}`)
+    }
+  }
+}
@@ -0,0 +1,330 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { getEmailQueue } from '@/lib/email/queue'
+import type { EmailTemplate, TemplateData } from '@/lib/email/types'
+import { getPlanCatalog } from './plan-catalog'
+
+// Values of the subscription_status enum a Stripe subscription can map onto
+export type LocalSubscriptionStatus = 'active' | 'trialing' | 'past_due' | 'canceled'
+
+export interface SubscriptionPeriod {
+  start: string
+  end: string
+}
+
+// The subscriptions columns lifecycle handling reads
+export interface LifecycleSubscriptionRow {
+  id: string
+  user_id: string
+  status: string
+  plan_type: string | null
+  credits_remaining: number | null
+  remaining_letters: number | null
+  stripe_subscription_id: string | null
+}
+
+const SUBSCRIPTION_FIELDS = 'id, user_id, status, plan_type, credits_remaining, remaining_letters, stripe_subscription_id'
+
+/**
+ * Map a Stripe subscription status onto the local subscription_status enum.
+ * Returns null for transitional states (incomplete, paused) that should not
+ * change the local row.
+ */
+export function toLocalSubscriptionStatus(status: Stripe.Subscription.Status): LocalSubscriptionStatus | null {
+  switch (status) {
+    case 'active':
+      return 'active'
+    case 'trialing':
+      return 'trialing'
+    case 'past_due':
+    case 'unpaid':
+      return 'past_due'
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'canceled'
+    default:
+      return null
+  }
+}
+
+export function fromStripeTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString()
+}
+
+/**
+ * Current billing period of a subscription. Since the 2025 "basil" API the
+ * period lives on the subscription items rather than the subscription itself.
+ */
+export function getSubscriptionPeriod(subscription: Stripe.Subscription): SubscriptionPeriod | null {
+  const item = subscription.items?.data?.[0]
+  if (!item) return null
+
+  return {
+    start: fromStripeTimestamp(item.current_period_start),
+    end: fromStripeTimestamp(item.current_period_end),
+  }
+}
+
+/**
+ * Service period an invoice pays for. The invoice's own period_start/end
+ * describe the previous period on renewals, so prefer the line item period.
+ */
+export function getInvoicePeriod(invoice: Stripe.Invoice): SubscriptionPeriod {
+  const line = invoice.lines?.data?.[0]
+  const start = line?.period?.start ?? invoice.period_start
+  const end = line?.period?.end ?? invoice.period_end
+
+  return {
+    start: fromStripeTimestamp(start),
+    end: fromStripeTimestamp(end),
+  }
+}
+
+export function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const subscription = invoice.parent?.subscription_details?.subscription
+  if (!subscription) return null
+  return typeof subscription === 'string' ? subscription : subscription.id
+}
+
+export function getInvoiceMetadata(invoice: Stripe.Invoice): Stripe.Metadata {
+  return invoice.parent?.subscription_details?.metadata ?? {}
+}
+
+/**
+ * Credits after a plan change. Upgrades add the difference in letters to
+ * the current balance; downgrades cap the balance at the new plan's letters
+ * so the letters an upgrade added don't outlive it.
+ */
+export function creditsAfterPlanChange(currentCredits: number, fromLetters: number, toLetters: number): number {
+  if (toLetters < fromLetters) {
+    return Math.min(currentCredits, toLetters)
+  }
+  return currentCredits + (toLetters - fromLetters)
+}
+
+/**
+ * Subscription Lifecycle
+ * Applies Stripe renewal, failed payment, plan change and cancellation
+ * events to the matching subscriptions row and notifies the subscriber.
+ */
+export class SubscriptionLifecycle {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Find the row for a Stripe subscription. Rows created by checkout only
+   * learn their Stripe id on completion, so fall back to the local id that
+   * checkout stores in the subscription metadata and backfill the link.
+   */
+  private async findSubscription(
+    stripeSubscriptionId: string,
+    metadata: Stripe.Metadata | null | undefined
+  ): Promise<LifecycleSubscriptionRow | null> {
+    const { data: linked } = await this.supabase
+      .from('subscriptions')
+      .select(SUBSCRIPTION_FIELDS)
+      .eq('stripe_subscription_id', stripeSubscriptionId)
+      .maybeSingle()
+
+    if (linked) return linked as LifecycleSubscriptionRow
+
+    const localId = metadata?.subscription_id
+    if (!localId) return null
+
+    const { data: row } = await this.supabase
+      .from('subscriptions')
+      .select(SUBSCRIPTION_FIELDS)
+      .eq('id', localId)
+      .maybeSingle()
+
+    if (!row) return null
+
+    await this.supabase
+      .from('subscriptions')
+      .update({ stripe_subscription_id: stripeSubscriptionId })
+      .eq('id', localId)
+
+    return { ...(row as LifecycleSubscriptionRow), stripe_subscription_id: stripeSubscriptionId }
+  }
+
+  /**
+   * Checkout completion grants the first period's credits and moves the row
+   * out of 'pending'; lifecycle events that race ahead of it are ignored.
+   */
+  private async findActivatedSubscription(
+    stripeSubscriptionId: string,
+    metadata: Stripe.Metadata | null | undefined,
+    eventType: string
+  ): Promise<LifecycleSubscriptionRow | null> {
+    const row = await this.findSubscription(stripeSubscriptionId, metadata)
+
+    if (!row) {
+      console.warn(`[SubscriptionLifecycle] No subscription row for ${stripeSubscriptionId} (${eventType})`)
+      return null
+    }
+
+    if (row.status === 'pending') {
+      console.log(`[SubscriptionLifecycle] Subscription ${row.id} awaiting checkout completion, skipping ${eventType}`)
+      return null
+    }
+
+    return row
+  }
+
+  private async updateSubscription(id: string, changes: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('subscriptions')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to update subscription ${id}: ${error.message}`)
+    }
+  }
+
+  /**
+   * invoice.paid - renewals refresh the plan's credits and move the period
+   * forward. The first invoice only syncs the period since checkout
+   * completion already granted its credits.
+   */
+  async handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+    const stripeSubscriptionId = getInvoiceSubscriptionId(invoice)
+    if (!stripeSubscriptionId) return
+
+    const row = await this.findActivatedSubscription(stripeSubscriptionId, getInvoiceMetadata(invoice), 'invoice.paid')
+    if (!row) return
+
+    const period = getInvoicePeriod(invoice)
+    const isRenewal = invoice.billing_reason === 'subscription_cycle'
+    const plan = await getPlanCatalog().get(row.plan_type)
+
+    const changes: Record<string, unknown> = {
+      status: 'active',
+      current_period_start: period.start,
+      current_period_end: period.end,
+    }
+
+    if (isRenewal && plan) {
+      changes.credits_remaining = plan.letters
+      changes.remaining_letters = plan.letters
+      changes.last_reset_at = new Date().toISOString()
+    }
+
+    await this.updateSubscription(row.id, changes)
+    console.log(`[SubscriptionLifecycle] Invoice ${invoice.id} paid for subscription ${row.id}`)
+
+    if (isRenewal) {
+      await this.notify(row.user_id, 'subscription-renewal', {
+        subscriptionPlan: plan?.name ?? 'subscription',
+        nextBillingDate: new Date(period.end).toLocaleDateString('en-US', { dateStyle: 'long' }),
+      })
+    }
+  }
+
+  /**
+   * invoice.payment_failed - the subscription stays usable only once Stripe
+   * collects the retry, so mark it past due and ask for a new payment method.
+   */
+  async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+    const stripeSubscriptionId = getInvoiceSubscriptionId(invoice)
+    if (!stripeSubscriptionId) return
+
+    const row = await this.findActivatedSubscription(stripeSubscriptionId, getInvoiceMetadata(invoice), 'invoice.payment_failed')
+    if (!row) return
+
+    await this.updateSubscription(row.id, { status: 'past_due' })
+    console.log(`[SubscriptionLifecycle] Invoice ${invoice.id} payment failed for subscription ${row.id}`)
+
+    await this.notify(row.user_id, 'payment-failed', {
+      subscriptionPlan: (await getPlanCatalog().get(row.plan_type))?.name ?? 'subscription',
+      amountDue: invoice.amount_due / 100,
+    })
+  }
+
+  /**
+   * customer.subscription.updated - syncs status, period and cancellation
+   * scheduling, and applies plan changes recorded in the metadata.
+   */
+  async handleSubscriptionUpdated(subscription: Stripe.Subscription): Promise<void> {
+    const row = await this.findActivatedSubscription(subscription.id, subscription.metadata, 'customer.subscription.updated')
+    if (!row) return
+
+    const changes: Record<string, unknown> = {
+      cancel_at_period_end: subscription.cancel_at_period_end,
+    }
+
+    const status = toLocalSubscriptionStatus(subscription.status)
+    if (status) {
+      changes.status = status
+    }
+
+    const period = getSubscriptionPeriod(subscription)
+    if (period) {
+      changes.current_period_start = period.start
+      changes.current_period_end = period.end
+    }
+
+    const newPlanType = subscription.metadata?.plan_type
+    const newPlan = await getPlanCatalog().get(newPlanType)
+    const oldPlan = await getPlanCatalog().get(row.plan_type)
+    if (newPlan && newPlan.planType !== oldPlan?.planType) {
+      const credits = creditsAfterPlanChange(row.credits_remaining ?? row.remaining_letters ?? 0, oldPlan?.letters ?? 0, newPlan.letters)
+
+      changes.plan = newPlan.planType
+      changes.plan_type = newPlan.planType
+      changes.price = newPlan.price
+      changes.credits_remaining = credits
+      changes.remaining_letters = credits
+      console.log(`[SubscriptionLifecycle] Subscription ${row.id} changed plan ${row.plan_type} -> ${newPlan.planType}`)
+    }
+
+    await this.updateSubscription(row.id, changes)
+  }
+
+  /**
+   * customer.subscription.deleted - the subscription has ended, either at the
+   * end of a cancelled period or after Stripe gave up on collecting payment.
+   */
+  async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
+    const row = await this.findSubscription(subscription.id, subscription.metadata)
+    if (!row) {
+      console.warn(`[SubscriptionLifecycle] No subscription row for ${subscription.id} (customer.subscription.deleted)`)
+      return
+    }
+
+    if (row.status === 'canceled') return
+
+    await this.updateSubscription(row.id, {
+      status: 'canceled',
+      cancel_at_period_end: false,
+      canceled_at: subscription.canceled_at
+        ? fromStripeTimestamp(subscription.canceled_at)
+        : new Date().toISOString(),
+    })
+    console.log(`[SubscriptionLifecycle] Subscription ${row.id} cancelled`)
+
+    await this.notify(row.user_id, 'subscription-cancelled', {
+      subscriptionPlan: (await getPlanCatalog().get(row.plan_type))?.name ?? 'subscription',
+    })
+  }
+
+  // Email failures never fail the webhook; the queue retries delivery
+  private async notify(userId: string, template: EmailTemplate, data: TemplateData): Promise<void> {
+    try {
+      const { data: profile } = await this.supabase
+        .from('profiles')
+        .select('email, full_name')
+        .eq('id', userId)
+        .single()
+
+      if (!profile?.email) return
+
+      await getEmailQueue().enqueueTemplate(template, profile.email, {
+        userName: profile.full_name || 'there',
+        actionUrl: `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/dashboard/subscription`,
+        ...data,
+      })
+    } catch (error) {
+      console.error(`[SubscriptionLifecycle] Failed to queue ${template} email:`, error)
+    }
+  }
+}
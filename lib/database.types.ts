@@ -1,4 +1,4 @@
-export type UserRole = 'subscriber' | 'employee' | 'admin'
+export type UserRole = 'subscriber' | 'employee' | 'admin' | 'reviewer'
 export type LetterStatus =
   | 'draft'
   | 'generating'
@@ -19,8 +19,18 @@ export interface Profile {
   is_super_user: boolean
   phone: string | null
   company_name: string | null
+  locale: string
   avatar_url: string | null
   bio: string | null
+  is_licensed_attorney: boolean
+  bar_number: string | null
+  bar_state: string | null
+  firm_name: string | null
+  attorney_title: string | null
+  signature_path: string | null
+  review_available: boolean
+  review_capacity: number | null
+  review_last_assigned_at: string | null
   created_at: string
   updated_at: string
 }
@@ -38,6 +48,8 @@ export interface Letter {
   intake_data: Record<string, any>
   ai_draft_content: string | null
   final_content: string | null
+  assigned_to: string | null
+  assigned_at: string | null
   reviewed_by: string | null
   reviewed_at: string | null
   review_notes: string | null
@@ -97,6 +109,7 @@ export interface LetterAuditTrail {
   old_status: string | null
   new_status: string | null
   notes: string | null
+  metadata: Record<string, any> | null
   created_at: string
 }
 
@@ -0,0 +1,377 @@
+import {
+  DEFAULT_BRANDING,
+  DEFAULT_FOOTER_NOTE,
+  PDF_TEMPLATE_LAYOUTS,
+  getPdfTemplate,
+} from '@/lib/pdf/generator'
+import { parseLetterContent, type ContentBlock, type TextRun } from '@/lib/pdf/rich-text'
+import type { LetterParties, PdfLetterData, PdfTemplateLayout } from '@/lib/pdf/types'
+import { createZip } from './zip'
+import type { DocxConfig, DocxResult } from './types'
+
+export const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+const R_NS = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+
+// US Letter with one-inch margins, in twentieths of a point
+const PAGE = { width: 12240, height: 15840, margin: 1440 }
+const TEXT_WIDTH = PAGE.width - PAGE.margin * 2
+
+const LIGHT_TEXT = '666666'
+
+const FONTS: Record<PdfTemplateLayout['font'], string> = {
+  times: 'Times New Roman',
+  helvetica: 'Arial',
+}
+
+// numbering.xml abstract definitions
+const BULLET_LIST = 1
+const ORDERED_LIST = 2
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function color(hex: string): string {
+  return hex.replace('#', '').toUpperCase()
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+}
+
+interface RunStyle {
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  size?: number
+  color?: string
+  spacing?: number
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const props = [
+    style.bold && '<w:b/>',
+    style.italic && '<w:i/>',
+    style.color && `<w:color w:val="${color(style.color)}"/>`,
+    style.spacing && `<w:spacing w:val="${style.spacing}"/>`,
+    // Half-points
+    style.size && `<w:sz w:val="${style.size * 2}"/>`,
+    style.underline && '<w:u w:val="single"/>',
+  ].filter(Boolean).join('')
+
+  // Line breaks inside a run become <w:br/>
+  const content = text
+    .split('\n')
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>')
+
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`
+}
+
+function styledRuns(runs: TextRun[], extra: RunStyle = {}): string {
+  return runs.map(textRun => run(textRun.text, {
+    ...extra,
+    ...(textRun.bold && { bold: true }),
+    ...(textRun.italic && { italic: true }),
+    ...(textRun.underline && { underline: true }),
+  })).join('')
+}
+
+function paragraph(content: string, props: string = ''): string {
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`
+}
+
+const EMPTY_PARAGRAPH = '<w:p/>'
+
+function letterhead(branding: NonNullable<DocxConfig['branding']>, layout: PdfTemplateLayout): string[] {
+  const contact = [
+    ...(branding.address ? branding.address.split('\n') : []),
+    branding.phone,
+    branding.email,
+    branding.website,
+  ].filter((line): line is string => !!line?.trim()).map(line => line.trim())
+
+  return [
+    paragraph(run(branding.name, { bold: true, size: 18, color: layout.accent }), '<w:spacing w:after="0"/>'),
+    ...(branding.tagline
+      ? [paragraph(run(branding.tagline, { size: 9, color: LIGHT_TEXT }), '<w:spacing w:after="0"/>')]
+      : []),
+    ...(contact.length > 0
+      ? [paragraph(run(contact.join(' | '), { size: 8, color: LIGHT_TEXT }), '<w:spacing w:after="0"/>')]
+      : []),
+    // Rule under the letterhead
+    paragraph('', `<w:pBdr><w:bottom w:val="single" w:sz="8" w:space="1" w:color="${color(layout.accent)}"/></w:pBdr><w:spacing w:after="240"/>`),
+  ]
+}
+
+/**
+ * Assigns Word numbering instances so each ordered list counts from 1,
+ * while bullets share one instance
+ */
+class ListNumbering {
+  private nextId = 2
+  private ordered: number[] = []
+  readonly instances: Array<{ id: number; abstractId: number }> = [{ id: 1, abstractId: BULLET_LIST }]
+
+  numFor(block: Extract<ContentBlock, { type: 'list-item' }>): number {
+    if (!block.ordered) return 1
+
+    const current = this.ordered[block.depth]
+    if (block.number === 1 || current === undefined) {
+      const id = this.nextId++
+      this.instances.push({ id, abstractId: ORDERED_LIST })
+      this.ordered[block.depth] = id
+      return id
+    }
+    return current
+  }
+}
+
+function contentBlocks(blocks: ContentBlock[], numbering: ListNumbering): string[] {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return paragraph(styledRuns(block.runs), `<w:pStyle w:val="Heading${block.level}"/>`)
+      case 'list-item':
+        return paragraph(
+          styledRuns(block.runs),
+          `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${Math.min(block.depth, 2)}"/><w:numId w:val="${numbering.numFor(block)}"/></w:numPr>`
+        )
+      case 'quote':
+        return paragraph(styledRuns(block.runs), '<w:pStyle w:val="Quote"/>')
+      case 'rule':
+        return paragraph('', '<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="E0E0E0"/></w:pBdr>')
+      case 'paragraph':
+        return paragraph(styledRuns(block.runs))
+    }
+  })
+}
+
+function signatureBlock(parties: LetterParties, layout: PdfTemplateLayout): string[] {
+  const attorney = parties.attorney?.name ? parties.attorney : null
+  const details = attorney
+    ? [
+        attorney.title || 'Attorney at Law',
+        attorney.firmName,
+        attorney.barNumber && `${attorney.barState ? `${attorney.barState} ` : ''}Bar No. ${attorney.barNumber}`,
+        [attorney.email, attorney.phone].filter(Boolean).join(' | '),
+      ].filter((line): line is string => !!line)
+    : []
+
+  const tight = '<w:keepNext/><w:spacing w:after="0"/>'
+
+  return [
+    paragraph(run(layout.closing), '<w:keepNext/><w:spacing w:before="240" w:after="720"/>'),
+    paragraph(run(attorney?.name || parties.sender.name, { bold: true }), tight),
+    ...details.map(line => paragraph(run(line, { size: 9, color: LIGHT_TEXT }), tight)),
+    ...(attorney
+      ? [paragraph(run(`On behalf of ${parties.sender.name}`, { italic: true, size: 9, color: LIGHT_TEXT }), '<w:spacing w:after="0"/>')]
+      : []),
+  ]
+}
+
+function documentXml(data: PdfLetterData, layout: PdfTemplateLayout, branding: NonNullable<DocxConfig['branding']>, numbering: ListNumbering): string {
+  const recipient = data.parties.recipient
+  const recipientLines = [
+    ...(recipient.company ? [recipient.company] : []),
+    ...(recipient.address ? recipient.address.split('\n') : []),
+  ]
+
+  const body = [
+    ...letterhead(branding, layout),
+    ...(layout.heading
+      ? [paragraph(run(layout.heading, { bold: true, size: 13, color: layout.accent, spacing: 16 }), '<w:spacing w:after="240"/><w:jc w:val="center"/>')]
+      : []),
+    paragraph(run(formatDate(data.approvedAt || data.createdAt)), '<w:spacing w:after="240"/>'),
+    ...(recipient.name
+      ? [paragraph(
+          run(recipient.name, { bold: true }) + (recipientLines.length > 0 ? run(`\n${recipientLines.join('\n')}`) : ''),
+          '<w:spacing w:after="240"/>'
+        )]
+      : []),
+    ...(data.title ? [paragraph(run(`Re: ${data.title}`, { bold: true }), '<w:spacing w:after="240"/>')] : []),
+    ...contentBlocks(parseLetterContent(data.content), numbering),
+    ...signatureBlock(data.parties, layout),
+    ...(data.exhibits?.length
+      ? [
+          EMPTY_PARAGRAPH,
+          paragraph(run('Enclosures:', { bold: true }), '<w:spacing w:after="0"/>'),
+          ...data.exhibits.map(exhibit => paragraph(run(`${exhibit.label}: ${exhibit.fileName}`), '<w:spacing w:after="0"/>')),
+        ]
+      : []),
+  ].join('')
+
+  const section =
+    '<w:sectPr>' +
+    '<w:footerReference w:type="default" r:id="rIdFooter"/>' +
+    `<w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>` +
+    `<w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="720" w:footer="500" w:gutter="0"/>` +
+    '</w:sectPr>'
+
+  return `${XML_DECLARATION}<w:document ${W_NS} ${R_NS}><w:body>${body}${section}</w:body></w:document>`
+}
+
+function field(instruction: string): string {
+  return (
+    '<w:r><w:fldChar w:fldCharType="begin"/></w:r>' +
+    `<w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>` +
+    '<w:r><w:fldChar w:fldCharType="separate"/></w:r>' +
+    '<w:r><w:t>1</w:t></w:r>' +
+    '<w:r><w:fldChar w:fldCharType="end"/></w:r>'
+  )
+}
+
+function footerXml(note: string, referenceNumber: string): string {
+  const small = '<w:rPr><w:sz w:val="16"/><w:color w:val="666666"/></w:rPr>'
+  return (
+    `${XML_DECLARATION}<w:ftr ${W_NS} ${R_NS}>` +
+    paragraph(
+      run(note, { size: 8, color: LIGHT_TEXT }),
+      `<w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="E0E0E0"/></w:pBdr><w:spacing w:after="0"/><w:jc w:val="center"/>${small}`
+    ) +
+    paragraph(
+      run(`Ref: ${referenceNumber}`, { size: 8, color: LIGHT_TEXT }) +
+        '<w:r><w:tab/></w:r>' +
+        run('Page ', { size: 8, color: LIGHT_TEXT }) +
+        field('PAGE') +
+        run(' of ', { size: 8, color: LIGHT_TEXT }) +
+        field('NUMPAGES'),
+      `<w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs><w:spacing w:after="0"/>${small}`
+    ) +
+    '</w:ftr>'
+  )
+}
+
+function stylesXml(layout: PdfTemplateLayout): string {
+  const font = FONTS[layout.font]
+  const accent = color(layout.accent)
+  const heading = (level: number, size: number) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${accent}"/><w:sz w:val="${size * 2}"/></w:rPr></w:style>`
+
+  return (
+    `${XML_DECLARATION}<w:styles ${W_NS}>` +
+    '<w:docDefaults>' +
+    `<w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/><w:color w:val="333333"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>` +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>' +
+    '</w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    heading(1, 13) +
+    heading(2, 12) +
+    heading(3, 11) +
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/><w:color w:val="4A4A6A"/></w:rPr></w:style>' +
+    '</w:styles>'
+  )
+}
+
+function numberingXml(numbering: ListNumbering): string {
+  const levels = (format: 'bullet' | 'decimal') =>
+    [0, 1, 2].map(level => {
+      const text = format === 'bullet' ? ['•', '◦', '▪'][level] : `%${level + 1}.`
+      const indent = 720 * (level + 1)
+      return (
+        `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+        `<w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr></w:lvl>`
+      )
+    }).join('')
+
+  return (
+    `${XML_DECLARATION}<w:numbering ${W_NS}>` +
+    `<w:abstractNum w:abstractNumId="${BULLET_LIST}"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="${ORDERED_LIST}"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>` +
+    numbering.instances.map(({ id, abstractId }) => `<w:num w:numId="${id}"><w:abstractNumId w:val="${abstractId}"/></w:num>`).join('') +
+    '</w:numbering>'
+  )
+}
+
+function coreXml(title: string, created: string): string {
+  return (
+    `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${escapeXml(created)}</dcterms:created>` +
+    '</cp:coreProperties>'
+  )
+}
+
+const CONTENT_TYPES_XML =
+  `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+  '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '</Types>'
+
+const PACKAGE_RELS_XML =
+  `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  '</Relationships>'
+
+const DOCUMENT_RELS_XML =
+  `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+  '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>' +
+  '</Relationships>'
+
+/**
+ * Build an editable Word version of a letter with the same letterhead,
+ * parties, signature block and footer as its PDF. Editor headings, lists
+ * and emphasis become Word styles and numbering, so the letter can be
+ * revised in Word without reformatting.
+ */
+export function generateLetterDocx(data: PdfLetterData, config: DocxConfig = {}): DocxResult {
+  try {
+    const {
+      template = getPdfTemplate(data.letterType),
+      branding = DEFAULT_BRANDING,
+      footerNote = DEFAULT_FOOTER_NOTE,
+    } = config
+    const layout = PDF_TEMPLATE_LAYOUTS[template]
+    const numbering = new ListNumbering()
+
+    // The document is built first so it can claim list numbering instances
+    const document = documentXml(data, layout, branding, numbering)
+    const referenceNumber = data.referenceNumber || `TTML-${data.id.substring(0, 8).toUpperCase()}`
+
+    const buffer = createZip([
+      { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+      { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+      { name: 'docProps/core.xml', data: coreXml(data.title, data.approvedAt || data.createdAt) },
+      { name: 'word/document.xml', data: document },
+      { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+      { name: 'word/styles.xml', data: stylesXml(layout) },
+      { name: 'word/numbering.xml', data: numberingXml(numbering) },
+      { name: 'word/footer1.xml', data: footerXml(footerNote, referenceNumber) },
+    ])
+
+    return { success: true, buffer }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown DOCX generation error'
+    console.error('[DocxGenerator] Error:', errorMessage)
+
+    return {
+      success: false,
+      error: errorMessage,
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from './types'
+export { DOCX_CONTENT_TYPE, generateLetterDocx } from './generator'
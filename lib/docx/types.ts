@@ -0,0 +1,14 @@
+import type { PdfBranding, PdfTemplate } from '@/lib/pdf/types'
+
+export interface DocxConfig {
+  template?: PdfTemplate
+  branding?: PdfBranding
+  // Replaces the footer's review line, as on the PDF
+  footerNote?: string
+}
+
+export interface DocxResult {
+  success: boolean
+  buffer?: Buffer
+  error?: string
+}
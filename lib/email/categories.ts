@@ -0,0 +1,82 @@
+/**
+ * Email Categories
+ * Groups the templates into the categories users can unsubscribe from.
+ * Account and security email is always sent. Safe to import from client
+ * components.
+ */
+
+import type { EmailTemplate } from './types'
+
+export const EMAIL_CATEGORIES = {
+  account: {
+    label: 'Account and billing',
+    description: 'Sign-in, security, payment and subscription changes',
+    optional: false,
+  },
+  letters: {
+    label: 'Letter updates',
+    description: 'Reviews, approvals, comments and requested changes on your letters',
+    optional: true,
+  },
+  reminders: {
+    label: 'Reminders',
+    description: 'Response deadlines, upcoming renewals and trial endings',
+    optional: true,
+  },
+  commissions: {
+    label: 'Commissions',
+    description: 'Commissions earned and paid out on your referral code',
+    optional: true,
+  },
+  digest: {
+    label: 'Admin digest',
+    description: 'Daily summary of letters waiting for review',
+    optional: true,
+  },
+  announcements: {
+    label: 'Announcements',
+    description: 'Scheduled maintenance and product news',
+    optional: true,
+  },
+} as const
+
+export type EmailCategory = keyof typeof EMAIL_CATEGORIES
+
+export function isEmailCategory(value: unknown): value is EmailCategory {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EMAIL_CATEGORIES, value)
+}
+
+// Categories a recipient may turn off
+export const OPTIONAL_EMAIL_CATEGORIES = (Object.keys(EMAIL_CATEGORIES) as EmailCategory[])
+  .filter(category => EMAIL_CATEGORIES[category].optional)
+
+export function isOptionalCategory(category: string | null | undefined): category is EmailCategory {
+  return isEmailCategory(category) && EMAIL_CATEGORIES[category].optional
+}
+
+export const EMAIL_TEMPLATE_CATEGORIES: Record<EmailTemplate, EmailCategory> = {
+  welcome: 'account',
+  'password-reset': 'account',
+  'password-reset-confirmation': 'account',
+  'letter-approved': 'letters',
+  'letter-rejected': 'letters',
+  'letter-generated': 'letters',
+  'letter-under-review': 'letters',
+  'letter-comment': 'letters',
+  'letter-changes-requested': 'letters',
+  'letter-deadline-reminder': 'reminders',
+  'letter-deadline-passed': 'reminders',
+  'commission-earned': 'commissions',
+  'commission-paid': 'commissions',
+  'subscription-confirmation': 'account',
+  'subscription-renewal': 'account',
+  'subscription-cancelled': 'account',
+  'payment-failed': 'account',
+  'account-suspended': 'account',
+  'free-trial-ending': 'reminders',
+  'onboarding-complete': 'reminders',
+  'admin-alert': 'digest',
+  'review-sla-escalation': 'account',
+  'security-alert': 'account',
+  'system-maintenance': 'announcements',
+}
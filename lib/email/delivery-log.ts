@@ -0,0 +1,202 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { normalizeMessageId } from './webhooks'
+import type {
+  EmailDeliveryEvent,
+  EmailDeliveryStatus,
+  EmailMessage,
+  EmailProvider,
+  EmailResult,
+} from './types'
+
+// Database row type matching the email_delivery_log schema (snake_case)
+export interface EmailDeliveryLogRow {
+  id: string
+  email_queue_id: string | null
+  recipient_email: string
+  subject: string
+  template_type: string | null
+  provider: EmailProvider | null
+  status: EmailDeliveryStatus
+  error_message: string | null
+  response_time_ms: number | null
+  provider_message_id: string | null
+  provider_event_id: string | null
+  letter_id: string | null
+  bounce_type: 'hard' | 'soft' | null
+  url: string | null
+  occurred_at: string
+  created_at: string
+}
+
+export type SuppressionReason = 'hard_bounce' | 'complaint' | 'manual'
+
+function recipientsOf(to: string | string[]): string[] {
+  return (Array.isArray(to) ? to : to.split(','))
+    .map(address => address.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Email Delivery Log
+ * Records each send and the delivery events providers report for it, and
+ * keeps the list of addresses that must not be emailed again.
+ */
+export class EmailDeliveryLog {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  /**
+   * The given addresses that are on the suppression list
+   */
+  async findSuppressed(addresses: string[]): Promise<Set<string>> {
+    const emails = [...new Set(addresses.map(address => address.trim().toLowerCase()).filter(Boolean))]
+    if (emails.length === 0) return new Set()
+
+    const { data, error } = await this.supabase
+      .from('email_suppressions')
+      .select('email')
+      .in('email', emails)
+
+    if (error) {
+      console.error('[EmailDeliveryLog] Failed to check suppressions:', error)
+      throw error
+    }
+
+    return new Set((data || []).map(row => row.email as string))
+  }
+
+  async suppress(email: string, reason: SuppressionReason, provider?: EmailProvider, details?: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_suppressions')
+      .upsert({
+        email: email.trim().toLowerCase(),
+        reason,
+        provider: provider ?? null,
+        details: details?.slice(0, 1000) ?? null,
+      }, { onConflict: 'email', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('[EmailDeliveryLog] Failed to suppress address:', { email, error })
+      throw error
+    }
+  }
+
+  /**
+   * Log a send attempt, one row per recipient
+   */
+  async recordSend(message: EmailMessage, result: EmailResult, responseTimeMs: number): Promise<void> {
+    const rows = recipientsOf(message.to).map(recipient => ({
+      email_queue_id: message.tracking?.queueId ?? null,
+      recipient_email: recipient,
+      subject: message.subject,
+      template_type: message.tracking?.templateType ?? null,
+      provider: result.provider,
+      status: result.success ? 'sent' : 'failed',
+      error_message: result.error ?? null,
+      response_time_ms: responseTimeMs,
+      provider_message_id: result.messageId ? normalizeMessageId(result.provider, result.messageId) : null,
+      letter_id: message.tracking?.letterId ?? null,
+    }))
+
+    const { error } = await this.supabase.from('email_delivery_log').insert(rows)
+    if (error) {
+      console.error('[EmailDeliveryLog] Failed to log send:', { subject: message.subject, error })
+    }
+  }
+
+  /**
+   * Store webhook events against the send they belong to. Redelivered
+   * events are skipped, and hard bounces and complaints suppress the address.
+   */
+  async recordEvents(events: EmailDeliveryEvent[]): Promise<{ recorded: number; duplicates: number; suppressed: number }> {
+    const result = { recorded: 0, duplicates: 0, suppressed: 0 }
+
+    for (const event of events) {
+      const { data: send } = await this.supabase
+        .from('email_delivery_log')
+        .select('subject, template_type, letter_id, email_queue_id')
+        .eq('provider', event.provider)
+        .eq('provider_message_id', event.messageId)
+        .in('status', ['sent', 'failed'])
+        .limit(1)
+        .maybeSingle()
+
+      const { error } = await this.supabase.from('email_delivery_log').insert({
+        email_queue_id: send?.email_queue_id ?? null,
+        recipient_email: event.recipient,
+        subject: send?.subject ?? '',
+        template_type: send?.template_type ?? null,
+        provider: event.provider,
+        status: event.status,
+        error_message: event.reason ?? null,
+        provider_message_id: event.messageId,
+        provider_event_id: event.eventId ?? null,
+        letter_id: send?.letter_id ?? null,
+        bounce_type: event.bounceType ?? null,
+        url: event.url ?? null,
+        occurred_at: event.occurredAt,
+      })
+
+      if (error?.code === '23505') {
+        result.duplicates++
+        continue
+      }
+      if (error) {
+        console.error('[EmailDeliveryLog] Failed to record event:', { event, error })
+        throw error
+      }
+      result.recorded++
+
+      const reason: SuppressionReason | null = event.status === 'complained'
+        ? 'complaint'
+        : event.status === 'bounced' && event.bounceType === 'hard' ? 'hard_bounce' : null
+
+      if (reason && !event.recipientUncertain) {
+        await this.suppress(event.recipient, reason, event.provider, event.reason)
+        console.warn('[EmailDeliveryLog] Address suppressed:', { recipient: event.recipient, reason })
+        result.suppressed++
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Sends and delivery events for emails that carried a letter, oldest first
+   */
+  async listForLetter(letterId: string): Promise<EmailDeliveryLogRow[]> {
+    const { data, error } = await this.supabase
+      .from('email_delivery_log')
+      .select('*')
+      .eq('letter_id', letterId)
+      .order('occurred_at', { ascending: true })
+
+    if (error) {
+      console.error('[EmailDeliveryLog] Failed to list letter emails:', { letterId, error })
+      throw error
+    }
+
+    return (data || []) as EmailDeliveryLogRow[]
+  }
+}
+
+let logInstance: EmailDeliveryLog | null = null
+
+export function getEmailDeliveryLog(): EmailDeliveryLog {
+  if (!logInstance) {
+    logInstance = new EmailDeliveryLog()
+  }
+  return logInstance
+}
@@ -0,0 +1,91 @@
+/**
+ * Email Delivery Summary
+ * Rolls a message's logged send and webhook events up into one status per
+ * recipient. Safe to import from client components.
+ */
+
+import type { EmailDeliveryStatus, EmailProvider } from './types'
+
+export const EMAIL_DELIVERY_LABELS: Record<EmailDeliveryStatus, string> = {
+  sent: 'Sent',
+  failed: 'Not sent',
+  delivered: 'Delivered',
+  deferred: 'Delayed',
+  bounced: 'Bounced',
+  complained: 'Marked as spam',
+  opened: 'Opened',
+  clicked: 'Link clicked',
+}
+
+export interface EmailDeliveryRecord {
+  id: string
+  recipient_email: string
+  subject: string
+  provider: EmailProvider | null
+  status: EmailDeliveryStatus
+  provider_message_id: string | null
+  bounce_type: 'hard' | 'soft' | null
+  error_message: string | null
+  occurred_at: string
+}
+
+export interface EmailDeliverySummary {
+  key: string
+  recipient: string
+  subject: string
+  provider: EmailProvider | null
+  status: EmailDeliveryStatus
+  sentAt: string
+  deliveredAt: string | null
+  openedAt: string | null
+  problem: string | null
+}
+
+// Progress order for a message that has not failed
+const PROGRESS: EmailDeliveryStatus[] = ['sent', 'deferred', 'delivered', 'opened', 'clicked']
+
+function isPermanentFailure(record: Pick<EmailDeliveryRecord, 'status' | 'bounce_type'>): boolean {
+  return record.status === 'failed' || (record.status === 'bounced' && record.bounce_type !== 'soft')
+}
+
+/**
+ * One entry per message and recipient, newest first. A complaint or a
+ * permanent failure outranks any progress; a soft bounce only counts as a
+ * delay, since the provider keeps retrying.
+ */
+export function summarizeEmailDeliveries(records: EmailDeliveryRecord[]): EmailDeliverySummary[] {
+  const groups = new Map<string, EmailDeliveryRecord[]>()
+  for (const record of records) {
+    const key = `${record.provider_message_id ?? record.id}:${record.recipient_email}`
+    groups.set(key, [...(groups.get(key) || []), record])
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const sorted = [...group].sort((a, b) => a.occurred_at.localeCompare(b.occurred_at))
+      const first = sorted[0]!
+      const complaint = sorted.find(record => record.status === 'complained')
+      const failure = sorted.find(isPermanentFailure)
+
+      const progress = sorted.reduce<EmailDeliveryStatus>((current, record) => {
+        const status = record.status === 'bounced' ? 'deferred' : record.status
+        return PROGRESS.indexOf(status) > PROGRESS.indexOf(current) ? status : current
+      }, 'sent')
+
+      const status = complaint?.status ?? failure?.status ?? progress
+      const subject = sorted.find(record => record.subject)?.subject ?? ''
+
+      return {
+        key,
+        recipient: first.recipient_email,
+        subject,
+        provider: first.provider,
+        status,
+        sentAt: first.occurred_at,
+        deliveredAt: sorted.find(record => record.status === 'delivered')?.occurred_at ?? null,
+        openedAt: sorted.find(record => record.status === 'opened' || record.status === 'clicked')?.occurred_at ?? null,
+        problem: (complaint ?? failure)?.error_message ?? null,
+      }
+    })
+    .sort((a, b) => b.sentAt.localeCompare(a.sentAt))
+}
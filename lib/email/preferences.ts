@@ -0,0 +1,117 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { ValidationError } from '@/lib/errors/error-handler'
+import { isOptionalCategory, OPTIONAL_EMAIL_CATEGORIES, type EmailCategory } from './categories'
+
+// Database row type matching the email_unsubscribes schema (snake_case)
+export interface EmailUnsubscribeRow {
+  email: string
+  category: EmailCategory
+  source: 'link' | 'settings'
+  created_at: string
+}
+
+function recipientsOf(to: string | string[]): string[] {
+  return (Array.isArray(to) ? to : to.split(','))
+    .map(address => address.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Email Preferences
+ * The categories each address has unsubscribed from, set from an email's
+ * unsubscribe link or the settings page. Preferences are stored by address
+ * so they also cover recipients without an account.
+ */
+export class EmailPreferences {
+  private supabase: SupabaseClient
+  private tableName = 'email_unsubscribes' as const
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  /**
+   * Whether each optional category is on for an address
+   */
+  async getPreferences(email: string): Promise<Record<EmailCategory, boolean>> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('category')
+      .eq('email', email.trim().toLowerCase())
+
+    if (error) {
+      console.error('[EmailPreferences] Failed to load preferences:', error)
+      throw error
+    }
+
+    const unsubscribed = new Set((data || []).map(row => row.category as string))
+    return Object.fromEntries(
+      OPTIONAL_EMAIL_CATEGORIES.map(category => [category, !unsubscribed.has(category)])
+    ) as Record<EmailCategory, boolean>
+  }
+
+  async setSubscribed(
+    email: string,
+    category: string,
+    subscribed: boolean,
+    source: EmailUnsubscribeRow['source']
+  ): Promise<void> {
+    if (!isOptionalCategory(category)) {
+      throw new ValidationError('This email category cannot be turned off')
+    }
+
+    const address = email.trim().toLowerCase()
+    const { error } = subscribed
+      ? await this.supabase.from(this.tableName).delete().eq('email', address).eq('category', category)
+      : await this.supabase
+          .from(this.tableName)
+          .upsert({ email: address, category, source }, { onConflict: 'email,category', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('[EmailPreferences] Failed to update preference:', { category, subscribed, error })
+      throw error
+    }
+  }
+
+  /**
+   * The recipients still subscribed to a category. Required categories keep
+   * every recipient, and so does a failed lookup, so a database problem
+   * never drops email.
+   */
+  async filterSubscribed(to: string | string[], category: string | null): Promise<string[]> {
+    const recipients = recipientsOf(to)
+    if (!isOptionalCategory(category) || recipients.length === 0) return recipients
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('email')
+      .eq('category', category)
+      .in('email', recipients)
+
+    if (error) {
+      console.warn('[EmailPreferences] Failed to check unsubscribes, sending anyway:', error)
+      return recipients
+    }
+
+    const unsubscribed = new Set((data || []).map(row => row.email as string))
+    return recipients.filter(address => !unsubscribed.has(address))
+  }
+}
+
+let preferencesInstance: EmailPreferences | null = null
+
+export function getEmailPreferences(): EmailPreferences {
+  if (!preferencesInstance) {
+    preferencesInstance = new EmailPreferences()
+  }
+  return preferencesInstance
+}
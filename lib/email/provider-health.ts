@@ -0,0 +1,133 @@
+/**
+ * Email Provider Health
+ * Tracks each provider's recent send results so the email service can
+ * demote a failing provider behind the healthy ones. State lives in memory,
+ * per server instance, like the AI circuit breakers.
+ */
+
+import type { EmailProvider } from './types'
+
+export interface ProviderHealthConfig {
+  // Sends older than this no longer count towards the error rate
+  windowMs: number
+  // Fewer sends than this in the window never demote a provider
+  minSamples: number
+  // Error rate at or above which the provider is demoted
+  errorRateThreshold: number
+  // How long a demoted provider stays behind the others before it is tried again
+  cooldownMs: number
+}
+
+export interface ProviderHealthSnapshot {
+  provider: EmailProvider
+  healthy: boolean
+  sends: number
+  failures: number
+  errorRate: number
+  demotedUntil: string | null
+  lastError: string | null
+}
+
+const DEFAULT_HEALTH_CONFIG: ProviderHealthConfig = {
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  minSamples: 3,
+  errorRateThreshold: 0.5,
+  cooldownMs: 2 * 60 * 1000, // 2 minutes
+}
+
+interface ProviderState {
+  recent: Array<{ timestamp: number; success: boolean }>
+  demotedUntil: number
+  lastError: string | null
+}
+
+export class ProviderHealthTracker {
+  private states = new Map<EmailProvider, ProviderState>()
+  private config: ProviderHealthConfig
+
+  constructor(config: Partial<ProviderHealthConfig> = {}) {
+    this.config = { ...DEFAULT_HEALTH_CONFIG, ...config }
+  }
+
+  private state(provider: EmailProvider, now: number): ProviderState {
+    let state = this.states.get(provider)
+    if (!state) {
+      state = { recent: [], demotedUntil: 0, lastError: null }
+      this.states.set(provider, state)
+    }
+
+    state.recent = state.recent.filter(call => now - call.timestamp < this.config.windowMs)
+
+    // A provider that has served its cooldown starts over with a clean window
+    if (state.demotedUntil && now >= state.demotedUntil) {
+      state.demotedUntil = 0
+      state.recent = []
+    }
+
+    return state
+  }
+
+  recordSuccess(provider: EmailProvider, now: number = Date.now()): void {
+    this.state(provider, now).recent.push({ timestamp: now, success: true })
+  }
+
+  recordFailure(provider: EmailProvider, error?: string, now: number = Date.now()): void {
+    const state = this.state(provider, now)
+    state.recent.push({ timestamp: now, success: false })
+    state.lastError = error ?? null
+
+    const failures = state.recent.filter(call => !call.success).length
+    if (
+      !state.demotedUntil &&
+      state.recent.length >= this.config.minSamples &&
+      failures / state.recent.length >= this.config.errorRateThreshold
+    ) {
+      state.demotedUntil = now + this.config.cooldownMs
+      console.warn('[EmailProviderHealth] Provider demoted:', {
+        provider,
+        failures,
+        sends: state.recent.length,
+        until: new Date(state.demotedUntil).toISOString(),
+      })
+    }
+  }
+
+  isHealthy(provider: EmailProvider, now: number = Date.now()): boolean {
+    return !this.state(provider, now).demotedUntil
+  }
+
+  /**
+   * The providers in failover order: healthy ones keep their configured
+   * order and demoted ones move to the back, so they are still tried when
+   * nothing else works
+   */
+  rank(providers: EmailProvider[], now: number = Date.now()): EmailProvider[] {
+    const healthy = providers.filter(provider => this.isHealthy(provider, now))
+    const demoted = providers.filter(provider => !healthy.includes(provider))
+    return [...healthy, ...demoted]
+  }
+
+  snapshot(providers: EmailProvider[], now: number = Date.now()): ProviderHealthSnapshot[] {
+    return providers.map(provider => {
+      const state = this.state(provider, now)
+      const failures = state.recent.filter(call => !call.success).length
+      return {
+        provider,
+        healthy: !state.demotedUntil,
+        sends: state.recent.length,
+        failures,
+        errorRate: state.recent.length > 0 ? failures / state.recent.length : 0,
+        demotedUntil: state.demotedUntil ? new Date(state.demotedUntil).toISOString() : null,
+        lastError: state.lastError,
+      }
+    })
+  }
+
+  reset(provider?: EmailProvider): void {
+    if (provider) {
+      this.states.delete(provider)
+    } else {
+      this.states.clear()
+    }
+  }
+}
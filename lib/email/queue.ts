@@ -1,19 +1,32 @@
+import { randomUUID } from 'crypto'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
-import { EmailMessage } from './types'
+import { EmailMessage, EmailProvider, EmailTemplate, TemplateData } from './types'
 import { getEmailService } from './service'
+import { getEmailTemplateStore } from './template-store'
+import { EMAIL_TEMPLATE_CATEGORIES, type EmailCategory } from './categories'
+import { getEmailPreferences } from './preferences'
+import { buildUnsubscribeUrl, withUnsubscribeLink } from './unsubscribe'
+
+export type EmailQueueStatus = 'pending' | 'processing' | 'sent' | 'skipped' | 'dead'
 
 // Database row type matching the actual schema (snake_case)
-interface EmailQueueRow {
+export interface EmailQueueRow {
   id: string
   to: string
   subject: string
   html: string | null
   text: string | null
-  status: 'pending' | 'sent' | 'failed'
+  status: EmailQueueStatus
   attempts: number
   max_retries: number
   next_retry_at: string | null
   error: string | null
+  provider: EmailProvider | null
+  category: EmailCategory | null
+  dedupe_key: string | null
+  locked_by: string | null
+  locked_until: string | null
+  dead_lettered_at: string | null
   created_at: string
   sent_at: string | null
   updated_at: string
@@ -25,18 +38,89 @@ export interface EmailQueueItem {
   subject: string
   html?: string
   text?: string
-  status: 'pending' | 'sent' | 'failed'
+  status: EmailQueueStatus
   attempts: number
   maxRetries: number
   nextRetryAt?: string
   error?: string
+  provider?: EmailProvider
+  category?: EmailCategory
   createdAt?: string
   sentAt?: string
 }
 
+export interface EnqueueOptions {
+  // Send no earlier than this; defaults to now
+  sendAt?: Date
+  // Recipients who unsubscribed from the category are skipped at send time
+  category?: EmailCategory
+  // Queue the email only once per key, e.g. `subscription-renewal:<id>:<period end>`
+  dedupeKey?: string
+}
+
+export interface EmailQueueConfig {
+  // Rows claimed per run
+  batchSize: number
+  // Emails sent at the same time within a run
+  concurrency: number
+  // How long a claimed row is held before another run may claim it again
+  leaseMs: number
+}
+
+// How a claimed row ended; `lost` means its lease ran out and another run took it
+type EmailQueueOutcome = 'sent' | 'retrying' | 'dead' | 'skipped' | 'lost'
+
+export interface EmailQueueRunResult {
+  claimed: number
+  sent: number
+  retrying: number
+  deadLettered: number
+  skipped: number
+}
+
+const MAX_BATCH_SIZE = 100
+
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Queue processing settings, configurable through EMAIL_QUEUE_BATCH_SIZE,
+ * EMAIL_QUEUE_CONCURRENCY and EMAIL_QUEUE_LEASE_SECONDS
+ */
+export function getEmailQueueConfig(env: Record<string, string | undefined> = process.env): EmailQueueConfig {
+  const batchSize = Math.min(positiveInteger(env.EMAIL_QUEUE_BATCH_SIZE, 10), MAX_BATCH_SIZE)
+  return {
+    batchSize,
+    concurrency: Math.min(positiveInteger(env.EMAIL_QUEUE_CONCURRENCY, 3), batchSize),
+    leaseMs: positiveInteger(env.EMAIL_QUEUE_LEASE_SECONDS, 300) * 1000,
+  }
+}
+
+/**
+ * Run `task` for each item with at most `limit` running at once
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]!)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker))
+}
+
 /**
  * Email Queue Service
- * Provides reliable email delivery with retry logic and persistence
+ * Provides reliable email delivery with retry logic and persistence.
+ * Emails that run out of retries are dead-lettered for an admin to retry
+ * or purge.
  */
 export class EmailQueue {
   private supabase: SupabaseClient
@@ -50,9 +134,9 @@ export class EmailQueue {
   }
 
   /**
-   * Add an email to the queue
+   * Add an email to the queue, to be sent now or at `options.sendAt`
    */
-  async enqueue(message: EmailMessage, maxRetries: number = 3): Promise<string> {
+  async enqueue(message: EmailMessage, maxRetries: number = 3, options: EnqueueOptions = {}): Promise<string> {
     try {
       const { data, error } = await this.supabase
         .from(this.tableName)
@@ -64,18 +148,31 @@ export class EmailQueue {
           status: 'pending',
           attempts: 0,
           max_retries: maxRetries,
-          next_retry_at: new Date().toISOString(),
+          next_retry_at: (options.sendAt ?? new Date()).toISOString(),
+          category: options.category ?? null,
+          dedupe_key: options.dedupeKey ?? null,
           created_at: new Date().toISOString()
         } as EmailQueueRow)
         .select('id')
         .single()
 
+      if (error?.code === '23505' && options.dedupeKey) {
+        // Already scheduled by an earlier run
+        const { data: existing } = await this.supabase
+          .from(this.tableName)
+          .select('id')
+          .eq('dedupe_key', options.dedupeKey)
+          .maybeSingle()
+
+        return existing?.id || ''
+      }
+
       if (error) {
         console.error('[EmailQueue] Failed to enqueue email:', error)
         throw error
       }
 
-      console.log('[EmailQueue] Email queued:', { id: data?.id, to: message.to })
+      console.log('[EmailQueue] Email queued:', { id: data?.id, to: message.to, sendAt: options.sendAt })
       return data?.id || ''
     } catch (error) {
       console.error('[EmailQueue] Error enqueueing email:', error)
@@ -84,127 +181,297 @@ export class EmailQueue {
   }
 
   /**
-   * Process pending emails in the queue
+   * Render a template in the recipient's language and add it to the queue.
+   * The category defaults to the template's; email to a single recipient in
+   * an optional category carries an unsubscribe link.
    */
-  async processPending(): Promise<void> {
+  async enqueueTemplate(
+    template: EmailTemplate,
+    to: string | string[],
+    data: TemplateData,
+    maxRetries: number = 3,
+    options: EnqueueOptions = {}
+  ): Promise<string> {
+    const category = options.category ?? EMAIL_TEMPLATE_CATEGORIES[template]
+    let output = await getEmailTemplateStore().renderFor(template, to, data)
+
+    const recipients = Array.isArray(to) ? to : to.split(',')
+    const unsubscribeUrl = recipients.length === 1 ? buildUnsubscribeUrl(recipients[0]!, category) : null
+    if (unsubscribeUrl) {
+      output = withUnsubscribeLink(output, category, unsubscribeUrl)
+    }
+
+    const { subject, text, html } = output
+    return this.enqueue({ to, subject, text, html }, maxRetries, { ...options, category })
+  }
+
+  /**
+   * Claim a batch of due emails and send them. Rows are claimed atomically
+   * with a lease, so overlapping runs never pick up the same email; a row
+   * whose worker dies mid-send is claimed again once its lease runs out.
+   */
+  async processPending(config: EmailQueueConfig = getEmailQueueConfig()): Promise<EmailQueueRunResult> {
+    const result: EmailQueueRunResult = { claimed: 0, sent: 0, retrying: 0, deadLettered: 0, skipped: 0 }
+
     try {
-      const { data: items, error } = await this.supabase
-        .from(this.tableName)
-        .select('*')
-        .eq('status', 'pending')
-        .lte('next_retry_at', new Date().toISOString())
-        .limit(10) // Process 10 at a time
+      const worker = randomUUID()
+      const { data: rows, error } = await this.supabase
+        .rpc('claim_email_queue_batch', {
+          p_worker: worker,
+          p_limit: config.batchSize,
+          p_lease_seconds: Math.ceil(config.leaseMs / 1000)
+        })
 
       if (error) {
-        console.error('[EmailQueue] Failed to fetch pending emails:', error)
-        return
+        console.error('[EmailQueue] Failed to claim pending emails:', error)
+        return result
       }
 
-      if (!items || items.length === 0) {
+      const claimed = (rows || []) as EmailQueueRow[]
+      if (claimed.length === 0) {
         console.log('[EmailQueue] No pending emails to process')
-        return
+        return result
       }
 
-      console.log(`[EmailQueue] Processing ${items.length} pending emails`)
+      result.claimed = claimed.length
+      console.log(`[EmailQueue] Processing ${claimed.length} pending emails`, { worker, concurrency: config.concurrency })
 
-      for (const item of items) {
-        await this.processItem(item)
-      }
+      await runWithConcurrency(claimed, config.concurrency, async (row) => {
+        const outcome = await this.processItem(row, worker)
+        if (outcome === 'sent') result.sent++
+        else if (outcome === 'retrying') result.retrying++
+        else if (outcome === 'dead') result.deadLettered++
+        else if (outcome === 'skipped') result.skipped++
+      })
     } catch (error) {
       console.error('[EmailQueue] Error processing queue:', error)
     }
+
+    return result
   }
 
   /**
-   * Process a single queue item
+   * Process a single claimed queue item
    */
-  private async processItem(row: EmailQueueRow): Promise<void> {
+  private async processItem(row: EmailQueueRow, worker: string): Promise<EmailQueueOutcome> {
     try {
+      // Claims whose lease lapsed count as attempts; stop once they run out
+      if (row.attempts >= (row.max_retries || 3)) {
+        return await this.release(row, worker, {
+          status: 'dead',
+          dead_lettered_at: new Date().toISOString(),
+          error: row.error || 'Lease expired before the email was sent'
+        }) ? 'dead' : 'lost'
+      }
+
+      const recipients = await getEmailPreferences().filterSubscribed(row.to, row.category)
+      if (recipients.length === 0) {
+        const released = await this.release(row, worker, {
+          status: 'skipped',
+          error: `Recipient unsubscribed from ${row.category} email`
+        })
+
+        console.log('[EmailQueue] Email skipped, recipient unsubscribed:', { id: row.id, category: row.category })
+        return released ? 'skipped' : 'lost'
+      }
+
       const emailService = getEmailService()
       const message: EmailMessage = {
-        to: row.to,
+        to: recipients.join(','),
         subject: row.subject,
         ...(row.html && { html: row.html }),
-        ...(row.text && { text: row.text })
+        ...(row.text && { text: row.text }),
+        tracking: { queueId: row.id }
       }
 
       const result = await emailService.send(message)
 
       if (result.success) {
-        // Mark as sent
-        await this.supabase
-          .from(this.tableName)
-          .update({
-            status: 'sent',
-            sent_at: new Date().toISOString()
-          } as Partial<EmailQueueRow>)
-          .eq('id', row.id)
+        // Mark as sent, recording the provider that took it after any failover
+        const released = await this.release(row, worker, {
+          status: 'sent',
+          provider: result.provider,
+          sent_at: new Date().toISOString()
+        })
 
-        console.log('[EmailQueue] Email sent successfully:', { id: row.id })
+        console.log('[EmailQueue] Email sent successfully:', { id: row.id, provider: result.provider })
+        return released ? 'sent' : 'lost'
+      } else if (result.suppressed) {
+        // Retrying cannot help an address that bounced or complained
+        return await this.release(row, worker, {
+          status: 'dead',
+          attempts: (row.attempts || 0) + 1,
+          dead_lettered_at: new Date().toISOString(),
+          error: result.error ?? null
+        }) ? 'dead' : 'lost'
       } else {
         // Handle retry
-        await this.handleRetryRow(row, result.error)
+        return await this.handleRetryRow(row, worker, result.error)
       }
     } catch (error) {
       console.error('[EmailQueue] Error processing item:', { id: row.id, error })
-      await this.handleRetryRow(row, String(error))
+      return this.handleRetryRow(row, worker, String(error))
+    }
+  }
+
+  /**
+   * Write a processed row back and give up its claim. Returns false when the
+   * lease ran out and another worker claimed the row in the meantime.
+   */
+  private async release(row: EmailQueueRow, worker: string, changes: Partial<EmailQueueRow>): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .update({
+        ...changes,
+        locked_by: null,
+        locked_until: null,
+        updated_at: new Date().toISOString()
+      } as Partial<EmailQueueRow>)
+      .eq('id', row.id)
+      .eq('locked_by', worker)
+      .select('id')
+
+    if (error) {
+      console.error('[EmailQueue] Failed to update queue item:', { id: row.id, error })
+      return false
+    }
+
+    if (!data?.length) {
+      console.warn('[EmailQueue] Lease lost before the item was updated:', { id: row.id, worker })
+      return false
     }
+
+    return true
   }
 
   /**
    * Handle retry logic for failed emails (using EmailQueueRow from database)
    */
-  private async handleRetryRow(row: EmailQueueRow, error?: string): Promise<void> {
+  private async handleRetryRow(row: EmailQueueRow, worker: string, error?: string): Promise<EmailQueueOutcome> {
     const newAttempts = (row.attempts || 0) + 1
     const maxRetries = row.max_retries || 3
 
     if (newAttempts >= maxRetries) {
-      // Mark as failed
-      await this.supabase
-        .from(this.tableName)
-        .update({
-          status: 'failed',
-          attempts: newAttempts,
-          error: error || 'Max retries exceeded'
-        } as Partial<EmailQueueRow>)
-        .eq('id', row.id)
-
-      console.error('[EmailQueue] Email failed after max retries:', {
-        id: row.id,
+      // Move to the dead-letter state for an admin to retry or purge
+      const released = await this.release(row, worker, {
+        status: 'dead',
         attempts: newAttempts,
-        error
+        dead_lettered_at: new Date().toISOString(),
+        error: error || 'Max retries exceeded'
       })
-    } else {
-      // Schedule next retry with exponential backoff
-      const backoffMs = Math.pow(2, newAttempts - 1) * 5 * 60 * 1000 // 5min, 10min, 20min
-      const next_retry_at = new Date(Date.now() + backoffMs).toISOString()
 
-      await this.supabase
-        .from(this.tableName)
-        .update({
-          attempts: newAttempts,
-          next_retry_at,
-          error: error || 'Retry scheduled'
-        } as Partial<EmailQueueRow>)
-        .eq('id', row.id)
-
-      console.log('[EmailQueue] Email retry scheduled:', {
+      console.error('[EmailQueue] Email dead-lettered after max retries:', {
         id: row.id,
-        attempt: newAttempts,
-        next_retry_at
+        attempts: newAttempts,
+        error
       })
+      return released ? 'dead' : 'lost'
+    }
+
+    // Schedule next retry with exponential backoff
+    const backoffMs = Math.pow(2, newAttempts - 1) * 5 * 60 * 1000 // 5min, 10min, 20min
+    const next_retry_at = new Date(Date.now() + backoffMs).toISOString()
+
+    const released = await this.release(row, worker, {
+      status: 'pending',
+      attempts: newAttempts,
+      next_retry_at,
+      error: error || 'Retry scheduled'
+    })
+
+    console.log('[EmailQueue] Email retry scheduled:', {
+      id: row.id,
+      attempt: newAttempts,
+      next_retry_at
+    })
+    return released ? 'retrying' : 'lost'
+  }
+
+  /**
+   * Dead-lettered emails, most recent first
+   */
+  async listDeadLetters(limit: number = 50, offset: number = 0): Promise<{ items: EmailQueueRow[]; total: number }> {
+    const { data, count, error } = await this.supabase
+      .from(this.tableName)
+      .select('*', { count: 'exact' })
+      .eq('status', 'dead')
+      .order('dead_lettered_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('[EmailQueue] Failed to list dead letters:', error)
+      throw error
+    }
+
+    return { items: (data || []) as EmailQueueRow[], total: count ?? 0 }
+  }
+
+  /**
+   * Queue dead-lettered emails again with a fresh set of attempts; all of
+   * them when no ids are given. Returns the number requeued.
+   */
+  async retryDeadLetters(ids?: string[]): Promise<number> {
+    let query = this.supabase
+      .from(this.tableName)
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_retry_at: new Date().toISOString(),
+        dead_lettered_at: null,
+        error: null,
+        updated_at: new Date().toISOString()
+      } as Partial<EmailQueueRow>)
+      .eq('status', 'dead')
+
+    if (ids) {
+      query = query.in('id', ids)
+    }
+
+    const { data, error } = await query.select('id')
+
+    if (error) {
+      console.error('[EmailQueue] Failed to retry dead letters:', error)
+      throw error
     }
+
+    console.log('[EmailQueue] Dead letters requeued:', { count: data?.length ?? 0 })
+    return data?.length ?? 0
+  }
+
+  /**
+   * Delete dead-lettered emails, by id or dead-lettered before a date; all
+   * of them when neither is given. Returns the number deleted.
+   */
+  async purgeDeadLetters(options: { ids?: string[]; before?: Date } = {}): Promise<number> {
+    let query = this.supabase
+      .from(this.tableName)
+      .delete()
+      .eq('status', 'dead')
+
+    if (options.ids) {
+      query = query.in('id', options.ids)
+    }
+    if (options.before) {
+      query = query.lt('dead_lettered_at', options.before.toISOString())
+    }
+
+    const { data, error } = await query.select('id')
+
+    if (error) {
+      console.error('[EmailQueue] Failed to purge dead letters:', error)
+      throw error
+    }
+
+    console.log('[EmailQueue] Dead letters purged:', { count: data?.length ?? 0 })
+    return data?.length ?? 0
   }
 
   /**
    * Get queue statistics
    */
-  async getStats(): Promise<{
-    pending: number
-    sent: number
-    failed: number
-    total: number
-  }> {
+  async getStats(): Promise<Record<EmailQueueStatus, number> & { total: number }> {
+    const empty = { pending: 0, processing: 0, sent: 0, skipped: 0, dead: 0, total: 0 }
+
     try {
       const { data, error } = await this.supabase
         .from(this.tableName)
@@ -212,20 +479,20 @@ export class EmailQueue {
 
       if (error) {
         console.error('[EmailQueue] Failed to fetch stats:', error)
-        return { pending: 0, sent: 0, failed: 0, total: 0 }
+        return empty
       }
 
-      const stats = {
-        pending: data?.filter((item) => item.status === 'pending').length || 0,
-        sent: data?.filter((item) => item.status === 'sent').length || 0,
-        failed: data?.filter((item) => item.status === 'failed').length || 0,
-        total: data?.length || 0
+      const stats = { ...empty, total: data?.length || 0 }
+      for (const item of data || []) {
+        if (item.status in stats) {
+          stats[item.status as EmailQueueStatus]++
+        }
       }
 
       return stats
     } catch (error) {
       console.error('[EmailQueue] Error getting stats:', error)
-      return { pending: 0, sent: 0, failed: 0, total: 0 }
+      return empty
     }
   }
 }
@@ -243,25 +510,11 @@ export function getEmailQueue(): EmailQueue {
  * Process email queue and return results
  * Used by cron endpoint
  */
-export async function processEmailQueue(): Promise<{
-  processed: number
-  failed: number
-  remaining: number
-}> {
+export async function processEmailQueue(): Promise<EmailQueueRunResult & { remaining: number }> {
   const queue = getEmailQueue()
-  
-  // Get initial stats
-  const beforeStats = await queue.getStats()
-  
-  // Process pending emails
-  await queue.processPending()
-  
-  // Get updated stats
-  const afterStats = await queue.getStats()
-  
-  return {
-    processed: beforeStats.pending - afterStats.pending,
-    failed: afterStats.failed - beforeStats.failed,
-    remaining: afterStats.pending
-  }
+
+  const result = await queue.processPending()
+  const stats = await queue.getStats()
+
+  return { ...result, remaining: stats.pending }
 }
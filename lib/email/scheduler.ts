@@ -0,0 +1,219 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { getPlanCatalog } from '@/lib/billing/plan-catalog'
+import { getEmailQueue } from './queue'
+
+// Days before current_period_end that the renewal reminder goes out
+export const RENEWAL_REMINDER_DAYS = 3
+
+// Days before a free trial ends that the trial reminder goes out
+export const TRIAL_ENDING_REMINDER_DAYS = 2
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Letter statuses counted in the admin digest
+const PENDING_REVIEW_STATUSES = ['pending_review', 'under_review']
+
+interface ScheduledSubscriptionRow {
+  id: string
+  plan_type: string | null
+  current_period_end: string
+  profiles: { email: string | null; full_name: string | null } | null
+}
+
+export interface ScheduledEmailsResult {
+  renewalReminders: number
+  trialReminders: number
+  digests: number
+}
+
+/**
+ * When a reminder due `daysBefore` days ahead of `periodEnd` should be sent;
+ * now, when that moment has already passed
+ */
+export function reminderSendAt(periodEnd: string, daysBefore: number, now: Date = new Date()): Date {
+  const due = new Date(new Date(periodEnd).getTime() - daysBefore * DAY_MS)
+  return due > now ? due : now
+}
+
+// Whole days left until `end`, rounded up so a trial ending later today counts as 1
+export function daysRemaining(end: string, from: Date): number {
+  return Math.max(0, Math.ceil((new Date(end).getTime() - from.getTime()) / DAY_MS))
+}
+
+/**
+ * Email Scheduler
+ * Queues the recurring emails: renewal and trial-ending reminders a few days
+ * before the billing period ends, and the daily digest of letters waiting
+ * for review. Run once a day; each email is queued at the time it is due,
+ * under a dedupe key so overlapping or repeated runs queue it only once.
+ */
+export class EmailScheduler {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  private siteUrl(): string {
+    return process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  }
+
+  // Subscriptions whose period ends before the next run's reminders fall due
+  private async subscriptionsEndingSoon(status: 'active' | 'trialing', daysBefore: number, now: Date) {
+    const { data, error } = await this.supabase
+      .from('subscriptions')
+      .select('id, plan_type, current_period_end, profiles(email, full_name)')
+      .eq('status', status)
+      .eq('cancel_at_period_end', false)
+      .not('stripe_subscription_id', 'is', null)
+      .gt('current_period_end', now.toISOString())
+      .lte('current_period_end', new Date(now.getTime() + (daysBefore + 1) * DAY_MS).toISOString())
+      .limit(500)
+
+    if (error) {
+      console.error('[EmailScheduler] Failed to load subscriptions:', { status, error })
+      throw error
+    }
+
+    return (data || []) as unknown as ScheduledSubscriptionRow[]
+  }
+
+  async scheduleRenewalReminders(now: Date = new Date()): Promise<number> {
+    const subscriptions = await this.subscriptionsEndingSoon('active', RENEWAL_REMINDER_DAYS, now)
+    const queue = getEmailQueue()
+    let scheduled = 0
+
+    for (const subscription of subscriptions) {
+      if (!subscription.profiles?.email) continue
+
+      try {
+        // Without nextBillingDate the template is the upcoming-renewal reminder
+        await queue.enqueueTemplate('subscription-renewal', subscription.profiles.email, {
+          userName: subscription.profiles.full_name || 'there',
+          subscriptionPlan: (await getPlanCatalog().get(subscription.plan_type))?.name ?? 'subscription',
+          actionUrl: `${this.siteUrl()}/dashboard/subscription`,
+        }, 3, {
+          sendAt: reminderSendAt(subscription.current_period_end, RENEWAL_REMINDER_DAYS, now),
+          category: 'reminders',
+          dedupeKey: `subscription-renewal:${subscription.id}:${subscription.current_period_end}`,
+        })
+        scheduled++
+      } catch (error) {
+        console.error('[EmailScheduler] Failed to queue renewal reminder:', { subscriptionId: subscription.id, error })
+      }
+    }
+
+    return scheduled
+  }
+
+  async scheduleTrialEndingReminders(now: Date = new Date()): Promise<number> {
+    const subscriptions = await this.subscriptionsEndingSoon('trialing', TRIAL_ENDING_REMINDER_DAYS, now)
+    const queue = getEmailQueue()
+    let scheduled = 0
+
+    for (const subscription of subscriptions) {
+      if (!subscription.profiles?.email) continue
+
+      const sendAt = reminderSendAt(subscription.current_period_end, TRIAL_ENDING_REMINDER_DAYS, now)
+      try {
+        await queue.enqueueTemplate('free-trial-ending', subscription.profiles.email, {
+          userName: subscription.profiles.full_name || 'there',
+          trialDaysRemaining: daysRemaining(subscription.current_period_end, sendAt),
+          actionUrl: `${this.siteUrl()}/dashboard/subscription`,
+        }, 3, {
+          sendAt,
+          dedupeKey: `free-trial-ending:${subscription.id}:${subscription.current_period_end}`,
+        })
+        scheduled++
+      } catch (error) {
+        console.error('[EmailScheduler] Failed to queue trial reminder:', { subscriptionId: subscription.id, error })
+      }
+    }
+
+    return scheduled
+  }
+
+  /**
+   * Email each admin the number of letters waiting for review. Nothing is
+   * sent on days without pending reviews.
+   */
+  async scheduleAdminDigest(now: Date = new Date()): Promise<number> {
+    const { data: oldest, count, error } = await this.supabase
+      .from('letters')
+      .select('created_at', { count: 'exact' })
+      .in('status', PENDING_REVIEW_STATUSES)
+      .order('created_at', { ascending: true })
+      .limit(1)
+
+    if (error) {
+      console.error('[EmailScheduler] Failed to count pending reviews:', error)
+      throw error
+    }
+
+    const pendingReviews = count ?? 0
+    if (pendingReviews === 0) return 0
+
+    const { data: admins, error: adminsError } = await this.supabase
+      .from('profiles')
+      .select('email, full_name')
+      .eq('role', 'admin')
+
+    if (adminsError) {
+      console.error('[EmailScheduler] Failed to load admins:', adminsError)
+      throw adminsError
+    }
+
+    const waitingDays = oldest?.[0] ? Math.floor((now.getTime() - new Date(oldest[0].created_at).getTime()) / DAY_MS) : 0
+    const alertMessage = `${pendingReviews} letter${pendingReviews === 1 ? ' is' : 's are'} waiting for attorney review.`
+      + (waitingDays > 0 ? ` The oldest has been waiting ${waitingDays} day${waitingDays === 1 ? '' : 's'}.` : '')
+    const today = now.toISOString().substring(0, 10)
+    const queue = getEmailQueue()
+    let scheduled = 0
+
+    for (const admin of admins || []) {
+      if (!admin.email) continue
+
+      try {
+        await queue.enqueueTemplate('admin-alert', admin.email, {
+          userName: admin.full_name || 'there',
+          alertMessage,
+          pendingReviews,
+          actionUrl: `${this.siteUrl()}/secure-admin-gateway/review`,
+        }, 3, {
+          dedupeKey: `admin-digest:${today}:${admin.email.toLowerCase()}`,
+        })
+        scheduled++
+      } catch (error) {
+        console.error('[EmailScheduler] Failed to queue admin digest:', { email: admin.email, error })
+      }
+    }
+
+    return scheduled
+  }
+
+  async runDaily(now: Date = new Date()): Promise<ScheduledEmailsResult> {
+    return {
+      renewalReminders: await this.scheduleRenewalReminders(now),
+      trialReminders: await this.scheduleTrialEndingReminders(now),
+      digests: await this.scheduleAdminDigest(now),
+    }
+  }
+}
+
+let schedulerInstance: EmailScheduler | null = null
+
+export function getEmailScheduler(): EmailScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new EmailScheduler()
+  }
+  return schedulerInstance
+}
@@ -11,15 +11,52 @@ import { BrevoProvider } from './providers/brevo'
 import { ResendProvider, createResendProvider } from './providers/resend'
 import { SMTPProvider, createSMTPProvider } from './providers/smtp'
 import { ConsoleProvider } from './providers/console'
-import { renderTemplate } from './templates'
+import { getEmailTemplateStore } from './template-store'
+import { getEmailDeliveryLog, type EmailDeliveryLog } from './delivery-log'
+import { ProviderHealthTracker, type ProviderHealthSnapshot } from './provider-health'
+import { EMAIL_TEMPLATE_CATEGORIES } from './categories'
+import { getEmailPreferences, type EmailPreferences } from './preferences'
+import { buildUnsubscribeUrl, withUnsubscribeLink } from './unsubscribe'
+
+// Order in which configured providers are picked and failed over to
+const PROVIDER_PRIORITY: EmailProvider[] = ['sendgrid', 'brevo', 'resend', 'smtp']
+
+export interface EmailServiceOptions {
+  // Replaces the providers built from the environment; their order is the failover order
+  providers?: EmailProviderInterface[]
+  // Suppression checks and send logging; null turns both off
+  deliveryLog?: Pick<EmailDeliveryLog, 'findSuppressed' | 'recordSend'> | null
+  // Unsubscribe checks for template email; null turns them off
+  preferences?: Pick<EmailPreferences, 'filterSubscribed'> | null
+  health?: ProviderHealthTracker
+}
 
 class EmailService {
   private providers: Map<EmailProvider, EmailProviderInterface> = new Map()
   private defaultProvider: EmailProvider
+  private failoverChain: EmailProvider[]
+  private health: ProviderHealthTracker
+  private deliveryLog: EmailServiceOptions['deliveryLog']
+  private preferences: EmailServiceOptions['preferences']
   private fromEmail: string
   private fromName: string
 
-  constructor() {
+  constructor(options: EmailServiceOptions = {}) {
+    this.health = options.health ?? new ProviderHealthTracker()
+    this.deliveryLog = options.deliveryLog
+    this.preferences = options.preferences
+    this.fromEmail = process.env.EMAIL_FROM || process.env.SENDGRID_FROM || 'noreply@talk-to-my-lawyer.com'
+    this.fromName = process.env.EMAIL_FROM_NAME || 'Talk-To-My-Lawyer'
+
+    if (options.providers) {
+      options.providers.forEach(provider => this.providers.set(provider.name, provider))
+      this.failoverChain = options.providers
+        .filter(provider => provider.isConfigured())
+        .map(provider => provider.name)
+      this.defaultProvider = this.failoverChain[0] ?? 'console'
+      return
+    }
+
     // Initialize providers
     this.providers.set('sendgrid', new SendGridProvider())
     this.providers.set('brevo', new BrevoProvider())
@@ -49,9 +86,8 @@ class EmailService {
 
     this.providers.set('console', new ConsoleProvider())
 
-    this.fromEmail = process.env.EMAIL_FROM || process.env.SENDGRID_FROM || 'noreply@talk-to-my-lawyer.com'
-    this.fromName = process.env.EMAIL_FROM_NAME || 'Talk-To-My-Lawyer'
     this.defaultProvider = this.determineDefaultProvider()
+    this.failoverChain = this.determineFailoverChain()
   }
 
   private determineDefaultProvider(): EmailProvider {
@@ -65,9 +101,7 @@ class EmailService {
     }
 
     // Check provider priority order
-    const providerPriority: EmailProvider[] = ['sendgrid', 'brevo', 'resend', 'smtp']
-
-    for (const providerName of providerPriority) {
+    for (const providerName of PROVIDER_PRIORITY) {
       const provider = this.providers.get(providerName)
       if (provider && provider.isConfigured()) {
         return providerName
@@ -83,6 +117,30 @@ class EmailService {
     return 'console'
   }
 
+  /**
+   * The default provider followed by the other configured providers, in
+   * EMAIL_FAILOVER_PROVIDERS order (priority order when unset). `none`
+   * disables failover. The console provider never stands in for a real one.
+   */
+  private determineFailoverChain(): EmailProvider[] {
+    const setting = process.env.EMAIL_FAILOVER_PROVIDERS?.trim()
+    if (setting === 'none' || this.defaultProvider === 'console') {
+      return [this.defaultProvider]
+    }
+
+    const order = setting
+      ? setting.split(',').map(name => name.trim()).filter(Boolean) as EmailProvider[]
+      : PROVIDER_PRIORITY
+
+    const fallbacks = order.filter(name =>
+      name !== this.defaultProvider &&
+      name !== 'console' &&
+      this.providers.get(name)?.isConfigured()
+    )
+
+    return [this.defaultProvider, ...new Set(fallbacks)]
+  }
+
   getProvider(name?: EmailProvider): EmailProviderInterface {
     const providerName = name || this.defaultProvider
     const provider = this.providers.get(providerName)
@@ -105,31 +163,57 @@ class EmailService {
     }
   }
 
-  async send(message: EmailMessage, provider?: EmailProvider): Promise<EmailResult> {
-    const emailProvider = this.getProvider(provider)
+  getFailoverChain(): EmailProvider[] {
+    return [...this.failoverChain]
+  }
 
-    const messageWithDefaults: EmailMessage = {
-      ...message,
-      from: message.from || this.getDefaultFrom(),
-    }
+  /**
+   * Recent error rate and demotion state of each provider in the failover chain
+   */
+  getProviderHealth(): ProviderHealthSnapshot[] {
+    return this.health.snapshot(this.failoverChain)
+  }
+
+  private getDeliveryLog(): Pick<EmailDeliveryLog, 'findSuppressed' | 'recordSend'> | null {
+    return this.deliveryLog === undefined ? getEmailDeliveryLog() : this.deliveryLog
+  }
+
+  /**
+   * Drop suppressed addresses from the To list. The lookup fails open so a
+   * database outage never blocks mail.
+   */
+  private async withoutSuppressed(to: string | string[]): Promise<{ to: string[]; suppressed: string[] }> {
+    const recipients = (Array.isArray(to) ? to : to.split(',')).map(address => address.trim()).filter(Boolean)
 
     try {
-      const result = await emailProvider.send(messageWithDefaults)
+      const deliveryLog = this.getDeliveryLog()
+      if (!deliveryLog) return { to: recipients, suppressed: [] }
 
-      if (result.success) {
-        console.log(`[EmailService] Email sent successfully via ${result.provider}:`, {
-          to: message.to,
-          subject: message.subject,
-          messageId: result.messageId,
-        })
-      } else {
-        console.error(`[EmailService] Failed to send email via ${result.provider}:`, result.error)
+      const suppressed = await deliveryLog.findSuppressed(recipients)
+      return {
+        to: recipients.filter(address => !suppressed.has(address.toLowerCase())),
+        suppressed: recipients.filter(address => suppressed.has(address.toLowerCase())),
       }
+    } catch (error) {
+      console.warn('[EmailService] Suppression check failed, sending anyway:', error)
+      return { to: recipients, suppressed: [] }
+    }
+  }
+
+  private async logDelivery(message: EmailMessage, result: EmailResult, startedAt: number): Promise<void> {
+    try {
+      await this.getDeliveryLog()?.recordSend(message, result, Date.now() - startedAt)
+    } catch (error) {
+      console.warn('[EmailService] Failed to log delivery:', error)
+    }
+  }
 
-      return result
+  private async attempt(emailProvider: EmailProviderInterface, message: EmailMessage): Promise<EmailResult> {
+    try {
+      return await emailProvider.send(message)
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      console.error('[EmailService] Unexpected error:', errorMessage)
+      console.error('[EmailService] Unexpected error:', { provider: emailProvider.name, error: errorMessage })
 
       return {
         success: false,
@@ -139,17 +223,110 @@ class EmailService {
     }
   }
 
+  /**
+   * Send through the failover chain, healthy providers first, until one
+   * accepts the email. Naming a provider sends through that provider only.
+   */
+  async send(message: EmailMessage, provider?: EmailProvider): Promise<EmailResult> {
+    const chain = provider ? [this.getProvider(provider).name] : this.health.rank(this.failoverChain)
+    const startedAt = Date.now()
+
+    const { to, suppressed } = await this.withoutSuppressed(message.to)
+    if (suppressed.length > 0) {
+      console.warn('[EmailService] Skipping suppressed recipients:', { suppressed, subject: message.subject })
+    }
+    if (to.length === 0 && suppressed.length > 0) {
+      return {
+        success: false,
+        error: `Recipient address is suppressed after a bounce or complaint: ${suppressed.join(', ')}`,
+        provider: chain[0] ?? this.defaultProvider,
+        suppressed: true,
+      }
+    }
+
+    const sendable: EmailMessage = {
+      ...message,
+      to: to.length === 1 ? to[0]! : to,
+    }
+    // Tracking stays with us; providers only see the email itself
+    const { tracking: _tracking, ...content } = sendable
+    const messageWithDefaults: EmailMessage = {
+      ...content,
+      from: message.from || this.getDefaultFrom(),
+    }
+
+    let result: EmailResult | null = null
+    for (const [index, name] of chain.entries()) {
+      result = await this.attempt(this.getProvider(name), messageWithDefaults)
+
+      if (result.success) {
+        this.health.recordSuccess(name)
+        break
+      }
+
+      this.health.recordFailure(name, result.error)
+      if (index < chain.length - 1) {
+        console.warn('[EmailService] Provider failed, failing over:', { provider: name, error: result.error })
+      }
+    }
+
+    const finalResult: EmailResult = result ?? {
+      success: false,
+      error: 'No email provider available',
+      provider: this.defaultProvider,
+    }
+    await this.logDelivery(sendable, finalResult, startedAt)
+
+    if (finalResult.success) {
+      console.log(`[EmailService] Email sent successfully via ${finalResult.provider}:`, {
+        to: message.to,
+        subject: message.subject,
+        messageId: finalResult.messageId,
+      })
+    } else {
+      console.error(`[EmailService] Failed to send email via ${finalResult.provider}:`, finalResult.error)
+    }
+
+    return finalResult
+  }
+
+  /**
+   * Render and send a template. Recipients who unsubscribed from the
+   * template's category are skipped, as they are for queued email, and email
+   * to a single recipient in an optional category carries an unsubscribe link.
+   */
   async sendTemplate(
     template: EmailTemplate,
     to: string | string[],
     data: TemplateData,
     provider?: EmailProvider
   ): Promise<EmailResult> {
-    const { subject, text, html } = renderTemplate(template, data)
+    const category = EMAIL_TEMPLATE_CATEGORIES[template]
+    const preferences = this.preferences === undefined ? getEmailPreferences() : this.preferences
+    const recipients = preferences
+      ? await preferences.filterSubscribed(to, category)
+      : (Array.isArray(to) ? to : to.split(','))
+
+    if (recipients.length === 0) {
+      console.log('[EmailService] Email skipped, recipient unsubscribed:', { template, category })
+      return {
+        success: false,
+        error: `Recipient unsubscribed from ${category} email`,
+        provider: provider ?? this.defaultProvider,
+        unsubscribed: true,
+      }
+    }
+
+    let output = await getEmailTemplateStore().renderFor(template, recipients, data)
+    const unsubscribeUrl = recipients.length === 1 ? buildUnsubscribeUrl(recipients[0]!, category) : null
+    if (unsubscribeUrl) {
+      output = withUnsubscribeLink(output, category, unsubscribeUrl)
+    }
 
+    const { subject, text, html } = output
     return this.send(
       {
-        to,
+        to: recipients.length === 1 ? recipients[0]! : recipients,
         subject,
         text,
         html,
@@ -0,0 +1,246 @@
+/**
+ * Email Template Source
+ * Validates and renders the admin-edited template versions stored in
+ * email_templates. Placeholders are `{{variable}}` or `{{variable|fallback}}`
+ * and must name a TemplateData field. Safe to import from client components.
+ */
+
+import { escapeHtml, wrapHtml, type TemplateOutput } from './templates'
+import type { EmailTemplate, TemplateData } from './types'
+
+export const EMAIL_LOCALES = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  pt: 'Português',
+  zh: '中文',
+} as const
+
+export type EmailLocale = keyof typeof EMAIL_LOCALES
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en'
+
+export function isEmailLocale(value: unknown): value is EmailLocale {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EMAIL_LOCALES, value)
+}
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  welcome: 'Welcome',
+  'password-reset': 'Password reset',
+  'password-reset-confirmation': 'Password reset confirmation',
+  'letter-approved': 'Letter approved',
+  'letter-rejected': 'Letter rejected',
+  'letter-generated': 'Letter generated',
+  'letter-under-review': 'Letter under review',
+  'letter-comment': 'Letter comment',
+  'letter-changes-requested': 'Changes requested',
+  'letter-deadline-reminder': 'Response deadline reminder',
+  'letter-deadline-passed': 'Response deadline passed',
+  'commission-earned': 'Commission earned',
+  'commission-paid': 'Commission paid',
+  'subscription-confirmation': 'Subscription confirmation',
+  'subscription-renewal': 'Subscription renewal',
+  'subscription-cancelled': 'Subscription cancelled',
+  'payment-failed': 'Payment failed',
+  'account-suspended': 'Account suspended',
+  'free-trial-ending': 'Free trial ending',
+  'onboarding-complete': 'Onboarding progress',
+  'admin-alert': 'Admin alert',
+  'review-sla-escalation': 'Review SLA escalation',
+  'security-alert': 'Security alert',
+  'system-maintenance': 'System maintenance',
+}
+
+export function isEmailTemplate(value: unknown): value is EmailTemplate {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATE_LABELS, value)
+}
+
+// The named TemplateData fields, without its index signature
+export type TemplateVariable = keyof {
+  [K in keyof TemplateData as string extends K ? never : K]: TemplateData[K]
+}
+
+export const TEMPLATE_VARIABLES: Record<TemplateVariable, string> = {
+  userName: 'Recipient name',
+  letterTitle: 'Letter title',
+  letterLink: 'Link to the letter',
+  commissionAmount: 'Commission amount (USD)',
+  subscriptionPlan: 'Plan name',
+  alertMessage: 'Alert or maintenance message',
+  actionUrl: 'Main call-to-action link',
+  loginUrl: 'Sign-in link',
+  resetUrl: 'Password reset link',
+  rejectionReason: 'Reason a letter was rejected',
+  reviewNotes: 'Attorney review notes',
+  pendingReviews: 'Letters waiting for review',
+  daysUntilExpiry: 'Days until the plan expires',
+  amountDue: 'Amount due (USD)',
+  nextBillingDate: 'Next billing date',
+  suspensionReason: 'Reason the account was suspended',
+  trialDaysRemaining: 'Days left in the free trial',
+  completedSteps: 'Onboarding steps completed',
+  totalSteps: 'Onboarding steps in total',
+  commentAuthor: 'Comment author',
+  commentText: 'Comment text',
+  deadlineDate: 'Recipient response deadline',
+  daysUntilDeadline: 'Days until the response deadline',
+  reviewDueDate: 'When the attorney review is due',
+}
+
+// Used for previews and test sends
+export const SAMPLE_TEMPLATE_DATA: Required<Pick<TemplateData, TemplateVariable>> = {
+  userName: 'Jane Doe',
+  letterTitle: 'Demand for Payment - Unpaid Invoice #1042',
+  letterLink: 'https://talk-to-my-lawyer.com/dashboard/letters/sample',
+  commissionAmount: 29.9,
+  subscriptionPlan: 'Monthly Plan',
+  alertMessage: 'Scheduled maintenance on Sunday from 02:00 to 04:00 UTC.',
+  actionUrl: 'https://talk-to-my-lawyer.com/dashboard',
+  loginUrl: 'https://talk-to-my-lawyer.com/auth/login',
+  resetUrl: 'https://talk-to-my-lawyer.com/auth/reset-password',
+  rejectionReason: 'The recipient address is incomplete.',
+  reviewNotes: 'Clarified the payment deadline in the second paragraph.',
+  pendingReviews: 3,
+  daysUntilExpiry: 5,
+  amountDue: 299,
+  nextBillingDate: 'May 1, 2026',
+  suspensionReason: 'Repeated payment failures',
+  trialDaysRemaining: 2,
+  completedSteps: 2,
+  totalSteps: 4,
+  commentAuthor: 'Attorney Review Team',
+  commentText: 'Could you confirm the invoice date?',
+  deadlineDate: 'April 15, 2026',
+  daysUntilDeadline: 2,
+  reviewDueDate: 'April 3, 2026 5:00 PM UTC',
+}
+
+export interface TemplateSource {
+  subject: string
+  text: string
+  // Inner HTML placed inside the branded layout; generated from the text when empty
+  html?: string | null
+}
+
+const MAX_SUBJECT_LENGTH = 200
+const MAX_TEXT_LENGTH = 20000
+const MAX_HTML_LENGTH = 100000
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9]*)\s*(?:\|([^{}]*))?\}\}/g
+
+export function findTemplateVariables(value: string): string[] {
+  return [...new Set([...value.matchAll(PLACEHOLDER)].map(match => match[1]!))]
+}
+
+/**
+ * Problems that stop a template version from being saved: missing or
+ * oversized fields, malformed placeholders and variables that are not
+ * TemplateData fields
+ */
+export function validateTemplateSource(source: TemplateSource): string[] {
+  const errors: string[] = []
+
+  if (!source.subject?.trim()) {
+    errors.push('Subject is required')
+  } else if (source.subject.length > MAX_SUBJECT_LENGTH) {
+    errors.push(`Subject must be at most ${MAX_SUBJECT_LENGTH} characters`)
+  }
+
+  if (!source.text?.trim()) {
+    errors.push('Plain text body is required')
+  } else if (source.text.length > MAX_TEXT_LENGTH) {
+    errors.push(`Plain text body must be at most ${MAX_TEXT_LENGTH} characters`)
+  }
+
+  if (source.html && source.html.length > MAX_HTML_LENGTH) {
+    errors.push(`HTML body must be at most ${MAX_HTML_LENGTH} characters`)
+  }
+
+  const fields: Array<[string, string | null | undefined]> = [
+    ['subject', source.subject],
+    ['plain text body', source.text],
+    ['HTML body', source.html],
+  ]
+
+  for (const [field, value] of fields) {
+    if (!value) continue
+
+    const opened = value.split('{{').length - 1
+    if (opened !== [...value.matchAll(PLACEHOLDER)].length) {
+      errors.push(`Malformed placeholder in ${field}; use {{variable}} or {{variable|fallback}}`)
+    }
+
+    const unknown = findTemplateVariables(value).filter(name => !(name in TEMPLATE_VARIABLES))
+    if (unknown.length > 0) {
+      errors.push(`Unknown variable${unknown.length === 1 ? '' : 's'} in ${field}: ${unknown.map(name => `{{${name}}}`).join(', ')}`)
+    }
+  }
+
+  return errors
+}
+
+function formatValue(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2)
+  }
+  return String(value)
+}
+
+/**
+ * Replace placeholders with data values, or their fallback when the value is
+ * missing. Values are HTML-escaped when `escape` is set.
+ */
+export function interpolate(value: string, data: TemplateData, escape = false): string {
+  return value.replace(PLACEHOLDER, (_match, name: string, fallback?: string) => {
+    const formatted = formatValue(data[name]) ?? fallback?.trim() ?? ''
+    return escape ? escapeHtml(formatted) : formatted
+  })
+}
+
+// Paragraphs from blank-line separated text, for versions without an HTML body
+function textToHtml(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n')
+}
+
+export function renderTemplateSource(source: TemplateSource, data: TemplateData): TemplateOutput {
+  const text = interpolate(source.text, data).trim()
+  const content = source.html?.trim() ? interpolate(source.html, data, true) : textToHtml(text)
+
+  return {
+    subject: interpolate(source.subject, data).replace(/\s+/g, ' ').trim(),
+    text,
+    html: wrapHtml(content),
+  }
+}
+
+/**
+ * Locales to try for a recipient, most specific first. Every chain ends
+ * in English.
+ */
+export function localeFallbacks(locale?: string | null): EmailLocale[] {
+  return isEmailLocale(locale) && locale !== DEFAULT_EMAIL_LOCALE
+    ? [locale, DEFAULT_EMAIL_LOCALE]
+    : [DEFAULT_EMAIL_LOCALE]
+}
+
+/**
+ * The published version to send for a template and locale, falling back to
+ * English. Null means the built-in template is used.
+ */
+export function pickTemplateVersion<T extends { template_key: string; locale: string }>(
+  published: T[],
+  template: EmailTemplate,
+  locale?: string | null
+): T | null {
+  for (const candidate of localeFallbacks(locale)) {
+    const version = published.find(row => row.template_key === template && row.locale === candidate)
+    if (version) return version
+  }
+  return null
+}
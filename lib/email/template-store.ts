@@ -0,0 +1,245 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors/error-handler'
+import { renderTemplate, type TemplateOutput } from './templates'
+import {
+  DEFAULT_EMAIL_LOCALE,
+  isEmailLocale,
+  isEmailTemplate,
+  pickTemplateVersion,
+  renderTemplateSource,
+  validateTemplateSource,
+  type EmailLocale,
+} from './template-source'
+import type { EmailTemplate, TemplateData } from './types'
+
+// Database row type matching the email_templates schema (snake_case)
+export interface EmailTemplateVersionRow {
+  id: string
+  template_key: EmailTemplate
+  locale: EmailLocale
+  version: number
+  subject: string
+  text_body: string
+  html_body: string | null
+  notes: string | null
+  is_active: boolean
+  created_by: string | null
+  published_at: string | null
+  created_at: string
+}
+
+// Admin input for a new version (camelCase, as sent by the template editor)
+export interface EmailTemplateVersionInput {
+  template?: string
+  locale?: string
+  subject?: string
+  text?: string
+  html?: string | null
+  notes?: string | null
+  publish?: boolean
+}
+
+const CACHE_TTL_MS = 60_000
+
+/**
+ * Email Template Store
+ * Versions of the transactional emails edited from the admin dashboard.
+ * Sends use the published version for the recipient's locale, then the
+ * English one, then the built-in template; a database failure also falls
+ * back to the built-in template so email keeps flowing.
+ */
+export class EmailTemplateStore {
+  private supabase: SupabaseClient
+  private tableName = 'email_templates' as const
+  private cache: { published: EmailTemplateVersionRow[]; expiresAt: number } | null = null
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  private async loadPublished(): Promise<EmailTemplateVersionRow[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.published
+    }
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('is_active', true)
+
+    if (error) {
+      console.error('[EmailTemplateStore] Failed to load published templates:', error)
+      throw error
+    }
+
+    const published = (data || []) as EmailTemplateVersionRow[]
+    this.cache = { published, expiresAt: Date.now() + CACHE_TTL_MS }
+    return published
+  }
+
+  /**
+   * Every saved version, newest first, for the admin editor
+   */
+  async listVersions(): Promise<EmailTemplateVersionRow[]> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .order('template_key', { ascending: true })
+      .order('locale', { ascending: true })
+      .order('version', { ascending: false })
+
+    if (error) {
+      console.error('[EmailTemplateStore] Failed to list templates:', error)
+      throw error
+    }
+
+    return (data || []) as EmailTemplateVersionRow[]
+  }
+
+  async createVersion(input: EmailTemplateVersionInput, createdBy: string | null): Promise<EmailTemplateVersionRow> {
+    if (!isEmailTemplate(input.template)) {
+      throw new ValidationError('Unknown email template')
+    }
+    const locale = input.locale ?? DEFAULT_EMAIL_LOCALE
+    if (!isEmailLocale(locale)) {
+      throw new ValidationError('Unsupported locale')
+    }
+
+    const source = { subject: input.subject ?? '', text: input.text ?? '', html: input.html ?? null }
+    const errors = validateTemplateSource(source)
+    if (errors.length > 0) {
+      throw new ValidationError(errors.join('; '), { errors })
+    }
+
+    const { data: latest, error: latestError } = await this.supabase
+      .from(this.tableName)
+      .select('version')
+      .eq('template_key', input.template)
+      .eq('locale', locale)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (latestError) {
+      console.error('[EmailTemplateStore] Failed to read latest version:', latestError)
+      throw latestError
+    }
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .insert({
+        template_key: input.template,
+        locale,
+        version: (latest?.version ?? 0) + 1,
+        subject: source.subject.trim(),
+        text_body: source.text,
+        html_body: source.html?.trim() || null,
+        notes: input.notes?.trim().slice(0, 500) || null,
+        created_by: createdBy,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[EmailTemplateStore] Failed to save template version:', { template: input.template, locale, error })
+      if (error.code === '23505') {
+        throw new ConflictError('Another version was saved at the same time; reload and try again')
+      }
+      throw error
+    }
+
+    const version = data as EmailTemplateVersionRow
+    return input.publish ? this.setActive(version.id, true) : version
+  }
+
+  /**
+   * Publish a version, replacing the published one for its template and
+   * locale, or unpublish it
+   */
+  async setActive(id: string, active: boolean): Promise<EmailTemplateVersionRow> {
+    const { data, error } = await this.supabase
+      .rpc('set_email_template_active', { p_id: id, p_active: active })
+
+    if (error) {
+      console.error('[EmailTemplateStore] Failed to change published version:', { id, error })
+      throw error
+    }
+
+    const version = (data as EmailTemplateVersionRow[] | null)?.[0]
+    if (!version) {
+      throw new NotFoundError('Email template version')
+    }
+
+    this.invalidate()
+    return version
+  }
+
+  /**
+   * The recipient's email language; defaults to English for unknown
+   * addresses and several recipients
+   */
+  async localeFor(to: string | string[]): Promise<EmailLocale> {
+    const recipients = Array.isArray(to) ? to : to.split(',')
+    if (recipients.length !== 1 || !recipients[0]?.trim()) return DEFAULT_EMAIL_LOCALE
+
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('locale')
+      .eq('email', recipients[0].trim().toLowerCase())
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.warn('[EmailTemplateStore] Failed to look up recipient locale:', error)
+      return DEFAULT_EMAIL_LOCALE
+    }
+
+    return isEmailLocale(data?.locale) ? data.locale : DEFAULT_EMAIL_LOCALE
+  }
+
+  async render(template: EmailTemplate, data: TemplateData, locale?: string | null): Promise<TemplateOutput> {
+    try {
+      const version = pickTemplateVersion(await this.loadPublished(), template, locale)
+      if (version) {
+        return renderTemplateSource({ subject: version.subject, text: version.text_body, html: version.html_body }, data)
+      }
+    } catch (error) {
+      console.warn('[EmailTemplateStore] Using built-in template:', { template, error })
+    }
+
+    return renderTemplate(template, data)
+  }
+
+  /**
+   * Render a template in the language of the address it is sent to. The
+   * recipient is only looked up when the template has a translation.
+   */
+  async renderFor(template: EmailTemplate, to: string | string[], data: TemplateData): Promise<TemplateOutput> {
+    const published = await this.loadPublished().catch(() => [])
+    const translated = published.some(row => row.template_key === template && row.locale !== DEFAULT_EMAIL_LOCALE)
+
+    return this.render(template, data, translated ? await this.localeFor(to) : DEFAULT_EMAIL_LOCALE)
+  }
+
+  invalidate(): void {
+    this.cache = null
+  }
+}
+
+let storeInstance: EmailTemplateStore | null = null
+
+export function getEmailTemplateStore(): EmailTemplateStore {
+  if (!storeInstance) {
+    storeInstance = new EmailTemplateStore()
+  }
+  return storeInstance
+}
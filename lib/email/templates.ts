@@ -1,6 +1,6 @@
 import type { EmailTemplate, TemplateData } from './types'
 
-interface TemplateOutput {
+export interface TemplateOutput {
   subject: string
   text: string
   html: string
@@ -17,7 +17,17 @@ const baseStyles = `
   .highlight { background: #f0f9ff; padding: 15px; border-left: 4px solid #0284c7; margin: 20px 0; }
 `
 
-function wrapHtml(content: string): string {
+// Escape user-authored text (e.g. comments) before it is placed in HTML
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export function wrapHtml(content: string): string {
   return `
 <!DOCTYPE html>
 <html>
@@ -259,31 +269,69 @@ The Talk-To-My-Lawyer Team
     `),
   }),
 
-  'subscription-renewal': (data) => ({
-    subject: 'Subscription Renewal Reminder - Talk-To-My-Lawyer',
-    text: `
+  'subscription-renewal': (data) => {
+    const plan = data.subscriptionPlan || 'subscription'
+    // With a next billing date the renewal has already been charged
+    if (data.nextBillingDate) {
+      return {
+        subject: 'Subscription Renewed - Talk-To-My-Lawyer',
+        text: `
 Hello ${data.userName || 'there'},
 
-Your ${data.subscriptionPlan || 'subscription'} is coming up for renewal soon.
+Your ${plan} has renewed and your letter credits have been refreshed.
+
+Next billing date: ${data.nextBillingDate}
 
 Manage your subscription: ${data.actionUrl}
 
 Best regards,
 The Talk-To-My-Lawyer Team
-    `.trim(),
-    html: wrapHtml(`
-      <h2>Subscription Renewal Reminder</h2>
-      <p>Hello ${data.userName || 'there'},</p>
+        `.trim(),
+        html: wrapHtml(`
+          <h2>Subscription Renewed</h2>
+          <p>Hello ${data.userName || 'there'},</p>
 
-      <p>Your <strong>${data.subscriptionPlan || 'subscription'}</strong> is coming up for renewal soon.</p>
+          <p>Your <strong>${plan}</strong> has renewed and your letter credits have been refreshed.</p>
 
-      <p style="text-align: center;">
-        <a href="${data.actionUrl}" class="button">Manage Subscription</a>
-      </p>
+          <div class="highlight">
+            <strong>Next billing date:</strong> ${data.nextBillingDate}
+          </div>
 
-      <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
-    `),
-  }),
+          <p style="text-align: center;">
+            <a href="${data.actionUrl}" class="button">Manage Subscription</a>
+          </p>
+
+          <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+        `),
+      }
+    }
+
+    return {
+      subject: 'Subscription Renewal Reminder - Talk-To-My-Lawyer',
+      text: `
+Hello ${data.userName || 'there'},
+
+Your ${plan} is coming up for renewal soon.
+
+Manage your subscription: ${data.actionUrl}
+
+Best regards,
+The Talk-To-My-Lawyer Team
+      `.trim(),
+      html: wrapHtml(`
+        <h2>Subscription Renewal Reminder</h2>
+        <p>Hello ${data.userName || 'there'},</p>
+
+        <p>Your <strong>${plan}</strong> is coming up for renewal soon.</p>
+
+        <p style="text-align: center;">
+          <a href="${data.actionUrl}" class="button">Manage Subscription</a>
+        </p>
+
+        <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+      `),
+    }
+  },
 
   'password-reset-confirmation': (data) => ({
     subject: 'Password Successfully Reset - Talk-To-My-Lawyer',
@@ -408,6 +456,130 @@ The Talk-To-My-Lawyer Team
     `),
   }),
 
+  'letter-comment': (data) => ({
+    subject: `New Comment on ${data.letterTitle || 'Your Letter'}`,
+    text: `
+Hello ${data.userName || 'there'},
+
+${data.commentAuthor || 'Someone'} commented on "${data.letterTitle || 'Legal Letter'}":
+
+${data.commentText || ''}
+
+Reply in your dashboard: ${data.letterLink || data.actionUrl}
+
+Best regards,
+The Talk-To-My-Lawyer Team
+    `.trim(),
+    html: wrapHtml(`
+      <h2>New Comment on Your Letter</h2>
+      <p>Hello ${data.userName || 'there'},</p>
+
+      <p><strong>${escapeHtml(data.commentAuthor || 'Someone')}</strong> commented on <strong>"${data.letterTitle || 'Legal Letter'}"</strong>:</p>
+
+      <div class="highlight" style="white-space: pre-wrap;">${escapeHtml(data.commentText || '')}</div>
+
+      <p style="text-align: center;">
+        <a href="${data.letterLink || data.actionUrl}" class="button">View Conversation</a>
+      </p>
+
+      <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+    `),
+  }),
+
+  'letter-changes-requested': (data) => ({
+    subject: `Changes Requested: ${data.letterTitle || 'Legal Letter'}`,
+    text: `
+Hello ${data.userName || 'there'},
+
+${data.commentAuthor || 'The subscriber'} has requested changes to the approved letter "${data.letterTitle || 'Legal Letter'}". It has been moved back into the review queue.
+
+Requested changes:
+${data.commentText || ''}
+
+Review the letter: ${data.letterLink || data.actionUrl}
+
+Best regards,
+The Talk-To-My-Lawyer Team
+    `.trim(),
+    html: wrapHtml(`
+      <h2>Changes Requested</h2>
+      <p>Hello ${data.userName || 'there'},</p>
+
+      <p><strong>${escapeHtml(data.commentAuthor || 'The subscriber')}</strong> has requested changes to the approved letter <strong>"${data.letterTitle || 'Legal Letter'}"</strong>. It has been moved back into the review queue.</p>
+
+      <div class="highlight" style="white-space: pre-wrap;">
+        <strong>Requested changes:</strong><br>
+        ${escapeHtml(data.commentText || '')}
+      </div>
+
+      <p style="text-align: center;">
+        <a href="${data.letterLink || data.actionUrl}" class="button">Review Letter</a>
+      </p>
+
+      <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+    `),
+  }),
+
+  'letter-deadline-reminder': (data) => ({
+    subject: `Response Deadline Approaching: ${data.letterTitle || 'Your Letter'}`,
+    text: `
+Hello ${data.userName || 'there'},
+
+The recipient's deadline to respond to "${data.letterTitle || 'Legal Letter'}" is ${data.deadlineDate}${data.daysUntilDeadline === 0 ? ' (today)' : ` (in ${data.daysUntilDeadline} day${data.daysUntilDeadline === 1 ? '' : 's'})`}.
+
+If they have already responded or paid, record the outcome so we stop reminding you: ${data.letterLink || data.actionUrl}
+
+Best regards,
+The Talk-To-My-Lawyer Team
+    `.trim(),
+    html: wrapHtml(`
+      <h2>Response Deadline Approaching</h2>
+      <p>Hello ${data.userName || 'there'},</p>
+
+      <p>The recipient's deadline to respond to <strong>"${data.letterTitle || 'Legal Letter'}"</strong> is <strong>${data.deadlineDate}</strong>${data.daysUntilDeadline === 0 ? ' (today)' : ` (in ${data.daysUntilDeadline} day${data.daysUntilDeadline === 1 ? '' : 's'})`}.</p>
+
+      <p>If they have already responded or paid, record the outcome so we stop reminding you.</p>
+
+      <p style="text-align: center;">
+        <a href="${data.letterLink || data.actionUrl}" class="button">Record Outcome</a>
+      </p>
+
+      <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+    `),
+  }),
+
+  'letter-deadline-passed': (data) => ({
+    subject: `Deadline Passed: ${data.letterTitle || 'Your Letter'}`,
+    text: `
+Hello ${data.userName || 'there'},
+
+The response deadline of ${data.deadlineDate} for "${data.letterTitle || 'Legal Letter'}" has passed without a recorded resolution.
+
+You can send a follow-up letter, pre-filled from the original, in one click: ${data.actionUrl}
+
+If the matter was resolved, record the outcome on the letter page: ${data.letterLink}
+
+Best regards,
+The Talk-To-My-Lawyer Team
+    `.trim(),
+    html: wrapHtml(`
+      <h2>Response Deadline Passed</h2>
+      <p>Hello ${data.userName || 'there'},</p>
+
+      <p>The response deadline of <strong>${data.deadlineDate}</strong> for <strong>"${data.letterTitle || 'Legal Letter'}"</strong> has passed without a recorded resolution.</p>
+
+      <p>You can send a follow-up letter, pre-filled from the original, in one click.</p>
+
+      <p style="text-align: center;">
+        <a href="${data.actionUrl}" class="button">Write Follow-up Letter</a>
+      </p>
+
+      <p>If the matter was resolved, <a href="${data.letterLink}">record the outcome</a> on the letter page.</p>
+
+      <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+    `),
+  }),
+
   'commission-paid': (data) => ({
     subject: `Commission Paid - $${(data.commissionAmount || 0).toFixed(2)}`,
     text: `
@@ -491,7 +663,7 @@ The Talk-To-My-Lawyer Team
 
   'payment-failed': (data) => {
     const plan = data.subscriptionPlan || 'subscription'
-    const amount = data.amountDue || 'Your plan amount'
+    const amount = typeof data.amountDue === 'number' ? data.amountDue.toFixed(2) : 'Your plan amount'
     return {
       subject: `Payment Failed - Talk-To-My-Lawyer`,
       text: `
@@ -684,6 +856,72 @@ The Talk-To-My-Lawyer Team
     }
   },
 
+  'admin-alert': (data) => {
+    const pending = data.pendingReviews ?? 0
+    return {
+      subject: pending > 0
+        ? `Admin Digest: ${pending} Letter${pending === 1 ? '' : 's'} Awaiting Review`
+        : 'Admin Alert - Talk-To-My-Lawyer',
+      text: `
+      Admin Alert
+
+      ${data.alertMessage || 'There is an update that needs your attention.'}
+
+      Letters awaiting review: ${pending}
+
+      Open the review center: ${data.actionUrl}
+
+      Talk-To-My-Lawyer
+      `.trim(),
+      html: wrapHtml(`
+        <h2>Admin Alert</h2>
+
+        <div class="highlight">
+          <p>${data.alertMessage || 'There is an update that needs your attention.'}</p>
+          <p><strong>Letters awaiting review:</strong> ${pending}</p>
+        </div>
+
+        <p style="text-align: center;">
+          <a href="${data.actionUrl}" class="button">Open Review Center</a>
+        </p>
+
+        <p>Talk-To-My-Lawyer</p>
+      `),
+    }
+  },
+
+  'review-sla-escalation': (data) => ({
+    subject: `Review Escalation: ${data.letterTitle || 'Legal Letter'}`,
+    text: `
+Hello ${data.userName || 'there'},
+
+${data.alertMessage || 'A letter assigned to you is close to its review deadline.'}
+
+Letter: "${data.letterTitle || 'Legal Letter'}"
+Review due: ${data.reviewDueDate}
+
+Review the letter: ${data.letterLink || data.actionUrl}
+
+Talk-To-My-Lawyer
+    `.trim(),
+    html: wrapHtml(`
+      <h2>Review Escalation</h2>
+      <p>Hello ${data.userName || 'there'},</p>
+
+      <div class="highlight">
+        <p>${data.alertMessage || 'A letter assigned to you is close to its review deadline.'}</p>
+        <p><strong>Letter:</strong> "${data.letterTitle || 'Legal Letter'}"<br>
+        <strong>Review due:</strong> ${data.reviewDueDate}</p>
+      </div>
+
+      <p style="text-align: center;">
+        <a href="${data.letterLink || data.actionUrl}" class="button">Review Letter</a>
+      </p>
+
+      <p>Talk-To-My-Lawyer</p>
+    `),
+  }),
+
   'security-alert': (data) => ({
     subject: `⚠️ Security Alert: ${data.alertMessage || 'Security Issue Detected'}`,
     text: `
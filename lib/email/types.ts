@@ -20,6 +20,14 @@ export interface EmailMessage {
   replyTo?: string
   cc?: string | string[]
   bcc?: string | string[]
+  // Recorded with the send in email_delivery_log; never sent to the provider
+  tracking?: EmailTracking
+}
+
+export interface EmailTracking {
+  letterId?: string
+  templateType?: string
+  queueId?: string
 }
 
 export interface EmailResult {
@@ -27,6 +35,36 @@ export interface EmailResult {
   messageId?: string
   error?: string
   provider: EmailProvider
+  // Every recipient was on the suppression list, so nothing was sent
+  suppressed?: boolean
+  // Every recipient unsubscribed from the template's category, so nothing was sent
+  unsubscribed?: boolean
+}
+
+export type EmailDeliveryStatus =
+  | 'sent'
+  | 'failed'
+  | 'delivered'
+  | 'deferred'
+  | 'bounced'
+  | 'complained'
+  | 'opened'
+  | 'clicked'
+
+// A provider webhook event, normalized across providers
+export interface EmailDeliveryEvent {
+  provider: EmailProvider
+  messageId: string
+  eventId?: string
+  status: Exclude<EmailDeliveryStatus, 'sent'>
+  recipient: string
+  // The provider listed several recipients without saying which one the
+  // event is about; such bounces and complaints don't suppress the address
+  recipientUncertain?: boolean
+  occurredAt: string
+  bounceType?: 'hard' | 'soft'
+  url?: string
+  reason?: string
 }
 
 export interface EmailProviderInterface {
@@ -52,6 +90,10 @@ export type EmailTemplate =
   | 'letter-rejected'
   | 'letter-generated'
   | 'letter-under-review'
+  | 'letter-comment'
+  | 'letter-changes-requested'
+  | 'letter-deadline-reminder'
+  | 'letter-deadline-passed'
   | 'commission-earned'
   | 'commission-paid'
   | 'subscription-confirmation'
@@ -62,6 +104,7 @@ export type EmailTemplate =
   | 'free-trial-ending'
   | 'onboarding-complete'
   | 'admin-alert'
+  | 'review-sla-escalation'
   | 'security-alert'
   | 'system-maintenance'
 
@@ -85,5 +128,10 @@ export interface TemplateData {
   trialDaysRemaining?: number
   completedSteps?: number
   totalSteps?: number
+  commentAuthor?: string
+  commentText?: string
+  deadlineDate?: string
+  daysUntilDeadline?: number
+  reviewDueDate?: string
   [key: string]: unknown
 }
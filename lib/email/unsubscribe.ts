@@ -0,0 +1,72 @@
+/**
+ * Email Unsubscribe Links
+ * Signed per-category unsubscribe links added to optional email. The token
+ * is an HMAC of the address and category, so a link only ever turns off the
+ * category it was sent for.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { EMAIL_CATEGORIES, isOptionalCategory, type EmailCategory } from './categories'
+import { escapeHtml, type TemplateOutput } from './templates'
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function getUnsubscribeSecret(): string | null {
+  return process.env.EMAIL_UNSUBSCRIBE_SECRET || null
+}
+
+export function signUnsubscribeToken(email: string, category: EmailCategory, secret: string): string {
+  return createHmac('sha256', secret).update(`${normalizeEmail(email)}:${category}`).digest('base64url')
+}
+
+export function verifyUnsubscribeToken(
+  email: string,
+  category: string,
+  token: string,
+  secret: string
+): category is EmailCategory {
+  if (!isOptionalCategory(category) || !token) return false
+
+  const expected = Buffer.from(signUnsubscribeToken(email, category, secret))
+  const actual = Buffer.from(token)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * The link that unsubscribes one address from one category, or null when
+ * the category cannot be turned off or no secret is configured
+ */
+export function buildUnsubscribeUrl(
+  email: string,
+  category: EmailCategory,
+  secret: string | null = getUnsubscribeSecret(),
+  siteUrl: string = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+): string | null {
+  if (!secret || !isOptionalCategory(category)) return null
+
+  const params = new URLSearchParams({
+    email: normalizeEmail(email),
+    category,
+    token: signUnsubscribeToken(email, category, secret),
+  })
+  return `${siteUrl}/api/email/unsubscribe?${params.toString()}`
+}
+
+/**
+ * Append the unsubscribe line to a rendered email, at the end of the HTML
+ * body when there is one
+ */
+export function withUnsubscribeLink(output: TemplateOutput, category: EmailCategory, url: string): TemplateOutput {
+  const label = EMAIL_CATEGORIES[category].label.toLowerCase()
+  const footer = `<p style="text-align: center; font-size: 12px; color: #666;">Don't want ${label} emails? <a href="${escapeHtml(url)}" style="color: #666;">Unsubscribe</a></p>`
+
+  return {
+    subject: output.subject,
+    text: `${output.text}\n\n---\nTo stop receiving ${label} emails, unsubscribe: ${url}`,
+    html: output.html.includes('</body>')
+      ? output.html.replace('</body>', `${footer}\n</body>`)
+      : `${output.html}\n${footer}`,
+  }
+}
@@ -105,6 +105,7 @@ export async function verifyEmailProviders(): Promise<TestResult[]> {
   const workingCount = results.filter(r => r.testSucceeded).length
 
   console.log(`\n📊 Summary: ${configuredCount}/${results.length} providers configured, ${workingCount}/${results.length} working`)
+  console.log(`🔁 Failover order: ${getEmailService().getFailoverChain().join(' → ')}`)
 
   return results
 }
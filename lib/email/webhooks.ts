@@ -0,0 +1,276 @@
+/**
+ * Email Provider Webhooks
+ * Verifies inbound delivery webhooks from SendGrid, Brevo and Resend and
+ * normalizes their events. SMTP relays have no webhook, so mail sent over
+ * SMTP only records whether the send succeeded.
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify } from 'crypto'
+import type { EmailDeliveryEvent, EmailProvider } from './types'
+
+export type WebhookProvider = Extract<EmailProvider, 'sendgrid' | 'brevo' | 'resend'>
+
+export const WEBHOOK_PROVIDERS: WebhookProvider[] = ['sendgrid', 'brevo', 'resend']
+
+// Signed webhooks older than this are refused as replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60
+
+export function isWebhookProvider(value: string): value is WebhookProvider {
+  return (WEBHOOK_PROVIDERS as string[]).includes(value)
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+function isFresh(timestampSeconds: number, now: Date): boolean {
+  return Number.isFinite(timestampSeconds)
+    && Math.abs(now.getTime() / 1000 - timestampSeconds) <= WEBHOOK_TOLERANCE_SECONDS
+}
+
+function unixToIso(value: unknown): string {
+  const seconds = Number(value)
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000).toISOString() : new Date().toISOString()
+}
+
+/**
+ * SendGrid Signed Event Webhook: an ECDSA signature over the timestamp and
+ * raw body, checked with the verification key from the SendGrid console
+ */
+export function verifySendGridSignature(params: {
+  publicKey: string
+  payload: string
+  signature: string | null
+  timestamp: string | null
+  now?: Date
+}): boolean {
+  const { publicKey, payload, signature, timestamp } = params
+  if (!signature || !timestamp || !isFresh(Number(timestamp), params.now ?? new Date())) return false
+
+  try {
+    const key = createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' })
+    return verify('sha256', Buffer.from(timestamp + payload), key, Buffer.from(signature, 'base64'))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resend signs webhooks the Svix way: HMAC-SHA256 of `id.timestamp.body`
+ * with the base64 secret after its `whsec_` prefix
+ */
+export function verifyResendSignature(params: {
+  secret: string
+  payload: string
+  id: string | null
+  timestamp: string | null
+  signature: string | null
+  now?: Date
+}): boolean {
+  const { secret, payload, id, timestamp, signature } = params
+  if (!id || !timestamp || !signature || !isFresh(Number(timestamp), params.now ?? new Date())) return false
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${payload}`).digest('base64')
+
+  // The header may carry several space-separated `v1,<signature>` entries
+  return signature.split(' ').some(entry => {
+    const [version, value] = entry.split(',')
+    return version === 'v1' && !!value && safeEqual(value, expected)
+  })
+}
+
+/**
+ * Brevo webhooks are unsigned; the webhook URL carries a shared token
+ */
+export function verifyBrevoToken(expected: string, provided: string | null): boolean {
+  return !!provided && safeEqual(provided, expected)
+}
+
+/**
+ * Message ids as the providers return them from a send, so webhook events
+ * match the logged send
+ */
+export function normalizeMessageId(provider: EmailProvider, messageId: string): string {
+  const trimmed = messageId.trim()
+  if (provider === 'sendgrid') {
+    // Events carry the send's X-Message-Id with a routing suffix
+    return trimmed.replace(/\.(filter|recvd)[\s\S]*$/, '')
+  }
+  if (provider === 'brevo') {
+    return trimmed.replace(/^<|>$/g, '')
+  }
+  return trimmed
+}
+
+type EventRecord = Record<string, unknown>
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+
+function sendGridEvent(raw: EventRecord): EmailDeliveryEvent | null {
+  const messageId = asString(raw.sg_message_id)
+  const recipient = asString(raw.email)
+  if (!messageId || !recipient) return null
+
+  const base = {
+    provider: 'sendgrid' as const,
+    messageId: normalizeMessageId('sendgrid', messageId),
+    ...(asString(raw.sg_event_id) && { eventId: asString(raw.sg_event_id)! }),
+    recipient: recipient.toLowerCase(),
+    occurredAt: unixToIso(raw.timestamp),
+    ...(asString(raw.reason) && { reason: asString(raw.reason)! }),
+  }
+
+  switch (raw.event) {
+    case 'delivered':
+      return { ...base, status: 'delivered' }
+    case 'deferred':
+      return { ...base, status: 'deferred' }
+    case 'bounce':
+      // SendGrid reports temporary rejections as bounces of type "blocked"
+      return { ...base, status: 'bounced', bounceType: raw.type === 'blocked' ? 'soft' : 'hard' }
+    case 'dropped':
+      return { ...base, status: 'failed' }
+    case 'spamreport':
+      return { ...base, status: 'complained' }
+    case 'open':
+      return { ...base, status: 'opened' }
+    case 'click':
+      return { ...base, status: 'clicked', ...(asString(raw.url) && { url: asString(raw.url)! }) }
+    default:
+      return null
+  }
+}
+
+function brevoEvent(raw: EventRecord): EmailDeliveryEvent | null {
+  const messageId = asString(raw['message-id'])
+  const recipient = asString(raw.email)
+  const event = asString(raw.event)
+  if (!messageId || !recipient || !event) return null
+
+  const occurredAt = raw.ts_event !== undefined ? unixToIso(raw.ts_event) : new Date().toISOString()
+  const base = {
+    provider: 'brevo' as const,
+    messageId: normalizeMessageId('brevo', messageId),
+    // Brevo sends no event id; this is stable across redeliveries and
+    // distinct for each recipient of the same message
+    eventId: `${event}:${normalizeMessageId('brevo', messageId)}:${recipient.toLowerCase()}:${raw.ts_event ?? raw.date ?? ''}`,
+    recipient: recipient.toLowerCase(),
+    occurredAt,
+    ...(asString(raw.reason) && { reason: asString(raw.reason)! }),
+  }
+
+  switch (event) {
+    case 'delivered':
+      return { ...base, status: 'delivered' }
+    case 'deferred':
+      return { ...base, status: 'deferred' }
+    case 'hard_bounce':
+    case 'invalid_email':
+      return { ...base, status: 'bounced', bounceType: 'hard' }
+    case 'soft_bounce':
+      return { ...base, status: 'bounced', bounceType: 'soft' }
+    case 'blocked':
+    case 'error':
+      return { ...base, status: 'failed' }
+    case 'spam':
+      return { ...base, status: 'complained' }
+    case 'opened':
+    case 'unique_opened':
+    case 'proxy_open':
+      return { ...base, status: 'opened' }
+    case 'click':
+      return { ...base, status: 'clicked', ...(asString(raw.link) && { url: asString(raw.link)! }) }
+    default:
+      return null
+  }
+}
+
+/**
+ * Resend reports one event per message, listing every recipient. The event
+ * is recorded against each of them; with several recipients a bounce or
+ * complaint can't be pinned on one address, so those never suppress.
+ */
+function resendEvents(raw: EventRecord, eventId?: string): EmailDeliveryEvent[] {
+  const data = (raw.data && typeof raw.data === 'object' ? raw.data : {}) as EventRecord
+  const messageId = asString(data.email_id)
+  const recipients = (Array.isArray(data.to) ? data.to : [data.to])
+    .map(asString)
+    .filter((recipient): recipient is string => !!recipient)
+    .map(recipient => recipient.toLowerCase())
+  if (!messageId) return []
+
+  const several = recipients.length > 1
+  return recipients
+    .map(recipient => resendEvent(raw, data, {
+      provider: 'resend' as const,
+      messageId,
+      ...(eventId && { eventId: several ? `${eventId}:${recipient}` : eventId }),
+      recipient,
+      ...(several && { recipientUncertain: true }),
+      occurredAt: asString(raw.created_at) ?? new Date().toISOString(),
+    }))
+    .filter((event): event is EmailDeliveryEvent => event !== null)
+}
+
+function resendEvent(
+  raw: EventRecord,
+  data: EventRecord,
+  base: Omit<EmailDeliveryEvent, 'status'>
+): EmailDeliveryEvent | null {
+  const bounce = (data.bounce && typeof data.bounce === 'object' ? data.bounce : {}) as EventRecord
+  const click = (data.click && typeof data.click === 'object' ? data.click : {}) as EventRecord
+
+  switch (raw.type) {
+    case 'email.delivered':
+      return { ...base, status: 'delivered' }
+    case 'email.delivery_delayed':
+      return { ...base, status: 'deferred' }
+    case 'email.bounced':
+      return {
+        ...base,
+        status: 'bounced',
+        bounceType: bounce.type === 'Permanent' ? 'hard' : 'soft',
+        ...(asString(bounce.message) && { reason: asString(bounce.message)! }),
+      }
+    case 'email.failed':
+      return { ...base, status: 'failed' }
+    case 'email.complained':
+      return { ...base, status: 'complained' }
+    case 'email.opened':
+      return { ...base, status: 'opened' }
+    case 'email.clicked':
+      return { ...base, status: 'clicked', ...(asString(click.link) && { url: asString(click.link)! }) }
+    default:
+      return null
+  }
+}
+
+/**
+ * Normalize a verified webhook body into delivery events. Events we do not
+ * track (processed, unsubscribes and the like) are dropped.
+ */
+export function parseWebhookEvents(
+  provider: WebhookProvider,
+  body: unknown,
+  options: { eventId?: string } = {}
+): EmailDeliveryEvent[] {
+  const records = (Array.isArray(body) ? body : [body])
+    .filter((record): record is EventRecord => !!record && typeof record === 'object')
+
+  const events = records.flatMap(record => {
+    switch (provider) {
+      case 'sendgrid':
+        return sendGridEvent(record)
+      case 'brevo':
+        return brevoEvent(record)
+      case 'resend':
+        return resendEvents(record, options.eventId)
+    }
+  })
+
+  return events.filter((event): event is EmailDeliveryEvent => event !== null)
+}
@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase/server'
+import { validateCoupon, type CouponValidation } from '@/lib/billing/coupons'
 
 interface FraudDetectionResult {
   isFraudulent: boolean
@@ -410,25 +411,23 @@ function getClientIP(request: Request): string {
 }
 
 /**
- * Enhance coupon validation with fraud detection
+ * Enhance coupon validation with fraud detection. The campaign rules
+ * (expiry, caps, plan restrictions, first purchase) are checked first by
+ * validate_coupon(); the validated coupon is returned for pricing.
  */
 export async function validateCouponWithFraudDetection(
   couponCode: string,
   request: Request,
-  userId?: string
-): Promise<{ isValid: boolean; fraudResult?: FraudDetectionResult; error?: string }> {
+  userId?: string,
+  planType?: string
+): Promise<{ isValid: boolean; coupon?: CouponValidation; fraudResult?: FraudDetectionResult; error?: string }> {
   try {
     // First, perform basic coupon validation
     const supabase = await createClient()
-    const { data: coupon, error: couponError } = await supabase
-      .from('employee_coupons')
-      .select('*')
-      .eq('code', couponCode)
-      .eq('is_active', true)
-      .single()
+    const coupon = await validateCoupon(supabase, couponCode, { planType: planType ?? null, userId: userId ?? null })
 
-    if (couponError || !coupon) {
-      return { isValid: false, error: 'Invalid or inactive coupon code' }
+    if (!coupon.isValid || !coupon.couponId) {
+      return { isValid: false, error: coupon.message || 'Invalid coupon code' }
     }
 
     // Perform fraud detection
@@ -441,7 +440,7 @@ export async function validateCouponWithFraudDetection(
         await supabase
           .from('employee_coupons')
           .update({ is_active: false })
-          .eq('code', couponCode)
+          .eq('id', coupon.couponId)
       }
 
       return {
@@ -460,7 +459,7 @@ export async function validateCouponWithFraudDetection(
       })
     }
 
-    return { isValid: true, fraudResult }
+    return { isValid: true, coupon, fraudResult }
   } catch (error) {
     console.error('[CouponFraud] Validation error:', error)
     return { isValid: false, error: 'Coupon validation failed' }
@@ -0,0 +1,277 @@
+import { randomUUID } from 'crypto'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors/error-handler'
+import { sanitizeFileName } from '@/lib/security/input-sanitizer'
+import {
+  areAttachmentsLocked,
+  exhibitLabel,
+  matchesFileSignature,
+  MAX_ATTACHMENTS_PER_LETTER,
+  validateAttachmentFile,
+  type LetterExhibit,
+} from './exhibits'
+
+export const ATTACHMENT_BUCKET = 'letter-attachments'
+
+// Signed download links are only handed to a page that is already open
+const SIGNED_URL_TTL_SECONDS = 10 * 60
+
+// Database row type matching the letter_attachments schema (snake_case)
+export interface LetterAttachmentRow {
+  id: string
+  letter_id: string
+  user_id: string | null
+  file_name: string
+  content_type: string
+  size_bytes: number
+  storage_path: string
+  created_at: string
+}
+
+export interface LetterAttachmentWithUrl extends LetterExhibit {
+  url: string | null
+  createdAt: string
+}
+
+export interface ExhibitFile extends LetterExhibit {
+  content: Buffer
+}
+
+function toExhibit(row: LetterAttachmentRow, index: number): LetterExhibit {
+  return {
+    id: row.id,
+    label: exhibitLabel(index),
+    fileName: row.file_name,
+    contentType: row.content_type,
+    sizeBytes: row.size_bytes,
+  }
+}
+
+/**
+ * Letter Attachment Store
+ * Evidence files on a letter: metadata in letter_attachments, content in the
+ * private letter-attachments bucket. Callers check letter access first.
+ */
+export class LetterAttachmentStore {
+  private supabase: SupabaseClient
+  private tableName = 'letter_attachments' as const
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  private async listRows(letterId: string): Promise<LetterAttachmentRow[]> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('letter_id', letterId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('[LetterAttachments] Failed to list attachments:', { letterId, error })
+      throw error
+    }
+
+    return (data || []) as LetterAttachmentRow[]
+  }
+
+  /**
+   * A letter's exhibits in upload order
+   */
+  async listExhibits(letterId: string): Promise<LetterExhibit[]> {
+    const rows = await this.listRows(letterId)
+    return rows.map(toExhibit)
+  }
+
+  /**
+   * A letter's exhibits with signed download links
+   */
+  async list(letterId: string): Promise<LetterAttachmentWithUrl[]> {
+    const rows = await this.listRows(letterId)
+    if (rows.length === 0) return []
+
+    const { data: signed, error } = await this.supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrls(rows.map(row => row.storage_path), SIGNED_URL_TTL_SECONDS)
+
+    if (error) {
+      console.error('[LetterAttachments] Failed to sign download URLs:', { letterId, error })
+    }
+
+    return rows.map((row, index) => ({
+      ...toExhibit(row, index),
+      url: signed?.find(entry => entry.path === row.storage_path)?.signedUrl ?? null,
+      createdAt: row.created_at,
+    }))
+  }
+
+  /**
+   * Store an uploaded file on a letter after checking its type, size and
+   * signature, and the letter's attachment limit
+   */
+  async upload(params: {
+    letter: { id: string; user_id: string; status: string }
+    userId: string
+    file: File
+  }): Promise<LetterExhibit> {
+    const { letter, userId, file } = params
+
+    if (areAttachmentsLocked(letter.status)) {
+      throw new ConflictError('Attachments cannot be changed after a letter is approved')
+    }
+
+    const existing = await this.listRows(letter.id)
+    const problem = validateAttachmentFile(file, existing.length)
+    if (problem) {
+      throw new ValidationError(problem)
+    }
+
+    const content = new Uint8Array(await file.arrayBuffer())
+    if (!matchesFileSignature(file.type, content)) {
+      throw new ValidationError(`${file.name} does not look like a valid ${file.type} file`)
+    }
+
+    const fileName = sanitizeFileName(file.name)
+    const storagePath = `${letter.user_id}/${letter.id}/${randomUUID()}-${fileName}`
+
+    const { error: uploadError } = await this.supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(storagePath, content, { contentType: file.type, upsert: false })
+
+    if (uploadError) {
+      console.error('[LetterAttachments] Storage upload failed:', { letterId: letter.id, uploadError })
+      throw uploadError
+    }
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .insert({
+        letter_id: letter.id,
+        user_id: userId,
+        file_name: fileName,
+        content_type: file.type,
+        size_bytes: file.size,
+        storage_path: storagePath,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      // Don't leave an orphaned object behind
+      await this.supabase.storage.from(ATTACHMENT_BUCKET).remove([storagePath])
+
+      // The attachment limit trigger refused a parallel upload
+      if (error.code === '23514') {
+        throw new ValidationError(`A letter can have at most ${MAX_ATTACHMENTS_PER_LETTER} attachments`)
+      }
+      console.error('[LetterAttachments] Failed to record attachment:', { letterId: letter.id, error })
+      throw error
+    }
+
+    return toExhibit(data as LetterAttachmentRow, existing.length)
+  }
+
+  async remove(letter: { id: string; status: string }, attachmentId: string): Promise<void> {
+    if (areAttachmentsLocked(letter.status)) {
+      throw new ConflictError('Attachments cannot be changed after a letter is approved')
+    }
+
+    const { data: row } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('id', attachmentId)
+      .eq('letter_id', letter.id)
+      .maybeSingle()
+
+    if (!row) {
+      throw new NotFoundError('Attachment')
+    }
+
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .delete()
+      .eq('id', attachmentId)
+
+    if (error) {
+      console.error('[LetterAttachments] Failed to delete attachment:', { attachmentId, error })
+      throw error
+    }
+
+    const { error: storageError } = await this.supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove([(row as LetterAttachmentRow).storage_path])
+
+    if (storageError) {
+      console.warn('[LetterAttachments] Failed to delete stored file:', { attachmentId, storageError })
+    }
+  }
+
+  /**
+   * Delete the stored files for all of a subscriber's letters, for account
+   * erasure. The rows go with the letters.
+   */
+  async removeAllForUser(userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('storage_path, letters!inner(user_id)')
+      .eq('letters.user_id', userId)
+
+    if (error) {
+      console.error('[LetterAttachments] Failed to list attachments for erasure:', { userId, error })
+      throw error
+    }
+
+    const paths = (data || []).map(row => row.storage_path as string)
+    if (paths.length === 0) return
+
+    const { error: storageError } = await this.supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove(paths)
+
+    if (storageError) {
+      console.error('[LetterAttachments] Failed to delete stored files:', { userId, storageError })
+      throw storageError
+    }
+  }
+
+  /**
+   * Download every exhibit on a letter, for attaching to an outgoing email
+   */
+  async downloadExhibits(letterId: string): Promise<ExhibitFile[]> {
+    const rows = await this.listRows(letterId)
+
+    return Promise.all(rows.map(async (row, index) => {
+      const { data, error } = await this.supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .download(row.storage_path)
+
+      if (error || !data) {
+        console.error('[LetterAttachments] Failed to download exhibit:', { attachmentId: row.id, error })
+        throw error ?? new Error(`Failed to download ${row.file_name}`)
+      }
+
+      return {
+        ...toExhibit(row, index),
+        content: Buffer.from(await data.arrayBuffer()),
+      }
+    }))
+  }
+}
+
+let storeInstance: LetterAttachmentStore | null = null
+
+export function getLetterAttachmentStore(): LetterAttachmentStore {
+  if (!storeInstance) {
+    storeInstance = new LetterAttachmentStore()
+  }
+  return storeInstance
+}
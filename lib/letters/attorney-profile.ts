@@ -0,0 +1,322 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { NotFoundError, ValidationError } from '@/lib/errors/error-handler'
+import type { LetterParties, PdfImage } from '@/lib/pdf/types'
+import { matchesFileSignature } from './exhibits'
+
+export const SIGNATURE_BUCKET = 'attorney-signatures'
+
+export const MAX_SIGNATURE_BYTES = 1024 * 1024
+
+const SIGNATURE_TYPES: Record<string, PdfImage['format']> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+}
+
+// Short-lived link for previewing the signature in the admin profile form
+const SIGNATURE_URL_TTL_SECONDS = 5 * 60
+
+// Attorney details printed in the signature block of reviewed letters
+export interface AttorneyProfile {
+  userId: string
+  name: string | null
+  email: string
+  phone: string | null
+  isLicensedAttorney: boolean
+  barNumber: string | null
+  barState: string | null
+  firmName: string | null
+  title: string | null
+  hasSignature: boolean
+  signatureUrl: string | null
+}
+
+// Admin-editable fields (camelCase, as sent by the attorney profile form)
+export interface AttorneyProfileInput {
+  isLicensedAttorney?: boolean
+  barNumber?: string | null
+  barState?: string | null
+  firmName?: string | null
+  title?: string | null
+}
+
+// The reviewing attorney as the PDF generator takes it
+export type LetterSigner = NonNullable<LetterParties['attorney']>
+
+interface AttorneyProfileRow {
+  id: string
+  email: string
+  full_name: string | null
+  phone: string | null
+  is_licensed_attorney: boolean | null
+  bar_number: string | null
+  bar_state: string | null
+  firm_name: string | null
+  attorney_title: string | null
+  signature_path: string | null
+}
+
+const PROFILE_COLUMNS =
+  'id, email, full_name, phone, is_licensed_attorney, bar_number, bar_state, firm_name, attorney_title, signature_path'
+
+function optionalText(value: string | null | undefined, field: string, max: number): string | null {
+  if (value !== null && value !== undefined && typeof value !== 'string') {
+    throw new ValidationError(`${field} must be text`)
+  }
+  const text = value?.trim() || null
+  if (text && text.length > max) {
+    throw new ValidationError(`${field} must be at most ${max} characters`)
+  }
+  return text
+}
+
+/**
+ * Validate attorney profile input and map it onto profiles columns
+ */
+export function toAttorneyColumns(input: AttorneyProfileInput): Record<string, unknown> {
+  const columns: Record<string, unknown> = {}
+
+  if (input.isLicensedAttorney !== undefined) {
+    if (typeof input.isLicensedAttorney !== 'boolean') {
+      throw new ValidationError('Licensed attorney must be true or false')
+    }
+    columns.is_licensed_attorney = input.isLicensedAttorney
+  }
+  if (input.barNumber !== undefined) {
+    columns.bar_number = optionalText(input.barNumber, 'Bar number', 50)
+  }
+  if (input.barState !== undefined) {
+    columns.bar_state = optionalText(input.barState, 'Bar state', 50)
+  }
+  if (input.firmName !== undefined) {
+    columns.firm_name = optionalText(input.firmName, 'Firm name', 200)
+  }
+  if (input.title !== undefined) {
+    columns.attorney_title = optionalText(input.title, 'Title', 100)
+  }
+
+  if (columns.is_licensed_attorney === true && input.barNumber !== undefined && !columns.bar_number) {
+    throw new ValidationError('A bar number is required for a licensed attorney')
+  }
+
+  return columns
+}
+
+/**
+ * Attorney Profile Store
+ * Reviewer credentials and signature images. The signature lives in the
+ * private attorney-signatures bucket and is only read here, with the
+ * service role, when a reviewed letter is rendered.
+ */
+export class AttorneyProfileStore {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  private async getRow(userId: string): Promise<AttorneyProfileRow | null> {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select(PROFILE_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle<AttorneyProfileRow>()
+
+    if (error) {
+      console.error('[AttorneyProfile] Failed to load profile:', { userId, error })
+      throw error
+    }
+
+    return data
+  }
+
+  async get(userId: string): Promise<AttorneyProfile> {
+    const row = await this.getRow(userId)
+    if (!row) {
+      throw new NotFoundError('Profile')
+    }
+
+    let signatureUrl: string | null = null
+    if (row.signature_path) {
+      const { data } = await this.supabase.storage
+        .from(SIGNATURE_BUCKET)
+        .createSignedUrl(row.signature_path, SIGNATURE_URL_TTL_SECONDS)
+      signatureUrl = data?.signedUrl ?? null
+    }
+
+    return {
+      userId: row.id,
+      name: row.full_name,
+      email: row.email,
+      phone: row.phone,
+      isLicensedAttorney: !!row.is_licensed_attorney,
+      barNumber: row.bar_number,
+      barState: row.bar_state,
+      firmName: row.firm_name,
+      title: row.attorney_title,
+      hasSignature: !!row.signature_path,
+      signatureUrl,
+    }
+  }
+
+  async update(userId: string, input: AttorneyProfileInput): Promise<AttorneyProfile> {
+    const columns = toAttorneyColumns(input)
+    if (Object.keys(columns).length === 0) {
+      throw new ValidationError('No attorney profile fields to update')
+    }
+
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .update({ ...columns, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[AttorneyProfile] Failed to update profile:', { userId, error })
+      throw error
+    }
+    if (!data) {
+      throw new NotFoundError('Profile')
+    }
+
+    return this.get(userId)
+  }
+
+  /**
+   * Replace the attorney's signature image after checking its type, size
+   * and file signature
+   */
+  async uploadSignature(userId: string, file: File): Promise<AttorneyProfile> {
+    if (!SIGNATURE_TYPES[file.type]) {
+      throw new ValidationError('Signature must be a PNG or JPEG image')
+    }
+    if (file.size === 0 || file.size > MAX_SIGNATURE_BYTES) {
+      throw new ValidationError('Signature image must be smaller than 1 MB')
+    }
+
+    const content = new Uint8Array(await file.arrayBuffer())
+    if (!matchesFileSignature(file.type, content)) {
+      throw new ValidationError(`${file.name} does not look like a valid ${file.type} file`)
+    }
+
+    const row = await this.getRow(userId)
+    if (!row) {
+      throw new NotFoundError('Profile')
+    }
+
+    const extension = file.type === 'image/png' ? 'png' : 'jpg'
+    const storagePath = `${userId}/signature-${Date.now()}.${extension}`
+
+    const { error: uploadError } = await this.supabase.storage
+      .from(SIGNATURE_BUCKET)
+      .upload(storagePath, content, { contentType: file.type, upsert: false })
+
+    if (uploadError) {
+      console.error('[AttorneyProfile] Signature upload failed:', { userId, uploadError })
+      throw uploadError
+    }
+
+    const { error } = await this.supabase
+      .from('profiles')
+      .update({ signature_path: storagePath, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+
+    if (error) {
+      console.error('[AttorneyProfile] Failed to record signature:', { userId, error })
+      await this.supabase.storage.from(SIGNATURE_BUCKET).remove([storagePath])
+      throw error
+    }
+
+    if (row.signature_path) {
+      await this.removeStoredSignature(userId, row.signature_path)
+    }
+
+    return this.get(userId)
+  }
+
+  async removeSignature(userId: string): Promise<AttorneyProfile> {
+    const row = await this.getRow(userId)
+    if (!row) {
+      throw new NotFoundError('Profile')
+    }
+    if (!row.signature_path) {
+      return this.get(userId)
+    }
+
+    const { error } = await this.supabase
+      .from('profiles')
+      .update({ signature_path: null, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+
+    if (error) {
+      console.error('[AttorneyProfile] Failed to clear signature:', { userId, error })
+      throw error
+    }
+
+    await this.removeStoredSignature(userId, row.signature_path)
+    return this.get(userId)
+  }
+
+  private async removeStoredSignature(userId: string, path: string): Promise<void> {
+    const { error } = await this.supabase.storage.from(SIGNATURE_BUCKET).remove([path])
+    if (error) {
+      console.warn('[AttorneyProfile] Failed to delete stored signature:', { userId, error })
+    }
+  }
+
+  /**
+   * The reviewer who signs a letter, with their signature image. Only a
+   * licensed attorney signs; anyone else returns null and the letter is
+   * signed by the sender. A signature that cannot be loaded is left off
+   * rather than failing the letter.
+   */
+  async loadSigner(reviewerId: string): Promise<LetterSigner | null> {
+    const row = await this.getRow(reviewerId)
+    if (!row?.is_licensed_attorney || !row.full_name) {
+      return null
+    }
+
+    let signature: PdfImage | undefined
+    if (row.signature_path) {
+      const { data, error } = await this.supabase.storage
+        .from(SIGNATURE_BUCKET)
+        .download(row.signature_path)
+
+      if (error || !data) {
+        console.warn('[AttorneyProfile] Failed to download signature:', { reviewerId, error })
+      } else {
+        const format = SIGNATURE_TYPES[data.type] ?? (row.signature_path.endsWith('.png') ? 'PNG' : 'JPEG')
+        signature = { data: new Uint8Array(await data.arrayBuffer()), format }
+      }
+    }
+
+    return {
+      name: row.full_name,
+      email: row.email,
+      ...(row.attorney_title && { title: row.attorney_title }),
+      ...(row.firm_name && { firmName: row.firm_name }),
+      ...(row.bar_number && { barNumber: row.bar_number }),
+      ...(row.bar_state && { barState: row.bar_state }),
+      ...(row.phone && { phone: row.phone }),
+      ...(signature && { signature }),
+    }
+  }
+}
+
+let attorneyProfileStoreInstance: AttorneyProfileStore | null = null
+
+export function getAttorneyProfileStore(): AttorneyProfileStore {
+  if (!attorneyProfileStoreInstance) {
+    attorneyProfileStoreInstance = new AttorneyProfileStore()
+  }
+  return attorneyProfileStoreInstance
+}
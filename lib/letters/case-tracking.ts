@@ -0,0 +1,289 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError } from '@/lib/errors/error-handler'
+import { getEmailQueue } from '@/lib/email/queue'
+import {
+  DEADLINE_REMINDER_DAYS,
+  LETTER_OUTCOMES,
+  daysUntilDeadline,
+  parseDeadlineDate,
+  type LetterOutcome,
+} from './outcomes'
+
+// Database row types matching the letter_outcomes schema (snake_case)
+export interface LetterOutcomeRow {
+  id: string
+  letter_id: string
+  user_id: string | null
+  outcome: LetterOutcome
+  notes: string | null
+  occurred_on: string | null
+  created_at: string
+}
+
+export interface CaseThreadLetter {
+  id: string
+  title: string
+  status: string
+  parent_letter_id: string | null
+  sent_at: string | null
+  response_deadline: string | null
+  outcome: LetterOutcome | null
+  created_at: string
+}
+
+interface DeadlineLetterRow {
+  id: string
+  title: string
+  response_deadline: string
+  profiles: { email: string | null; full_name: string | null } | null
+}
+
+const THREAD_COLUMNS = 'id, title, status, parent_letter_id, sent_at, response_deadline, outcome, created_at'
+
+// Follow-up chains longer than this are not walked
+const MAX_THREAD_DEPTH = 20
+
+/**
+ * Letter Case Tracker
+ * Follows a letter after it is sent: recipient outcomes, response deadline
+ * reminders and the thread of follow-up letters.
+ */
+export class LetterCaseTracker {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  /**
+   * Record that a letter went out. Only the first send starts the response
+   * deadline clock.
+   */
+  async markSent(letter: { id: string; intake_data: Record<string, unknown> | null }): Promise<void> {
+    const { error } = await this.supabase
+      .from('letters')
+      .update({
+        sent_at: new Date().toISOString(),
+        response_deadline: parseDeadlineDate(letter.intake_data?.deadlineDate),
+      })
+      .eq('id', letter.id)
+      .is('sent_at', null)
+
+    if (error) {
+      // Sending already succeeded; tracking is best effort
+      console.error('[LetterCaseTracker] Failed to mark letter sent:', { letterId: letter.id, error })
+    }
+  }
+
+  async listOutcomes(letterId: string): Promise<LetterOutcomeRow[]> {
+    const { data, error } = await this.supabase
+      .from('letter_outcomes')
+      .select('*')
+      .eq('letter_id', letterId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[LetterCaseTracker] Failed to list outcomes:', { letterId, error })
+      throw error
+    }
+
+    return (data || []) as LetterOutcomeRow[]
+  }
+
+  async recordOutcome(params: {
+    letter: { id: string; status: string }
+    userId: string
+    outcome: LetterOutcome
+    notes?: string
+    occurredOn?: string
+  }): Promise<LetterOutcomeRow> {
+    const { letter, userId, outcome } = params
+
+    if (letter.status !== 'approved' && letter.status !== 'completed') {
+      throw new ConflictError('Outcomes can only be recorded for approved letters')
+    }
+
+    const { data, error } = await this.supabase
+      .from('letter_outcomes')
+      .insert({
+        letter_id: letter.id,
+        user_id: userId,
+        outcome,
+        notes: params.notes || null,
+        occurred_on: params.occurredOn || null,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[LetterCaseTracker] Failed to record outcome:', { letterId: letter.id, error })
+      throw error
+    }
+
+    const row = data as LetterOutcomeRow
+
+    await this.supabase
+      .from('letters')
+      .update({ outcome, outcome_recorded_at: row.created_at })
+      .eq('id', letter.id)
+
+    await this.supabase.from('letter_audit_trail').insert({
+      letter_id: letter.id,
+      action: 'outcome_recorded',
+      performed_by: userId,
+      old_status: letter.status,
+      new_status: letter.status,
+      notes: `Recipient outcome: ${LETTER_OUTCOMES[outcome].label}`,
+      metadata: { outcome_id: row.id, outcome },
+    })
+
+    return row
+  }
+
+  /**
+   * Every letter in the case a letter belongs to, from the original letter
+   * through all of its follow-ups, oldest first
+   */
+  async getThread(letterId: string): Promise<CaseThreadLetter[]> {
+    let rootId = letterId
+    for (let depth = 0; depth < MAX_THREAD_DEPTH; depth++) {
+      const { data } = await this.supabase
+        .from('letters')
+        .select('id, parent_letter_id')
+        .eq('id', rootId)
+        .maybeSingle()
+
+      if (!data?.parent_letter_id) break
+      rootId = data.parent_letter_id
+    }
+
+    const { data: root } = await this.supabase
+      .from('letters')
+      .select(THREAD_COLUMNS)
+      .eq('id', rootId)
+      .maybeSingle<CaseThreadLetter>()
+
+    if (!root) return []
+
+    const thread: CaseThreadLetter[] = [root]
+    let frontier = [root.id]
+    for (let depth = 0; depth < MAX_THREAD_DEPTH && frontier.length > 0; depth++) {
+      const { data: children, error } = await this.supabase
+        .from('letters')
+        .select(THREAD_COLUMNS)
+        .in('parent_letter_id', frontier)
+
+      if (error) {
+        console.error('[LetterCaseTracker] Failed to load follow-ups:', { letterId, error })
+        throw error
+      }
+
+      const rows = (children || []) as CaseThreadLetter[]
+      thread.push(...rows)
+      frontier = rows.map(row => row.id)
+    }
+
+    return thread.sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }
+
+  /**
+   * Queue deadline emails for sent, unresolved letters: a reminder shortly
+   * before the deadline and a follow-up prompt once it has passed. Each is
+   * sent once per letter.
+   */
+  async sendDeadlineReminders(now: Date = new Date()): Promise<{ reminded: number; overdue: number }> {
+    const today = now.toISOString().substring(0, 10)
+    const reminderCutoff = new Date(now.getTime() + DEADLINE_REMINDER_DAYS * 24 * 60 * 60 * 1000)
+      .toISOString().substring(0, 10)
+    const unresolved = 'outcome.is.null,outcome.in.(ignored,disputed)'
+    const columns = 'id, title, response_deadline, profiles(email, full_name)'
+
+    const [dueSoon, passed] = await Promise.all([
+      this.supabase
+        .from('letters')
+        .select(columns)
+        .not('sent_at', 'is', null)
+        .is('deadline_reminder_sent_at', null)
+        .gte('response_deadline', today)
+        .lte('response_deadline', reminderCutoff)
+        .or(unresolved)
+        .limit(100),
+      this.supabase
+        .from('letters')
+        .select(columns)
+        .not('sent_at', 'is', null)
+        .is('deadline_passed_notified_at', null)
+        .lt('response_deadline', today)
+        .or(unresolved)
+        .limit(100),
+    ])
+
+    if (dueSoon.error || passed.error) {
+      const error = dueSoon.error || passed.error
+      console.error('[LetterCaseTracker] Failed to load letters with deadlines:', error)
+      throw error
+    }
+
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+    const queue = getEmailQueue()
+    const result = { reminded: 0, overdue: 0 }
+
+    const notify = async (
+      letter: DeadlineLetterRow,
+      template: 'letter-deadline-reminder' | 'letter-deadline-passed',
+      column: 'deadline_reminder_sent_at' | 'deadline_passed_notified_at'
+    ): Promise<boolean> => {
+      // Claim the letter first so overlapping runs never email twice
+      const { data: claimed } = await this.supabase
+        .from('letters')
+        .update({ [column]: now.toISOString() })
+        .eq('id', letter.id)
+        .is(column, null)
+        .select('id')
+
+      if (!claimed?.length || !letter.profiles?.email) return false
+
+      try {
+        await queue.enqueueTemplate(template, letter.profiles.email, {
+          userName: letter.profiles.full_name || 'there',
+          letterTitle: letter.title,
+          letterLink: `${siteUrl}/dashboard/letters/${letter.id}`,
+          actionUrl: `${siteUrl}/dashboard/letters/new?followUp=${letter.id}`,
+          deadlineDate: letter.response_deadline,
+          daysUntilDeadline: daysUntilDeadline(letter.response_deadline, now),
+        })
+        return true
+      } catch (error) {
+        console.error('[LetterCaseTracker] Failed to queue deadline email:', { letterId: letter.id, template, error })
+        return false
+      }
+    }
+
+    for (const letter of (dueSoon.data || []) as unknown as DeadlineLetterRow[]) {
+      if (await notify(letter, 'letter-deadline-reminder', 'deadline_reminder_sent_at')) result.reminded++
+    }
+    for (const letter of (passed.data || []) as unknown as DeadlineLetterRow[]) {
+      if (await notify(letter, 'letter-deadline-passed', 'deadline_passed_notified_at')) result.overdue++
+    }
+
+    return result
+  }
+}
+
+let trackerInstance: LetterCaseTracker | null = null
+
+export function getLetterCaseTracker(): LetterCaseTracker {
+  if (!trackerInstance) {
+    trackerInstance = new LetterCaseTracker()
+  }
+  return trackerInstance
+}
@@ -0,0 +1,69 @@
+import { createClient } from '@/lib/supabase/server'
+import { getAdminActorId, getReviewActor } from '@/lib/auth/admin-session'
+import { AuthenticationError, NotFoundError } from '@/lib/errors/error-handler'
+import { getLetterCommentStore, type CommentLetterContext, type LetterCommentAuthorRole } from './comments'
+import { getReviewAssignmentService } from './review-assignment'
+
+export interface LetterCommenter {
+  userId: string
+  role: LetterCommentAuthorRole
+  letter: CommentLetterContext
+}
+
+/**
+ * Resolve who may take part in a letter's thread: any admin, the reviewer
+ * the letter is assigned to, or the subscriber who owns the letter. Other users get a 404 so letter ids
+ * cannot be probed.
+ */
+export async function resolveLetterCommenter(letterId: string): Promise<LetterCommenter> {
+  const store = getLetterCommentStore()
+
+  const adminId = await getAdminActorId()
+  if (adminId) {
+    const letter = await store.getLetter(letterId)
+    if (!letter) throw new NotFoundError('Letter')
+    return { userId: adminId, role: 'admin', letter }
+  }
+
+  // Assigned reviewers post on the reviewer side of the thread
+  const reviewer = await getReviewActor()
+  if (reviewer?.role === 'reviewer') {
+    const letter = await store.getLetter(letterId)
+    if (letter && letter.assigned_to === reviewer.userId) {
+      return { userId: reviewer.userId, role: 'admin', letter }
+    }
+  }
+
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    throw new AuthenticationError()
+  }
+
+  const letter = await store.getLetter(letterId)
+  if (!letter || letter.user_id !== user.id) {
+    throw new NotFoundError('Letter')
+  }
+
+  return { userId: user.id, role: 'subscriber', letter }
+}
+
+/**
+ * Resolve the portal user allowed to work on a letter in the review center:
+ * any admin, or the reviewer the letter is assigned to
+ */
+export async function resolveLetterReviewer(letterId: string): Promise<string | null> {
+  const adminId = await getAdminActorId()
+  if (adminId) {
+    return adminId
+  }
+
+  const reviewer = await getReviewActor()
+  if (reviewer?.role !== 'reviewer') {
+    return null
+  }
+
+  return await getReviewAssignmentService().isAssignedTo(letterId, reviewer.userId)
+    ? reviewer.userId
+    : null
+}
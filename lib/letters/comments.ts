@@ -0,0 +1,268 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { getEmailQueue } from '@/lib/email/queue'
+import { ConflictError, NotFoundError } from '@/lib/errors/error-handler'
+import { resolveParagraphMentions, type ParagraphMention } from './paragraphs'
+
+export type LetterCommentKind = 'comment' | 'change_request'
+
+export type LetterCommentAuthorRole = 'subscriber' | 'admin'
+
+// Database row type matching the letter_comments schema (snake_case)
+export interface LetterCommentRow {
+  id: string
+  letter_id: string
+  parent_id: string | null
+  author_id: string | null
+  author_role: LetterCommentAuthorRole
+  kind: LetterCommentKind
+  body: string
+  mentions: ParagraphMention[]
+  created_at: string
+  updated_at: string
+}
+
+export interface LetterCommentWithAuthor extends LetterCommentRow {
+  author: { id: string; full_name: string | null } | null
+}
+
+// The letter fields comment handling needs
+export interface CommentLetterContext {
+  id: string
+  user_id: string
+  title: string | null
+  status: string
+  assigned_to: string | null
+  reviewed_by: string | null
+  final_content: string | null
+  ai_draft_content: string | null
+}
+
+export const COMMENT_LETTER_FIELDS = 'id, user_id, title, status, assigned_to, reviewed_by, final_content, ai_draft_content'
+
+export const MAX_COMMENT_LENGTH = 5000
+
+/**
+ * Letter Comment Store
+ * Comment threads shared by a letter's subscriber and its reviewers, the
+ * "request changes" action, and the email notifications both send through
+ * the EmailQueue.
+ */
+export class LetterCommentStore {
+  private supabase: SupabaseClient
+  private tableName = 'letter_comments' as const
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  async getLetter(letterId: string): Promise<CommentLetterContext | null> {
+    const { data } = await this.supabase
+      .from('letters')
+      .select(COMMENT_LETTER_FIELDS)
+      .eq('id', letterId)
+      .maybeSingle()
+
+    return (data as CommentLetterContext | null) ?? null
+  }
+
+  async list(letterId: string): Promise<LetterCommentWithAuthor[]> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select(`
+        *,
+        author:author_id (
+          id,
+          full_name
+        )
+      `)
+      .eq('letter_id', letterId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('[LetterComments] Failed to list comments:', { letterId, error })
+      throw error
+    }
+
+    return (data || []) as LetterCommentWithAuthor[]
+  }
+
+  /**
+   * Add a comment or reply. Replies always attach to the top-level comment,
+   * so threads stay one level deep.
+   */
+  async add(params: {
+    letter: CommentLetterContext
+    authorId: string
+    authorRole: LetterCommentAuthorRole
+    body: string
+    parentId?: string | null
+    kind?: LetterCommentKind
+  }): Promise<LetterCommentRow> {
+    let parentId: string | null = null
+
+    if (params.parentId) {
+      const { data: parent } = await this.supabase
+        .from(this.tableName)
+        .select('id, letter_id, parent_id')
+        .eq('id', params.parentId)
+        .maybeSingle()
+
+      if (!parent || parent.letter_id !== params.letter.id) {
+        throw new NotFoundError('Parent comment')
+      }
+      parentId = parent.parent_id ?? parent.id
+    }
+
+    const content = params.letter.final_content || params.letter.ai_draft_content
+    const now = new Date().toISOString()
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .insert({
+        letter_id: params.letter.id,
+        parent_id: parentId,
+        author_id: params.authorId,
+        author_role: params.authorRole,
+        kind: params.kind ?? 'comment',
+        body: params.body,
+        mentions: resolveParagraphMentions(params.body, content),
+        created_at: now,
+        updated_at: now
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[LetterComments] Failed to add comment:', { letterId: params.letter.id, error })
+      throw error
+    }
+
+    return data as LetterCommentRow
+  }
+
+  /**
+   * Move an approved letter back into review with the requested changes
+   * attached as a change_request comment
+   */
+  async requestChanges(params: {
+    letter: CommentLetterContext
+    authorId: string
+    body: string
+  }): Promise<LetterCommentRow> {
+    const now = new Date().toISOString()
+
+    // Guarded on status so a concurrent review action is not overwritten
+    const { data: reopened, error: updateError } = await this.supabase
+      .from('letters')
+      .update({
+        status: 'pending_review',
+        updated_at: now
+      })
+      .eq('id', params.letter.id)
+      .eq('status', 'approved')
+      .select('id')
+
+    if (updateError) throw updateError
+    if (!reopened || reopened.length === 0) {
+      throw new ConflictError('Only approved letters can have changes requested')
+    }
+
+    const comment = await this.add({
+      letter: params.letter,
+      authorId: params.authorId,
+      authorRole: 'subscriber',
+      body: params.body,
+      kind: 'change_request'
+    })
+
+    await this.supabase.from('letter_audit_trail').insert({
+      letter_id: params.letter.id,
+      action: 'changes_requested',
+      performed_by: params.authorId,
+      old_status: 'approved',
+      new_status: 'pending_review',
+      notes: params.body.substring(0, 500),
+      metadata: { comment_id: comment.id, mentions: comment.mentions }
+    })
+
+    return comment
+  }
+
+  /**
+   * Queue notification emails for a new comment. Subscriber comments go to
+   * the letter's reviewer (or every admin when none is assigned yet);
+   * reviewer comments go to the subscriber.
+   */
+  async notify(comment: LetterCommentRow, letter: CommentLetterContext): Promise<void> {
+    try {
+      const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+      const { data: author } = await this.supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('id', comment.author_id)
+        .maybeSingle()
+
+      const commentAuthor = comment.author_role === 'admin'
+        ? 'Your reviewing attorney'
+        : author?.full_name || 'The subscriber'
+
+      let recipients: Array<{ email: string; full_name: string | null }> = []
+      let letterLink: string
+
+      if (comment.author_role === 'admin') {
+        const { data: owner } = await this.supabase
+          .from('profiles')
+          .select('email, full_name')
+          .eq('id', letter.user_id)
+          .maybeSingle()
+
+        recipients = owner?.email ? [owner] : []
+        letterLink = `${siteUrl}/dashboard/letters/${letter.id}`
+      } else {
+        const reviewerId = letter.assigned_to ?? letter.reviewed_by
+        const query = this.supabase.from('profiles').select('email, full_name')
+        const { data: reviewers } = reviewerId
+          ? await query.eq('id', reviewerId)
+          : await query.eq('role', 'admin')
+
+        recipients = (reviewers || []).filter(reviewer => reviewer.email)
+        letterLink = `${siteUrl}/secure-admin-gateway/review/${letter.id}`
+      }
+
+      const template = comment.kind === 'change_request' ? 'letter-changes-requested' : 'letter-comment'
+      const queue = getEmailQueue()
+
+      for (const recipient of recipients) {
+        await queue.enqueueTemplate(template, recipient.email, {
+          userName: recipient.full_name || 'there',
+          letterTitle: letter.title || 'Your letter',
+          letterLink,
+          commentAuthor,
+          commentText: comment.body
+        })
+      }
+    } catch (error) {
+      // Notifications must never fail the comment itself
+      console.error('[LetterComments] Failed to queue notification:', { commentId: comment.id, error })
+    }
+  }
+}
+
+let storeInstance: LetterCommentStore | null = null
+
+export function getLetterCommentStore(): LetterCommentStore {
+  if (!storeInstance) {
+    storeInstance = new LetterCommentStore()
+  }
+  return storeInstance
+}
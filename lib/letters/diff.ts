@@ -0,0 +1,108 @@
+/**
+ * Line Diff
+ * Minimal line-based diff for comparing letter versions side by side. Letters
+ * are a few hundred lines at most, so a plain LCS table is fast enough.
+ */
+
+export type DiffRowType = 'unchanged' | 'added' | 'removed' | 'changed'
+
+export interface DiffRow {
+  type: DiffRowType
+  left: string | null
+  right: string | null
+  leftNumber: number | null
+  rightNumber: number | null
+}
+
+type Operation = { type: 'equal' | 'delete' | 'insert'; line: string }
+
+function diffOperations(before: string[], after: string[]): Operation[] {
+  const rows = before.length
+  const cols = after.length
+  // lcs[i][j] = length of the longest common subsequence of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0))
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i]![j] = before[i] === after[j]
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!)
+    }
+  }
+
+  const operations: Operation[] = []
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      operations.push({ type: 'equal', line: before[i]! })
+      i++
+      j++
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      operations.push({ type: 'delete', line: before[i]! })
+      i++
+    } else {
+      operations.push({ type: 'insert', line: after[j]! })
+      j++
+    }
+  }
+  while (i < rows) operations.push({ type: 'delete', line: before[i++]! })
+  while (j < cols) operations.push({ type: 'insert', line: after[j++]! })
+
+  return operations
+}
+
+/**
+ * Compare two texts line by line. Adjacent removals and additions are paired
+ * into `changed` rows so edited lines sit next to each other.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const operations = diffOperations(before.split(/\r?\n/), after.split(/\r?\n/))
+  const result: DiffRow[] = []
+  let leftNumber = 0
+  let rightNumber = 0
+  let index = 0
+
+  while (index < operations.length) {
+    const operation = operations[index]!
+
+    if (operation.type === 'equal') {
+      leftNumber++
+      rightNumber++
+      result.push({ type: 'unchanged', left: operation.line, right: operation.line, leftNumber, rightNumber })
+      index++
+      continue
+    }
+
+    const removed: string[] = []
+    const added: string[] = []
+    while (index < operations.length && operations[index]!.type !== 'equal') {
+      const change = operations[index]!
+      if (change.type === 'delete') removed.push(change.line)
+      else added.push(change.line)
+      index++
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k] ?? null
+      const right = added[k] ?? null
+      result.push({
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+        left,
+        right,
+        leftNumber: left !== null ? ++leftNumber : null,
+        rightNumber: right !== null ? ++rightNumber : null
+      })
+    }
+  }
+
+  return result
+}
+
+export function summarizeDiff(rows: DiffRow[]): { added: number; removed: number; changed: number } {
+  return {
+    added: rows.filter(row => row.type === 'added').length,
+    removed: rows.filter(row => row.type === 'removed').length,
+    changed: rows.filter(row => row.type === 'changed').length
+  }
+}
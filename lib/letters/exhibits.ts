@@ -0,0 +1,109 @@
+/**
+ * Letter Exhibits
+ * Upload rules for evidence attachments and the exhibit labels they carry in
+ * emailed and exported letters. Safe to import from client components.
+ */
+
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'image/jpeg': 'JPEG image',
+  'image/png': 'PNG image',
+  'image/webp': 'WebP image',
+  'text/plain': 'Text file',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'Word document',
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+export const MAX_ATTACHMENTS_PER_LETTER = 10
+
+// Once a letter is approved its exhibits are fixed, since they travel with it
+export function areAttachmentsLocked(letterStatus: string): boolean {
+  return letterStatus === 'approved' || letterStatus === 'completed'
+}
+
+// Value for the file input's `accept` attribute
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES).join(',')
+
+// Attachment metadata shown to subscribers and reviewers
+export interface LetterExhibit {
+  id: string
+  label: string
+  fileName: string
+  contentType: string
+  sizeBytes: number
+}
+
+/**
+ * Check a file against the type, size and per-letter count limits.
+ * Returns the reason it is refused, or null when it is accepted.
+ */
+export function validateAttachmentFile(
+  file: { name: string; type: string; size: number },
+  existingCount: number = 0
+): string | null {
+  if (existingCount >= MAX_ATTACHMENTS_PER_LETTER) {
+    return `A letter can have at most ${MAX_ATTACHMENTS_PER_LETTER} attachments`
+  }
+
+  if (!ATTACHMENT_TYPES[file.type]) {
+    return `${file.name}: only PDF, JPEG, PNG, WebP, text and Word files can be attached`
+  }
+
+  if (file.size <= 0) {
+    return `${file.name} is empty`
+  }
+
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`
+  }
+
+  return null
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset: number = 0): boolean {
+  return signature.every((byte, index) => bytes[offset + index] === byte)
+}
+
+/**
+ * Check that a file's leading bytes match its declared type, so a renamed
+ * executable cannot be stored as a "PDF"
+ */
+export function matchesFileSignature(contentType: string, bytes: Uint8Array): boolean {
+  switch (contentType) {
+    case 'application/pdf':
+      return startsWith(bytes, [0x25, 0x50, 0x44, 0x46]) // %PDF
+    case 'image/jpeg':
+      return startsWith(bytes, [0xff, 0xd8, 0xff])
+    case 'image/png':
+      return startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    case 'image/webp':
+      return startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8) // RIFF....WEBP
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      return startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) // ZIP container
+    case 'text/plain':
+      return !bytes.subarray(0, 1024).includes(0)
+    default:
+      return false
+  }
+}
+
+/**
+ * Exhibit label for the attachment at `index` in upload order:
+ * A-Z, then AA, AB, ...
+ */
+export function exhibitLabel(index: number): string {
+  let label = ''
+  let n = index
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label
+    n = Math.floor(n / 26) - 1
+  } while (n >= 0)
+  return `Exhibit ${label}`
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
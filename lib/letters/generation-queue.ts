@@ -0,0 +1,486 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { generateTextWithRetry } from '@/lib/ai/openai-retry'
+import { buildLetterPrompt, LETTER_SYSTEM_PROMPT } from './prompt'
+import { getLetterVersionStore } from './versions'
+import { getReviewAssignmentService } from './review-assignment'
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+export type GenerationStage = 'queued' | 'analyzing' | 'drafting' | 'finalizing' | 'completed' | 'failed'
+
+// Database row type matching the letter_generation_jobs schema (snake_case)
+export interface LetterGenerationJobRow {
+  id: string
+  letter_id: string
+  user_id: string
+  status: GenerationJobStatus
+  stage: GenerationStage
+  allowance_deducted: boolean
+  is_free_trial: boolean
+  attempts: number
+  error: string | null
+  created_at: string
+  started_at: string | null
+  heartbeat_at: string
+  completed_at: string | null
+  updated_at: string
+}
+
+export interface GenerationProgress {
+  jobId: string
+  letterId: string
+  status: GenerationJobStatus
+  stage: GenerationStage
+  error: string | null
+  updatedAt: string
+}
+
+const DEFAULT_GENERATION_TIMEOUT_MINUTES = 10
+
+/**
+ * How long a job may go without a heartbeat before the sweeper fails it.
+ * Configurable through LETTER_GENERATION_TIMEOUT_MINUTES.
+ */
+export function getGenerationTimeoutMs(): number {
+  const minutes = Number(process.env.LETTER_GENERATION_TIMEOUT_MINUTES)
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_GENERATION_TIMEOUT_MINUTES) * 60 * 1000
+}
+
+export function toGenerationProgress(row: Pick<LetterGenerationJobRow, 'id' | 'letter_id' | 'status' | 'stage' | 'error' | 'updated_at'>): GenerationProgress {
+  return {
+    jobId: row.id,
+    letterId: row.letter_id,
+    status: row.status,
+    stage: row.stage,
+    error: row.error,
+    updatedAt: row.updated_at
+  }
+}
+
+export function isTerminalGenerationStatus(status: GenerationJobStatus): boolean {
+  return status === 'completed' || status === 'failed'
+}
+
+/**
+ * Letter Generation Queue
+ * Runs AI letter drafting outside the request that created the letter, records
+ * progress for the tracker UI, and refunds credits for jobs that fail or stall.
+ */
+export class LetterGenerationQueue {
+  private supabase: SupabaseClient
+  private tableName = 'letter_generation_jobs' as const
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  /**
+   * Queue generation for a letter that was just created in `generating`
+   * status. With `deductAllowance` the subscriber's credit is taken in the
+   * same transaction that creates the job; returns null, queueing nothing,
+   * when no credit is left.
+   */
+  async enqueue(params: {
+    letterId: string
+    userId: string
+    deductAllowance: boolean
+    isFreeTrial: boolean
+  }): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .rpc('enqueue_letter_generation', {
+        p_letter_id: params.letterId,
+        p_user_id: params.userId,
+        p_deduct_allowance: params.deductAllowance,
+        p_is_free_trial: params.isFreeTrial
+      })
+
+    if (error) {
+      console.error('[GenerationQueue] Failed to enqueue job:', error)
+      throw error
+    }
+
+    const jobId = (data as string | null) ?? null
+    if (!jobId) {
+      console.warn('[GenerationQueue] No allowance left, job not queued:', { letterId: params.letterId })
+      return null
+    }
+
+    console.log('[GenerationQueue] Job queued:', { id: jobId, letterId: params.letterId })
+    return jobId
+  }
+
+  /**
+   * Claim and run a single job. Returns false when the job was already
+   * claimed by another worker or is no longer queued.
+   */
+  async runJob(jobId: string): Promise<boolean> {
+    const { data: claimed, error: claimError } = await this.supabase
+      .rpc('claim_letter_generation_job', { p_job_id: jobId })
+
+    if (claimError) {
+      console.error('[GenerationQueue] Failed to claim job:', { jobId, error: claimError })
+      return false
+    }
+
+    const job = (claimed as LetterGenerationJobRow[] | null)?.[0]
+    if (!job) {
+      return false
+    }
+
+    try {
+      const { data: letter, error: letterError } = await this.supabase
+        .from('letters')
+        .select('id, letter_type, intake_data, status, parent_letter_id')
+        .eq('id', job.letter_id)
+        .single()
+
+      if (letterError || !letter) {
+        throw new Error('Letter not found for generation job')
+      }
+
+      if (letter.status !== 'generating') {
+        throw new Error(`Letter is no longer generating (status: ${letter.status})`)
+      }
+
+      // Follow-ups are drafted with the original letter's history
+      const { data: parent } = letter.parent_letter_id
+        ? await this.supabase
+            .from('letters')
+            .select('title, sent_at, response_deadline, outcome')
+            .eq('id', letter.parent_letter_id)
+            .maybeSingle()
+        : { data: null }
+
+      const prompt = buildLetterPrompt(
+        letter.letter_type,
+        (letter.intake_data || {}) as Record<string, unknown>,
+        parent
+          ? {
+              followUp: {
+                title: parent.title,
+                sentAt: parent.sent_at,
+                responseDeadline: parent.response_deadline,
+                outcome: parent.outcome,
+              },
+            }
+          : {}
+      )
+
+      await this.setStage(job.id, 'drafting')
+      console.log('[GenerationQueue] Starting AI generation with retry logic:', { jobId: job.id })
+
+      const { text: generatedContent, attempts, duration, provider, model } = await generateTextWithRetry({
+        task: 'letter_generation',
+        prompt,
+        system: LETTER_SYSTEM_PROMPT,
+        temperature: 0.7,
+        maxOutputTokens: 2048
+      })
+
+      console.log('[GenerationQueue] AI generation completed:', {
+        jobId: job.id,
+        provider,
+        model,
+        attempts,
+        duration,
+        contentLength: generatedContent.length
+      })
+
+      if (!generatedContent) {
+        throw new Error('AI returned empty content')
+      }
+
+      await this.setStage(job.id, 'finalizing')
+
+      // Completing the job is the commit point: if the sweeper already failed
+      // (and refunded) it, the draft is discarded rather than resurrecting the letter.
+      const { data: completed } = await this.supabase
+        .from(this.tableName)
+        .update({
+          status: 'completed',
+          stage: 'completed',
+          error: null,
+          completed_at: new Date().toISOString(),
+          heartbeat_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id)
+        .eq('status', 'running')
+        .select('id')
+
+      if (!completed || completed.length === 0) {
+        console.warn('[GenerationQueue] Job was swept before completion, discarding draft:', { jobId: job.id })
+        return true
+      }
+
+      const { error: updateError } = await this.supabase
+        .from('letters')
+        .update({
+          ai_draft_content: generatedContent,
+          status: 'pending_review',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.letter_id)
+
+      if (updateError) {
+        console.error('[GenerationQueue] Failed to save draft:', { jobId: job.id, error: updateError })
+        await this.failJob(job, `Failed to save generated draft: ${updateError.message}`, ['completed'])
+        return true
+      }
+
+      await this.supabase.rpc('increment_total_letters', { p_user_id: job.user_id })
+
+      await getLetterVersionStore().recordSafely({
+        letterId: job.letter_id,
+        content: generatedContent,
+        source: 'ai_draft',
+        notes: `Draft generated by ${provider} (${model})`
+      })
+
+      await this.supabase.rpc('log_letter_audit', {
+        p_letter_id: job.letter_id,
+        p_action: 'created',
+        p_old_status: 'generating',
+        p_new_status: 'pending_review',
+        p_notes: 'Letter generated successfully by AI'
+      })
+
+      await getReviewAssignmentService().autoAssignSafely(job.letter_id)
+
+      return true
+    } catch (error: any) {
+      console.error('[GenerationQueue] Generation failed:', { jobId: job.id, error })
+      await this.failJob(job, `Generation failed: ${error?.message || String(error)}`, ['running'])
+      return true
+    }
+  }
+
+  /**
+   * Run queued jobs that were not picked up inline (e.g. the request that
+   * created them was terminated before its background work ran)
+   */
+  async processQueued(limit: number = 5): Promise<number> {
+    const { data: jobs, error } = await this.supabase
+      .from(this.tableName)
+      .select('id')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('[GenerationQueue] Failed to fetch queued jobs:', error)
+      return 0
+    }
+
+    let processed = 0
+    for (const job of jobs || []) {
+      if (await this.runJob(job.id)) {
+        processed++
+      }
+    }
+    return processed
+  }
+
+  /**
+   * Fail and refund every job whose heartbeat is older than the generation
+   * deadline, and fail letters left in `generating` without a job. Returns
+   * the number of jobs and letters swept.
+   */
+  async sweepStuckJobs(): Promise<number> {
+    const cutoff = new Date(Date.now() - getGenerationTimeoutMs()).toISOString()
+
+    const { data: stuck, error } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .in('status', ['queued', 'running'])
+      .lt('heartbeat_at', cutoff)
+
+    if (error) {
+      console.error('[GenerationQueue] Failed to fetch stuck jobs:', error)
+      return 0
+    }
+
+    const minutes = Math.round(getGenerationTimeoutMs() / 60000)
+    let swept = 0
+    for (const job of (stuck || []) as LetterGenerationJobRow[]) {
+      if (await this.failJob(job, `Generation timed out after ${minutes} minutes`, ['queued', 'running'])) {
+        swept++
+      }
+    }
+
+    swept += await this.sweepLettersWithoutJobs(cutoff, `Generation timed out after ${minutes} minutes`)
+
+    if (swept > 0) {
+      console.warn('[GenerationQueue] Swept stuck generation jobs:', { swept })
+    }
+    return swept
+  }
+
+  /**
+   * Fail letters stuck in `generating` since before the cutoff that never got
+   * a job, e.g. when the request died before queueing or a resubmission
+   * stopped mid-draft. A credit is only taken together with a job, so these
+   * letters have nothing to refund.
+   */
+  private async sweepLettersWithoutJobs(cutoff: string, message: string): Promise<number> {
+    const { data: letters, error } = await this.supabase
+      .from('letters')
+      .select('id')
+      .eq('status', 'generating')
+      .lt('updated_at', cutoff)
+
+    if (error) {
+      console.error('[GenerationQueue] Failed to fetch stuck letters:', error)
+      return 0
+    }
+
+    const letterIds = (letters || []).map(letter => letter.id as string)
+    if (letterIds.length === 0) {
+      return 0
+    }
+
+    const { data: jobs, error: jobsError } = await this.supabase
+      .from(this.tableName)
+      .select('letter_id')
+      .in('letter_id', letterIds)
+
+    if (jobsError) {
+      console.error('[GenerationQueue] Failed to fetch jobs for stuck letters:', jobsError)
+      return 0
+    }
+
+    const withJob = new Set((jobs || []).map(job => job.letter_id as string))
+    let swept = 0
+
+    for (const letterId of letterIds.filter(id => !withJob.has(id))) {
+      const now = new Date().toISOString()
+      const { data: failed } = await this.supabase
+        .from('letters')
+        .update({
+          status: 'failed',
+          updated_at: now
+        })
+        .eq('id', letterId)
+        .eq('status', 'generating')
+        .select('id')
+
+      if (!failed || failed.length === 0) {
+        continue
+      }
+
+      await this.supabase.rpc('log_letter_audit', {
+        p_letter_id: letterId,
+        p_action: 'generation_failed',
+        p_old_status: 'generating',
+        p_new_status: 'failed',
+        p_notes: message,
+        p_metadata: { job_id: null, refunded: false }
+      })
+      swept++
+    }
+
+    return swept
+  }
+
+  private async setStage(jobId: string, stage: GenerationStage): Promise<void> {
+    const now = new Date().toISOString()
+    await this.supabase
+      .from(this.tableName)
+      .update({ stage, heartbeat_at: now, updated_at: now })
+      .eq('id', jobId)
+      .eq('status', 'running')
+  }
+
+  /**
+   * Mark a job and its letter as failed and refund the deducted credit.
+   * Only jobs currently in one of `fromStatuses` are failed, which keeps the
+   * runner and the sweeper from refunding the same job twice.
+   */
+  private async failJob(
+    job: LetterGenerationJobRow,
+    message: string,
+    fromStatuses: GenerationJobStatus[]
+  ): Promise<boolean> {
+    const now = new Date().toISOString()
+    const { data: failed } = await this.supabase
+      .from(this.tableName)
+      .update({
+        status: 'failed',
+        stage: 'failed',
+        error: message,
+        completed_at: now,
+        updated_at: now
+      })
+      .eq('id', job.id)
+      .in('status', fromStatuses)
+      .select('id')
+
+    if (!failed || failed.length === 0) {
+      return false
+    }
+
+    await this.supabase
+      .from('letters')
+      .update({
+        status: 'failed',
+        updated_at: now
+      })
+      .eq('id', job.letter_id)
+      .eq('status', 'generating')
+
+    // REFUND if we deducted
+    if (job.allowance_deducted) {
+      const { error: refundError } = await this.supabase
+        .rpc('add_letter_allowances', { u_id: job.user_id, amount: 1 })
+
+      if (refundError) {
+        console.error('[GenerationQueue] Refund failed:', { jobId: job.id, error: refundError })
+      }
+    }
+
+    await this.supabase.rpc('log_letter_audit', {
+      p_letter_id: job.letter_id,
+      p_action: 'generation_failed',
+      p_old_status: 'generating',
+      p_new_status: 'failed',
+      p_notes: message,
+      p_metadata: { job_id: job.id, refunded: job.allowance_deducted }
+    })
+
+    return true
+  }
+}
+
+let queueInstance: LetterGenerationQueue | null = null
+
+export function getLetterGenerationQueue(): LetterGenerationQueue {
+  if (!queueInstance) {
+    queueInstance = new LetterGenerationQueue()
+  }
+  return queueInstance
+}
+
+/**
+ * Sweep stalled jobs, then run anything still queued
+ * Used by cron endpoint
+ */
+export async function processLetterGenerationQueue(): Promise<{
+  processed: number
+  swept: number
+}> {
+  const queue = getLetterGenerationQueue()
+
+  const swept = await queue.sweepStuckJobs()
+  const processed = await queue.processQueued()
+
+  return { processed, swept }
+}
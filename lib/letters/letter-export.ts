@@ -0,0 +1,129 @@
+import { generateLetterDocx } from '@/lib/docx/generator'
+import type { DocxResult } from '@/lib/docx/types'
+import { createZip, type ZipEntry } from '@/lib/docx/zip'
+import { generateLetterPdf, getLetterheadBranding, getPdfTemplate } from '@/lib/pdf/generator'
+import type { LetterParties, PdfConfig, PdfLetterData, PdfResult } from '@/lib/pdf/types'
+import { getLetterAttachmentStore } from './attachments'
+import { getAttorneyProfileStore } from './attorney-profile'
+
+const ATTORNEY_REVIEWED_NOTE =
+  'This letter has been reviewed by a licensed attorney. This does not constitute an attorney-client relationship.'
+const FORMAT_REVIEWED_NOTE =
+  'This document has been reviewed and approved for professional formatting and clarity. This is not legal advice.'
+
+// Letter columns the exported documents are built from
+export interface LetterExportRecord {
+  id: string
+  title: string
+  letter_type?: string | null
+  final_content: string | null
+  ai_draft_content: string | null
+  intake_data: Record<string, unknown> | null
+  created_at: string
+  approved_at?: string | null
+  reviewed_by?: string | null
+  profiles?: {
+    full_name?: string | null
+  } | null
+}
+
+export function letterParties(letter: LetterExportRecord): LetterParties {
+  const intake = letter.intake_data || {}
+
+  return {
+    sender: {
+      name: letter.profiles?.full_name || (intake.senderName as string) || 'Sender',
+      ...(typeof intake.senderAddress === 'string' && { address: intake.senderAddress }),
+    },
+    recipient: {
+      name: (intake.recipientName as string) || 'Recipient',
+      ...(typeof intake.recipientAddress === 'string' && { address: intake.recipientAddress }),
+      ...(typeof intake.recipientCompany === 'string' && { company: intake.recipientCompany }),
+    },
+  }
+}
+
+export interface LetterExportOptions {
+  // Overrides the intake recipient, e.g. with a mailing address
+  recipient?: LetterParties['recipient']
+  // Exhibits the caller already loaded; listed from storage otherwise
+  exhibits?: Array<{ label: string; fileName: string }>
+}
+
+/**
+ * The content and layout shared by every export of an approved letter: the
+ * letter type's layout, the configured letterhead, the exhibits as
+ * enclosures, and the reviewing attorney's signature block when the
+ * reviewer is a licensed attorney.
+ */
+async function buildLetterDocument(
+  letter: LetterExportRecord,
+  options: LetterExportOptions
+): Promise<{ data: PdfLetterData; config: PdfConfig }> {
+  const exhibits = options.exhibits ?? await getLetterAttachmentStore().listExhibits(letter.id)
+
+  const signer = letter.reviewed_by
+    ? await getAttorneyProfileStore().loadSigner(letter.reviewed_by).catch((error: unknown) => {
+        console.error('[LetterExport] Failed to load reviewing attorney:', { letterId: letter.id, error })
+        return null
+      })
+    : null
+
+  const parties = letterParties(letter)
+
+  return {
+    data: {
+      id: letter.id,
+      title: letter.title,
+      content: letter.final_content || letter.ai_draft_content || '',
+      parties: {
+        sender: parties.sender,
+        recipient: options.recipient ?? parties.recipient,
+        ...(signer && { attorney: signer }),
+      },
+      createdAt: letter.created_at,
+      approvedAt: letter.approved_at || undefined,
+      ...(letter.letter_type && { letterType: letter.letter_type }),
+      isDraft: false,
+      exhibits: exhibits.map(({ label, fileName }) => ({ label, fileName })),
+    },
+    config: {
+      template: getPdfTemplate(letter.letter_type),
+      showLetterhead: true,
+      showWatermark: false,
+      branding: getLetterheadBranding(),
+      footerNote: signer ? ATTORNEY_REVIEWED_NOTE : FORMAT_REVIEWED_NOTE,
+    },
+  }
+}
+
+/**
+ * Render an approved letter as the PDF the subscriber downloads, emails and
+ * mails
+ */
+export async function renderLetterPdf(letter: LetterExportRecord, options: LetterExportOptions = {}): Promise<PdfResult> {
+  const { data, config } = await buildLetterDocument(letter, options)
+  return generateLetterPdf(data, config)
+}
+
+/**
+ * Render an approved letter as an editable Word document matching its PDF
+ */
+export async function renderLetterDocx(letter: LetterExportRecord, options: LetterExportOptions = {}): Promise<DocxResult> {
+  const { data, config } = await buildLetterDocument(letter, options)
+  return generateLetterDocx(data, config)
+}
+
+/**
+ * Zip an exported letter with its exhibit files, which the PDF and Word
+ * exports only list as enclosures. Null when the letter has no exhibits.
+ */
+export async function bundleLetterWithExhibits(letterId: string, document: ZipEntry): Promise<Buffer | null> {
+  const exhibits = await getLetterAttachmentStore().downloadExhibits(letterId)
+  if (exhibits.length === 0) return null
+
+  return createZip([
+    document,
+    ...exhibits.map(exhibit => ({ name: `Exhibit ${exhibit.label} - ${exhibit.fileName}`, data: exhibit.content })),
+  ])
+}
@@ -0,0 +1,155 @@
+/**
+ * Letter Outcomes
+ * Outcome labels, response deadline rules and case thread grouping for sent
+ * letters. Safe to import from client components.
+ */
+
+export type LetterOutcome = 'responded' | 'paid' | 'ignored' | 'disputed'
+
+export type DeadlineState = 'none' | 'upcoming' | 'due_soon' | 'overdue' | 'resolved'
+
+export const LETTER_OUTCOMES: Record<LetterOutcome, { label: string; description: string; resolved: boolean }> = {
+  responded: {
+    label: 'Responded',
+    description: 'The recipient replied and the matter is being worked out',
+    resolved: true,
+  },
+  paid: {
+    label: 'Paid',
+    description: 'The recipient paid or met the demand',
+    resolved: true,
+  },
+  ignored: {
+    label: 'Ignored',
+    description: 'No reply from the recipient',
+    resolved: false,
+  },
+  disputed: {
+    label: 'Disputed',
+    description: 'The recipient refused or contested the demand',
+    resolved: false,
+  },
+}
+
+// Days before the deadline that the subscriber gets a reminder
+export const DEADLINE_REMINDER_DAYS = 2
+
+// Intake fields that belong to the original letter only
+const FOLLOW_UP_EXCLUDED_FIELDS = new Set(['deadlineDate', 'attachments'])
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface DeadlineLetter {
+  status: string
+  sent_at: string | null
+  response_deadline: string | null
+  outcome: LetterOutcome | null
+}
+
+export interface CaseLetter {
+  id: string
+  parent_letter_id: string | null
+  created_at: string
+}
+
+export function isLetterOutcome(value: unknown): value is LetterOutcome {
+  return typeof value === 'string' && value in LETTER_OUTCOMES
+}
+
+export function isResolvedOutcome(outcome: LetterOutcome | null | undefined): boolean {
+  return !!outcome && LETTER_OUTCOMES[outcome].resolved
+}
+
+/**
+ * The intake deadline as a YYYY-MM-DD date, or null when it is missing or
+ * not a real date
+ */
+export function parseDeadlineDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null
+
+  const trimmed = value.trim()
+  const isoDate = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  const date = isoDate ? new Date(`${trimmed}T00:00:00Z`) : new Date(trimmed)
+  if (Number.isNaN(date.getTime())) return null
+
+  // Reject dates the Date constructor rolled over, like 2026-02-31
+  if (isoDate && date.toISOString().substring(0, 10) !== trimmed) return null
+
+  if (isoDate) return trimmed
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())).toISOString().substring(0, 10)
+}
+
+/**
+ * Whole days from today until the deadline; negative once it has passed.
+ * The deadline day itself counts as 0.
+ */
+export function daysUntilDeadline(deadline: string, now: Date = new Date()): number {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  return Math.round((new Date(`${deadline}T00:00:00Z`).getTime() - today) / DAY_MS)
+}
+
+export function getDeadlineState(letter: DeadlineLetter, now: Date = new Date()): DeadlineState {
+  if (isResolvedOutcome(letter.outcome)) return 'resolved'
+  if (!letter.sent_at || !letter.response_deadline) return 'none'
+
+  const days = daysUntilDeadline(letter.response_deadline, now)
+  if (days < 0) return 'overdue'
+  if (days <= DEADLINE_REMINDER_DAYS) return 'due_soon'
+  return 'upcoming'
+}
+
+/**
+ * A follow-up is offered once a sent letter is overdue, or as soon as the
+ * recipient is recorded as ignoring or disputing it
+ */
+export function canFollowUp(letter: DeadlineLetter, now: Date = new Date()): boolean {
+  if (!['approved', 'completed'].includes(letter.status) || !letter.sent_at) return false
+  if (letter.outcome === 'ignored' || letter.outcome === 'disputed') return true
+  return getDeadlineState(letter, now) === 'overdue'
+}
+
+/**
+ * Intake form values for a follow-up, copied from the original letter. The
+ * deadline and evidence are left for the subscriber to supply again.
+ */
+export function buildFollowUpIntake(intakeData: Record<string, unknown> | null | undefined): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const [key, value] of Object.entries(intakeData || {})) {
+    if (FOLLOW_UP_EXCLUDED_FIELDS.has(key)) continue
+    if (typeof value === 'string' || typeof value === 'number') {
+      values[key] = String(value)
+    }
+  }
+  return values
+}
+
+/**
+ * Group letters into case threads: each original letter followed by its
+ * follow-ups in the order they were written. Threads are ordered by their
+ * latest letter, newest first. A letter whose parent is not in the list
+ * starts its own thread.
+ */
+export function buildCaseThreads<T extends CaseLetter>(letters: T[]): T[][] {
+  const byId = new Map(letters.map(letter => [letter.id, letter]))
+
+  const rootOf = (letter: T): string => {
+    let current = letter
+    const seen = new Set<string>()
+    while (current.parent_letter_id && byId.has(current.parent_letter_id) && !seen.has(current.id)) {
+      seen.add(current.id)
+      current = byId.get(current.parent_letter_id)!
+    }
+    return current.id
+  }
+
+  const threads = new Map<string, T[]>()
+  for (const letter of letters) {
+    const root = rootOf(letter)
+    threads.set(root, [...(threads.get(root) || []), letter])
+  }
+
+  const latest = (thread: T[]) => thread[thread.length - 1]!.created_at
+  return [...threads.values()]
+    .map(thread => [...thread].sort((a, b) => a.created_at.localeCompare(b.created_at)))
+    .sort((a, b) => latest(b).localeCompare(latest(a)))
+}
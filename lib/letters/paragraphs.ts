@@ -0,0 +1,55 @@
+/**
+ * Letter Paragraphs
+ * Paragraph numbering shared by the comment thread and the server, so an
+ * `@p3` mention points at the same text on both sides. Client-safe.
+ */
+
+export interface ParagraphMention {
+  paragraph: number
+  excerpt: string
+}
+
+const MENTION_PATTERN = /@p(\d{1,3})\b/gi
+const EXCERPT_LENGTH = 280
+
+/**
+ * Split letter content into paragraphs on blank lines
+ */
+export function splitParagraphs(content: string | null | undefined): string[] {
+  if (!content) return []
+  return content
+    .split(/\r?\n\s*\r?\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Paragraph numbers (1-based) mentioned in a comment, in order of first use
+ */
+export function parseParagraphMentions(body: string): number[] {
+  const numbers: number[] = []
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const paragraph = Number(match[1])
+    if (paragraph > 0 && !numbers.includes(paragraph)) {
+      numbers.push(paragraph)
+    }
+  }
+  return numbers
+}
+
+/**
+ * Resolve mentions against the letter content, keeping an excerpt of each
+ * paragraph so the reference survives later edits. Out-of-range numbers are dropped.
+ */
+export function resolveParagraphMentions(body: string, content: string | null | undefined): ParagraphMention[] {
+  const paragraphs = splitParagraphs(content)
+  return parseParagraphMentions(body)
+    .filter(paragraph => paragraph <= paragraphs.length)
+    .map(paragraph => {
+      const text = paragraphs[paragraph - 1]!
+      return {
+        paragraph,
+        excerpt: text.length > EXCERPT_LENGTH ? `${text.substring(0, EXCERPT_LENGTH)}…` : text
+      }
+    })
+}
@@ -0,0 +1,123 @@
+/**
+ * Letter Drafting Prompt
+ * Builds the AI prompt for a letter from its sanitized intake data
+ */
+
+import { getLetterType } from '@/lib/validation/letter-types'
+import { sanitizeFileName } from '@/lib/security/input-sanitizer'
+import { exhibitLabel } from './exhibits'
+import { LETTER_OUTCOMES, type LetterOutcome } from './outcomes'
+
+export const LETTER_SYSTEM_PROMPT =
+  "You are a professional legal attorney drafting formal legal letters. Always produce professional, legally sound content with proper formatting."
+
+// Fields rendered in the fixed sections of the prompt below
+const STANDARD_PROMPT_FIELDS = new Set([
+  "senderName", "senderAddress", "senderEmail", "senderPhone",
+  "recipientName", "recipientAddress", "recipientEmail", "recipientPhone",
+  "issueDescription", "desiredOutcome", "amountDemanded", "deadlineDate",
+  "incidentDate", "additionalDetails", "attachments",
+])
+
+// The earlier letter a follow-up continues
+export interface FollowUpContext {
+  title: string
+  sentAt: string | null
+  responseDeadline: string | null
+  outcome: LetterOutcome | null
+}
+
+/**
+ * Build the drafting prompt for a letter from its validated intake data
+ */
+export function buildLetterPrompt(
+  letterType: string,
+  intakeData: Record<string, unknown>,
+  options: { followUp?: FollowUpContext } = {}
+) {
+  const definition = getLetterType(letterType)
+  const fields = (key: string) => {
+    const value = intakeData[key]
+    if (value === undefined || value === null || value === '') return ''
+    const fieldName = key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()).replace(/_/g, ' ')
+    return `${fieldName}: ${String(value)}`
+  }
+
+  const amountField = intakeData["amountDemanded"] ?
+    `Amount Demanded: $${Number(intakeData["amountDemanded"]).toLocaleString()}` : ""
+
+  const deadlineField = intakeData["deadlineDate"] ?
+    `Deadline: ${intakeData["deadlineDate"]}` : ""
+
+  const incidentDateField = intakeData["incidentDate"] ?
+    `Incident Date: ${intakeData["incidentDate"]}` : ""
+
+  // Type-specific fields declared by the letter type registry
+  const specificFields = (definition?.fields ?? [])
+    .filter(field => !STANDARD_PROMPT_FIELDS.has(field.name))
+    .map(field => {
+      const value = intakeData[field.name]
+      if (value === undefined || value === null || value === '') return ''
+      return `${field.label.replace(/ \(Optional\)$/, '')}: ${String(value)}`
+    })
+    .filter(Boolean)
+
+  // Evidence file names, lettered in upload order like the stored attachments
+  const exhibits = (Array.isArray(intakeData["attachments"]) ? intakeData["attachments"] : [])
+    .filter((name): name is string => typeof name === 'string' && name.trim() !== '')
+    .map((name, index) => `${exhibitLabel(index)}: ${sanitizeFileName(name)}`)
+
+  const { followUp } = options
+  const followUpSection = followUp ? [
+    "Follow-up To:",
+    `Original Letter: ${followUp.title}`,
+    followUp.sentAt ? `Originally Sent: ${followUp.sentAt.substring(0, 10)}` : "",
+    followUp.responseDeadline ? `Original Response Deadline: ${followUp.responseDeadline}` : "",
+    `Recipient Response: ${followUp.outcome ? LETTER_OUTCOMES[followUp.outcome].label : "No response"}`,
+    "",
+  ] : []
+
+  const basePrompt = [
+    `Draft a professional ${definition?.label ?? letterType} ${followUp ? "follow-up " : ""}letter with the following details:`,
+    "",
+    ...followUpSection,
+    "Sender Information:",
+    fields("senderName"),
+    fields("senderAddress"),
+    fields("senderEmail"),
+    fields("senderPhone"),
+    "",
+    "Recipient Information:",
+    fields("recipientName"),
+    fields("recipientAddress"),
+    fields("recipientEmail"),
+    fields("recipientPhone"),
+    "",
+    "Case Details:",
+    fields("issueDescription"),
+    fields("desiredOutcome"),
+    amountField,
+    deadlineField,
+    incidentDateField,
+    fields("additionalDetails"),
+    ...(specificFields.length > 0 ? ["", `${definition!.label} Details:`, ...specificFields] : []),
+    ...(exhibits.length > 0 ? ["", "Enclosed Exhibits:", ...exhibits] : []),
+    "",
+    "Requirements:",
+    "- Write a professional, legally sound letter (300-500 words)",
+    "- Include proper date and formal letter format",
+    "- Present facts clearly and objectively",
+    "- State clear demands with specific deadlines (if applicable)",
+    "- Maintain professional legal tone throughout",
+    "- Include proper salutations and closing",
+    ...(exhibits.length > 0 ? ["- Refer to the enclosed exhibits by label where they support a statement"] : []),
+    ...(followUp ? ["- Refer to the original letter and its date, note the missed deadline or the recipient's response, and state the next steps"] : []),
+    "- Format as a complete letter with all standard elements",
+    "- Avoid any legal advice beyond standard letter writing",
+    "",
+    "Important: Only return the letter content itself, no explanations or commentary."
+  ]
+
+  // Filter out empty lines and join
+  return basePrompt.filter(Boolean).join("\n")
+}
@@ -0,0 +1,523 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { ReviewActor } from '@/lib/auth/admin-session'
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors/error-handler'
+
+export type ReviewAssignmentStrategy = 'least_loaded' | 'round_robin' | 'manual'
+
+const ASSIGNMENT_STRATEGIES: ReviewAssignmentStrategy[] = ['least_loaded', 'round_robin', 'manual']
+
+// Letter statuses that count towards a reviewer's workload
+export const OPEN_REVIEW_STATUSES = ['pending_review', 'under_review'] as const
+
+// A reviewer as seen by the assignment strategies
+export interface ReviewerCandidate {
+  id: string
+  available: boolean
+  capacity: number | null
+  openCount: number
+  lastAssignedAt: string | null
+}
+
+export interface ReviewerWorkload extends ReviewerCandidate {
+  email: string
+  name: string | null
+  underReviewCount: number
+}
+
+interface ReviewerRow {
+  id: string
+  email: string
+  full_name: string | null
+  review_available: boolean | null
+  review_capacity: number | null
+  review_last_assigned_at: string | null
+}
+
+interface AssignableLetterRow {
+  id: string
+  status: string
+  assigned_to: string | null
+}
+
+/**
+ * Read REVIEW_ASSIGNMENT_STRATEGY. `manual` leaves new letters unassigned
+ * until a reviewer claims them or an admin assigns them.
+ */
+export function getReviewAssignmentStrategy(
+  value: string | undefined = process.env.REVIEW_ASSIGNMENT_STRATEGY
+): ReviewAssignmentStrategy {
+  const strategy = value?.trim().toLowerCase()
+  return ASSIGNMENT_STRATEGIES.find((s) => s === strategy) ?? 'least_loaded'
+}
+
+function assignedBefore(a: ReviewerCandidate, b: ReviewerCandidate): number {
+  // Reviewers never assigned a letter go first
+  if (a.lastAssignedAt === b.lastAssignedAt) return a.id.localeCompare(b.id)
+  if (!a.lastAssignedAt) return -1
+  if (!b.lastAssignedAt) return 1
+  return a.lastAssignedAt.localeCompare(b.lastAssignedAt)
+}
+
+/**
+ * Choose the reviewer for a new letter. Unavailable reviewers and reviewers
+ * at capacity are skipped; least-loaded picks the fewest open letters and
+ * round-robin the reviewer who has waited longest for one, each falling
+ * back to the other as a tie-break.
+ */
+export function pickReviewer(
+  candidates: ReviewerCandidate[],
+  strategy: ReviewAssignmentStrategy
+): ReviewerCandidate | null {
+  if (strategy === 'manual') return null
+
+  const eligible = candidates.filter(
+    (c) => c.available && (c.capacity === null || c.openCount < c.capacity)
+  )
+
+  const sorted = [...eligible].sort((a, b) =>
+    strategy === 'least_loaded'
+      ? a.openCount - b.openCount || assignedBefore(a, b)
+      : assignedBefore(a, b) || a.openCount - b.openCount
+  )
+
+  return sorted[0] ?? null
+}
+
+/**
+ * Review Assignment Service
+ * Routes letters awaiting review to reviewers and keeps the assignment
+ * current when reviewers claim letters, go unavailable or are removed.
+ * Runs with the service role; row level security then limits each
+ * reviewer to the letters assigned to them.
+ */
+export class ReviewAssignmentService {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  /**
+   * Reviewers with their open letter counts, least loaded first
+   */
+  async listWorkload(): Promise<ReviewerWorkload[]> {
+    const { data: reviewers, error } = await this.supabase
+      .from('profiles')
+      .select('id, email, full_name, review_available, review_capacity, review_last_assigned_at')
+      .eq('role', 'reviewer')
+      .returns<ReviewerRow[]>()
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to load reviewers:', { error })
+      throw error
+    }
+    if (!reviewers || reviewers.length === 0) {
+      return []
+    }
+
+    const { data: letters, error: lettersError } = await this.supabase
+      .from('letters')
+      .select('assigned_to, status')
+      .in('assigned_to', reviewers.map((r) => r.id))
+      .in('status', [...OPEN_REVIEW_STATUSES])
+
+    if (lettersError) {
+      console.error('[ReviewAssignment] Failed to count open letters:', { error: lettersError })
+      throw lettersError
+    }
+
+    return reviewers
+      .map((row) => {
+        const open = (letters ?? []).filter((l) => l.assigned_to === row.id)
+        return {
+          id: row.id,
+          email: row.email,
+          name: row.full_name,
+          available: row.review_available !== false,
+          capacity: row.review_capacity,
+          openCount: open.length,
+          underReviewCount: open.filter((l) => l.status === 'under_review').length,
+          lastAssignedAt: row.review_last_assigned_at,
+        }
+      })
+      .sort((a, b) => a.openCount - b.openCount || (a.name ?? a.email).localeCompare(b.name ?? b.email))
+  }
+
+  private async getLetter(letterId: string): Promise<AssignableLetterRow | null> {
+    const { data, error } = await this.supabase
+      .from('letters')
+      .select('id, status, assigned_to')
+      .eq('id', letterId)
+      .maybeSingle<AssignableLetterRow>()
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to load letter:', { letterId, error })
+      throw error
+    }
+
+    return data
+  }
+
+  private async recordAssignment(
+    letter: AssignableLetterRow,
+    reviewerId: string | null,
+    notes: string,
+    performedBy: string | null = null
+  ): Promise<void> {
+    const now = new Date().toISOString()
+
+    if (reviewerId) {
+      await this.supabase
+        .from('profiles')
+        .update({ review_last_assigned_at: now })
+        .eq('id', reviewerId)
+    }
+
+    const { error } = await this.supabase.from('letter_audit_trail').insert({
+      letter_id: letter.id,
+      action: reviewerId ? 'assigned' : 'unassigned',
+      performed_by: performedBy,
+      old_status: letter.status,
+      new_status: letter.status,
+      notes,
+      metadata: { from: letter.assigned_to, to: reviewerId },
+    })
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to log assignment:', { letterId: letter.id, error })
+    }
+  }
+
+  /**
+   * Assign a letter that has entered review using the configured strategy.
+   * A letter already held by an available reviewer keeps its assignee, so
+   * resubmissions return to the attorney who saw them first.
+   */
+  async autoAssign(letterId: string, excludeReviewerId?: string): Promise<string | null> {
+    const letter = await this.getLetter(letterId)
+    if (!letter || !(OPEN_REVIEW_STATUSES as readonly string[]).includes(letter.status)) {
+      return null
+    }
+
+    const workload = await this.listWorkload()
+    if (letter.assigned_to && letter.assigned_to !== excludeReviewerId) {
+      // Letters the admin took over are not in the reviewer pool
+      const current = workload.find((r) => r.id === letter.assigned_to)
+      if (!current || current.available) {
+        return letter.assigned_to
+      }
+    }
+
+    const strategy = getReviewAssignmentStrategy()
+    const reviewer = pickReviewer(
+      workload.filter((r) => r.id !== excludeReviewerId),
+      strategy
+    )
+    if (!reviewer) {
+      if (letter.assigned_to && letter.assigned_to === excludeReviewerId) {
+        await this.assign(letter, null, 'Returned to the unassigned queue')
+      }
+      return null
+    }
+
+    const assigned = await this.assign(letter, reviewer.id, `Auto-assigned (${strategy})`)
+    return assigned ? reviewer.id : null
+  }
+
+  /**
+   * autoAssign for callers whose own work must not fail with it; the letter
+   * stays in the unassigned queue instead
+   */
+  async autoAssignSafely(letterId: string): Promise<string | null> {
+    try {
+      return await this.autoAssign(letterId)
+    } catch (error) {
+      console.error('[ReviewAssignment] Auto-assignment failed:', { letterId, error })
+      return null
+    }
+  }
+
+  /**
+   * Conditionally move a letter to a reviewer; the update only applies if
+   * nobody reassigned the letter in the meantime
+   */
+  private async assign(
+    letter: AssignableLetterRow,
+    reviewerId: string | null,
+    notes: string,
+    performedBy: string | null = null
+  ): Promise<boolean> {
+    const update: Record<string, unknown> = {
+      assigned_to: reviewerId,
+      assigned_at: reviewerId ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    }
+    // A letter mid-review goes back to the queue for its new reviewer
+    if (letter.status === 'under_review' && letter.assigned_to !== reviewerId) {
+      update.status = 'pending_review'
+    }
+
+    let query = this.supabase.from('letters').update(update).eq('id', letter.id)
+    query = letter.assigned_to
+      ? query.eq('assigned_to', letter.assigned_to)
+      : query.is('assigned_to', null)
+
+    const { data, error } = await query.select('id')
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to assign letter:', { letterId: letter.id, reviewerId, error })
+      throw error
+    }
+    if (!data || data.length === 0) {
+      return false
+    }
+
+    await this.recordAssignment(letter, reviewerId, notes, performedBy)
+    return true
+  }
+
+  /**
+   * Take a letter for review through start-review. Reviewers may claim
+   * unassigned letters or their own; an admin may take over any letter.
+   * Only letters awaiting review can be claimed.
+   */
+  async claim(letterId: string, actor: ReviewActor): Promise<void> {
+    const letter = await this.getLetter(letterId)
+    if (!letter) {
+      throw new NotFoundError('Letter')
+    }
+    if (!(OPEN_REVIEW_STATUSES as readonly string[]).includes(letter.status)) {
+      throw new ValidationError('Only letters awaiting review can be claimed')
+    }
+    if (letter.assigned_to === actor.userId) {
+      return
+    }
+    if (actor.role === 'reviewer' && letter.assigned_to) {
+      throw new ConflictError('This letter is assigned to another reviewer')
+    }
+
+    const claimed = await this.assign(
+      letter,
+      actor.userId,
+      actor.role === 'admin' ? 'Taken over by admin' : 'Claimed by reviewer',
+      actor.userId
+    )
+    if (!claimed) {
+      throw new ConflictError('This letter was just assigned to another reviewer')
+    }
+  }
+
+  /**
+   * Admin reassignment; `null` returns the letter to the unassigned queue
+   */
+  async reassign(letterId: string, reviewerId: string | null, adminId: string): Promise<void> {
+    const letter = await this.getLetter(letterId)
+    if (!letter) {
+      throw new NotFoundError('Letter')
+    }
+    if (!(OPEN_REVIEW_STATUSES as readonly string[]).includes(letter.status)) {
+      throw new ValidationError('Only letters awaiting review can be reassigned')
+    }
+    if (letter.assigned_to === reviewerId) {
+      return
+    }
+
+    if (reviewerId) {
+      const { data: reviewer } = await this.supabase
+        .from('profiles')
+        .select('id')
+        .eq('id', reviewerId)
+        .eq('role', 'reviewer')
+        .maybeSingle()
+      if (!reviewer) {
+        throw new NotFoundError('Reviewer')
+      }
+    }
+
+    const assigned = await this.assign(
+      letter,
+      reviewerId,
+      reviewerId ? 'Reassigned by admin' : 'Unassigned by admin',
+      adminId
+    )
+    if (!assigned) {
+      throw new ConflictError('The letter was reassigned while you were editing it')
+    }
+  }
+
+  /**
+   * Hand a reviewer's open letters to the rest of the pool
+   */
+  async redistribute(reviewerId: string): Promise<number> {
+    const { data: letters, error } = await this.supabase
+      .from('letters')
+      .select('id')
+      .eq('assigned_to', reviewerId)
+      .in('status', [...OPEN_REVIEW_STATUSES])
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to load open letters:', { reviewerId, error })
+      throw error
+    }
+
+    let moved = 0
+    for (const letter of letters ?? []) {
+      if (await this.autoAssign(letter.id, reviewerId)) {
+        moved++
+      }
+    }
+
+    return moved
+  }
+
+  /**
+   * Update a reviewer's availability and capacity. Going unavailable hands
+   * their open letters to other reviewers.
+   */
+  async updateReviewer(
+    reviewerId: string,
+    input: { available?: boolean; capacity?: number | null }
+  ): Promise<{ reassigned: number }> {
+    const columns: Record<string, unknown> = {}
+
+    if (input.available !== undefined) {
+      if (typeof input.available !== 'boolean') {
+        throw new ValidationError('Availability must be true or false')
+      }
+      columns.review_available = input.available
+    }
+    if (input.capacity !== undefined) {
+      if (input.capacity !== null && (!Number.isInteger(input.capacity) || input.capacity < 1)) {
+        throw new ValidationError('Capacity must be a positive whole number')
+      }
+      columns.review_capacity = input.capacity
+    }
+    if (Object.keys(columns).length === 0) {
+      throw new ValidationError('No reviewer fields to update')
+    }
+
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .update({ ...columns, updated_at: new Date().toISOString() })
+      .eq('id', reviewerId)
+      .eq('role', 'reviewer')
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to update reviewer:', { reviewerId, error })
+      throw error
+    }
+    if (!data) {
+      throw new NotFoundError('Reviewer')
+    }
+
+    const reassigned = input.available === false ? await this.redistribute(reviewerId) : 0
+    return { reassigned }
+  }
+
+  /**
+   * Give an existing account the reviewer role
+   */
+  async addReviewer(email: string): Promise<ReviewerWorkload> {
+    const { data: profile, error } = await this.supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('email', email.trim().toLowerCase())
+      .maybeSingle()
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to look up reviewer:', { error })
+      throw error
+    }
+    if (!profile) {
+      throw new NotFoundError('User')
+    }
+    if (profile.role === 'admin') {
+      throw new ConflictError('The admin already reviews letters')
+    }
+    if (profile.role !== 'reviewer') {
+      const { error: updateError } = await this.supabase
+        .from('profiles')
+        .update({ role: 'reviewer', review_available: true, updated_at: new Date().toISOString() })
+        .eq('id', profile.id)
+
+      if (updateError) {
+        console.error('[ReviewAssignment] Failed to add reviewer:', { userId: profile.id, error: updateError })
+        throw updateError
+      }
+    }
+
+    const reviewer = (await this.listWorkload()).find((r) => r.id === profile.id)
+    if (!reviewer) {
+      throw new NotFoundError('Reviewer')
+    }
+    return reviewer
+  }
+
+  /**
+   * Revoke the reviewer role after handing their open letters on
+   */
+  async removeReviewer(reviewerId: string): Promise<{ reassigned: number }> {
+    const { reassigned } = await this.updateReviewer(reviewerId, { available: false })
+
+    const { error } = await this.supabase
+      .from('profiles')
+      .update({ role: 'subscriber', updated_at: new Date().toISOString() })
+      .eq('id', reviewerId)
+      .eq('role', 'reviewer')
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to remove reviewer:', { reviewerId, error })
+      throw error
+    }
+
+    return { reassigned }
+  }
+
+  /**
+   * Unassigned letters awaiting review, shown to reviewers so they can
+   * claim one. Only the fields needed to choose are returned; the letter
+   * itself stays hidden until it is assigned.
+   */
+  async listUnassigned(limit: number = 50) {
+    const { data, error } = await this.supabase
+      .from('letters')
+      .select('id, title, letter_type, created_at')
+      .is('assigned_to', null)
+      .eq('status', 'pending_review')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('[ReviewAssignment] Failed to load unassigned letters:', { error })
+      throw error
+    }
+
+    return data ?? []
+  }
+
+  async isAssignedTo(letterId: string, reviewerId: string): Promise<boolean> {
+    const letter = await this.getLetter(letterId)
+    return letter?.assigned_to === reviewerId
+  }
+}
+
+let reviewAssignmentInstance: ReviewAssignmentService | null = null
+
+export function getReviewAssignmentService(): ReviewAssignmentService {
+  if (!reviewAssignmentInstance) {
+    reviewAssignmentInstance = new ReviewAssignmentService()
+  }
+  return reviewAssignmentInstance
+}
@@ -0,0 +1,103 @@
+/**
+ * Review SLAs
+ * Turnaround targets for attorney review and how far along a letter is
+ * against its target. Safe to import from client components.
+ */
+
+export type ReviewSlaState = 'on_track' | 'at_risk' | 'breached'
+
+export interface ReviewSla {
+  // When the letter last entered the review queue
+  startedAt: string
+  dueAt: string
+  targetHours: number
+  elapsedHours: number
+  state: ReviewSlaState
+}
+
+// Review target when neither the plan nor the letter type sets one
+export const DEFAULT_REVIEW_SLA_HOURS = 48
+
+// Share of the target after which a letter is flagged as at risk
+export const REVIEW_SLA_AT_RISK_RATIO = 0.75
+
+export const REVIEW_SLA_LABELS: Record<ReviewSlaState, string> = {
+  on_track: 'On track',
+  at_risk: 'Due soon',
+  breached: 'Overdue',
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Read REVIEW_SLA_DEFAULT_HOURS, falling back to 48 hours
+ */
+export function getDefaultReviewSlaHours(
+  value: string | undefined = process.env.REVIEW_SLA_DEFAULT_HOURS
+): number {
+  const hours = Number(value)
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_REVIEW_SLA_HOURS
+}
+
+/**
+ * The review target for a letter: the tighter of its plan's and its letter
+ * type's targets, or the default when neither sets one
+ */
+export function resolveReviewSlaHours(
+  planHours: number | null | undefined,
+  letterTypeHours: number | null | undefined,
+  defaultHours: number = DEFAULT_REVIEW_SLA_HOURS
+): number {
+  const targets = [planHours, letterTypeHours].filter(
+    (hours): hours is number => typeof hours === 'number' && hours > 0
+  )
+  return targets.length > 0 ? Math.min(...targets) : defaultHours
+}
+
+/**
+ * When the review clock started: the latest audit trail entry that moved the
+ * letter into pending_review (submission, resubmission or requested
+ * changes), or `fallback` for letters without one
+ */
+export function reviewClockStart(
+  entries: Array<{ new_status: string | null; created_at: string }>,
+  fallback: string
+): string {
+  let latest: string | null = null
+  for (const entry of entries) {
+    if (entry.new_status !== 'pending_review') continue
+    if (!latest || new Date(entry.created_at) > new Date(latest)) {
+      latest = entry.created_at
+    }
+  }
+  return latest ?? fallback
+}
+
+export function evaluateReviewSla(startedAt: string, targetHours: number, now: Date = new Date()): ReviewSla {
+  const start = new Date(startedAt).getTime()
+  const elapsedHours = Math.max(0, (now.getTime() - start) / HOUR_MS)
+
+  let state: ReviewSlaState = 'on_track'
+  if (elapsedHours >= targetHours) {
+    state = 'breached'
+  } else if (elapsedHours >= targetHours * REVIEW_SLA_AT_RISK_RATIO) {
+    state = 'at_risk'
+  }
+
+  return {
+    startedAt,
+    dueAt: new Date(start + targetHours * HOUR_MS).toISOString(),
+    targetHours,
+    elapsedHours: Math.round(elapsedHours * 10) / 10,
+    state,
+  }
+}
+
+// "5h" or "2d 3h" for queue badges
+export function formatSlaDuration(hours: number): string {
+  const rounded = Math.max(0, Math.round(hours))
+  if (rounded < 24) return `${rounded}h`
+  const days = Math.floor(rounded / 24)
+  const rest = rounded % 24
+  return rest ? `${days}d ${rest}h` : `${days}d`
+}
@@ -0,0 +1,232 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { getPlanCatalog } from '@/lib/billing/plan-catalog'
+import { getEmailQueue } from '@/lib/email/queue'
+import { getLetterType } from '@/lib/validation/letter-types'
+import {
+  evaluateReviewSla,
+  formatSlaDuration,
+  getDefaultReviewSlaHours,
+  resolveReviewSlaHours,
+  reviewClockStart,
+  type ReviewSla,
+} from './review-sla'
+
+// The letter fields SLA tracking needs
+export interface SlaLetter {
+  id: string
+  user_id: string
+  letter_type: string | null
+  created_at: string
+}
+
+interface OpenLetterRow extends SlaLetter {
+  title: string | null
+  assigned_to: string | null
+}
+
+export interface ReviewSlaEscalationResult {
+  atRisk: number
+  breached: number
+  emails: number
+}
+
+const OPEN_REVIEW_STATUSES = ['pending_review', 'under_review']
+
+// Subscription statuses whose plan sets the review target
+const PLAN_SUBSCRIPTION_STATUSES = ['active', 'trialing']
+
+/**
+ * Review SLA Tracker
+ * Measures letters waiting for attorney review against their turnaround
+ * target, using the audit trail to find when each letter entered the queue,
+ * and escalates letters about to miss it.
+ */
+export class ReviewSlaTracker {
+  private supabase: SupabaseClient
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  private siteUrl(): string {
+    return process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  }
+
+  // Review target from each subscriber's current plan
+  private async planTargets(userIds: string[]): Promise<Map<string, number | null>> {
+    const targets = new Map<string, number | null>()
+    if (userIds.length === 0) return targets
+
+    const { data, error } = await this.supabase
+      .from('subscriptions')
+      .select('user_id, plan_type, created_at')
+      .in('user_id', userIds)
+      .in('status', PLAN_SUBSCRIPTION_STATUSES)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[ReviewSla] Failed to load subscriptions:', error)
+      throw error
+    }
+
+    const catalog = getPlanCatalog()
+    for (const subscription of data || []) {
+      if (targets.has(subscription.user_id)) continue
+      targets.set(subscription.user_id, (await catalog.get(subscription.plan_type))?.reviewSlaHours ?? null)
+    }
+
+    return targets
+  }
+
+  // When each letter last entered pending_review, per the audit trail
+  private async clockStarts(letters: SlaLetter[]): Promise<Map<string, string>> {
+    const { data, error } = await this.supabase
+      .from('letter_audit_trail')
+      .select('letter_id, new_status, created_at')
+      .in('letter_id', letters.map((letter) => letter.id))
+      .eq('new_status', 'pending_review')
+
+    if (error) {
+      console.error('[ReviewSla] Failed to load audit trail:', error)
+      throw error
+    }
+
+    const starts = new Map<string, string>()
+    for (const letter of letters) {
+      const entries = (data || []).filter((entry) => entry.letter_id === letter.id)
+      starts.set(letter.id, reviewClockStart(entries, letter.created_at))
+    }
+
+    return starts
+  }
+
+  /**
+   * Where each letter stands against its review target
+   */
+  async evaluate(letters: SlaLetter[], now: Date = new Date()): Promise<Map<string, ReviewSla>> {
+    const result = new Map<string, ReviewSla>()
+    if (letters.length === 0) return result
+
+    const [plans, starts] = await Promise.all([
+      this.planTargets([...new Set(letters.map((letter) => letter.user_id))]),
+      this.clockStarts(letters),
+    ])
+    const defaultHours = getDefaultReviewSlaHours()
+
+    for (const letter of letters) {
+      const targetHours = resolveReviewSlaHours(
+        plans.get(letter.user_id),
+        letter.letter_type ? getLetterType(letter.letter_type)?.reviewSlaHours : undefined,
+        defaultHours
+      )
+      result.set(letter.id, evaluateReviewSla(starts.get(letter.id) ?? letter.created_at, targetHours, now))
+    }
+
+    return result
+  }
+
+  async evaluateLetter(letter: SlaLetter, now: Date = new Date()): Promise<ReviewSla | null> {
+    return (await this.evaluate([letter], now)).get(letter.id) ?? null
+  }
+
+  /**
+   * Email the assigned reviewer about letters nearing their target, and the
+   * admins too once a target is missed (or when nobody is assigned). Each
+   * letter is escalated once per state for each time it enters review.
+   */
+  async escalate(now: Date = new Date()): Promise<ReviewSlaEscalationResult> {
+    const { data: letters, error } = await this.supabase
+      .from('letters')
+      .select('id, user_id, title, letter_type, assigned_to, created_at')
+      .in('status', OPEN_REVIEW_STATUSES)
+      .order('created_at', { ascending: true })
+      .limit(500)
+
+    if (error) {
+      console.error('[ReviewSla] Failed to load open letters:', error)
+      throw error
+    }
+
+    const open = (letters || []) as OpenLetterRow[]
+    const evaluations = await this.evaluate(open, now)
+    const result: ReviewSlaEscalationResult = { atRisk: 0, breached: 0, emails: 0 }
+
+    const flagged = open.filter((letter) => evaluations.get(letter.id)?.state !== 'on_track')
+    if (flagged.length === 0) return result
+
+    const assigneeIds = [...new Set(flagged.map((letter) => letter.assigned_to).filter(Boolean))]
+    const { data: staff, error: staffError } = await this.supabase
+      .from('profiles')
+      .select('id, email, full_name, role')
+      .or(assigneeIds.length > 0 ? `role.eq.admin,id.in.(${assigneeIds.join(',')})` : 'role.eq.admin')
+
+    if (staffError) {
+      console.error('[ReviewSla] Failed to load reviewers:', staffError)
+      throw staffError
+    }
+
+    const admins = (staff || []).filter((profile) => profile.role === 'admin')
+    const queue = getEmailQueue()
+
+    for (const letter of flagged) {
+      const sla = evaluations.get(letter.id)!
+      const breached = sla.state === 'breached'
+      if (breached) result.breached++
+      else result.atRisk++
+
+      const assignee = (staff || []).find((profile) => profile.id === letter.assigned_to)
+      const recipients = [
+        ...(assignee ? [assignee] : []),
+        ...(breached || !assignee ? admins.filter((admin) => admin.id !== assignee?.id) : []),
+      ]
+
+      const alertMessage = breached
+        ? `This letter has waited ${formatSlaDuration(sla.elapsedHours)} for review and missed its ${sla.targetHours}-hour target.`
+        : `This letter is due for review within ${formatSlaDuration(sla.targetHours - sla.elapsedHours)}.`
+          + (assignee ? '' : ' It is not assigned to a reviewer yet.')
+
+      for (const recipient of recipients) {
+        if (!recipient.email) continue
+
+        try {
+          await queue.enqueueTemplate('review-sla-escalation', recipient.email, {
+            userName: recipient.full_name || 'there',
+            letterTitle: letter.title || 'Legal Letter',
+            letterLink: `${this.siteUrl()}/secure-admin-gateway/review/${letter.id}`,
+            alertMessage,
+            reviewDueDate: new Date(sla.dueAt).toLocaleString('en-US', {
+              dateStyle: 'long',
+              timeStyle: 'short',
+              timeZone: 'UTC',
+            }) + ' UTC',
+          }, 3, {
+            dedupeKey: `review-sla:${letter.id}:${sla.startedAt}:${sla.state}:${recipient.email.toLowerCase()}`,
+          })
+          result.emails++
+        } catch (error) {
+          console.error('[ReviewSla] Failed to queue escalation:', { letterId: letter.id, error })
+        }
+      }
+    }
+
+    return result
+  }
+}
+
+let slaTrackerInstance: ReviewSlaTracker | null = null
+
+export function getReviewSlaTracker(): ReviewSlaTracker {
+  if (!slaTrackerInstance) {
+    slaTrackerInstance = new ReviewSlaTracker()
+  }
+  return slaTrackerInstance
+}
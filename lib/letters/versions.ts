@@ -0,0 +1,142 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+
+export type LetterVersionSource = 'ai_draft' | 'ai_improve' | 'manual_edit' | 'resubmission' | 'restore'
+
+// Database row type matching the letter_versions schema (snake_case)
+export interface LetterVersionRow {
+  id: string
+  letter_id: string
+  version_number: number
+  content: string
+  source: LetterVersionSource
+  created_by: string | null
+  audit_id: string | null
+  restored_from: string | null
+  notes: string | null
+  created_at: string
+}
+
+export interface LetterVersionWithAuthor extends LetterVersionRow {
+  author: { id: string; email: string; full_name: string | null } | null
+}
+
+/**
+ * Letter Version Store
+ * Records every revision of a letter's content. Each version is written
+ * together with its letter_audit_trail entry by the record_letter_version
+ * function, so the two can never disagree.
+ */
+export class LetterVersionStore {
+  private supabase: SupabaseClient
+  private tableName = 'letter_versions' as const
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+  }
+
+  /**
+   * Record a revision. Returns the latest version unchanged when the content
+   * is identical to it.
+   */
+  async record(params: {
+    letterId: string
+    content: string
+    source: LetterVersionSource
+    authorId?: string | null
+    notes?: string
+  }): Promise<LetterVersionRow> {
+    const { data, error } = await this.supabase.rpc('record_letter_version', {
+      p_letter_id: params.letterId,
+      p_content: params.content,
+      p_source: params.source,
+      p_author: params.authorId ?? null,
+      p_notes: params.notes ?? null
+    })
+
+    if (error) {
+      console.error('[LetterVersions] Failed to record version:', { letterId: params.letterId, error })
+      throw error
+    }
+
+    return data as LetterVersionRow
+  }
+
+  /**
+   * Record a revision without failing the caller; version history must never
+   * block generation or review
+   */
+  async recordSafely(params: Parameters<LetterVersionStore['record']>[0]): Promise<LetterVersionRow | null> {
+    try {
+      return await this.record(params)
+    } catch {
+      return null
+    }
+  }
+
+  async list(letterId: string): Promise<LetterVersionWithAuthor[]> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select(`
+        *,
+        author:created_by (
+          id,
+          email,
+          full_name
+        )
+      `)
+      .eq('letter_id', letterId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      console.error('[LetterVersions] Failed to list versions:', { letterId, error })
+      throw error
+    }
+
+    return (data || []) as LetterVersionWithAuthor[]
+  }
+
+  async get(versionId: string): Promise<LetterVersionRow | null> {
+    const { data } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('id', versionId)
+      .maybeSingle()
+
+    return (data as LetterVersionRow | null) ?? null
+  }
+
+  /**
+   * Make an earlier version the letter's final content again
+   */
+  async restore(versionId: string, authorId: string | null): Promise<LetterVersionRow> {
+    const { data, error } = await this.supabase.rpc('restore_letter_version', {
+      p_version_id: versionId,
+      p_author: authorId
+    })
+
+    if (error) {
+      console.error('[LetterVersions] Failed to restore version:', { versionId, error })
+      throw error
+    }
+
+    return data as LetterVersionRow
+  }
+}
+
+let storeInstance: LetterVersionStore | null = null
+
+export function getLetterVersionStore(): LetterVersionStore {
+  if (!storeInstance) {
+    storeInstance = new LetterVersionStore()
+  }
+  return storeInstance
+}
@@ -0,0 +1,114 @@
+/**
+ * Mail Delivery
+ * Labels, address checks and status rules for physical mailings. Safe to
+ * import from client components.
+ */
+
+import type { MailAddress, MailDeliveryStatus, MailingMethod, MailTrackingEvent } from './types'
+
+export const MAILING_METHODS: Record<MailingMethod, { label: string; description: string; proofOfDelivery: boolean }> = {
+  first_class: {
+    label: 'First-Class Mail',
+    description: 'Standard delivery with basic tracking',
+    proofOfDelivery: false,
+  },
+  certified: {
+    label: 'Certified Mail',
+    description: 'Proof of mailing and a delivery record',
+    proofOfDelivery: true,
+  },
+  certified_return_receipt: {
+    label: 'Certified Mail, Return Receipt',
+    description: 'Certified delivery with the recipient\'s signature',
+    proofOfDelivery: true,
+  },
+  priority: {
+    label: 'Priority Mail',
+    description: 'Faster delivery with tracking',
+    proofOfDelivery: false,
+  },
+}
+
+export const MAIL_STATUS_LABELS: Record<MailDeliveryStatus, string> = {
+  submitted: 'Submitted for printing',
+  accepted: 'Accepted by carrier',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  returned: 'Returned to sender',
+  failed: 'Delivery failed',
+}
+
+// USPS codes for states, DC, territories and military post offices
+const USPS_STATE_CODES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+  'AS', 'GU', 'MP', 'PR', 'VI', 'FM', 'MH', 'PW', 'AA', 'AE', 'AP',
+])
+
+// Statuses after which tracking stops changing
+const FINAL_STATUSES: MailDeliveryStatus[] = ['delivered', 'returned', 'failed']
+
+// Progress order, so an out-of-order event never moves a mailing backwards
+const STATUS_ORDER: MailDeliveryStatus[] = ['submitted', 'accepted', 'in_transit', 'out_for_delivery', 'delivered']
+
+export function isMailingMethod(value: unknown): value is MailingMethod {
+  return typeof value === 'string' && value in MAILING_METHODS
+}
+
+export function isFinalMailStatus(status: MailDeliveryStatus): boolean {
+  return FINAL_STATUSES.includes(status)
+}
+
+/**
+ * The status a mailing is in after its tracking events. Final events win;
+ * otherwise the furthest step along the route.
+ */
+export function summarizeMailStatus(
+  events: Pick<MailTrackingEvent, 'status' | 'occurredAt'>[],
+  fallback: MailDeliveryStatus = 'submitted'
+): MailDeliveryStatus {
+  const sorted = [...events].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt))
+  const final = sorted.filter(event => isFinalMailStatus(event.status)).pop()
+  if (final) return final.status
+
+  return sorted.reduce<MailDeliveryStatus>((current, event) =>
+    STATUS_ORDER.indexOf(event.status) > STATUS_ORDER.indexOf(current) ? event.status : current,
+  fallback)
+}
+
+/**
+ * Check and trim a postal address for US mail. Returns the cleaned address
+ * or the reason it is refused.
+ */
+export function normalizeMailAddress(input: Partial<Record<keyof MailAddress, unknown>>): MailAddress | string {
+  const field = (value: unknown, max: number) => (typeof value === 'string' ? value.trim().slice(0, max) : '')
+
+  const address: MailAddress = {
+    name: field(input.name, 100),
+    line1: field(input.line1, 100),
+    city: field(input.city, 60),
+    state: field(input.state, 20).toUpperCase(),
+    postalCode: field(input.postalCode, 10),
+  }
+  const line2 = field(input.line2, 100)
+  if (line2) address.line2 = line2
+
+  if (!address.name) return 'Recipient name is required'
+  if (!address.line1) return 'Street address is required'
+  if (!address.city) return 'City is required'
+  if (!USPS_STATE_CODES.has(address.state)) return 'State must be a two-letter USPS code'
+  if (!/^\d{5}(-\d{4})?$/.test(address.postalCode)) return 'ZIP code must be 5 digits or ZIP+4'
+
+  return address
+}
+
+export function formatMailAddress(address: MailAddress): string {
+  return [
+    address.name,
+    address.line1,
+    address.line2,
+    `${address.city}, ${address.state} ${address.postalCode}`,
+  ].filter(Boolean).join('\n')
+}
@@ -0,0 +1,13 @@
+export * from './types'
+export * from './delivery'
+export { StubMailProvider } from './providers/stub'
+export type { StubMailProviderOptions } from './providers/stub'
+export {
+  MailDispatchService,
+  getMailDispatchService,
+} from './service'
+export type {
+  LetterMailingRow,
+  LetterMailingEventRow,
+  LetterMailingWithEvents,
+} from './service'
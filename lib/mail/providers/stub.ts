@@ -0,0 +1,101 @@
+import { randomBytes } from 'crypto'
+import type {
+  MailDispatchResult,
+  MailingMethod,
+  MailPiece,
+  MailProviderInterface,
+  MailTrackingEvent,
+} from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Postage the stub reports, roughly current USPS retail rates
+const STUB_POSTAGE: Record<MailingMethod, number> = {
+  first_class: 0.73,
+  certified: 5.28,
+  certified_return_receipt: 9.38,
+  priority: 10.4,
+}
+
+export interface StubMailProviderOptions {
+  // Time between simulated tracking steps (default one day)
+  stepMs?: number
+  now?: () => Date
+}
+
+/**
+ * Stub mail provider for development and tests
+ * Nothing is printed or posted. Pieces move through accepted, in transit,
+ * out for delivery and delivered one step at a time, derived from the
+ * dispatch time encoded in the reference, so tracking needs no stored state.
+ */
+export class StubMailProvider implements MailProviderInterface {
+  name = 'stub' as const
+  private stepMs: number
+  private now: () => Date
+
+  constructor(options: StubMailProviderOptions = {}) {
+    const envStepMinutes = Number(process.env.MAIL_STUB_STEP_MINUTES)
+    this.stepMs = options.stepMs
+      ?? (Number.isFinite(envStepMinutes) && envStepMinutes > 0 ? envStepMinutes * 60 * 1000 : DAY_MS)
+    this.now = options.now ?? (() => new Date())
+  }
+
+  isConfigured(): boolean {
+    // Never pretend to post real letters in production unless asked to
+    return process.env.NODE_ENV !== 'production' || process.env.MAIL_PROVIDER === 'stub'
+  }
+
+  async dispatch(piece: MailPiece): Promise<MailDispatchResult> {
+    const dispatchedAt = this.now()
+    const providerReference = `stub_${piece.method}_${dispatchedAt.getTime().toString(36)}_${randomBytes(4).toString('hex')}`
+    // USPS-style 22 digit tracking number
+    const digits = Array.from(randomBytes(18), byte => String(byte % 10)).join('')
+    const trackingNumber = `9407${digits}`
+
+    console.log('\n========== MAIL (Stub Provider) ==========')
+    console.log(`Reference: ${providerReference}`)
+    console.log(`Method: ${piece.method}`)
+    console.log(`To: ${piece.to.name}, ${piece.to.line1}, ${piece.to.city}, ${piece.to.state} ${piece.to.postalCode}`)
+    console.log(`Document: ${Math.round(piece.document.length / 1024)}KB`)
+    console.log('==========================================\n')
+
+    return {
+      success: true,
+      provider: this.name,
+      providerReference,
+      trackingNumber,
+      expectedDeliveryDate: new Date(dispatchedAt.getTime() + 4 * this.stepMs).toISOString().substring(0, 10),
+      cost: STUB_POSTAGE[piece.method],
+    }
+  }
+
+  async track(providerReference: string): Promise<MailTrackingEvent[]> {
+    const match = providerReference.match(/^stub_([a-z_]+)_([0-9a-z]+)_[0-9a-f]+$/)
+    if (!match) {
+      throw new Error(`Unknown stub mail reference: ${providerReference}`)
+    }
+
+    const method = match[1] as MailingMethod
+    const dispatchedAt = parseInt(match[2]!, 36)
+    const signed = method === 'certified_return_receipt'
+
+    const steps: Omit<MailTrackingEvent, 'occurredAt'>[] = [
+      { status: 'accepted', description: 'Accepted at USPS origin facility', location: 'Washington, DC' },
+      { status: 'in_transit', description: 'In transit to next facility' },
+      { status: 'out_for_delivery', description: 'Out for delivery' },
+      {
+        status: 'delivered',
+        description: signed ? 'Delivered, left with individual; signature on file' : 'Delivered',
+      },
+    ]
+
+    const now = this.now().getTime()
+    return steps
+      .map((step, index) => ({
+        ...step,
+        occurredAt: new Date(dispatchedAt + (index + 1) * this.stepMs).toISOString(),
+      }))
+      .filter(event => new Date(event.occurredAt).getTime() <= now)
+  }
+}
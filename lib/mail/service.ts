@@ -0,0 +1,337 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError, NotFoundError } from '@/lib/errors/error-handler'
+import { getLetterCaseTracker } from '@/lib/letters/case-tracking'
+import { renderLetterPdf } from '@/lib/letters/letter-export'
+import { formatMailAddress, isFinalMailStatus, MAILING_METHODS, summarizeMailStatus } from './delivery'
+import { StubMailProvider } from './providers/stub'
+import type {
+  MailAddress,
+  MailDeliveryStatus,
+  MailingMethod,
+  MailProvider,
+  MailProviderInterface,
+  MailTrackingEvent,
+} from './types'
+
+// Database row types matching the letter_mailings schema (snake_case)
+export interface LetterMailingRow {
+  id: string
+  letter_id: string
+  user_id: string | null
+  provider: MailProvider
+  method: MailingMethod
+  status: MailDeliveryStatus
+  provider_reference: string | null
+  tracking_number: string | null
+  recipient_name: string
+  recipient_address: MailAddress
+  cost: number | string | null
+  expected_delivery_date: string | null
+  delivered_at: string | null
+  last_tracked_at: string | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface LetterMailingEventRow {
+  id: string
+  mailing_id: string
+  status: MailDeliveryStatus
+  description: string
+  location: string | null
+  occurred_at: string
+}
+
+export interface LetterMailingWithEvents extends LetterMailingRow {
+  events: LetterMailingEventRow[]
+}
+
+interface MailLetter {
+  id: string
+  user_id: string
+  title: string
+  letter_type: string | null
+  status: string
+  final_content: string | null
+  ai_draft_content: string | null
+  intake_data: Record<string, unknown> | null
+  created_at: string
+  approved_at: string | null
+  reviewed_by: string | null
+}
+
+// Pieces still moving are re-tracked at most this often
+const TRACKING_INTERVAL_MS = 30 * 60 * 1000
+
+/**
+ * Mail Dispatch Service
+ * Prints and posts approved letters through a mail provider and records the
+ * tracking events that serve as proof of delivery.
+ */
+export class MailDispatchService {
+  private supabase: SupabaseClient
+  private providers: Map<MailProvider, MailProviderInterface> = new Map()
+  private defaultProvider: MailProvider
+
+  constructor(providers: MailProviderInterface[] = [new StubMailProvider()]) {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+
+    providers.forEach(provider => this.providers.set(provider.name, provider))
+
+    const configured = process.env.MAIL_PROVIDER as MailProvider | undefined
+    this.defaultProvider = configured && this.providers.has(configured) ? configured : 'stub'
+  }
+
+  getProvider(name?: MailProvider): MailProviderInterface {
+    const providerName = name || this.defaultProvider
+    const provider = this.providers.get(providerName)
+
+    if (!provider) {
+      throw new Error(`Unknown mail provider: ${providerName}`)
+    }
+
+    return provider
+  }
+
+  /**
+   * Real carriers need a return address; the stub posts nothing and
+   * works without one
+   */
+  isConfigured(): boolean {
+    const provider = this.getProvider()
+    return provider.isConfigured() && (provider.name === 'stub' || this.getReturnAddress() !== null)
+  }
+
+  // Return address printed on every piece, from MAIL_FROM_* settings
+  getReturnAddress(): MailAddress | null {
+    const { MAIL_FROM_NAME, MAIL_FROM_LINE1, MAIL_FROM_LINE2, MAIL_FROM_CITY, MAIL_FROM_STATE, MAIL_FROM_POSTAL_CODE } = process.env
+    if (!MAIL_FROM_LINE1 || !MAIL_FROM_CITY || !MAIL_FROM_STATE || !MAIL_FROM_POSTAL_CODE) {
+      return null
+    }
+
+    const address: MailAddress = {
+      name: MAIL_FROM_NAME || 'Talk-To-My-Lawyer',
+      line1: MAIL_FROM_LINE1,
+      city: MAIL_FROM_CITY,
+      state: MAIL_FROM_STATE,
+      postalCode: MAIL_FROM_POSTAL_CODE,
+    }
+    if (MAIL_FROM_LINE2) address.line2 = MAIL_FROM_LINE2
+    return address
+  }
+
+  /**
+   * A letter's mailings, newest first, with their tracking events
+   */
+  async list(letterId: string): Promise<LetterMailingWithEvents[]> {
+    const { data, error } = await this.supabase
+      .from('letter_mailings')
+      .select('*, events:letter_mailing_events(*)')
+      .eq('letter_id', letterId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[MailDispatch] Failed to list mailings:', { letterId, error })
+      throw error
+    }
+
+    return ((data || []) as LetterMailingWithEvents[]).map(mailing => ({
+      ...mailing,
+      events: [...mailing.events].sort((a, b) => a.occurred_at.localeCompare(b.occurred_at)),
+    }))
+  }
+
+  /**
+   * Print and post an approved letter. The printed letter lists its
+   * exhibits as enclosures.
+   */
+  async dispatch(params: {
+    letterId: string
+    userId: string
+    method: MailingMethod
+    to: MailAddress
+  }): Promise<LetterMailingRow> {
+    const { data: letter } = await this.supabase
+      .from('letters')
+      .select('id, user_id, title, letter_type, status, final_content, ai_draft_content, intake_data, created_at, approved_at, reviewed_by')
+      .eq('id', params.letterId)
+      .maybeSingle<MailLetter>()
+
+    if (!letter) {
+      throw new NotFoundError('Letter')
+    }
+
+    if (letter.status !== 'approved' && letter.status !== 'completed') {
+      throw new ConflictError('Only approved letters can be mailed')
+    }
+
+    const pdf = await renderLetterPdf(letter, {
+      recipient: { name: params.to.name, address: formatMailAddress({ ...params.to, name: '' }) },
+    })
+
+    if (!pdf.success || !pdf.buffer) {
+      throw new Error(`Failed to generate letter PDF: ${pdf.error}`)
+    }
+
+    const provider = this.getProvider()
+    const returnAddress = this.getReturnAddress()
+    const result = await provider.dispatch({
+      letterId: letter.id,
+      method: params.method,
+      to: params.to,
+      ...(returnAddress && { from: returnAddress }),
+      document: pdf.buffer,
+      description: letter.title,
+    })
+
+    const now = new Date().toISOString()
+    const { data: mailing, error } = await this.supabase
+      .from('letter_mailings')
+      .insert({
+        letter_id: letter.id,
+        user_id: params.userId,
+        provider: result.provider,
+        method: params.method,
+        status: result.success ? 'submitted' : 'failed',
+        provider_reference: result.providerReference ?? null,
+        tracking_number: result.trackingNumber ?? null,
+        recipient_name: params.to.name,
+        recipient_address: params.to,
+        cost: result.cost ?? null,
+        expected_delivery_date: result.expectedDeliveryDate ?? null,
+        error_message: result.error ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      // The provider already has the piece, so keep its reference in the logs
+      console.error('[MailDispatch] Failed to record mailing:', {
+        letterId: letter.id,
+        providerReference: result.providerReference,
+        error,
+      })
+      throw error
+    }
+
+    await this.supabase.from('letter_audit_trail').insert({
+      letter_id: letter.id,
+      action: result.success ? 'mail_dispatched' : 'mail_failed',
+      performed_by: params.userId,
+      old_status: letter.status,
+      new_status: letter.status,
+      notes: result.success
+        ? `Sent by ${MAILING_METHODS[params.method].label} to ${params.to.name}${result.trackingNumber ? ` (tracking ${result.trackingNumber})` : ''}`
+        : `Mailing failed: ${result.error}`,
+      metadata: { mailing_id: mailing.id, provider: result.provider },
+    })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Mail provider rejected the letter')
+    }
+
+    await getLetterCaseTracker().markSent(letter)
+
+    return mailing as LetterMailingRow
+  }
+
+  /**
+   * Pull the latest tracking events for a mailing and update its status
+   */
+  async refreshTracking(mailing: Pick<LetterMailingRow, 'id' | 'provider' | 'provider_reference' | 'status'>): Promise<MailDeliveryStatus> {
+    if (!mailing.provider_reference || isFinalMailStatus(mailing.status)) {
+      return mailing.status
+    }
+
+    const events: MailTrackingEvent[] = await this.getProvider(mailing.provider).track(mailing.provider_reference)
+    const now = new Date().toISOString()
+
+    if (events.length > 0) {
+      const { error } = await this.supabase
+        .from('letter_mailing_events')
+        .upsert(events.map(event => ({
+          mailing_id: mailing.id,
+          status: event.status,
+          description: event.description,
+          location: event.location ?? null,
+          occurred_at: event.occurredAt,
+        })), { onConflict: 'mailing_id,status,occurred_at', ignoreDuplicates: true })
+
+      if (error) {
+        console.error('[MailDispatch] Failed to record tracking events:', { mailingId: mailing.id, error })
+        throw error
+      }
+    }
+
+    const status = summarizeMailStatus(events, mailing.status)
+    const delivered = events.find(event => event.status === 'delivered')
+
+    await this.supabase
+      .from('letter_mailings')
+      .update({
+        status,
+        delivered_at: delivered?.occurredAt ?? null,
+        last_tracked_at: now,
+        updated_at: now,
+      })
+      .eq('id', mailing.id)
+
+    return status
+  }
+
+  /**
+   * Refresh tracking for mailings still on their way
+   */
+  async refreshActive(limit: number = 50): Promise<{ refreshed: number; delivered: number; failed: number }> {
+    const staleBefore = new Date(Date.now() - TRACKING_INTERVAL_MS).toISOString()
+
+    const { data, error } = await this.supabase
+      .from('letter_mailings')
+      .select('id, provider, provider_reference, status')
+      .not('status', 'in', '(delivered,returned,failed)')
+      .or(`last_tracked_at.is.null,last_tracked_at.lt.${staleBefore}`)
+      .order('last_tracked_at', { ascending: true, nullsFirst: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('[MailDispatch] Failed to load active mailings:', error)
+      throw error
+    }
+
+    const result = { refreshed: 0, delivered: 0, failed: 0 }
+
+    for (const mailing of (data || []) as LetterMailingRow[]) {
+      try {
+        const status = await this.refreshTracking(mailing)
+        result.refreshed++
+        if (status === 'delivered') result.delivered++
+      } catch (trackError) {
+        console.error('[MailDispatch] Tracking refresh failed:', { mailingId: mailing.id, trackError })
+        result.failed++
+      }
+    }
+
+    return result
+  }
+}
+
+let serviceInstance: MailDispatchService | null = null
+
+export function getMailDispatchService(): MailDispatchService {
+  if (!serviceInstance) {
+    serviceInstance = new MailDispatchService()
+  }
+  return serviceInstance
+}
@@ -0,0 +1,56 @@
+export type MailProvider = 'stub'
+
+export type MailingMethod = 'first_class' | 'certified' | 'certified_return_receipt' | 'priority'
+
+export type MailDeliveryStatus =
+  | 'submitted'
+  | 'accepted'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'returned'
+  | 'failed'
+
+export interface MailAddress {
+  name: string
+  line1: string
+  line2?: string
+  city: string
+  state: string
+  postalCode: string
+}
+
+export interface MailPiece {
+  letterId: string
+  method: MailingMethod
+  to: MailAddress
+  // Return address; providers that require one refuse pieces without it
+  from?: MailAddress
+  // Printable letter, including its enclosure list
+  document: Buffer
+  description?: string
+}
+
+export interface MailDispatchResult {
+  success: boolean
+  provider: MailProvider
+  providerReference?: string
+  trackingNumber?: string
+  expectedDeliveryDate?: string
+  cost?: number
+  error?: string
+}
+
+export interface MailTrackingEvent {
+  status: MailDeliveryStatus
+  description: string
+  location?: string
+  occurredAt: string
+}
+
+export interface MailProviderInterface {
+  name: MailProvider
+  isConfigured(): boolean
+  dispatch(piece: MailPiece): Promise<MailDispatchResult>
+  track(providerReference: string): Promise<MailTrackingEvent[]>
+}
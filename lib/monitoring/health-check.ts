@@ -253,6 +253,37 @@ export class HealthChecker {
     const startTime = Date.now()
 
     try {
+      const backend = process.env.RATE_LIMIT_BACKEND?.trim()
+
+      if (backend === 'memory') {
+        return {
+          status: 'degraded',
+          responseTime: Date.now() - startTime,
+          error: 'Rate limiting is in-memory (RATE_LIMIT_BACKEND=memory)',
+          details: { fallbackMode: 'in-memory' }
+        }
+      }
+
+      // Local Redis behind the REST proxy, which may be plain http://
+      if (backend === 'redis') {
+        const restUrl = process.env.REDIS_REST_URL
+
+        if (!process.env.REDIS_REST_TOKEN || !/^https?:\/\//.test(restUrl || '')) {
+          return {
+            status: 'degraded',
+            responseTime: Date.now() - startTime,
+            error: 'Rate limiting not configured (missing REDIS_REST_URL or REDIS_REST_TOKEN)',
+            details: { fallbackMode: 'in-memory' }
+          }
+        }
+
+        return {
+          status: 'healthy',
+          responseTime: Date.now() - startTime,
+          details: { hasRedis: true, backend: 'redis', url: restUrl }
+        }
+      }
+
       // Check Redis configuration for rate limiting
       const redisUrl = process.env.KV_REST_API_URL
       const redisToken = process.env.KV_REST_API_TOKEN
@@ -1,5 +1,16 @@
 import { jsPDF } from 'jspdf'
-import type { PdfLetterData, PdfConfig, PdfResult, PdfTemplate } from './types'
+import { getLetterType } from '@/lib/validation/letter-types'
+import { parseLetterContent, type ContentBlock, type TextRun } from './rich-text'
+import type {
+  LetterParties,
+  PdfBranding,
+  PdfConfig,
+  PdfImage,
+  PdfLetterData,
+  PdfResult,
+  PdfTemplate,
+  PdfTemplateLayout,
+} from './types'
 
 const DEFAULT_MARGINS = {
   top: 25,
@@ -18,6 +29,51 @@ const COLORS = {
   watermark: '#f0f0f0',
 }
 
+export const DEFAULT_BRANDING: PdfBranding = {
+  name: 'TALK-TO-MY-LAWYER',
+  tagline: 'Professional Legal Letter Services',
+}
+
+export const PDF_TEMPLATE_LAYOUTS: Record<PdfTemplate, PdfTemplateLayout> = {
+  'legal-letter': { font: 'times', accent: COLORS.primary, closing: 'Sincerely,' },
+  'demand-letter': { font: 'times', accent: '#9a3412', heading: 'FORMAL DEMAND', closing: 'Very truly yours,' },
+  'cease-desist': { font: 'times', accent: '#991b1b', heading: 'CEASE AND DESIST', closing: 'Very truly yours,' },
+  general: { font: 'helvetica', accent: COLORS.accent, closing: 'Sincerely,' },
+}
+
+export const DEFAULT_FOOTER_NOTE = 'This letter has been reviewed by a licensed attorney.'
+
+// Largest size the reviewing attorney's signature image is drawn at, in mm
+const SIGNATURE_MAX_WIDTH = 50
+const SIGNATURE_MAX_HEIGHT = 18
+
+const FONT_SIZE = 10.5
+const LINE_HEIGHT = 5
+
+/**
+ * The PDF layout for a letter type, from the letter type registry
+ */
+export function getPdfTemplate(letterType?: string | null): PdfTemplate {
+  return (letterType && getLetterType(letterType)?.pdfTemplate) || 'legal-letter'
+}
+
+/**
+ * The letterhead from the PDF_LETTERHEAD_* environment variables, falling
+ * back to the Talk-To-My-Lawyer letterhead
+ */
+export function getLetterheadBranding(env: Record<string, string | undefined> = process.env): PdfBranding {
+  if (!env.PDF_LETTERHEAD_NAME) return DEFAULT_BRANDING
+
+  return {
+    name: env.PDF_LETTERHEAD_NAME,
+    ...(env.PDF_LETTERHEAD_TAGLINE && { tagline: env.PDF_LETTERHEAD_TAGLINE }),
+    ...(env.PDF_LETTERHEAD_ADDRESS && { address: env.PDF_LETTERHEAD_ADDRESS.replace(/\\n/g, '\n') }),
+    ...(env.PDF_LETTERHEAD_PHONE && { phone: env.PDF_LETTERHEAD_PHONE }),
+    ...(env.PDF_LETTERHEAD_EMAIL && { email: env.PDF_LETTERHEAD_EMAIL }),
+    ...(env.PDF_LETTERHEAD_WEBSITE && { website: env.PDF_LETTERHEAD_WEBSITE }),
+  }
+}
+
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString('en-US', {
     year: 'numeric',
@@ -28,33 +84,53 @@ function formatDate(dateString: string): string {
 
 function sanitizeText(text: string): string {
   return text
-    .replace(/[\u0000-\u001F\u007F-\u009F]/g, '')
     .replace(/\r\n/g, '\n')
     .replace(/\r/g, '\n')
+    .replace(/[\u0000-\u0009\u000B-\u001F\u007F-\u009F]/g, '')
 }
 
-function drawLetterhead(doc: jsPDF, config: PdfConfig): number {
+function drawLetterhead(doc: jsPDF, branding: PdfBranding, layout: PdfTemplateLayout, margins: typeof DEFAULT_MARGINS): number {
   const pageWidth = doc.internal.pageSize.getWidth()
-  const margins = config.margins || DEFAULT_MARGINS
+  const right = pageWidth - margins.right
 
-  doc.setFillColor(COLORS.primary)
+  doc.setFillColor(layout.accent)
   doc.rect(0, 0, pageWidth, 8, 'F')
 
   doc.setFontSize(18)
-  doc.setTextColor(COLORS.primary)
-  doc.setFont('helvetica', 'bold')
-  doc.text('TALK-TO-MY-LAWYER', margins.left, 20)
+  doc.setTextColor(layout.accent)
+  doc.setFont(layout.font, 'bold')
+  doc.text(branding.name, margins.left, 20)
+
+  if (branding.tagline) {
+    doc.setFontSize(9)
+    doc.setTextColor(COLORS.lightText)
+    doc.setFont(layout.font, 'normal')
+    doc.text(branding.tagline, margins.left, 26)
+  }
 
-  doc.setFontSize(9)
+  // Contact details stacked on the right
+  const contact = [
+    ...(branding.address ? branding.address.split('\n') : []),
+    branding.phone,
+    branding.email,
+    branding.website,
+  ].filter((line): line is string => !!line?.trim())
+
+  doc.setFontSize(8)
   doc.setTextColor(COLORS.lightText)
-  doc.setFont('helvetica', 'normal')
-  doc.text('Professional Legal Letter Services', margins.left, 26)
+  doc.setFont(layout.font, 'normal')
+  let contactY = 15
+  for (const line of contact) {
+    doc.text(line.trim(), right, contactY, { align: 'right' })
+    contactY += 3.5
+  }
 
-  doc.setDrawColor(COLORS.border)
+  const ruleY = Math.max(32, contactY + 1)
+  doc.setDrawColor(layout.accent)
   doc.setLineWidth(0.5)
-  doc.line(margins.left, 32, pageWidth - margins.right, 32)
+  doc.line(margins.left, ruleY, right, ruleY)
 
-  return 40
+  return ruleY + 8
 }
 
 function drawWatermark(doc: jsPDF): void {
@@ -73,72 +149,287 @@ function drawWatermark(doc: jsPDF): void {
   doc.setTextColor(COLORS.text)
 }
 
-function drawFooter(doc: jsPDF, pageNumber: number, totalPages: number, referenceNumber?: string): void {
+function drawFooter(
+  doc: jsPDF,
+  pageNumber: number,
+  totalPages: number,
+  note: string,
+  margins: typeof DEFAULT_MARGINS,
+  referenceNumber?: string
+): void {
   const pageWidth = doc.internal.pageSize.getWidth()
   const pageHeight = doc.internal.pageSize.getHeight()
-  const margins = DEFAULT_MARGINS
 
   doc.setDrawColor(COLORS.border)
   doc.setLineWidth(0.3)
-  doc.line(margins.left, pageHeight - 20, pageWidth - margins.right, pageHeight - 20)
+  doc.line(margins.left, pageHeight - 21, pageWidth - margins.right, pageHeight - 21)
 
   doc.setFontSize(8)
   doc.setTextColor(COLORS.lightText)
   doc.setFont('helvetica', 'normal')
 
+  const noteLines: string[] = doc.splitTextToSize(note, pageWidth - margins.left - margins.right)
+  noteLines.slice(0, 2).forEach((line, index) => {
+    doc.text(line, pageWidth / 2, pageHeight - 17 + index * 3.5, { align: 'center' })
+  })
+
   if (referenceNumber) {
-    doc.text(`Ref: ${referenceNumber}`, margins.left, pageHeight - 12)
+    doc.text(`Ref: ${referenceNumber}`, margins.left, pageHeight - 8)
   }
 
-  doc.text(`Page ${pageNumber} of ${totalPages}`, pageWidth / 2, pageHeight - 12, { align: 'center' })
+  doc.text(`Page ${pageNumber} of ${totalPages}`, pageWidth - margins.right, pageHeight - 8, { align: 'right' })
+}
 
-  doc.text(
-    'This letter has been reviewed by a licensed attorney.',
-    pageWidth - margins.right,
-    pageHeight - 12,
-    { align: 'right' }
-  )
+function fontStyle(run: TextRun, forceBold = false): 'normal' | 'bold' | 'italic' | 'bolditalic' {
+  const bold = forceBold || !!run.bold
+  if (bold && run.italic) return 'bolditalic'
+  if (bold) return 'bold'
+  return run.italic ? 'italic' : 'normal'
 }
 
-function addNewPage(doc: jsPDF, config: PdfConfig): number {
-  doc.addPage()
+interface PlacedWord {
+  text: string
+  run: TextRun
+  x: number
+  width: number
+}
 
-  if (config.showWatermark) {
-    drawWatermark(doc)
+/**
+ * Break styled runs into lines that fit `maxWidth`, measuring each word in
+ * its own font style. Newlines in the runs force a break.
+ */
+function layoutRuns(doc: jsPDF, font: string, runs: TextRun[], maxWidth: number, forceBold = false): PlacedWord[][] {
+  const lines: PlacedWord[][] = []
+  let line: PlacedWord[] = []
+  let x = 0
+
+  const breakLine = () => {
+    lines.push(line)
+    line = []
+    x = 0
   }
 
-  return (config.margins?.top || DEFAULT_MARGINS.top) + (config.showLetterhead ? 10 : 0)
+  for (const run of runs) {
+    doc.setFont(font, fontStyle(run, forceBold))
+    for (const token of sanitizeText(run.text).split(/(\n| +)/)) {
+      if (!token) continue
+
+      if (token === '\n') {
+        breakLine()
+        continue
+      }
+
+      if (token.trim() === '') {
+        if (line.length > 0) x += doc.getTextWidth(' ')
+        continue
+      }
+
+      const width = doc.getTextWidth(token)
+      if (x + width > maxWidth && line.length > 0) {
+        breakLine()
+      }
+
+      // A single word wider than the line is split across lines
+      const pieces: string[] = width > maxWidth ? doc.splitTextToSize(token, maxWidth) : [token]
+      pieces.forEach((piece, index) => {
+        if (index > 0) breakLine()
+        const pieceWidth = doc.getTextWidth(piece)
+        line.push({ text: piece, run, x, width: pieceWidth })
+        x += pieceWidth
+      })
+    }
+  }
+
+  if (line.length > 0) lines.push(line)
+  return lines
 }
 
-function wrapText(doc: jsPDF, text: string, maxWidth: number): string[] {
-  const sanitized = sanitizeText(text)
-  const paragraphs = sanitized.split('\n\n')
-  const lines: string[] = []
+/**
+ * Writes top to bottom across pages, starting a new page whenever the next
+ * line would run into the footer
+ */
+class PageWriter {
+  y: number
+
+  constructor(
+    readonly doc: jsPDF,
+    private options: {
+      margins: typeof DEFAULT_MARGINS
+      maxY: number
+      showWatermark: boolean
+      showLetterhead: boolean
+    },
+    startY: number
+  ) {
+    this.y = startY
+  }
 
-  paragraphs.forEach((paragraph, index) => {
-    if (index > 0) {
-      lines.push('')
+  ensure(height: number): void {
+    if (this.y + height > this.options.maxY) {
+      this.doc.addPage()
+      if (this.options.showWatermark) {
+        drawWatermark(this.doc)
+      }
+      this.y = this.options.margins.top + (this.options.showLetterhead ? 10 : 0)
     }
+  }
+
+  writeRuns(
+    font: string,
+    runs: TextRun[],
+    x: number,
+    width: number,
+    options: { size?: number; color?: string; forceBold?: boolean; marker?: string; markerX?: number } = {}
+  ): void {
+    const { size = FONT_SIZE, color = COLORS.text, forceBold = false } = options
+    this.doc.setFontSize(size)
+    this.doc.setTextColor(color)
+
+    const lineHeight = LINE_HEIGHT * (size / FONT_SIZE)
+    const lines = layoutRuns(this.doc, font, runs, width, forceBold)
+
+    lines.forEach((line, index) => {
+      this.ensure(lineHeight)
+
+      if (index === 0 && options.marker) {
+        this.doc.setFont(font, 'normal')
+        this.doc.text(options.marker, options.markerX ?? x - 5, this.y)
+      }
 
-    const paragraphLines = paragraph.split('\n')
-    paragraphLines.forEach(line => {
-      const wrappedLines = doc.splitTextToSize(line, maxWidth)
-      lines.push(...wrappedLines)
+      for (const word of line) {
+        this.doc.setFont(font, fontStyle(word.run, forceBold))
+        this.doc.text(word.text, x + word.x, this.y)
+        if (word.run.underline) {
+          this.doc.setDrawColor(color)
+          this.doc.setLineWidth(0.2)
+          this.doc.line(x + word.x, this.y + 0.8, x + word.x + word.width, this.y + 0.8)
+        }
+      }
+      this.y += lineHeight
     })
-  })
+  }
+}
 
-  return lines
+function drawBlocks(writer: PageWriter, blocks: ContentBlock[], layout: PdfTemplateLayout, left: number, width: number): void {
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading': {
+        const size = { 1: 13, 2: 12, 3: 11 }[block.level]
+        // Keep a heading on the same page as the first line under it
+        writer.ensure(LINE_HEIGHT * 3)
+        writer.y += 1
+        writer.writeRuns(layout.font, block.runs, left, width, { size, color: layout.accent, forceBold: true })
+        writer.y += 1.5
+        break
+      }
+      case 'list-item': {
+        const indent = 6 + block.depth * 6
+        writer.writeRuns(layout.font, block.runs, left + indent, width - indent, {
+          marker: block.ordered ? `${block.number}.` : '•',
+          markerX: left + indent - 5,
+        })
+        writer.y += 1
+        break
+      }
+      case 'quote':
+        writer.writeRuns(layout.font, block.runs.map(run => ({ ...run, italic: true })), left + 8, width - 16, {
+          color: COLORS.secondary,
+        })
+        writer.y += LINE_HEIGHT * 0.6
+        break
+      case 'rule':
+        writer.ensure(LINE_HEIGHT)
+        writer.doc.setDrawColor(COLORS.border)
+        writer.doc.setLineWidth(0.3)
+        writer.doc.line(left, writer.y - 1.5, left + width, writer.y - 1.5)
+        writer.y += LINE_HEIGHT * 0.6
+        break
+      case 'paragraph':
+        writer.writeRuns(layout.font, block.runs, left, width)
+        writer.y += LINE_HEIGHT * 0.6
+        break
+    }
+  }
+}
+
+function drawSignature(doc: jsPDF, image: PdfImage, x: number, y: number): number {
+  const properties = doc.getImageProperties(image.data)
+  const scale = Math.min(SIGNATURE_MAX_WIDTH / properties.width, SIGNATURE_MAX_HEIGHT / properties.height)
+  const width = properties.width * scale
+  const height = properties.height * scale
+
+  doc.addImage(image.data, image.format, x, y, width, height)
+  return height
+}
+
+function drawSignatureBlock(
+  doc: jsPDF,
+  writer: PageWriter,
+  parties: LetterParties,
+  layout: PdfTemplateLayout,
+  left: number
+): void {
+  const attorney = parties.attorney?.name ? parties.attorney : null
+  const details = attorney
+    ? [
+        attorney.title || 'Attorney at Law',
+        attorney.firmName,
+        attorney.barNumber && `${attorney.barState ? `${attorney.barState} ` : ''}Bar No. ${attorney.barNumber}`,
+        [attorney.email, attorney.phone].filter(Boolean).join(' | '),
+      ].filter((line): line is string => !!line)
+    : []
+
+  // Closing, signature space, name and details stay together on one page
+  writer.ensure(LINE_HEIGHT * (4 + details.length) + SIGNATURE_MAX_HEIGHT)
+
+  doc.setFont(layout.font, 'normal')
+  doc.setFontSize(FONT_SIZE)
+  doc.setTextColor(COLORS.text)
+  doc.text(layout.closing, left, writer.y)
+  writer.y += 3
+
+  let signatureHeight = 0
+  if (attorney?.signature) {
+    try {
+      signatureHeight = drawSignature(doc, attorney.signature, left, writer.y)
+    } catch (error) {
+      console.warn('[PdfGenerator] Could not draw signature image:', error)
+    }
+  }
+  writer.y += Math.max(signatureHeight, 12) + 5
+
+  doc.setFont(layout.font, 'bold')
+  doc.setFontSize(FONT_SIZE)
+  doc.text(attorney?.name || parties.sender.name, left, writer.y)
+  writer.y += LINE_HEIGHT
+
+  doc.setFont(layout.font, 'normal')
+  doc.setFontSize(9)
+  doc.setTextColor(COLORS.secondary)
+  for (const line of details) {
+    doc.text(line, left, writer.y)
+    writer.y += 4
+  }
+
+  if (attorney) {
+    doc.setFont(layout.font, 'italic')
+    doc.text(`On behalf of ${parties.sender.name}`, left, writer.y)
+    writer.y += 4
+  }
 }
 
 export function generateLetterPdf(data: PdfLetterData, config: PdfConfig = {}): PdfResult {
   try {
     const {
-      template = 'legal-letter',
+      template = getPdfTemplate(data.letterType),
       showWatermark = data.isDraft ?? false,
       showLetterhead = true,
+      branding = DEFAULT_BRANDING,
+      footerNote = DEFAULT_FOOTER_NOTE,
       pageSize = 'letter',
       margins = DEFAULT_MARGINS,
     } = config
+    const layout = PDF_TEMPLATE_LAYOUTS[template]
 
     const doc = new jsPDF({
       orientation: 'portrait',
@@ -149,7 +440,7 @@ export function generateLetterPdf(data: PdfLetterData, config: PdfConfig = {}):
     const pageWidth = doc.internal.pageSize.getWidth()
     const pageHeight = doc.internal.pageSize.getHeight()
     const contentWidth = pageWidth - margins.left - margins.right
-    const maxY = pageHeight - margins.bottom - 25
+    const maxY = pageHeight - margins.bottom - 5
 
     let yPosition = margins.top
 
@@ -158,22 +449,30 @@ export function generateLetterPdf(data: PdfLetterData, config: PdfConfig = {}):
     }
 
     if (showLetterhead) {
-      yPosition = drawLetterhead(doc, { ...config, margins })
+      yPosition = drawLetterhead(doc, branding, layout, margins)
     }
 
-    doc.setFontSize(10)
+    if (layout.heading) {
+      doc.setFont(layout.font, 'bold')
+      doc.setFontSize(13)
+      doc.setTextColor(layout.accent)
+      doc.text(layout.heading, pageWidth / 2, yPosition, { align: 'center', charSpace: 0.8 })
+      yPosition += 10
+    }
+
+    doc.setFontSize(FONT_SIZE)
     doc.setTextColor(COLORS.text)
-    doc.setFont('helvetica', 'normal')
+    doc.setFont(layout.font, 'normal')
 
     const dateText = formatDate(data.approvedAt || data.createdAt)
     doc.text(dateText, margins.left, yPosition)
     yPosition += 12
 
     if (data.parties.recipient.name) {
-      doc.setFont('helvetica', 'bold')
+      doc.setFont(layout.font, 'bold')
       doc.text(data.parties.recipient.name, margins.left, yPosition)
       yPosition += 5
-      doc.setFont('helvetica', 'normal')
+      doc.setFont(layout.font, 'normal')
 
       if (data.parties.recipient.company) {
         doc.text(data.parties.recipient.company, margins.left, yPosition)
@@ -191,68 +490,42 @@ export function generateLetterPdf(data: PdfLetterData, config: PdfConfig = {}):
 
     yPosition += 8
 
-    if (data.title) {
-      doc.setFont('helvetica', 'bold')
-      doc.setFontSize(11)
-      doc.text(`Re: ${data.title}`, margins.left, yPosition)
-      yPosition += 10
-      doc.setFont('helvetica', 'normal')
-      doc.setFontSize(10)
-    }
-
-    const contentLines = wrapText(doc, data.content, contentWidth)
-    const lineHeight = 5
-    let pageCount = 1
+    const writer = new PageWriter(doc, { margins, maxY, showWatermark, showLetterhead }, yPosition)
 
-    contentLines.forEach(line => {
-      if (yPosition > maxY) {
-        pageCount++
-        yPosition = addNewPage(doc, { ...config, margins, showWatermark, showLetterhead })
-      }
-
-      if (line === '') {
-        yPosition += lineHeight / 2
-      } else {
-        doc.text(line, margins.left, yPosition)
-        yPosition += lineHeight
-      }
-    })
-
-    yPosition += 15
-
-    if (yPosition > maxY - 30) {
-      pageCount++
-      yPosition = addNewPage(doc, { ...config, margins, showWatermark, showLetterhead })
+    if (data.title) {
+      writer.writeRuns(layout.font, [{ text: `Re: ${data.title}` }], margins.left, contentWidth, {
+        size: 11,
+        forceBold: true,
+      })
+      writer.y += 5
     }
 
-    doc.text('Sincerely,', margins.left, yPosition)
-    yPosition += 15
+    drawBlocks(writer, parseLetterContent(data.content), layout, margins.left, contentWidth)
 
-    doc.setFont('helvetica', 'bold')
-    doc.text(data.parties.sender.name, margins.left, yPosition)
-    yPosition += 5
-    doc.setFont('helvetica', 'normal')
+    writer.y += 6
+    drawSignatureBlock(doc, writer, data.parties, layout, margins.left)
 
-    if (data.parties.attorney?.name) {
-      doc.setFontSize(9)
-      doc.setTextColor(COLORS.secondary)
-      doc.text(`Prepared by: ${data.parties.attorney.name}`, margins.left, yPosition)
-      yPosition += 4
+    if (data.exhibits?.length) {
+      writer.y += 8
+      writer.ensure(LINE_HEIGHT * 2)
+      writer.writeRuns(layout.font, [{ text: 'Enclosures:', bold: true }], margins.left, contentWidth)
 
-      if (data.parties.attorney.firmName) {
-        doc.text(data.parties.attorney.firmName, margins.left, yPosition)
-        yPosition += 4
-      }
-
-      if (data.parties.attorney.barNumber) {
-        doc.text(`Bar No.: ${data.parties.attorney.barNumber}`, margins.left, yPosition)
-      }
+      data.exhibits.forEach(exhibit => {
+        writer.writeRuns(layout.font, [{ text: `${exhibit.label}: ${exhibit.fileName}` }], margins.left, contentWidth)
+      })
     }
 
     const totalPages = doc.getNumberOfPages()
     for (let i = 1; i <= totalPages; i++) {
       doc.setPage(i)
-      drawFooter(doc, i, totalPages, data.referenceNumber || `TTML-${data.id.substring(0, 8).toUpperCase()}`)
+      drawFooter(
+        doc,
+        i,
+        totalPages,
+        footerNote,
+        margins,
+        data.referenceNumber || `TTML-${data.id.substring(0, 8).toUpperCase()}`
+      )
     }
 
     const buffer = Buffer.from(doc.output('arraybuffer'))
@@ -1,2 +1,10 @@
 export * from './types'
-export { generateLetterPdf, generateSimplePdf } from './generator'
+export {
+  DEFAULT_BRANDING,
+  PDF_TEMPLATE_LAYOUTS,
+  generateLetterPdf,
+  generateSimplePdf,
+  getLetterheadBranding,
+  getPdfTemplate,
+} from './generator'
+export { parseLetterContent, type ContentBlock, type TextRun } from './rich-text'
@@ -0,0 +1,234 @@
+/**
+ * Letter Rich Text
+ * Turns letter content into blocks of styled text for document rendering.
+ * Reviewers edit letters in the rich-text editor, which saves HTML; AI
+ * drafts and older letters are plain text with blank lines between
+ * paragraphs. Both come out as the same blocks.
+ */
+
+export interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+export type ContentBlock =
+  | { type: 'paragraph'; runs: TextRun[] }
+  | { type: 'heading'; level: 1 | 2 | 3; runs: TextRun[] }
+  | { type: 'list-item'; ordered: boolean; number: number; depth: number; runs: TextRun[] }
+  | { type: 'quote'; runs: TextRun[] }
+  | { type: 'rule' }
+
+const HTML_TAG = /<\/?(p|div|br|h[1-6]|ul|ol|li|strong|b|em|i|u|s|blockquote|hr|span|code|pre)\b[^>]*>/i
+
+const TOKEN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>|([^<]+)|(<)/g
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  sect: '§',
+  para: '¶',
+  copy: '©',
+  reg: '®',
+}
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+export function isHtmlContent(content: string): boolean {
+  return HTML_TAG.test(content)
+}
+
+function hasText(runs: TextRun[]): boolean {
+  return runs.some(run => run.text.trim() !== '')
+}
+
+// Merge runs with the same style and trim whitespace around line breaks and the block
+function tidyRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = []
+  for (const run of runs) {
+    const last = merged[merged.length - 1]
+    if (last && !!last.bold === !!run.bold && !!last.italic === !!run.italic && !!last.underline === !!run.underline) {
+      last.text += run.text
+    } else {
+      merged.push({ ...run })
+    }
+  }
+
+  for (const run of merged) {
+    run.text = run.text.replace(/ *\n */g, '\n')
+  }
+  if (merged[0]) merged[0].text = merged[0].text.replace(/^[\s]+/, '')
+  const last = merged[merged.length - 1]
+  if (last) last.text = last.text.replace(/[\s]+$/, '')
+
+  return merged.filter(run => run.text !== '')
+}
+
+function parsePlainText(content: string): ContentBlock[] {
+  return content
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => ({ type: 'paragraph' as const, runs: [{ text: paragraph }] }))
+}
+
+function parseHtml(content: string): ContentBlock[] {
+  const blocks: ContentBlock[] = []
+  const lists: Array<{ ordered: boolean; count: number }> = []
+  const style = { bold: 0, italic: 0, underline: 0 }
+  let quoteDepth = 0
+  let skipDepth = 0
+  let current = null as Exclude<ContentBlock, { type: 'rule' }> | null
+
+  const flush = () => {
+    if (current && hasText(current.runs)) {
+      current.runs = tidyRuns(current.runs)
+      blocks.push(current)
+    }
+    current = null
+  }
+
+  const open = (block: Exclude<ContentBlock, { type: 'rule' }>) => {
+    flush()
+    current = block
+  }
+
+  const append = (text: string) => {
+    if (!current) {
+      current = quoteDepth > 0 ? { type: 'quote', runs: [] } : { type: 'paragraph', runs: [] }
+    }
+    current.runs.push({
+      text,
+      ...(style.bold > 0 && { bold: true }),
+      ...(style.italic > 0 && { italic: true }),
+      ...(style.underline > 0 && { underline: true }),
+    })
+  }
+
+  for (const match of content.matchAll(TOKEN)) {
+    const [, closing, rawTag, , text, strayBracket] = match
+    if (text !== undefined || strayBracket !== undefined) {
+      if (skipDepth === 0) {
+        append(decodeEntities(text ?? '<').replace(/\s+/g, ' '))
+      }
+      continue
+    }
+    if (!rawTag) continue // comment
+
+    const tag = rawTag.toLowerCase()
+    const isClosing = closing === '/'
+
+    if (tag === 'script' || tag === 'style') {
+      skipDepth = Math.max(0, skipDepth + (isClosing ? -1 : 1))
+      continue
+    }
+    if (skipDepth > 0) continue
+
+    switch (tag) {
+      case 'strong':
+      case 'b':
+        style.bold = Math.max(0, style.bold + (isClosing ? -1 : 1))
+        break
+      case 'em':
+      case 'i':
+        style.italic = Math.max(0, style.italic + (isClosing ? -1 : 1))
+        break
+      case 'u':
+        style.underline = Math.max(0, style.underline + (isClosing ? -1 : 1))
+        break
+      case 'br':
+        append('\n')
+        break
+      case 'hr':
+        flush()
+        blocks.push({ type: 'rule' })
+        break
+      case 'ul':
+      case 'ol':
+        flush()
+        if (isClosing) {
+          lists.pop()
+        } else {
+          lists.push({ ordered: tag === 'ol', count: 0 })
+        }
+        break
+      case 'li': {
+        const list = lists[lists.length - 1]
+        if (isClosing || !list) {
+          flush()
+        } else {
+          list.count++
+          open({ type: 'list-item', ordered: list.ordered, number: list.count, depth: lists.length - 1, runs: [] })
+        }
+        break
+      }
+      case 'blockquote':
+        flush()
+        quoteDepth = Math.max(0, quoteDepth + (isClosing ? -1 : 1))
+        break
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        if (isClosing) {
+          flush()
+        } else {
+          open({ type: 'heading', level: Math.min(Number(tag[1]), 3) as 1 | 2 | 3, runs: [] })
+        }
+        break
+      case 'p':
+      case 'div':
+      case 'pre':
+        // Paragraphs inside a list item continue the item
+        if (current?.type === 'list-item' && !isClosing) {
+          append('\n')
+        } else if (current?.type !== 'list-item') {
+          flush()
+        }
+        break
+    }
+  }
+
+  flush()
+  return blocks
+}
+
+/**
+ * Letter content as blocks, from the editor's HTML or from plain text
+ */
+export function parseLetterContent(content: string | null | undefined): ContentBlock[] {
+  if (!content?.trim()) return []
+  return isHtmlContent(content) ? parseHtml(content) : parsePlainText(content)
+}
+
+/**
+ * Plain text of a run list, e.g. for measuring or search
+ */
+export function runsToText(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('')
+}
@@ -1,5 +1,11 @@
 export type PdfTemplate = 'legal-letter' | 'demand-letter' | 'cease-desist' | 'general'
 
+export interface PdfImage {
+  // Raw PNG or JPEG bytes
+  data: Uint8Array
+  format: 'PNG' | 'JPEG'
+}
+
 export interface LetterParties {
   sender: {
     name: string
@@ -12,29 +18,60 @@ export interface LetterParties {
     address?: string
     company?: string
   }
+  // The reviewing attorney, who signs the letter on the sender's behalf
   attorney?: {
     name?: string
+    title?: string
     firmName?: string
     barNumber?: string
+    barState?: string
+    email?: string
+    phone?: string
+    signature?: PdfImage
   }
 }
 
 export interface PdfLetterData {
   id: string
   title: string
+  // Plain text, or the HTML saved by the review editor
   content: string
   parties: LetterParties
   createdAt: string
-  approvedAt?: string
+  approvedAt?: string | undefined
   letterType?: string
   isDraft?: boolean
   referenceNumber?: string
+  // Evidence enclosed with the letter, listed after the signature
+  exhibits?: Array<{ label: string; fileName: string }>
+}
+
+// The letterhead printed at the top of the first page
+export interface PdfBranding {
+  name: string
+  tagline?: string
+  address?: string
+  phone?: string
+  email?: string
+  website?: string
+}
+
+export interface PdfTemplateLayout {
+  font: 'times' | 'helvetica'
+  // Letterhead rule and heading color
+  accent: string
+  // Banner printed below the letterhead, e.g. CEASE AND DESIST
+  heading?: string
+  closing: string
 }
 
 export interface PdfConfig {
   template?: PdfTemplate
   showWatermark?: boolean
   showLetterhead?: boolean
+  branding?: PdfBranding
+  // Replaces the footer's review line, e.g. for letters not reviewed by an attorney
+  footerNote?: string
   pageSize?: 'letter' | 'a4'
   margins?: {
     top: number
@@ -0,0 +1,169 @@
+/**
+ * Rate Limit Policies
+ * Every limit the app enforces, declared in one place: how many requests a
+ * subject may make per window, and whether the subject is the client IP,
+ * the signed-in user or the API key on the request. Route rules map API
+ * paths to policies for the proxy; route handlers reference policies
+ * directly. Safe to import from client components.
+ */
+
+export type RateLimitWindow = `${number} ${'s' | 'm' | 'h' | 'd'}`
+
+// What a counter is keyed on. User and API key policies fall back to the
+// client IP for requests without a session or key.
+export type RateLimitSubjectType = 'ip' | 'user' | 'api_key'
+
+export interface RateLimitPolicy {
+  name: string
+  limit: number
+  window: RateLimitWindow
+  by: RateLimitSubjectType
+}
+
+export interface RateLimitRoute {
+  // Exact path, or a prefix when it ends with a slash
+  path: string
+  // Null exempts the route from the proxy's limits
+  policy: RateLimitPolicy | null
+}
+
+export interface RateLimitIdentity {
+  ip: string
+  userId?: string | null
+  // Fingerprint of the API key, never the key itself
+  apiKey?: string | null
+}
+
+export interface RateLimitResult {
+  success: boolean
+  limit: number
+  remaining: number
+  // Epoch milliseconds at which the window resets
+  reset: number
+}
+
+export const RATE_LIMIT_POLICIES = {
+  auth: { name: 'auth', limit: 5, window: '15 m', by: 'ip' },
+  api: { name: 'api', limit: 100, window: '1 m', by: 'ip' },
+  admin: { name: 'admin', limit: 10, window: '15 m', by: 'ip' },
+  letterGeneration: { name: 'letter-gen', limit: 5, window: '1 h', by: 'ip' },
+  subscription: { name: 'subscription', limit: 3, window: '1 h', by: 'ip' },
+  adminLogin: { name: 'admin-login', limit: 10, window: '15 m', by: 'ip' },
+  adminRead: { name: 'admin-read', limit: 30, window: '1 m', by: 'ip' },
+  adminWrite: { name: 'admin-write', limit: 30, window: '15 m', by: 'ip' },
+  adminSecurity: { name: 'admin-security', limit: 10, window: '15 m', by: 'ip' },
+  billingChange: { name: 'billing-change', limit: 10, window: '1 h', by: 'ip' },
+  letterImprove: { name: 'letter-improve', limit: 10, window: '15 m', by: 'ip' },
+  letterReview: { name: 'letter-review', limit: 30, window: '15 m', by: 'ip' },
+  // Reviewers save drafts often while editing
+  letterVersionSave: { name: 'letter-version-save', limit: 120, window: '15 m', by: 'ip' },
+  letterAttachments: { name: 'letter-attachments', limit: 30, window: '1 m', by: 'ip' },
+  letterMail: { name: 'letter-mail', limit: 5, window: '1 h', by: 'ip' },
+  proxyDefault: { name: 'proxy', limit: 100, window: '15 m', by: 'user' },
+  proxyLetterGeneration: { name: 'proxy-letter-gen', limit: 5, window: '15 m', by: 'user' },
+  proxyCheckout: { name: 'proxy-checkout', limit: 10, window: '15 m', by: 'user' },
+  proxyAdminLogin: { name: 'proxy-admin-login', limit: 5, window: '15 m', by: 'ip' },
+  proxySignup: { name: 'proxy-signup', limit: 3, window: '15 m', by: 'ip' },
+  proxyLogin: { name: 'proxy-login', limit: 10, window: '15 m', by: 'ip' },
+  proxyCron: { name: 'proxy-cron', limit: 100, window: '15 m', by: 'api_key' },
+} as const satisfies Record<string, RateLimitPolicy>
+
+/**
+ * Limits the proxy applies to API routes before they reach a handler.
+ * Exact paths win over prefixes, and longer prefixes over shorter ones.
+ * Provider webhooks are exempt: they are signature-checked, and a 429
+ * would only make the provider retry in bursts.
+ */
+export const RATE_LIMIT_ROUTES: RateLimitRoute[] = [
+  { path: '/api/stripe/webhook', policy: null },
+  { path: '/api/email/webhook/', policy: null },
+  { path: '/api/generate-letter', policy: RATE_LIMIT_POLICIES.proxyLetterGeneration },
+  { path: '/api/create-checkout', policy: RATE_LIMIT_POLICIES.proxyCheckout },
+  { path: '/api/admin-auth/login', policy: RATE_LIMIT_POLICIES.proxyAdminLogin },
+  { path: '/api/auth/signup', policy: RATE_LIMIT_POLICIES.proxySignup },
+  { path: '/api/auth/login', policy: RATE_LIMIT_POLICIES.proxyLogin },
+  { path: '/api/cron/', policy: RATE_LIMIT_POLICIES.proxyCron },
+  { path: '/api/', policy: RATE_LIMIT_POLICIES.proxyDefault },
+]
+
+export function findRateLimitPolicy(name: string): RateLimitPolicy | null {
+  return Object.values(RATE_LIMIT_POLICIES).find(policy => policy.name === name) ?? null
+}
+
+export function matchRateLimitRoute(
+  pathname: string,
+  routes: RateLimitRoute[] = RATE_LIMIT_ROUTES
+): RateLimitPolicy | null {
+  const exact = routes.find(route => route.path === pathname)
+  if (exact) return exact.policy
+
+  let match: RateLimitRoute | null = null
+  for (const route of routes) {
+    if (route.path.endsWith('/') && pathname.startsWith(route.path) &&
+        (!match || route.path.length > match.path.length)) {
+      match = route
+    }
+  }
+
+  return match?.policy ?? null
+}
+
+const WINDOW_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Window length in milliseconds, defaulting to one minute for anything
+ * that isn't "<number> <s|m|h|d>"
+ */
+export function parseRateLimitWindow(window: string): number {
+  const match = window.match(/^(\d+)\s*([smhd])$/)
+  if (!match) return 60 * 1000
+
+  const [, amount, unit] = match
+  return Number(amount) * (WINDOW_UNITS_MS[unit!] ?? 60 * 1000)
+}
+
+/**
+ * The counter key for a request under a policy, e.g. "user:<id>" or
+ * "ip:203.0.113.7"
+ */
+export function rateLimitSubject(policy: RateLimitPolicy, identity: RateLimitIdentity): string {
+  if (policy.by === 'user' && identity.userId) {
+    return `user:${identity.userId}`
+  }
+  if (policy.by === 'api_key' && identity.apiKey) {
+    return `key:${identity.apiKey}`
+  }
+  return `ip:${identity.ip}`
+}
+
+/**
+ * Standard RateLimit-* response headers (IETF draft), plus Retry-After
+ * when the request was refused
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult,
+  window?: string,
+  now: number = Date.now()
+): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.reset - now) / 1000))
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(Math.max(0, result.remaining)),
+    'RateLimit-Reset': String(resetSeconds),
+  }
+
+  if (window) {
+    headers['RateLimit-Policy'] = `${result.limit};w=${Math.round(parseRateLimitWindow(window) / 1000)}`
+  }
+  if (!result.success) {
+    headers['Retry-After'] = String(resetSeconds)
+  }
+
+  return headers
+}
@@ -1,50 +1,121 @@
+import { createHash, timingSafeEqual } from "crypto"
 import { NextRequest, NextResponse } from "next/server"
 import { Ratelimit } from "@upstash/ratelimit"
 import { Redis } from "@upstash/redis"
+import {
+  RATE_LIMIT_POLICIES,
+  RateLimitIdentity,
+  RateLimitPolicy,
+  RateLimitResult,
+  findRateLimitPolicy,
+  parseRateLimitWindow,
+  rateLimitHeaders,
+  rateLimitSubject
+} from "./rate-limit-policies"
+
+/**
+ * Rate limiting store shared by the proxy and route handlers. The backend
+ * is chosen by RATE_LIMIT_BACKEND:
+ * - upstash: Upstash Redis (KV_REST_API_URL / KV_REST_API_TOKEN)
+ * - redis: a local Redis behind the Upstash-compatible REST proxy
+ *   (REDIS_REST_URL / REDIS_REST_TOKEN), as in docker-compose.yml
+ * - memory: per-instance counters, for tests and single-instance dev
+ * Without RATE_LIMIT_BACKEND, Upstash is used when configured and memory
+ * otherwise. If Redis fails, requests are counted in memory until it's back.
+ */
+export type RateLimitBackend = 'upstash' | 'redis' | 'memory'
+
+export interface RateLimitCounter {
+  policy: string
+  subject: string
+  count: number
+  limit: number | null
+  // Epoch milliseconds at which the counter resets
+  reset: number
+  backend: RateLimitBackend
+}
 
-// Upstash REST URL must be an https:// URL (KV_REST_API_URL).
-// Do not attempt to use REDIS_URL (rediss://) with @upstash/redis.
-const redisUrl = process.env.KV_REST_API_URL
-const redisToken = process.env.KV_REST_API_TOKEN
+// Counters listed per policy at most, to keep the admin view cheap
+const MAX_COUNTERS_PER_POLICY = 200
 
-let redis: Redis | null = null
+function createRedis(url: string | undefined, token: string | undefined, allowHttp: boolean): Redis | null {
+  const trimmedUrl = url?.trim()
+  if (!trimmedUrl || !token) return null
+  if (!trimmedUrl.startsWith('https://') && !(allowHttp && trimmedUrl.startsWith('http://'))) return null
 
-if (redisUrl && redisToken && redisUrl.trim().startsWith('https://')) {
   try {
-    redis = new Redis({
-      url: redisUrl.trim(),
-      token: redisToken.trim(),
-    })
+    return new Redis({ url: trimmedUrl, token: token.trim() })
   } catch (error) {
+    return null
+  }
+}
+
+function resolveBackend(): { backend: RateLimitBackend; redis: Redis | null } {
+  const configured = process.env.RATE_LIMIT_BACKEND?.trim()
+
+  if (configured === 'memory') {
+    return { backend: 'memory', redis: null }
+  }
+
+  if (configured === 'redis') {
+    const redis = createRedis(process.env.REDIS_REST_URL, process.env.REDIS_REST_TOKEN, true)
+    if (redis) return { backend: 'redis', redis }
+    console.warn('[RateLimit] RATE_LIMIT_BACKEND=redis needs REDIS_REST_URL and REDIS_REST_TOKEN, falling back to in-memory rate limiting')
+    return { backend: 'memory', redis: null }
+  }
+
+  // Upstash REST URL must be an https:// URL (KV_REST_API_URL).
+  // Do not attempt to use REDIS_URL (rediss://) with @upstash/redis.
+  const redis = createRedis(process.env.KV_REST_API_URL, process.env.KV_REST_API_TOKEN, false)
+  if (redis) return { backend: 'upstash', redis }
+  if (configured === 'upstash') {
     console.warn('[RateLimit] Invalid Upstash configuration, falling back to in-memory rate limiting')
-    redis = null
   }
+  return { backend: 'memory', redis: null }
 }
 
-function createRateLimiter(prefix: string, limiter: ReturnType<typeof Ratelimit.fixedWindow>) {
+const { backend, redis } = resolveBackend()
+
+export const rateLimitBackend: RateLimitBackend = backend
+
+if (backend === 'memory' && process.env.NODE_ENV === 'production') {
+  console.warn('[RateLimit] Using in-memory rate limiting; limits are not shared between instances')
+}
+
+const limiters = new Map<string, Ratelimit>()
+
+function createRateLimiter(policy: RateLimitPolicy): Ratelimit | null {
   if (!redis) return null
 
-  return new Ratelimit({
+  const existing = limiters.get(policy.name)
+  if (existing) return existing
+
+  const limiter = new Ratelimit({
     redis,
-    limiter,
+    limiter: Ratelimit.fixedWindow(policy.limit, policy.window),
     analytics: true,
-    prefix,
+    prefix: `ratelimit:${policy.name}`,
+    // Without the per-instance block cache, resetting a counter lifts the
+    // limit everywhere at once
+    ephemeralCache: false,
   })
+  limiters.set(policy.name, limiter)
+  return limiter
 }
 
 // Rate limiters with different configurations
-export const authRateLimit = createRateLimiter("auth", Ratelimit.fixedWindow(5, "15 m"))
+export const authRateLimit = createRateLimiter(RATE_LIMIT_POLICIES.auth)
 
-export const apiRateLimit = createRateLimiter("api", Ratelimit.fixedWindow(100, "1 m"))
+export const apiRateLimit = createRateLimiter(RATE_LIMIT_POLICIES.api)
 
-export const adminRateLimit = createRateLimiter("admin", Ratelimit.fixedWindow(10, "15 m"))
+export const adminRateLimit = createRateLimiter(RATE_LIMIT_POLICIES.admin)
 
-export const letterGenerationRateLimit = createRateLimiter("letter-gen", Ratelimit.fixedWindow(5, "1 h"))
+export const letterGenerationRateLimit = createRateLimiter(RATE_LIMIT_POLICIES.letterGeneration)
 
-export const subscriptionRateLimit = createRateLimiter("subscription", Ratelimit.fixedWindow(3, "1 h"))
+export const subscriptionRateLimit = createRateLimiter(RATE_LIMIT_POLICIES.subscription)
 
 // Helper function to get client IP
-function getClientIP(request: NextRequest): string {
+export function getClientIP(request: NextRequest): string {
   const forwardedFor = request.headers.get('x-forwarded-for')
   const realIP = request.headers.get('x-real-ip')
   const cfConnectingIP = request.headers.get('cf-connecting-ip')
@@ -64,6 +135,132 @@ function getClientIP(request: NextRequest): string {
   return 'unknown'
 }
 
+function fingerprint(value: string): Buffer {
+  return createHash('sha256').update(value.trim()).digest()
+}
+
+/**
+ * Whether a key is one the app issued. Only CRON_SECRET today; requests
+ * with any other key are counted by IP, so guessing keys can't mint a
+ * fresh counter per attempt.
+ */
+function isIssuedApiKey(apiKey: string): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  return !!cronSecret && timingSafeEqual(fingerprint(apiKey), fingerprint(cronSecret))
+}
+
+/**
+ * Who a request is counted against. API keys (x-api-key, a bearer token or
+ * the cron ?secret= parameter) are fingerprinted so counters never hold the
+ * key itself.
+ */
+export function getRateLimitIdentity(request: NextRequest, userId?: string | null): RateLimitIdentity {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const apiKey = request.headers.get('x-api-key') || bearer || request.nextUrl?.searchParams.get('secret')
+
+  return {
+    ip: getClientIP(request),
+    userId: userId ?? null,
+    apiKey: apiKey && isIssuedApiKey(apiKey) ? fingerprint(apiKey).toString('hex').slice(0, 16) : null,
+  }
+}
+
+function hitMemoryCounter(
+  name: string,
+  identifier: string,
+  limit: number,
+  windowMs: number,
+  now: number = Date.now()
+): RateLimitResult {
+  const store = global.rateLimitStore || (global.rateLimitStore = new Map())
+
+  const key = `${name}:${identifier}`
+  const data = store.get(key) || { count: 0, resetTime: now + windowMs, limit }
+
+  if (data.resetTime < now) {
+    data.count = 0
+    data.resetTime = now + windowMs
+  }
+
+  data.count++
+  data.limit = limit
+  store.set(key, data)
+
+  // Clean up expired entries once the store grows large
+  if (store.size > 10000) {
+    for (const [storedKey, value] of store.entries()) {
+      if (value.resetTime < now) {
+        store.delete(storedKey)
+      }
+    }
+  }
+
+  return {
+    success: data.count <= limit,
+    limit,
+    remaining: Math.max(0, limit - data.count),
+    reset: data.resetTime,
+  }
+}
+
+/**
+ * Count a request against a policy for a subject
+ * (see rateLimitSubject) and report whether it may proceed
+ */
+export async function enforceRateLimit(policy: RateLimitPolicy, subject: string): Promise<RateLimitResult> {
+  const limiter = createRateLimiter(policy)
+
+  if (limiter) {
+    try {
+      const { success, limit, remaining, reset } = await limiter.limit(subject)
+      return { success, limit, remaining, reset }
+    } catch (error) {
+      console.warn('[RateLimit] Redis unavailable, falling back to in-memory:', error)
+    }
+  }
+
+  return hitMemoryCounter(policy.name, subject, policy.limit, parseRateLimitWindow(policy.window))
+}
+
+function rateLimitExceededResponse(result: RateLimitResult, window?: string): NextResponse {
+  const headers = rateLimitHeaders(result, window)
+
+  return NextResponse.json(
+    {
+      error: "Rate limit exceeded. Please try again later.",
+      retryAfter: Number(headers['Retry-After']),
+      limit: result.limit,
+      remaining: result.remaining,
+      reset: result.reset
+    },
+    {
+      status: 429,
+      headers: {
+        ...headers,
+        // Kept for clients that read the pre-standard headers
+        'X-RateLimit-Limit': result.limit.toString(),
+        'X-RateLimit-Remaining': result.remaining.toString(),
+        'X-RateLimit-Reset': result.reset.toString()
+      }
+    }
+  )
+}
+
+/**
+ * Rate limit a route handler with a named policy, counted in the same
+ * store as the proxy's limits. Returns the 429 response when refused.
+ */
+export async function applyRateLimitPolicy(
+  request: NextRequest,
+  policy: RateLimitPolicy,
+  userId?: string | null
+): Promise<NextResponse | null> {
+  const subject = rateLimitSubject(policy, getRateLimitIdentity(request, userId))
+  const result = await enforceRateLimit(policy, subject)
+
+  return result.success ? null : rateLimitExceededResponse(result, policy.window)
+}
+
 // Helper function to apply rate limiting
 export async function applyRateLimit(
   request: NextRequest,
@@ -75,26 +272,7 @@ export async function applyRateLimit(
   const { success, limit, reset, remaining } = await rateLimiter.limit(ip)
 
   if (!success) {
-    const resetTimeSeconds = Math.ceil((reset - Date.now()) / 1000)
-
-    return NextResponse.json(
-      {
-        error: "Rate limit exceeded. Please try again later.",
-        retryAfter: resetTimeSeconds,
-        limit,
-        remaining,
-        reset
-      },
-      {
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': limit.toString(),
-          'X-RateLimit-Remaining': remaining.toString(),
-          'X-RateLimit-Reset': reset.toString(),
-          'Retry-After': resetTimeSeconds.toString()
-        }
-      }
-    )
+    return rateLimitExceededResponse({ success, limit, remaining, reset })
   }
 
   // Return null if rate limit not exceeded
@@ -111,7 +289,9 @@ export async function safeApplyRateLimit(
   prefixName?: string
 ): Promise<NextResponse | null> {
   const fallbackIdentifier = identifier || getClientIP(request)
-  const fallbackPrefix = prefixName || 'fallback'
+  // Callers with the same limit and window share a budget, as they do when
+  // they share a Redis limiter
+  const fallbackPrefix = prefixName || `fallback-${fallbackLimit}-${fallbackWindow.replace(/\s+/g, '')}`
 
   if (!rateLimiter) {
     return applyFallbackRateLimit(fallbackPrefix, fallbackIdentifier, fallbackLimit, fallbackWindow)
@@ -126,67 +306,110 @@ export async function safeApplyRateLimit(
   }
 }
 
-function parseWindowToMs(window: string): number {
-  const units: { [key: string]: number } = {
-    's': 1000,
-    'm': 60 * 1000,
-    'h': 60 * 60 * 1000,
-    'd': 24 * 60 * 60 * 1000
-  }
-
-  const match = window.match(/^(\d+)\s*([smhd])$/)
-  if (!match) return 60 * 1000 // Default to 1 minute
-
-  const [, num, unit] = match
-  return parseInt(num) * (units[unit] || 60 * 1000)
-}
-
 function applyFallbackRateLimit(
   prefix: string,
   identifier: string,
   fallbackLimit: number,
   fallbackWindow: string
 ): NextResponse | null {
-  const windowMs = parseWindowToMs(fallbackWindow)
+  const result = hitMemoryCounter(prefix, identifier, fallbackLimit, parseRateLimitWindow(fallbackWindow))
 
-  const now = Date.now()
-  const store = global.rateLimitStore || (global.rateLimitStore = new Map())
+  return result.success ? null : rateLimitExceededResponse(result, fallbackWindow)
+}
 
-  const key = `fallback:${prefix}:${identifier}`
-  const data = store.get(key) || { count: 0, resetTime: now + windowMs }
+async function listRedisCounters(policy: RateLimitPolicy, now: number): Promise<RateLimitCounter[]> {
+  if (!redis) return []
+
+  // Fixed window keys are "<prefix>:<subject>:<window number>"; only the
+  // current window's keys are live counters
+  const windowMs = parseRateLimitWindow(policy.window)
+  const bucket = Math.floor(now / windowMs)
+  const prefix = `ratelimit:${policy.name}:`
+  const suffix = `:${bucket}`
+  const keys: string[] = []
+  let cursor = '0'
+
+  do {
+    const [next, batch] = await redis.scan(cursor, { match: `${prefix}*`, count: 100 })
+    cursor = String(next)
+    keys.push(...batch.filter(key => key.endsWith(suffix)))
+  } while (cursor !== '0' && keys.length < MAX_COUNTERS_PER_POLICY)
+
+  if (keys.length === 0) return []
+
+  const counts = await redis.mget<(number | null)[]>(...keys)
+
+  return keys.flatMap((key, index) => {
+    const count = Number(counts[index] ?? 0)
+    if (count <= 0) return []
+
+    return [{
+      policy: policy.name,
+      subject: key.slice(prefix.length, key.length - suffix.length),
+      count,
+      limit: policy.limit,
+      reset: (bucket + 1) * windowMs,
+      backend,
+    }]
+  })
+}
 
-  if (data.resetTime < now) {
-    data.count = 0
-    data.resetTime = now + windowMs
+/**
+ * Live counters across every policy, busiest first. In-memory counters are
+ * this instance's only, including any counted while Redis was unavailable.
+ */
+export async function listRateLimitCounters(now: number = Date.now()): Promise<RateLimitCounter[]> {
+  const counters: RateLimitCounter[] = []
+
+  if (redis) {
+    for (const policy of Object.values(RATE_LIMIT_POLICIES)) {
+      try {
+        counters.push(...await listRedisCounters(policy, now))
+      } catch (error) {
+        console.error('[RateLimit] Failed to list counters:', { policy: policy.name, error })
+        throw error
+      }
+    }
   }
 
-  data.count++
-  store.set(key, data)
-
-  if (data.count > fallbackLimit) {
-    const resetTimeSeconds = Math.ceil((data.resetTime - now) / 1000)
-
-    return NextResponse.json(
-      {
-        error: "Rate limit exceeded. Please try again later.",
-        retryAfter: resetTimeSeconds
-      },
-      {
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': fallbackLimit.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': data.resetTime.toString(),
-          'Retry-After': resetTimeSeconds.toString()
-        }
-      }
-    )
+  for (const [key, value] of global.rateLimitStore?.entries() ?? []) {
+    const separator = key.indexOf(':')
+    if (separator <= 0 || value.resetTime < now) continue
+
+    const policy = key.slice(0, separator)
+    counters.push({
+      policy,
+      subject: key.slice(separator + 1),
+      count: value.count,
+      limit: value.limit ?? findRateLimitPolicy(policy)?.limit ?? null,
+      reset: value.resetTime,
+      backend: 'memory',
+    })
   }
 
-  return null
+  return counters.sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Clear a subject's counter for a policy, in Redis and in this instance's
+ * memory
+ */
+export async function resetRateLimitCounter(policyName: string, subject: string): Promise<void> {
+  global.rateLimitStore?.delete(`${policyName}:${subject}`)
+
+  const policy = findRateLimitPolicy(policyName)
+  const limiter = policy ? createRateLimiter(policy) : null
+  if (!limiter) return
+
+  try {
+    await limiter.resetUsedTokens(subject)
+  } catch (error) {
+    console.error('[RateLimit] Failed to reset counter:', { policy: policyName, subject, error })
+    throw error
+  }
 }
 
 // Extend global type for in-memory store
 declare global {
-  var rateLimitStore: Map<string, { count: number; resetTime: number }> | undefined
+  var rateLimitStore: Map<string, { count: number; resetTime: number; limit?: number }> | undefined
 }
@@ -75,7 +75,7 @@ export async function updateSession(request: NextRequest) {
       }
 
       // Verify admin session for all other admin portal routes
-      const adminSession = verifyAdminSessionFromRequest(request)
+      const adminSession = await verifyAdminSessionFromRequest(request)
       if (!adminSession) {
         const url = request.nextUrl.clone()
         url.pathname = `/${adminPortalRoute}/login`
@@ -148,9 +148,9 @@ export interface EnvConfig {
   OPENAI_API_KEY: string
   STRIPE_SECRET_KEY?: string
   STRIPE_WEBHOOK_SECRET?: string
-  ADMIN_EMAIL: string
-  ADMIN_PASSWORD: string
-  ADMIN_PORTAL_KEY: string
+  ADMIN_PORTAL_KEY?: string
+  ADMIN_SESSION_SECRET: string
+  ADMIN_SESSION_PREVIOUS_SECRETS?: string
   NEXT_PUBLIC_APP_URL?: string
 }
 
@@ -4,107 +4,56 @@
  */
 
 import { validateInput, ValidationResult } from '@/lib/security/input-sanitizer'
-
-// Define the letter intake data schema
-export interface LetterIntakeSchema {
-  senderName: { type: 'string'; required: true; maxLength: 100 }
-  senderAddress: { type: 'string'; required: true; maxLength: 500 }
-  senderEmail?: { type: 'email'; required: false }
-  senderPhone?: { type: 'string'; required: false; maxLength: 20 }
-  recipientName: { type: 'string'; required: true; maxLength: 100 }
-  recipientAddress: { type: 'string'; required: true; maxLength: 500 }
-  recipientEmail?: { type: 'email'; required: false }
-  recipientPhone?: { type: 'string'; required: false; maxLength: 20 }
-  issueDescription: { type: 'string'; required: true; maxLength: 2000 }
-  desiredOutcome: { type: 'string'; required: true; maxLength: 1000 }
-  amountDemanded?: { type: 'number'; required: false; min: 0; max: 10000000 }
-  deadlineDate?: { type: 'string'; required: false; maxLength: 50 }
-  incidentDate?: { type: 'string'; required: false; maxLength: 50 }
-  additionalDetails?: { type: 'string'; required: false; maxLength: 3000 }
-  attachments?: { type: 'array'; required: false }
+import { LETTER_TYPES, getLetterType, type LetterTypeDefinition } from '@/lib/validation/letter-types'
+
+// Per-field validation rule consumed by validateInput
+export interface LetterFieldRule {
+  type: 'string' | 'email' | 'number' | 'array'
+  required: boolean
+  maxLength?: number
+  min?: number
+  max?: number
 }
 
-// Define letter type schemas
-export const LETTER_TYPE_SCHEMAS: Record<string, LetterIntakeSchema> = {
-  'Demand Letter': {
-    senderName: { type: 'string', required: true, maxLength: 100 },
-    senderAddress: { type: 'string', required: true, maxLength: 500 },
-    senderEmail: { type: 'email', required: false },
-    senderPhone: { type: 'string', required: false, maxLength: 20 },
-    recipientName: { type: 'string', required: true, maxLength: 100 },
-    recipientAddress: { type: 'string', required: true, maxLength: 500 },
-    recipientEmail: { type: 'email', required: false },
-    recipientPhone: { type: 'string', required: false, maxLength: 20 },
-    issueDescription: { type: 'string', required: true, maxLength: 2000 },
-    desiredOutcome: { type: 'string', required: true, maxLength: 1000 },
-    amountDemanded: { type: 'number', required: false, min: 0, max: 10000000 },
-    deadlineDate: { type: 'string', required: false, maxLength: 50 },
-    incidentDate: { type: 'string', required: false, maxLength: 50 },
-    additionalDetails: { type: 'string', required: false, maxLength: 3000 },
-    attachments: { type: 'array', required: false }
-  },
-  'Cease and Desist': {
-    senderName: { type: 'string', required: true, maxLength: 100 },
-    senderAddress: { type: 'string', required: true, maxLength: 500 },
-    senderEmail: { type: 'email', required: false },
-    senderPhone: { type: 'string', required: false, maxLength: 20 },
-    recipientName: { type: 'string', required: true, maxLength: 100 },
-    recipientAddress: { type: 'string', required: true, maxLength: 500 },
-    recipientEmail: { type: 'email', required: false },
-    recipientPhone: { type: 'string', required: false, maxLength: 20 },
-    issueDescription: { type: 'string', required: true, maxLength: 2000 },
-    desiredOutcome: { type: 'string', required: true, maxLength: 1000 },
-    deadlineDate: { type: 'string', required: false, maxLength: 50 },
-    additionalDetails: { type: 'string', required: false, maxLength: 3000 },
-    attachments: { type: 'array', required: false }
-  },
-  'Legal Notice': {
-    senderName: { type: 'string', required: true, maxLength: 100 },
-    senderAddress: { type: 'string', required: true, maxLength: 500 },
-    senderEmail: { type: 'email', required: false },
-    senderPhone: { type: 'string', required: false, maxLength: 20 },
-    recipientName: { type: 'string', required: true, maxLength: 100 },
-    recipientAddress: { type: 'string', required: true, maxLength: 500 },
-    recipientEmail: { type: 'email', required: false },
-    recipientPhone: { type: 'string', required: false, maxLength: 20 },
-    issueDescription: { type: 'string', required: true, maxLength: 2000 },
-    desiredOutcome: { type: 'string', required: true, maxLength: 1000 },
-    incidentDate: { type: 'string', required: false, maxLength: 50 },
-    additionalDetails: { type: 'string', required: false, maxLength: 3000 },
-    attachments: { type: 'array', required: false }
-  },
-  'Warning Letter': {
-    senderName: { type: 'string', required: true, maxLength: 100 },
-    senderAddress: { type: 'string', required: true, maxLength: 500 },
-    senderEmail: { type: 'email', required: false },
-    senderPhone: { type: 'string', required: false, maxLength: 20 },
-    recipientName: { type: 'string', required: true, maxLength: 100 },
-    recipientAddress: { type: 'string', required: true, maxLength: 500 },
-    recipientEmail: { type: 'email', required: false },
-    recipientPhone: { type: 'string', required: false, maxLength: 20 },
-    issueDescription: { type: 'string', required: true, maxLength: 2000 },
-    desiredOutcome: { type: 'string', required: true, maxLength: 1000 },
-    additionalDetails: { type: 'string', required: false, maxLength: 3000 },
-    attachments: { type: 'array', required: false }
-  },
-  'Follow-up Letter': {
-    senderName: { type: 'string', required: true, maxLength: 100 },
-    senderAddress: { type: 'string', required: true, maxLength: 500 },
-    senderEmail: { type: 'email', required: false },
-    senderPhone: { type: 'string', required: false, maxLength: 20 },
-    recipientName: { type: 'string', required: true, maxLength: 100 },
-    recipientAddress: { type: 'string', required: true, maxLength: 500 },
-    recipientEmail: { type: 'email', required: false },
-    recipientPhone: { type: 'string', required: false, maxLength: 20 },
-    issueDescription: { type: 'string', required: true, maxLength: 2000 },
-    desiredOutcome: { type: 'string', required: true, maxLength: 1000 },
-    additionalDetails: { type: 'string', required: false, maxLength: 3000 },
-    attachments: { type: 'array', required: false }
+// Define the letter intake data schema
+export type LetterIntakeSchema = Record<string, LetterFieldRule>
+
+function buildIntakeSchema(definition: LetterTypeDefinition): LetterIntakeSchema {
+  const schema: LetterIntakeSchema = {}
+  for (const field of definition.fields) {
+    const rule: LetterFieldRule = {
+      // Dates travel as strings; their format is checked separately below
+      type: field.type === 'date' ? 'string' : field.type,
+      required: field.required,
+    }
+    if (field.maxLength !== undefined) rule.maxLength = field.maxLength
+    if (field.min !== undefined) rule.min = field.min
+    if (field.max !== undefined) rule.max = field.max
+    schema[field.name] = rule
   }
+  return schema
 }
 
+// Define letter type schemas, derived from the letter type registry
+export const LETTER_TYPE_SCHEMAS: Record<string, LetterIntakeSchema> = Object.fromEntries(
+  LETTER_TYPES.map(definition => [definition.value, buildIntakeSchema(definition)])
+)
+
 // List of allowed letter types
-export const ALLOWED_LETTER_TYPES = Object.keys(LETTER_TYPE_SCHEMAS)
+export const ALLOWED_LETTER_TYPES = LETTER_TYPES.map(definition => definition.value)
+
+/**
+ * Resolve a submitted letter type (registry value or legacy display name)
+ * to its canonical registry value
+ */
+export function normalizeLetterType(letterType: string): string | undefined {
+  return getLetterType(letterType)?.value
+}
+
+function humanizeFieldName(name: string): string {
+  const words = name.replace(/([A-Z])/g, ' $1').toLowerCase().trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
 
 // Forbidden patterns to prevent injection attacks
 export const FORBIDDEN_PATTERNS = [
@@ -157,7 +106,7 @@ export function validateLetterType(letterType: string): { valid: boolean; error?
     return { valid: false, error: 'Letter type is required' }
   }
 
-  if (!ALLOWED_LETTER_TYPES.includes(letterType)) {
+  if (!normalizeLetterType(letterType)) {
     return {
       valid: false,
       error: `Invalid letter type. Allowed types: ${ALLOWED_LETTER_TYPES.join(', ')}`
@@ -183,7 +132,8 @@ export function validateIntakeData(letterType: string, intakeData: unknown): Val
     }
   }
 
-  const schema = LETTER_TYPE_SCHEMAS[letterType]
+  const definition = getLetterType(letterType)!
+  const schema = LETTER_TYPE_SCHEMAS[definition.value]!
   const result = validateInput(intakeData as Record<string, unknown>, schema)
 
   // Additional custom validations
@@ -199,12 +149,12 @@ export function validateIntakeData(letterType: string, intakeData: unknown): Val
   }
 
   // Validate email format consistency
-  if (data.senderEmail && !data.senderEmail.includes('@')) {
+  if (typeof data.senderEmail === 'string' && !data.senderEmail.includes('@')) {
     errors.push('Invalid sender email format')
     delete data.senderEmail
   }
 
-  if (data.recipientEmail && !data.recipientEmail.includes('@')) {
+  if (typeof data.recipientEmail === 'string' && !data.recipientEmail.includes('@')) {
     errors.push('Invalid recipient email format')
     delete data.recipientEmail
   }
@@ -221,34 +171,33 @@ export function validateIntakeData(letterType: string, intakeData: unknown): Val
     delete data.recipientPhone
   }
 
-  // Validate date format (basic check)
+  // Field-level rules declared by the letter type registry
   const dateRegex = /^\d{4}-\d{2}-\d{2}$|^\d{1,2}\/\d{1,2}\/\d{4}$/
-  if (data.deadlineDate && !dateRegex.test(data.deadlineDate as string)) {
-    errors.push('Invalid deadline date format. Use YYYY-MM-DD or MM/DD/YYYY')
-    delete data.deadlineDate
-  }
+  for (const field of definition.fields) {
+    const value = data[field.name]
+    if (value === undefined) continue
 
-  if (data.incidentDate && !dateRegex.test(data.incidentDate as string)) {
-    errors.push('Invalid incident date format. Use YYYY-MM-DD or MM/DD/YYYY')
-    delete data.incidentDate
-  }
+    const fieldName = humanizeFieldName(field.name)
 
-  // Validate reasonable amount ranges
-  if (data.amountDemanded !== undefined) {
-    const amount = data.amountDemanded as number
-    if (amount < 0 || amount > 10000000) {
-      errors.push('Amount must be between $0 and $10,000,000')
-      delete data.amountDemanded
+    // Validate date format (basic check)
+    if (field.type === 'date' && value && !dateRegex.test(value as string)) {
+      errors.push(`Invalid ${fieldName.toLowerCase()} format. Use YYYY-MM-DD or MM/DD/YYYY`)
+      delete data[field.name]
     }
-  }
 
-  // Check for minimum content requirements
-  if (data.issueDescription && (data.issueDescription as string).length < 20) {
-    errors.push('Issue description must be at least 20 characters long')
-  }
+    // Validate reasonable amount ranges
+    if (field.type === 'number' && field.min !== undefined && field.max !== undefined) {
+      const amount = value as number
+      if (amount < field.min || amount > field.max) {
+        errors.push(`${fieldName} must be between $${field.min.toLocaleString('en-US')} and $${field.max.toLocaleString('en-US')}`)
+        delete data[field.name]
+      }
+    }
 
-  if (data.desiredOutcome && (data.desiredOutcome as string).length < 10) {
-    errors.push('Desired outcome must be at least 10 characters long')
+    // Check for minimum content requirements
+    if (field.minLength !== undefined && typeof value === 'string' && value && value.length < field.minLength) {
+      errors.push(`${fieldName} must be at least ${field.minLength} characters long`)
+    }
   }
 
   return {
@@ -0,0 +1,259 @@
+/**
+ * Letter Type Registry
+ * Single source of truth for the letter types offered on the intake form and
+ * the fields each one collects. The intake form renders from this list and
+ * the generation validator builds its schema from it, so adding a letter type
+ * is a data change here only.
+ *
+ * This module must stay free of server-only imports: it is bundled into the
+ * client intake form as well as the API routes.
+ */
+
+import type { PdfTemplate } from '@/lib/pdf/types'
+
+export type LetterFieldType = 'string' | 'email' | 'number' | 'date' | 'array'
+
+export type LetterFieldInput = 'text' | 'textarea' | 'email' | 'tel' | 'number' | 'date'
+
+export interface LetterFieldDefinition {
+  name: string
+  label: string
+  type: LetterFieldType
+  required: boolean
+  input: LetterFieldInput
+  maxLength?: number
+  min?: number
+  max?: number
+  minLength?: number
+  rows?: number
+  placeholder?: string
+  /** Fields sharing a group are laid out side by side on the intake form */
+  group?: string
+}
+
+export interface LetterTypeDefinition {
+  value: string
+  label: string
+  description: string
+  /** Legacy display names still stored on older letter rows */
+  aliases?: string[]
+  /** Document layout for the PDF; formal legal letter when omitted */
+  pdfTemplate?: PdfTemplate
+  /** Attorney review target in hours when tighter than the plan's */
+  reviewSlaHours?: number
+  fields: LetterFieldDefinition[]
+}
+
+// Parties block shared by every letter type
+const PARTY_FIELDS: LetterFieldDefinition[] = [
+  { name: 'senderName', label: 'Your Full Name', type: 'string', required: true, input: 'text', maxLength: 100, group: 'names' },
+  { name: 'recipientName', label: 'Recipient Name', type: 'string', required: true, input: 'text', maxLength: 100, group: 'names' },
+  { name: 'senderAddress', label: 'Your Address', type: 'string', required: true, input: 'textarea', rows: 3, maxLength: 500 },
+  { name: 'recipientAddress', label: 'Recipient Address', type: 'string', required: true, input: 'textarea', rows: 3, maxLength: 500 },
+  { name: 'senderEmail', label: 'Your Email (Optional)', type: 'email', required: false, input: 'email', group: 'emails' },
+  { name: 'recipientEmail', label: 'Recipient Email (Optional)', type: 'email', required: false, input: 'email', group: 'emails' },
+  { name: 'senderPhone', label: 'Your Phone (Optional)', type: 'string', required: false, input: 'tel', maxLength: 20, group: 'phones' },
+  { name: 'recipientPhone', label: 'Recipient Phone (Optional)', type: 'string', required: false, input: 'tel', maxLength: 20, group: 'phones' },
+]
+
+const ISSUE_DESCRIPTION: LetterFieldDefinition = {
+  name: 'issueDescription',
+  label: 'Issue Description',
+  type: 'string',
+  required: true,
+  input: 'textarea',
+  rows: 6,
+  minLength: 20,
+  maxLength: 2000,
+  placeholder: 'Describe the issue in detail. Include relevant dates, events, and any supporting information...',
+}
+
+const DESIRED_OUTCOME: LetterFieldDefinition = {
+  name: 'desiredOutcome',
+  label: 'Desired Outcome',
+  type: 'string',
+  required: true,
+  input: 'textarea',
+  rows: 3,
+  minLength: 10,
+  maxLength: 1000,
+  placeholder: 'What resolution are you seeking?',
+}
+
+const AMOUNT_DEMANDED: LetterFieldDefinition = {
+  name: 'amountDemanded',
+  label: 'Amount Demanded ($)',
+  type: 'number',
+  required: false,
+  input: 'number',
+  min: 0,
+  max: 10000000,
+}
+
+const DEADLINE_DATE: LetterFieldDefinition = {
+  name: 'deadlineDate',
+  label: 'Response Deadline (Optional)',
+  type: 'date',
+  required: false,
+  input: 'date',
+  maxLength: 50,
+  group: 'dates',
+}
+
+const INCIDENT_DATE: LetterFieldDefinition = {
+  name: 'incidentDate',
+  label: 'Incident Date (Optional)',
+  type: 'date',
+  required: false,
+  input: 'date',
+  maxLength: 50,
+  group: 'dates',
+}
+
+const ADDITIONAL_DETAILS: LetterFieldDefinition = {
+  name: 'additionalDetails',
+  label: 'Supporting Documents & Additional Details (Optional)',
+  type: 'string',
+  required: false,
+  input: 'textarea',
+  rows: 3,
+  maxLength: 3000,
+  placeholder: 'List any contracts, invoices, emails, or other documents that support your case',
+}
+
+const ATTACHMENTS: LetterFieldDefinition = {
+  name: 'attachments',
+  label: 'Attachments',
+  type: 'array',
+  required: false,
+  input: 'text',
+}
+
+function withCommonFields(specific: LetterFieldDefinition[]): LetterFieldDefinition[] {
+  return [
+    ...PARTY_FIELDS,
+    ISSUE_DESCRIPTION,
+    ...specific,
+    DESIRED_OUTCOME,
+    ADDITIONAL_DETAILS,
+    ATTACHMENTS,
+  ]
+}
+
+export const LETTER_TYPES: LetterTypeDefinition[] = [
+  {
+    value: 'demand_letter',
+    label: 'Demand Letter',
+    description: 'Formal demand for payment or action',
+    aliases: ['Demand Letter'],
+    pdfTemplate: 'demand-letter',
+    fields: withCommonFields([AMOUNT_DEMANDED, DEADLINE_DATE, INCIDENT_DATE]),
+  },
+  {
+    value: 'cease_desist',
+    label: 'Cease and Desist',
+    description: 'Stop harmful or illegal activity',
+    aliases: ['Cease and Desist'],
+    pdfTemplate: 'cease-desist',
+    reviewSlaHours: 24,
+    fields: withCommonFields([DEADLINE_DATE]),
+  },
+  {
+    value: 'contract_breach',
+    label: 'Contract Breach Notice',
+    description: 'Notify of contract violation',
+    pdfTemplate: 'demand-letter',
+    fields: withCommonFields([
+      { name: 'contractTitle', label: 'Contract or Agreement Name', type: 'string', required: true, input: 'text', maxLength: 200 },
+      { name: 'contractDate', label: 'Contract Date', type: 'date', required: true, input: 'date', maxLength: 50, group: 'contract' },
+      { name: 'breachDate', label: 'Date of Breach', type: 'date', required: false, input: 'date', maxLength: 50, group: 'contract' },
+      { name: 'breachedTerms', label: 'Terms Breached', type: 'string', required: true, input: 'textarea', rows: 3, maxLength: 1000, placeholder: 'Quote or summarise the clauses that were violated' },
+      AMOUNT_DEMANDED,
+      DEADLINE_DATE,
+    ]),
+  },
+  {
+    value: 'eviction_notice',
+    label: 'Eviction Notice',
+    description: 'Legal notice to vacate property',
+    reviewSlaHours: 24,
+    fields: withCommonFields([
+      { name: 'propertyAddress', label: 'Rental Property Address', type: 'string', required: true, input: 'textarea', rows: 2, maxLength: 500 },
+      { name: 'leaseStartDate', label: 'Lease Start Date', type: 'date', required: true, input: 'date', maxLength: 50, group: 'lease' },
+      { name: 'leaseEndDate', label: 'Lease End Date (Optional)', type: 'date', required: false, input: 'date', maxLength: 50, group: 'lease' },
+      { name: 'monthlyRent', label: 'Monthly Rent ($)', type: 'number', required: false, input: 'number', min: 0, max: 1000000, group: 'rent' },
+      { name: 'amountOwed', label: 'Rent Owed ($)', type: 'number', required: false, input: 'number', min: 0, max: 10000000, group: 'rent' },
+      { name: 'vacateByDate', label: 'Vacate By Date', type: 'date', required: true, input: 'date', maxLength: 50 },
+    ]),
+  },
+  {
+    value: 'employment_dispute',
+    label: 'Employment Dispute',
+    description: 'Workplace issue resolution',
+    fields: withCommonFields([
+      { name: 'employerName', label: 'Employer', type: 'string', required: true, input: 'text', maxLength: 200, group: 'employment' },
+      { name: 'position', label: 'Your Position', type: 'string', required: true, input: 'text', maxLength: 100, group: 'employment' },
+      { name: 'employmentStartDate', label: 'Employment Start Date', type: 'date', required: false, input: 'date', maxLength: 50, group: 'employment-dates' },
+      { name: 'employmentEndDate', label: 'Employment End Date (Optional)', type: 'date', required: false, input: 'date', maxLength: 50, group: 'employment-dates' },
+      AMOUNT_DEMANDED,
+      INCIDENT_DATE,
+    ]),
+  },
+  {
+    value: 'consumer_complaint',
+    label: 'Consumer Complaint',
+    description: 'Product or service complaint',
+    pdfTemplate: 'general',
+    fields: withCommonFields([
+      { name: 'productOrService', label: 'Product or Service', type: 'string', required: true, input: 'text', maxLength: 200, group: 'purchase' },
+      { name: 'purchaseDate', label: 'Purchase Date', type: 'date', required: false, input: 'date', maxLength: 50, group: 'purchase' },
+      { name: 'orderNumber', label: 'Order or Account Number (Optional)', type: 'string', required: false, input: 'text', maxLength: 100 },
+      AMOUNT_DEMANDED,
+      DEADLINE_DATE,
+    ]),
+  },
+  {
+    value: 'legal_notice',
+    label: 'Legal Notice',
+    description: 'Formal notice of a legal matter',
+    aliases: ['Legal Notice'],
+    fields: withCommonFields([INCIDENT_DATE]),
+  },
+  {
+    value: 'warning_letter',
+    label: 'Warning Letter',
+    description: 'Formal warning before further action',
+    aliases: ['Warning Letter'],
+    fields: withCommonFields([]),
+  },
+  {
+    value: 'follow_up_letter',
+    label: 'Follow-up Letter',
+    description: 'Follow up on an unanswered letter',
+    aliases: ['Follow-up Letter'],
+    fields: withCommonFields([]),
+  },
+]
+
+const LETTER_TYPE_INDEX = new Map<string, LetterTypeDefinition>()
+for (const definition of LETTER_TYPES) {
+  LETTER_TYPE_INDEX.set(definition.value, definition)
+  for (const alias of definition.aliases ?? []) {
+    LETTER_TYPE_INDEX.set(alias, definition)
+  }
+}
+
+/**
+ * Look up a letter type by its value or by a legacy display name
+ */
+export function getLetterType(letterType: string): LetterTypeDefinition | undefined {
+  return LETTER_TYPE_INDEX.get(letterType)
+}
+
+/**
+ * Human readable label for a stored letter_type, falling back to the raw value
+ */
+export function getLetterTypeLabel(letterType: string | null | undefined): string {
+  if (!letterType) return 'General Letter'
+  return getLetterType(letterType)?.label ?? letterType.replace(/_/g, ' ')
+}
@@ -1,92 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { verifyAdminSessionFromRequest } from '@/lib/auth/admin-session'
+import { enforceRateLimit, getRateLimitIdentity } from '@/lib/rate-limit-redis'
+import { matchRateLimitRoute, rateLimitHeaders, rateLimitSubject } from '@/lib/rate-limit-policies'
 
 const CORS_HEADERS: Record<string, string> = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, OPTIONS, POST, PUT, DELETE',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-}
-
-// Rate limiting configuration
-const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes in milliseconds
-const RATE_LIMIT_MAX_REQUESTS: Record<string, number> = {
-  '/api/generate-letter': 5, // 5 letters per 15 minutes
-  '/api/create-checkout': 10, // 10 checkout attempts per 15 minutes
-  '/api/admin-auth/login': 5, // 5 admin login attempts per 15 minutes
-  '/api/auth/signup': 3, // 3 signup attempts per 15 minutes
-  '/api/auth/login': 10, // 10 login attempts per 15 minutes
-  default: 100 // Default limit for other API routes
-}
-
-// In-memory rate limit storage (use Redis or database for production)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
-
-function getClientId(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for')
-  const realIP = request.headers.get('x-real-ip')
-  const cfConnectingIP = request.headers.get('cf-connecting-ip')
-
-  if (forwarded) {
-    return forwarded.split(',')[0].trim()
-  }
-
-  if (realIP) {
-    return realIP
-  }
-
-  if (cfConnectingIP) {
-    return cfConnectingIP
-  }
-
-  return 'unknown'
-}
-
-function isRateLimited(request: NextRequest): { limited: boolean; resetTime?: number; remaining?: number } {
-  const path = new URL(request.url).pathname
-
-  // Only rate limit API routes
-  if (!path.startsWith('/api/')) {
-    return { limited: false }
-  }
-
-  const clientId = getClientId(request)
-  const now = Date.now()
-
-  // Get rate limit for this specific endpoint
-  const maxRequests = RATE_LIMIT_MAX_REQUESTS[path] || RATE_LIMIT_MAX_REQUESTS.default
-
-  // Get or create rate limit entry
-  let entry = rateLimitStore.get(clientId)
-  if (!entry || now > entry.resetTime) {
-    entry = { count: 0, resetTime: now + RATE_LIMIT_WINDOW }
-    rateLimitStore.set(clientId, entry)
-  }
-
-  entry.count++
-
-  // Clean up old entries periodically
-  if (rateLimitStore.size > 10000) {
-    for (const [key, value] of rateLimitStore.entries()) {
-      if (now > value.resetTime) {
-        rateLimitStore.delete(key)
-      }
-    }
-  }
-
-  const remaining = Math.max(0, maxRequests - entry.count)
-
-  return {
-    limited: entry.count > maxRequests,
-    resetTime: entry.resetTime,
-    remaining
-  }
+  'Access-Control-Expose-Headers': 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After',
 }
 
 // ============================================================================
 // SUPABASE SESSION UPDATE
 // ============================================================================
-async function updateSession(request: NextRequest): Promise<NextResponse> {
+async function updateSession(request: NextRequest): Promise<{ response: NextResponse; userId: string | null }> {
   let supabaseResponse = NextResponse.next({ request })
 
   try {
@@ -97,7 +25,7 @@ async function updateSession(request: NextRequest): Promise<NextResponse> {
       console.error(
         '[Proxy] Missing Supabase env. Create .env.local (cp .env.example .env.local), set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY, then restart the dev server.'
       )
-      return supabaseResponse
+      return { response: supabaseResponse, userId: null }
     }
 
     const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
@@ -116,11 +44,11 @@ async function updateSession(request: NextRequest): Promise<NextResponse> {
     })
 
     // Refresh the session
-    await supabase.auth.getUser()
-    return supabaseResponse
+    const { data: { user } } = await supabase.auth.getUser()
+    return { response: supabaseResponse, userId: user?.id ?? null }
   } catch (error) {
     console.error('[Proxy] Session update error:', error)
-    return supabaseResponse
+    return { response: supabaseResponse, userId: null }
   }
 }
 
@@ -150,45 +78,49 @@ export async function proxy(request: NextRequest) {
   // 3. Rate limiting for API routes
   // ------------------------------------------
   if (pathname.startsWith('/api/')) {
-    const rateLimitResult = isRateLimited(request)
+    // The session is refreshed first so per-user policies can count
+    // against the signed-in user
+    const { response, userId } = await updateSession(request)
+    Object.entries(CORS_HEADERS).forEach(([key, value]) => response.headers.set(key, value))
 
-    if (rateLimitResult.limited) {
+    const policy = matchRateLimitRoute(pathname)
+    if (!policy) {
+      return response
+    }
+
+    const subject = rateLimitSubject(policy, getRateLimitIdentity(request, userId))
+    const rateLimitResult = await enforceRateLimit(policy, subject)
+    const headers = rateLimitHeaders(rateLimitResult, policy.window)
+
+    if (!rateLimitResult.success) {
       console.warn('[RateLimit] Request blocked:', {
         path: pathname,
-        clientId: getClientId(request),
+        policy: policy.name,
+        subject,
         timestamp: new Date().toISOString()
       })
 
-      const response = NextResponse.json(
+      const blocked = NextResponse.json(
         {
           error: 'Too many requests. Please try again later.',
-          retryAfter: Math.ceil((rateLimitResult.resetTime! - Date.now()) / 1000)
+          retryAfter: Number(headers['Retry-After'])
         },
         { status: 429 }
       )
 
-      // Add rate limit headers
-      Object.entries(CORS_HEADERS).forEach(([key, value]) => response.headers.set(key, value))
-      response.headers.set('X-RateLimit-Limit', String(RATE_LIMIT_MAX_REQUESTS[pathname] || RATE_LIMIT_MAX_REQUESTS.default))
-      response.headers.set('X-RateLimit-Remaining', '0')
-      response.headers.set('X-RateLimit-Reset', String(Math.ceil(rateLimitResult.resetTime! / 1000)))
-      response.headers.set('Retry-After', String(Math.ceil((rateLimitResult.resetTime! - Date.now()) / 1000)))
-      return response
+      Object.entries(CORS_HEADERS).forEach(([key, value]) => blocked.headers.set(key, value))
+      Object.entries(headers).forEach(([key, value]) => blocked.headers.set(key, value))
+      return blocked
     }
 
-    // For non-blocked API requests, just add headers and continue
-    const response = await updateSession(request)
-    Object.entries(CORS_HEADERS).forEach(([key, value]) => response.headers.set(key, value))
-    response.headers.set('X-RateLimit-Limit', String(RATE_LIMIT_MAX_REQUESTS[pathname] || RATE_LIMIT_MAX_REQUESTS.default))
-    response.headers.set('X-RateLimit-Remaining', String(rateLimitResult.remaining || 0))
-    response.headers.set('X-RateLimit-Reset', String(Math.ceil((rateLimitResult.resetTime || Date.now() + RATE_LIMIT_WINDOW) / 1000)))
+    Object.entries(headers).forEach(([key, value]) => response.headers.set(key, value))
     return response
   }
 
   // ------------------------------------------
   // 4. Update Supabase session
   // ------------------------------------------
-  const response = await updateSession(request)
+  const { response } = await updateSession(request)
 
   // ------------------------------------------
   // 5. Public routes (no auth required)
@@ -244,12 +176,19 @@ export async function proxy(request: NextRequest) {
     }
 
     // Verify admin session for all other admin portal routes
-    const adminSession = verifyAdminSessionFromRequest(request)
+    const adminSession = await verifyAdminSessionFromRequest(request)
     if (!adminSession) {
       const url = new URL(`/${adminPortalRoute}/login`, request.url)
       return NextResponse.redirect(url)
     }
 
+    // Reviewers only work in the review center
+    if (userRole === 'reviewer' && user?.id === adminSession.userId &&
+        !pathname.startsWith(`/${adminPortalRoute}/review`)) {
+      const url = new URL(`/${adminPortalRoute}/review`, request.url)
+      return NextResponse.redirect(url)
+    }
+
     // Super admin route protection
     const superAdminRoutes = [
       `/${adminPortalRoute}/dashboard/users`,
@@ -318,6 +257,8 @@ export async function proxy(request: NextRequest) {
       const url = new URL(request.url)
       if (userRole === 'admin') {
         url.pathname = `/${adminPortalRoute}/dashboard`
+      } else if (userRole === 'reviewer') {
+        url.pathname = `/${adminPortalRoute}/review`
       } else if (userRole === 'employee') {
         url.pathname = '/dashboard/coupons'
       } else {
@@ -11,18 +11,21 @@ const requiredEnvVars = {
     { name: 'STRIPE_SECRET_KEY', description: 'Stripe secret key' },
     { name: 'NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY', description: 'Stripe publishable key' },
     { name: 'STRIPE_WEBHOOK_SECRET', description: 'Stripe webhook secret' },
-    { name: 'ADMIN_EMAIL', description: 'Admin email address' },
-    { name: 'ADMIN_PORTAL_KEY', description: 'Admin portal access key' },
     { name: 'CRON_SECRET', description: 'Cron job authentication secret' },
+    { name: 'ADMIN_SESSION_SECRET', description: 'Admin session cookie signing secret' },
   ],
   optional: [
     { name: 'NEXT_PUBLIC_APP_URL', description: 'Application URL', default: 'http://localhost:3000' },
     { name: 'KV_REST_API_URL', description: 'Upstash Redis URL for rate limiting' },
     { name: 'KV_REST_API_TOKEN', description: 'Upstash Redis token' },
+    { name: 'RATE_LIMIT_BACKEND', description: 'Rate limit store (upstash, redis or memory)' },
+    { name: 'REDIS_REST_URL', description: 'Local Redis REST proxy URL for rate limiting' },
+    { name: 'REDIS_REST_TOKEN', description: 'Local Redis REST proxy token' },
     { name: 'SENDGRID_API_KEY', description: 'SendGrid API key for emails' },
     { name: 'BREVO_API_KEY', description: 'Brevo API key for emails' },
     { name: 'EMAIL_FROM', description: 'From email address' },
     { name: 'ENABLE_TEST_MODE', description: 'Enable test mode', default: 'false' },
+    { name: 'ADMIN_PORTAL_KEY', description: 'Extra key required at admin login' },
   ],
 }
 
@@ -0,0 +1,83 @@
+/*
+  # Letter Generation Jobs
+
+  1. New Tables
+    - `letter_generation_jobs` - Queued AI generation work for a letter
+      - `id` (uuid, primary key)
+      - `letter_id` (uuid, references letters)
+      - `user_id` (uuid, references profiles)
+      - `status` (text: queued, running, completed, failed)
+      - `stage` (text: queued, analyzing, drafting, finalizing, completed, failed)
+      - `allowance_deducted` (boolean) - whether a credit must be refunded on failure
+      - `is_free_trial` (boolean)
+      - `attempts` (integer)
+      - `error` (text)
+      - timestamps, including `heartbeat_at` used by the stuck-job sweeper
+
+  2. Security
+    - RLS enabled
+    - Subscribers can read jobs for their own letters (progress polling)
+    - Writes happen through the service role only
+
+  3. Functions
+    - `claim_letter_generation_job()` - Atomically moves a queued job to running
+*/
+
+CREATE TABLE IF NOT EXISTS letter_generation_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    letter_id UUID NOT NULL REFERENCES letters(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    stage TEXT NOT NULL DEFAULT 'queued' CHECK (stage IN ('queued', 'analyzing', 'drafting', 'finalizing', 'completed', 'failed')),
+    allowance_deducted BOOLEAN NOT NULL DEFAULT false,
+    is_free_trial BOOLEAN NOT NULL DEFAULT false,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_letter ON letter_generation_jobs(letter_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user ON letter_generation_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_active
+    ON letter_generation_jobs(status, heartbeat_at)
+    WHERE status IN ('queued', 'running');
+
+ALTER TABLE letter_generation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own generation jobs"
+    ON letter_generation_jobs FOR SELECT
+    TO authenticated
+    USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Admins view all generation jobs"
+    ON letter_generation_jobs FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+-- Claim a queued job for processing. Returns no row when another worker
+-- already claimed it, so concurrent runners never generate the same letter twice.
+CREATE OR REPLACE FUNCTION public.claim_letter_generation_job(p_job_id UUID)
+RETURNS SETOF letter_generation_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.letter_generation_jobs
+    SET status = 'running',
+        stage = 'analyzing',
+        attempts = attempts + 1,
+        started_at = NOW(),
+        heartbeat_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_job_id
+      AND status = 'queued'
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_letter_generation_job FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_letter_generation_job TO service_role;
+
+COMMENT ON TABLE letter_generation_jobs IS 'Asynchronous AI letter generation jobs with progress stage for the tracker UI';
@@ -0,0 +1,206 @@
+/*
+  # Letter Version History
+
+  1. New Tables
+    - `letter_versions` - Every revision of a letter's content
+      - `id` (uuid, primary key)
+      - `letter_id` (uuid, references letters)
+      - `version_number` (integer, sequential per letter)
+      - `content` (text)
+      - `source` (text: ai_draft, ai_improve, manual_edit, resubmission, restore)
+      - `created_by` (uuid, references profiles; null for system-generated drafts)
+      - `audit_id` (uuid, references letter_audit_trail) - the audit entry recording this revision
+      - `restored_from` (uuid, references letter_versions) - set for restores
+      - `notes` (text)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS enabled
+    - Admins can read all versions
+    - Writes happen through the service role only
+
+  3. Functions
+    - `record_letter_version()` - Adds a version and its audit entry atomically
+    - `restore_letter_version()` - Copies an earlier version forward and makes it the letter's final content
+*/
+
+CREATE TABLE IF NOT EXISTS letter_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    letter_id UUID NOT NULL REFERENCES letters(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('ai_draft', 'ai_improve', 'manual_edit', 'resubmission', 'restore')),
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    audit_id UUID REFERENCES letter_audit_trail(id) ON DELETE SET NULL,
+    restored_from UUID REFERENCES letter_versions(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (letter_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_versions_letter ON letter_versions(letter_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_letter_versions_created_by ON letter_versions(created_by);
+CREATE INDEX IF NOT EXISTS idx_letter_versions_audit ON letter_versions(audit_id);
+
+ALTER TABLE letter_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins view all letter versions"
+    ON letter_versions FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+-- Record a new revision of a letter. Identical consecutive content is not
+-- duplicated; the latest version is returned instead. Letters that predate
+-- version history get their AI draft recorded as the baseline first, so the
+-- very first edit can still be diffed and undone.
+CREATE OR REPLACE FUNCTION public.record_letter_version(
+    p_letter_id UUID,
+    p_content TEXT,
+    p_source TEXT,
+    p_author UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_restored_from UUID DEFAULT NULL
+)
+RETURNS letter_versions AS $$
+DECLARE
+    v_letter RECORD;
+    v_latest letter_versions;
+    v_version letter_versions;
+    v_version_id UUID := uuid_generate_v4();
+    v_next_number INTEGER;
+    v_audit_id UUID;
+    v_action TEXT;
+BEGIN
+    -- Serialise version numbering per letter
+    SELECT id, status, ai_draft_content INTO v_letter
+    FROM public.letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    SELECT * INTO v_latest
+    FROM public.letter_versions
+    WHERE letter_id = p_letter_id
+    ORDER BY version_number DESC
+    LIMIT 1;
+
+    IF v_latest.id IS NOT NULL AND v_latest.content = p_content THEN
+        RETURN v_latest;
+    END IF;
+
+    IF v_latest.id IS NULL
+       AND p_source <> 'ai_draft'
+       AND v_letter.ai_draft_content IS NOT NULL
+       AND v_letter.ai_draft_content <> p_content THEN
+        INSERT INTO public.letter_versions (letter_id, version_number, content, source, notes)
+        VALUES (p_letter_id, 1, v_letter.ai_draft_content, 'ai_draft', 'Original AI draft');
+    END IF;
+
+    SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next_number
+    FROM public.letter_versions
+    WHERE letter_id = p_letter_id;
+
+    v_action := CASE p_source
+        WHEN 'manual_edit' THEN 'content_edited'
+        WHEN 'ai_improve' THEN 'ai_improved'
+        WHEN 'restore' THEN 'version_restored'
+        ELSE 'version_created'
+    END;
+
+    INSERT INTO public.letter_audit_trail (
+        letter_id,
+        action,
+        performed_by,
+        old_status,
+        new_status,
+        notes,
+        metadata
+    ) VALUES (
+        p_letter_id,
+        v_action,
+        p_author,
+        v_letter.status,
+        v_letter.status,
+        COALESCE(p_notes, 'Version ' || v_next_number || ' saved'),
+        jsonb_build_object(
+            'version_id', v_version_id,
+            'version_number', v_next_number,
+            'source', p_source,
+            'restored_from', p_restored_from
+        )
+    )
+    RETURNING id INTO v_audit_id;
+
+    INSERT INTO public.letter_versions (
+        id,
+        letter_id,
+        version_number,
+        content,
+        source,
+        created_by,
+        audit_id,
+        restored_from,
+        notes
+    ) VALUES (
+        v_version_id,
+        p_letter_id,
+        v_next_number,
+        p_content,
+        p_source,
+        p_author,
+        v_audit_id,
+        p_restored_from,
+        p_notes
+    )
+    RETURNING * INTO v_version;
+
+    RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Restore an earlier version: it is copied forward as a new `restore`
+-- version and becomes the letter's final content.
+CREATE OR REPLACE FUNCTION public.restore_letter_version(
+    p_version_id UUID,
+    p_author UUID DEFAULT NULL
+)
+RETURNS letter_versions AS $$
+DECLARE
+    v_source letter_versions;
+    v_version letter_versions;
+BEGIN
+    SELECT * INTO v_source
+    FROM public.letter_versions
+    WHERE id = p_version_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter version % not found', p_version_id;
+    END IF;
+
+    v_version := public.record_letter_version(
+        v_source.letter_id,
+        v_source.content,
+        'restore',
+        p_author,
+        'Restored version ' || v_source.version_number,
+        v_source.id
+    );
+
+    UPDATE public.letters
+    SET final_content = v_source.content,
+        updated_at = NOW()
+    WHERE id = v_source.letter_id;
+
+    RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_letter_version FROM PUBLIC, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_letter_version FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_letter_version TO service_role;
+GRANT EXECUTE ON FUNCTION public.restore_letter_version TO service_role;
+
+COMMENT ON TABLE letter_versions IS 'Revision history of letter content, each entry linked to its letter_audit_trail record';
@@ -0,0 +1,56 @@
+/*
+  # Letter Comments
+
+  1. New Tables
+    - `letter_comments` - Conversation between a subscriber and the reviewers on a letter
+      - `id` (uuid, primary key)
+      - `letter_id` (uuid, references letters)
+      - `parent_id` (uuid, references letter_comments) - set for replies
+      - `author_id` (uuid, references profiles)
+      - `author_role` (text: subscriber, admin)
+      - `kind` (text: comment, change_request)
+      - `body` (text)
+      - `mentions` (jsonb) - paragraphs referenced with @pN, with an excerpt of each
+      - timestamps
+
+  2. Security
+    - RLS enabled
+    - Subscribers can read comments on their own letters
+    - Admins can read all comments
+    - Writes happen through the service role only, after the API checks access
+*/
+
+CREATE TABLE IF NOT EXISTS letter_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    letter_id UUID NOT NULL REFERENCES letters(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES letter_comments(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    author_role TEXT NOT NULL CHECK (author_role IN ('subscriber', 'admin')),
+    kind TEXT NOT NULL DEFAULT 'comment' CHECK (kind IN ('comment', 'change_request')),
+    body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+    mentions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_comments_letter ON letter_comments(letter_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_letter_comments_parent ON letter_comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_letter_comments_author ON letter_comments(author_id);
+
+ALTER TABLE letter_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view comments on own letters"
+    ON letter_comments FOR SELECT
+    TO authenticated
+    USING (
+        letter_id IN (
+            SELECT id FROM public.letters WHERE user_id = (SELECT auth.uid())
+        )
+    );
+
+CREATE POLICY "Admins view all letter comments"
+    ON letter_comments FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+COMMENT ON TABLE letter_comments IS 'Threaded subscriber/reviewer comments and change requests on letters';
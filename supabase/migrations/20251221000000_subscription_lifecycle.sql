@@ -0,0 +1,19 @@
+/*
+  # Subscription Lifecycle
+
+  1. Changes to `subscriptions`
+    - `cancel_at_period_end` (boolean) - cancellation scheduled in Stripe, row stays active until the period ends
+    - `canceled_at` (timestamptz) - when Stripe ended the subscription
+    - Unique index on `stripe_subscription_id` so renewal and cancellation
+      webhooks resolve to exactly one row
+*/
+
+ALTER TABLE subscriptions
+    ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_stripe_subscription
+    ON subscriptions(stripe_subscription_id)
+    WHERE stripe_subscription_id IS NOT NULL;
+
+COMMENT ON COLUMN subscriptions.cancel_at_period_end IS 'Stripe will cancel the subscription when the current period ends';
@@ -0,0 +1,86 @@
+/*
+  # Stripe Events Ledger
+
+  1. New Tables
+    - `stripe_events` - Every verified Stripe webhook event, keyed by the Stripe event id
+      - `id` (text, primary key) - Stripe event id (evt_...)
+      - `type` (text) - Stripe event type
+      - `status` (text: received, processing, processed, failed)
+      - `attempts` (integer)
+      - `error` (text) - last processing error
+      - `payload` (jsonb) - the full event, used to re-drive failed events
+      - `livemode` (boolean)
+      - `stripe_created_at` (timestamptz) - when Stripe created the event
+      - `redriven_by` (uuid) - admin who last re-drove the event
+      - timestamps
+
+  2. Security
+    - RLS enabled
+    - Admins can read the ledger
+    - Writes happen through the service role only
+
+  3. Functions
+    - `claim_stripe_event()` - Records an event and claims it for processing.
+      Redeliveries of processed events return no row and become no-ops.
+*/
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    payload JSONB NOT NULL,
+    livemode BOOLEAN NOT NULL DEFAULT false,
+    stripe_created_at TIMESTAMPTZ,
+    redriven_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    processed_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_type ON stripe_events(type);
+
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins view stripe events"
+    ON stripe_events FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+-- Record an event and claim it for processing. Returns no row when the event
+-- was already processed or another delivery is processing it right now.
+-- Failed events, and processing claims older than five minutes (a crashed
+-- handler), can be claimed again.
+CREATE OR REPLACE FUNCTION public.claim_stripe_event(
+    p_event_id TEXT,
+    p_type TEXT,
+    p_payload JSONB,
+    p_livemode BOOLEAN DEFAULT false,
+    p_stripe_created_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS SETOF stripe_events AS $$
+BEGIN
+    INSERT INTO public.stripe_events (id, type, payload, livemode, stripe_created_at)
+    VALUES (p_event_id, p_type, p_payload, p_livemode, p_stripe_created_at)
+    ON CONFLICT (id) DO NOTHING;
+
+    RETURN QUERY
+    UPDATE public.stripe_events
+    SET status = 'processing',
+        attempts = attempts + 1,
+        updated_at = NOW()
+    WHERE id = p_event_id
+      AND (
+        status IN ('received', 'failed')
+        OR (status = 'processing' AND updated_at < NOW() - INTERVAL '5 minutes')
+      )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_stripe_event FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_stripe_event TO service_role;
+
+COMMENT ON TABLE stripe_events IS 'Idempotency ledger for Stripe webhook events with processing status for admin re-drive';
@@ -0,0 +1,57 @@
+/*
+  # Subscription Credit Carry-over
+
+  1. Functions
+    - `carry_over_subscription_credits()` - When a new subscription activates,
+      moves unused credits from the subscriber's other active one-off
+      purchases (rows without a Stripe subscription) onto it. The source rows
+      are zeroed and cancelled so the credits cannot be spent twice.
+      Credits of other recurring subscriptions are left alone; those move
+      between plans through a prorated plan change instead.
+*/
+
+CREATE OR REPLACE FUNCTION public.carry_over_subscription_credits(
+    p_user_id UUID,
+    p_subscription_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_carried INTEGER;
+BEGIN
+    WITH sources AS (
+        SELECT id, COALESCE(credits_remaining, remaining_letters, 0) AS credits
+        FROM public.subscriptions
+        WHERE user_id = p_user_id
+          AND id <> p_subscription_id
+          AND status = 'active'
+          AND stripe_subscription_id IS NULL
+          AND COALESCE(credits_remaining, remaining_letters, 0) > 0
+        FOR UPDATE
+    ),
+    drained AS (
+        UPDATE public.subscriptions s
+        SET credits_remaining = 0,
+            remaining_letters = 0,
+            status = 'canceled',
+            canceled_at = NOW(),
+            updated_at = NOW()
+        FROM sources
+        WHERE s.id = sources.id
+        RETURNING sources.credits
+    )
+    SELECT COALESCE(SUM(credits), 0)::INTEGER INTO v_carried FROM drained;
+
+    IF v_carried > 0 THEN
+        UPDATE public.subscriptions
+        SET credits_remaining = COALESCE(credits_remaining, 0) + v_carried,
+            remaining_letters = COALESCE(remaining_letters, 0) + v_carried,
+            updated_at = NOW()
+        WHERE id = p_subscription_id;
+    END IF;
+
+    RETURN v_carried;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.carry_over_subscription_credits FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.carry_over_subscription_credits TO service_role;
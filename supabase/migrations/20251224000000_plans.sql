@@ -0,0 +1,137 @@
+/*
+  # Plan Catalog
+
+  1. New Tables
+    - `plans` - The plans sold through checkout, managed from the admin dashboard
+      - `id` (uuid, primary key)
+      - `plan_type` (text, unique) - stable key stored on subscriptions.plan_type
+      - `name`, `description` (text) - customer-facing copy
+      - `price` (numeric) - price in USD
+      - `letters` (integer) - letter credits granted per period (or per purchase)
+      - `interval` (text: month, year; null for one-off purchases)
+      - `stripe_price_id` (text) - optional Stripe Price used instead of inline pricing
+      - `features` (jsonb) - bullet points shown on pricing cards
+      - `aliases` (text[]) - legacy plan names that resolve to this plan
+      - `is_visible` (boolean) - offered on pricing pages and checkout
+      - `is_popular` (boolean) - highlighted on pricing pages
+      - `sort_order` (integer)
+      - timestamps
+
+  2. Security
+    - RLS enabled
+    - Anyone can read visible plans (public pricing page)
+    - Admins can read all plans
+    - Writes happen through the service role only
+
+  3. Functions
+    - `plan_letters()` - Letters for a plan type or legacy alias
+    - `add_letter_allowances()` and `reset_monthly_allowances()` now read
+      letter counts and intervals from `plans`
+*/
+
+CREATE TABLE IF NOT EXISTS plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_type TEXT NOT NULL UNIQUE CHECK (plan_type ~ '^[a-z0-9_]+$'),
+    name TEXT NOT NULL,
+    description TEXT,
+    price NUMERIC(10,2) NOT NULL CHECK (price >= 0 AND price <= 99999.99),
+    letters INTEGER NOT NULL CHECK (letters > 0),
+    interval TEXT CHECK (interval IN ('month', 'year')),
+    stripe_price_id TEXT,
+    features JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(features) = 'array'),
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    is_visible BOOLEAN NOT NULL DEFAULT true,
+    is_popular BOOLEAN NOT NULL DEFAULT false,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_plans_visible ON plans(sort_order) WHERE is_visible = true;
+
+ALTER TABLE plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone views visible plans"
+    ON plans FOR SELECT
+    TO anon, authenticated
+    USING (is_visible = true);
+
+CREATE POLICY "Admins view all plans"
+    ON plans FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+-- Seed the plans previously hard-coded in checkout, the pricing UI and the allowance functions
+INSERT INTO plans (plan_type, name, description, price, letters, interval, features, aliases, is_popular, sort_order)
+VALUES
+    (
+        'one_time', 'Single Letter',
+        'Perfect for one-time legal needs. Get a professional letter without commitment.',
+        299, 1, NULL,
+        '["1 Professional Legal Letter", "Attorney Review Included", "PDF Download", "AI-powered draft", "Professional formatting", "Email delivery", "48-hour turnaround"]'::jsonb,
+        ARRAY['single_letter'], false, 10
+    ),
+    (
+        'standard_4_month', 'Monthly Plan',
+        'Best value for ongoing legal communication needs with 4 letters per month.',
+        299, 4, 'month',
+        '["4 Letters Per Month", "Attorney Review", "Priority Support", "Cancel anytime", "Priority queue", "24-hour turnaround"]'::jsonb,
+        ARRAY['monthly', 'monthly_standard'], true, 20
+    ),
+    (
+        'premium_8_month', 'Annual Plan',
+        'Maximum value with 8 letters per year.',
+        599, 8, 'year',
+        '["8 Letters Per Year", "Attorney Review", "Premium Support", "Custom templates", "Dedicated support", "12-hour turnaround"]'::jsonb,
+        ARRAY['yearly', 'monthly_premium'], false, 30
+    )
+ON CONFLICT (plan_type) DO NOTHING;
+
+-- Letters granted by a plan, resolving legacy names through aliases.
+-- Unknown plans keep the previous fallback of a single letter.
+CREATE OR REPLACE FUNCTION public.plan_letters(p_plan TEXT)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(
+        (SELECT letters FROM public.plans WHERE plan_type = p_plan OR p_plan = ANY(aliases) LIMIT 1),
+        1
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.add_letter_allowances(sub_id UUID, plan TEXT)
+RETURNS VOID AS $$
+DECLARE
+    letters_to_add INT;
+BEGIN
+    letters_to_add := public.plan_letters(plan);
+
+    UPDATE public.subscriptions
+    SET remaining_letters = letters_to_add,
+        credits_remaining = letters_to_add,
+        last_reset_at = NOW(),
+        updated_at = NOW()
+    WHERE id = sub_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refresh credits for recurring plans once their interval has rolled over.
+-- Stripe-billed subscriptions are refreshed by the invoice.paid webhook instead.
+CREATE OR REPLACE FUNCTION public.reset_monthly_allowances()
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.subscriptions s
+    SET remaining_letters = p.letters,
+        credits_remaining = p.letters,
+        last_reset_at = NOW(),
+        updated_at = NOW()
+    FROM public.plans p
+    WHERE s.status = 'active'
+      AND s.stripe_subscription_id IS NULL
+      AND (s.plan_type = p.plan_type OR s.plan_type = ANY(p.aliases))
+      AND (
+        (p.interval = 'month' AND DATE_TRUNC('month', s.last_reset_at) < DATE_TRUNC('month', NOW()))
+        OR (p.interval = 'year' AND s.last_reset_at < NOW() - INTERVAL '1 year')
+      );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON TABLE plans IS 'Plan catalog read by checkout, pricing pages, the Stripe webhook and allowance functions';
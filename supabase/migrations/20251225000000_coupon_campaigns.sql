@@ -0,0 +1,155 @@
+/*
+  # Coupon Campaigns
+
+  1. Modified Tables
+    - `employee_coupons` - Now holds marketing campaign codes as well as
+      employee referral codes. Campaign codes have no `employee_id`.
+      - `description` (text) - internal note for admins
+      - `discount_type` (text: percent, fixed)
+      - `discount_amount` (numeric) - USD off the plan price for fixed discounts
+      - `starts_at`, `expires_at` (timestamptz) - optional validity window
+      - `max_redemptions` (integer) - global cap on completed purchases
+      - `max_redemptions_per_user` (integer) - cap per subscriber
+      - `allowed_plans` (text[]) - plan keys the code applies to; NULL for all
+      - `first_purchase_only` (boolean) - only for subscribers without a prior purchase
+    - `coupon_usage`
+      - `coupon_id` (uuid) - the redeemed coupon row
+
+  2. Data
+    - `TALK3` is stored as an ordinary 100% campaign code instead of being
+      special-cased in checkout
+
+  3. Functions
+    - `validate_coupon()` - Now takes the plan and subscriber and enforces
+      expiry, redemption caps, plan restrictions and first-purchase rules.
+      Returns the discount type and amount with the reason a code is refused.
+*/
+
+ALTER TABLE employee_coupons
+    ALTER COLUMN employee_id DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS description TEXT,
+    ADD COLUMN IF NOT EXISTS discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'fixed')),
+    ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10,2) CHECK (discount_amount > 0 AND discount_amount <= 99999.99),
+    ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS max_redemptions INTEGER CHECK (max_redemptions > 0),
+    ADD COLUMN IF NOT EXISTS max_redemptions_per_user INTEGER CHECK (max_redemptions_per_user > 0),
+    ADD COLUMN IF NOT EXISTS allowed_plans TEXT[],
+    ADD COLUMN IF NOT EXISTS first_purchase_only BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE employee_coupons
+    DROP CONSTRAINT IF EXISTS employee_coupons_fixed_amount_check;
+ALTER TABLE employee_coupons
+    ADD CONSTRAINT employee_coupons_fixed_amount_check
+    CHECK (discount_type <> 'fixed' OR discount_amount IS NOT NULL);
+
+ALTER TABLE coupon_usage
+    ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES employee_coupons(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_coupon_usage_coupon_user ON coupon_usage(coupon_id, user_id)
+    WHERE subscription_id IS NOT NULL;
+
+COMMENT ON COLUMN employee_coupons.employee_id IS 'Referring employee; NULL for marketing campaign codes';
+COMMENT ON COLUMN coupon_usage.employee_id IS 'Employee who owns the coupon (NULL for campaign codes like TALK3)';
+
+-- TALK3 keeps its previous behaviour: 100% off, no caps, no commission
+INSERT INTO employee_coupons (employee_id, code, description, discount_type, discount_percent, is_active)
+VALUES (NULL, 'TALK3', 'Marketing code: free letter', 'percent', 100, true)
+ON CONFLICT (code) DO NOTHING;
+
+-- The return type changes, so the old signature has to be dropped first
+DROP FUNCTION IF EXISTS public.validate_coupon(TEXT);
+
+-- Validate a code for a subscriber and plan. Signed-in callers are always
+-- checked as themselves; the service role passes p_user_id explicitly.
+-- Redemptions count completed purchases (usage rows linked to a subscription).
+CREATE OR REPLACE FUNCTION public.validate_coupon(
+    coupon_code TEXT,
+    p_plan_type TEXT DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    is_valid BOOLEAN,
+    coupon_id UUID,
+    code TEXT,
+    discount_type TEXT,
+    discount_percent INTEGER,
+    discount_amount NUMERIC,
+    employee_id UUID,
+    message TEXT
+) AS $$
+DECLARE
+    c RECORD;
+    v_user_id UUID := COALESCE(auth.uid(), p_user_id);
+    v_user_redemptions INTEGER;
+BEGIN
+    SELECT * INTO c
+    FROM public.employee_coupons ec
+    WHERE UPPER(ec.code) = UPPER(TRIM(coupon_code))
+      AND ec.is_active = true;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TEXT, 0, NULL::NUMERIC, NULL::UUID, 'Invalid coupon code'::TEXT;
+        RETURN;
+    END IF;
+
+    IF c.starts_at IS NOT NULL AND c.starts_at > NOW() THEN
+        RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon is not active yet'::TEXT;
+        RETURN;
+    END IF;
+
+    IF c.expires_at IS NOT NULL AND c.expires_at <= NOW() THEN
+        RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon has expired'::TEXT;
+        RETURN;
+    END IF;
+
+    IF c.max_redemptions IS NOT NULL AND COALESCE(c.usage_count, 0) >= c.max_redemptions THEN
+        RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon has reached its redemption limit'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_plan_type IS NOT NULL
+       AND c.allowed_plans IS NOT NULL
+       AND cardinality(c.allowed_plans) > 0
+       AND NOT (p_plan_type = ANY(c.allowed_plans)) THEN
+        RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon does not apply to the selected plan'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_user_id IS NOT NULL THEN
+        IF c.max_redemptions_per_user IS NOT NULL THEN
+            SELECT COUNT(*) INTO v_user_redemptions
+            FROM public.coupon_usage cu
+            WHERE cu.user_id = v_user_id
+              AND cu.subscription_id IS NOT NULL
+              AND (cu.coupon_id = c.id OR (cu.coupon_id IS NULL AND UPPER(cu.coupon_code) = UPPER(c.code)));
+
+            IF v_user_redemptions >= c.max_redemptions_per_user THEN
+                RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'You have already used this coupon'::TEXT;
+                RETURN;
+            END IF;
+        END IF;
+
+        IF c.first_purchase_only AND EXISTS (
+            SELECT 1 FROM public.subscriptions s
+            WHERE s.user_id = v_user_id
+              AND s.status::TEXT <> 'pending'
+        ) THEN
+            RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon is only valid on your first purchase'::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY SELECT
+        true,
+        c.id,
+        c.code,
+        c.discount_type,
+        COALESCE(c.discount_percent, 0),
+        c.discount_amount,
+        c.employee_id,
+        'Coupon valid'::TEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.validate_coupon TO authenticated;
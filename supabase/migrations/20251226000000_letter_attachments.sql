@@ -0,0 +1,76 @@
+/*
+  # Letter Attachments
+
+  1. New Tables
+    - `letter_attachments` - Evidence a subscriber attaches to a letter (invoices,
+      contracts, photos, screenshots). Attachments are lettered as exhibits in
+      upload order when the letter is emailed or exported.
+      - `id` (uuid, primary key)
+      - `letter_id` (uuid, references letters)
+      - `user_id` (uuid, references profiles) - the uploading subscriber
+      - `file_name` (text) - sanitized original file name
+      - `content_type` (text)
+      - `size_bytes` (integer)
+      - `storage_path` (text) - object path in the `letter-attachments` bucket
+      - `created_at` (timestamptz)
+
+  2. Storage
+    - Private `letter-attachments` bucket with a 10 MB object limit and the
+      accepted evidence types. Objects are only read and written by the API
+      with the service role; clients download through short-lived signed URLs.
+
+  3. Security
+    - RLS enabled
+    - Subscribers can read attachments on their own letters
+    - Admins can read all attachments
+    - Writes happen through the service role only, after the API checks access
+*/
+
+CREATE TABLE IF NOT EXISTS letter_attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    letter_id UUID NOT NULL REFERENCES letters(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 255),
+    content_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+    storage_path TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_attachments_letter ON letter_attachments(letter_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_letter_attachments_user ON letter_attachments(user_id);
+
+ALTER TABLE letter_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view attachments on own letters"
+    ON letter_attachments FOR SELECT
+    TO authenticated
+    USING (
+        letter_id IN (
+            SELECT id FROM public.letters WHERE user_id = (SELECT auth.uid())
+        )
+    );
+
+CREATE POLICY "Admins view all letter attachments"
+    ON letter_attachments FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'letter-attachments',
+    'letter-attachments',
+    false,
+    10485760,
+    ARRAY[
+        'application/pdf',
+        'image/jpeg',
+        'image/png',
+        'image/webp',
+        'text/plain',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE letter_attachments IS 'Evidence files attached to letters; stored in the letter-attachments bucket';
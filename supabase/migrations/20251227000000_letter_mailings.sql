@@ -0,0 +1,114 @@
+/*
+  # Letter Mailings
+
+  1. New Tables
+    - `letter_mailings` - A physical mailing of an approved letter through a
+      mail provider, with proof of delivery for certified methods
+      - `id` (uuid, primary key)
+      - `letter_id` (uuid, references letters)
+      - `user_id` (uuid, references profiles) - subscriber who requested it
+      - `provider` (text) - mail provider that accepted the piece
+      - `method` (text: first_class, certified, certified_return_receipt, priority)
+      - `status` (text) - latest delivery status
+      - `provider_reference` (text) - the provider's id for the piece
+      - `tracking_number` (text)
+      - `recipient_name` (text)
+      - `recipient_address` (jsonb) - line1, line2, city, state, postal_code
+      - `cost` (numeric) - postage charged by the provider, in USD
+      - `expected_delivery_date` (date)
+      - `delivered_at` (timestamptz)
+      - `last_tracked_at` (timestamptz) - last time tracking was refreshed
+      - `error_message` (text)
+      - timestamps
+    - `letter_mailing_events` - Tracking events reported by the provider
+      - `id` (uuid, primary key)
+      - `mailing_id` (uuid, references letter_mailings)
+      - `status` (text)
+      - `description` (text)
+      - `location` (text)
+      - `occurred_at` (timestamptz)
+
+  2. Security
+    - RLS enabled on both tables
+    - Subscribers can read mailings of their own letters
+    - Admins can read all mailings
+    - Writes happen through the service role only
+*/
+
+CREATE TABLE IF NOT EXISTS letter_mailings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    letter_id UUID NOT NULL REFERENCES letters(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    provider TEXT NOT NULL,
+    method TEXT NOT NULL CHECK (method IN ('first_class', 'certified', 'certified_return_receipt', 'priority')),
+    status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN (
+        'submitted', 'accepted', 'in_transit', 'out_for_delivery', 'delivered', 'returned', 'failed'
+    )),
+    provider_reference TEXT,
+    tracking_number TEXT,
+    recipient_name TEXT NOT NULL,
+    recipient_address JSONB NOT NULL,
+    cost NUMERIC(10,2),
+    expected_delivery_date DATE,
+    delivered_at TIMESTAMPTZ,
+    last_tracked_at TIMESTAMPTZ,
+    error_message TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_mailings_letter ON letter_mailings(letter_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_letter_mailings_active ON letter_mailings(last_tracked_at)
+    WHERE status NOT IN ('delivered', 'returned', 'failed');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_letter_mailings_provider_reference
+    ON letter_mailings(provider, provider_reference)
+    WHERE provider_reference IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS letter_mailing_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    mailing_id UUID NOT NULL REFERENCES letter_mailings(id) ON DELETE CASCADE,
+    status TEXT NOT NULL,
+    description TEXT NOT NULL,
+    location TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (mailing_id, status, occurred_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_mailing_events_mailing ON letter_mailing_events(mailing_id, occurred_at);
+
+ALTER TABLE letter_mailings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE letter_mailing_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view mailings of own letters"
+    ON letter_mailings FOR SELECT
+    TO authenticated
+    USING (
+        letter_id IN (
+            SELECT id FROM public.letters WHERE user_id = (SELECT auth.uid())
+        )
+    );
+
+CREATE POLICY "Admins view all letter mailings"
+    ON letter_mailings FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+CREATE POLICY "Users view tracking of own mailings"
+    ON letter_mailing_events FOR SELECT
+    TO authenticated
+    USING (
+        mailing_id IN (
+            SELECT m.id FROM public.letter_mailings m
+            JOIN public.letters l ON l.id = m.letter_id
+            WHERE l.user_id = (SELECT auth.uid())
+        )
+    );
+
+CREATE POLICY "Admins view all mailing tracking"
+    ON letter_mailing_events FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+COMMENT ON TABLE letter_mailings IS 'Physical mailings of approved letters with tracking for proof of delivery';
+COMMENT ON TABLE letter_mailing_events IS 'Delivery tracking events reported by the mail provider';
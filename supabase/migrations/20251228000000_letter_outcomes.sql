@@ -0,0 +1,75 @@
+/*
+  # Letter Outcomes and Follow-ups
+
+  1. Changes to `letters`
+    - `parent_letter_id` (uuid, references letters) - the letter this one follows up
+    - `sent_at` (timestamptz) - first time the approved letter went out by email or mail
+    - `response_deadline` (date) - recipient's deadline, taken from the intake
+      `deadlineDate` when the letter is sent
+    - `outcome` (text: responded, paid, ignored, disputed) - latest recorded outcome
+    - `outcome_recorded_at` (timestamptz)
+    - `deadline_reminder_sent_at` (timestamptz) - reminder before the deadline
+    - `deadline_passed_notified_at` (timestamptz) - notice once the deadline passes unresolved
+
+  2. New Tables
+    - `letter_outcomes` - Log of outcomes the subscriber records for a letter
+      - `id` (uuid, primary key)
+      - `letter_id` (uuid, references letters)
+      - `user_id` (uuid, references profiles) - who recorded it
+      - `outcome` (text)
+      - `notes` (text)
+      - `occurred_on` (date) - when the recipient acted, as reported
+      - `created_at` (timestamptz)
+
+  3. Security
+    - RLS enabled on `letter_outcomes`
+    - Subscribers can read outcomes of their own letters
+    - Admins can read all outcomes
+    - Writes happen through the service role only
+*/
+
+ALTER TABLE letters
+    ADD COLUMN IF NOT EXISTS parent_letter_id UUID REFERENCES letters(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS response_deadline DATE,
+    ADD COLUMN IF NOT EXISTS outcome TEXT CHECK (outcome IN ('responded', 'paid', 'ignored', 'disputed')),
+    ADD COLUMN IF NOT EXISTS outcome_recorded_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deadline_reminder_sent_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deadline_passed_notified_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_letters_parent ON letters(parent_letter_id)
+    WHERE parent_letter_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_letters_response_deadline ON letters(response_deadline)
+    WHERE response_deadline IS NOT NULL AND sent_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS letter_outcomes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    letter_id UUID NOT NULL REFERENCES letters(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('responded', 'paid', 'ignored', 'disputed')),
+    notes TEXT CHECK (char_length(notes) <= 2000),
+    occurred_on DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_outcomes_letter ON letter_outcomes(letter_id, created_at DESC);
+
+ALTER TABLE letter_outcomes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view outcomes of own letters"
+    ON letter_outcomes FOR SELECT
+    TO authenticated
+    USING (
+        letter_id IN (
+            SELECT id FROM public.letters WHERE user_id = (SELECT auth.uid())
+        )
+    );
+
+CREATE POLICY "Admins view all letter outcomes"
+    ON letter_outcomes FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+COMMENT ON COLUMN letters.parent_letter_id IS 'Original letter when this one is a follow-up; letters sharing a root form a case thread';
+COMMENT ON COLUMN letters.response_deadline IS 'Recipient response deadline, set from the intake deadline when the letter is sent';
+COMMENT ON TABLE letter_outcomes IS 'Recipient outcomes recorded by the subscriber after a letter is sent';
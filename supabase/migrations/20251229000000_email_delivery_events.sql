@@ -0,0 +1,87 @@
+/*
+  # Email Delivery Events
+
+  1. Changes to `email_delivery_log`
+    - Rows now record provider webhook events as well as send attempts; each
+      event for a message is its own row
+    - `status` also accepts delivered, deferred, complained, opened and clicked
+    - `provider_message_id` (text) - the provider's id for the sent message,
+      used to match webhook events to the send
+    - `provider_event_id` (text) - the provider's id for a webhook event, so
+      redelivered events are stored once
+    - `letter_id` (uuid, references letters) - letter the email carried
+    - `bounce_type` (text: hard, soft)
+    - `url` (text) - link followed, for click events
+    - `occurred_at` (timestamptz) - when the provider saw the event
+    - `subject` may be empty for events whose send was not logged
+
+  2. New Tables
+    - `email_suppressions` - Addresses no email is sent to
+      - `email` (text, primary key, lower case)
+      - `reason` (text: hard_bounce, complaint, manual)
+      - `provider` (text) - provider that reported it
+      - `details` (text) - bounce or complaint message from the provider
+      - `created_at` (timestamptz)
+
+  3. Security
+    - RLS enabled on `email_suppressions`, service role only
+    - Subscribers can read delivery events for emails of their own letters
+    - Admins can read all delivery events
+*/
+
+ALTER TABLE public.email_delivery_log
+    DROP CONSTRAINT IF EXISTS email_delivery_log_status_check;
+
+ALTER TABLE public.email_delivery_log
+    ADD CONSTRAINT email_delivery_log_status_check CHECK (status IN (
+        'sent', 'failed', 'delivered', 'deferred', 'bounced', 'complained', 'opened', 'clicked'
+    )),
+    ALTER COLUMN subject SET DEFAULT '',
+    ADD COLUMN IF NOT EXISTS provider_message_id TEXT,
+    ADD COLUMN IF NOT EXISTS provider_event_id TEXT,
+    ADD COLUMN IF NOT EXISTS letter_id UUID REFERENCES public.letters(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS bounce_type TEXT CHECK (bounce_type IN ('hard', 'soft')),
+    ADD COLUMN IF NOT EXISTS url TEXT,
+    ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_email_delivery_log_message
+    ON public.email_delivery_log(provider, provider_message_id)
+    WHERE provider_message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_delivery_log_letter
+    ON public.email_delivery_log(letter_id, occurred_at)
+    WHERE letter_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_delivery_log_event
+    ON public.email_delivery_log(provider, provider_event_id)
+    WHERE provider_event_id IS NOT NULL;
+
+CREATE POLICY "Users view email delivery of own letters"
+    ON public.email_delivery_log FOR SELECT
+    TO authenticated
+    USING (
+        letter_id IN (
+            SELECT id FROM public.letters WHERE user_id = (SELECT auth.uid())
+        )
+    );
+
+CREATE POLICY "Admins view all email delivery"
+    ON public.email_delivery_log FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+    email TEXT PRIMARY KEY CHECK (email = lower(email)),
+    reason TEXT NOT NULL CHECK (reason IN ('hard_bounce', 'complaint', 'manual')),
+    provider TEXT,
+    details TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage email suppressions" ON public.email_suppressions
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON public.email_suppressions TO service_role;
+
+COMMENT ON TABLE public.email_delivery_log IS 'Email send attempts and provider delivery events (delivered, bounced, opened, clicked)';
+COMMENT ON TABLE public.email_suppressions IS 'Addresses that hard bounced or complained; sends to them are skipped';
@@ -0,0 +1,16 @@
+/*
+  # Email Queue Provider
+
+  1. Changes to `email_queue`
+    - `provider` (text) - provider that sent the email; with failover this may
+      differ from EMAIL_PROVIDER
+
+  2. Security
+    - No changes; the queue stays service role only
+*/
+
+ALTER TABLE public.email_queue
+  ADD COLUMN IF NOT EXISTS provider TEXT
+    CHECK (provider IS NULL OR provider IN ('sendgrid', 'brevo', 'resend', 'smtp', 'console'));
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_provider ON public.email_queue(provider) WHERE status = 'sent';
@@ -0,0 +1,94 @@
+/*
+  # Email Templates
+
+  1. New Tables
+    - `email_templates` - Admin-edited versions of the transactional emails.
+      Each save adds a version; at most one version per template and locale
+      is published. Templates without a published version use the built-in
+      copy in lib/email/templates.ts.
+      - `id` (uuid, primary key)
+      - `template_key` (text) - EmailTemplate name, e.g. letter-approved
+      - `locale` (text) - two-letter language code
+      - `version` (integer) - increments per template and locale
+      - `subject`, `text_body` (text) - with {{variable}} placeholders
+      - `html_body` (text) - inner HTML inside the branded layout; generated
+        from the text body when null
+      - `notes` (text) - what changed
+      - `is_active` (boolean) - the published version
+      - `created_by` (text) - admin who saved the version
+      - `published_at`, `created_at` (timestamptz)
+
+  2. Changes to `profiles`
+    - `locale` (text, default en) - language for emails to the user
+
+  3. Security
+    - RLS enabled on `email_templates`; admins can read, writes go through
+      the service role
+    - `set_email_template_active()` is service role only
+
+  4. Functions
+    - `set_email_template_active()` - Publish or unpublish a version,
+      unpublishing the previously published one in the same transaction
+*/
+
+CREATE TABLE IF NOT EXISTS email_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_key TEXT NOT NULL CHECK (template_key ~ '^[a-z][a-z-]*$'),
+    locale TEXT NOT NULL DEFAULT 'en' CHECK (locale ~ '^[a-z]{2}$'),
+    version INTEGER NOT NULL CHECK (version > 0),
+    subject TEXT NOT NULL CHECK (char_length(subject) BETWEEN 1 AND 200),
+    text_body TEXT NOT NULL,
+    html_body TEXT,
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    created_by TEXT,
+    published_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (template_key, locale, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_templates_published
+    ON email_templates(template_key, locale) WHERE is_active = true;
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins view email templates"
+    ON email_templates FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en' CHECK (locale ~ '^[a-z]{2}$');
+
+CREATE OR REPLACE FUNCTION public.set_email_template_active(p_id UUID, p_active BOOLEAN)
+RETURNS SETOF public.email_templates AS $$
+DECLARE
+    v_template public.email_templates;
+BEGIN
+    SELECT * INTO v_template FROM public.email_templates WHERE id = p_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF p_active THEN
+        UPDATE public.email_templates
+        SET is_active = false
+        WHERE template_key = v_template.template_key
+          AND locale = v_template.locale
+          AND is_active = true
+          AND id <> p_id;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.email_templates
+    SET is_active = p_active,
+        published_at = CASE WHEN p_active THEN NOW() ELSE published_at END
+    WHERE id = p_id
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_email_template_active FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_email_template_active TO service_role;
+
+COMMENT ON TABLE email_templates IS 'Versioned, admin-edited email copy; published versions override lib/email/templates.ts';
@@ -0,0 +1,42 @@
+/*
+  # Scheduled Emails and Unsubscribes
+
+  1. Changes to `email_queue`
+    - `next_retry_at` now also holds the time a scheduled email is due
+    - `category` (text) - email category the recipient can unsubscribe from
+    - `dedupe_key` (text, unique) - identifies a scheduled email, e.g. one
+      renewal reminder per billing period, so re-running a job queues it once
+    - `status` adds `skipped` for email every recipient unsubscribed from
+
+  2. New Tables
+    - `email_unsubscribes` - Categories an address no longer receives
+      - `email` (text) - lowercased address
+      - `category` (text) - one of the optional email categories
+      - `source` (text) - `link` from an email or `settings` from the app
+      - `created_at` (timestamptz)
+
+  3. Security
+    - RLS enabled on `email_unsubscribes` with no policies; reads and writes
+      go through the service role
+*/
+
+ALTER TABLE public.email_queue
+  ADD COLUMN IF NOT EXISTS category TEXT,
+  ADD COLUMN IF NOT EXISTS dedupe_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_queue_dedupe_key
+  ON public.email_queue(dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+ALTER TABLE public.email_queue DROP CONSTRAINT IF EXISTS email_queue_status_check;
+ALTER TABLE public.email_queue
+  ADD CONSTRAINT email_queue_status_check CHECK (status IN ('pending', 'sent', 'failed', 'skipped'));
+
+CREATE TABLE IF NOT EXISTS email_unsubscribes (
+    email TEXT NOT NULL CHECK (email = lower(email)),
+    category TEXT NOT NULL CHECK (category IN ('letters', 'reminders', 'commissions', 'digest', 'announcements')),
+    source TEXT NOT NULL DEFAULT 'link' CHECK (source IN ('link', 'settings')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (email, category)
+);
+
+ALTER TABLE email_unsubscribes ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,75 @@
+/*
+  # Email Queue Claiming and Dead Letters
+
+  1. Changes to `email_queue`
+    - `status` adds `processing` for rows a worker has claimed and `dead` for
+      rows that will not be retried; existing `failed` rows become `dead`
+    - `locked_by` (text) - worker that claimed the row
+    - `locked_until` (timestamptz) - end of the claim's lease; a row whose
+      lease has run out is claimed again by the next run
+    - `dead_lettered_at` (timestamptz) - when the row was given up on
+
+  2. Security
+    - No changes; the queue stays service role only
+    - `claim_email_queue_batch()` is service role only
+
+  3. Functions
+    - `claim_email_queue_batch()` - Atomically claims due rows for one
+      worker, skipping rows another worker holds, so overlapping cron runs
+      never send the same email twice
+*/
+
+ALTER TABLE public.email_queue
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+ALTER TABLE public.email_queue DROP CONSTRAINT IF EXISTS email_queue_status_check;
+
+UPDATE public.email_queue
+SET status = 'dead',
+    dead_lettered_at = COALESCE(updated_at, NOW())
+WHERE status = 'failed';
+
+ALTER TABLE public.email_queue
+  ADD CONSTRAINT email_queue_status_check CHECK (status IN ('pending', 'processing', 'sent', 'skipped', 'dead'));
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_lease
+  ON public.email_queue(locked_until) WHERE status = 'processing';
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_dead
+  ON public.email_queue(dead_lettered_at DESC) WHERE status = 'dead';
+
+-- Claim up to p_limit due rows for p_worker: pending rows whose send time
+-- has come, and claimed rows whose lease expired because their worker died
+CREATE OR REPLACE FUNCTION public.claim_email_queue_batch(
+    p_worker TEXT,
+    p_limit INTEGER DEFAULT 10,
+    p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF email_queue AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.email_queue AS q
+    SET status = 'processing',
+        -- A lapsed lease counts as an attempt, so a row that keeps crashing
+        -- its worker is eventually dead-lettered
+        attempts = q.attempts + CASE WHEN q.status = 'processing' THEN 1 ELSE 0 END,
+        locked_by = p_worker,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        updated_at = NOW()
+    WHERE q.id IN (
+        SELECT id
+        FROM public.email_queue
+        WHERE (status = 'pending' AND COALESCE(next_retry_at, created_at) <= NOW())
+           OR (status = 'processing' AND locked_until < NOW())
+        ORDER BY COALESCE(next_retry_at, created_at)
+        LIMIT GREATEST(p_limit, 0)
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_queue_batch FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_queue_batch TO service_role;
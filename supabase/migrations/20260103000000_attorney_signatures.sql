@@ -0,0 +1,70 @@
+/*
+  # Attorney Signatures
+
+  1. Changes to `profiles`
+    - `is_licensed_attorney` (boolean) - reviewer is a licensed attorney;
+      previously only added by scripts/019
+    - `bar_number` (text) - bar admission number printed under the signature
+    - `bar_state` (text) - state of admission, e.g. `CA`
+    - `firm_name` (text) - firm printed in the signature block
+    - `attorney_title` (text) - e.g. `Attorney at Law`
+    - `signature_path` (text) - object path in the `attorney-signatures` bucket
+
+  2. Storage
+    - Private `attorney-signatures` bucket holding PNG or JPEG signature
+      images up to 1 MB. Only the API reads and writes it, with the service
+      role, when rendering a reviewed letter.
+
+  3. Security
+    - Users can still update their own profile, but only an admin or the
+      service role can change attorney credentials, so a subscriber cannot
+      mark themselves as a licensed attorney
+*/
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS is_licensed_attorney BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS bar_number TEXT CHECK (char_length(bar_number) <= 50),
+  ADD COLUMN IF NOT EXISTS bar_state TEXT CHECK (char_length(bar_state) <= 50),
+  ADD COLUMN IF NOT EXISTS firm_name TEXT CHECK (char_length(firm_name) <= 200),
+  ADD COLUMN IF NOT EXISTS attorney_title TEXT CHECK (char_length(attorney_title) <= 100),
+  ADD COLUMN IF NOT EXISTS signature_path TEXT;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'attorney-signatures',
+    'attorney-signatures',
+    false,
+    1048576,
+    ARRAY['image/png', 'image/jpeg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.protect_attorney_credentials()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (
+        NEW.is_licensed_attorney IS DISTINCT FROM OLD.is_licensed_attorney
+        OR NEW.bar_number IS DISTINCT FROM OLD.bar_number
+        OR NEW.bar_state IS DISTINCT FROM OLD.bar_state
+        OR NEW.firm_name IS DISTINCT FROM OLD.firm_name
+        OR NEW.attorney_title IS DISTINCT FROM OLD.attorney_title
+        OR NEW.signature_path IS DISTINCT FROM OLD.signature_path
+    )
+    AND COALESCE(auth.role(), 'service_role') <> 'service_role'
+    AND public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only an admin can change attorney credentials';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_attorney_credentials_trigger ON public.profiles;
+
+CREATE TRIGGER protect_attorney_credentials_trigger
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_attorney_credentials();
+
+COMMENT ON COLUMN public.profiles.is_licensed_attorney IS 'Indicates if the user is a licensed attorney maintained by admin';
+COMMENT ON COLUMN public.profiles.signature_path IS 'Signature image in the attorney-signatures bucket, drawn on letters this attorney reviews';
@@ -0,0 +1,15 @@
+/*
+  # Reviewer Role
+
+  1. Changes
+    - `user_role` gains `reviewer`: an attorney who reviews the letters
+      assigned to them through the admin portal's review center. The single
+      super-admin (`one_admin_only`) is unchanged.
+
+  2. Notes
+    - Kept in its own migration because a new enum value cannot be used in
+      the transaction that adds it; the assignment policies that compare
+      against `reviewer` follow in the next migration
+*/
+
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'reviewer';
@@ -0,0 +1,104 @@
+/*
+  # Review Assignments
+
+  1. Changes to `letters`
+    - `assigned_to` (uuid, references profiles) - reviewer responsible for
+      the letter; set by auto-assignment when the letter enters review, by a
+      reviewer claiming it, or by an admin reassigning it
+    - `assigned_at` (timestamptz) - when the current assignment was made
+
+  2. Changes to `profiles`
+    - `review_available` (boolean) - reviewer takes new assignments;
+      marking a reviewer unavailable hands their open letters to others
+    - `review_capacity` (integer) - most open letters a reviewer is
+      auto-assigned at once; null for no limit
+    - `review_last_assigned_at` (timestamptz) - last time the reviewer was
+      given a letter; round-robin assignment picks the longest-waiting one
+
+  3. Security
+    - Reviewers can read and update only letters assigned to them
+    - Reviewers can read the audit trail of their assigned letters and the
+      profiles of those letters' subscribers
+    - Only an admin or the service role can change a profile's role, so a
+      user cannot promote themselves to reviewer
+*/
+
+ALTER TABLE public.letters
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_letters_assigned_open
+  ON public.letters(assigned_to, status)
+  WHERE status IN ('pending_review', 'under_review');
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS review_available BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS review_capacity INTEGER CHECK (review_capacity IS NULL OR review_capacity > 0),
+  ADD COLUMN IF NOT EXISTS review_last_assigned_at TIMESTAMPTZ;
+
+CREATE POLICY "Reviewers view assigned letters"
+    ON public.letters FOR SELECT
+    TO authenticated
+    USING (
+        assigned_to = (SELECT auth.uid()) AND
+        public.get_user_role() = 'reviewer'
+    );
+
+CREATE POLICY "Reviewers update assigned letters"
+    ON public.letters FOR UPDATE
+    TO authenticated
+    USING (
+        assigned_to = (SELECT auth.uid()) AND
+        public.get_user_role() = 'reviewer'
+    )
+    WITH CHECK (
+        assigned_to = (SELECT auth.uid()) AND
+        public.get_user_role() = 'reviewer'
+    );
+
+CREATE POLICY "Reviewers view assigned letter audit"
+    ON public.letter_audit_trail FOR SELECT
+    TO authenticated
+    USING (
+        public.get_user_role() = 'reviewer' AND
+        EXISTS (
+            SELECT 1 FROM public.letters
+            WHERE letters.id = letter_audit_trail.letter_id
+            AND letters.assigned_to = (SELECT auth.uid())
+        )
+    );
+
+CREATE POLICY "Reviewers view subscribers of assigned letters"
+    ON public.profiles FOR SELECT
+    TO authenticated
+    USING (
+        public.get_user_role() = 'reviewer' AND
+        EXISTS (
+            SELECT 1 FROM public.letters
+            WHERE letters.user_id = profiles.id
+            AND letters.assigned_to = (SELECT auth.uid())
+        )
+    );
+
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role
+    AND COALESCE(auth.role(), 'service_role') <> 'service_role'
+    AND public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only an admin can change a user''s role';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profile_role_trigger ON public.profiles;
+
+CREATE TRIGGER protect_profile_role_trigger
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_profile_role();
+
+COMMENT ON COLUMN public.letters.assigned_to IS 'Reviewer responsible for the letter while it is in review';
+COMMENT ON COLUMN public.profiles.review_available IS 'Reviewer accepts new letter assignments';
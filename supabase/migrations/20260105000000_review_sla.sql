@@ -0,0 +1,84 @@
+/*
+  # Review SLAs
+
+  1. Changes to `plans`
+    - `review_sla_hours` (integer) - attorney review target for letters from
+      subscribers on the plan; null uses the default target. Letter types
+      can set a tighter target in lib/validation/letter-types.ts.
+
+  2. Functions
+    - `get_letter_statistics()` also reports the median and 90th percentile
+      review turnaround. Turnaround runs from the audit trail entry that last
+      moved a letter into `pending_review` to the entry that approved or
+      rejected it, so resubmissions and requested changes are measured from
+      when they re-entered the queue.
+
+  3. Indexes
+    - `letter_audit_trail(letter_id, new_status, created_at)` for finding
+      when each letter entered review
+*/
+
+ALTER TABLE public.plans
+  ADD COLUMN IF NOT EXISTS review_sla_hours INTEGER CHECK (review_sla_hours IS NULL OR review_sla_hours BETWEEN 1 AND 720);
+
+CREATE INDEX IF NOT EXISTS idx_audit_letter_status_time
+  ON public.letter_audit_trail(letter_id, new_status, created_at);
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.get_letter_statistics(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_letter_statistics(days_back INTEGER DEFAULT 30)
+RETURNS TABLE(
+    total_letters INTEGER,
+    pending_count INTEGER,
+    approved_count INTEGER,
+    rejected_count INTEGER,
+    failed_count INTEGER,
+    avg_review_time_hours NUMERIC,
+    median_review_time_hours NUMERIC,
+    p90_review_time_hours NUMERIC
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH decisions AS (
+        SELECT
+            decided.created_at AS decided_at,
+            (
+                SELECT MAX(entered.created_at)
+                FROM public.letter_audit_trail entered
+                WHERE entered.letter_id = decided.letter_id
+                AND entered.new_status = 'pending_review'
+                AND entered.created_at <= decided.created_at
+            ) AS entered_at
+        FROM public.letter_audit_trail decided
+        WHERE decided.new_status IN ('approved', 'rejected')
+        AND decided.created_at > NOW() - (days_back || ' days')::INTERVAL
+    ),
+    turnaround AS (
+        SELECT EXTRACT(EPOCH FROM (decided_at - entered_at)) / 3600 AS hours
+        FROM decisions
+        WHERE entered_at IS NOT NULL
+    )
+    SELECT
+        (SELECT COUNT(*)::INTEGER FROM public.letters WHERE created_at > NOW() - (days_back || ' days')::INTERVAL)::INTEGER,
+        (SELECT COUNT(*)::INTEGER FROM public.letters WHERE status IN ('pending_review', 'under_review') AND created_at > NOW() - (days_back || ' days')::INTERVAL)::INTEGER,
+        (SELECT COUNT(*)::INTEGER FROM public.letters WHERE status = 'approved' AND created_at > NOW() - (days_back || ' days')::INTERVAL)::INTEGER,
+        (SELECT COUNT(*)::INTEGER FROM public.letters WHERE status = 'rejected' AND created_at > NOW() - (days_back || ' days')::INTERVAL)::INTEGER,
+        (SELECT COUNT(*)::INTEGER FROM public.letters WHERE status = 'failed' AND created_at > NOW() - (days_back || ' days')::INTERVAL)::INTEGER,
+        COALESCE((
+            SELECT AVG(EXTRACT(EPOCH FROM (approved_at - created_at)) / 3600)::NUMERIC(10,2)
+            FROM public.letters
+            WHERE status = 'approved'
+            AND approved_at IS NOT NULL
+            AND created_at > NOW() - (days_back || ' days')::INTERVAL
+        ), 0)::NUMERIC,
+        COALESCE((
+            SELECT (percentile_cont(0.5) WITHIN GROUP (ORDER BY hours))::NUMERIC(10,2)
+            FROM turnaround
+        ), 0)::NUMERIC,
+        COALESCE((
+            SELECT (percentile_cont(0.9) WITHIN GROUP (ORDER BY hours))::NUMERIC(10,2)
+            FROM turnaround
+        ), 0)::NUMERIC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
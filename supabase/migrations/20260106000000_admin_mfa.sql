@@ -0,0 +1,53 @@
+/*
+  # Admin Portal MFA
+
+  Admin portal users (admins and reviewers) sign in with their own Supabase
+  account password and a TOTP second factor instead of shared credentials.
+
+  1. New Tables
+    - `admin_mfa_factors` - one authenticator per portal user
+      - `secret` (text) - base32 TOTP shared secret
+      - `verified_at` (timestamptz) - set once the user proves the
+        authenticator works; null while enrollment is pending
+      - `last_used_step` (bigint) - time step of the last accepted code, so
+        a code can't be replayed within its validity window
+    - `admin_recovery_codes` - single-use codes for signing in without the
+      authenticator, stored as SHA-256 hashes
+      - `used_at` (timestamptz) - set when the code is spent
+
+  2. Security
+    - RLS enabled with no policies: only the service role reads or writes
+      these tables, so secrets never reach a browser session
+
+  3. Indexes
+    - `security_audit_log(event_type, created_at)` for the admin login
+      history
+*/
+
+CREATE TABLE IF NOT EXISTS public.admin_mfa_factors (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  verified_at TIMESTAMPTZ,
+  last_used_step BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.admin_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_recovery_codes_user
+  ON public.admin_recovery_codes(user_id)
+  WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_event_time
+  ON public.security_audit_log(event_type, created_at DESC);
+
+ALTER TABLE public.admin_mfa_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_recovery_codes ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,45 @@
+/*
+  # Server-side Admin Sessions
+
+  The admin_session cookie now carries only a signed random token; the
+  session itself is stored here, so sessions can be listed and revoked.
+
+  1. New Tables
+    - `admin_sessions`
+      - `token_hash` (text) - SHA-256 of the cookie token; the token itself
+        is never stored
+      - `ip_address`, `user_agent` (text) - where the login came from
+      - `last_activity_at` (timestamptz) - sessions idle for 30 minutes
+        are no longer accepted
+      - `expires_at` (timestamptz) - absolute end of the session
+      - `revoked_at`, `revoked_reason` - set on logout, revocation from the
+        sessions page, "sign out everywhere" or an MFA reset
+
+  2. Security
+    - RLS enabled with no policies: only the service role reads or writes
+      sessions
+*/
+
+CREATE TABLE IF NOT EXISTS public.admin_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_activity_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_reason TEXT CHECK (revoked_reason IN ('logout', 'revoked', 'sign_out_everywhere', 'mfa_reset'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_user_active
+  ON public.admin_sessions(user_id)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_active_activity
+  ON public.admin_sessions(last_activity_at DESC)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE public.admin_sessions ENABLE ROW LEVEL SECURITY;
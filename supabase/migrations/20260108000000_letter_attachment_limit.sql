@@ -0,0 +1,36 @@
+/*
+  # Letter Attachment Limit
+
+  1. Changes to `letter_attachments`
+    - A letter holds at most 10 attachments. The API checks the count before
+      uploading, but parallel uploads could all pass that check; this trigger
+      locks the letter row while counting so concurrent inserts queue up and
+      the eleventh is refused with a check_violation.
+*/
+
+CREATE OR REPLACE FUNCTION public.enforce_letter_attachment_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+    attachment_count INTEGER;
+BEGIN
+    PERFORM 1 FROM public.letters WHERE id = NEW.letter_id FOR UPDATE;
+
+    SELECT COUNT(*) INTO attachment_count
+    FROM public.letter_attachments
+    WHERE letter_id = NEW.letter_id;
+
+    IF attachment_count >= 10 THEN
+        RAISE EXCEPTION 'A letter can have at most 10 attachments'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_letter_attachment_limit_trigger ON public.letter_attachments;
+
+CREATE TRIGGER enforce_letter_attachment_limit_trigger
+    BEFORE INSERT ON public.letter_attachments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_letter_attachment_limit();
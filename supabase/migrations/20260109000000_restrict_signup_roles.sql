@@ -0,0 +1,64 @@
+/*
+  # Restrict Signup Roles
+
+  1. Changes
+    - `handle_new_user()` only takes `subscriber` or `employee` from the
+      signup metadata; anything else, including `reviewer` and `admin`,
+      creates a subscriber. Previously any role in the client's signUp
+      metadata was copied onto the new profile.
+    - `protect_profile_role()` now also runs on INSERT: a profile can only
+      be created as a reviewer or admin by the service role. Role changes on
+      UPDATE still need an admin or the service role.
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+    user_role_value user_role;
+BEGIN
+    user_role_value := CASE
+        WHEN NEW.raw_user_meta_data->>'role' IN ('subscriber', 'employee')
+            THEN (NEW.raw_user_meta_data->>'role')::user_role
+        ELSE 'subscriber'::user_role
+    END;
+
+    INSERT INTO public.profiles (id, email, full_name, role)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        NEW.raw_user_meta_data->>'full_name',
+        user_role_value
+    );
+    RETURN NEW;
+EXCEPTION
+    WHEN others THEN
+        INSERT INTO public.profiles (id, email, full_name, role)
+        VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name', 'subscriber');
+        RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.role IN ('reviewer', 'admin')
+        AND COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+            RAISE EXCEPTION 'Only the service role can create a % profile', NEW.role;
+        END IF;
+    ELSIF NEW.role IS DISTINCT FROM OLD.role
+    AND COALESCE(auth.role(), 'service_role') <> 'service_role'
+    AND public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only an admin can change a user''s role';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profile_role_trigger ON public.profiles;
+
+CREATE TRIGGER protect_profile_role_trigger
+    BEFORE INSERT OR UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_profile_role();
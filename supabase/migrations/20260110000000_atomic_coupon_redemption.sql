@@ -0,0 +1,204 @@
+/*
+  # Atomic Coupon Redemption
+
+  1. Changes to `subscriptions`
+    - `activated_at` (timestamptz) - when the subscription was paid for or
+      granted. Pending checkouts, failed payments and checkouts that expired
+      into `canceled` leave it NULL. Existing rows are backfilled from their
+      status and Stripe ids.
+
+  2. Functions
+    - `redeem_coupon()` records a redemption in one transaction: it locks the
+      coupon row, re-checks `max_redemptions` and `max_redemptions_per_user`,
+      inserts the `coupon_usage` row and increments `usage_count`. Concurrent
+      checkouts queue on the lock, so the caps can no longer be overrun by
+      requests that all passed `validate_coupon()` before any of them was
+      counted.
+    - `validate_coupon()` only treats subscriptions with `activated_at` set as
+      earlier purchases for `first_purchase_only` coupons.
+*/
+
+ALTER TABLE subscriptions
+    ADD COLUMN IF NOT EXISTS activated_at TIMESTAMPTZ;
+
+UPDATE subscriptions
+SET activated_at = COALESCE(current_period_start, created_at)
+WHERE activated_at IS NULL
+  AND (
+      status::TEXT IN ('active', 'trialing', 'past_due')
+      OR (status::TEXT = 'canceled'
+          AND (stripe_customer_id IS NOT NULL OR stripe_subscription_id IS NOT NULL))
+  );
+
+COMMENT ON COLUMN subscriptions.activated_at IS 'When the subscription was paid for or granted; NULL for checkouts that never completed';
+
+-- Redeem a coupon for a subscription. Signed-in callers always redeem as
+-- themselves, for their own subscription, with the caps enforced. The service
+-- role passes p_enforce_caps = false for checkouts Stripe has already
+-- charged: those were validated when the session was created and are counted
+-- regardless so later redemptions see them.
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+    p_coupon_id UUID,
+    p_subscription_id UUID,
+    p_user_id UUID DEFAULT NULL,
+    p_discount_percent INTEGER DEFAULT 0,
+    p_amount_before NUMERIC DEFAULT NULL,
+    p_amount_after NUMERIC DEFAULT NULL,
+    p_enforce_caps BOOLEAN DEFAULT true
+)
+RETURNS TABLE(redeemed BOOLEAN, message TEXT) AS $$
+DECLARE
+    c RECORD;
+    v_user_id UUID := COALESCE(auth.uid(), p_user_id);
+    v_enforce_caps BOOLEAN := p_enforce_caps OR auth.uid() IS NOT NULL;
+    v_user_redemptions INTEGER;
+BEGIN
+    IF v_user_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.subscriptions s
+        WHERE s.id = p_subscription_id
+          AND s.user_id = v_user_id
+    ) THEN
+        RETURN QUERY SELECT false, 'Subscription not found'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT * INTO c
+    FROM public.employee_coupons ec
+    WHERE ec.id = p_coupon_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 'Invalid coupon code'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_enforce_caps THEN
+        IF c.max_redemptions IS NOT NULL AND COALESCE(c.usage_count, 0) >= c.max_redemptions THEN
+            RETURN QUERY SELECT false, 'This coupon has reached its redemption limit'::TEXT;
+            RETURN;
+        END IF;
+
+        IF c.max_redemptions_per_user IS NOT NULL THEN
+            SELECT COUNT(*) INTO v_user_redemptions
+            FROM public.coupon_usage cu
+            WHERE cu.user_id = v_user_id
+              AND cu.subscription_id IS NOT NULL
+              AND (cu.coupon_id = c.id OR (cu.coupon_id IS NULL AND UPPER(cu.coupon_code) = UPPER(c.code)));
+
+            IF v_user_redemptions >= c.max_redemptions_per_user THEN
+                RETURN QUERY SELECT false, 'You have already used this coupon'::TEXT;
+                RETURN;
+            END IF;
+        END IF;
+    END IF;
+
+    INSERT INTO public.coupon_usage (
+        user_id, coupon_code, coupon_id, employee_id, subscription_id,
+        discount_percent, amount_before, amount_after
+    )
+    VALUES (
+        v_user_id, c.code, c.id, c.employee_id, p_subscription_id,
+        p_discount_percent, p_amount_before, p_amount_after
+    );
+
+    UPDATE public.employee_coupons
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = NOW()
+    WHERE id = c.id;
+
+    RETURN QUERY SELECT true, 'Coupon redeemed'::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.redeem_coupon TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.validate_coupon(
+    coupon_code TEXT,
+    p_plan_type TEXT DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    is_valid BOOLEAN,
+    coupon_id UUID,
+    code TEXT,
+    discount_type TEXT,
+    discount_percent INTEGER,
+    discount_amount NUMERIC,
+    employee_id UUID,
+    message TEXT
+) AS $$
+DECLARE
+    c RECORD;
+    v_user_id UUID := COALESCE(auth.uid(), p_user_id);
+    v_user_redemptions INTEGER;
+BEGIN
+    SELECT * INTO c
+    FROM public.employee_coupons ec
+    WHERE UPPER(ec.code) = UPPER(TRIM(coupon_code))
+      AND ec.is_active = true;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TEXT, 0, NULL::NUMERIC, NULL::UUID, 'Invalid coupon code'::TEXT;
+        RETURN;
+    END IF;
+
+    IF c.starts_at IS NOT NULL AND c.starts_at > NOW() THEN
+        RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon is not active yet'::TEXT;
+        RETURN;
+    END IF;
+
+    IF c.expires_at IS NOT NULL AND c.expires_at <= NOW() THEN
+        RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon has expired'::TEXT;
+        RETURN;
+    END IF;
+
+    IF c.max_redemptions IS NOT NULL AND COALESCE(c.usage_count, 0) >= c.max_redemptions THEN
+        RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon has reached its redemption limit'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_plan_type IS NOT NULL
+       AND c.allowed_plans IS NOT NULL
+       AND cardinality(c.allowed_plans) > 0
+       AND NOT (p_plan_type = ANY(c.allowed_plans)) THEN
+        RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon does not apply to the selected plan'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_user_id IS NOT NULL THEN
+        IF c.max_redemptions_per_user IS NOT NULL THEN
+            SELECT COUNT(*) INTO v_user_redemptions
+            FROM public.coupon_usage cu
+            WHERE cu.user_id = v_user_id
+              AND cu.subscription_id IS NOT NULL
+              AND (cu.coupon_id = c.id OR (cu.coupon_id IS NULL AND UPPER(cu.coupon_code) = UPPER(c.code)));
+
+            IF v_user_redemptions >= c.max_redemptions_per_user THEN
+                RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'You have already used this coupon'::TEXT;
+                RETURN;
+            END IF;
+        END IF;
+
+        IF c.first_purchase_only AND EXISTS (
+            SELECT 1 FROM public.subscriptions s
+            WHERE s.user_id = v_user_id
+              AND s.activated_at IS NOT NULL
+        ) THEN
+            RETURN QUERY SELECT false, c.id, c.code, c.discount_type, 0, NULL::NUMERIC, NULL::UUID, 'This coupon is only valid on your first purchase'::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY SELECT
+        true,
+        c.id,
+        c.code,
+        c.discount_type,
+        COALESCE(c.discount_percent, 0),
+        c.discount_amount,
+        c.employee_id,
+        'Coupon valid'::TEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.validate_coupon TO authenticated;
@@ -0,0 +1,42 @@
+/*
+  # Enqueue Letter Generation
+
+  1. Functions
+    - `enqueue_letter_generation()` - Takes the subscriber's credit and
+      creates the generation job in one transaction. Previously the credit
+      was taken before the letter and job existed, so a request that died in
+      between left a `generating` letter with no job row: the sweeper never
+      saw it and the credit was never refunded. Now a credit is only ever
+      taken together with a job that records it, and a letter without a job
+      has nothing to refund. Returns NULL, creating no job, when no credit
+      is left.
+*/
+
+CREATE OR REPLACE FUNCTION public.enqueue_letter_generation(
+    p_letter_id UUID,
+    p_user_id UUID,
+    p_deduct_allowance BOOLEAN,
+    p_is_free_trial BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+    v_job_id UUID;
+BEGIN
+    IF p_deduct_allowance AND NOT public.deduct_letter_allowance(p_user_id) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.letter_generation_jobs (
+        letter_id, user_id, status, stage, allowance_deducted, is_free_trial
+    )
+    VALUES (
+        p_letter_id, p_user_id, 'queued', 'queued', p_deduct_allowance, p_is_free_trial
+    )
+    RETURNING id INTO v_job_id;
+
+    RETURN v_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_letter_generation FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_letter_generation TO service_role;
@@ -0,0 +1,105 @@
+/**
+ * Admin MFA Tests
+ * Tests TOTP codes and recovery codes for admin portal logins
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isRecoveryCode,
+  totpStep,
+  verifyTotp
+} from '@/lib/auth/totp'
+
+// RFC 6238 SHA-1 test secret, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('Admin MFA', () => {
+  describe('base32', () => {
+    it('round-trips secrets', () => {
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET)
+      expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890')
+      expect(base32Decode('gezd gnbv-gy3t').toString()).toBe('1234567')
+    })
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow()
+    })
+
+    it('generates 160-bit secrets', () => {
+      const secret = generateTotpSecret()
+      expect(secret).toHaveLength(32)
+      expect(base32Decode(secret)).toHaveLength(20)
+    })
+  })
+
+  describe('generateTotp', () => {
+    it('matches the RFC 6238 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, totpStep(new Date(59 * 1000)))).toBe('287082')
+      expect(generateTotp(RFC_SECRET, totpStep(new Date(1111111109 * 1000)))).toBe('081804')
+      expect(generateTotp(RFC_SECRET, totpStep(new Date(1234567890 * 1000)))).toBe('005924')
+    })
+  })
+
+  describe('verifyTotp', () => {
+    const now = new Date(1234567890 * 1000)
+
+    it('accepts the current code and returns its step', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', now)).toBe(totpStep(now))
+      expect(verifyTotp(RFC_SECRET, '005 924', now)).toBe(totpStep(now))
+    })
+
+    it('allows one step of clock drift either way', () => {
+      const previous = generateTotp(RFC_SECRET, totpStep(now) - 1)
+      const next = generateTotp(RFC_SECRET, totpStep(now) + 1)
+
+      expect(verifyTotp(RFC_SECRET, previous, now)).toBe(totpStep(now) - 1)
+      expect(verifyTotp(RFC_SECRET, next, now)).toBe(totpStep(now) + 1)
+    })
+
+    it('rejects stale, wrong and malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, totpStep(now) - 3), now)).toBeNull()
+      expect(verifyTotp(RFC_SECRET, '000000', now)).toBeNull()
+      expect(verifyTotp(RFC_SECRET, '5924', now)).toBeNull()
+      expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull()
+    })
+  })
+
+  describe('buildOtpAuthUrl', () => {
+    it('describes the secret for authenticator apps', () => {
+      const url = buildOtpAuthUrl(RFC_SECRET, 'admin@example.com')
+
+      expect(url).toContain('otpauth://totp/Talk-To-My-Lawyer%3Aadmin%40example.com?')
+      expect(url).toContain(`secret=${RFC_SECRET}`)
+      expect(url).toContain('digits=6')
+    })
+  })
+
+  describe('recovery codes', () => {
+    it('generates unique codes in the xxxxx-xxxxx form', () => {
+      const codes = generateRecoveryCodes()
+
+      expect(codes).toHaveLength(10)
+      expect(new Set(codes).size).toBe(10)
+      for (const code of codes) {
+        expect(/^[a-z2-9]{5}-[a-z2-9]{5}$/.test(code)).toBe(true)
+      }
+    })
+
+    it('hashes codes regardless of case and separators', () => {
+      expect(hashRecoveryCode('ABCDE-FGHJK')).toBe(hashRecoveryCode('abcde fghjk'))
+      expect(hashRecoveryCode('abcde-fghjk')).toHaveLength(64)
+    })
+
+    it('tells recovery codes apart from authenticator codes', () => {
+      expect(isRecoveryCode('abcde-fghjk')).toBe(true)
+      expect(isRecoveryCode('287082')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Admin Session Token Tests
+ * Tests signing and verifying the admin session cookie
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  decodeSessionCookie,
+  encodeSessionCookie,
+  generateSessionToken,
+  getSessionSecrets,
+  hashSessionToken
+} from '@/lib/auth/session-token'
+
+const secrets = { current: 'current-secret-0123456789abcdef0123', previous: [] }
+
+describe('Admin Session Tokens', () => {
+  describe('getSessionSecrets', () => {
+    it('is unconfigured without a current secret', () => {
+      expect(getSessionSecrets(undefined, 'old')).toBeNull()
+      expect(getSessionSecrets('', undefined)).toBeNull()
+    })
+
+    it('parses previous secrets for rotation', () => {
+      expect(getSessionSecrets('new', ' old-1, ,old-2 ')).toEqual({
+        current: 'new',
+        previous: ['old-1', 'old-2']
+      })
+      expect(getSessionSecrets('new', undefined)).toEqual({ current: 'new', previous: [] })
+    })
+  })
+
+  describe('session cookies', () => {
+    it('round-trips a signed token', () => {
+      const token = generateSessionToken()
+      const cookie = encodeSessionCookie(token, secrets)
+
+      expect(cookie.startsWith(`${token}.`)).toBe(true)
+      expect(decodeSessionCookie(cookie, secrets)).toBe(token)
+    })
+
+    it('rejects tampered and forged cookies', () => {
+      const token = generateSessionToken()
+      const cookie = encodeSessionCookie(token, secrets)
+      const [, signature] = cookie.split('.')
+
+      expect(decodeSessionCookie(`${generateSessionToken()}.${signature}`, secrets)).toBeNull()
+      expect(decodeSessionCookie(`${token}.${signature!.slice(1)}`, secrets)).toBeNull()
+      expect(decodeSessionCookie(encodeSessionCookie(token, { current: 'attacker', previous: [] }), secrets)).toBeNull()
+    })
+
+    it('rejects the old plain JSON cookie and malformed values', () => {
+      const legacy = JSON.stringify({ userId: 'u1', email: 'a@b.c', lastActivity: Date.now() })
+
+      expect(decodeSessionCookie(legacy, secrets)).toBeNull()
+      expect(decodeSessionCookie('', secrets)).toBeNull()
+      expect(decodeSessionCookie(undefined, secrets)).toBeNull()
+      expect(decodeSessionCookie('.signature', secrets)).toBeNull()
+    })
+
+    it('accepts cookies signed with a previous secret after rotation', () => {
+      const token = generateSessionToken()
+      const cookie = encodeSessionCookie(token, { current: 'old-secret', previous: [] })
+
+      expect(decodeSessionCookie(cookie, { current: 'new-secret', previous: ['old-secret'] })).toBe(token)
+      expect(decodeSessionCookie(cookie, { current: 'new-secret', previous: [] })).toBeNull()
+    })
+  })
+
+  describe('hashSessionToken', () => {
+    it('stores a stable hash rather than the token', () => {
+      const token = generateSessionToken()
+
+      expect(hashSessionToken(token)).toBe(hashSessionToken(token))
+      expect(hashSessionToken(token)).toHaveLength(64)
+      expect(hashSessionToken(token) === token).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * AI Provider Failover Tests
+ * Tests the provider chain, per-provider circuit breakers and the offline fake provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { LLMRetryClient, generateTextWithRetry, openAIRetryClient } from '@/lib/ai/openai-retry'
+import { FakeProvider, getProviderChain, TASK_MODELS } from '@/lib/ai/providers'
+
+jest.mock('ai', () => ({
+  generateText: jest.fn()
+}))
+
+jest.mock('@ai-sdk/openai', () => ({
+  openai: jest.fn()
+}))
+
+const fastRetry = { baseDelayMs: 1, maxDelayMs: 5, jitter: false }
+
+describe('AI Provider Failover', () => {
+  const originalEnv = { ...process.env }
+  let mockGenerateText: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGenerateText = require('ai').generateText
+    openAIRetryClient.resetCircuitBreaker()
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  describe('Fake Provider', () => {
+    it('should return the same draft for the same request', async () => {
+      const provider = new FakeProvider()
+      const request = {
+        prompt: 'Sender Name: Jane Doe\nRecipient Name: Acme Corp\nIssue Description: Unpaid invoice',
+        system: 'Test system',
+        model: 'fake-letter-model',
+        temperature: 0.7,
+        maxOutputTokens: 2048
+      }
+
+      const first = await provider.generateText(request)
+      const second = await provider.generateText(request)
+
+      expect(first).toBe(second)
+      expect(first).toContain('Dear Acme Corp,')
+      expect(first).toContain('Jane Doe')
+      expect(first).toContain('Unpaid invoice')
+    })
+
+    it('should be retried by the retry client after injected failures', async () => {
+      const provider = new FakeProvider({ failTimes: 2, response: 'Recovered draft' })
+      const client = new LLMRetryClient(fastRetry, provider)
+
+      const result = await client.generateTextWithRetry({ prompt: 'Test prompt' })
+
+      expect(result.success).toBe(true)
+      expect(result.data).toBe('Recovered draft')
+      expect(result.attempts).toBe(3)
+      expect(provider.calls[0]?.model).toBe(TASK_MODELS.letter_generation.fake)
+    })
+
+    it('should use the model for the requested task', async () => {
+      const provider = new FakeProvider()
+      const client = new LLMRetryClient(fastRetry, provider)
+
+      await client.generateTextWithRetry({ prompt: 'Test prompt', task: 'health_check' })
+
+      expect(provider.calls[0]?.model).toBe(TASK_MODELS.health_check.fake)
+    })
+  })
+
+  describe('Provider Chain', () => {
+    it('should default to OpenAI without a fallback when Gemini is not configured', () => {
+      delete process.env.AI_PROVIDER
+      delete process.env.AI_FALLBACK_PROVIDER
+      delete process.env.GEMINI_API_KEY
+
+      expect(getProviderChain().map(provider => provider.name)).toEqual(['openai'])
+    })
+
+    it('should append a configured fallback provider', () => {
+      process.env.AI_PROVIDER = 'openai'
+      process.env.GEMINI_API_KEY = 'test-key'
+      delete process.env.AI_FALLBACK_PROVIDER
+
+      expect(getProviderChain().map(provider => provider.name)).toEqual(['openai', 'gemini'])
+    })
+
+    it('should disable failover when the fallback is none', () => {
+      process.env.AI_PROVIDER = 'openai'
+      process.env.AI_FALLBACK_PROVIDER = 'none'
+      process.env.GEMINI_API_KEY = 'test-key'
+
+      expect(getProviderChain().map(provider => provider.name)).toEqual(['openai'])
+    })
+
+    it('should serve requests from the fake provider when selected', async () => {
+      process.env.AI_PROVIDER = 'fake'
+      process.env.AI_FALLBACK_PROVIDER = 'none'
+
+      const result = await generateTextWithRetry({
+        prompt: 'Sender Name: Jane Doe\nRecipient Name: Acme Corp',
+        task: 'letter_generation'
+      })
+
+      expect(result.provider).toBe('fake')
+      expect(result.model).toBe(TASK_MODELS.letter_generation.fake)
+      expect(result.text).toContain('Dear Acme Corp,')
+      expect(mockGenerateText).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Failover', () => {
+    it('should fail over to the fallback when the primary fails', async () => {
+      process.env.AI_PROVIDER = 'openai'
+      process.env.AI_FALLBACK_PROVIDER = 'fake'
+
+      mockGenerateText.mockRejectedValueOnce(
+        Object.assign(new Error('Invalid API key'), { status: 401 })
+      )
+
+      const result = await generateTextWithRetry({ prompt: 'Test prompt', model: 'gpt-4-turbo' })
+
+      expect(result.provider).toBe('fake')
+      expect(result.model).toBe(TASK_MODELS.letter_generation.fake)
+      expect(result.attempts).toBe(2)
+      expect(mockGenerateText).toHaveBeenCalledTimes(1)
+    })
+
+    it('should skip the primary while its circuit breaker is open', async () => {
+      process.env.AI_PROVIDER = 'openai'
+      process.env.AI_FALLBACK_PROVIDER = 'fake'
+
+      mockGenerateText.mockRejectedValue(
+        Object.assign(new Error('Invalid API key'), { status: 401 })
+      )
+
+      for (let i = 0; i < 5; i++) {
+        await openAIRetryClient.generateTextWithRetry({ prompt: 'Test prompt' })
+      }
+      expect(openAIRetryClient.getCircuitBreakerState().isOpen).toBe(true)
+
+      mockGenerateText.mockClear()
+      const result = await generateTextWithRetry({ prompt: 'Test prompt' })
+
+      expect(result.provider).toBe('fake')
+      expect(mockGenerateText).not.toHaveBeenCalled()
+    })
+
+    it('should throw the last error when every provider fails', async () => {
+      process.env.AI_PROVIDER = 'openai'
+      process.env.AI_FALLBACK_PROVIDER = 'none'
+
+      mockGenerateText.mockRejectedValueOnce(
+        Object.assign(new Error('Invalid API key'), { status: 401 })
+      )
+
+      await expect(generateTextWithRetry({ prompt: 'Test prompt' })).rejects.toThrow('Invalid API key')
+    })
+  })
+})
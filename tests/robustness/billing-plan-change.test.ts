@@ -0,0 +1,84 @@
+/**
+ * Billing Plan Change Tests
+ * Tests the rules that decide how a subscriber moves between plans
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import type Stripe from 'stripe'
+import { classifyPlanChange, toBillingInvoice } from '@/lib/billing/billing-portal'
+import type { PlanConfig, PlanInterval } from '@/lib/billing/plans'
+
+function plan(planType: string, letters: number, interval: PlanInterval | null): PlanConfig {
+  return {
+    id: planType,
+    planType,
+    name: planType,
+    description: null,
+    price: 299,
+    letters,
+    interval,
+    stripePriceId: null,
+    features: [],
+    aliases: [],
+    isVisible: true,
+    isPopular: false,
+    sortOrder: 0,
+    reviewSlaHours: null
+  }
+}
+
+const oneTime = plan('one_time', 1, null)
+const standard = plan('standard_4_month', 4, 'month')
+const premium = plan('premium_8_month', 8, 'year')
+
+describe('Billing Plan Changes', () => {
+  it('should treat more letters as an upgrade and fewer as a downgrade', () => {
+    expect(classifyPlanChange(standard, premium)).toBe('upgrade')
+    expect(classifyPlanChange(premium, standard)).toBe('downgrade')
+  })
+
+  it('should cancel at period end when switching to one-off purchases', () => {
+    expect(classifyPlanChange(standard, oneTime)).toBe('switch_to_one_time')
+    expect(classifyPlanChange(premium, oneTime)).toBe('switch_to_one_time')
+  })
+
+  it('should send one-off buyers through checkout for recurring plans', () => {
+    expect(classifyPlanChange(oneTime, standard)).toBe('checkout')
+    expect(classifyPlanChange(null, premium)).toBe('checkout')
+  })
+
+  it('should only resume the current plan when a cancellation is scheduled', () => {
+    expect(classifyPlanChange(standard, standard)).toBe('none')
+    expect(classifyPlanChange(standard, standard, true)).toBe('resume')
+    expect(classifyPlanChange(oneTime, oneTime)).toBe('none')
+  })
+
+  it('should map a Stripe invoice to dollars with receipt links', () => {
+    const invoice = {
+      id: 'in_123',
+      number: 'TTML-0001',
+      status: 'paid',
+      description: null,
+      amount_paid: 29900,
+      amount_due: 29900,
+      currency: 'usd',
+      created: 1767225600,
+      hosted_invoice_url: 'https://invoice.stripe.com/i/in_123',
+      invoice_pdf: 'https://pay.stripe.com/invoice/in_123/pdf',
+      lines: { data: [{ description: '1 × Monthly Plan' }] }
+    } as unknown as Stripe.Invoice
+
+    expect(toBillingInvoice(invoice)).toEqual({
+      id: 'in_123',
+      number: 'TTML-0001',
+      status: 'paid',
+      description: '1 × Monthly Plan',
+      amountPaid: 299,
+      amountDue: 299,
+      currency: 'usd',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      hostedInvoiceUrl: 'https://invoice.stripe.com/i/in_123',
+      invoicePdf: 'https://pay.stripe.com/invoice/in_123/pdf'
+    })
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Coupon Campaign Tests
+ * Tests discount pricing for percentage and fixed coupons and validation of
+ * admin campaign input
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  couponDiscount,
+  formatCouponDiscount,
+  isSuperUserCoupon,
+  redeemCoupon,
+  toCouponValidation,
+  type CouponValidationRow
+} from '@/lib/billing/coupons'
+import { toCouponColumns } from '@/lib/billing/coupon-campaigns'
+
+function row(overrides: Partial<CouponValidationRow>): CouponValidationRow {
+  return {
+    is_valid: true,
+    coupon_id: 'coupon-1',
+    code: 'SPRING25',
+    discount_type: 'percent',
+    discount_percent: 25,
+    discount_amount: null,
+    employee_id: null,
+    message: 'Coupon valid',
+    ...overrides
+  }
+}
+
+describe('Coupon Campaigns', () => {
+  it('should take a percentage off the plan price', () => {
+    expect(couponDiscount(299, toCouponValidation(row({ discount_percent: 20 })))).toBe(59.8)
+    expect(couponDiscount(299, toCouponValidation(row({ discount_percent: 100 })))).toBe(299)
+  })
+
+  it('should cap fixed discounts at the plan price', () => {
+    const fixed = toCouponValidation(row({ discount_type: 'fixed', discount_percent: 0, discount_amount: '50.00' }))
+    expect(fixed.discountAmount).toBe(50)
+    expect(couponDiscount(299, fixed)).toBe(50)
+    expect(couponDiscount(30, fixed)).toBe(30)
+  })
+
+  it('should treat a missing validation row as an invalid code', () => {
+    const result = toCouponValidation(undefined)
+    expect(result.isValid).toBe(false)
+    expect(result.message).toBe('Invalid coupon code')
+  })
+
+  it('should only grant super user status for full employee referral discounts', () => {
+    expect(isSuperUserCoupon(toCouponValidation(row({ discount_percent: 100, employee_id: 'emp-1' })))).toBe(true)
+    expect(isSuperUserCoupon(toCouponValidation(row({ code: 'TALK3', discount_percent: 100 })))).toBe(false)
+    expect(isSuperUserCoupon(toCouponValidation(row({ discount_percent: 20, employee_id: 'emp-1' })))).toBe(false)
+  })
+
+  it('should format percentage and fixed discounts', () => {
+    expect(formatCouponDiscount({ discount_type: 'percent', discount_percent: 20 })).toBe('20%')
+    expect(formatCouponDiscount({ discount_type: 'fixed', discount_percent: 0, discount_amount: '50' })).toBe('$50.00 off')
+  })
+
+  it('should validate campaign input for creation', () => {
+    expect(toCouponColumns({ code: ' spring25 ', discountType: 'percent', discountPercent: 25 }, true)).toEqual({
+      code: 'SPRING25',
+      discount_type: 'percent',
+      discount_percent: 25,
+      discount_amount: null
+    })
+    expect(() => toCouponColumns({ code: 'SPRING25', discountType: 'percent', discountPercent: 150 }, true)).toThrow('Percentage')
+    expect(() => toCouponColumns({ code: 'SPRING25', discountType: 'fixed' }, true)).toThrow('Fixed discounts')
+    expect(() => toCouponColumns({ code: 'X', discountPercent: 10 }, true)).toThrow('Code')
+  })
+
+  it('should validate limits and windows on update', () => {
+    expect(toCouponColumns({ maxRedemptions: 100, allowedPlans: [], firstPurchaseOnly: true }, false)).toEqual({
+      max_redemptions: 100,
+      allowed_plans: null,
+      first_purchase_only: true
+    })
+    expect(() => toCouponColumns({ maxRedemptionsPerUser: 0 }, false)).toThrow('Per-user limit')
+    expect(() => toCouponColumns({
+      startsAt: '2026-02-01T00:00:00Z',
+      expiresAt: '2026-01-01T00:00:00Z'
+    }, false)).toThrow('Expiry date')
+  })
+
+  it('should redeem through one RPC and report refusals', async () => {
+    const calls: Array<{ fn: string; args: Record<string, unknown> }> = []
+    const results = [
+      { data: [{ redeemed: true, message: 'Coupon redeemed' }], error: null },
+      { data: [{ redeemed: false, message: 'This coupon has reached its redemption limit' }], error: null }
+    ]
+    const supabase = {
+      rpc: async (fn: string, args: Record<string, unknown>) => {
+        calls.push({ fn, args })
+        return results.shift()
+      }
+    } as unknown as SupabaseClient
+    const redemption = {
+      couponId: 'coupon-1',
+      subscriptionId: 'sub-1',
+      discountPercent: 100,
+      amountBefore: 299,
+      amountAfter: 0
+    }
+
+    expect(await redeemCoupon(supabase, redemption)).toEqual({ redeemed: true, message: 'Coupon redeemed' })
+    expect(calls[0]).toEqual({
+      fn: 'redeem_coupon',
+      args: {
+        p_coupon_id: 'coupon-1',
+        p_subscription_id: 'sub-1',
+        p_user_id: null,
+        p_discount_percent: 100,
+        p_amount_before: 299,
+        p_amount_after: 0,
+        p_enforce_caps: true
+      }
+    })
+
+    const refused = await redeemCoupon(supabase, redemption)
+    expect(refused.redeemed).toBe(false)
+    expect(refused.message).toContain('redemption limit')
+  })
+})
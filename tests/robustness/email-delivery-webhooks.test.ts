@@ -0,0 +1,170 @@
+/**
+ * Email Delivery Webhook Tests
+ * Tests provider signature checks, event normalization and delivery summaries
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { createHmac, generateKeyPairSync, sign } from 'crypto'
+import {
+  normalizeMessageId,
+  parseWebhookEvents,
+  verifyBrevoToken,
+  verifyResendSignature,
+  verifySendGridSignature
+} from '@/lib/email/webhooks'
+import { summarizeEmailDeliveries, type EmailDeliveryRecord } from '@/lib/email/delivery-summary'
+
+const now = new Date('2026-04-01T12:00:00Z')
+const timestamp = String(Math.floor(now.getTime() / 1000))
+
+describe('Email Delivery Webhooks', () => {
+  describe('signatures', () => {
+    it('should verify SendGrid signed event webhooks', () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      const key = publicKey.export({ format: 'der', type: 'spki' }).toString('base64')
+      const payload = '[{"event":"delivered"}]'
+      const signature = sign('sha256', Buffer.from(timestamp + payload), privateKey).toString('base64')
+
+      expect(verifySendGridSignature({ publicKey: key, payload, signature, timestamp, now })).toBe(true)
+      expect(verifySendGridSignature({ publicKey: key, payload: '[]', signature, timestamp, now })).toBe(false)
+      expect(verifySendGridSignature({ publicKey: key, payload, signature: null, timestamp, now })).toBe(false)
+    })
+
+    it('should verify Resend signatures and refuse stale ones', () => {
+      const secret = `whsec_${Buffer.from('test-secret').toString('base64')}`
+      const payload = '{"type":"email.delivered"}'
+      const expected = createHmac('sha256', Buffer.from('test-secret'))
+        .update(`msg_1.${timestamp}.${payload}`)
+        .digest('base64')
+      const signature = `v1,invalid v1,${expected}`
+
+      expect(verifyResendSignature({ secret, payload, id: 'msg_1', timestamp, signature, now })).toBe(true)
+      expect(verifyResendSignature({ secret, payload, id: 'msg_2', timestamp, signature, now })).toBe(false)
+
+      const later = new Date(now.getTime() + 10 * 60 * 1000)
+      expect(verifyResendSignature({ secret, payload, id: 'msg_1', timestamp, signature, now: later })).toBe(false)
+    })
+
+    it('should compare the Brevo token exactly', () => {
+      expect(verifyBrevoToken('secret-token', 'secret-token')).toBe(true)
+      expect(verifyBrevoToken('secret-token', 'secret')).toBe(false)
+      expect(verifyBrevoToken('secret-token', null)).toBe(false)
+    })
+  })
+
+  describe('normalizeMessageId', () => {
+    it('should match webhook message ids to the id returned by the send', () => {
+      expect(normalizeMessageId('sendgrid', 'abc123.filterdrecv-5.0')).toBe('abc123')
+      expect(normalizeMessageId('brevo', '<2026@smtp-relay.mailin.fr>')).toBe('2026@smtp-relay.mailin.fr')
+      expect(normalizeMessageId('resend', 're_123')).toBe('re_123')
+    })
+  })
+
+  describe('parseWebhookEvents', () => {
+    it('should normalize SendGrid events and skip untracked ones', () => {
+      const events = parseWebhookEvents('sendgrid', [
+        { event: 'processed', email: 'a@example.com', sg_message_id: 'abc.filter1', timestamp: 1775044800 },
+        { event: 'delivered', email: 'A@Example.com', sg_message_id: 'abc.filter1', sg_event_id: 'ev1', timestamp: 1775044800 },
+        { event: 'bounce', type: 'bounce', email: 'a@example.com', sg_message_id: 'abc.filter1', reason: '550 No such user' },
+        { event: 'bounce', type: 'blocked', email: 'a@example.com', sg_message_id: 'abc.filter1' },
+        { event: 'click', email: 'a@example.com', sg_message_id: 'abc.filter1', url: 'https://example.com' }
+      ])
+
+      expect(events.map(event => event.status)).toEqual(['delivered', 'bounced', 'bounced', 'clicked'])
+      expect(events[0]).toMatchObject({ messageId: 'abc', eventId: 'ev1', recipient: 'a@example.com' })
+      expect(events[0]!.occurredAt).toBe('2026-04-01T12:00:00.000Z')
+      expect(events[1]).toMatchObject({ bounceType: 'hard', reason: '550 No such user' })
+      expect(events[2]!.bounceType).toBe('soft')
+      expect(events[3]!.url).toBe('https://example.com')
+    })
+
+    it('should normalize Brevo events with a stable event id', () => {
+      const raw = { event: 'hard_bounce', email: 'b@example.com', 'message-id': '<m1@relay>', ts_event: 1775044800 }
+      const [event] = parseWebhookEvents('brevo', raw)
+
+      expect(event).toMatchObject({ status: 'bounced', bounceType: 'hard', messageId: 'm1@relay' })
+      expect(parseWebhookEvents('brevo', raw)[0]!.eventId).toBe(event!.eventId)
+      expect(parseWebhookEvents('brevo', { ...raw, event: 'unique_opened' })[0]!.status).toBe('opened')
+    })
+
+    it('should give each Brevo recipient of a message its own event id', () => {
+      const raw = { event: 'delivered', email: 'b@example.com', 'message-id': '<m1@relay>', ts_event: 1775044800 }
+      const [first] = parseWebhookEvents('brevo', raw)
+      const [second] = parseWebhookEvents('brevo', { ...raw, email: 'd@example.com' })
+
+      expect(first!.eventId).not.toBe(second!.eventId)
+    })
+
+    it('should normalize Resend events with the delivery id', () => {
+      const [event] = parseWebhookEvents('resend', {
+        type: 'email.bounced',
+        created_at: '2026-04-01T12:00:00.000Z',
+        data: { email_id: 're_1', to: ['c@example.com'], bounce: { type: 'Permanent', message: 'Mailbox does not exist' } }
+      }, { eventId: 'msg_1' })
+
+      expect(event).toMatchObject({
+        provider: 'resend',
+        messageId: 're_1',
+        eventId: 'msg_1',
+        status: 'bounced',
+        bounceType: 'hard',
+        reason: 'Mailbox does not exist'
+      })
+      expect(event!.recipientUncertain).toBeUndefined()
+    })
+
+    it('should record Resend events against every recipient', () => {
+      const events = parseWebhookEvents('resend', {
+        type: 'email.bounced',
+        data: { email_id: 're_2', to: ['c@example.com', 'D@example.com'], bounce: { type: 'Permanent' } }
+      }, { eventId: 'msg_2' })
+
+      expect(events.map(event => event.recipient)).toEqual(['c@example.com', 'd@example.com'])
+      expect(events.map(event => event.eventId)).toEqual(['msg_2:c@example.com', 'msg_2:d@example.com'])
+      expect(events.every(event => event.recipientUncertain)).toBe(true)
+    })
+  })
+
+  describe('summarizeEmailDeliveries', () => {
+    const record = (overrides: Partial<EmailDeliveryRecord>): EmailDeliveryRecord => ({
+      id: Math.random().toString(36),
+      recipient_email: 'a@example.com',
+      subject: '',
+      provider: 'sendgrid',
+      status: 'sent',
+      provider_message_id: 'm1',
+      bounce_type: null,
+      error_message: null,
+      occurred_at: '2026-04-01T12:00:00Z',
+      ...overrides
+    })
+
+    it('should report the furthest step a message reached', () => {
+      const [summary] = summarizeEmailDeliveries([
+        record({ subject: 'Legal Letter: Demand' }),
+        record({ status: 'opened', occurred_at: '2026-04-01T14:00:00Z' }),
+        record({ status: 'delivered', occurred_at: '2026-04-01T12:01:00Z' })
+      ])
+
+      expect(summary).toMatchObject({
+        status: 'opened',
+        subject: 'Legal Letter: Demand',
+        deliveredAt: '2026-04-01T12:01:00Z',
+        openedAt: '2026-04-01T14:00:00Z'
+      })
+    })
+
+    it('should let hard bounces outrank progress but treat soft bounces as delays', () => {
+      expect(summarizeEmailDeliveries([
+        record({}),
+        record({ status: 'bounced', bounce_type: 'soft', occurred_at: '2026-04-01T12:01:00Z' })
+      ])[0]!.status).toBe('deferred')
+
+      const [bounced] = summarizeEmailDeliveries([
+        record({}),
+        record({ status: 'bounced', bounce_type: 'hard', error_message: '550', occurred_at: '2026-04-01T12:01:00Z' })
+      ])
+      expect(bounced).toMatchObject({ status: 'bounced', problem: '550' })
+    })
+  })
+})
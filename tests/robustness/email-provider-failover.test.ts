@@ -0,0 +1,193 @@
+/**
+ * Email Provider Failover Tests
+ * Tests ordered failover, health-based demotion and the provider reported for each send
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { EmailService } from '@/lib/email/service'
+import { ConsoleProvider } from '@/lib/email/providers/console'
+import { ProviderHealthTracker } from '@/lib/email/provider-health'
+import type { EmailMessage, EmailProvider, EmailProviderInterface, EmailResult } from '@/lib/email/types'
+
+/**
+ * Provider that fails on demand, either by returning an error result or by
+ * throwing, so failover can be exercised offline
+ */
+class FaultyProvider implements EmailProviderInterface {
+  calls: EmailMessage[] = []
+  failing = true
+
+  constructor(
+    public name: EmailProvider,
+    private mode: 'error' | 'throw' = 'error',
+    private configured = true
+  ) {}
+
+  isConfigured(): boolean {
+    return this.configured
+  }
+
+  async send(message: EmailMessage): Promise<EmailResult> {
+    this.calls.push(message)
+
+    if (!this.failing) {
+      return { success: true, messageId: `${this.name}-${this.calls.length}`, provider: this.name }
+    }
+    if (this.mode === 'throw') {
+      throw new Error(`${this.name} unavailable`)
+    }
+    return { success: false, error: `${this.name} returned 503`, provider: this.name }
+  }
+}
+
+const message: EmailMessage = {
+  to: 'client@example.com',
+  subject: 'Your letter is ready',
+  text: 'Your letter has been approved.',
+  tracking: { queueId: 'queue-1' }
+}
+
+describe('Email Provider Failover', () => {
+  let resend: FaultyProvider
+  let sendgrid: FaultyProvider
+  let health: ProviderHealthTracker
+
+  beforeEach(() => {
+    resend = new FaultyProvider('resend')
+    sendgrid = new FaultyProvider('sendgrid', 'throw')
+    health = new ProviderHealthTracker({ minSamples: 2, cooldownMs: 60_000 })
+  })
+
+  const service = (providers: EmailProviderInterface[]) =>
+    new EmailService({ providers, deliveryLog: null, health })
+
+  it('should fail over in order and report the provider that sent', async () => {
+    const result = await service([resend, sendgrid, new ConsoleProvider()]).send(message)
+
+    expect(result.success).toBe(true)
+    expect(result.provider).toBe('console')
+    expect(resend.calls).toHaveLength(1)
+    expect(sendgrid.calls).toHaveLength(1)
+  })
+
+  it('should not pass tracking details to providers', async () => {
+    await service([resend, new ConsoleProvider()]).send(message)
+
+    expect(resend.calls[0]?.tracking).toBeUndefined()
+    expect(resend.calls[0]?.from?.email).toBeTruthy()
+  })
+
+  it('should skip providers that are not configured', async () => {
+    const unconfigured = new FaultyProvider('brevo', 'error', false)
+    const emailService = service([unconfigured, new ConsoleProvider()])
+
+    expect(emailService.getFailoverChain()).toEqual(['console'])
+    expect((await emailService.send(message)).provider).toBe('console')
+    expect(unconfigured.calls).toHaveLength(0)
+  })
+
+  it('should return the last failure when every provider fails', async () => {
+    const result = await service([resend, sendgrid]).send(message)
+
+    expect(result.success).toBe(false)
+    expect(result.provider).toBe('sendgrid')
+    expect(result.error).toBe('sendgrid unavailable')
+  })
+
+  it('should only use a provider that is named explicitly', async () => {
+    const result = await service([resend, new ConsoleProvider()]).send(message, 'resend')
+
+    expect(result.success).toBe(false)
+    expect(result.provider).toBe('resend')
+  })
+
+  it('should demote an unhealthy provider behind the healthy ones', async () => {
+    const emailService = service([resend, new ConsoleProvider()])
+
+    await emailService.send(message)
+    await emailService.send(message)
+    expect(resend.calls).toHaveLength(2)
+    expect(emailService.getProviderHealth()[0]).toMatchObject({ provider: 'resend', healthy: false, failures: 2 })
+
+    const result = await emailService.send(message)
+
+    expect(result.provider).toBe('console')
+    expect(resend.calls).toHaveLength(2)
+  })
+
+  it('should still try a demoted provider when it is the only one left', async () => {
+    const emailService = service([resend])
+
+    await emailService.send(message)
+    await emailService.send(message)
+    resend.failing = false
+
+    const result = await emailService.send(message)
+
+    expect(result.success).toBe(true)
+    expect(result.provider).toBe('resend')
+  })
+
+  it('should report recipients that are all suppressed without sending', async () => {
+    const deliveryLog = {
+      findSuppressed: async () => new Set(['client@example.com']),
+      recordSend: async () => {}
+    }
+    const provider = new FaultyProvider('console')
+    const result = await new EmailService({ providers: [provider], deliveryLog, health }).send(message)
+
+    expect(result).toMatchObject({ success: false, suppressed: true })
+    expect(provider.calls).toHaveLength(0)
+  })
+
+  it('should skip template email to recipients who unsubscribed from its category', async () => {
+    const checked: Array<string | null> = []
+    const preferences = {
+      filterSubscribed: async (_to: string | string[], category: string | null) => {
+        checked.push(category)
+        return []
+      }
+    }
+    const provider = new FaultyProvider('console')
+    const result = await new EmailService({ providers: [provider], deliveryLog: null, preferences, health })
+      .sendTemplate('commission-earned', 'employee@example.com', { commissionAmount: 29.95 })
+
+    expect(result).toMatchObject({ success: false, unsubscribed: true })
+    expect(checked).toEqual(['commissions'])
+    expect(provider.calls).toHaveLength(0)
+  })
+
+  describe('ProviderHealthTracker', () => {
+    it('should restore a provider after its cooldown', () => {
+      const start = Date.now()
+      health.recordFailure('resend', '503', start)
+      health.recordFailure('resend', '503', start)
+
+      expect(health.isHealthy('resend', start)).toBe(false)
+      expect(health.rank(['resend', 'sendgrid'], start)).toEqual(['sendgrid', 'resend'])
+      expect(health.isHealthy('resend', start + 60_000)).toBe(true)
+    })
+
+    it('should not demote on a single failure or a low error rate', () => {
+      const start = Date.now()
+      health.recordFailure('sendgrid', '503', start)
+      expect(health.isHealthy('sendgrid', start)).toBe(true)
+
+      const tracker = new ProviderHealthTracker({ minSamples: 2 })
+      tracker.recordSuccess('brevo', start)
+      tracker.recordSuccess('brevo', start)
+      tracker.recordSuccess('brevo', start)
+      tracker.recordFailure('brevo', '503', start)
+      expect(tracker.isHealthy('brevo', start)).toBe(true)
+    })
+
+    it('should forget failures outside the window', () => {
+      const start = Date.now()
+      const tracker = new ProviderHealthTracker({ minSamples: 2, windowMs: 1000 })
+      tracker.recordFailure('smtp', 'timeout', start)
+      tracker.recordFailure('smtp', 'timeout', start + 2000)
+
+      expect(tracker.isHealthy('smtp', start + 2000)).toBe(true)
+    })
+  })
+})
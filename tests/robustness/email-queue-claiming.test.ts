@@ -0,0 +1,53 @@
+/**
+ * Email Queue Claiming Tests
+ * Tests queue processing settings and bounded concurrency
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { getEmailQueueConfig, runWithConcurrency } from '@/lib/email/queue'
+
+describe('Email Queue Claiming', () => {
+  describe('getEmailQueueConfig', () => {
+    it('should use the defaults when nothing is configured', () => {
+      expect(getEmailQueueConfig({})).toEqual({ batchSize: 10, concurrency: 3, leaseMs: 300000 })
+    })
+
+    it('should read the environment and ignore invalid values', () => {
+      expect(getEmailQueueConfig({
+        EMAIL_QUEUE_BATCH_SIZE: '25',
+        EMAIL_QUEUE_CONCURRENCY: 'lots',
+        EMAIL_QUEUE_LEASE_SECONDS: '-5'
+      })).toEqual({ batchSize: 25, concurrency: 3, leaseMs: 300000 })
+    })
+
+    it('should cap the batch size and never run more sends than the batch holds', () => {
+      expect(getEmailQueueConfig({ EMAIL_QUEUE_BATCH_SIZE: '5000' }).batchSize).toBe(100)
+      expect(getEmailQueueConfig({ EMAIL_QUEUE_BATCH_SIZE: '2', EMAIL_QUEUE_CONCURRENCY: '8' }).concurrency).toBe(2)
+    })
+  })
+
+  describe('runWithConcurrency', () => {
+    it('should process every item without exceeding the limit', async () => {
+      let running = 0
+      let peak = 0
+      const done: number[] = []
+
+      await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+        running++
+        peak = Math.max(peak, running)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        done.push(item)
+        running--
+      })
+
+      expect(peak).toBe(3)
+      expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7])
+    })
+
+    it('should handle an empty batch', async () => {
+      const seen: number[] = []
+      await runWithConcurrency([], 3, async (item: number) => { seen.push(item) })
+      expect(seen).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Email Template Tests
+ * Tests placeholder validation, rendering of stored versions and locale fallback
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  findTemplateVariables,
+  interpolate,
+  localeFallbacks,
+  pickTemplateVersion,
+  renderTemplateSource,
+  SAMPLE_TEMPLATE_DATA,
+  TEMPLATE_VARIABLES,
+  validateTemplateSource
+} from '@/lib/email/template-source'
+
+describe('Email Templates', () => {
+  describe('validateTemplateSource', () => {
+    it('should accept placeholders that name TemplateData fields', () => {
+      expect(validateTemplateSource({
+        subject: 'Your letter "{{letterTitle}}" is approved',
+        text: 'Hi {{userName|there}},\n\nView it here: {{letterLink}}'
+      })).toEqual([])
+    })
+
+    it('should reject unknown variables and malformed placeholders', () => {
+      const errors = validateTemplateSource({
+        subject: 'Hello {{firstName}}',
+        text: 'Hi {{userName}, your plan is {{ subscriptionPlan }}',
+        html: '<p>{{userName}}</p>'
+      })
+
+      expect(errors).toEqual([
+        'Unknown variable in subject: {{firstName}}',
+        'Malformed placeholder in plain text body; use {{variable}} or {{variable|fallback}}'
+      ])
+    })
+
+    it('should require a subject and a text body', () => {
+      expect(validateTemplateSource({ subject: ' ', text: '' })).toEqual([
+        'Subject is required',
+        'Plain text body is required'
+      ])
+    })
+
+    it('should have a sample value for every variable', () => {
+      expect(Object.keys(SAMPLE_TEMPLATE_DATA).sort()).toEqual(Object.keys(TEMPLATE_VARIABLES).sort())
+    })
+  })
+
+  describe('rendering', () => {
+    it('should fill in values, fallbacks and formatted numbers', () => {
+      expect(interpolate('Hi {{userName|there}}, you earned ${{commissionAmount}} ({{pendingReviews}})', {
+        commissionAmount: 12.5,
+        pendingReviews: 3
+      })).toBe('Hi there, you earned $12.50 (3)')
+      expect(findTemplateVariables('{{ userName }} {{userName|x}} {{letterTitle}}')).toEqual(['userName', 'letterTitle'])
+    })
+
+    it('should escape values placed in HTML', () => {
+      const output = renderTemplateSource({
+        subject: 'Comment from {{commentAuthor}}',
+        text: 'unused',
+        html: '<p>{{commentText}}</p>'
+      }, { commentAuthor: 'Sam', commentText: '<script>alert(1)</script>' })
+
+      expect(output.subject).toBe('Comment from Sam')
+      expect(output.html).toContain('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>')
+      expect(output.html).toContain('Talk-To-My-Lawyer')
+    })
+
+    it('should build the HTML body from the text when none is given', () => {
+      const output = renderTemplateSource({
+        subject: 'Welcome',
+        text: 'Hi {{userName}},\nwelcome aboard.\n\nThe Team & Co'
+      }, { userName: 'Jane' })
+
+      expect(output.text).toBe('Hi Jane,\nwelcome aboard.\n\nThe Team & Co')
+      expect(output.html).toContain('<p>Hi Jane,<br>welcome aboard.</p>')
+      expect(output.html).toContain('<p>The Team &amp; Co</p>')
+    })
+  })
+
+  describe('locale fallback', () => {
+    const published = [
+      { id: 'welcome-en', template_key: 'welcome', locale: 'en' },
+      { id: 'welcome-es', template_key: 'welcome', locale: 'es' },
+      { id: 'approved-en', template_key: 'letter-approved', locale: 'en' }
+    ]
+
+    it('should prefer the recipient locale and fall back to English', () => {
+      expect(pickTemplateVersion(published, 'welcome', 'es')?.id).toBe('welcome-es')
+      expect(pickTemplateVersion(published, 'letter-approved', 'es')?.id).toBe('approved-en')
+      expect(pickTemplateVersion(published, 'welcome', 'xx')?.id).toBe('welcome-en')
+    })
+
+    it('should use the built-in template when nothing is published', () => {
+      expect(pickTemplateVersion(published, 'letter-rejected', 'fr')).toBeNull()
+    })
+
+    it('should always end the chain in English', () => {
+      expect(localeFallbacks('fr')).toEqual(['fr', 'en'])
+      expect(localeFallbacks('en')).toEqual(['en'])
+      expect(localeFallbacks(null)).toEqual(['en'])
+    })
+  })
+})
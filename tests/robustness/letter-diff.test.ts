@@ -0,0 +1,49 @@
+/**
+ * Letter Diff Tests
+ * Tests the line diff behind the version history side-by-side view
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { diffLines, summarizeDiff } from '@/lib/letters/diff'
+
+describe('Letter Diff', () => {
+  it('should mark identical content as unchanged', () => {
+    const rows = diffLines('Dear Sir,\nPlease pay.', 'Dear Sir,\nPlease pay.')
+
+    expect(rows.every(row => row.type === 'unchanged')).toBe(true)
+    expect(rows).toHaveLength(2)
+  })
+
+  it('should pair an edited line as a change', () => {
+    const rows = diffLines('Dear Sir,\nPlease pay $100.\nRegards', 'Dear Sir,\nPlease pay $150.\nRegards')
+
+    expect(rows).toHaveLength(3)
+    expect(rows[1]).toEqual({
+      type: 'changed',
+      left: 'Please pay $100.',
+      right: 'Please pay $150.',
+      leftNumber: 2,
+      rightNumber: 2
+    })
+  })
+
+  it('should report added and removed lines with their own line numbers', () => {
+    const rows = diffLines('Line one\nLine two\nLine three', 'Line one\nLine three\nLine four')
+
+    expect(rows.map(row => row.type)).toEqual(['unchanged', 'removed', 'unchanged', 'added'])
+    expect(rows[1]).toMatchObject({ left: 'Line two', right: null, leftNumber: 2, rightNumber: null })
+    expect(rows[3]).toMatchObject({ left: null, right: 'Line four', leftNumber: null, rightNumber: 3 })
+  })
+
+  it('should ignore line ending differences', () => {
+    const rows = diffLines('Dear Sir,\r\nRegards', 'Dear Sir,\nRegards')
+
+    expect(summarizeDiff(rows)).toEqual({ added: 0, removed: 0, changed: 0 })
+  })
+
+  it('should summarize changes', () => {
+    const rows = diffLines('a\nb\nc', 'a\nB\nc\nd')
+
+    expect(summarizeDiff(rows)).toEqual({ added: 1, removed: 0, changed: 1 })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Letter DOCX Tests
+ * Tests the Word export of reviewed letters
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { inflateRawSync } from 'zlib'
+import { generateLetterDocx } from '@/lib/docx/generator'
+import { crc32, createZip } from '@/lib/docx/zip'
+import type { PdfLetterData } from '@/lib/pdf/types'
+
+// Read the parts of a ZIP archive by walking its local file headers
+function readZip(buffer: Buffer): Record<string, string> {
+  const parts: Record<string, string> = {}
+  let offset = 0
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const size = buffer.readUInt32LE(offset + 18)
+    const nameLength = buffer.readUInt16LE(offset + 26)
+    const extraLength = buffer.readUInt16LE(offset + 28)
+    const name = buffer.subarray(offset + 30, offset + 30 + nameLength).toString('utf8')
+    const start = offset + 30 + nameLength + extraLength
+    parts[name] = inflateRawSync(buffer.subarray(start, start + size)).toString('utf8')
+    offset = start + size
+  }
+  return parts
+}
+
+const letter: PdfLetterData = {
+  id: '00000000-0000-0000-0000-000000000000',
+  title: 'Unpaid Invoice & Fees',
+  content: '<h2>Background</h2><p>Pay <strong>$500</strong> by <em>May 1</em>.</p><ol><li><p>First</p></li><li><p>Second</p></li></ol><ol><li><p>Again</p></li></ol>',
+  parties: {
+    sender: { name: 'Acme LLC' },
+    recipient: { name: 'Jane Doe', address: '1 Main St\nSpringfield' },
+    attorney: { name: 'Alex Counsel', barNumber: '123456', barState: 'CA' },
+  },
+  createdAt: '2026-01-01T00:00:00Z',
+  letterType: 'cease_desist',
+}
+
+describe('Letter DOCX', () => {
+  describe('createZip', () => {
+    it('should compute standard CRC-32 checksums', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+    })
+
+    it('should store entries that inflate back to their content', () => {
+      const parts = readZip(createZip([{ name: 'a.txt', data: 'hello' }, { name: 'b/c.xml', data: '<x/>' }]))
+      expect(parts).toEqual({ 'a.txt': 'hello', 'b/c.xml': '<x/>' })
+    })
+  })
+
+  describe('generateLetterDocx', () => {
+    it('should package the parts Word needs', () => {
+      const result = generateLetterDocx(letter)
+
+      expect(result.success).toBe(true)
+      expect(Object.keys(readZip(result.buffer!)).sort()).toEqual([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'docProps/core.xml',
+        'word/_rels/document.xml.rels',
+        'word/document.xml',
+        'word/footer1.xml',
+        'word/numbering.xml',
+        'word/styles.xml',
+      ])
+    })
+
+    it('should keep headings, emphasis and the signature block from the editor HTML', () => {
+      const document = readZip(generateLetterDocx(letter).buffer!)['word/document.xml']!
+
+      expect(document).toContain('<w:pStyle w:val="Heading2"/>')
+      expect(document).toContain('<w:rPr><w:b/></w:rPr><w:t xml:space="preserve">$500</w:t>')
+      expect(document).toContain('<w:rPr><w:i/></w:rPr><w:t xml:space="preserve">May 1</w:t>')
+      expect(document).toContain('CEASE AND DESIST')
+      expect(document).toContain('Re: Unpaid Invoice &amp; Fees')
+      expect(document).toContain('CA Bar No. 123456')
+    })
+
+    it('should restart numbering for each ordered list', () => {
+      const parts = readZip(generateLetterDocx(letter).buffer!)
+
+      expect(parts['word/document.xml']!.match(/<w:numId w:val="(\d+)"\/>/g)).toEqual([
+        '<w:numId w:val="2"/>',
+        '<w:numId w:val="2"/>',
+        '<w:numId w:val="3"/>',
+      ])
+      expect(parts['word/numbering.xml']!.match(/<w:num /g)).toHaveLength(3)
+    })
+
+    it('should print the footer note and page numbers', () => {
+      const footer = readZip(generateLetterDocx(letter, { footerNote: 'Reviewed for clarity.' }).buffer!)['word/footer1.xml']!
+
+      expect(footer).toContain('Reviewed for clarity.')
+      expect(footer).toContain(' NUMPAGES ')
+      expect(footer).toContain('Ref: TTML-00000000')
+    })
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Letter Exhibit Tests
+ * Tests attachment upload rules, file signature checks and exhibit labelling
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_LETTER,
+  areAttachmentsLocked,
+  exhibitLabel,
+  matchesFileSignature,
+  validateAttachmentFile
+} from '@/lib/letters/exhibits'
+import { buildLetterPrompt } from '@/lib/letters/prompt'
+
+const bytes = (...values: number[]) => new Uint8Array([...values, ...new Array(16).fill(0x20)])
+
+describe('Letter Exhibits', () => {
+  describe('validateAttachmentFile', () => {
+    it('should accept supported evidence types within the size limit', () => {
+      expect(validateAttachmentFile({ name: 'invoice.pdf', type: 'application/pdf', size: 2048 })).toBeNull()
+      expect(validateAttachmentFile({ name: 'photo.jpg', type: 'image/jpeg', size: MAX_ATTACHMENT_BYTES })).toBeNull()
+    })
+
+    it('should reject unsupported types, empty files and oversized files', () => {
+      expect(validateAttachmentFile({ name: 'setup.exe', type: 'application/x-msdownload', size: 100 })).toContain('only PDF')
+      expect(validateAttachmentFile({ name: 'empty.pdf', type: 'application/pdf', size: 0 })).toContain('empty')
+      expect(validateAttachmentFile({ name: 'scan.pdf', type: 'application/pdf', size: MAX_ATTACHMENT_BYTES + 1 })).toContain('larger than')
+    })
+
+    it('should enforce the per-letter attachment limit', () => {
+      const file = { name: 'invoice.pdf', type: 'application/pdf', size: 2048 }
+      expect(validateAttachmentFile(file, MAX_ATTACHMENTS_PER_LETTER - 1)).toBeNull()
+      expect(validateAttachmentFile(file, MAX_ATTACHMENTS_PER_LETTER)).toContain('at most')
+    })
+  })
+
+  describe('matchesFileSignature', () => {
+    it('should match the leading bytes of each supported type', () => {
+      expect(matchesFileSignature('application/pdf', bytes(0x25, 0x50, 0x44, 0x46))).toBe(true)
+      expect(matchesFileSignature('image/png', bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a))).toBe(true)
+      expect(matchesFileSignature('image/jpeg', bytes(0xff, 0xd8, 0xff, 0xe0))).toBe(true)
+      expect(matchesFileSignature('image/webp', bytes(0x52, 0x49, 0x46, 0x46, 1, 2, 3, 4, 0x57, 0x45, 0x42, 0x50))).toBe(true)
+      expect(matchesFileSignature('text/plain', new TextEncoder().encode('Invoice #1042 unpaid'))).toBe(true)
+    })
+
+    it('should reject files whose content does not match the declared type', () => {
+      expect(matchesFileSignature('application/pdf', bytes(0x4d, 0x5a))).toBe(false)
+      expect(matchesFileSignature('image/png', bytes(0xff, 0xd8, 0xff))).toBe(false)
+      expect(matchesFileSignature('text/plain', bytes(0x00, 0x01, 0x02))).toBe(false)
+      expect(matchesFileSignature('application/zip', bytes(0x50, 0x4b, 0x03, 0x04))).toBe(false)
+    })
+  })
+
+  it('should label exhibits alphabetically, continuing past Z', () => {
+    expect(exhibitLabel(0)).toBe('Exhibit A')
+    expect(exhibitLabel(25)).toBe('Exhibit Z')
+    expect(exhibitLabel(26)).toBe('Exhibit AA')
+    expect(exhibitLabel(27)).toBe('Exhibit AB')
+  })
+
+  it('should lock attachments once a letter is approved', () => {
+    expect(areAttachmentsLocked('pending_review')).toBe(false)
+    expect(areAttachmentsLocked('approved')).toBe(true)
+    expect(areAttachmentsLocked('completed')).toBe(true)
+  })
+
+  it('should list attached evidence as exhibits in the drafting prompt', () => {
+    const prompt = buildLetterPrompt('demand_letter', {
+      senderName: 'Jane Doe',
+      attachments: ['invoice.pdf', '../../etc/passwd', 42]
+    })
+
+    expect(prompt).toContain('Enclosed Exhibits:')
+    expect(prompt).toContain('Exhibit A: invoice.pdf')
+    expect(prompt).toContain('Exhibit B: etcpasswd')
+    expect(prompt).not.toContain('Exhibit C')
+  })
+})
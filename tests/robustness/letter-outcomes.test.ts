@@ -0,0 +1,139 @@
+/**
+ * Letter Outcome Tests
+ * Tests response deadlines, follow-up eligibility and case thread grouping
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildCaseThreads,
+  buildFollowUpIntake,
+  canFollowUp,
+  daysUntilDeadline,
+  getDeadlineState,
+  parseDeadlineDate,
+  type DeadlineLetter
+} from '@/lib/letters/outcomes'
+import { buildLetterPrompt } from '@/lib/letters/prompt'
+
+const now = new Date('2026-03-10T15:00:00Z')
+
+const sentLetter = (overrides: Partial<DeadlineLetter> = {}): DeadlineLetter => ({
+  status: 'approved',
+  sent_at: '2026-03-01T12:00:00Z',
+  response_deadline: '2026-03-15',
+  outcome: null,
+  ...overrides
+})
+
+describe('Letter Outcomes', () => {
+  describe('parseDeadlineDate', () => {
+    it('should keep date input values as they are', () => {
+      expect(parseDeadlineDate('2026-03-15')).toBe('2026-03-15')
+      expect(parseDeadlineDate(' 2026-03-15 ')).toBe('2026-03-15')
+    })
+
+    it('should reject missing and impossible dates', () => {
+      expect(parseDeadlineDate(undefined)).toBeNull()
+      expect(parseDeadlineDate('')).toBeNull()
+      expect(parseDeadlineDate('32nd of Never')).toBeNull()
+      expect(parseDeadlineDate('2026-02-31')).toBeNull()
+    })
+  })
+
+  describe('getDeadlineState', () => {
+    it('should count the deadline day itself as due', () => {
+      expect(daysUntilDeadline('2026-03-10', now)).toBe(0)
+      expect(getDeadlineState(sentLetter({ response_deadline: '2026-03-10' }), now)).toBe('due_soon')
+    })
+
+    it('should move from upcoming to due soon to overdue', () => {
+      expect(getDeadlineState(sentLetter({ response_deadline: '2026-03-20' }), now)).toBe('upcoming')
+      expect(getDeadlineState(sentLetter({ response_deadline: '2026-03-12' }), now)).toBe('due_soon')
+      expect(getDeadlineState(sentLetter({ response_deadline: '2026-03-09' }), now)).toBe('overdue')
+    })
+
+    it('should not track letters that were never sent or have no deadline', () => {
+      expect(getDeadlineState(sentLetter({ sent_at: null }), now)).toBe('none')
+      expect(getDeadlineState(sentLetter({ response_deadline: null }), now)).toBe('none')
+    })
+
+    it('should treat responded and paid as resolved', () => {
+      expect(getDeadlineState(sentLetter({ response_deadline: '2026-03-01', outcome: 'paid' }), now)).toBe('resolved')
+      expect(getDeadlineState(sentLetter({ outcome: 'responded' }), now)).toBe('resolved')
+      expect(getDeadlineState(sentLetter({ response_deadline: '2026-03-01', outcome: 'disputed' }), now)).toBe('overdue')
+    })
+  })
+
+  describe('canFollowUp', () => {
+    it('should offer a follow-up once an unresolved deadline passes', () => {
+      expect(canFollowUp(sentLetter(), now)).toBe(false)
+      expect(canFollowUp(sentLetter({ response_deadline: '2026-03-09' }), now)).toBe(true)
+      expect(canFollowUp(sentLetter({ response_deadline: '2026-03-09', outcome: 'paid' }), now)).toBe(false)
+    })
+
+    it('should offer a follow-up straight away when the recipient ignores or disputes', () => {
+      expect(canFollowUp(sentLetter({ outcome: 'ignored' }), now)).toBe(true)
+      expect(canFollowUp(sentLetter({ outcome: 'disputed', response_deadline: null }), now)).toBe(true)
+    })
+
+    it('should require the letter to have been sent', () => {
+      expect(canFollowUp(sentLetter({ sent_at: null, outcome: 'ignored' }), now)).toBe(false)
+    })
+  })
+
+  describe('buildFollowUpIntake', () => {
+    it('should copy the original intake without its deadline or evidence', () => {
+      expect(buildFollowUpIntake({
+        senderName: 'Jane Doe',
+        recipientName: 'Acme Corp',
+        amountDemanded: 1500,
+        deadlineDate: '2026-03-15',
+        attachments: ['invoice.pdf']
+      })).toEqual({
+        senderName: 'Jane Doe',
+        recipientName: 'Acme Corp',
+        amountDemanded: '1500'
+      })
+    })
+  })
+
+  describe('buildCaseThreads', () => {
+    it('should group follow-ups under their original letter in order', () => {
+      const threads = buildCaseThreads([
+        { id: 'b', parent_letter_id: 'a', created_at: '2026-02-01' },
+        { id: 'x', parent_letter_id: null, created_at: '2026-01-15' },
+        { id: 'a', parent_letter_id: null, created_at: '2026-01-01' },
+        { id: 'c', parent_letter_id: 'b', created_at: '2026-03-01' }
+      ])
+
+      expect(threads.map(thread => thread.map(letter => letter.id))).toEqual([['a', 'b', 'c'], ['x']])
+    })
+
+    it('should start a thread when the parent is not in the list', () => {
+      const threads = buildCaseThreads([{ id: 'b', parent_letter_id: 'deleted', created_at: '2026-02-01' }])
+      expect(threads).toHaveLength(1)
+    })
+  })
+
+  describe('buildLetterPrompt', () => {
+    it('should give follow-ups the original letter history', () => {
+      const prompt = buildLetterPrompt('demand_letter', {
+        senderName: 'Jane Doe',
+        recipientName: 'Acme Corp',
+        issueDescription: 'Unpaid invoice for services rendered in January'
+      }, {
+        followUp: {
+          title: 'Demand Letter - 3/1/2026',
+          sentAt: '2026-03-01T12:00:00Z',
+          responseDeadline: '2026-03-15',
+          outcome: null
+        }
+      })
+
+      expect(prompt).toContain('follow-up letter')
+      expect(prompt).toContain('Original Letter: Demand Letter - 3/1/2026')
+      expect(prompt).toContain('Original Response Deadline: 2026-03-15')
+      expect(prompt).toContain('Recipient Response: No response')
+    })
+  })
+})
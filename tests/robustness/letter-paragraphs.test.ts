@@ -0,0 +1,40 @@
+/**
+ * Letter Paragraph Mention Tests
+ * Tests @pN paragraph mentions used in letter comment threads
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { parseParagraphMentions, resolveParagraphMentions, splitParagraphs } from '@/lib/letters/paragraphs'
+
+const LETTER = 'Dear Mr. Smith,\r\n\r\nYou owe $500 for the services rendered in March.\n\n\nPlease pay within 14 days.\n\nSincerely,\nJane Doe'
+
+describe('Letter Paragraphs', () => {
+  it('should split content on blank lines regardless of line endings', () => {
+    expect(splitParagraphs(LETTER)).toEqual([
+      'Dear Mr. Smith,',
+      'You owe $500 for the services rendered in March.',
+      'Please pay within 14 days.',
+      'Sincerely,\nJane Doe'
+    ])
+    expect(splitParagraphs(null)).toEqual([])
+  })
+
+  it('should parse unique mentions in order of first use', () => {
+    expect(parseParagraphMentions('See @p3 and @P2, also @p3 again')).toEqual([3, 2])
+    expect(parseParagraphMentions('email me at p2@example.com')).toEqual([])
+    expect(parseParagraphMentions('@p0 is not a paragraph')).toEqual([])
+  })
+
+  it('should resolve mentions with excerpts and drop out-of-range paragraphs', () => {
+    expect(resolveParagraphMentions('Change the amount in @p2. Also @p9', LETTER)).toEqual([
+      { paragraph: 2, excerpt: 'You owe $500 for the services rendered in March.' }
+    ])
+  })
+
+  it('should truncate long paragraph excerpts', () => {
+    const [mention] = resolveParagraphMentions('@p1', 'x'.repeat(400))
+
+    expect(mention?.excerpt).toHaveLength(281)
+    expect(mention?.excerpt.endsWith('…')).toBe(true)
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Letter PDF Tests
+ * Tests rich-text parsing of reviewed letters and per-template PDF layouts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { parseLetterContent } from '@/lib/pdf/rich-text'
+import { generateLetterPdf, getLetterheadBranding, getPdfTemplate } from '@/lib/pdf/generator'
+
+describe('Letter PDF', () => {
+  describe('parseLetterContent', () => {
+    it('should split plain text into paragraphs on blank lines', () => {
+      expect(parseLetterContent('Dear Sir,\r\n\r\nPay the invoice.\nThank you.')).toEqual([
+        { type: 'paragraph', runs: [{ text: 'Dear Sir,' }] },
+        { type: 'paragraph', runs: [{ text: 'Pay the invoice.\nThank you.' }] },
+      ])
+    })
+
+    it('should keep inline styles and decode entities from editor HTML', () => {
+      expect(parseLetterContent('<p>Pay <strong>$500</strong> by <em>May&nbsp;1</em> &amp; reply.</p>')).toEqual([
+        {
+          type: 'paragraph',
+          runs: [
+            { text: 'Pay ' },
+            { text: '$500', bold: true },
+            { text: ' by ' },
+            { text: 'May 1', italic: true },
+            { text: ' & reply.' },
+          ],
+        },
+      ])
+    })
+
+    it('should number ordered lists and track nesting', () => {
+      const blocks = parseLetterContent('<ol><li><p>First</p></li><li><p>Second</p><ul><li><p>Detail</p></li></ul></li></ol>')
+
+      expect(blocks).toEqual([
+        { type: 'list-item', ordered: true, number: 1, depth: 0, runs: [{ text: 'First' }] },
+        { type: 'list-item', ordered: true, number: 2, depth: 0, runs: [{ text: 'Second' }] },
+        { type: 'list-item', ordered: false, number: 1, depth: 1, runs: [{ text: 'Detail' }] },
+      ])
+    })
+
+    it('should read headings, quotes and rules and drop empty paragraphs', () => {
+      const blocks = parseLetterContent('<h2>Demand</h2><p></p><blockquote><p>Quoted term</p></blockquote><hr>')
+
+      expect(blocks).toEqual([
+        { type: 'heading', level: 2, runs: [{ text: 'Demand' }] },
+        { type: 'quote', runs: [{ text: 'Quoted term' }] },
+        { type: 'rule' },
+      ])
+    })
+  })
+
+  describe('getPdfTemplate', () => {
+    it('should map letter types to their layouts', () => {
+      expect(getPdfTemplate('demand_letter')).toBe('demand-letter')
+      expect(getPdfTemplate('cease_desist')).toBe('cease-desist')
+      expect(getPdfTemplate('unknown_type')).toBe('legal-letter')
+      expect(getPdfTemplate(null)).toBe('legal-letter')
+    })
+  })
+
+  describe('getLetterheadBranding', () => {
+    it('should fall back to the default letterhead without a name', () => {
+      expect(getLetterheadBranding({ PDF_LETTERHEAD_PHONE: '555-0100' }).name).toBe('TALK-TO-MY-LAWYER')
+    })
+
+    it('should read the configured letterhead', () => {
+      expect(getLetterheadBranding({
+        PDF_LETTERHEAD_NAME: 'Smith & Co',
+        PDF_LETTERHEAD_ADDRESS: '1 Main St\\nSpringfield',
+      })).toEqual({ name: 'Smith & Co', address: '1 Main St\nSpringfield' })
+    })
+  })
+
+  describe('generateLetterPdf', () => {
+    it('should render HTML content with an attorney signature block', () => {
+      const result = generateLetterPdf({
+        id: '00000000-0000-0000-0000-000000000000',
+        title: 'Unpaid Invoice',
+        content: '<p>Pay <strong>now</strong>.</p>'.repeat(80),
+        parties: {
+          sender: { name: 'Acme LLC' },
+          recipient: { name: 'Jane Doe', address: '1 Main St\nSpringfield' },
+          attorney: { name: 'Alex Counsel', barNumber: '123456', barState: 'CA' },
+        },
+        createdAt: '2026-01-01T00:00:00Z',
+        letterType: 'demand_letter',
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.pageCount).toBeGreaterThan(1)
+      expect(result.buffer?.subarray(0, 4).toString()).toBe('%PDF')
+    })
+  })
+})
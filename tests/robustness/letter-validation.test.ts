@@ -9,8 +9,11 @@ import {
   validateIntakeData,
   validateLetterType,
   containsForbiddenPatterns,
-  ALLOWED_LETTER_TYPES
+  normalizeLetterType,
+  ALLOWED_LETTER_TYPES,
+  LETTER_TYPE_SCHEMAS
 } from '@/lib/validation/letter-schema'
+import { LETTER_TYPES, getLetterType } from '@/lib/validation/letter-types'
 
 describe('Letter Generation Validation', () => {
   describe('validateLetterType', () => {
@@ -238,6 +241,76 @@ describe('Letter Generation Validation', () => {
     })
   })
 
+  describe('Letter type registry', () => {
+    const partyData = {
+      senderName: 'Pat Landlord',
+      senderAddress: '1 Owner Rd, City, ST 10001',
+      recipientName: 'Terry Tenant',
+      recipientAddress: '2 Rental Ln, City, ST 10002',
+      issueDescription: 'Rent for the last three months has not been paid despite reminders.',
+      desiredOutcome: 'Vacate the property or pay all rent owed.'
+    }
+
+    it('should derive a schema for every registered letter type', () => {
+      for (const definition of LETTER_TYPES) {
+        expect(ALLOWED_LETTER_TYPES).toContain(definition.value)
+        expect(Object.keys(LETTER_TYPE_SCHEMAS[definition.value]!)).toEqual(
+          definition.fields.map(field => field.name)
+        )
+      }
+    })
+
+    it('should accept the values sent by the intake form', () => {
+      for (const value of ['demand_letter', 'contract_breach', 'eviction_notice', 'employment_dispute']) {
+        expect(validateLetterType(value).valid).toBe(true)
+      }
+    })
+
+    it('should resolve legacy display names to registry values', () => {
+      expect(normalizeLetterType('Demand Letter')).toBe('demand_letter')
+      expect(normalizeLetterType('Follow-up Letter')).toBe('follow_up_letter')
+      expect(normalizeLetterType('Unknown')).toBeUndefined()
+      expect(getLetterType('Cease and Desist')?.value).toBe('cease_desist')
+    })
+
+    it('should enforce type-specific required fields', () => {
+      const result = validateIntakeData('eviction_notice', partyData)
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('propertyAddress is required')
+      expect(result.errors).toContain('leaseStartDate is required')
+      expect(result.errors).toContain('vacateByDate is required')
+    })
+
+    it('should validate and keep type-specific fields', () => {
+      const result = validateIntakeData('eviction_notice', {
+        ...partyData,
+        propertyAddress: '2 Rental Ln, City, ST 10002',
+        leaseStartDate: '2023-01-01',
+        monthlyRent: 1500,
+        vacateByDate: '2024-13-45x'
+      })
+      expect(result.valid).toBe(false)
+      expect(result.errors.some(e => e.includes('vacate by date'))).toBe(true)
+
+      const valid = validateIntakeData('eviction_notice', {
+        ...partyData,
+        propertyAddress: '2 Rental Ln, City, ST 10002',
+        leaseStartDate: '2023-01-01',
+        monthlyRent: 1500,
+        vacateByDate: '2024-12-31'
+      })
+      expect(valid.valid).toBe(true)
+      expect(valid.data!.monthlyRent).toBe(1500)
+      expect(valid.data!.leaseStartDate).toBe('2023-01-01')
+    })
+
+    it('should drop fields the letter type does not declare', () => {
+      const result = validateIntakeData('cease_desist', { ...partyData, employerName: 'Acme Corp' })
+      expect(result.valid).toBe(true)
+      expect(result.data!.employerName).toBeUndefined()
+    })
+  })
+
   describe('validateLetterGenerationRequest', () => {
     it('should validate complete valid request', () => {
       const validRequest = {
@@ -0,0 +1,111 @@
+/**
+ * Mail Delivery Tests
+ * Tests address checks, tracking status rules and the stub mail provider
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { normalizeMailAddress, summarizeMailStatus, formatMailAddress } from '@/lib/mail/delivery'
+import { StubMailProvider } from '@/lib/mail/providers/stub'
+import type { MailPiece } from '@/lib/mail/types'
+
+const HOUR = 60 * 60 * 1000
+
+const address = {
+  name: 'Acme Property Management',
+  line1: '100 Main St',
+  city: 'Springfield',
+  state: 'il',
+  postalCode: '62701',
+}
+
+const piece = (method: MailPiece['method']): MailPiece => ({
+  letterId: 'letter-1',
+  method,
+  to: { ...address, state: 'IL' },
+  document: Buffer.from('%PDF-1.4'),
+})
+
+describe('Mail Delivery', () => {
+  describe('normalizeMailAddress', () => {
+    it('should trim fields and upper-case the state', () => {
+      const result = normalizeMailAddress({ ...address, name: '  Acme Property Management ', line2: ' Suite 4 ' })
+      expect(result).toEqual({ ...address, state: 'IL', line2: 'Suite 4' })
+    })
+
+    it('should refuse incomplete or malformed addresses', () => {
+      expect(normalizeMailAddress({ ...address, name: ' ' })).toContain('Recipient name')
+      expect(normalizeMailAddress({ ...address, line1: undefined })).toContain('Street address')
+      expect(normalizeMailAddress({ ...address, state: 'Illinois' })).toContain('State')
+      expect(normalizeMailAddress({ ...address, state: 'Texas' })).toContain('State')
+      expect(normalizeMailAddress({ ...address, state: 'ZZ' })).toContain('State')
+      expect(normalizeMailAddress({ ...address, postalCode: '6270' })).toContain('ZIP')
+    })
+
+    it('should accept ZIP+4 codes', () => {
+      expect(typeof normalizeMailAddress({ ...address, postalCode: '62701-1234' })).toBe('object')
+    })
+
+    it('should format without an empty second line', () => {
+      expect(formatMailAddress({ ...address, state: 'IL' })).toBe(
+        'Acme Property Management\n100 Main St\nSpringfield, IL 62701'
+      )
+    })
+  })
+
+  describe('summarizeMailStatus', () => {
+    it('should keep the fallback when there are no events', () => {
+      expect(summarizeMailStatus([])).toBe('submitted')
+      expect(summarizeMailStatus([], 'accepted')).toBe('accepted')
+    })
+
+    it('should never move a mailing backwards', () => {
+      expect(summarizeMailStatus([
+        { status: 'out_for_delivery', occurredAt: '2026-01-03T00:00:00Z' },
+        { status: 'in_transit', occurredAt: '2026-01-04T00:00:00Z' },
+      ])).toBe('out_for_delivery')
+    })
+
+    it('should let a final event win', () => {
+      expect(summarizeMailStatus([
+        { status: 'in_transit', occurredAt: '2026-01-02T00:00:00Z' },
+        { status: 'returned', occurredAt: '2026-01-05T00:00:00Z' },
+      ], 'out_for_delivery')).toBe('returned')
+    })
+  })
+
+  describe('StubMailProvider', () => {
+    it('should return a reference, tracking number and expected delivery date', async () => {
+      const now = new Date('2026-01-01T00:00:00Z')
+      const provider = new StubMailProvider({ stepMs: HOUR, now: () => now })
+      const result = await provider.dispatch(piece('certified'))
+
+      expect(result.success).toBe(true)
+      expect(result.providerReference).toMatch(/^stub_certified_/)
+      expect(result.trackingNumber).toMatch(/^9407\d{18}$/)
+      expect(result.expectedDeliveryDate).toBe('2026-01-01')
+    })
+
+    it('should reveal tracking events one step at a time', async () => {
+      let now = new Date('2026-01-01T00:00:00Z')
+      const provider = new StubMailProvider({ stepMs: HOUR, now: () => now })
+      const { providerReference } = await provider.dispatch(piece('certified_return_receipt'))
+
+      expect(await provider.track(providerReference!)).toHaveLength(0)
+
+      now = new Date(now.getTime() + 2 * HOUR)
+      const midway = await provider.track(providerReference!)
+      expect(midway.map(event => event.status)).toEqual(['accepted', 'in_transit'])
+      expect(summarizeMailStatus(midway)).toBe('in_transit')
+
+      now = new Date(now.getTime() + 2 * HOUR)
+      const delivered = await provider.track(providerReference!)
+      expect(summarizeMailStatus(delivered)).toBe('delivered')
+      expect(delivered[delivered.length - 1]!.description).toContain('signature on file')
+    })
+
+    it('should reject references it did not issue', async () => {
+      const provider = new StubMailProvider()
+      await expect(provider.track('lob_123')).rejects.toThrow('Unknown stub mail reference')
+    })
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Plan Catalog Tests
+ * Tests plan lookup by key or legacy alias and validation of admin plan edits
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { findPlan, isRecurringPlan, planPriceSuffix, toPlanConfig, type PlanRow } from '@/lib/billing/plans'
+import { toPlanColumns } from '@/lib/billing/plan-catalog'
+
+function row(overrides: Partial<PlanRow>): PlanRow {
+  return {
+    id: 'plan-id',
+    plan_type: 'one_time',
+    name: 'Single Letter',
+    description: null,
+    price: '299.00',
+    letters: 1,
+    interval: null,
+    stripe_price_id: null,
+    features: [],
+    aliases: [],
+    is_visible: true,
+    is_popular: false,
+    sort_order: 0,
+    review_sla_hours: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+const plans = [
+  row({ plan_type: 'one_time', aliases: ['single_letter'] }),
+  row({ plan_type: 'standard_4_month', letters: 4, interval: 'month', aliases: ['monthly', 'monthly_standard'] }),
+  row({ plan_type: 'premium_8_month', price: '599.00', letters: 8, interval: 'year', aliases: ['yearly'] })
+].map(toPlanConfig)
+
+describe('Plan Catalog', () => {
+  it('should resolve plans by key or legacy alias', () => {
+    expect(findPlan(plans, 'standard_4_month')?.letters).toBe(4)
+    expect(findPlan(plans, 'monthly')?.planType).toBe('standard_4_month')
+    expect(findPlan(plans, 'yearly')?.planType).toBe('premium_8_month')
+    expect(findPlan(plans, 'unknown')).toBeNull()
+    expect(findPlan(plans, null)).toBeNull()
+  })
+
+  it('should bill only plans with an interval as recurring', () => {
+    expect(isRecurringPlan(findPlan(plans, 'one_time')!)).toBe(false)
+    expect(isRecurringPlan(findPlan(plans, 'standard_4_month')!)).toBe(true)
+    expect(planPriceSuffix(findPlan(plans, 'premium_8_month')!)).toBe('/year')
+    expect(planPriceSuffix(findPlan(plans, 'one_time')!)).toBe('/letter')
+  })
+
+  it('should parse NUMERIC prices returned as strings', () => {
+    expect(findPlan(plans, 'premium_8_month')?.price).toBe(599)
+  })
+
+  it('should require the core fields when creating a plan', () => {
+    expect(() => toPlanColumns({ name: 'Team Plan', price: 999, letters: 20 }, true)).toThrow('Plan key')
+    expect(() => toPlanColumns({ planType: 'team', price: 999, letters: 20 }, true)).toThrow('Plan name')
+    expect(toPlanColumns({ planType: 'team', name: ' Team Plan ', price: 999.999, letters: 20, interval: 'month' }, true))
+      .toEqual({ plan_type: 'team', name: 'Team Plan', price: 1000, letters: 20, interval: 'month' })
+  })
+
+  it('should only validate the fields present in an update', () => {
+    expect(toPlanColumns({ isVisible: false }, false)).toEqual({ is_visible: false })
+    expect(() => toPlanColumns({ letters: 0 }, false)).toThrow('Letters')
+    expect(() => toPlanColumns({ stripePriceId: 'prod_123' }, false)).toThrow('Stripe price ID')
+    expect(toPlanColumns({ features: [' Attorney review ', ''] }, false)).toEqual({ features: ['Attorney review'] })
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Rate Limit Policy Tests
+ * Tests route policy matching, counter subjects, RateLimit-* headers and
+ * the in-memory store's counters
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  RATE_LIMIT_POLICIES,
+  matchRateLimitRoute,
+  parseRateLimitWindow,
+  rateLimitHeaders,
+  rateLimitSubject,
+  type RateLimitPolicy
+} from '@/lib/rate-limit-policies'
+import { NextRequest } from 'next/server'
+import {
+  applyRateLimitPolicy,
+  enforceRateLimit,
+  getRateLimitIdentity,
+  listRateLimitCounters,
+  rateLimitBackend,
+  resetRateLimitCounter
+} from '@/lib/rate-limit-redis'
+
+const policy: RateLimitPolicy = { name: 'test-policy', limit: 2, window: '1 m', by: 'user' }
+
+describe('Rate Limit Policies', () => {
+  describe('matchRateLimitRoute', () => {
+    it('prefers exact paths, then the longest prefix', () => {
+      expect(matchRateLimitRoute('/api/generate-letter')).toBe(RATE_LIMIT_POLICIES.proxyLetterGeneration)
+      expect(matchRateLimitRoute('/api/cron/review-sla')).toBe(RATE_LIMIT_POLICIES.proxyCron)
+      expect(matchRateLimitRoute('/api/letters/abc/submit')).toBe(RATE_LIMIT_POLICIES.proxyDefault)
+    })
+
+    it('does not treat exact paths as prefixes', () => {
+      expect(matchRateLimitRoute('/api/auth/login-help')).toBe(RATE_LIMIT_POLICIES.proxyDefault)
+      expect(matchRateLimitRoute('/dashboard')).toBeNull()
+    })
+
+    it('exempts signed provider webhooks', () => {
+      expect(matchRateLimitRoute('/api/stripe/webhook')).toBeNull()
+      expect(matchRateLimitRoute('/api/email/webhook/sendgrid')).toBeNull()
+    })
+  })
+
+  describe('getRateLimitIdentity', () => {
+    const request = (headers: Record<string, string>) =>
+      new NextRequest('https://example.com/api/cron/review-sla', { headers: { 'x-forwarded-for': '203.0.113.7', ...headers } })
+
+    beforeEach(() => {
+      process.env.CRON_SECRET = 'cron-secret'
+    })
+
+    it('only keys requests by API key when the key is valid', () => {
+      const valid = getRateLimitIdentity(request({ authorization: 'Bearer cron-secret' }))
+      const guess = getRateLimitIdentity(request({ authorization: 'Bearer guess-1' }))
+
+      expect(valid.apiKey).toMatch(/^[0-9a-f]{16}$/)
+      expect(guess.apiKey).toBeNull()
+      expect(rateLimitSubject(RATE_LIMIT_POLICIES.proxyCron, guess)).toBe('ip:203.0.113.7')
+    })
+  })
+
+  describe('rateLimitSubject', () => {
+    const identity = { ip: '203.0.113.7', userId: 'user-1', apiKey: 'abc123' }
+
+    it('keys counters by the policy subject', () => {
+      expect(rateLimitSubject(policy, identity)).toBe('user:user-1')
+      expect(rateLimitSubject({ ...policy, by: 'api_key' }, identity)).toBe('key:abc123')
+      expect(rateLimitSubject({ ...policy, by: 'ip' }, identity)).toBe('ip:203.0.113.7')
+    })
+
+    it('falls back to the IP without a user or key', () => {
+      expect(rateLimitSubject(policy, { ip: '203.0.113.7' })).toBe('ip:203.0.113.7')
+      expect(rateLimitSubject({ ...policy, by: 'api_key' }, { ip: '203.0.113.7', apiKey: null })).toBe('ip:203.0.113.7')
+    })
+  })
+
+  describe('parseRateLimitWindow', () => {
+    it('parses windows and defaults to one minute', () => {
+      expect(parseRateLimitWindow('30 s')).toBe(30 * 1000)
+      expect(parseRateLimitWindow('15 m')).toBe(15 * 60 * 1000)
+      expect(parseRateLimitWindow('1 h')).toBe(60 * 60 * 1000)
+      expect(parseRateLimitWindow('invalid')).toBe(60 * 1000)
+    })
+  })
+
+  describe('rateLimitHeaders', () => {
+    const now = Date.UTC(2026, 0, 1)
+
+    it('sets standard headers for allowed requests', () => {
+      const headers = rateLimitHeaders({ success: true, limit: 10, remaining: 7, reset: now + 30_500 }, '15 m', now)
+
+      expect(headers).toEqual({
+        'RateLimit-Limit': '10',
+        'RateLimit-Remaining': '7',
+        'RateLimit-Reset': '31',
+        'RateLimit-Policy': '10;w=900'
+      })
+    })
+
+    it('adds Retry-After when refused', () => {
+      const headers = rateLimitHeaders({ success: false, limit: 10, remaining: -1, reset: now + 60_000 }, undefined, now)
+
+      expect(headers['RateLimit-Remaining']).toBe('0')
+      expect(headers['Retry-After']).toBe('60')
+      expect(headers['RateLimit-Policy']).toBeUndefined()
+    })
+  })
+
+  describe('in-memory store', () => {
+    beforeEach(() => {
+      delete (global as any).rateLimitStore
+    })
+
+    it('is used without Redis configuration', () => {
+      expect(rateLimitBackend).toBe('memory')
+    })
+
+    it('applies named policies to route handlers', async () => {
+      const request = new NextRequest('https://example.com/api/letters/1/versions', { headers: { 'x-forwarded-for': '203.0.113.9' } })
+      const strict: RateLimitPolicy = { name: 'handler-test', limit: 1, window: '1 m', by: 'ip' }
+
+      expect(await applyRateLimitPolicy(request, strict)).toBeNull()
+      const refused = await applyRateLimitPolicy(request, strict)
+      expect(refused!.status).toBe(429)
+      expect(refused!.headers.get('RateLimit-Policy')).toBe('1;w=60')
+    })
+
+    it('refuses requests over the limit per subject', async () => {
+      expect((await enforceRateLimit(policy, 'user:a')).success).toBe(true)
+      expect((await enforceRateLimit(policy, 'user:a')).remaining).toBe(0)
+      expect((await enforceRateLimit(policy, 'user:a')).success).toBe(false)
+      expect((await enforceRateLimit(policy, 'user:b')).success).toBe(true)
+    })
+
+    it('lists and resets counters', async () => {
+      await enforceRateLimit(policy, 'ip:2001:db8::1')
+      await enforceRateLimit(policy, 'ip:2001:db8::1')
+      await enforceRateLimit(policy, 'user:b')
+
+      const counters = await listRateLimitCounters()
+      expect(counters).toHaveLength(2)
+      expect(counters[0]).toMatchObject({ policy: 'test-policy', subject: 'ip:2001:db8::1', count: 2, limit: 2, backend: 'memory' })
+
+      await resetRateLimitCounter('test-policy', 'ip:2001:db8::1')
+
+      expect(await listRateLimitCounters()).toHaveLength(1)
+      expect((await enforceRateLimit(policy, 'ip:2001:db8::1')).remaining).toBe(1)
+    })
+  })
+})
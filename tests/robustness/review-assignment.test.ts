@@ -0,0 +1,89 @@
+/**
+ * Review Assignment Tests
+ * Tests how letters entering review are routed to reviewers
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  getReviewAssignmentStrategy,
+  pickReviewer,
+  type ReviewerCandidate
+} from '@/lib/letters/review-assignment'
+
+function reviewer(id: string, overrides: Partial<ReviewerCandidate> = {}): ReviewerCandidate {
+  return {
+    id,
+    available: true,
+    capacity: null,
+    openCount: 0,
+    lastAssignedAt: null,
+    ...overrides
+  }
+}
+
+describe('Review Assignment', () => {
+  describe('getReviewAssignmentStrategy', () => {
+    it('defaults to least loaded', () => {
+      expect(getReviewAssignmentStrategy(undefined)).toBe('least_loaded')
+      expect(getReviewAssignmentStrategy('')).toBe('least_loaded')
+      expect(getReviewAssignmentStrategy('fastest')).toBe('least_loaded')
+    })
+
+    it('accepts the configured strategy regardless of case', () => {
+      expect(getReviewAssignmentStrategy('round_robin')).toBe('round_robin')
+      expect(getReviewAssignmentStrategy(' MANUAL ')).toBe('manual')
+    })
+  })
+
+  describe('pickReviewer', () => {
+    it('picks the reviewer with the fewest open letters', () => {
+      const picked = pickReviewer([
+        reviewer('a', { openCount: 4 }),
+        reviewer('b', { openCount: 1, lastAssignedAt: '2026-01-02T00:00:00Z' }),
+        reviewer('c', { openCount: 2 })
+      ], 'least_loaded')
+
+      expect(picked?.id).toBe('b')
+    })
+
+    it('breaks least-loaded ties by who waited longest for a letter', () => {
+      const picked = pickReviewer([
+        reviewer('a', { openCount: 1, lastAssignedAt: '2026-01-03T00:00:00Z' }),
+        reviewer('b', { openCount: 1, lastAssignedAt: '2026-01-01T00:00:00Z' }),
+        reviewer('c', { openCount: 3 })
+      ], 'least_loaded')
+
+      expect(picked?.id).toBe('b')
+    })
+
+    it('rotates round robin through reviewers, never-assigned ones first', () => {
+      const candidates = [
+        reviewer('a', { openCount: 0, lastAssignedAt: '2026-01-03T00:00:00Z' }),
+        reviewer('b', { openCount: 5, lastAssignedAt: '2026-01-01T00:00:00Z' }),
+        reviewer('c', { openCount: 2 })
+      ]
+
+      expect(pickReviewer(candidates, 'round_robin')?.id).toBe('c')
+      expect(pickReviewer(candidates.slice(0, 2), 'round_robin')?.id).toBe('b')
+    })
+
+    it('skips unavailable reviewers and reviewers at capacity', () => {
+      const picked = pickReviewer([
+        reviewer('a', { available: false }),
+        reviewer('b', { capacity: 2, openCount: 2 }),
+        reviewer('c', { capacity: 5, openCount: 4 })
+      ], 'least_loaded')
+
+      expect(picked?.id).toBe('c')
+    })
+
+    it('returns null when nobody can take the letter', () => {
+      expect(pickReviewer([], 'least_loaded')).toBeNull()
+      expect(pickReviewer([reviewer('a', { available: false })], 'round_robin')).toBeNull()
+    })
+
+    it('leaves letters unassigned under the manual strategy', () => {
+      expect(pickReviewer([reviewer('a')], 'manual')).toBeNull()
+    })
+  })
+})
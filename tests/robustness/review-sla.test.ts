@@ -0,0 +1,93 @@
+/**
+ * Review SLA Tests
+ * Tests review turnaround targets and how letters are measured against them
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  DEFAULT_REVIEW_SLA_HOURS,
+  evaluateReviewSla,
+  formatSlaDuration,
+  getDefaultReviewSlaHours,
+  resolveReviewSlaHours,
+  reviewClockStart
+} from '@/lib/letters/review-sla'
+
+describe('Review SLA', () => {
+  describe('getDefaultReviewSlaHours', () => {
+    it('falls back to 48 hours for missing or invalid values', () => {
+      expect(getDefaultReviewSlaHours(undefined)).toBe(DEFAULT_REVIEW_SLA_HOURS)
+      expect(getDefaultReviewSlaHours('soon')).toBe(DEFAULT_REVIEW_SLA_HOURS)
+      expect(getDefaultReviewSlaHours('0')).toBe(DEFAULT_REVIEW_SLA_HOURS)
+      expect(getDefaultReviewSlaHours('24')).toBe(24)
+    })
+  })
+
+  describe('resolveReviewSlaHours', () => {
+    it('uses the tighter of the plan and letter type targets', () => {
+      expect(resolveReviewSlaHours(72, 24, 48)).toBe(24)
+      expect(resolveReviewSlaHours(12, 24, 48)).toBe(12)
+    })
+
+    it('uses whichever target is set', () => {
+      expect(resolveReviewSlaHours(null, 24, 48)).toBe(24)
+      expect(resolveReviewSlaHours(72, undefined, 48)).toBe(72)
+    })
+
+    it('falls back to the default when neither sets a target', () => {
+      expect(resolveReviewSlaHours(null, undefined, 36)).toBe(36)
+      expect(resolveReviewSlaHours(0, null, 36)).toBe(36)
+    })
+  })
+
+  describe('reviewClockStart', () => {
+    it('starts from the latest entry into pending_review', () => {
+      const start = reviewClockStart([
+        { new_status: 'pending_review', created_at: '2026-01-01T10:00:00Z' },
+        { new_status: 'under_review', created_at: '2026-01-01T12:00:00Z' },
+        { new_status: 'pending_review', created_at: '2026-01-03T09:00:00Z' },
+        { new_status: 'pending_review', created_at: '2026-01-02T09:00:00Z' }
+      ], '2025-12-31T00:00:00Z')
+
+      expect(start).toBe('2026-01-03T09:00:00Z')
+    })
+
+    it('falls back when the letter has no review entries', () => {
+      expect(reviewClockStart([
+        { new_status: 'generating', created_at: '2026-01-01T10:00:00Z' }
+      ], '2025-12-31T00:00:00Z')).toBe('2025-12-31T00:00:00Z')
+    })
+  })
+
+  describe('evaluateReviewSla', () => {
+    const startedAt = '2026-01-01T00:00:00.000Z'
+
+    it('is on track early in the window', () => {
+      const sla = evaluateReviewSla(startedAt, 48, new Date('2026-01-01T12:00:00Z'))
+
+      expect(sla).toMatchObject({
+        state: 'on_track',
+        elapsedHours: 12,
+        dueAt: '2026-01-03T00:00:00.000Z'
+      })
+    })
+
+    it('is at risk once three quarters of the target has passed', () => {
+      expect(evaluateReviewSla(startedAt, 48, new Date('2026-01-02T12:00:00Z')).state).toBe('at_risk')
+    })
+
+    it('is breached once the target has passed', () => {
+      expect(evaluateReviewSla(startedAt, 48, new Date('2026-01-03T00:00:00Z')).state).toBe('breached')
+      expect(evaluateReviewSla(startedAt, 24, new Date('2026-01-02T06:00:00Z')).elapsedHours).toBe(30)
+    })
+  })
+
+  describe('formatSlaDuration', () => {
+    it('formats hours and days', () => {
+      expect(formatSlaDuration(5.4)).toBe('5h')
+      expect(formatSlaDuration(48)).toBe('2d')
+      expect(formatSlaDuration(51)).toBe('2d 3h')
+      expect(formatSlaDuration(-2)).toBe('0h')
+    })
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Scheduled Email Tests
+ * Tests reminder timing, email categories and signed unsubscribe links
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { daysRemaining, reminderSendAt } from '@/lib/email/scheduler'
+import { EMAIL_TEMPLATE_CATEGORIES, isOptionalCategory, OPTIONAL_EMAIL_CATEGORIES } from '@/lib/email/categories'
+import {
+  buildUnsubscribeUrl,
+  signUnsubscribeToken,
+  verifyUnsubscribeToken,
+  withUnsubscribeLink
+} from '@/lib/email/unsubscribe'
+import { renderTemplate } from '@/lib/email/templates'
+
+const SECRET = 'test-unsubscribe-secret'
+
+describe('Scheduled Emails', () => {
+  describe('reminder timing', () => {
+    const now = new Date('2026-03-01T13:00:00Z')
+
+    it('should schedule the reminder N days before the period ends', () => {
+      expect(reminderSendAt('2026-03-05T10:00:00Z', 3, now).toISOString()).toBe('2026-03-02T10:00:00.000Z')
+    })
+
+    it('should send right away when the reminder is already due', () => {
+      expect(reminderSendAt('2026-03-02T10:00:00Z', 3, now)).toBe(now)
+    })
+
+    it('should round the days left up to whole days', () => {
+      expect(daysRemaining('2026-03-03T10:00:00Z', now)).toBe(2)
+      expect(daysRemaining('2026-03-01T14:00:00Z', now)).toBe(1)
+      expect(daysRemaining('2026-02-28T10:00:00Z', now)).toBe(0)
+    })
+  })
+
+  describe('categories', () => {
+    it('should never let users turn off account email', () => {
+      expect(EMAIL_TEMPLATE_CATEGORIES['password-reset']).toBe('account')
+      expect(EMAIL_TEMPLATE_CATEGORIES['payment-failed']).toBe('account')
+      expect(isOptionalCategory('account')).toBe(false)
+      expect(OPTIONAL_EMAIL_CATEGORIES).toContain('reminders')
+    })
+
+    it('should send the admin digest under its own category', () => {
+      expect(EMAIL_TEMPLATE_CATEGORIES['admin-alert']).toBe('digest')
+      expect(renderTemplate('admin-alert', { pendingReviews: 4, actionUrl: 'https://example.com' }).subject)
+        .toBe('Admin Digest: 4 Letters Awaiting Review')
+    })
+  })
+
+  describe('unsubscribe links', () => {
+    it('should accept a token only for its address and category', () => {
+      const token = signUnsubscribeToken('Jane@Example.com', 'reminders', SECRET)
+
+      expect(verifyUnsubscribeToken('jane@example.com', 'reminders', token, SECRET)).toBe(true)
+      expect(verifyUnsubscribeToken('jane@example.com', 'letters', token, SECRET)).toBe(false)
+      expect(verifyUnsubscribeToken('john@example.com', 'reminders', token, SECRET)).toBe(false)
+      expect(verifyUnsubscribeToken('jane@example.com', 'reminders', token, 'other-secret')).toBe(false)
+    })
+
+    it('should not build links for required categories or without a secret', () => {
+      expect(buildUnsubscribeUrl('jane@example.com', 'account', SECRET)).toBeNull()
+      expect(buildUnsubscribeUrl('jane@example.com', 'reminders', null)).toBeNull()
+      expect(buildUnsubscribeUrl('jane@example.com', 'reminders', SECRET, 'https://app.test'))
+        .toContain('https://app.test/api/email/unsubscribe?email=jane%40example.com&category=reminders&token=')
+    })
+
+    it('should add the link to both bodies', () => {
+      const output = withUnsubscribeLink(
+        { subject: 'Hi', text: 'Body', html: '<html><body><p>Body</p></body></html>' },
+        'reminders',
+        'https://app.test/u?a=1&b=2'
+      )
+
+      expect(output.text).toContain('unsubscribe: https://app.test/u?a=1&b=2')
+      expect(output.html).toContain('href="https://app.test/u?a=1&amp;b=2"')
+      expect(output.html.indexOf('Unsubscribe') < output.html.indexOf('</body>')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Stripe Event Ledger Tests
+ * Tests that redelivered webhook events are no-ops and failures are kept
+ * for re-drive
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals'
+import type Stripe from 'stripe'
+
+const mockRpc = jest.fn<(...args: unknown[]) => Promise<{ data: unknown; error: unknown }>>()
+const mockUpdate = jest.fn<(changes: Record<string, unknown>) => unknown>()
+const mockStoredRow = { current: null as Record<string, unknown> | null }
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    rpc: mockRpc,
+    from: () => ({
+      update: (changes: Record<string, unknown>) => {
+        mockUpdate(changes)
+        return { eq: async () => ({ error: null }) }
+      },
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: mockStoredRow.current })
+        })
+      })
+    })
+  })
+}))
+
+const mockProcess = jest.fn<(...args: unknown[]) => Promise<void>>()
+
+jest.mock('@/lib/billing/stripe-webhook', () => ({
+  processStripeEvent: (...args: unknown[]) => mockProcess(...args)
+}))
+
+import { StripeEventLedger } from '@/lib/billing/stripe-events'
+import { ConflictError } from '@/lib/errors/error-handler'
+
+const event = {
+  id: 'evt_123',
+  type: 'checkout.session.completed',
+  livemode: false,
+  created: 1767225600,
+  data: { object: {} }
+} as unknown as Stripe.Event
+
+const stripe = {} as Stripe
+
+describe('Stripe Event Ledger', () => {
+  let ledger: StripeEventLedger
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockStoredRow.current = null
+    ledger = new StripeEventLedger()
+  })
+
+  it('should process a newly claimed event and mark it processed', async () => {
+    mockRpc.mockResolvedValueOnce({ data: [{ id: 'evt_123', status: 'processing' }], error: null })
+    mockProcess.mockResolvedValueOnce(undefined)
+
+    const outcome = await ledger.run(event, stripe)
+
+    expect(outcome).toBe('processed')
+    expect(mockRpc).toHaveBeenCalledWith('claim_stripe_event', expect.objectContaining({ p_event_id: 'evt_123' }))
+    expect(mockProcess).toHaveBeenCalledTimes(1)
+    expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ status: 'processed' }))
+  })
+
+  it('should skip a redelivered event without running handlers', async () => {
+    mockRpc.mockResolvedValueOnce({ data: [], error: null })
+
+    const outcome = await ledger.run(event, stripe)
+
+    expect(outcome).toBe('duplicate')
+    expect(mockProcess).not.toHaveBeenCalled()
+    expect(mockUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should record the error and rethrow when a handler fails', async () => {
+    mockRpc.mockResolvedValueOnce({ data: [{ id: 'evt_123', status: 'processing' }], error: null })
+    mockProcess.mockRejectedValueOnce(new Error('subscription update failed'))
+
+    await expect(ledger.run(event, stripe)).rejects.toThrow('subscription update failed')
+    expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'failed',
+      error: 'subscription update failed'
+    }))
+  })
+
+  it('should only re-drive failed events', async () => {
+    mockStoredRow.current = { id: 'evt_123', status: 'processed', payload: event }
+
+    await expect(ledger.redrive('evt_123', stripe, 'admin-1')).rejects.toBeInstanceOf(ConflictError)
+    expect(mockRpc).not.toHaveBeenCalled()
+  })
+
+  it('should re-run a failed event from its stored payload', async () => {
+    mockStoredRow.current = { id: 'evt_123', status: 'failed', payload: event }
+    mockRpc.mockResolvedValueOnce({ data: [{ id: 'evt_123', status: 'processing' }], error: null })
+    mockProcess.mockResolvedValueOnce(undefined)
+
+    const outcome = await ledger.redrive('evt_123', stripe, 'admin-1')
+
+    expect(outcome).toBe('processed')
+    expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ redriven_by: 'admin-1' }))
+    expect(mockProcess).toHaveBeenCalledWith(event, stripe, expect.anything())
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Stripe Webhook Tests
+ * Tests that failed checkout writes fail the event so the ledger keeps it
+ * for re-drive, and that a re-drive does not repeat completed writes
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { processStripeEvent } from '@/lib/billing/stripe-webhook'
+
+type Result = { data: unknown; error: { message: string } | null }
+type Responder = (table: string, op: string) => Result
+
+function fakeSupabase(respond: Responder) {
+  const writes: Array<{ table: string; op: string }> = []
+
+  const from = (table: string) => {
+    let op = 'select'
+    const builder = {
+      update: () => { op = 'update'; writes.push({ table, op }); return builder },
+      insert: () => { op = 'insert'; writes.push({ table, op }); return builder },
+      select: () => builder,
+      eq: () => builder,
+      limit: () => builder,
+      maybeSingle: async () => respond(table, op),
+      single: async () => respond(table, op),
+      then: (resolve: (result: Result) => unknown) => resolve(respond(table, op))
+    }
+    return builder
+  }
+
+  const supabase = {
+    from,
+    rpc: async (fn: string) => {
+      writes.push({ table: fn, op: 'rpc' })
+      return respond(fn, 'rpc')
+    }
+  } as unknown as SupabaseClient
+
+  return { supabase, writes }
+}
+
+const event = {
+  id: 'evt_123',
+  type: 'checkout.session.completed',
+  data: {
+    object: {
+      id: 'cs_123',
+      payment_status: 'paid',
+      customer: 'cus_123',
+      subscription: null,
+      metadata: {
+        user_id: 'user-1',
+        subscription_id: 'sub-row-1',
+        letters: '4',
+        base_price: '599',
+        discount: '0',
+        final_price: '599',
+        coupon_code: '',
+        coupon_id: '',
+        employee_id: 'emp-1',
+        is_super_user_coupon: 'false'
+      }
+    }
+  }
+} as unknown as Stripe.Event
+
+const stripe = {} as Stripe
+const row = { id: 'sub-row-1' }
+
+describe('Stripe Webhook', () => {
+  it('should fail the event when the subscription cannot be activated', async () => {
+    const { supabase } = fakeSupabase(() => ({ data: null, error: { message: 'connection reset' } }))
+
+    await expect(processStripeEvent(event, stripe, supabase)).rejects.toThrow('connection reset')
+  })
+
+  it('should fail the event when the commission cannot be created', async () => {
+    const { supabase } = fakeSupabase((table, op) => {
+      if (table === 'subscriptions') return { data: row, error: null }
+      if (table === 'commissions' && op === 'insert') return { data: null, error: { message: 'insert failed' } }
+      return { data: [], error: null }
+    })
+
+    await expect(processStripeEvent(event, stripe, supabase)).rejects.toThrow('insert failed')
+  })
+
+  it('should pick up the activated row on re-drive without repeating the commission', async () => {
+    const { supabase, writes } = fakeSupabase((table, op) => {
+      if (table === 'subscriptions') return { data: op === 'update' ? null : row, error: null }
+      if (table === 'commissions') return { data: [{ id: 'commission-1' }], error: null }
+      return { data: null, error: null }
+    })
+
+    await processStripeEvent(event, stripe, supabase)
+
+    expect(writes).toEqual([{ table: 'subscriptions', op: 'update' }])
+  })
+})
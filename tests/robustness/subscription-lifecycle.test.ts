@@ -0,0 +1,94 @@
+/**
+ * Subscription Lifecycle Tests
+ * Tests the Stripe payload mapping behind renewal, failed payment and
+ * cancellation webhooks
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import type Stripe from 'stripe'
+import {
+  toLocalSubscriptionStatus,
+  getSubscriptionPeriod,
+  getInvoicePeriod,
+  getInvoiceSubscriptionId,
+  creditsAfterPlanChange
+} from '@/lib/billing/subscription-lifecycle'
+
+const JAN_1 = 1767225600 // 2026-01-01T00:00:00Z
+const FEB_1 = 1769904000 // 2026-02-01T00:00:00Z
+
+describe('Subscription Lifecycle', () => {
+  it('should map Stripe statuses onto the local enum', () => {
+    expect(toLocalSubscriptionStatus('active')).toBe('active')
+    expect(toLocalSubscriptionStatus('trialing')).toBe('trialing')
+    expect(toLocalSubscriptionStatus('past_due')).toBe('past_due')
+    expect(toLocalSubscriptionStatus('unpaid')).toBe('past_due')
+    expect(toLocalSubscriptionStatus('canceled')).toBe('canceled')
+    expect(toLocalSubscriptionStatus('incomplete_expired')).toBe('canceled')
+  })
+
+  it('should leave transitional statuses unmapped', () => {
+    expect(toLocalSubscriptionStatus('incomplete')).toBeNull()
+    expect(toLocalSubscriptionStatus('paused')).toBeNull()
+  })
+
+  it('should read the subscription period from its first item', () => {
+    const subscription = {
+      items: { data: [{ current_period_start: JAN_1, current_period_end: FEB_1 }] }
+    } as unknown as Stripe.Subscription
+
+    expect(getSubscriptionPeriod(subscription)).toEqual({
+      start: '2026-01-01T00:00:00.000Z',
+      end: '2026-02-01T00:00:00.000Z'
+    })
+  })
+
+  it('should return no period for a subscription without items', () => {
+    const subscription = { items: { data: [] } } as unknown as Stripe.Subscription
+
+    expect(getSubscriptionPeriod(subscription)).toBeNull()
+  })
+
+  it('should prefer the invoice line period over the invoice period', () => {
+    const invoice = {
+      period_start: JAN_1 - 2678400,
+      period_end: JAN_1,
+      lines: { data: [{ period: { start: JAN_1, end: FEB_1 } }] }
+    } as unknown as Stripe.Invoice
+
+    expect(getInvoicePeriod(invoice)).toEqual({
+      start: '2026-01-01T00:00:00.000Z',
+      end: '2026-02-01T00:00:00.000Z'
+    })
+  })
+
+  it('should resolve the subscription id from the invoice parent', () => {
+    const byId = {
+      parent: { type: 'subscription_details', subscription_details: { subscription: 'sub_123', metadata: {} } }
+    } as unknown as Stripe.Invoice
+    const expanded = {
+      parent: { type: 'subscription_details', subscription_details: { subscription: { id: 'sub_456' }, metadata: {} } }
+    } as unknown as Stripe.Invoice
+    const oneOff = { parent: null } as unknown as Stripe.Invoice
+
+    expect(getInvoiceSubscriptionId(byId)).toBe('sub_123')
+    expect(getInvoiceSubscriptionId(expanded)).toBe('sub_456')
+    expect(getInvoiceSubscriptionId(oneOff)).toBeNull()
+  })
+
+  it('should add the letter difference on upgrade and cap the balance on downgrade', () => {
+    expect(creditsAfterPlanChange(2, 4, 8)).toBe(6)
+    expect(creditsAfterPlanChange(6, 8, 4)).toBe(4)
+    expect(creditsAfterPlanChange(3, 8, 4)).toBe(3)
+  })
+
+  it('should not grow the balance over an upgrade, downgrade and upgrade round trip', () => {
+    const upgraded = creditsAfterPlanChange(4, 4, 8)
+    const downgraded = creditsAfterPlanChange(upgraded, 8, 4)
+    const upgradedAgain = creditsAfterPlanChange(downgraded, 4, 8)
+
+    expect(upgraded).toBe(8)
+    expect(downgraded).toBe(4)
+    expect(upgradedAgain).toBe(8)
+  })
+})
@@ -39,10 +39,11 @@ export interface LettersSearchParams {
 export interface Profile {
   id: string
   email: string
-  role: 'subscriber' | 'employee' | 'admin'
+  role: 'subscriber' | 'employee' | 'admin' | 'reviewer'
   full_name?: string
   phone?: string
   company_name?: string
+  locale?: string
   avatar_url?: string
   is_super_user?: boolean
   created_at: string
@@ -65,6 +66,9 @@ export interface Subscription {
   current_period_end: string
   stripe_session_id?: string
   stripe_customer_id?: string
+  stripe_subscription_id?: string
+  cancel_at_period_end?: boolean
+  canceled_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -74,14 +78,26 @@ export type SubscriptionStatus =
   | 'pending'
   | 'canceled'
   | 'payment_failed'
+  | 'past_due'
+  | 'trialing'
   | 'expired'
 
 // Employee coupon types
 export interface EmployeeCoupon {
   id: string
-  employee_id: string
+  // null for marketing campaign codes
+  employee_id: string | null
   code: string
+  description?: string | null
+  discount_type: 'percent' | 'fixed'
   discount_percent: number
+  discount_amount?: number | null
+  starts_at?: string | null
+  expires_at?: string | null
+  max_redemptions?: number | null
+  max_redemptions_per_user?: number | null
+  allowed_plans?: string[] | null
+  first_purchase_only: boolean
   is_active: boolean
   usage_count: number
   created_at: string
@@ -106,6 +122,7 @@ export interface CouponUsage {
   id: string
   user_id: string
   coupon_code: string
+  coupon_id?: string
   employee_id?: string
   subscription_id?: string
   plan_type?: string